@@ -11,6 +11,8 @@ module.exports = {
     '<rootDir>/src/**/__tests__/**/*.{js,jsx,ts,tsx}',
     '<rootDir>/src/**/*.{test,spec}.{js,jsx,ts,tsx}',
   ],
+  // Shared test data, not suites
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/src/__tests__/fixtures/'],
   collectCoverageFrom: [
     'src/**/*.{js,jsx,ts,tsx}',
     '!src/index.{js,ts}',
@@ -0,0 +1,46 @@
+// Service worker for Web Push notifications. Shows pushed notifications and
+// opens their deep link when one is clicked.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (error) {
+    data = { title: 'ScheduleBud', body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'ScheduleBud', {
+      body: data.body || '',
+      tag: data.tag,
+      icon: '/favicon-192x192.png',
+      badge: '/favicon-32x32.png',
+      data: { url: data.url || '/?app=true' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/?app=true';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        // The open app shows the target itself, without a reload
+        client.postMessage({ type: 'notification-click', url });
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,22 @@
+/**
+ * Task rows shared by the tests
+ */
+
+import type { Task } from "../../types/database";
+
+const baseTask: Task = {
+  id: "task-1",
+  user_id: "user-1",
+  title: "Task",
+  completed: false,
+  created_at: "2024-09-01T00:00:00Z",
+};
+
+/**
+ * Builds tasks on top of the given defaults, e.g. the due date most tasks of
+ * a suite share
+ */
+export const taskFactory = (defaults: Partial<Task> = {}) =>
+  (overrides: Partial<Task> = {}): Task => ({ ...baseTask, ...defaults, ...overrides });
+
+export const makeTask = taskFactory();
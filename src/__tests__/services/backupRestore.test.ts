@@ -0,0 +1,127 @@
+/**
+ * Tests for restoring JSON backups
+ */
+
+import {
+  applyBackupRestore,
+  createOperationsStore,
+  diffBackup,
+  type BackupEntity,
+  type BackupRecord,
+  type BackupRecordStore,
+  type BackupSnapshot,
+} from "../../services/import/backupRestore";
+import { supabase } from "../../services/supabaseClient";
+
+const snapshot = (records: Partial<BackupSnapshot>): BackupSnapshot => ({
+  taskTypes: [],
+  classes: [],
+  tasks: [],
+  gradeCategories: [],
+  assignments: [],
+  grades: [],
+  studySessions: [],
+  ...records,
+});
+
+const memoryStore = (failOn?: (entity: BackupEntity, record: Record<string, unknown>) => boolean) => {
+  const rows = new Map<string, Record<string, unknown>>();
+  let nextId = 1;
+  const store: BackupRecordStore = {
+    async insert(entity, record) {
+      if (failOn?.(entity, record)) throw new Error("insert failed");
+      const inserted = { ...record, id: (record as BackupRecord).id || `new-${nextId++}` } as BackupRecord;
+      rows.set(`${entity}:${inserted.id}`, inserted);
+      return inserted;
+    },
+    async update(entity, id, changes) {
+      rows.set(`${entity}:${id}`, { ...rows.get(`${entity}:${id}`), ...changes, id });
+    },
+    async remove(entity, id) {
+      rows.delete(`${entity}:${id}`);
+    },
+  };
+  return { store, rows };
+};
+
+const backup = snapshot({
+  classes: [{ id: "b-class", name: "Biology" }, { id: "b-chem", name: "Chemistry" }],
+  tasks: [
+    { id: "b-task-1", title: "Lab report", dueDate: "2024-10-05", class: "b-class", priority: "high" },
+    { id: "b-task-2", title: "Reading", dueDate: "2024-10-06", class: "b-chem" },
+  ],
+});
+
+const local = snapshot({
+  classes: [{ id: "l-class", name: "Biology", user_id: "user-2" }],
+  tasks: [
+    { id: "l-task-1", title: "Lab report", dueDate: "2024-10-05", class: "l-class", priority: "low" },
+    { id: "l-task-3", title: "Essay", dueDate: "2024-10-07" },
+  ],
+});
+
+describe("diffBackup", () => {
+  test("matches records across accounts by name after remapping references", () => {
+    const diff = diffBackup(backup, local, false);
+
+    expect(diff.counts.classes).toEqual({ new: 1, identical: 1, changed: 0, "local-only": 0 });
+    expect(diff.counts.tasks).toEqual({ new: 1, identical: 0, changed: 1, "local-only": 1 });
+    expect(diff.items.find(item => item.key === "tasks:b-task-1")?.changedFields).toEqual(["priority"]);
+  });
+});
+
+describe("applyBackupRestore", () => {
+  test("points restored tasks at matched and newly added classes", async () => {
+    const { store, rows } = memoryStore();
+    const diff = diffBackup(backup, local, false);
+
+    const result = await applyBackupRestore(diff, { defaultResolution: "overwrite" }, store, "user-2");
+
+    expect(result.restored).toMatchObject({ classes: 1, tasks: 2 });
+    expect(rows.get("tasks:l-task-1")).toMatchObject({ priority: "high", class: "l-class" });
+    const chemistry = Array.from(rows.values()).find(row => row.name === "Chemistry");
+    const reading = Array.from(rows.values()).find(row => row.title === "Reading");
+    expect(reading).toMatchObject({ class: chemistry?.id, user_id: "user-2" });
+    expect(reading?.id).not.toBe("b-task-2");
+  });
+
+  test("keeps both copies or skips per conflict", async () => {
+    const { store, rows } = memoryStore();
+    const diff = diffBackup(backup, local, false);
+
+    const result = await applyBackupRestore(diff, {
+      defaultResolution: "overwrite",
+      resolutions: { "tasks:b-task-1": "skip" },
+    }, store, "user-2");
+    expect(result.skipped).toBe(1);
+    expect(rows.has("tasks:l-task-1")).toBe(false);
+
+    const keepBoth = memoryStore();
+    await applyBackupRestore(diffBackup(backup, local, false), { defaultResolution: "keep-both" }, keepBoth.store, "user-2");
+    expect(Array.from(keepBoth.rows.values()).filter(row => row.title === "Lab report")).toHaveLength(1);
+  });
+
+  test("rolls back earlier writes when one fails", async () => {
+    const { store, rows } = memoryStore((entity, record) => entity === "tasks" && record.title === "Reading");
+    rows.set("tasks:l-task-1", local.tasks[0]);
+    const diff = diffBackup(backup, local, false);
+
+    await expect(applyBackupRestore(diff, { defaultResolution: "overwrite" }, store, "user-2"))
+      .rejects.toThrow("Restore failed and was rolled back: insert failed");
+    expect(Array.from(rows.keys())).toEqual(["tasks:l-task-1"]);
+    expect(rows.get("tasks:l-task-1")).toMatchObject({ priority: "low", class: "l-class" });
+  });
+});
+
+describe("createOperationsStore", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test("fails task updates that change no row, so the restore rolls back", async () => {
+    jest.spyOn(supabase, "from").mockImplementation((() => ({
+      update: () => ({ eq: () => ({ select: () => Promise.resolve({ data: [], error: null }) }) }),
+    })) as never);
+    const store = createOperationsStore(true);
+
+    await expect(store.update("tasks", "missing", { title: "Essay" })).rejects.toThrow("Could not update tasks");
+  });
+});
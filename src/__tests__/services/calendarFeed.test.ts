@@ -0,0 +1,83 @@
+/**
+ * Tests for subscribable calendar feeds served by the local stand-in
+ */
+
+import {
+  createFeedToken,
+  updateFeedSettings,
+  rotateFeedToken,
+  revokeFeedToken,
+  getFeedUrl,
+  serveLocalCalendarFeed,
+} from "../../services/feedToken";
+import { STORAGE_KEYS } from "../../types/database";
+import type { Class, TaskType } from "../../types/database";
+import { taskFactory } from "../fixtures/tasks";
+
+const makeTask = taskFactory({ id: "task", user_id: "local-user", dueDate: "2024-10-01" });
+
+const seedLocalData = (): void => {
+  const tasks = [
+    makeTask({ id: "essay", title: "Essay Draft", class: "eng", type: "assignment" }),
+    makeTask({ id: "lab", title: "Lab Report", class: "chem", type: "assignment" }),
+    makeTask({ id: "quiz", title: "Old Quiz", class: "eng", type: "quiz", completed: true }),
+  ];
+  const classes = [
+    { id: "eng", name: "English 101" },
+    { id: "chem", name: "Chemistry 110" },
+  ] as Class[];
+  const taskTypes = [
+    { id: "assignment", name: "Assignment" },
+    { id: "quiz", name: "Quiz" },
+  ] as TaskType[];
+
+  localStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(tasks));
+  localStorage.setItem(STORAGE_KEYS.CLASSES, JSON.stringify(classes));
+  localStorage.setItem(STORAGE_KEYS.TASK_TYPES, JSON.stringify(taskTypes));
+};
+
+describe("calendar feed stand-in", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    seedLocalData();
+  });
+
+  test("serves the feed's tasks with its filters applied", async () => {
+    const feed = await createFeedToken({ label: "English", class_ids: ["eng"] });
+
+    const response = await serveLocalCalendarFeed(getFeedUrl(feed.token, { webcal: true }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers["Content-Type"]).toBe("text/calendar; charset=utf-8");
+    expect(response.body).toContain("X-WR-CALNAME:English");
+    expect(response.body).toContain("SUMMARY:Essay Draft");
+    expect(response.body).not.toContain("SUMMARY:Lab Report");
+    expect(response.body).not.toContain("SUMMARY:Old Quiz");
+
+    await updateFeedSettings(feed.id, { include_completed: true, task_type_ids: ["quiz"] });
+    const updated = await serveLocalCalendarFeed(getFeedUrl(feed.token));
+
+    expect(updated.body).toContain("SUMMARY:Old Quiz");
+    expect(updated.body).not.toContain("SUMMARY:Essay Draft");
+  });
+
+  test("stops serving old tokens after rotation and revocation", async () => {
+    const feed = await createFeedToken();
+    const rotated = await rotateFeedToken(feed.id);
+
+    expect(rotated.token).not.toBe(feed.token);
+    expect((await serveLocalCalendarFeed(getFeedUrl(feed.token))).status).toBe(404);
+    expect((await serveLocalCalendarFeed(getFeedUrl(rotated.token))).status).toBe(200);
+
+    await revokeFeedToken(feed.id);
+
+    expect((await serveLocalCalendarFeed(getFeedUrl(rotated.token))).status).toBe(404);
+  });
+
+  test("rejects missing tokens and write methods", async () => {
+    const feed = await createFeedToken();
+
+    expect((await serveLocalCalendarFeed("/functions/v1/calendar-feed")).status).toBe(404);
+    expect((await serveLocalCalendarFeed(getFeedUrl(feed.token), "POST")).status).toBe(405);
+  });
+});
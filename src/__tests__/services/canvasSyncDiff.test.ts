@@ -0,0 +1,84 @@
+/**
+ * Tests for Canvas feed change detection
+ */
+
+import { diffCanvasTasks, createSnapshot } from "../../services/canvas/syncDiff";
+import { taskFactory } from "../fixtures/tasks";
+
+const makeTask = taskFactory({
+  title: "Homework 1",
+  dueDate: "2024-10-15",
+  dueTime: "23:59",
+  canvas_uid: "assignment_1",
+});
+
+describe("diffCanvasTasks", () => {
+  test("separates added, updated and unchanged tasks", () => {
+    const existing = [
+      makeTask({ id: "t1", canvas_uid: "a1", title: "Homework 1" }),
+      makeTask({ id: "t2", canvas_uid: "a2", title: "Homework 2" }),
+    ];
+    const snapshots = {
+      a1: createSnapshot({ title: "Homework 1", dueDate: "2024-10-15", dueTime: "23:59" }),
+      a2: createSnapshot({ title: "Homework 2", dueDate: "2024-10-15", dueTime: "23:59" }),
+    };
+
+    const diff = diffCanvasTasks([
+      { canvas_uid: "a1", title: "Homework 1", dueDate: "2024-10-15", dueTime: "23:59" },
+      { canvas_uid: "a2", title: "Homework 2", dueDate: "2024-10-18", dueTime: "23:59" },
+      { canvas_uid: "a3", title: "Homework 3", dueDate: "2024-10-22", dueTime: "23:59" },
+    ], existing, snapshots);
+
+    expect(diff.unchanged.map(task => task.id)).toEqual(["t1"]);
+    expect(diff.updated).toHaveLength(1);
+    expect(diff.updated[0].changes).toEqual({ dueDate: "2024-10-18" });
+    expect(diff.added.map(task => task.canvas_uid)).toEqual(["a3"]);
+  });
+
+  test("flags a conflict when the user edited the field Canvas changed", () => {
+    const existing = [makeTask({ canvas_uid: "a1", dueDate: "2024-10-16" })];
+    const snapshots = { a1: createSnapshot({ title: "Homework 1", dueDate: "2024-10-15", dueTime: "23:59" }) };
+
+    const diff = diffCanvasTasks([
+      { canvas_uid: "a1", title: "Homework 1", dueDate: "2024-10-20", dueTime: "23:59" },
+    ], existing, snapshots);
+
+    expect(diff.updated).toHaveLength(0);
+    expect(diff.conflicts).toHaveLength(1);
+    expect(diff.conflicts[0].fields).toEqual([
+      { field: "dueDate", localValue: "2024-10-16", remoteValue: "2024-10-20" },
+    ]);
+  });
+
+  test("keeps local edits to fields Canvas did not change", () => {
+    const existing = [makeTask({ canvas_uid: "a1", title: "HW 1 (start early)" })];
+    const snapshots = { a1: createSnapshot({ title: "Homework 1", dueDate: "2024-10-15", dueTime: "23:59" }) };
+
+    const diff = diffCanvasTasks([
+      { canvas_uid: "a1", title: "Homework 1", dueDate: "2024-10-17", dueTime: "23:59" },
+    ], existing, snapshots);
+
+    expect(diff.updated[0].changes).toEqual({ dueDate: "2024-10-17" });
+  });
+
+  test("clears fields Canvas no longer sends", () => {
+    const existing = [makeTask({ canvas_uid: "a1" })];
+    const snapshots = { a1: createSnapshot({ title: "Homework 1", dueDate: "2024-10-15", dueTime: "23:59" }) };
+
+    const diff = diffCanvasTasks([
+      { canvas_uid: "a1", title: "Homework 1", dueDate: "2024-10-15" },
+    ], existing, snapshots);
+
+    expect(diff.updated[0].changes).toEqual({ dueTime: "" });
+    expect(diff.updated[0].changedFields).toEqual(["dueTime"]);
+  });
+
+  test("reports tracked tasks missing from the feed as removed", () => {
+    const existing = [makeTask({ canvas_uid: "a1" }), makeTask({ id: "t2", canvas_uid: "manual" })];
+    const snapshots = { a1: createSnapshot({ title: "Homework 1" }) };
+
+    const diff = diffCanvasTasks([], existing, snapshots);
+
+    expect(diff.removed.map(task => task.canvas_uid)).toEqual(["a1"]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for resolving course codes and names to the user's classes
+ */
+
+import {
+  classNameSimilarity,
+  getClassResolverMemory,
+  parseCourseCode,
+  recordClassCorrections,
+  resolveClass,
+  setClassAliases,
+} from "../../services/class/classResolver";
+import { getTaskReviewOutcome, type GeneratedTask, type TaskReviewItem } from "../../services/syllabus";
+
+const classes = [
+  { id: "c1", name: "NURS 3310 Adult Health I" },
+  { id: "c2", name: "Introduction to Psychology" },
+  { id: "c3", name: "Principles of Marketing" },
+  { id: "ee123", name: "Power Electronics" },
+];
+
+const resolvedId = (courseCode?: string, courseName?: string, memory = getClassResolverMemory("user-1")) =>
+  resolveClass({ courseCode, courseName }, classes, memory)?.class.id;
+
+describe("parseCourseCode", () => {
+  test.each([
+    ["CS 101", "CS101"],
+    ["math-120a", "MATH120A"],
+    ["NURS_3310", "NURS3310"],
+    ["ECON 1B03", "ECON1B03"],
+    ["2024FA-BIOL-2010-01", "BIOL2010"],
+    ["FA24 HIST.210 Sec 002", "HIST210"],
+  ])("reads %s as %s", (text: string, key: string) => {
+    expect(parseCourseCode(text)?.key).toBe(key);
+  });
+
+  test("keeps only the number of codes without a subject", () => {
+    expect(parseCourseCode("ugrd198g")).toEqual({ subject: null, number: "198G", key: "198G" });
+    expect(parseCourseCode("123")).toEqual({ subject: null, number: "123", key: "123" });
+  });
+
+  test("ignores text that isn't a course code", () => {
+    expect(parseCourseCode("Lab 12")).toBeNull();
+    expect(parseCourseCode("Principles of Marketing")).toBeNull();
+  });
+});
+
+describe("resolveClass", () => {
+  beforeEach(() => localStorage.clear());
+
+  test("matches course codes in any format against the class id or name", () => {
+    expect(resolvedId("nurs-3310")).toBe("c1");
+    expect(resolvedId("EE 123")).toBe("ee123");
+    expect(resolvedId("123")).toBe("ee123");
+    expect(resolvedId("NURS 3320")).toBeUndefined();
+  });
+
+  test("fuzzy matches class names outside any subject list", () => {
+    expect(classNameSimilarity("Intro to Psychology", "Introduction to Psychology")).toBeGreaterThan(0.7);
+    expect(resolvedId(undefined, "Intro to Psychology")).toBe("c2");
+    expect(resolvedId(undefined, "Marketing Principles")).toBe("c3");
+    expect(resolvedId(undefined, "Organic Chemistry")).toBeUndefined();
+  });
+
+  test("uses the user's aliases before anything else", () => {
+    setClassAliases("user-1", "c3", ["MKTG 300", " mktg 300 ", "Marketing"]);
+
+    expect(getClassResolverMemory("user-1").aliases).toEqual({ c3: ["MKTG 300", "Marketing"] });
+    expect(resolvedId("MKTG-300")).toBe("c3");
+    expect(resolvedId(undefined, "marketing")).toBe("c3");
+    expect(resolvedId("MKTG 300", undefined, getClassResolverMemory("user-2"))).toBeUndefined();
+  });
+
+  test("learns from corrections, keeping the latest", () => {
+    recordClassCorrections("user-1", [{ query: { courseCode: "PSY 1010" }, classId: "c3" }]);
+    recordClassCorrections("user-1", [{ query: { courseCode: "psy1010", courseName: "Psych" }, classId: "c2" }]);
+
+    expect(resolvedId("PSY-1010")).toBe("c2");
+  });
+});
+
+describe("review class corrections", () => {
+  const item = (task: Partial<GeneratedTask>, suggestedClassId?: string): TaskReviewItem => ({
+    id: task.title || "item",
+    task: { title: "Essay", taskType: "assignment", priority: "medium", confidenceScore: 0.9, ...task },
+    approved: true,
+    confidence: "high",
+    rejectedBefore: false,
+    mergedFrom: [],
+    suggestedClassId,
+  });
+
+  test("are the approved tasks with course information moved to another class", () => {
+    const { classCorrections } = getTaskReviewOutcome([
+      item({ title: "Moved", courseCode: "PSY 1010", classId: "c2" }, "c3"),
+      item({ title: "Kept", courseCode: "NURS 3310", classId: "c1" }, "c1"),
+      item({ title: "No course", classId: "c2" }),
+      { ...item({ title: "Rejected", courseCode: "MKTG 300", classId: "c3" }), approved: false },
+    ]);
+
+    expect(classCorrections).toEqual([{ query: { courseCode: "PSY 1010", courseName: undefined }, classId: "c2" }]);
+  });
+});
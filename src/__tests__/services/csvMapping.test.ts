@@ -0,0 +1,94 @@
+/**
+ * Tests for CSV column mapping
+ */
+
+import {
+  BUILT_IN_PRESETS,
+  mapCSVRows,
+  matchPreset,
+  parseDateValue,
+  suggestMapping,
+} from "../../services/import/csvMapping";
+
+const context = {
+  userId: "user-1",
+  classes: [{ id: "class-bio", name: "Biology 101" }],
+  taskTypes: [{ id: "type-hw", name: "Homework" }],
+};
+
+describe("suggestMapping", () => {
+  test("matches exact headers before partial ones", () => {
+    expect(suggestMapping(["Assignment", "Course", "Start Time", "Start Date", "Due Date", "Priority"])).toEqual({
+      title: "Assignment",
+      class: "Course",
+      startTime: "Start Time",
+      startDate: "Start Date",
+      dueDate: "Due Date",
+      priority: "Priority",
+    });
+  });
+});
+
+describe("matchPreset", () => {
+  test("recognizes Todoist exports by their columns", () => {
+    const headers = ["TYPE", "CONTENT", "DESCRIPTION", "PRIORITY", "INDENT", "DATE", "TIMEZONE"];
+    expect(matchPreset(headers, BUILT_IN_PRESETS)?.id).toBe("todoist");
+  });
+});
+
+describe("parseDateValue", () => {
+  test("reads common spreadsheet date formats", () => {
+    expect(parseDateValue("2024-10-05")).toEqual({ date: "2024-10-05" });
+    expect(parseDateValue("10/05/2024 3:30 PM")).toEqual({ date: "2024-10-05", time: "15:30" });
+    expect(parseDateValue("25/12/2024")).toEqual({ date: "2024-12-25" });
+    expect(parseDateValue("05/10/2024", "dmy")).toEqual({ date: "2024-10-05" });
+    expect(parseDateValue("October 5, 2024 9:00 AM → October 6, 2024")).toEqual({ date: "2024-10-05", time: "09:00" });
+    expect(parseDateValue("02/30/2024")).toBeNull();
+  });
+});
+
+describe("mapCSVRows", () => {
+  test("builds tasks and reports each row's problems", () => {
+    const rows = mapCSVRows(
+      {
+        headers: ["TYPE", "CONTENT", "DATE", "PRIORITY", "Class", "Kind"],
+        rows: [
+          ["section", "Week 1", "", "", "", ""],
+          ["task", "Lab report", "2024-10-05 23:59", "p1", "biology 101", "Homework"],
+          ["task", "Reading", "someday", "whenever", "Chemistry", ""],
+        ],
+        delimiter: ",",
+      },
+      {
+        columns: { title: "CONTENT", dueDate: "DATE", priority: "PRIORITY", class: "Class", type: "Kind" },
+        rowFilter: { column: "TYPE", value: "task" },
+      },
+      context
+    );
+
+    expect(rows[0].filtered).toBe(true);
+    expect(rows[1]).toMatchObject({
+      rowNumber: 3,
+      errors: [],
+      task: { title: "Lab report", dueDate: "2024-10-05", dueTime: "23:59", priority: "high", class: "class-bio", type: "type-hw" },
+    });
+    expect(rows[2].errors.map(error => error.field)).toEqual(["dueDate"]);
+    expect(rows[2].warnings.map(warning => warning.field)).toEqual(["priority", "class"]);
+  });
+
+  test("imports start and end columns as duration tasks", () => {
+    const [row] = mapCSVRows(
+      { headers: ["Title", "Start", "End"], rows: [["Study group", "2024-10-05 14:00", "2024-10-05 16:00"]], delimiter: "," },
+      { columns: { title: "Title", startDate: "Start", endDate: "End" } },
+      context
+    );
+
+    expect(row.task).toMatchObject({
+      isDuration: true,
+      startDate: "2024-10-05",
+      startTime: "14:00",
+      endTime: "16:00",
+      dueDate: "2024-10-05",
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for the exam prep planner and readiness
+ */
+
+import { getExamReadiness, planExamPrep, type ExamPrepInput } from "../../services/examPrep";
+import { FilterService } from "../../services/filterService";
+import { formatDateForInput } from "../../utils/dateHelpers";
+import type { StudySession } from "../../types/studySchedule";
+import type { Task, TaskType } from "../../types/database";
+
+// 2024-10-14 is a Monday, the exam two weeks later
+const exam: Task = {
+  id: "midterm",
+  user_id: "user-1",
+  title: "Midterm",
+  class: "cs101",
+  type: "exam-type",
+  completed: false,
+  dueDate: "2024-10-28",
+  dueTime: "09:00",
+  created_at: "2024-09-01T00:00:00Z",
+};
+
+const input = (overrides: Partial<ExamPrepInput>): ExamPrepInput => ({
+  exam,
+  topics: [
+    { name: "Sorting", confidence: 4 },
+    { name: "Recursion", confidence: 1 },
+  ],
+  profile: {
+    preferred_study_times: [0, 1, 2, 3, 4, 5, 6].map(day_of_week => ({
+      day_of_week,
+      start_time: "09:00",
+      end_time: "12:00",
+      productivity_score: 8,
+    })),
+    focus_duration_minutes: 60,
+    break_duration_minutes: 0,
+    daily_study_limit_hours: 3,
+  },
+  busy: [],
+  now: "2024-10-14T08:00",
+  createdAt: "2024-10-14T08:00:00.000Z",
+  ...overrides,
+});
+
+const minutesFor = (sessions: StudySession[], focusArea: string) =>
+  sessions.filter(session => session.focus_area === focusArea).reduce((sum, session) => sum + session.duration_minutes, 0);
+
+const session = (overrides: Partial<StudySession>): StudySession => ({
+  id: "prep",
+  schedule_id: "",
+  date: "2024-10-15",
+  start_time: "09:00",
+  end_time: "10:00",
+  duration_minutes: 60,
+  class_id: "cs101",
+  task_ids: ["midterm"],
+  session_type: "exam_prep",
+  prep_phase: "review",
+  focus_area: "Review: Recursion",
+  difficulty_level: 5,
+  prerequisite_concepts: [],
+  learning_objectives: [],
+  status: "scheduled",
+  created_at: "2024-10-14T08:00:00.000Z",
+  updated_at: "2024-10-14T08:00:00.000Z",
+  ...overrides,
+});
+
+describe("planExamPrep", () => {
+  test("back-plans review, then practice, then a mock exam, weakest topics first", () => {
+    const { sessions, unmet } = planExamPrep(input({}));
+
+    expect(unmet).toEqual([]);
+    expect(sessions[0]).toEqual(expect.objectContaining({ date: "2024-10-14", focus_area: "Review: Recursion" }));
+    expect(minutesFor(sessions, "Review: Recursion")).toBe(100);
+    expect(minutesFor(sessions, "Review: Sorting")).toBe(40);
+    expect(minutesFor(sessions, "Practice: Recursion")).toBe(75);
+
+    sessions.forEach(prep => {
+      expect(prep).toEqual(expect.objectContaining({ session_type: "exam_prep", task_ids: ["midterm"] }));
+      if (prep.prep_phase === "review") expect(prep.date <= "2024-10-20").toBe(true);
+      if (prep.prep_phase === "practice") expect(prep.date >= "2024-10-21" && prep.date < "2024-10-28").toBe(true);
+    });
+
+    const mocks = sessions.filter(prep => prep.prep_phase === "mock_exam");
+    expect(mocks).toEqual([expect.objectContaining({ duration_minutes: 120, focus_area: "Mock exam: Midterm" })]);
+    expect(mocks[0].date >= "2024-10-24" && mocks[0].date <= "2024-10-26").toBe(true);
+  });
+
+  test("plans up to the due time of an exam that keeps the form's default times", () => {
+    const { sessions } = planExamPrep(input({
+      exam: { ...exam, startDate: "2024-10-28", startTime: "08:00", endTime: "11:00" },
+    }));
+
+    expect(sessions).toEqual(planExamPrep(input({})).sessions);
+  });
+
+  test("doesn't plan again what's already done", () => {
+    const { sessions } = planExamPrep(input({
+      now: "2024-10-15T12:00",
+      done: [session({ status: "completed" })],
+    }));
+
+    expect(minutesFor(sessions, "Review: Recursion")).toBe(40);
+    sessions.forEach(prep => expect(prep.date >= "2024-10-16").toBe(true));
+  });
+});
+
+describe("getExamReadiness", () => {
+  const topics = [
+    { name: "Recursion", confidence: 1 as const },
+    { name: "Sorting", confidence: 5 as const },
+  ];
+
+  test("combines confidence with prep done so far", () => {
+    const readiness = getExamReadiness({
+      topics,
+      sessions: [session({ status: "completed" }), session({ id: "later", date: "2024-10-22" })],
+    }, "2024-10-28", [], "2024-10-16T12:00");
+
+    expect(readiness).toEqual({
+      score: 50,
+      confidence: 50,
+      progress: 50,
+      expectedProgress: 50,
+      recall: null,
+      onTrack: true,
+      weakTopics: ["Recursion"],
+      daysLeft: 12,
+    });
+  });
+
+  test("is behind when planned sessions were missed", () => {
+    const readiness = getExamReadiness({
+      topics,
+      sessions: [session({ status: "completed" }), session({ id: "missed", date: "2024-10-16" })],
+    }, "2024-10-28", [], "2024-10-20T12:00");
+
+    expect(readiness.expectedProgress).toBe(100);
+    expect(readiness.onTrack).toBe(false);
+  });
+});
+
+describe("Upcoming Exams preset", () => {
+  test("finds exam tasks and links to each one's prep plan", () => {
+    const dueIn = (days: number) => formatDateForInput(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+    const taskTypes: TaskType[] = [
+      { id: "exam-type", user_id: "user-1", name: "Midterm Exam", created_at: "2024-09-01T00:00:00Z" },
+      { id: "homework-type", user_id: "user-1", name: "Homework", created_at: "2024-09-01T00:00:00Z" },
+    ];
+    const tasks: Task[] = [
+      { ...exam, dueDate: dueIn(3) },
+      { ...exam, id: "done-exam", completed: true, dueDate: dueIn(2) },
+      { ...exam, id: "homework", type: "homework-type", dueDate: dueIn(1) },
+    ];
+
+    const preset = FilterService.getAcademicPresets(tasks, taskTypes).find(candidate => candidate.id === "upcoming-exams");
+
+    expect(preset?.criteria.taskTypeIds).toEqual(["exam-type"]);
+    expect(preset?.links).toEqual([
+      expect.objectContaining({ id: "midterm", label: "Midterm", target: { type: "exam", id: "midterm" } }),
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for the registry of calendar feeds tasks are synced from
+ */
+
+import { addFeed, getFeeds, syncFeed, CALENDAR_FEEDS_KEY } from "../../services/canvas/feedRegistry";
+import { fetchCanvasCalendar } from "../../services/canvasService";
+import { isCanvasConfigured } from "../../services/settings/settingsOperations";
+
+jest.mock("../../services/canvasService", () => ({
+  PRIMARY_CANVAS_FEED_ID: "canvas",
+  fetchCanvasCalendar: jest.fn(),
+}));
+
+const mockFetch = fetchCanvasCalendar as jest.MockedFunction<typeof fetchCanvasCalendar>;
+
+describe("feed registry", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetch.mockReset();
+  });
+
+  test("migrates the old single Canvas URL into the primary Canvas feed once", () => {
+    localStorage.setItem("canvas_calendar_url", " https://school.instructure.com/feeds/calendars/user_1.ics ");
+
+    expect(getFeeds()).toEqual([expect.objectContaining({
+      id: "canvas",
+      source: "canvas",
+      url: "https://school.instructure.com/feeds/calendars/user_1.ics",
+      enabled: true,
+    })]);
+    expect(JSON.parse(localStorage.getItem(CALENDAR_FEEDS_KEY) || "[]")).toHaveLength(1);
+    expect(isCanvasConfigured()).toBe(true);
+
+    localStorage.removeItem("canvas_calendar_url");
+    expect(getFeeds()).toHaveLength(1);
+  });
+
+  test("adds feeds, giving the first Canvas feed the primary id and refusing repeats", () => {
+    const gradescope = addFeed({ label: "Gradescope", url: "webcal://www.gradescope.com/calendar.ics" });
+    const canvas = addFeed({ label: " Canvas ", url: "https://school.instructure.com/feeds/calendars/user_1.ics" });
+    const second = addFeed({ label: "Old school", url: "https://old.instructure.com/feeds/calendars/user_2.ics" });
+
+    expect(gradescope).toMatchObject({ source: "gradescope", url: "https://www.gradescope.com/calendar.ics" });
+    expect(canvas).toMatchObject({ id: "canvas", label: "Canvas", source: "canvas" });
+    expect(second.id).not.toBe("canvas");
+    expect(() => addFeed({ label: "Again", url: "webcals://www.gradescope.com/calendar.ics" }))
+      .toThrow("This calendar feed has already been added");
+    expect(getFeeds().map(feed => feed.id)).toEqual([gradescope.id, "canvas", second.id]);
+  });
+
+  test("syncs a feed with its own settings and records how it went", async () => {
+    const feed = addFeed({ label: "Gradescope", url: "https://www.gradescope.com/calendar.ics", defaultClassId: "class-7" });
+    mockFetch.mockResolvedValueOnce({ success: true, message: "Imported 2 tasks", tasks: [] });
+
+    const result = await syncFeed(feed);
+
+    expect(mockFetch).toHaveBeenCalledWith(feed.url, false, null, expect.objectContaining({
+      feedId: feed.id,
+      defaultClassId: "class-7",
+      validation: "generic",
+    }));
+    expect(result).toMatchObject({ feedId: feed.id, success: true });
+    expect(getFeeds()[0].lastSync).toMatchObject({ success: true, message: "Imported 2 tasks" });
+
+    mockFetch.mockRejectedValueOnce(new Error("Proxy unavailable"));
+    const failed = await syncFeed(feed);
+
+    expect(failed).toMatchObject({ success: false, message: "Gradescope sync failed: Proxy unavailable" });
+    expect(getFeeds()[0].lastSync).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for the Pomodoro focus timer
+ */
+
+import {
+  advanceFocusTimer,
+  createFocusTimer,
+  getFocusTimerSettings,
+  getRemainingMs,
+  pauseFocusTimer,
+  resumeFocusTimer,
+  startFocusBlock,
+  stopFocusPhase,
+  type FocusTimerSettings,
+} from "../../services/focusTimer";
+
+const settings: FocusTimerSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 2,
+};
+
+const at = (time: string) => new Date(`2024-10-10T${time}:00Z`);
+
+describe("focus timer", () => {
+  beforeEach(() => localStorage.clear());
+
+  test("takes focus and break lengths from the study profile", () => {
+    expect(getFocusTimerSettings({ focus_duration_minutes: 50, break_duration_minutes: 10 })).toEqual({
+      focusMinutes: 50,
+      shortBreakMinutes: 10,
+      longBreakMinutes: 30,
+      cyclesBeforeLongBreak: 4,
+    });
+  });
+
+  test("finishes a block into a short break, then a long break after the set number of blocks", () => {
+    let timer = startFocusBlock(createFocusTimer("session-1", settings), "segment-1", at("09:00"));
+
+    let update = advanceFocusTimer(timer, at("09:26"));
+    expect(update.finished).toEqual([{ segmentId: "segment-1", endedAt: at("09:25").toISOString(), minutes: 25, completed: true }]);
+    expect(update.state.phase).toBe("short_break");
+    expect(update.state.phaseEndsAt).toBe(at("09:30").toISOString());
+
+    timer = startFocusBlock(advanceFocusTimer(update.state, at("09:31")).state, "segment-2", at("09:31"));
+    update = advanceFocusTimer(timer, at("09:57"));
+    expect(update.state.phase).toBe("long_break");
+    expect(update.state.cycle).toBe(2);
+  });
+
+  test("catches up on phases that ended while the page was closed", () => {
+    const timer = startFocusBlock(createFocusTimer("session-1", settings), "segment-1", at("09:00"));
+    const update = advanceFocusTimer(timer, at("11:00"));
+
+    expect(update.finished).toHaveLength(1);
+    expect(update.state.phase).toBe("idle");
+  });
+
+  test("doesn't count paused time and records blocks stopped early as incomplete", () => {
+    let timer = startFocusBlock(createFocusTimer("session-1", settings), "segment-1", at("09:00"));
+    timer = pauseFocusTimer(timer, at("09:10"));
+    expect(advanceFocusTimer(timer, at("10:00")).state).toBe(timer);
+
+    timer = resumeFocusTimer(timer, at("10:00"));
+    expect(getRemainingMs(timer, at("10:00"))).toBe(15 * 60 * 1000);
+
+    const update = stopFocusPhase(timer, at("10:05"));
+    expect(update.finished).toEqual([{ segmentId: "segment-1", endedAt: at("10:05").toISOString(), minutes: 15, completed: false }]);
+    expect(update.state.phase).toBe("idle");
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for the class grade engine
+ */
+
+import { computeClassGrade, calculateNeededScore } from "../../services/grade/gradeEngine";
+import type { AssignmentWithGrade, GradeCategory } from "../../types/database";
+
+const category = (overrides: Partial<GradeCategory>): GradeCategory => ({
+  id: "hw",
+  user_id: "user-1",
+  class_id: "class-1",
+  name: "Homework",
+  weight: 50,
+  drop_lowest: 0,
+  created_at: "2024-09-01T00:00:00Z",
+  ...overrides,
+});
+
+const assignment = (
+  id: string,
+  categoryId: string,
+  pointsPossible: number,
+  pointsEarned?: number,
+  extra: Partial<AssignmentWithGrade> & { isDropped?: boolean } = {}
+): AssignmentWithGrade => {
+  const { isDropped, ...overrides } = extra;
+  return {
+    id,
+    user_id: "user-1",
+    class_id: "class-1",
+    name: id,
+    category_id: categoryId,
+    points_possible: pointsPossible,
+    is_extra_credit: false,
+    created_at: "2024-09-01T00:00:00Z",
+    category: category({ id: categoryId }),
+    grade: pointsEarned === undefined ? undefined : {
+      id: `grade-${id}`,
+      user_id: "user-1",
+      assignment_id: id,
+      points_earned: pointsEarned,
+      is_dropped: !!isDropped,
+      created_at: "2024-09-01T00:00:00Z",
+    },
+    ...overrides,
+  };
+};
+
+describe("computeClassGrade", () => {
+  test("weights categories and ignores ones without graded work", () => {
+    const categories = [category({ id: "hw", weight: 40 }), category({ id: "exam", name: "Exams", weight: 60 }), category({ id: "lab", weight: 10 })];
+    const result = computeClassGrade([
+      assignment("hw1", "hw", 10, 10),
+      assignment("exam1", "exam", 100, 70),
+      assignment("lab1", "lab", 10),
+    ], categories);
+
+    expect(result.percentage).toBeCloseTo(82);
+    expect(result.categories.find(c => c.categoryId === "lab")?.percentage).toBeNull();
+  });
+
+  test("drops the assignments that raise the category the most, not just the lowest percentage", () => {
+    // Dropping the 50% on a 100-point test beats dropping the 0/1 quiz
+    const result = computeClassGrade([
+      assignment("quiz", "hw", 1, 0),
+      assignment("test", "hw", 100, 50),
+      assignment("project", "hw", 100, 100),
+    ], [category({ id: "hw", drop_lowest: 1 })]);
+
+    expect(result.categories[0].droppedAssignmentIds).toEqual(["test"]);
+    expect(result.percentage).toBeCloseTo((100 / 101) * 100);
+  });
+
+  test("honors extra credit, dropped grades and category caps", () => {
+    const assignments = [
+      assignment("hw1", "hw", 10, 9),
+      assignment("hw2", "hw", 10, 0, { isDropped: true }),
+      assignment("bonus", "hw", 5, 5, { is_extra_credit: true }),
+    ];
+
+    expect(computeClassGrade(assignments, [category({ id: "hw" })]).percentage).toBeCloseTo(140);
+    const capped = computeClassGrade(assignments, [category({ id: "hw", max_percentage: 105 })]);
+    expect(capped.percentage).toBeCloseTo(105);
+    expect(capped.categories[0].capped).toBe(true);
+  });
+
+  test("adds up points across categories for point-based classes", () => {
+    const result = computeClassGrade([
+      assignment("hw1", "hw", 20, 20),
+      assignment("exam1", "exam", 80, 60),
+    ], [category({ id: "hw", weight: 10 }), category({ id: "exam", weight: 90 })], { method: "points" });
+
+    expect(result.percentage).toBeCloseTo(80);
+  });
+});
+
+describe("calculateNeededScore", () => {
+  test("accounts for the other assignments in the final's category", () => {
+    const categories = [category({ id: "hw", weight: 50 }), category({ id: "exam", name: "Exams", weight: 50 })];
+    const assignments = [
+      assignment("hw1", "hw", 100, 90),
+      assignment("midterm", "exam", 100, 60),
+      assignment("final", "exam", 100),
+    ];
+
+    // 0.5 * 90 + 0.5 * (60 + x) / 200 * 100 = 85  =>  x = 100
+    const result = calculateNeededScore(assignments, categories, "final", 85);
+    expect(result?.neededPoints).toBeCloseTo(100, 1);
+    expect(result?.isPossible).toBe(true);
+
+    const unreachable = calculateNeededScore(assignments, categories, "final", 95);
+    expect(unreachable?.isPossible).toBe(false);
+    expect(unreachable?.maxAchievableGrade).toBe(85);
+  });
+});
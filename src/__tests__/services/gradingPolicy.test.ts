@@ -0,0 +1,83 @@
+/**
+ * Tests for reading the grading policy out of a syllabus
+ */
+
+import { extractGradingPolicy, matchCategoryForTask } from "../../services/syllabus";
+import { calculateLetterGrade } from "../../services/grade/gpaService";
+import type { GpaSettings } from "../../types/database";
+
+const syllabus = [
+  "CS 101: Intro to Programming, Fall 2024",
+  "Late work loses 10% per day.",
+  "",
+  "Grading",
+  "Homework (HW) | 20%",
+  "Quizzes | 15% (lowest two dropped)",
+  "Labs ........ 10%",
+  "Midterm Exam: 20%",
+  "Final Exam is worth 35%",
+  "Your lowest homework score will be dropped.",
+  "",
+  "Grade | Range",
+  "A | 93 - 100",
+  "A- | 90 - 92.99",
+  "B+ | 87 - 89.99",
+  "B | 83 - 86.99",
+  "C: 70-82.99, D: 60-69.99, F: below 60",
+  "A 10-page paper is due at the end of the term.",
+].join("\n");
+
+describe("extractGradingPolicy", () => {
+  test("reads weights, drop rules and the letter-grade scale", () => {
+    const policy = extractGradingPolicy(syllabus);
+
+    expect(policy.categories.map(({ name, weight, dropLowest, sourceLine }) => ({ name, weight, dropLowest, sourceLine }))).toEqual([
+      { name: "Homework", weight: 20, dropLowest: 1, sourceLine: 5 },
+      { name: "Quizzes", weight: 15, dropLowest: 2, sourceLine: 6 },
+      { name: "Labs", weight: 10, dropLowest: 0, sourceLine: 7 },
+      { name: "Midterm Exam", weight: 20, dropLowest: 0, sourceLine: 8 },
+      { name: "Final Exam", weight: 35, dropLowest: 0, sourceLine: 9 },
+    ]);
+    expect(policy.totalWeight).toBe(100);
+    expect(policy.isComplete).toBe(true);
+    expect(policy.cutoffs).toEqual({ A: 93, "A-": 90, "B+": 87, B: 83, C: 70, D: 60 });
+    expect(policy.warnings).toEqual([]);
+  });
+
+  test("flags weights that don't add up and repeated categories", () => {
+    const policy = extractGradingPolicy("Homework 20%, Midterm 25%, Final 35%\n\nBreakdown: Homework 25%");
+
+    expect(policy.categories.map(category => category.name)).toEqual(["Homework", "Midterm", "Final"]);
+    expect(policy.totalWeight).toBe(80);
+    expect(policy.isComplete).toBe(false);
+    expect(policy.cutoffs).toBeNull();
+    expect(policy.warnings).toEqual([
+      "\"Homework\" is listed as both 20% and 25%; using 20%",
+      expect.stringContaining("add up to 80%"),
+    ]);
+  });
+});
+
+describe("matchCategoryForTask", () => {
+  const categories = [{ name: "Homework" }, { name: "Quizzes" }, { name: "Midterm Exam" }, { name: "Final Exam" }];
+
+  test("matches by title words, then by task type", () => {
+    expect(matchCategoryForTask({ title: "Quiz 3", taskType: "quiz" }, categories)?.name).toBe("Quizzes");
+    expect(matchCategoryForTask({ title: "Final Exam", taskType: "exam" }, categories)?.name).toBe("Final Exam");
+    expect(matchCategoryForTask({ title: "HW 2", taskType: "assignment" }, categories)?.name).toBe("Homework");
+    expect(matchCategoryForTask({ title: "Reading: Chapter 4", taskType: "reading" }, categories)).toBeUndefined();
+  });
+});
+
+describe("calculateLetterGrade with class cutoffs", () => {
+  const gpaSettings = { a_min: 90, b_min: 80, c_min: 70, d_min: 60, a_plus_min: 97 } as GpaSettings;
+
+  test("uses the class scale when it has one", () => {
+    const cutoffs = { A: 93, "A-": 90, B: 83, C: 70 };
+
+    expect(calculateLetterGrade(92, gpaSettings)).toBe("A");
+    expect(calculateLetterGrade(92, gpaSettings, cutoffs)).toBe("A-");
+    expect(calculateLetterGrade(85, gpaSettings, cutoffs)).toBe("B");
+    expect(calculateLetterGrade(65, gpaSettings, cutoffs)).toBe("F");
+  });
+});
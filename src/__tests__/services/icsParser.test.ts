@@ -0,0 +1,164 @@
+/**
+ * Tests for recurrence expansion and time zone handling in the ICS parser
+ */
+
+import { parseICS } from "../../services/canvas/icsParser";
+import { convertEventToTask } from "../../services/canvas/taskConverter";
+
+jest.mock("../../services/class/classOperations", () => ({
+  addClass: jest.fn(),
+  getClasses: jest.fn(() => Promise.resolve([])),
+}));
+
+jest.mock("../../services/settings/settingsOperations", () => ({
+  getSettings: jest.fn(() => ({})),
+}));
+
+const wrap = (body: string): string => `BEGIN:VCALENDAR\r\nVERSION:2.0\r\n${body}\r\nEND:VCALENDAR`;
+
+const window = {
+  windowStart: new Date("2024-09-01T00:00:00Z"),
+  windowEnd: new Date("2024-12-31T00:00:00Z"),
+  timeZone: "America/Los_Angeles",
+};
+
+describe("parseICS", () => {
+  test("converts TZID-qualified times to UTC", () => {
+    const events = parseICS(wrap([
+      "BEGIN:VEVENT",
+      "UID:single@example.edu",
+      "SUMMARY:Office Hours",
+      "DTSTART;TZID=America/New_York:20241015T100000",
+      "DTEND;TZID=America/New_York:20241015T110000",
+      "END:VEVENT",
+    ].join("\r\n")), window);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].start).toBe("20241015T140000Z");
+    expect(events[0].end).toBe("20241015T150000Z");
+    expect(events[0].timeZone).toBe("America/New_York");
+  });
+
+  test("expands weekly rules across DST while keeping the local time", () => {
+    const events = parseICS(wrap([
+      "BEGIN:VEVENT",
+      "UID:lecture@example.edu",
+      "SUMMARY:CS 100 Lecture",
+      "DTSTART;TZID=America/Los_Angeles:20241028T100000",
+      "DTEND;TZID=America/Los_Angeles:20241028T115000",
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4",
+      "END:VEVENT",
+    ].join("\r\n")), window);
+
+    expect(events.map(event => event.start)).toEqual([
+      "20241028T170000Z",
+      "20241030T170000Z",
+      "20241104T180000Z",
+      "20241106T180000Z",
+    ]);
+    expect(events.every(event => event.seriesUid === "lecture@example.edu")).toBe(true);
+    expect(new Set(events.map(event => event.uid)).size).toBe(4);
+  });
+
+  test("applies EXDATE and RECURRENCE-ID overrides", () => {
+    const events = parseICS(wrap([
+      "BEGIN:VEVENT",
+      "UID:lab@example.edu",
+      "SUMMARY:Lab Section",
+      "DTSTART:20241001T200000Z",
+      "DTEND:20241001T220000Z",
+      "RRULE:FREQ=WEEKLY;UNTIL=20241022T200000Z",
+      "EXDATE:20241008T200000Z",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:lab@example.edu",
+      "RECURRENCE-ID:20241015T200000Z",
+      "SUMMARY:Lab Section (moved)",
+      "DTSTART:20241016T200000Z",
+      "DTEND:20241016T220000Z",
+      "END:VEVENT",
+    ].join("\r\n")), window);
+
+    expect(events.map(event => event.start)).toEqual([
+      "20241001T200000Z",
+      "20241016T200000Z",
+      "20241022T200000Z",
+    ]);
+    expect(events[1].summary).toBe("Lab Section (moved)");
+    expect(events[1].isOverride).toBe(true);
+  });
+
+  test("orders occurrences moved into the window by their place in the series", () => {
+    const events = parseICS(wrap([
+      "BEGIN:VEVENT",
+      "UID:review@example.edu",
+      "SUMMARY:Review Session",
+      "DTSTART:20240820T200000Z",
+      "RRULE:FREQ=WEEKLY;COUNT=5",
+      "EXDATE:20240910T200000Z",
+      "END:VEVENT",
+      ...[
+        ["20240827T200000Z", "20240904T200000Z"], // Moved into the window
+        ["20240910T200000Z", "20240911T200000Z"], // Excluded by EXDATE
+        ["20240924T200000Z", "20240925T200000Z"], // Past COUNT
+      ].flatMap(([recurrenceId, start]) => [
+        "BEGIN:VEVENT",
+        "UID:review@example.edu",
+        `RECURRENCE-ID:${recurrenceId}`,
+        "SUMMARY:Review Session (moved)",
+        `DTSTART:${start}`,
+        "END:VEVENT",
+      ]),
+    ].join("\r\n")), window);
+
+    expect(events.map(event => [event.recurrenceId, event.start, event.occurrenceIndex])).toEqual([
+      ["20240827T200000Z", "20240904T200000Z", 0],
+      ["20240903T200000Z", "20240903T200000Z", 1],
+      ["20240917T200000Z", "20240917T200000Z", 2],
+    ]);
+  });
+
+  test("supports monthly ordinal weekdays and all-day events", () => {
+    const events = parseICS(wrap([
+      "BEGIN:VEVENT",
+      "UID:meeting@example.edu",
+      "SUMMARY:Club Meeting",
+      "DTSTART;VALUE=DATE:20240910",
+      "RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=3",
+      "END:VEVENT",
+    ].join("\r\n")), window);
+
+    expect(events.map(event => event.start)).toEqual(["20240910", "20241008", "20241112"]);
+    expect(events[0].isAllDay).toBe(true);
+  });
+});
+
+describe("convertEventToTask", () => {
+  test("uses the user's zone for timed events and creates duration tasks", () => {
+    const task = convertEventToTask({
+      uid: "lecture@example.edu::20241028T170000Z",
+      summary: "CS 100 Lecture",
+      start: "20241028T170000Z",
+      end: "20241028T185000Z",
+    }, { timeZone: "America/Los_Angeles" });
+
+    expect(task.dueDate).toBe("2024-10-28");
+    expect(task.dueTime).toBe("10:00");
+    expect(task.isDuration).toBe(true);
+    expect(task.endTime).toBe("11:50");
+    expect(task.canvas_uid).toBe("lecture@example.edu::20241028T170000Z");
+  });
+
+  test("keeps late-night due dates on the local day", () => {
+    const task = convertEventToTask({
+      uid: "assignment_1",
+      summary: "Homework 3",
+      start: "20241016T065900Z",
+      end: "20241016T065900Z",
+    }, { timeZone: "America/Los_Angeles" });
+
+    expect(task.dueDate).toBe("2024-10-15");
+    expect(task.dueTime).toBe("23:59");
+    expect(task.isDuration).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for notification inbox grouping and deep links
+ */
+
+import { groupNotifications } from "../../services/notifications/inboxService";
+import { buildDeepLink, readDeepLink } from "../../utils/deepLinks";
+import type { AppNotification } from "../../types/database";
+
+const notification = (overrides: Partial<AppNotification>): AppNotification => ({
+  id: "n-1",
+  user_id: "user-1",
+  kind: "reminder",
+  title: "Reminder: Essay",
+  body: "Due 2024-10-10",
+  read_at: null,
+  created_at: "2024-10-10T09:00:00",
+  ...overrides,
+});
+
+const now = new Date("2024-10-10T12:00:00");
+
+describe("groupNotifications", () => {
+  test("splits groups into today, yesterday and earlier", () => {
+    const sections = groupNotifications([
+      notification({ id: "a", created_at: "2024-10-08T09:00:00" }),
+      notification({ id: "b", created_at: "2024-10-10T08:00:00" }),
+      notification({ id: "c", created_at: "2024-10-09T23:30:00" }),
+    ], now);
+
+    expect(sections.map(section => section.label)).toEqual(["Today", "Yesterday", "Earlier"]);
+    expect(sections.map(section => section.groups[0].latest.id)).toEqual(["b", "c", "a"]);
+  });
+
+  test("collapses notifications sharing a group key under the newest one", () => {
+    const sections = groupNotifications([
+      notification({ id: "a", kind: "new_assignment", group_key: "new_assignment:2024-10-10", created_at: "2024-10-10T08:00:00" }),
+      notification({ id: "b", kind: "new_assignment", group_key: "new_assignment:2024-10-10", created_at: "2024-10-10T08:05:00", read_at: "2024-10-10T08:10:00" }),
+      notification({ id: "c", created_at: "2024-10-10T07:00:00" }),
+    ], now);
+
+    expect(sections).toHaveLength(1);
+    const [assignments, reminder] = sections[0].groups;
+    expect(assignments.latest.id).toBe("b");
+    expect(assignments.notifications.map(item => item.id)).toEqual(["b", "a"]);
+    expect(assignments.unreadCount).toBe(1);
+    expect(reminder.notifications.map(item => item.id)).toEqual(["c"]);
+  });
+});
+
+describe("deep links", () => {
+  test("round-trips task and class targets", () => {
+    expect(readDeepLink(buildDeepLink({ type: "task", id: "task 1" }).slice(1))).toEqual({ type: "task", id: "task 1" });
+    expect(readDeepLink("?app=true&class=cs101")).toEqual({ type: "class", id: "cs101" });
+    expect(readDeepLink("?app=true")).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests that edits made offline through the data operations the calendar
+ * uses are queued in the sync operation log
+ */
+
+import { addTask, updateTask, deleteTask, addClass } from "../../services/dataService";
+import { getOperationLog } from "../../services/sync";
+import { STORAGE_KEYS, type Task } from "../../types/database";
+
+const storedTasks = (): Task[] => JSON.parse(localStorage.getItem(STORAGE_KEYS.TASKS) || "[]");
+
+describe("offline writes through the data operations", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test("queue adds, edits and deletes of a signed-in user's tasks", async () => {
+    const task = await addTask({ title: "Essay", class: "hist210", dueDate: "2024-10-25" }, true);
+    await updateTask(task.id, { completed: true }, true);
+
+    expect(storedTasks()).toEqual([expect.objectContaining({ id: task.id, title: "Essay", completed: true })]);
+
+    await deleteTask(task.id, true);
+
+    expect(storedTasks()).toEqual([]);
+    expect(getOperationLog().map(({ table, recordId, type, changes }) => ({ table, recordId, type, changes }))).toEqual([
+      { table: "tasks", recordId: task.id, type: "upsert", changes: expect.objectContaining({ title: "Essay" }) },
+      { table: "tasks", recordId: task.id, type: "upsert", changes: { completed: true } },
+      { table: "tasks", recordId: task.id, type: "delete", changes: {} },
+    ]);
+  });
+
+  test("queue class changes too", async () => {
+    const cls = await addClass({ name: "Modern Europe" }, true);
+
+    expect(getOperationLog()).toEqual([
+      expect.objectContaining({ table: "classes", recordId: cls.id, type: "upsert" }),
+    ]);
+  });
+
+  test("don't queue anything for signed-out users", async () => {
+    await addTask({ title: "Essay" }, false);
+
+    expect(storedTasks()).toHaveLength(1);
+    expect(getOperationLog()).toEqual([]);
+  });
+});
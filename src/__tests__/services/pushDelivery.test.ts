@@ -0,0 +1,56 @@
+/**
+ * Tests for delivering push messages to a user's subscribed devices
+ */
+
+import { deliverPushMessage, readPushMessage, type PushDeliveryTarget } from "../../services/notifications";
+
+const subscription = (id: string) => ({ id, endpoint: `https://push.example.com/${id}`, p256dh: "key", auth: "secret" });
+
+const fakeTarget = (failures: Record<string, number | undefined> = {}) => {
+  const sent: Array<{ id: string; payload: string }> = [];
+  const removed: string[] = [];
+  const target: PushDeliveryTarget = {
+    listSubscriptions: async () => ["laptop", "phone", "old-phone"].map(subscription),
+    removeSubscriptions: async ids => {
+      removed.push(...ids);
+    },
+    send: async ({ id }, payload) => {
+      if (id in failures) throw Object.assign(new Error("push failed"), { statusCode: failures[id] });
+      sent.push({ id, payload });
+    },
+  };
+  return { target, sent, removed };
+};
+
+describe("deliverPushMessage", () => {
+  test("sends the message to every device in the shape the service worker reads", async () => {
+    const { target, sent } = fakeTarget();
+
+    const report = await deliverPushMessage("user-1", { title: "Essay due", body: "Tomorrow", tag: "essay" }, target);
+
+    expect(report).toEqual({ sent: 3, failed: 0, removed: 0 });
+    expect(JSON.parse(sent[0].payload)).toEqual({ title: "Essay due", body: "Tomorrow", tag: "essay" });
+  });
+
+  test("removes expired subscriptions and counts other failures", async () => {
+    const { target, sent, removed } = fakeTarget({ "old-phone": 410, phone: 500 });
+
+    const report = await deliverPushMessage("user-1", { title: "Essay due", body: "" }, target);
+
+    expect(report).toEqual({ sent: 1, failed: 1, removed: 1 });
+    expect(sent.map(({ id }) => id)).toEqual(["laptop"]);
+    expect(removed).toEqual(["old-phone"]);
+  });
+});
+
+describe("readPushMessage", () => {
+  test("needs a title and drops fields that aren't text", () => {
+    expect(readPushMessage({ user_id: "user-1", body: "Tomorrow" })).toBeNull();
+    expect(readPushMessage({ title: "Essay due", url: 42, tag: "essay" })).toEqual({
+      title: "Essay due",
+      body: "",
+      url: undefined,
+      tag: "essay",
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for realtime cache updates driven by a fake channel
+ */
+
+import taskService from "../../services/taskService";
+import classService from "../../services/classService";
+import {
+  createRealtimeCache,
+  getRetryDelay,
+  type RealtimeChannelOptions,
+  type RealtimeTransport,
+} from "../../services/realtime";
+import type { Task } from "../../types/database";
+import { taskFactory } from "../fixtures/tasks";
+
+const makeTask = taskFactory({
+  id: "t1",
+  title: "Essay",
+  created_at: "2024-10-01T00:00:00.000Z",
+  updated_at: "2024-10-01T00:00:00.000Z",
+});
+
+// Records every channel the service opens so tests can push events into it
+const createFakeTransport = () => {
+  const channels: Array<RealtimeChannelOptions & { closed: boolean }> = [];
+  const transport: RealtimeTransport = {
+    open: options => {
+      const channel = { ...options, closed: false };
+      channels.push(channel);
+      return { close: () => { channel.closed = true; } };
+    },
+  };
+  return { transport, channels };
+};
+
+describe("taskService realtime updates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    taskService.reset();
+  });
+
+  afterEach(() => {
+    taskService.reset();
+    jest.useRealTimers();
+  });
+
+  test("patches the cache for inserts, updates and deletes from other devices", () => {
+    const { transport, channels } = createFakeTransport();
+    const listener = jest.fn();
+    taskService.subscribe(listener);
+    taskService.startRealtime("user-1", transport);
+
+    const channel = channels[0];
+    expect(channel).toMatchObject({ table: "tasks", userId: "user-1" });
+
+    channel.onChange({ eventType: "INSERT", table: "tasks", new: makeTask(), old: {} });
+    channel.onChange({
+      eventType: "UPDATE",
+      table: "tasks",
+      new: makeTask({ title: "Essay final", updated_at: "2024-10-02T00:00:00.000Z" }),
+      old: { id: "t1" },
+    });
+    expect(taskService.getTasks().map(task => task.title)).toEqual(["Essay final"]);
+
+    channel.onChange({ eventType: "DELETE", table: "tasks", new: {}, old: { id: "t1" } });
+    expect(taskService.getTasks()).toEqual([]);
+    expect(JSON.parse(localStorage.getItem("calendar_tasks") || "[]")).toEqual([]);
+  });
+
+  test("ignores echoes of rows the cache already has and stale updates", () => {
+    const { transport, channels } = createFakeTransport();
+    taskService.startRealtime("user-1", transport);
+    channels[0].onChange({ eventType: "INSERT", table: "tasks", new: makeTask({ updated_at: "2024-10-05T00:00:00.000Z" }), old: {} });
+
+    const listener = jest.fn();
+    taskService.subscribe(listener);
+    channels[0].onChange({ eventType: "UPDATE", table: "tasks", new: makeTask({ updated_at: "2024-10-05T00:00:00.000Z" }), old: { id: "t1" } });
+    channels[0].onChange({ eventType: "UPDATE", table: "tasks", new: makeTask({ title: "Old", updated_at: "2024-10-03T00:00:00.000Z" }), old: { id: "t1" } });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(taskService.getTask("t1")?.title).toBe("Essay");
+  });
+
+  test("reconnects with exponential backoff after the channel drops", () => {
+    jest.useFakeTimers();
+    const { transport, channels } = createFakeTransport();
+    taskService.startRealtime("user-1", transport);
+
+    channels[0].onStatus("CHANNEL_ERROR");
+    expect(channels[0].closed).toBe(true);
+    jest.advanceTimersByTime(getRetryDelay(0));
+    expect(channels).toHaveLength(2);
+
+    channels[1].onStatus("TIMED_OUT");
+    jest.advanceTimersByTime(getRetryDelay(1) - 1);
+    expect(channels).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(channels).toHaveLength(3);
+
+    taskService.stopRealtime();
+    expect(channels[2].closed).toBe(true);
+    channels[2].onStatus("CLOSED");
+    jest.advanceTimersByTime(getRetryDelay(5));
+    expect(channels).toHaveLength(3);
+    expect(getRetryDelay(10)).toBe(30000);
+  });
+});
+
+describe("classService realtime updates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    classService.reset();
+  });
+
+  afterEach(() => classService.reset());
+
+  test("patches the class cache in its local shape", () => {
+    const { transport, channels } = createFakeTransport();
+    classService.startRealtime("user-1", transport);
+
+    expect(channels[0]).toMatchObject({ table: "classes", userId: "user-1" });
+    channels[0].onChange({
+      eventType: "INSERT",
+      table: "classes",
+      new: { id: "c1", user_id: "user-1", name: "History", istaskclass: true, created_at: "2024-10-01T00:00:00.000Z" },
+      old: {},
+    });
+
+    expect(classService.getClasses()).toEqual([expect.objectContaining({ id: "c1", isTaskClass: true, files: [] })]);
+    expect(JSON.parse(localStorage.getItem("calendar_classes") || "[]")).toEqual(classService.getClasses());
+  });
+});
+
+describe("createRealtimeCache", () => {
+  test("stores rows as they come, adds created rows once and reloads after reconnecting", () => {
+    jest.useFakeTimers();
+    const { transport, channels } = createFakeTransport();
+    let items: Task[] = [];
+    const reload = jest.fn();
+    const cache = createRealtimeCache<Task>({ table: "notes", getItems: () => items, setItems: next => { items = next; } });
+    cache.start("user-1", reload, transport);
+
+    // The echo of a row this client creates can arrive before the insert returns
+    channels[0].onChange({ eventType: "INSERT", table: "notes", new: makeTask(), old: {} });
+    cache.addItem(makeTask());
+    expect(items).toEqual([makeTask()]);
+
+    channels[0].onStatus("CHANNEL_ERROR");
+    jest.advanceTimersByTime(getRetryDelay(0));
+    channels[1].onStatus("SUBSCRIBED");
+    expect(reload).toHaveBeenCalledTimes(1);
+
+    cache.stop();
+    expect(channels[1].closed).toBe(true);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for reminder planning
+ */
+
+import {
+  isInQuietHours,
+  parseReminderOffset,
+  planReminders,
+  type ReminderPreferences,
+  type TaskReminder,
+} from "../../services/reminders/reminderPlanner";
+import type { Task, TaskType } from "../../types/database";
+import { getUserTimeZone } from "../../utils/timezoneHelpers";
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: "task-1",
+  user_id: "user-1",
+  title: "Essay",
+  completed: false,
+  dueDate: "2024-10-10",
+  dueTime: "12:00",
+  created_at: "2024-09-01T00:00:00Z",
+  ...overrides,
+});
+
+const preferences = (overrides: Partial<ReminderPreferences> = {}): ReminderPreferences => ({
+  offsets: ["7d", "3d", "1d", "2h"],
+  channels: ["email"],
+  quietHours: {},
+  digestEnabled: false,
+  digestTime: "07:00",
+  timeZone: getUserTimeZone(),
+  ...overrides,
+});
+
+// Thursday, October 3rd 2024
+const at = (time: string, date = "2024-10-03") => new Date(`${date}T${time}`);
+
+describe("planReminders", () => {
+  test("sends each offset once, even when two fall on the same day", () => {
+    const input = {
+      tasks: [task({ dueDate: "2024-10-04", dueTime: "09:00" })],
+      taskTypes: [],
+      preferences: preferences({ offsets: ["1d", "12h"] }),
+      now: at("09:30"),
+    };
+
+    const first = planReminders({ ...input, sent: [] }) as TaskReminder[];
+    expect(first.map(reminder => reminder.coveredOffsets)).toEqual([["1d"]]);
+
+    const later = planReminders({
+      ...input,
+      now: at("21:30"),
+      sent: [{ taskId: "task-1", offset: "1d", channel: "email" }],
+    }) as TaskReminder[];
+    expect(later.map(reminder => reminder.offset)).toEqual(["12h"]);
+  });
+
+  test("covers every overdue offset with one message after a late run", () => {
+    const [reminder] = planReminders({
+      tasks: [task({ dueDate: "2024-10-04", dueTime: "12:00" })],
+      taskTypes: [],
+      preferences: preferences(),
+      sent: [{ taskId: "task-1", offset: "7d", channel: "email" }],
+      now: at("18:00"),
+    }) as TaskReminder[];
+
+    expect(reminder.offset).toBe("1d");
+    expect(reminder.coveredOffsets).toEqual(["1d", "3d"]);
+  });
+
+  test("prefers task overrides over task type overrides over defaults", () => {
+    const taskTypes = [{ id: "exam", user_id: "user-1", name: "Exam", created_at: "", reminder_offsets: ["14d"] }] as TaskType[];
+    const tasks = [
+      task({ id: "exam-task", type: "exam", dueDate: "2024-10-15" }),
+      task({ id: "muted", type: "exam", dueDate: "2024-10-15", reminder_offsets: [] }),
+      task({ id: "plain", dueDate: "2024-10-15" }),
+    ];
+
+    const planned = planReminders({ tasks, taskTypes, preferences: preferences(), sent: [], now: at("12:00") }) as TaskReminder[];
+
+    expect(planned.map(reminder => [reminder.task.id, reminder.offset])).toEqual([["exam-task", "14d"]]);
+  });
+
+  test("waits out quiet hours and then sends on every channel", () => {
+    const input = {
+      tasks: [task({ dueDate: "2024-10-04", dueTime: "08:00" })],
+      taskTypes: [],
+      preferences: preferences({ channels: ["email", "in_app"], quietHours: { 3: { start: "22:00", end: "07:00" } } }),
+      sent: [],
+    };
+
+    expect(planReminders({ ...input, now: at("23:00", "2024-10-02") })).toEqual([]);
+    expect(planReminders({ ...input, now: at("06:30") })).toEqual([]);
+    expect(planReminders({ ...input, now: at("07:00") }).map(reminder => reminder.channel)).toEqual(["email", "in_app"]);
+  });
+
+  test("replaces day-ahead reminders with one morning digest", () => {
+    const input = {
+      tasks: [
+        task({ id: "soon", dueDate: "2024-10-03", dueTime: "09:00" }),
+        task({ id: "friday", dueDate: "2024-10-04" }),
+        task({ id: "next-month", dueDate: "2024-11-04" }),
+      ],
+      taskTypes: [],
+      preferences: preferences({ digestEnabled: true }),
+      sent: [],
+    };
+
+    const planned = planReminders({ ...input, now: at("07:30") });
+
+    expect(planned.map(reminder => [reminder.kind, reminder.offset])).toEqual([
+      ["task", "2h"],
+      ["digest", "digest:2024-10-03"],
+    ]);
+    expect(planned[1].kind === "digest" && planned[1].tasks.map(t => t.id)).toEqual(["soon", "friday"]);
+    expect(planReminders({ ...input, now: at("06:30") }).map(reminder => reminder.kind)).toEqual([]);
+  });
+
+  test("reads due times, quiet hours and the digest time in the user's time zone", () => {
+    const input = {
+      // 09:00 in New York is 13:00 UTC
+      tasks: [task({ dueDate: "2024-10-04", dueTime: "09:00" })],
+      taskTypes: [],
+      preferences: preferences({ offsets: ["1d"], timeZone: "America/New_York", quietHours: { 4: { start: "22:00", end: "07:00" } } }),
+      sent: [],
+    };
+
+    expect(planReminders({ ...input, now: new Date("2024-10-03T12:30:00Z") })).toEqual([]);
+    expect(planReminders({ ...input, now: new Date("2024-10-03T13:00:00Z") }).map(reminder => reminder.offset)).toEqual(["1d"]);
+    // Thursday 22:30 in New York, already Friday in UTC
+    expect(planReminders({ ...input, now: new Date("2024-10-04T02:30:00Z") })).toEqual([]);
+
+    const digest = planReminders({
+      ...input,
+      preferences: preferences({ offsets: ["1d"], digestEnabled: true, timeZone: "Asia/Tokyo" }),
+      now: new Date("2024-10-03T22:30:00Z"),
+    });
+    expect(digest.map(reminder => reminder.offset)).toEqual(["digest:2024-10-04"]);
+  });
+});
+
+describe("reminder helpers", () => {
+  test("parses offsets and quiet hours across midnight", () => {
+    expect(parseReminderOffset("90m")).toBe(90);
+    expect(parseReminderOffset("1w")).toBe(7 * 24 * 60);
+    expect(parseReminderOffset("3 days")).toBeNull();
+
+    const schedule = { 5: { start: "23:00", end: "09:00" } };
+    expect(isInQuietHours(at("08:00", "2024-10-05"), schedule, getUserTimeZone())).toBe(true);
+    expect(isInQuietHours(at("08:00", "2024-10-04"), schedule, getUserTimeZone())).toBe(false);
+  });
+});
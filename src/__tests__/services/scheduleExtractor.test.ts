@@ -0,0 +1,74 @@
+/**
+ * Tests for the rule-based syllabus schedule extractor
+ */
+
+import { crossCheckScheduleTasks, extractScheduleTasks } from "../../services/syllabus";
+
+const syllabus = [
+  "CS 101: Intro to Programming, Fall 2024",
+  "",
+  "Week | Date | Topic | Due",
+  "-----|------|-------|----",
+  "1 | 9/2 | Introduction |",
+  "2 | 9/9 | Recursion | HW 1 (Fri)",
+  "3 | | Sorting | HW 2; Reading: Chapter 4",
+  "4 | 9/23 | Midterm Exam |",
+  "",
+  "Due: Final project proposal, Week 6 Friday",
+  "Lab 3 report due Oct 10",
+  "Late work loses 10% per day.",
+].join("\n");
+
+describe("extractScheduleTasks", () => {
+  test("reads schedule tables and due lines with the line they came from", () => {
+    const { tasks, termStartDate, termStartSource, warnings } = extractScheduleTasks(syllabus);
+
+    expect(termStartDate).toBe("2024-09-02");
+    expect(termStartSource).toBe("table");
+    expect(warnings).toEqual([]);
+    expect(tasks.map(({ title, dueDate, taskType, sourceLine }) => ({ title, dueDate, taskType, sourceLine }))).toEqual([
+      { title: "HW 1", dueDate: "2024-09-13", taskType: "assignment", sourceLine: 6 },
+      { title: "HW 2", dueDate: "2024-09-20", taskType: "assignment", sourceLine: 7 },
+      { title: "Reading: Chapter 4", dueDate: "2024-09-20", taskType: "reading", sourceLine: 7 },
+      { title: "Midterm Exam", dueDate: "2024-09-23", taskType: "exam", sourceLine: 8 },
+      { title: "Lab 3 report", dueDate: "2024-10-10", taskType: "lab", sourceLine: 11 },
+      { title: "Final project proposal", dueDate: "2024-10-11", taskType: "project", sourceLine: 10 },
+    ]);
+    tasks.forEach(task => expect(task).toEqual(expect.objectContaining({ extractedBy: "rules", exactDate: true })));
+  });
+
+  test("reads week numbers against the current term when the syllabus gives no dates", () => {
+    const { tasks, termStartDate, termStartSource, warnings } = extractScheduleTasks(
+      "Essay 1 due Week 3 Wednesday\nFinal exam: Friday of week 15, 9am",
+      { referenceDate: new Date(2026, 0, 20) }
+    );
+
+    expect(termStartSource).toBe("term");
+    expect(termStartDate).toBe("2026-01-05");
+    expect(tasks).toEqual([
+      expect.objectContaining({ title: "Essay 1", dueDate: "2026-01-21", exactDate: false, confidenceScore: 0.75 }),
+      expect.objectContaining({ title: "Final exam", dueDate: "2026-04-17", taskType: "exam", exactDate: false }),
+    ]);
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe("crossCheckScheduleTasks", () => {
+  test("prefers schedule dates, fills missing ones and adds what the AI missed", () => {
+    const { tasks: scheduleTasks } = extractScheduleTasks(syllabus);
+    const { tasks, warnings } = crossCheckScheduleTasks([
+      { title: "Homework 1", dueDate: "2024-09-12", taskType: "assignment", priority: "medium", confidenceScore: 0.9 },
+      { title: "Midterm", taskType: "exam", priority: "high", confidenceScore: 0.9 },
+    ], scheduleTasks);
+
+    expect(tasks.slice(0, 2)).toEqual([
+      expect.objectContaining({ title: "Homework 1", dueDate: "2024-09-13", sourceLine: 6 }),
+      expect.objectContaining({ title: "Midterm", dueDate: "2024-09-23", sourceLine: 8 }),
+    ]);
+    expect(tasks).toHaveLength(6);
+    expect(warnings).toEqual([
+      expect.stringContaining("\"Homework 1\""),
+      "Added 4 tasks from the course schedule that the AI analysis missed",
+    ]);
+  });
+});
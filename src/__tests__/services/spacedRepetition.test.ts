@@ -0,0 +1,172 @@
+/**
+ * Tests for the spaced-repetition review engine and planner
+ */
+
+import {
+  extractSyllabusConcepts,
+  getIntervalDays,
+  getObservedForgettingCurve,
+  getReviewDemands,
+  reviewConcept,
+  reviewMemory,
+  NEW_CONCEPTS_PER_DAY,
+} from "../../services/retention";
+import { solveStudySchedule } from "../../utils/scheduleSolver";
+import type { ConceptReview, StudyConcept } from "../../types/database";
+
+const concept = (overrides: Partial<StudyConcept>): StudyConcept => ({
+  id: "recursion",
+  user_id: "user-1",
+  class_id: "cs101",
+  name: "Recursion",
+  source: "manual",
+  stability: null,
+  difficulty: null,
+  reps: 0,
+  lapses: 0,
+  last_review: null,
+  due: "2024-10-07",
+  created_at: "2024-10-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("review engine", () => {
+  test("spaces reviews further apart while they keep being recalled", () => {
+    let state = concept({});
+    const intervals: number[] = [];
+    let reviewedAt = new Date(2024, 9, 7, 12);
+    for (let i = 0; i < 4; i++) {
+      const { update } = reviewConcept(state, 3, reviewedAt);
+      state = { ...state, ...update } as StudyConcept;
+      const interval = getIntervalDays(state.stability!);
+      intervals.push(interval);
+      reviewedAt = new Date(reviewedAt.getTime() + interval * 24 * 60 * 60 * 1000);
+    }
+
+    expect(intervals[0]).toBeGreaterThanOrEqual(1);
+    intervals.slice(1).forEach((interval, i) => expect(interval).toBeGreaterThan(intervals[i]));
+    expect(state.reps).toBe(4);
+    expect(state.lapses).toBe(0);
+  });
+
+  test("forgetting resets stability and counts a lapse", () => {
+    const learned = concept({ stability: 10, difficulty: 5, reps: 3, last_review: new Date(2024, 9, 1, 12).toISOString() });
+    const { update, review } = reviewConcept(learned, 1, new Date(2024, 9, 21, 12));
+
+    expect(update.stability).toBeLessThan(10);
+    expect(update.lapses).toBe(1);
+    expect(update.difficulty).toBeGreaterThan(5);
+    expect(review.elapsed_days).toBe(20);
+    expect(review.retrievability).toBeGreaterThan(0);
+    expect(review.retrievability).toBeLessThan(0.9);
+  });
+
+  test("follows the study profile's retention parameters", () => {
+    const fastForgetter = reviewMemory(null, 3, 0, { retention_curve_steepness: 0.6, review_interval_multiplier: 1.5 });
+    const typical = reviewMemory(null, 3, 0, { retention_curve_steepness: 0.3, review_interval_multiplier: 1.5 });
+
+    expect(fastForgetter.stability).toBeLessThan(typical.stability);
+    expect(getIntervalDays(10, { retention_curve_steepness: 0.3, review_interval_multiplier: 3 }))
+      .toBe(2 * getIntervalDays(10, { retention_curve_steepness: 0.3, review_interval_multiplier: 1.5 }));
+  });
+});
+
+describe("review planning", () => {
+  test("schedules due reviews per class and day and introduces new concepts gradually", () => {
+    const concepts = [
+      concept({ id: "overdue", reps: 2, stability: 3, difficulty: 5, due: "2024-10-01" }),
+      concept({ id: "due", reps: 1, stability: 2, difficulty: 5, due: "2024-10-07" }),
+      concept({ id: "later", reps: 1, stability: 9, difficulty: 5, due: "2024-10-20" }),
+      ...Array.from({ length: NEW_CONCEPTS_PER_DAY + 1 }, (_, i) =>
+        concept({ id: `new-${i}`, name: `Topic ${i}`, created_at: `2024-10-0${i + 1}T00:00:00Z` })
+      ),
+    ];
+    const demands = getReviewDemands(concepts, "2024-10-07", "2024-10-09");
+
+    expect(demands.find(demand => demand.sessionType === "review")).toEqual(expect.objectContaining({
+      conceptIds: ["overdue", "due"],
+      earliest: "2024-10-07",
+      deadline: "2024-10-08T23:59",
+    }));
+    expect(demands.filter(demand => demand.sessionType === "new_material").map(demand => demand.earliest))
+      .toEqual(["2024-10-07", "2024-10-08"]);
+    expect(demands.some(demand => demand.conceptIds?.includes("later"))).toBe(false);
+  });
+
+  test("doesn't place a review before it's due", () => {
+    const [demand] = getReviewDemands(
+      [concept({ reps: 1, stability: 2, difficulty: 5, due: "2024-10-08" })],
+      "2024-10-07",
+      "2024-10-09"
+    );
+    const { sessions, unmet } = solveStudySchedule({
+      startDate: "2024-10-07",
+      endDate: "2024-10-09",
+      profile: {
+        preferred_study_times: [1, 2, 3].map(day_of_week => ({
+          day_of_week,
+          start_time: "09:00",
+          end_time: "12:00",
+          productivity_score: 8,
+        })),
+        focus_duration_minutes: 60,
+        break_duration_minutes: 0,
+        daily_study_limit_hours: 2,
+      },
+      demands: [demand],
+      busy: [],
+    });
+
+    expect(unmet).toEqual([]);
+    expect(sessions).toEqual([expect.objectContaining({ date: "2024-10-08", concept_ids: ["recursion"], session_type: "review" })]);
+  });
+});
+
+describe("retention history", () => {
+  test("observes recall by days since the previous review", () => {
+    const review = (elapsed_days: number, rating: 1 | 3, retrievability: number | null = 0.8): ConceptReview => ({
+      id: `${elapsed_days}-${rating}-${retrievability}`,
+      user_id: "user-1",
+      concept_id: "recursion",
+      rating,
+      reviewed_at: "2024-10-07T12:00:00Z",
+      elapsed_days,
+      retrievability,
+      stability: 3,
+      difficulty: 5,
+      created_at: "2024-10-07T12:00:00Z",
+    });
+
+    expect(getObservedForgettingCurve([
+      review(0, 3, null),
+      review(1, 3),
+      review(1, 3),
+      review(6, 3),
+      review(6, 1),
+    ])).toEqual([
+      { days_since_learning: 1, retention_percentage: 100 },
+      { days_since_learning: 6, retention_percentage: 50 },
+    ]);
+  });
+
+  test("picks topics out of a syllabus course schedule", () => {
+    const syllabus = [
+      "Course Schedule",
+      "Week 1: Introduction to Python",
+      "Week 2 (Sep 9): Recursion; Big-O notation",
+      "Week 3 - Sep 16 - Sorting algorithms (Ch. 4)",
+      "Week 8: Midterm exam",
+      "Topics covered: hash tables, graphs",
+      "Grading: homework 40%",
+    ].join("\n");
+
+    expect(extractSyllabusConcepts(syllabus)).toEqual([
+      "Introduction to Python",
+      "Recursion",
+      "Big-O notation",
+      "Sorting algorithms",
+      "hash tables",
+      "graphs",
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for setting up grades from a syllabus's grading policy
+ */
+
+import { applySyllabusGradingPolicy } from "../../services/grade/syllabusGradeIntegration";
+import { getClassGpaInfo, updateClassGpaInfo } from "../../services/grade/gpaService";
+import type { GradingPolicy } from "../../services/syllabus";
+
+const policy: GradingPolicy = {
+  categories: [],
+  cutoffs: { A: 93, B: 83, C: 73, D: 63 },
+  totalWeight: 0,
+  isComplete: false,
+  warnings: [],
+};
+
+describe("applySyllabusGradingPolicy", () => {
+  beforeEach(() => localStorage.clear());
+
+  test("keeps the letter-grade scale of a class without GPA info until it is set up", async () => {
+    const { summary } = await applySyllabusGradingPolicy(policy, "cs101", "user-1");
+
+    expect(summary).toMatchObject({ cutoffsSaved: false, cutoffsPending: true });
+    expect(await getClassGpaInfo("user-1")).toEqual([]);
+
+    await updateClassGpaInfo({ user_id: "user-1", class_id: "cs101", credit_hours: 4, semester: "fall", year: 2026 });
+
+    const [gpaInfo] = await getClassGpaInfo("user-1");
+    expect(gpaInfo).toMatchObject({ credit_hours: 4, grade_cutoffs: policy.cutoffs });
+  });
+
+  test("saves the scale on a class that is already set up for GPA", async () => {
+    await updateClassGpaInfo({ user_id: "user-1", class_id: "cs101", credit_hours: 4, semester: "fall", year: 2026 });
+
+    const { summary } = await applySyllabusGradingPolicy(policy, "cs101", "user-1");
+
+    expect(summary).toMatchObject({ cutoffsSaved: true, cutoffsPending: false });
+    expect((await getClassGpaInfo("user-1"))[0].grade_cutoffs).toEqual(policy.cutoffs);
+  });
+});
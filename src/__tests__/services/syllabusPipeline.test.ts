@@ -0,0 +1,267 @@
+/**
+ * Tests for the staged syllabus task generation pipeline
+ */
+
+import {
+  classifyStage,
+  convertDateToISO,
+  createCandidateStage,
+  dateStage,
+  dedupeStage,
+  findMatchingLabSession,
+  findSection,
+  runSyllabusPipeline,
+  scheduleCandidateExtractor,
+  segmentStage,
+  segmentSyllabus,
+  textStage,
+  validateStage,
+  type CandidateExtractor,
+  type CandidateSet,
+  type GeneratedTask,
+  type PipelineContext,
+  type StageCache,
+  type SyllabusPipeline,
+  type TaskStage,
+} from "../../services/syllabus";
+
+const syllabus = [
+  "CS 101: Intro to Programming, Fall 2024",
+  "",
+  "COURSE SCHEDULE",
+  "Week | Date | Topic | Due",
+  "-----|------|-------|----",
+  "1 | 9/2 | Introduction |",
+  "2 | 9/9 | Recursion | HW 1 (Fri)",
+  "4 | 9/23 | Midterm Exam |",
+  "",
+  "Grading Policy",
+  "Homework 40%, Midterm 60%",
+].join("\n");
+
+const context: PipelineContext = {
+  content: syllabus,
+  classId: "cs101",
+  className: "CS 101",
+  userId: "user-1",
+  academicSystem: "semester",
+  classes: [{ id: "cs101", name: "CS 101" }, { id: "hist210", name: "HIST 210 Modern Europe" }],
+};
+
+const generated = (overrides: Partial<GeneratedTask>): GeneratedTask => ({
+  title: "Homework 1",
+  dueDate: "2024-09-13",
+  taskType: "assignment",
+  priority: "medium",
+  confidenceScore: 0.9,
+  ...overrides,
+});
+
+const candidates = (...tasks: GeneratedTask[]): CandidateSet => ({ tasks, warnings: [] });
+
+describe("text and segment stages", () => {
+  test("normalize the text without moving lines", async () => {
+    const text = await textStage.run("Week 1\r\nHW 1 due 9/13  \r\n\u200BQuiz\u00A01", context);
+
+    expect(text).toBe("Week 1\nHW 1 due 9/13\nQuiz 1");
+  });
+
+  test("split the syllabus into sections by heading", () => {
+    const document = segmentSyllabus(syllabus);
+
+    expect(document.sections).toEqual([
+      { heading: null, startLine: 1, endLine: 2 },
+      { heading: "COURSE SCHEDULE", startLine: 3, endLine: 9 },
+      { heading: "Grading Policy", startLine: 10, endLine: 11 },
+    ]);
+    expect(findSection(document, 7)?.heading).toBe("COURSE SCHEDULE");
+  });
+});
+
+describe("candidate stage", () => {
+  const offlineAi: CandidateExtractor = {
+    name: "ai",
+    label: "AI analysis",
+    extract: async () => { throw new Error("offline"); },
+  };
+
+  test("falls back to the schedule when the AI is unavailable", async () => {
+    const stage = createCandidateStage([offlineAi, scheduleCandidateExtractor]);
+    const result = await stage.run(segmentSyllabus(syllabus), context);
+
+    expect(stage.name).toBe("candidates:ai+schedule");
+    expect(result.tasks.map(task => [task.title, task.dueDate])).toEqual([
+      ["HW 1", "2024-09-13"],
+      ["Midterm Exam", "2024-09-23"],
+    ]);
+    expect(result.warnings[0]).toBe(
+      "AI analysis was unavailable, so 2 tasks were read from the course schedule instead. Please review them before adding."
+    );
+  });
+
+  test("cross-checks AI tasks against the schedule", async () => {
+    const ai: CandidateExtractor = {
+      name: "ai",
+      label: "AI analysis",
+      extract: async () => candidates(generated({ title: "HW 1", dueDate: "2024-09-12", extractedBy: "ai" })),
+    };
+    const result = await createCandidateStage([ai, scheduleCandidateExtractor]).run(segmentSyllabus(syllabus), context);
+
+    expect(result.tasks.map(task => [task.title, task.dueDate, task.extractedBy])).toEqual([
+      ["HW 1", "2024-09-13", "ai"],
+      ["Midterm Exam", "2024-09-23", "rules"],
+    ]);
+    expect(result.warnings).toEqual([
+      expect.stringContaining("the course schedule (line 7) says 2024-09-13"),
+      "Added 1 task from the course schedule that the AI analysis missed",
+    ]);
+  });
+
+  test("fails when no extractor finds anything", async () => {
+    await expect(createCandidateStage([offlineAi]).run(segmentSyllabus(syllabus), context)).rejects.toThrow("offline");
+  });
+});
+
+describe("task stages", () => {
+  test("dates: labs are due on their session, other tasks when assigned", async () => {
+    const result = await dateStage.run(candidates(
+      generated({ title: "Lab 2", taskType: "lab", dueDate: undefined, assignmentDate: "2024-09-01", sessionDate: "2024-09-05" }),
+      generated({ title: "Essay", dueDate: undefined, assignmentDate: "2024-09-01", sessionDate: "2024-09-05" }),
+    ), context);
+
+    expect(result.tasks.map(task => task.dueDate)).toEqual(["2024-09-05", "2024-09-01"]);
+  });
+
+  test("classify: infers types tasks can be created with and matches existing classes", async () => {
+    const result = await classifyStage.run(candidates(
+      generated({ title: "Midterm", taskType: "test" }),
+      generated({ title: "Response paper", taskType: "paper", courseCode: "HIST 210" }),
+    ), context);
+
+    expect(result.tasks.map(({ taskType, classId }) => ({ taskType, classId }))).toEqual([
+      { taskType: "exam", classId: undefined },
+      { taskType: "assignment", classId: "hist210" },
+    ]);
+  });
+
+  test("dedupe: drops exact repeats, keeping the more confident one", async () => {
+    const result = await dedupeStage.run(candidates(
+      generated({ confidenceScore: 0.8 }),
+      generated({ title: "Lab 1", taskType: "lab" }),
+      generated({ title: "homework 1!", confidenceScore: 0.95 }),
+      generated({ title: "Lab 2", taskType: "lab" }),
+    ), context);
+
+    expect(result.tasks.map(task => [task.title, task.confidenceScore])).toEqual([
+      ["homework 1!", 0.95],
+      ["Lab 1", 0.9],
+      ["Lab 2", 0.9],
+    ]);
+  });
+
+  test("validate: rejects unsure tasks and tasks not in the syllabus, with a lower bar for labs", async () => {
+    const result = await validateStage.run(candidates(
+      generated({ title: "HW 1" }),
+      generated({ title: "Midterm Exam", confidenceScore: 0.6 }),
+      generated({ title: "Lab 1", taskType: "lab", confidenceScore: 0.6 }),
+      generated({ title: "Pottery showcase" }),
+    ), { ...context, content: `${syllabus}\nLabs meet on Thursdays.` });
+
+    expect(result.tasks.map(task => task.title)).toEqual(["HW 1", "Lab 1"]);
+  });
+
+  test("validate: traces tasks back to the normalized text they were read from", async () => {
+    const result = await validateStage.run(candidates(generated({ title: "Pottery showcase" })), {
+      ...context,
+      content: `${syllabus}\r\nPo\u200Bttery\u00A0Sh\u200Bowcase on Friday`,
+    });
+
+    expect(result.tasks.map(task => task.title)).toEqual(["Pottery showcase"]);
+  });
+});
+
+describe("date helpers", () => {
+  test("convertDateToISO rejects dates that don't exist instead of rolling them over", () => {
+    expect(convertDateToISO("9/13", 2024)).toBe("2024-09-13");
+    expect(convertDateToISO("Due 09/13/25")).toBe("2025-09-13");
+    expect(convertDateToISO("02/30/2024")).toBeNull();
+  });
+
+  test("findMatchingLabSession matches by lab number, then by shared words", () => {
+    const schedule = [
+      { title: "Lab 1: Power Characterization", date: "2024-09-05" },
+      { title: "Lab 2: Half-Wave Rectifier", date: "2024-09-12" },
+    ];
+
+    expect(findMatchingLabSession(generated({ title: "lab2 report" }), schedule)?.date).toBe("2024-09-12");
+    expect(findMatchingLabSession(generated({ title: "Rectifiers lab" }), schedule)?.date).toBe("2024-09-12");
+    expect(findMatchingLabSession(generated({ title: "Lab 3" }), schedule)).toBeNull();
+  });
+});
+
+describe("runSyllabusPipeline", () => {
+  const memoryCache = (): StageCache & { stored: Record<string, unknown> } => {
+    const cache = {
+      stored: {} as Record<string, unknown>,
+      load: async () => cache.stored,
+      save: async (outputs: Record<string, unknown>) => { Object.assign(cache.stored, outputs); },
+    };
+    return cache;
+  };
+
+  const buildPipeline = (extract: jest.Mock, version = 1): SyllabusPipeline => {
+    const passThrough: TaskStage = { name: "pass", version: 1, scope: "run", cache: false, run: async input => input };
+    const candidateStage = createCandidateStage([{ name: "fake", label: "the fake", extract }], version);
+    return [textStage, segmentStage, candidateStage, passThrough];
+  };
+
+  test("reuses cached candidates for the same class and stage versions", async () => {
+    const extract = jest.fn(async () => candidates(generated({})));
+    const cache = memoryCache();
+
+    const first = await runSyllabusPipeline(syllabus, context, { stages: buildPipeline(extract), cache });
+    const second = await runSyllabusPipeline(syllabus, context, { stages: buildPipeline(extract), cache });
+
+    expect(extract).toHaveBeenCalledTimes(1);
+    expect(Object.keys(cache.stored)).toEqual(["text@1>segment@1>candidates:fake@1#cs101"]);
+    expect(first.stages.map(stage => stage.fromCache)).toEqual([false, false, false, false]);
+    expect(second.stages.map(stage => [stage.name, stage.fromCache])).toEqual([
+      ["candidates:fake", true],
+      ["pass", false],
+    ]);
+    expect(second.tasks).toEqual(first.tasks);
+  });
+
+  test("runs again for another class or a new stage version", async () => {
+    const extract = jest.fn(async () => candidates(generated({})));
+    const cache = memoryCache();
+
+    await runSyllabusPipeline(syllabus, context, { stages: buildPipeline(extract), cache });
+    await runSyllabusPipeline(syllabus, { ...context, classId: "hist210" }, { stages: buildPipeline(extract), cache });
+    await runSyllabusPipeline(syllabus, context, { stages: buildPipeline(extract, 2), cache });
+
+    expect(extract).toHaveBeenCalledTimes(3);
+  });
+
+  test("runs again when something a stage depends on besides the class changes", async () => {
+    const extract = jest.fn(async () => candidates(generated({})));
+    let term = "fall 2024";
+    const stages: SyllabusPipeline = [
+      textStage,
+      segmentStage,
+      createCandidateStage([{ name: "fake", label: "the fake", extract, cacheVariant: () => term }]),
+    ];
+    const cache = memoryCache();
+
+    await runSyllabusPipeline(syllabus, context, { stages, cache });
+    await runSyllabusPipeline(syllabus, context, { stages, cache });
+    term = "spring 2025";
+    await runSyllabusPipeline(syllabus, context, { stages, cache });
+
+    expect(extract).toHaveBeenCalledTimes(2);
+    expect(Object.keys(cache.stored)).toEqual([
+      "text@1>segment@1>candidates:fake@1#cs101#fall 2024",
+      "text@1>segment@1>candidates:fake@1#cs101#spring 2025",
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for reviewing syllabus tasks before they are created
+ */
+
+import { SyllabusTaskGenerationService } from "../../services/syllabusTaskGenerationService";
+import {
+  findSourceSpan,
+  getTaskReviewOutcome,
+  mergeReviewItems,
+  type GeneratedTask,
+  type TaskRejection,
+} from "../../services/syllabus";
+import type { Task, TaskType } from "../../types/database";
+
+const generated = (overrides: Partial<GeneratedTask>): GeneratedTask => ({
+  title: "Homework 1",
+  dueDate: "2024-09-13",
+  taskType: "assignment",
+  priority: "medium",
+  confidenceScore: 0.9,
+  ...overrides,
+});
+
+const existingTask: Task = {
+  id: "task-hw2",
+  user_id: "user-1",
+  title: "HW 2",
+  class: "cs101",
+  type: "homework-type",
+  completed: false,
+  dueDate: "2024-09-20",
+  created_at: "2024-09-01T00:00:00Z",
+};
+
+const taskTypes: TaskType[] = [
+  { id: "homework-type", user_id: "user-1", name: "Homework", created_at: "2024-09-01T00:00:00Z" },
+];
+
+const rejection: TaskRejection = {
+  userId: "user-1",
+  classId: "cs101",
+  title: "Participation",
+  taskType: "assignment",
+  confidenceScore: 0.75,
+  reason: "rejected",
+  rejectedAt: "2024-08-01T00:00:00Z",
+};
+
+describe("SyllabusTaskGenerationService.prepareTaskReview", () => {
+  test("triages by confidence and flags duplicates and earlier rejections", () => {
+    const items = SyllabusTaskGenerationService.prepareTaskReview([
+      generated({}),
+      generated({ title: "Homework 2", dueDate: "2024-09-20" }),
+      generated({ title: "Homework #1", confidenceScore: 0.75 }),
+      generated({ title: "Participation", dueDate: "2024-12-01", confidenceScore: 0.75 }),
+      generated({ title: "Lab 1", taskType: "lab", confidenceScore: 0.6 }),
+    ], { classId: "cs101", existingTasks: [existingTask], taskTypes, rejections: [rejection] });
+
+    expect(items.map(({ confidence, approved, duplicateOf, rejectedBefore }) => ({ confidence, approved, duplicateOf, rejectedBefore }))).toEqual([
+      { confidence: "high", approved: true, duplicateOf: undefined, rejectedBefore: false },
+      { confidence: "high", approved: false, duplicateOf: { title: "HW 2", taskId: "task-hw2" }, rejectedBefore: false },
+      { confidence: "medium", approved: false, duplicateOf: { title: "Homework 1", itemId: "review-0" }, rejectedBefore: false },
+      { confidence: "medium", approved: false, duplicateOf: undefined, rejectedBefore: true },
+      { confidence: "low", approved: false, duplicateOf: undefined, rejectedBefore: false },
+    ]);
+  });
+});
+
+describe("review outcome", () => {
+  test("merged and rejected tasks are reported with their reasons", () => {
+    const items = SyllabusTaskGenerationService.prepareTaskReview([
+      generated({ dueDate: undefined }),
+      generated({ title: "Homework #1", description: "Problems 1-5" }),
+      generated({ title: "Homework 2", dueDate: "2024-09-20" }),
+    ], { classId: "cs101", existingTasks: [existingTask], taskTypes, rejections: [] });
+
+    const merged = mergeReviewItems(items, "review-1", "review-0");
+    expect(merged).toHaveLength(2);
+    expect(merged[0].task).toEqual(expect.objectContaining({
+      title: "Homework 1",
+      dueDate: "2024-09-13",
+      description: "Problems 1-5",
+    }));
+
+    const { approved, rejected } = getTaskReviewOutcome(merged);
+    expect(approved.map(task => task.title)).toEqual(["Homework 1"]);
+    expect(rejected.map(({ task, reason }) => [task.title, reason])).toEqual([
+      ["Homework #1", "merged"],
+      ["Homework 2", "duplicate"],
+    ]);
+  });
+});
+
+describe("findSourceSpan", () => {
+  const syllabus = "Week 2\nHomework 1 is due\non Friday 9/13\nWeek 3";
+
+  test("finds source text across the line breaks of the extracted PDF text", () => {
+    const span = findSourceSpan(syllabus, generated({ sourceText: "Homework 1 is due on Friday 9/13" }));
+
+    expect(span && syllabus.slice(span.start, span.end)).toBe("Homework 1 is due\non Friday 9/13");
+  });
+
+  test("falls back to the source line, then the title", () => {
+    const byLine = findSourceSpan(syllabus, generated({ sourceText: "paraphrased", sourceLine: 4 }));
+    const byTitle = findSourceSpan(syllabus, generated({ title: "homework 1" }));
+
+    expect(byLine && syllabus.slice(byLine.start, byLine.end)).toBe("Week 3");
+    expect(byTitle).toEqual({ start: 7, end: 17 });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for the operation-log merge used by the two-way sync
+ */
+
+import {
+  mergeTable,
+  foldOperations,
+  recordOperation,
+  removeOperations,
+  getOperationLog,
+  getSyncTableConfig,
+  OPERATION_LOG_KEY,
+  syncWithServer,
+  type SyncOperation,
+  type SyncRecord,
+} from "../../services/sync";
+import { supabase } from "../../services/supabaseClient";
+
+const tasks = getSyncTableConfig("tasks");
+const NOW = "2024-10-20T12:00:00.000Z";
+
+const row = (overrides: Partial<SyncRecord> = {}): SyncRecord => ({
+  id: "t1",
+  title: "Essay",
+  dueDate: "2024-10-25",
+  priority: "medium",
+  updated_at: "2024-10-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const op = (overrides: Partial<SyncOperation>): SyncOperation => ({
+  id: "op-1",
+  table: "tasks",
+  recordId: "t1",
+  type: "upsert",
+  changes: {},
+  timestamp: "2024-10-10T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("foldOperations", () => {
+  test("keeps the newest value per field and lets deletes drop earlier edits", () => {
+    const folded = foldOperations([
+      op({ id: "a", changes: { title: "Draft" }, timestamp: "2024-10-10T00:00:00.000Z" }),
+      op({ id: "b", changes: { title: "Final", priority: "high" }, timestamp: "2024-10-11T00:00:00.000Z" }),
+      op({ id: "c", recordId: "t2", type: "upsert", changes: { title: "Quiz" } }),
+      op({ id: "d", recordId: "t2", type: "delete", timestamp: "2024-10-12T00:00:00.000Z" }),
+    ]);
+
+    const t1 = folded.find(change => change.recordId === "t1");
+    expect(t1?.fields.title).toEqual({ value: "Final", changedAt: "2024-10-11T00:00:00.000Z" });
+    expect(t1?.fields.priority.value).toBe("high");
+    expect(t1?.operationIds).toEqual(["a", "b"]);
+
+    const t2 = folded.find(change => change.recordId === "t2");
+    expect(t2?.deletedAt).toBe("2024-10-12T00:00:00.000Z");
+    expect(t2?.fields).toEqual({});
+  });
+});
+
+describe("recordOperation", () => {
+  beforeEach(() => localStorage.clear());
+
+  test("compacts a long log without changing the ids of the operations it keeps", () => {
+    const titleEdits = Array.from({ length: 498 }, (_, i) => op({
+      id: `edit-${i}`,
+      changes: { title: `Draft ${i}` },
+      timestamp: new Date(Date.UTC(2024, 9, 2, 0, 0, i)).toISOString(),
+    }));
+    localStorage.setItem(OPERATION_LOG_KEY, JSON.stringify([
+      op({ id: "due", changes: { dueDate: "2024-10-25" }, timestamp: "2024-10-01T00:00:00.000Z" }),
+      ...titleEdits,
+      op({ id: "gone", recordId: "t2", type: "delete", timestamp: "2024-10-05T00:00:00.000Z" }),
+    ]));
+
+    const added = recordOperation("tasks", "t3", "upsert", { title: "Reading" });
+
+    expect(getOperationLog().map(operation => operation.id)).toEqual(["due", "edit-497", "gone", added.id]);
+    expect(getOperationLog()[1].changes).toEqual({ title: "Draft 497" });
+
+    // A sync that started before the compaction still clears what it replayed
+    removeOperations(["due", ...titleEdits.map(operation => operation.id)]);
+    expect(getOperationLog().map(operation => operation.id)).toEqual(["gone", added.id]);
+  });
+});
+
+describe("mergeTable", () => {
+  test("merges fields edited on different sides without conflicts", () => {
+    const base = row();
+    const result = mergeTable({
+      config: tasks,
+      local: [row({ title: "Essay draft" })],
+      server: [row({ dueDate: "2024-10-27", updated_at: "2024-10-15T00:00:00.000Z" })],
+      shadow: { t1: base },
+      pending: foldOperations([op({ changes: { title: "Essay draft" } })]),
+      now: NOW,
+    });
+
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.records[0]).toMatchObject({ title: "Essay draft", dueDate: "2024-10-27" });
+    expect(result.upserts).toHaveLength(1);
+  });
+
+  test("settles a field edited on both sides by last writer wins and records a conflict", () => {
+    const result = mergeTable({
+      config: tasks,
+      local: [row({ priority: "high" })],
+      server: [row({ priority: "low", updated_at: "2024-10-15T00:00:00.000Z" })],
+      shadow: { t1: row() },
+      pending: foldOperations([op({ changes: { priority: "high" }, timestamp: "2024-10-12T00:00:00.000Z" })]),
+      now: NOW,
+    });
+
+    expect(result.records[0].priority).toBe("low");
+    expect(result.upserts).toHaveLength(0);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ recordId: "t1", field: "priority", localValue: "high", serverValue: "low", applied: "server" }),
+    ]);
+  });
+
+  test("uploads records created on the device and never infers deletes from missing local rows", () => {
+    const result = mergeTable({
+      config: tasks,
+      local: [row({ id: "new", title: "Lab report" })],
+      server: [row()],
+      shadow: { t1: row() },
+      pending: [],
+      now: NOW,
+    });
+
+    expect(result.upserts.map(record => record.id)).toEqual(["new"]);
+    expect(result.deletes).toEqual([]);
+    expect(result.records.map(record => record.id).sort()).toEqual(["new", "t1"]);
+  });
+
+  test("keeps a server deletion and offers local edits to the deleted record as a conflict", () => {
+    const result = mergeTable({
+      config: tasks,
+      local: [row({ title: "Essay v2" })],
+      server: [],
+      shadow: { t1: row() },
+      pending: foldOperations([op({ changes: { title: "Essay v2" } })]),
+      now: NOW,
+    });
+
+    expect(result.records).toHaveLength(0);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ recordId: "t1", serverValue: null, applied: "server" }),
+    ]);
+  });
+});
+
+describe("syncWithServer", () => {
+  // Every table read fails with the given error, or only the tasks table
+  const failServerReads = (error: { message: string }, onlyTable?: string) => {
+    jest.spyOn(supabase, "from").mockImplementation(((table: string) => ({
+      select: () => ({
+        eq: () => Promise.resolve(!onlyTable || table === onlyTable ? { data: null, error } : { data: [], error: null }),
+      }),
+    })) as never);
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test("reports a server that rejects the reads as a failure, not as offline", async () => {
+    failServerReads({ message: "permission denied for table tasks" }, "tasks");
+
+    const report = await syncWithServer("user-1");
+
+    expect(report).toEqual(expect.objectContaining({
+      success: false,
+      offline: false,
+      failedTables: ["tasks"],
+      error: "permission denied for table tasks",
+    }));
+  });
+
+  test("reports an unreachable server as offline", async () => {
+    failServerReads({ message: "TypeError: Failed to fetch" });
+
+    const report = await syncWithServer("user-1");
+
+    expect(report).toEqual(expect.objectContaining({ success: false, offline: true, failedTables: [] }));
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for task duration estimates learned from tracked time
+ */
+
+import {
+  buildTimeEstimateModel,
+  collectTimeSamples,
+  EMPTY_ESTIMATE_MODEL,
+  getLearnedEstimate,
+  type TaskTimeSample,
+} from "../../services/estimates";
+import type { Task } from "../../types/database";
+
+const sample = (overrides: Partial<TaskTimeSample>): TaskTimeSample => ({
+  taskId: "task-1",
+  classId: "cs101",
+  taskTypeId: "lab",
+  estimatedMinutes: 180,
+  actualMinutes: 360,
+  completedAt: "2024-10-01T10:00:00Z",
+  ...overrides,
+});
+
+describe("learned estimates", () => {
+  test("keeps the default without tracked history", () => {
+    expect(getLearnedEstimate(EMPTY_ESTIMATE_MODEL, { classId: "cs101", taskTypeId: "lab" }, 180)).toEqual({
+      minutes: 180,
+      defaultMinutes: 180,
+      ratio: 1,
+      source: "default",
+      samples: 0,
+    });
+  });
+
+  test("moves toward tracked time as samples add up", () => {
+    const labs = Array.from({ length: 6 }, (_, i) =>
+      sample({ taskId: `lab-${i}`, completedAt: `2024-10-0${i + 1}T10:00:00Z` })
+    );
+
+    const few = getLearnedEstimate(buildTimeEstimateModel(labs.slice(0, 1)), { classId: "cs101", taskTypeId: "lab" }, 180);
+    const many = getLearnedEstimate(buildTimeEstimateModel(labs), { classId: "cs101", taskTypeId: "lab" }, 180);
+
+    expect(few.minutes).toBeGreaterThan(180);
+    expect(many.minutes).toBeGreaterThan(few.minutes);
+    expect(many.minutes).toBeLessThanOrEqual(360);
+    expect(many.source).toBe("class_task_type");
+  });
+
+  test("applies what it learned about a class to its other task types", () => {
+    const model = buildTimeEstimateModel([
+      sample({ taskId: "lab-1" }),
+      sample({ taskId: "lab-2", completedAt: "2024-10-02T10:00:00Z" }),
+      sample({ taskId: "essay-1", classId: "eng201", taskTypeId: "paper", estimatedMinutes: 300, actualMinutes: 300 }),
+    ]);
+
+    const homework = getLearnedEstimate(model, { classId: "cs101", taskTypeId: "homework" }, 120);
+    expect(homework.source).toBe("class");
+    expect(homework.minutes).toBeGreaterThan(120);
+    expect(getLearnedEstimate(model, { classId: "eng201", taskTypeId: "paper" }, 300).minutes).toBeLessThan(
+      getLearnedEstimate(model, { classId: "cs101", taskTypeId: "paper" }, 300).minutes
+    );
+  });
+
+  test("only learns from completed tasks with tracked time", () => {
+    const task = (id: string, completed: boolean): Task => ({
+      id, user_id: "user-1", title: id, completed, class: "cs101", type: "lab", created_at: "2024-09-01T00:00:00Z",
+    });
+    const samples = collectTimeSamples(
+      [task("done", true), task("open", false), task("untracked", true)],
+      [
+        { taskId: "done", totalTime: 240, focusBlocks: 8, lastStudied: "2024-10-01T10:00:00Z" },
+        { taskId: "open", totalTime: 60, focusBlocks: 2, lastStudied: "2024-10-01T10:00:00Z" },
+      ],
+      () => 180
+    );
+
+    expect(samples).toEqual([sample({ taskId: "done", actualMinutes: 240 })]);
+  });
+});
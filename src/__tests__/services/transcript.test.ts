@@ -0,0 +1,102 @@
+/**
+ * Tests for the transcript model
+ */
+
+import { buildTranscript, type TranscriptCourseInput } from "../../services/grade/transcriptService";
+import type { GpaSettings } from "../../types/database";
+
+const gpaSettings: GpaSettings = {
+  id: "settings-1",
+  user_id: "user-1",
+  scale_type: "four_point",
+  a_min: 90,
+  b_min: 80,
+  c_min: 70,
+  d_min: 60,
+  quality_points: { A: 4, B: 3, C: 2, D: 1, F: 0 },
+  created_at: "2024-01-01T00:00:00Z",
+};
+
+const course = (overrides: Partial<TranscriptCourseInput>): TranscriptCourseInput => ({
+  id: overrides.name || "course",
+  name: "Course",
+  semester: "Fall",
+  year: 2023,
+  creditHours: 3,
+  letterGrade: "A",
+  isCompleted: true,
+  isMajor: false,
+  isTransfer: false,
+  countsInGpa: true,
+  ...overrides,
+});
+
+describe("buildTranscript", () => {
+  test("orders terms chronologically with running cumulative GPA", () => {
+    const transcript = buildTranscript([
+      course({ name: "Physics", semester: "Spring", year: 2024, letterGrade: "B" }),
+      course({ name: "Calculus", semester: "Fall", year: 2023, letterGrade: "A" }),
+      course({ name: "Writing", semester: "Fall", year: 2023, letterGrade: "C", creditHours: 1 }),
+    ], gpaSettings);
+
+    expect(transcript.terms.map(term => term.label)).toEqual(["Fall 2023", "Spring 2024"]);
+    expect(transcript.terms[0].termGPA).toBeCloseTo(3.5);
+    expect(transcript.terms[1].termGPA).toBe(3);
+    expect(transcript.terms[1].cumulativeGPA).toBeCloseTo(23 / 7, 2);
+    expect(transcript.totalEarnedCredits).toBe(7);
+  });
+
+  test("replaces or averages repeated courses", () => {
+    const courses = [
+      course({ id: "first", name: "Chemistry", courseCode: "CHEM 101", letterGrade: "D" }),
+      course({ id: "second", name: "Chemistry I", courseCode: "chem-101", semester: "Spring", year: 2024, letterGrade: "B" }),
+    ];
+
+    const replaced = buildTranscript(courses, gpaSettings);
+    expect(replaced.cumulativeGPA).toBe(3);
+    expect(replaced.terms[0].courses[0].excludedAsRepeat).toBe(true);
+    expect(replaced.totalEarnedCredits).toBe(3);
+
+    const averaged = buildTranscript(courses, gpaSettings, { repeatPolicy: "average" });
+    expect(averaged.cumulativeGPA).toBe(2);
+    expect(averaged.totalEarnedCredits).toBe(3);
+  });
+
+  test("keeps pass, fail and withdrawn marks out of the GPA", () => {
+    const transcript = buildTranscript([
+      course({ name: "Biology", letterGrade: "B" }),
+      course({ name: "Seminar", letterGrade: "P" }),
+      course({ name: "Art", letterGrade: "NP" }),
+      course({ name: "History", letterGrade: "W" }),
+    ], gpaSettings);
+
+    expect(transcript.cumulativeGPA).toBe(3);
+    expect(transcript.totalGpaHours).toBe(3);
+    expect(transcript.totalEarnedCredits).toBe(6);
+    expect(transcript.terms[0].courses.find(c => c.name === "History")?.status).toBe("withdrawn");
+  });
+
+  test("adds transfer credit and computes major GPA from tagged classes", () => {
+    const transcript = buildTranscript([
+      course({ name: "Data Structures", letterGrade: "A", isMajor: true }),
+      course({ name: "Statistics", letterGrade: "C" }),
+      course({ name: "Intro CS", semester: "Summer", year: 2023, letterGrade: "B", isMajor: true, isTransfer: true, institution: "City College", countsInGpa: false }),
+    ], gpaSettings);
+
+    expect(transcript.terms[0].isTransfer).toBe(true);
+    expect(transcript.transferCredits).toBe(3);
+    expect(transcript.cumulativeGPA).toBe(3);
+    expect(transcript.majorGPA).toBe(4);
+    expect(transcript.totalEarnedCredits).toBe(9);
+  });
+
+  test("projects classes in progress only when asked to", () => {
+    const courses = [
+      course({ name: "Algebra", letterGrade: "A" }),
+      course({ name: "Biology", semester: "Spring", year: 2024, letterGrade: "C", isCompleted: false }),
+    ];
+
+    expect(buildTranscript(courses, gpaSettings).cumulativeGPA).toBe(3);
+    expect(buildTranscript(courses, gpaSettings, { includeInProgress: false }).cumulativeGPA).toBe(4);
+  });
+});
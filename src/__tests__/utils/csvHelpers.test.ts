@@ -0,0 +1,45 @@
+/**
+ * Tests for CSV parsing helpers
+ */
+
+import { parseCSV, parseCSVTable, detectDelimiter, detectEncoding } from "../../utils/csvHelpers";
+
+describe("parseCSV", () => {
+  test("keeps delimiters, quotes and line breaks inside quoted fields", () => {
+    const content = 'Title,Notes\r\n"Essay, draft 2","Say ""hi""\nthen leave"\r\nQuiz,\r\n';
+
+    expect(parseCSV(content)).toEqual([
+      ["Title", "Notes"],
+      ["Essay, draft 2", 'Say "hi"\nthen leave'],
+      ["Quiz", ""],
+    ]);
+  });
+
+  test("skips blank lines but keeps quoted empty fields", () => {
+    expect(parseCSV('a,b\n\n""\n1,2')).toEqual([["a", "b"], [""], ["1", "2"]]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  test("ignores commas inside quotes when choosing the delimiter", () => {
+    expect(detectDelimiter('Title;Due\n"Read ch. 1, 2";2024-10-05\nLab;2024-10-06')).toBe(";");
+    expect(detectDelimiter("Title\tDue\nLab\t2024-10-06")).toBe("\t");
+  });
+});
+
+describe("parseCSVTable", () => {
+  test("strips the byte order mark and pads short rows", () => {
+    const table = parseCSVTable("\uFEFFTitle,Due,Class\nLab,2024-10-06");
+
+    expect(table.headers).toEqual(["Title", "Due", "Class"]);
+    expect(table.rows).toEqual([["Lab", "2024-10-06", ""]]);
+  });
+});
+
+describe("detectEncoding", () => {
+  test("reads byte order marks and falls back to Windows-1252 for invalid UTF-8", () => {
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe("utf-16le");
+    expect(detectEncoding(new Uint8Array(Buffer.from("Café", "utf8")))).toBe("utf-8");
+    expect(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9]))).toBe("windows-1252");
+  });
+});
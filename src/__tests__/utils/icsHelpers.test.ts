@@ -0,0 +1,66 @@
+/**
+ * Tests for ICS output helpers
+ */
+
+import { buildVTimezone, foldICSLine, formatICSDuration } from "../../utils/icsHelpers";
+
+describe("buildVTimezone", () => {
+  test("derives yearly DST rules for US zones", () => {
+    const lines = buildVTimezone("America/New_York", 2024, 2025);
+
+    expect(lines).toEqual([
+      "BEGIN:VTIMEZONE",
+      "TZID:America/New_York",
+      "BEGIN:STANDARD",
+      "DTSTART:20241103T020000",
+      "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+      "TZNAME:EST",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "END:STANDARD",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20240310T020000",
+      "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+      "TZNAME:EDT",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "END:DAYLIGHT",
+      "END:VTIMEZONE",
+    ]);
+  });
+
+  test("uses last-weekday rules for European zones", () => {
+    const lines = buildVTimezone("Europe/Berlin", 2024, 2025);
+
+    expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU");
+    expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU");
+    expect(lines).toContain("TZOFFSETTO:+0200");
+  });
+
+  test("emits a single observance for zones without DST", () => {
+    const lines = buildVTimezone("Asia/Kolkata", 2024, 2024);
+
+    expect(lines.filter(line => line.startsWith("BEGIN:"))).toEqual(["BEGIN:VTIMEZONE", "BEGIN:STANDARD"]);
+    expect(lines).toContain("TZOFFSETTO:+0530");
+  });
+});
+
+describe("foldICSLine", () => {
+  test("folds at 75 octets without splitting multi-byte characters", () => {
+    const line = `DESCRIPTION:${"é".repeat(80)}`;
+    const folded = foldICSLine(line);
+
+    folded.split("\r\n").forEach(part => {
+      expect(Buffer.byteLength(part, "utf8")).toBeLessThanOrEqual(75);
+    });
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+});
+
+describe("formatICSDuration", () => {
+  test("formats reminder offsets", () => {
+    expect(formatICSDuration(-1440)).toBe("-P1D");
+    expect(formatICSDuration(90)).toBe("PT1H30M");
+    expect(formatICSDuration(-15)).toBe("-PT15M");
+  });
+});
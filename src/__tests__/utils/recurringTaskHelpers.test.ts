@@ -0,0 +1,97 @@
+/**
+ * Tests for repeating task rules and occurrence expansion
+ */
+
+import {
+  buildRecurrenceRule,
+  parseRepeatSettings,
+  expandRecurringTasks,
+  splitRecurrenceRule,
+} from "../../utils/recurringTaskHelpers";
+import { taskFactory } from "../fixtures/tasks";
+
+const makeTask = taskFactory({
+  id: "quiz",
+  title: "Reading Quiz",
+  dueDate: "2024-09-02",
+  dueTime: "09:00",
+  created_at: "2024-08-20T00:00:00Z",
+});
+
+describe("buildRecurrenceRule", () => {
+  test("round-trips weekly rules through the form settings", () => {
+    const rule = buildRecurrenceRule({
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [3, 1],
+      endType: "until",
+      until: "2024-12-13",
+      skipDates: [],
+    }, "2024-09-02");
+
+    expect(rule).toBe("FREQ=WEEKLY;UNTIL=20241213;BYDAY=MO,WE");
+    expect(parseRepeatSettings({ recurrence_rule: rule, recurrence_exdates: ["2024-11-27"] })).toEqual({
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [1, 3],
+      endType: "until",
+      until: "2024-12-13",
+      count: undefined,
+      skipDates: ["2024-11-27"],
+    });
+  });
+});
+
+describe("expandRecurringTasks", () => {
+  test("expands occurrences in range, skipping holidays and tracking completion", () => {
+    const series = makeTask({
+      recurrence_rule: "FREQ=WEEKLY;BYDAY=MO",
+      recurrence_exdates: ["2024-09-16"],
+      completed_occurrences: ["2024-09-09"],
+    });
+    const single = makeTask({ id: "essay", recurrence_rule: undefined, dueDate: "2024-09-20" });
+
+    const expanded = expandRecurringTasks([series, single], "2024-09-05", "2024-09-30");
+
+    const occurrences = expanded.filter(task => task.seriesId === "quiz");
+    expect(occurrences.map(task => task.dueDate)).toEqual(["2024-09-09", "2024-09-23", "2024-09-30"]);
+    expect(occurrences.map(task => task.completed)).toEqual([true, false, false]);
+    expect(occurrences[0].id).toBe("quiz::2024-09-09");
+    expect(expanded.find(task => task.id === "essay")).toBe(single);
+  });
+
+  test("shifts start and end dates of multi-day duration tasks", () => {
+    const series = makeTask({
+      isDuration: true,
+      dueDate: undefined,
+      startDate: "2024-09-06",
+      endDate: "2024-09-08",
+      recurrence_rule: "FREQ=DAILY;INTERVAL=14;COUNT=2",
+    });
+
+    const [, second] = expandRecurringTasks([series], "2024-09-01", "2024-09-30");
+
+    expect(second.startDate).toBe("2024-09-20");
+    expect(second.endDate).toBe("2024-09-22");
+  });
+});
+
+describe("splitRecurrenceRule", () => {
+  test("ends the original series the day before the split", () => {
+    expect(splitRecurrenceRule("FREQ=WEEKLY;BYDAY=MO", "2024-09-02", "2024-09-23")).toEqual({
+      before: "FREQ=WEEKLY;UNTIL=20240922;BYDAY=MO",
+      after: "FREQ=WEEKLY;BYDAY=MO",
+    });
+  });
+
+  test("divides COUNT between the two series", () => {
+    expect(splitRecurrenceRule("FREQ=WEEKLY;COUNT=10;BYDAY=MO", "2024-09-02", "2024-09-23")).toEqual({
+      before: "FREQ=WEEKLY;COUNT=3;BYDAY=MO",
+      after: "FREQ=WEEKLY;COUNT=7;BYDAY=MO",
+    });
+  });
+
+  test("leaves nothing before a split on the first occurrence", () => {
+    expect(splitRecurrenceRule("FREQ=DAILY", "2024-09-02", "2024-09-02").before).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for the constraint-based study scheduler
+ */
+
+import {
+  getBusyBlocks,
+  getTaskDeadline,
+  repairStudySchedule,
+  solveStudySchedule,
+  type StudyDemand,
+  type ScheduleSolverInput,
+} from "../../utils/scheduleSolver";
+import type { Task } from "../../types/database";
+
+// 2024-10-07 is a Monday
+const profile: ScheduleSolverInput["profile"] = {
+  preferred_study_times: [1, 2, 3].map(day_of_week => ({
+    day_of_week,
+    start_time: "09:00",
+    end_time: "12:00",
+    productivity_score: 8,
+  })),
+  focus_duration_minutes: 60,
+  break_duration_minutes: 0,
+  daily_study_limit_hours: 2,
+};
+
+const demand = (overrides: Partial<StudyDemand>): StudyDemand => ({
+  id: "essay",
+  classId: "eng201",
+  label: "Essay",
+  taskIds: ["essay"],
+  minutes: 120,
+  deadline: "2024-10-09T23:59",
+  difficulty: 3,
+  sessionType: "practice",
+  ...overrides,
+});
+
+const input = (overrides: Partial<ScheduleSolverInput>): ScheduleSolverInput => ({
+  startDate: "2024-10-07",
+  endDate: "2024-10-09",
+  profile,
+  demands: [demand({})],
+  busy: [],
+  createdAt: "2024-10-06T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("solveStudySchedule", () => {
+  test("places sessions around classes already in the calendar", () => {
+    const lecture: Task = {
+      id: "lecture",
+      user_id: "user-1",
+      title: "Lecture",
+      completed: false,
+      startDate: "2024-10-07",
+      startTime: "09:00",
+      endTime: "10:30",
+      isDuration: true,
+      recurrence_rule: "FREQ=DAILY;COUNT=3",
+      created_at: "2024-09-01T00:00:00Z",
+    };
+    const busy = getBusyBlocks([lecture], "2024-10-07", "2024-10-09");
+    const { sessions, unmet } = solveStudySchedule(input({ busy }));
+
+    expect(busy).toHaveLength(3);
+    expect(unmet).toEqual([]);
+    sessions.forEach(session => expect(session.start_time >= "10:30").toBe(true));
+    // Spread over two days rather than doubled up on one
+    expect(new Set(sessions.map(session => session.date)).size).toBe(2);
+  });
+
+  test("treats deadline tasks with the form's default times as due, not busy", () => {
+    // The task form gives every task these start and end times
+    const homework: Task = {
+      id: "homework",
+      user_id: "user-1",
+      title: "Homework",
+      completed: false,
+      dueDate: "2024-10-08",
+      dueTime: "17:00",
+      startDate: "2024-10-08",
+      startTime: "08:00",
+      endTime: "11:00",
+      created_at: "2024-09-01T00:00:00Z",
+    };
+
+    expect(getBusyBlocks([homework], "2024-10-07", "2024-10-09")).toEqual([]);
+    expect(getTaskDeadline(homework)).toBe("2024-10-08T17:00");
+    expect(getTaskDeadline({ ...homework, isDuration: true })).toBe("2024-10-08T08:00");
+  });
+
+  test("doesn't leave scraps shorter than the shortest session", () => {
+    const { sessions, unmet } = solveStudySchedule(input({ demands: [demand({ minutes: 70 })] }));
+
+    expect(unmet).toEqual([]);
+    expect(sessions.map(session => session.duration_minutes)).toEqual([55, 15]);
+  });
+
+  test("reports work that can't fit before its deadline", () => {
+    const { sessions, unmet } = solveStudySchedule(input({
+      demands: [demand({ minutes: 240, deadline: "2024-10-07T23:59" })],
+    }));
+
+    expect(sessions.map(session => session.duration_minutes)).toEqual([60, 60]);
+    expect(unmet).toEqual([expect.objectContaining({ kind: "daily_limit", demandId: "essay", unscheduledMinutes: 120 })]);
+
+    const late = solveStudySchedule(input({
+      demands: [demand({ minutes: 120, deadline: "2024-10-07T09:30" })],
+    }));
+    expect(late.unmet[0].kind).toBe("deadline");
+    expect(late.unmet[0].reason).toContain("before it's due on 2024-10-07");
+  });
+
+  test("schedules the earliest deadline first and alternates subjects", () => {
+    const demands = [
+      demand({ id: "problem-set", classId: "math101", label: "Problem set", taskIds: ["problem-set"], deadline: "2024-10-08T23:59" }),
+      demand({}),
+    ];
+    const first = solveStudySchedule(input({ demands, excludeDates: ["2024-10-09"] }));
+
+    expect(first.unmet).toEqual([]);
+    expect(first.sessions.map(session => `${session.date} ${session.start_time} ${session.class_id}`)).toEqual([
+      "2024-10-07 09:00 math101",
+      "2024-10-07 10:00 eng201",
+      "2024-10-08 09:00 math101",
+      "2024-10-08 10:00 eng201",
+    ]);
+    expect(solveStudySchedule(input({ demands, excludeDates: ["2024-10-09"] }))).toEqual(first);
+  });
+});
+
+describe("repairStudySchedule", () => {
+  const { sessions } = solveStudySchedule(input({}));
+
+  test("keeps completed and still valid sessions and moves missed work", () => {
+    // Monday's session was missed; Tuesday's is still ahead
+    const repair = repairStudySchedule({ ...input({}), sessions, now: "2024-10-08T08:00" });
+
+    expect(repair.sessions.find(session => session.id === sessions[1].id)).toEqual(sessions[1]);
+    expect(repair.changes).toEqual([
+      expect.objectContaining({ kind: "moved", previous: sessions[0], reason: "Missed" }),
+    ]);
+    expect(repair.changes[0].session.date).not.toBe("2024-10-07");
+    expect(repair.changes[0].session.status).toBe("rescheduled");
+    expect(repair.unmet).toEqual([]);
+  });
+
+  test("doesn't reschedule work that was already done", () => {
+    const done = sessions.map((session, index) => (index === 0 ? { ...session, status: "completed" as const } : session));
+    const repair = repairStudySchedule({ ...input({}), sessions: done, now: "2024-10-08T08:00" });
+
+    expect(repair.changes).toEqual([]);
+    expect(repair.sessions).toEqual(done);
+  });
+
+  test("moves sessions that end after a due date that moved earlier", () => {
+    const repair = repairStudySchedule({
+      ...input({ demands: [demand({ deadline: "2024-10-08T09:30" })] }),
+      sessions,
+      now: "2024-10-07T08:00",
+    });
+
+    expect(repair.changes).toEqual([
+      expect.objectContaining({ kind: "moved", previous: sessions[1], reason: "Due date moved earlier" }),
+    ]);
+    expect(repair.changes[0].session.date).toBe("2024-10-07");
+    expect(repair.unmet).toEqual([]);
+  });
+
+  test("schedules the next review of concepts whose last review is done", () => {
+    const review = demand({
+      id: "review_bio101_2024-10-09",
+      classId: "bio101",
+      label: "Review: Mitosis",
+      taskIds: [],
+      conceptIds: ["mitosis"],
+      minutes: 20,
+      earliest: "2024-10-09",
+      deadline: "2024-10-09T23:59",
+      sessionType: "review",
+    });
+    const lastReview = {
+      ...sessions[0],
+      id: "last-review",
+      class_id: "bio101",
+      task_ids: [],
+      concept_ids: ["mitosis"],
+      duration_minutes: 20,
+      status: "completed" as const,
+    };
+
+    const repair = repairStudySchedule({ ...input({ demands: [review] }), sessions: [lastReview], now: "2024-10-08T08:00" });
+
+    expect(repair.unmet).toEqual([]);
+    expect(repair.sessions).toEqual([
+      lastReview,
+      expect.objectContaining({ date: "2024-10-09", concept_ids: ["mitosis"], duration_minutes: 20 }),
+    ]);
+  });
+});
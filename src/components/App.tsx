@@ -8,6 +8,9 @@ import ErrorBoundary from "./ErrorBoundary";
 import ThemeToggle from "./ThemeToggle";
 import { getSettingsWithSync, updateNavigationOrder, updateSelectedView } from "../services/settings/settingsOperations";
 import { SyllabusSecurityService } from "../services/syllabusSecurityService";
+import { lazyReminderService } from "../services/LazyServices";
+import { listenForNotificationClicks } from "../services/notifications";
+import { readDeepLink, subscribeToDeepLinks, type DeepLinkTarget } from "../utils/deepLinks";
 import {
   SidebarLoadingFallback,
   CalendarLoadingFallback,
@@ -29,6 +32,9 @@ import {
   LazyLandingPage as LandingPage
 } from "./LazyComponents";
 
+// How often due reminders are checked while the app is open
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+
 // Define view types - now includes app views and calendar views
 type AppViewType = "dashboard" | "tasks" | "calendar" | "grades";
 type CalendarViewType = "month" | "week" | "day";
@@ -174,6 +180,44 @@ const CalendarApp: React.FC = () => {
     saveSelectedView();
   }, [appView, user?.id, settingsLoaded]);
 
+  // Tasks opened from a notification are shown in the calendar, exam prep
+  // plans in the task list. A link in the URL at startup wins over the saved
+  // view, so it waits for the settings.
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    const showDeepLink = (target: DeepLinkTarget | null) => {
+      if (target?.type === 'task') setAppView('calendar');
+      if (target?.type === 'exam') setAppView('tasks');
+    };
+    showDeepLink(readDeepLink());
+
+    const stopClicks = listenForNotificationClicks();
+    const unsubscribe = subscribeToDeepLinks(showDeepLink);
+    return () => {
+      stopClicks();
+      unsubscribe();
+    };
+  }, [settingsLoaded]);
+
+  // Send due reminders while the app is open; browser and inbox reminders can only be delivered here
+  useEffect(() => {
+    if (!user?.id || !features.showEmailNotifications) return;
+
+    const userId = user.id;
+    const runReminders = async () => {
+      try {
+        const { processReminders } = await lazyReminderService();
+        await processReminders(userId);
+      } catch (error) {
+        logger.warn('Failed to process reminders', { error });
+      }
+    };
+
+    runReminders();
+    const interval = setInterval(runReminders, REMINDER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user?.id, features.showEmailNotifications]);
+
 
   // iOS-style reorder mode activation
   const enterReorderMode = useCallback(() => {
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback } from "react";
+import type { User } from "@supabase/supabase-js";
+import {
+  getFeeds,
+  addFeed,
+  updateFeed,
+  removeFeed,
+  syncFeed,
+  detectFeedSource,
+  type CalendarFeed,
+} from "../services/canvas/feedRegistry";
+import { PRIMARY_CANVAS_FEED_ID } from "../services/canvasService";
+import { getClasses, getTaskTypes } from "../services/dataService";
+import { logger } from "../utils/logger";
+import type { Class, TaskType } from "../types/database";
+
+interface CalendarFeedListProps {
+  useSupabase: boolean;
+  user: User | null;
+  onSynced?: () => void;
+}
+
+const SOURCE_LABELS: Record<CalendarFeed['source'], string> = {
+  canvas: "Canvas",
+  gradescope: "Gradescope",
+  google: "Google Calendar",
+  outlook: "Outlook",
+  other: "Calendar",
+};
+
+const emptyForm = { label: "", url: "", defaultClassId: "", defaultTaskType: "" };
+
+/**
+ * Manages calendar subscriptions other than the primary Canvas feed
+ * (Gradescope, department Google Calendars, club calendars, ...)
+ */
+const CalendarFeedList: React.FC<CalendarFeedListProps> = ({ useSupabase, user, onSynced }) => {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>(() =>
+    getFeeds().filter(feed => feed.id !== PRIMARY_CANVAS_FEED_ID)
+  );
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [taskTypes, setTaskTypes] = useState<TaskType[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [syncingFeedId, setSyncingFeedId] = useState<string | null>(null);
+
+  const reloadFeeds = useCallback(() => {
+    setFeeds(getFeeds().filter(feed => feed.id !== PRIMARY_CANVAS_FEED_ID));
+  }, []);
+
+  useEffect(() => {
+    const loadOptions = async (): Promise<void> => {
+      try {
+        const [loadedClasses, loadedTypes] = await Promise.all([
+          getClasses(user?.id, useSupabase),
+          getTaskTypes(user?.id, useSupabase),
+        ]);
+        setClasses(loadedClasses);
+        setTaskTypes(loadedTypes);
+      } catch (error) {
+        logger.warn('Failed to load classes or task types for feed defaults', { error });
+      }
+    };
+    loadOptions();
+  }, [user?.id, useSupabase]);
+
+  const handleAddFeed = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!form.url.trim()) {
+      setFormError("Please enter the feed URL");
+      return;
+    }
+
+    try {
+      addFeed({
+        label: form.label || SOURCE_LABELS[detectFeedSource(form.url)],
+        url: form.url,
+        defaultClassId: form.defaultClassId,
+        defaultTaskType: form.defaultTaskType,
+      });
+      setForm(emptyForm);
+      reloadFeeds();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Could not add feed");
+    }
+  }, [form, reloadFeeds]);
+
+  const handleToggle = useCallback((feed: CalendarFeed) => {
+    updateFeed(feed.id, { enabled: !feed.enabled });
+    reloadFeeds();
+  }, [reloadFeeds]);
+
+  const handleRemove = useCallback((feed: CalendarFeed) => {
+    if (!window.confirm(`Remove "${feed.label}"? Tasks already imported from it will be kept.`)) return;
+    removeFeed(feed.id);
+    reloadFeeds();
+  }, [reloadFeeds]);
+
+  const handleSync = useCallback(async (feed: CalendarFeed) => {
+    setSyncingFeedId(feed.id);
+    try {
+      const result = await syncFeed(feed, useSupabase, user);
+      if (result.success) onSynced?.();
+    } finally {
+      setSyncingFeedId(null);
+      reloadFeeds();
+    }
+  }, [useSupabase, user, onSynced, reloadFeeds]);
+
+  const inputClass = "w-full p-2 border border-gray-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-gray-900 dark:text-slate-100 mb-2">Other Calendar Feeds</h3>
+      <p className="text-xs text-gray-500 dark:text-slate-400 mb-3">
+        Add Gradescope, Google Calendar or club calendar feeds. Enabled feeds sync together with Canvas.
+      </p>
+
+      {feeds.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {feeds.map(feed => (
+            <li key={feed.id} className="p-3 bg-gray-50 dark:bg-slate-800/50 border border-gray-200 dark:border-slate-700/50 rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-slate-100 truncate">
+                    {feed.label}
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-slate-400">{SOURCE_LABELS[feed.source]}</span>
+                  </p>
+                  {feed.lastSync && (
+                    <p className={`text-xs truncate ${feed.lastSync.success ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"}`}>
+                      {new Date(feed.lastSync.syncedAt).toLocaleString()}: {feed.lastSync.message}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <label className="flex items-center text-xs text-gray-600 dark:text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={feed.enabled}
+                      onChange={() => handleToggle(feed)}
+                      className="h-4 w-4 mr-1"
+                      aria-label={`Enable ${feed.label}`}
+                    />
+                    On
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => handleSync(feed)}
+                    disabled={syncingFeedId !== null}
+                    className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded"
+                  >
+                    {syncingFeedId === feed.id ? "Syncing..." : "Sync"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(feed)}
+                    className="px-2 py-1 text-xs text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 rounded"
+                    aria-label={`Remove ${feed.label}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddFeed} className="space-y-2">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={form.label}
+            onChange={e => setForm(prev => ({ ...prev, label: e.target.value }))}
+            placeholder="Label (e.g. Gradescope)"
+            className={inputClass}
+            aria-label="Feed label"
+          />
+          <input
+            type="url"
+            value={form.url}
+            onChange={e => setForm(prev => ({ ...prev, url: e.target.value }))}
+            placeholder="https:// or webcal:// feed URL"
+            className={inputClass}
+            aria-label="Feed URL"
+          />
+          <select
+            value={form.defaultClassId}
+            onChange={e => setForm(prev => ({ ...prev, defaultClassId: e.target.value }))}
+            className={inputClass}
+            aria-label="Default class"
+          >
+            <option value="">Default class: detect from event</option>
+            {classes.map(cls => (
+              <option key={cls.id} value={cls.id}>{cls.name}</option>
+            ))}
+          </select>
+          <select
+            value={form.defaultTaskType}
+            onChange={e => setForm(prev => ({ ...prev, defaultTaskType: e.target.value }))}
+            className={inputClass}
+            aria-label="Default task type"
+          >
+            <option value="">Default type: detect from event</option>
+            {taskTypes.map(type => (
+              <option key={type.id} value={type.id}>{type.name}</option>
+            ))}
+          </select>
+        </div>
+        {formError && (
+          <p className="text-xs text-red-600" role="alert">{formError}</p>
+        )}
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-300 border border-gray-200 dark:border-slate-600 rounded-lg"
+        >
+          + Add Feed
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default React.memo(CalendarFeedList);
@@ -1,16 +1,37 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { fetchCanvasCalendar, debugICSParsing } from "../services/canvasService";
+import {
+  debugICSParsing,
+  resolveCanvasConflict,
+  deleteRemovedCanvasTasks,
+  PRIMARY_CANVAS_FEED_ID,
+} from "../services/canvasService";
+import { getFeed, addFeed, updateFeed, removeFeed, syncFeed } from "../services/canvas/feedRegistry";
+import CalendarFeedList from "./CalendarFeedList";
 import { getSettings, updateSettings } from "../services/settings/settingsOperations";
 import { useAuth } from "../contexts/AuthContext";
 import { logger } from "../utils/logger";
-import type { TaskInsert, AppSettings } from "../types/database";
+import type { TaskInsert, Task, AppSettings } from "../types/database";
+import type { CanvasSyncConflict, CanvasSyncSummary } from "../services/canvas/syncDiff";
 
 interface SyncStatus {
   success?: boolean;
   message: string;
   tasks?: Partial<TaskInsert>[];
+  summary?: CanvasSyncSummary;
+  conflicts?: CanvasSyncConflict[];
+  removedTasks?: Task[];
 }
 
+const SYNC_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  startDate: "Start date",
+  startTime: "Start time",
+  endDate: "End date",
+  endTime: "End time",
+};
+
 interface CanvasSettingsProps {
   onClose?: () => void;
 }
@@ -18,7 +39,7 @@ interface CanvasSettingsProps {
 const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
   const { isAuthenticated, user, setLastCalendarSyncTimestamp } = useAuth();
   const [canvasUrl, setCanvasUrl] = useState<string>(() => 
-    localStorage.getItem("canvas_calendar_url") || ""
+    getFeed(PRIMARY_CANVAS_FEED_ID)?.url || ""
   );
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
   const [isSyncing, setIsSyncing] = useState<boolean>(false);
@@ -106,8 +127,11 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
       return;
     }
 
-    // Save URL for future use
-    localStorage.setItem("canvas_calendar_url", canvasUrl);
+    // Save URL for future use as the primary Canvas feed
+    const existingFeed = getFeed(PRIMARY_CANVAS_FEED_ID);
+    const canvasFeed = existingFeed
+      ? updateFeed(PRIMARY_CANVAS_FEED_ID, { url: canvasUrl, enabled: true }) || existingFeed
+      : addFeed({ label: "Canvas", url: canvasUrl, source: "canvas" });
     localStorage.setItem("canvas_auto_sync", autoSync.toString());
 
     setIsSyncing(true);
@@ -119,7 +143,7 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
       setSyncProgress('Fetching calendar data...');
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      const result = await fetchCanvasCalendar(canvasUrl, isAuthenticated, user);
+      const result = await syncFeed(canvasFeed, isAuthenticated, user);
       
       setSyncProgress('Processing events...');
       await new Promise(resolve => setTimeout(resolve, 300));
@@ -147,6 +171,33 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
     }
   }, [canvasUrl, autoSync, isAuthenticated, user]);
 
+  const handleResolveConflict = useCallback(async (conflict: CanvasSyncConflict, resolution: 'canvas' | 'local') => {
+    try {
+      await resolveCanvasConflict(conflict, resolution, isAuthenticated);
+      setSyncStatus(prev => prev && {
+        ...prev,
+        conflicts: prev.conflicts?.filter(item => item !== conflict),
+      });
+      if (resolution === 'canvas') {
+        setLastCalendarSyncTimestamp(Date.now());
+      }
+    } catch (error) {
+      logger.error('Failed to resolve Canvas conflict', { error });
+    }
+  }, [isAuthenticated, setLastCalendarSyncTimestamp]);
+
+  const handleDeleteRemoved = useCallback(async () => {
+    const removedTasks = syncStatus?.removedTasks || [];
+    if (removedTasks.length === 0) return;
+    if (!window.confirm(`Delete ${removedTasks.length} task${removedTasks.length === 1 ? '' : 's'} removed from Canvas?`)) return;
+
+    const deleted = await deleteRemovedCanvasTasks(removedTasks, isAuthenticated);
+    setSyncStatus(prev => prev && { ...prev, removedTasks: [] });
+    if (deleted > 0) {
+      setLastCalendarSyncTimestamp(Date.now());
+    }
+  }, [syncStatus, isAuthenticated, setLastCalendarSyncTimestamp]);
+
   const handleUrlChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setCanvasUrl(e.target.value);
     // Clear any previous sync status when URL changes
@@ -155,7 +206,7 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
 
   const handleClearUrl = useCallback(() => {
     setCanvasUrl("");
-    localStorage.removeItem("canvas_calendar_url");
+    removeFeed(PRIMARY_CANVAS_FEED_ID);
     setSyncStatus(null);
   }, []);
 
@@ -295,7 +346,7 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
             />
             <label htmlFor="autoSync" className="text-sm text-gray-700 dark:text-slate-300 flex-1">
               <span className="font-medium">Automatically sync on startup</span>
-              <span className="block text-xs text-gray-500 dark:text-slate-400 mt-1">Sync Canvas calendar each time you open the app</span>
+              <span className="block text-xs text-gray-500 dark:text-slate-400 mt-1">Sync Canvas and your other enabled feeds each time you open the app</span>
             </label>
           </div>
           
@@ -325,6 +376,12 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
           </div>
         </div>
 
+        <CalendarFeedList
+          useSupabase={isAuthenticated}
+          user={user}
+          onSynced={() => setLastCalendarSyncTimestamp(Date.now())}
+        />
+
         {/* Progress indicator */}
         {isSyncing && syncProgress && (
           <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800/50 rounded-lg">
@@ -371,7 +428,74 @@ const CanvasSettings: React.FC<CanvasSettingsProps> = ({ onClose }) => {
               )}
               <div className="flex-1">
                 <p className="font-semibold text-base leading-relaxed">{syncStatus.message}</p>
-                {syncStatus.success && syncStatus.tasks && (
+                {syncStatus.success && syncStatus.summary && (
+                  <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2" aria-label="Sync summary">
+                    {([
+                      ['Added', syncStatus.summary.added],
+                      ['Updated', syncStatus.summary.updated],
+                      ['Conflicts', syncStatus.summary.conflicted],
+                      ['Removed', syncStatus.summary.removed],
+                    ] as const).map(([label, count]) => (
+                      <div key={label} className="p-2 bg-white bg-opacity-60 border border-green-200 rounded-lg text-center">
+                        <div className="text-lg font-bold text-green-900">{count}</div>
+                        <div className="text-xs text-green-700">{label}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {syncStatus.success && syncStatus.conflicts && syncStatus.conflicts.length > 0 && (
+                  <div className="mt-3 p-3 bg-white border border-amber-200 rounded-lg">
+                    <p className="text-sm font-medium text-amber-900 mb-2">
+                      These tasks changed in Canvas after you edited them:
+                    </p>
+                    <ul className="space-y-3">
+                      {syncStatus.conflicts.map(conflict => (
+                        <li key={conflict.task.id} className="text-xs text-gray-700">
+                          <p className="font-semibold text-gray-900">{conflict.task.title}</p>
+                          {conflict.fields.map(field => (
+                            <p key={field.field}>
+                              {SYNC_FIELD_LABELS[field.field] || field.field}: yours "{field.localValue || '—'}", Canvas "{field.remoteValue || '—'}"
+                            </p>
+                          ))}
+                          <div className="flex gap-2 mt-1">
+                            <button
+                              type="button"
+                              onClick={() => handleResolveConflict(conflict, 'canvas')}
+                              className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded"
+                            >
+                              Use Canvas version
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleResolveConflict(conflict, 'local')}
+                              className="px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 border border-gray-200 rounded"
+                            >
+                              Keep mine
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {syncStatus.success && syncStatus.removedTasks && syncStatus.removedTasks.length > 0 && (
+                  <div className="mt-3 p-3 bg-white border border-gray-200 rounded-lg">
+                    <p className="text-sm font-medium text-gray-900 mb-2">No longer in Canvas:</p>
+                    <ul className="list-disc list-inside text-xs text-gray-700 mb-2">
+                      {syncStatus.removedTasks.map(task => (
+                        <li key={task.id}>{task.title}</li>
+                      ))}
+                    </ul>
+                    <button
+                      type="button"
+                      onClick={handleDeleteRemoved}
+                      className="px-2 py-1 text-xs bg-red-50 hover:bg-red-100 text-red-700 border border-red-200 rounded"
+                    >
+                      Delete these tasks
+                    </button>
+                  </div>
+                )}
+                {syncStatus.success && syncStatus.tasks && !syncStatus.summary && (
                   <div className="mt-3 p-3 bg-white bg-opacity-60 border border-green-200 rounded-lg">
                     <div className="flex items-center">
                       <svg className="w-4 h-4 text-green-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
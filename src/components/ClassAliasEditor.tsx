@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getClassAliases, setClassAliases } from '../services/class/classResolver';
+
+interface ClassAliasEditorProps {
+  classId: string;
+}
+
+/**
+ * The other names a class goes by in syllabi and Canvas (course codes, short
+ * names), so tasks that use them are assigned to it
+ */
+export const ClassAliasEditor: React.FC<ClassAliasEditorProps> = ({ classId }) => {
+  const { user } = useAuth();
+  const userId = user?.id || 'local-user';
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    setValue((getClassAliases(userId)[classId] || []).join(', '));
+  }, [userId, classId]);
+
+  const handleSave = () => {
+    const saved = setClassAliases(userId, classId, value.split(','));
+    setValue(saved.join(', '));
+  };
+
+  return (
+    <div className="mb-5">
+      <label htmlFor={`class-aliases-${classId}`} className="font-bold text-lg mb-1 block text-gray-900 dark:text-white">
+        Other names for this class
+      </label>
+      <p className="text-sm text-gray-600 dark:text-slate-300 mb-2">
+        Course codes or names your syllabi and Canvas use for it, separated by commas
+      </p>
+      <input
+        id={`class-aliases-${classId}`}
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={handleSave}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleSave();
+          }
+        }}
+        placeholder="e.g. NURS 3310, Adult Health I"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </div>
+  );
+};
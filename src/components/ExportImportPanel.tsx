@@ -5,6 +5,7 @@ import {
   ExportTab,
   useImportFunctionality, 
   ImportTab,
+  CalendarSubscriptionSettings,
   type ExportFormat,
   type ImportFormat 
 } from './exportImport';
@@ -60,16 +61,19 @@ const ExportImportPanel: React.FC<ExportImportPanelProps> = ({ onClose }) => {
 
       {/* Tab Content */}
       {activeTab === 'export' ? (
-        <ExportTab
-          exportState={exportHook.exportState}
-          exportFormat={exportHook.exportFormat}
-          setExportFormat={exportHook.setExportFormat}
-          exportOptions={exportHook.exportOptions}
-          setExportOptions={exportHook.setExportOptions}
-          handleExport={exportHook.handleExport}
-          handleSemesterArchive={exportHook.handleSemesterArchive}
-          academicSystem={academicSystem}
-        />
+        <>
+          <ExportTab
+            exportState={exportHook.exportState}
+            exportFormat={exportHook.exportFormat}
+            setExportFormat={exportHook.setExportFormat}
+            exportOptions={exportHook.exportOptions}
+            setExportOptions={exportHook.setExportOptions}
+            handleExport={exportHook.handleExport}
+            handleSemesterArchive={exportHook.handleSemesterArchive}
+            academicSystem={academicSystem}
+          />
+          <CalendarSubscriptionSettings />
+        </>
       ) : (
         <ImportTab
           fileInputRef={importHook.fileInputRef}
@@ -81,6 +85,15 @@ const ExportImportPanel: React.FC<ExportImportPanelProps> = ({ onClose }) => {
           handleFileSelect={importHook.handleFileSelect}
           handlePreviewImport={importHook.handlePreviewImport}
           handleConfirmImport={importHook.handleConfirmImport}
+          csvMappingState={importHook.csvMappingState}
+          handleColumnChange={importHook.handleColumnChange}
+          handleDateOrderChange={importHook.handleDateOrderChange}
+          handleApplyPreset={importHook.handleApplyPreset}
+          handleSavePreset={importHook.handleSavePreset}
+          handleDeletePreset={importHook.handleDeletePreset}
+          restoreOptions={importHook.restoreOptions}
+          handleDefaultResolutionChange={importHook.handleDefaultResolutionChange}
+          handleItemResolutionChange={importHook.handleItemResolutionChange}
         />
       )}
     </div>
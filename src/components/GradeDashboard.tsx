@@ -3,6 +3,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { calculateFullGPA, calculateWhatIfScenario } from '../services/grade/gpaService';
 import { getClassWithGrades } from '../services/grade/gradeOperations';
 import GradeAnalyticsModal from './GradeAnalyticsModal';
+import TranscriptView from './TranscriptView';
 import type { 
   GPACalculation, 
   ClassWithGrades, 
@@ -309,6 +310,9 @@ const GradeDashboard: React.FC<GradeDashboardProps> = ({ onSwitchToGradeEntry })
         </div>
       </div>
 
+      {/* Term-by-term transcript */}
+      <TranscriptView />
+
       {/* Analytics Button */}
       <div className="bg-white dark:bg-slate-800/90 backdrop-blur-sm rounded-lg shadow p-6">
         <div className="flex justify-between items-center">
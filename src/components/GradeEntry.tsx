@@ -19,7 +19,8 @@ import type {
   GradeInsert,
   GradeCategoryInsert,
   ClassGpaInfoInsert,
-  AppSettings
+  AppSettings,
+  GradingMethod
 } from '../types/database';
 import { logger } from '../utils/logger';
 
@@ -60,6 +61,7 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
     name: '',
     weight: '',
     dropLowest: '0',
+    maxPercentage: '',
     color: '#6b7280'
   });
 
@@ -70,7 +72,10 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
   const [classSetupForm, setClassSetupForm] = useState({
     creditHours: '3',
     semester: 'Fall',
-    year: new Date().getFullYear().toString()
+    year: new Date().getFullYear().toString(),
+    gradingMethod: 'weighted' as GradingMethod,
+    courseCode: '',
+    isMajor: false
   });
 
   // Load classes and initialize
@@ -211,6 +216,7 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
         name: categoryForm.name,
         weight: Number(categoryForm.weight),
         drop_lowest: Number(categoryForm.dropLowest),
+        max_percentage: categoryForm.maxPercentage === '' ? null : Number(categoryForm.maxPercentage),
         color: categoryForm.color
       };
 
@@ -221,6 +227,7 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
           name: '',
           weight: '',
           dropLowest: '0',
+          maxPercentage: '',
           color: '#6b7280'
         });
         
@@ -248,7 +255,10 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
         credit_hours: Number(classSetupForm.creditHours),
         semester: classSetupForm.semester,
         year: Number(classSetupForm.year),
-        is_completed: false
+        is_completed: false,
+        grading_method: classSetupForm.gradingMethod,
+        course_code: classSetupForm.courseCode || undefined,
+        is_major: classSetupForm.isMajor
       };
 
       await updateClassGpaInfo(classGpaData, isAuthenticated);
@@ -595,6 +605,20 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
                           />
                         </div>
 
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                            Cap at % (optional)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={categoryForm.maxPercentage}
+                            onChange={(e) => setCategoryForm(prev => ({ ...prev, maxPercentage: e.target.value }))}
+                            className="w-full border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:focus:ring-blue-400 dark:focus:border-blue-400"
+                            placeholder="100"
+                          />
+                        </div>
+
                         <div>
                           <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
                             Color
@@ -679,6 +703,44 @@ const GradeEntry: React.FC<GradeEntryProps> = ({ onGradeAdded, initialClassId })
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                        Course Code
+                      </label>
+                      <input
+                        type="text"
+                        value={classSetupForm.courseCode}
+                        onChange={(e) => setClassSetupForm(prev => ({ ...prev, courseCode: e.target.value }))}
+                        className="w-full border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:focus:ring-blue-400 dark:focus:border-blue-400"
+                        placeholder="CS 101"
+                      />
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-slate-300 md:mt-6">
+                      <input
+                        type="checkbox"
+                        checked={classSetupForm.isMajor}
+                        onChange={(e) => setClassSetupForm(prev => ({ ...prev, isMajor: e.target.checked }))}
+                      />
+                      Counts toward major GPA
+                    </label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      Grading Method
+                    </label>
+                    <select
+                      value={classSetupForm.gradingMethod}
+                      onChange={(e) => setClassSetupForm(prev => ({ ...prev, gradingMethod: e.target.value as GradingMethod }))}
+                      className="w-full md:w-1/3 border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-2 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:focus:ring-blue-400 dark:focus:border-blue-400"
+                    >
+                      <option value="weighted">Weighted categories</option>
+                      <option value="points">Total points</option>
+                    </select>
+                  </div>
+
                   <button
                     type="submit"
                     disabled={loading}
@@ -1,14 +1,43 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import NotificationService from '../services/notificationService';
-import { supabaseConfig } from '../config';
-import type { NotificationSettings as NotificationSettingsType } from '../types/database';
+import { supabaseConfig, pushConfig } from '../config';
+import { getTaskTypes, updateTaskType } from '../services/taskType/taskTypeOperations';
+import {
+  getReminderPreferences,
+  type QuietHours,
+  type QuietHoursSchedule,
+  type ReminderChannelId
+} from '../services/reminders';
+import type {
+  NotificationSettings as NotificationSettingsType,
+  NotificationSettingsInsert,
+  TaskType
+} from '../types/database';
+import ReminderOffsetEditor from './ui/ReminderOffsetEditor';
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '../services/notifications';
 import { logger } from '../utils/logger';
+import { getUserTimeZone } from '../utils/timezoneHelpers';
 
 interface NotificationSettingsProps {
   onClose?: () => void;
 }
 
+type PushPermission = NotificationPermission | 'unsupported';
+
+// Offsets offered as quick picks; any others are listed as custom reminders
+const PRESET_TIMES = ['7d', '3d', '1d', '2h'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '08:00' };
+
+const timeInputClass = "px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100";
+
+const getPushPermission = (): PushPermission =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+// Web Push needs browser support and the server's public key
+const canReceivePush = isPushSupported() && Boolean(pushConfig.vapidPublicKey);
+
 const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose }) => {
   const { user } = useAuth();
   const [settings, setSettings] = useState<NotificationSettingsType | null>(null);
@@ -23,8 +52,18 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
   const [customEmail, setCustomEmail] = useState('');
   const [useCustomEmail, setUseCustomEmail] = useState(false);
   const [notificationTimes, setNotificationTimes] = useState<string[]>(['7d', '3d', '1d', '2h']);
-  const [activeHoursStart, setActiveHoursStart] = useState(9);
-  const [activeHoursEnd, setActiveHoursEnd] = useState(21);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushPermission, setPushPermission] = useState<PushPermission>(getPushPermission);
+  const [inAppEnabled, setInAppEnabled] = useState(false);
+  const [quietHours, setQuietHours] = useState<QuietHoursSchedule>({});
+  const [digestEnabled, setDigestEnabled] = useState(false);
+  const [digestTime, setDigestTime] = useState('07:00');
+  const [taskTypes, setTaskTypes] = useState<TaskType[]>([]);
+  const [typeOffsets, setTypeOffsets] = useState<Record<string, string[] | null>>({});
+
+  const remindersEnabled = emailEnabled || pushEnabled || inAppEnabled;
+  const presetTimes = notificationTimes.filter(time => PRESET_TIMES.includes(time));
+  const customTimes = notificationTimes.filter(time => !PRESET_TIMES.includes(time));
 
   useEffect(() => {
     if (user?.id) {
@@ -45,9 +84,17 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
         setCustomEmail(userSettings.email_address || '');
         setUseCustomEmail(!!userSettings.email_address);
         setNotificationTimes(userSettings.notification_times || ['7d', '3d', '1d', '2h']);
-        setActiveHoursStart(userSettings.active_hours_start);
-        setActiveHoursEnd(userSettings.active_hours_end);
+        const preferences = getReminderPreferences(userSettings);
+        setPushEnabled(preferences.channels.includes('push'));
+        setInAppEnabled(preferences.channels.includes('in_app'));
+        setQuietHours(preferences.quietHours);
+        setDigestEnabled(preferences.digestEnabled);
+        setDigestTime(preferences.digestTime);
       }
+
+      const types = await getTaskTypes(user.id, true);
+      setTaskTypes(types);
+      setTypeOffsets(Object.fromEntries(types.map(type => [type.id, type.reminder_offsets ?? null])));
     } catch (err) {
       setError('Failed to load notification settings');
       logger.error('Error loading notification settings', { error: err });
@@ -56,6 +103,24 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
     }
   };
 
+  const buildSettings = (): Partial<NotificationSettingsInsert> => {
+    const channels: ReminderChannelId[] = [];
+    if (emailEnabled) channels.push('email');
+    if (pushEnabled) channels.push('push');
+    if (inAppEnabled) channels.push('in_app');
+
+    return {
+      email_enabled: emailEnabled,
+      email_address: useCustomEmail ? customEmail : undefined,
+      notification_times: notificationTimes,
+      channels,
+      quiet_hours: quietHours,
+      digest_enabled: digestEnabled,
+      digest_time: digestTime,
+      time_zone: getUserTimeZone(),
+    };
+  };
+
   const handleSave = async () => {
     if (!user?.id) return;
 
@@ -64,13 +129,13 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
       setError(null);
       setSuccess(null);
 
-      await NotificationService.upsertNotificationSettings(user.id, {
-        email_enabled: emailEnabled,
-        email_address: useCustomEmail ? customEmail : undefined,
-        notification_times: notificationTimes,
-        active_hours_start: activeHoursStart,
-        active_hours_end: activeHoursEnd,
-      });
+      await NotificationService.upsertNotificationSettings(user.id, buildSettings());
+
+      const changedTypes = taskTypes.filter(type =>
+        JSON.stringify(type.reminder_offsets ?? null) !== JSON.stringify(typeOffsets[type.id] ?? null));
+      for (const type of changedTypes) {
+        await updateTaskType(type.id, { reminder_offsets: typeOffsets[type.id] ?? null }, true);
+      }
 
       setSuccess('Notification settings saved successfully!');
       setTimeout(() => setSuccess(null), 3000);
@@ -94,13 +159,7 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
       setSuccess(null);
 
       // Always save current settings before test email
-      await NotificationService.upsertNotificationSettings(user.id, {
-        email_enabled: emailEnabled,
-        email_address: useCustomEmail ? customEmail : undefined,
-        notification_times: notificationTimes,
-        active_hours_start: activeHoursStart,
-        active_hours_end: activeHoursEnd,
-      });
+      await NotificationService.upsertNotificationSettings(user.id, buildSettings());
 
       // If email is not enabled, show error
       if (!emailEnabled) {
@@ -162,11 +221,34 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
     );
   };
 
-  const formatHour = (hour: number) => {
-    if (hour === 0) return '12:00 AM';
-    if (hour < 12) return `${hour}:00 AM`;
-    if (hour === 12) return '12:00 PM';
-    return `${hour - 12}:00 PM`;
+  // Subscribing this browser lets reminders reach it while the app is closed;
+  // without a subscription they are still shown while the app is open
+  const handleTogglePush = async (enabled: boolean) => {
+    if (!enabled) {
+      setPushEnabled(false);
+      if (user?.id) await unsubscribeFromPush(user.id);
+      return;
+    }
+
+    let permission = getPushPermission();
+    if (permission === 'default') {
+      permission = await Notification.requestPermission();
+      setPushPermission(permission);
+    }
+    setPushEnabled(permission === 'granted');
+    if (permission === 'granted' && user?.id) await subscribeToPush(user.id);
+  };
+
+  const updateQuietHours = (weekday: number, window?: QuietHours) => {
+    setQuietHours(prev => {
+      const next = { ...prev };
+      if (window) {
+        next[weekday] = window;
+      } else {
+        delete next[weekday];
+      }
+      return next;
+    });
   };
 
   if (loading) {
@@ -340,6 +422,55 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
               </div>
             </div>
 
+          </>
+        )}
+
+        {/* Other Channels */}
+        <div className="border border-gray-200 dark:border-slate-700/50 rounded-xl p-6 bg-gradient-to-br from-gray-50 to-white dark:from-slate-800/50 dark:to-slate-800/30 shadow-sm">
+          <div className="flex items-center mb-4">
+            <svg className="w-5 h-5 text-gray-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+            </svg>
+            <h3 className="font-bold text-gray-900 dark:text-slate-100">Other Channels</h3>
+          </div>
+          <div className="space-y-3">
+            <label className="flex items-center justify-between p-3 border border-gray-200 dark:border-slate-700/50 rounded-lg cursor-pointer">
+              <div>
+                <span className="text-sm font-medium text-gray-900 dark:text-slate-100">Browser notifications</span>
+                <span className="block text-xs text-gray-500 dark:text-slate-400 mt-1">
+                  {pushPermission === 'denied'
+                    ? 'Blocked in your browser settings'
+                    : canReceivePush
+                      ? 'Sent to this device, even when the app is closed'
+                      : 'Shown on this device while the app is open'}
+                </span>
+              </div>
+              <input
+                type="checkbox"
+                checked={pushEnabled}
+                onChange={(e) => handleTogglePush(e.target.checked)}
+                disabled={pushPermission === 'denied' || pushPermission === 'unsupported'}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+            </label>
+            <label className="flex items-center justify-between p-3 border border-gray-200 dark:border-slate-700/50 rounded-lg cursor-pointer">
+              <div>
+                <span className="text-sm font-medium text-gray-900 dark:text-slate-100">In-app inbox</span>
+                <span className="block text-xs text-gray-500 dark:text-slate-400 mt-1">Collect reminders in the notification inbox</span>
+              </div>
+              <input
+                type="checkbox"
+                checked={inAppEnabled}
+                onChange={(e) => setInAppEnabled(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+            </label>
+          </div>
+        </div>
+
+        {remindersEnabled && (
+          <>
+
             {/* Notification Timing */}
             <div className="border border-gray-200 dark:border-slate-700/50 rounded-xl p-6 bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 shadow-sm">
               <div className="flex items-center mb-4">
@@ -380,9 +511,60 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
                   );
                 })}
               </div>
+
+              <div className="mt-4">
+                <label htmlFor="custom-reminders-offset" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Other reminders</label>
+                <ReminderOffsetEditor
+                  offsets={customTimes}
+                  onChange={(offsets) => setNotificationTimes([...presetTimes, ...offsets])}
+                  idPrefix="custom-reminders"
+                />
+              </div>
             </div>
 
-            {/* Active Hours */}
+            {/* Task Type Reminders */}
+            {taskTypes.length > 0 && (
+              <div className="border border-gray-200 dark:border-slate-700/50 rounded-xl p-6 bg-gradient-to-br from-blue-50 to-cyan-50 dark:from-blue-900/20 dark:to-cyan-900/20 shadow-sm">
+                <div className="flex items-center mb-4">
+                  <svg className="w-5 h-5 text-blue-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                  </svg>
+                  <h3 className="font-bold text-gray-900 dark:text-slate-100">Reminders by Task Type</h3>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-slate-400 mb-4 leading-relaxed">Give a task type its own reminders, such as earlier ones for exams. A task's own reminders still win.</p>
+
+                <div className="space-y-3">
+                  {taskTypes.map(type => {
+                    const offsets = typeOffsets[type.id] ?? null;
+                    return (
+                      <div key={type.id} className="p-3 bg-white dark:bg-slate-800/50 border border-blue-200 dark:border-blue-800/50 rounded-lg">
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(offsets)}
+                            onChange={(e) => setTypeOffsets(prev => ({ ...prev, [type.id]: e.target.checked ? notificationTimes : null }))}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <span className="text-sm font-medium text-gray-900 dark:text-slate-100">{type.name}</span>
+                          {!offsets && <span className="text-xs text-gray-500 dark:text-slate-400">uses the times above</span>}
+                        </label>
+                        {offsets && (
+                          <div className="mt-2">
+                            <ReminderOffsetEditor
+                              offsets={offsets}
+                              onChange={(next) => setTypeOffsets(prev => ({ ...prev, [type.id]: next }))}
+                              idPrefix={`type-${type.id}`}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Quiet Hours */}
             <div className="border border-gray-200 dark:border-slate-700/50 rounded-xl p-6 bg-gradient-to-br from-indigo-50 to-blue-50 dark:from-indigo-900/20 dark:to-blue-900/20 shadow-sm">
               <div className="flex items-center mb-4">
                 <svg className="w-5 h-5 text-indigo-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -390,56 +572,75 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
                 </svg>
                 <h3 className="font-bold text-gray-900 dark:text-slate-100">Quiet Hours</h3>
               </div>
-              <p className="text-sm text-gray-600 dark:text-slate-400 mb-6 leading-relaxed">Set your preferred hours for receiving notifications</p>
-              
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-                <div className="bg-white dark:bg-slate-800/50 p-4 rounded-lg border border-indigo-200 dark:border-indigo-800/50">
-                  <label className="block text-sm font-bold text-gray-700 dark:text-slate-300 mb-3 flex items-center">
-                    <svg className="w-4 h-4 text-green-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
-                    </svg>
-                    Start sending at
-                  </label>
-                  <select
-                    value={activeHoursStart}
-                    onChange={(e) => setActiveHoursStart(Number(e.target.value))}
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 focus:border-indigo-500 dark:focus:border-indigo-400 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 font-medium"
-                  >
-                    {Array.from({ length: 24 }, (_, i) => (
-                      <option key={i} value={i}>{formatHour(i)}</option>
-                    ))}
-                  </select>
-                </div>
-                
-                <div className="bg-white dark:bg-slate-800/50 p-4 rounded-lg border border-indigo-200 dark:border-indigo-800/50">
-                  <label className="block text-sm font-bold text-gray-700 dark:text-slate-300 mb-3 flex items-center">
-                    <svg className="w-4 h-4 text-orange-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
-                    </svg>
-                    Stop sending at
-                  </label>
-                  <select
-                    value={activeHoursEnd}
-                    onChange={(e) => setActiveHoursEnd(Number(e.target.value))}
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 focus:border-indigo-500 dark:focus:border-indigo-400 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 font-medium"
-                  >
-                    {Array.from({ length: 24 }, (_, i) => (
-                      <option key={i} value={i}>{formatHour(i)}</option>
-                    ))}
-                  </select>
-                </div>
+              <p className="text-sm text-gray-600 dark:text-slate-400 mb-6 leading-relaxed">No reminders are sent during quiet hours. Anything due in the meantime arrives once they end.</p>
+
+              <div className="space-y-2">
+                {WEEKDAY_NAMES.map((name, weekday) => {
+                  const window = quietHours[weekday];
+                  return (
+                    <div key={name} className="flex flex-wrap items-center gap-3 p-3 bg-white dark:bg-slate-800/50 rounded-lg border border-indigo-200 dark:border-indigo-800/50">
+                      <label className="flex items-center w-32">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(window)}
+                          onChange={(e) => updateQuietHours(weekday, e.target.checked ? DEFAULT_QUIET_HOURS : undefined)}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-2"
+                        />
+                        <span className="text-sm font-medium text-gray-900 dark:text-slate-100">{name}</span>
+                      </label>
+                      {window ? (
+                        <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                          <input
+                            type="time"
+                            value={window.start}
+                            onChange={(e) => updateQuietHours(weekday, { ...window, start: e.target.value })}
+                            className={timeInputClass}
+                            aria-label={`${name} quiet hours start`}
+                          />
+                          <span>to</span>
+                          <input
+                            type="time"
+                            value={window.end}
+                            onChange={(e) => updateQuietHours(weekday, { ...window, end: e.target.value })}
+                            className={timeInputClass}
+                            aria-label={`${name} quiet hours end`}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-500 dark:text-slate-400">Reminders at any time</span>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-              
-              <div className="mt-4 p-4 bg-white dark:bg-slate-800/50 border border-indigo-200 dark:border-indigo-800/50 rounded-lg">
-                <div className="flex items-center">
-                  <svg className="w-4 h-4 text-indigo-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                  <p className="text-sm text-gray-700 dark:text-slate-300 font-medium">
-                    You'll receive notifications between <span className="font-bold text-indigo-600">{formatHour(activeHoursStart)}</span> and <span className="font-bold text-indigo-600">{formatHour(activeHoursEnd)}</span>
-                  </p>
+            </div>
+
+            {/* Daily Digest */}
+            <div className="border border-gray-200 dark:border-slate-700/50 rounded-xl p-6 bg-gradient-to-br from-amber-50 to-yellow-50 dark:from-amber-900/20 dark:to-yellow-900/20 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <h3 className="font-bold text-gray-900 dark:text-slate-100 mb-1">Morning Digest</h3>
+                  <p className="text-sm text-gray-600 dark:text-slate-400 leading-relaxed">One summary of everything due in the next 7 days, instead of separate reminders a day or more ahead</p>
                 </div>
+                <input
+                  type="checkbox"
+                  checked={digestEnabled}
+                  onChange={(e) => setDigestEnabled(e.target.checked)}
+                  className="h-4 w-4 text-amber-600 focus:ring-amber-500 border-gray-300 rounded ml-6"
+                  aria-label="Send a morning digest"
+                />
               </div>
+              {digestEnabled && (
+                <label className="flex items-center gap-2 mt-4 text-sm text-gray-700 dark:text-slate-300">
+                  Send at
+                  <input
+                    type="time"
+                    value={digestTime}
+                    onChange={(e) => setDigestTime(e.target.value)}
+                    className={timeInputClass}
+                  />
+                </label>
+              )}
             </div>
           </>
         )}
@@ -12,6 +12,9 @@ import SidebarTitle from "./sidebar/SidebarTitle";
 import SidebarToggleButton from "./sidebar/SidebarToggleButton";
 import SidebarResizeHandle from "./sidebar/SidebarResizeHandle";
 import SidebarControls from "./sidebar/SidebarControls";
+import SyncConflictList from "./sidebar/SyncConflictList";
+import NotificationBell from "./notifications/NotificationBell";
+import { readDeepLink, subscribeToDeepLinks, clearDeepLink, type DeepLinkTarget } from "../utils/deepLinks";
 
 // Lazy load heavy components for better performance
 const Settings = lazy(() => import("./Settings"));
@@ -311,6 +314,23 @@ const SidebarInner: React.FC<SidebarProps> = ({
     setIsCanvasSyncing,
   });
 
+  // Classes opened from a notification show their details, once loaded
+  const [deepLinkedClassId, setDeepLinkedClassId] = useState<string | null>(() => {
+    const target = readDeepLink();
+    return target?.type === 'class' ? target.id : null;
+  });
+
+  useEffect(() => subscribeToDeepLinks((target: DeepLinkTarget) => {
+    if (target.type === 'class') setDeepLinkedClassId(target.id);
+  }), []);
+
+  useEffect(() => {
+    if (!deepLinkedClassId || !classes.some(classObj => classObj.id === deepLinkedClassId)) return;
+    handleClassClick(deepLinkedClassId);
+    setDeepLinkedClassId(null);
+    clearDeepLink();
+  }, [deepLinkedClassId, classes, handleClassClick]);
+
   // Save font size preferences
   useEffect(() => {
     localStorage.setItem('sidebarFontSize', fontSize.toString());
@@ -554,6 +574,17 @@ const SidebarInner: React.FC<SidebarProps> = ({
           onShowSettings={() => setShowSettings(true)}
         />
 
+        {/* Notification inbox */}
+        {isAuthenticated && !isSidebarCollapsed && (
+          <div className="px-2 mb-3 flex-shrink-0 flex items-center justify-between">
+            <span className="text-sm font-semibold text-gray-700 dark:text-slate-300">Notifications</span>
+            <NotificationBell placement="sidebar" />
+          </div>
+        )}
+
+        {/* Conflicts settled by the last syncs */}
+        {isAuthenticated && <SyncConflictList isSidebarCollapsed={isSidebarCollapsed} />}
+
         {/* Auth Controls - minimal gap */}
         <div className="px-2 mb-3 flex-shrink-0">
           <Suspense fallback={
@@ -20,6 +20,16 @@ import classService from "../services/classService";
 import taskService from "../services/taskService";
 import taskTypeService from "../services/taskTypeService";
 import { logger } from "../utils/logger";
+import { readDeepLink, subscribeToDeepLinks, clearDeepLink } from "../utils/deepLinks";
+import {
+  buildRecurrenceRule,
+  expandRecurringTasks,
+  getOccurrenceOverrides,
+  getTaskAnchorDate,
+  shiftDateString,
+  type RecurrenceScope,
+} from "../utils/recurringTaskHelpers";
+import { setOccurrenceCompleted, updateRecurringTask, deleteRecurringTask } from "../services/task/recurringTaskOperations";
 
 // Lazy load TaskModal for better performance
 const TaskModal = lazy(() => import("./TaskModal"));
@@ -93,6 +103,11 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
   const view = initialView; // Use prop value directly
   const handleViewChange = onViewChange || setInternalView; // Use external handler if provided
   const [editingTask, setEditingTask] = useState<TaskWithMeta | null>(null);
+  // Task opened from a notification, shown once it has loaded
+  const [deepLinkedTaskId, setDeepLinkedTaskId] = useState<string | null>(() => {
+    const target = readDeepLink();
+    return target?.type === 'task' ? target.id : null;
+  });
 
   // Handler to update classes - this will be called by TaskModal when classes change
   const handleClassUpdate = useCallback(async (updatedClasses: ClassWithRelations[]) => {
@@ -166,6 +181,25 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     };
   }, [isAuthenticated, user]);
 
+  useEffect(() => subscribeToDeepLinks(target => {
+    if (target.type === 'task') setDeepLinkedTaskId(target.id);
+  }), []);
+
+  useEffect(() => {
+    if (!deepLinkedTaskId) return;
+    const task = tasks.find(candidate => candidate.id === deepLinkedTaskId);
+    if (!task) return;
+
+    const taskDateStr = task.dueDate || task.date;
+    const taskDate = taskDateStr ? new Date(taskDateStr) : new Date();
+    setCurrentDate(taskDate);
+    setSelectedDate(taskDate);
+    setEditingTask(task);
+    setShowTaskModal(true);
+    setDeepLinkedTaskId(null);
+    clearDeepLink();
+  }, [deepLinkedTaskId, tasks]);
+
   // Validate auth state and show appropriate UI
   const authState = validateAuthState(user, isAuthenticated, loading);
   
@@ -209,16 +243,47 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     setShowTaskModal(true);
   }, []);
 
-  const handleTaskSubmit = async (taskData: Partial<TaskWithMeta>): Promise<void> => {
+  // Reloads tasks after edits that touch more than one stored task (recurring series)
+  const reloadTasks = async (): Promise<void> => {
+    await taskService.refreshTasks(user?.id, isAuthenticated);
+    setTasks(taskService.getCurrentTasks());
+    setLastCalendarSyncTimestamp(Date.now());
+  };
+
+  const handleTaskSubmit = async (taskData: TaskData): Promise<void> => {
     try {
       if (!selectedDate) return;
 
+      const { repeat, editScope, ...fields } = taskData;
+      const anchorDate = getTaskAnchorDate(fields) || formatDateForInput(selectedDate);
       const completeTaskData = {
-        ...taskData,
+        ...fields,
         date: formatDateForInput(selectedDate),
         completed: taskData.completed || false,
+        recurrence_rule: repeat ? buildRecurrenceRule(repeat, anchorDate) : null,
+        recurrence_exdates: repeat ? repeat.skipDates : null,
       };
 
+      // Editing an occurrence of a repeating task: apply to this one or this and following
+      const series = editingTask?.seriesId ? tasks.find(task => task.id === editingTask.seriesId) : undefined;
+      if (editingTask?.seriesId && editingTask.occurrenceDate && series) {
+        const { id: _id, date: _date, ...changes } = completeTaskData;
+        const scope: RecurrenceScope = editScope || 'this';
+        logger.debug('Updating recurring task occurrence', { seriesId: series.id, occurrenceDate: editingTask.occurrenceDate, scope });
+        await updateRecurringTask(
+          series,
+          editingTask.occurrenceDate,
+          changes,
+          scope,
+          isAuthenticated,
+          user
+        );
+        await reloadTasks();
+        setShowTaskModal(false);
+        setEditingTask(null);
+        return;
+      }
+
       let result: TaskWithMeta | null;
       if (editingTask) {
         logger.debug('Updating task', { id: editingTask.id, title: completeTaskData.title });
@@ -271,7 +336,28 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     }
   };
 
-  const handleDeleteTask = async (): Promise<void> => {
+  const handleDeleteTask = async (scope?: RecurrenceScope): Promise<void> => {
+    const series = editingTask?.seriesId ? tasks.find(task => task.id === editingTask.seriesId) : undefined;
+    if (editingTask?.occurrenceDate && series) {
+      try {
+        await deleteRecurringTask(
+          series,
+          editingTask.occurrenceDate,
+          scope || 'this',
+          isAuthenticated,
+          getOccurrenceOverrides(tasks, series.id)
+        );
+        await reloadTasks();
+        setShowTaskModal(false);
+        setEditingTask(null);
+      } catch (error) {
+        logger.error('Recurring task deletion error', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        alert(`There was an error deleting your task. Please try again. Error: ${errorMessage}`);
+      }
+      return;
+    }
+
     if (editingTask) {
       try {
         const success = await deleteTask(editingTask.id, isAuthenticated);
@@ -295,9 +381,17 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     }
   };
 
+  // Repeating tasks are expanded for the displayed month plus a week on either side,
+  // which also covers week views that cross a month boundary
+  const displayTasks = useMemo(() => {
+    const monthStart = formatDateForInput(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1));
+    const monthEnd = formatDateForInput(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0));
+    return expandRecurringTasks(tasks, shiftDateString(monthStart, -7), shiftDateString(monthEnd, 7));
+  }, [tasks, currentDate]);
+
   // Performance optimization: Create indexed task lookup for large datasets
   const tasksIndex = useMemo(() => {
-    if (!tasks || tasks.length === 0) {
+    if (displayTasks.length === 0) {
       return new Map<string, TaskWithMeta[]>();
     }
 
@@ -305,10 +399,10 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     
     // Batch process tasks to avoid blocking UI for very large datasets
     const processTasks = (startIndex: number, batchSize: number = 100): void => {
-      const endIndex = Math.min(startIndex + batchSize, tasks.length);
+      const endIndex = Math.min(startIndex + batchSize, displayTasks.length);
       
       for (let i = startIndex; i < endIndex; i++) {
-        const task = tasks[i];
+        const task = displayTasks[i];
         let dateKey: string | null = null;
         
         if (task.dueDate) {
@@ -329,7 +423,7 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     };
 
     // Process all tasks in batches
-    for (let i = 0; i < tasks.length; i += 100) {
+    for (let i = 0; i < displayTasks.length; i += 100) {
       processTasks(i);
     }
 
@@ -343,7 +437,7 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
     });
 
     return index;
-  }, [tasks]);
+  }, [displayTasks]);
 
   const getTasksForDay = useCallback((day: number, month = currentDate.getMonth(), year = currentDate.getFullYear()): TaskWithMeta[] => {
     const targetDate = new Date(year, month, day);
@@ -407,6 +501,19 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
   // Add a function to toggle task completion
   const toggleTaskCompletion = useCallback(async (task: TaskWithMeta): Promise<void> => {
     const originalCompleted = task.completed;
+
+    // Checking off an occurrence of a repeating task only completes that occurrence
+    const series = task.seriesId ? tasks.find(t => t.id === task.seriesId) : undefined;
+    if (series && task.occurrenceDate) {
+      try {
+        const updatedSeries = await setOccurrenceCompleted(series, task.occurrenceDate, !task.completed, isAuthenticated);
+        setTasks(prevTasks => prevTasks.map(t => (t.id === series.id ? { ...t, ...updatedSeries } : t)));
+        setLastCalendarSyncTimestamp(Date.now());
+      } catch (error) {
+        logger.error('Failed to update occurrence completion', error);
+      }
+      return;
+    }
     
     // Optimistically update local state for instant UI feedback
     setTasks((prevTasks) =>
@@ -431,7 +538,7 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({ view: initialView = 'mo
         )
       );
     }
-  }, [isAuthenticated, setLastCalendarSyncTimestamp]);
+  }, [tasks, isAuthenticated, setLastCalendarSyncTimestamp]);
 
   // Week view rendering
   const renderWeekView = (): JSX.Element => {
@@ -12,6 +12,7 @@ import type {
 } from '../types/studySchedule';
 import type { ClassWithRelations } from '../types/database';
 import { useStudyScheduleContext } from '../contexts/StudyScheduleContext';
+import { useStudyConcepts } from '../hooks/useStudyConcepts';
 import { logger } from '../utils/logger';
 
 // Sub-components
@@ -21,6 +22,7 @@ import ScheduleConfigurationPanel from './studySchedule/ScheduleConfigurationPan
 import StudySessionDetails from './studySchedule/StudySessionDetails';
 import RetentionAnalytics from './studySchedule/RetentionAnalytics';
 import PremiumUpgradePrompt from './studySchedule/PremiumUpgradePrompt';
+import ScheduleChangesPanel from './studySchedule/ScheduleChangesPanel';
 
 interface StudyScheduleOptimizerProps {
   user: User;
@@ -42,6 +44,8 @@ export const StudyScheduleOptimizer: React.FC<StudyScheduleOptimizerProps> = ({
     currentSchedule,
     workloadAnalysis,
     studyProfile,
+    scheduleChanges,
+    dismissScheduleChanges,
     featureLimits,
     isPremium,
     isLoading,
@@ -54,6 +58,9 @@ export const StudyScheduleOptimizer: React.FC<StudyScheduleOptimizerProps> = ({
     checkFeatureAccess
   } = useStudyScheduleContext();
   
+  // Concepts for spaced-repetition review sessions and retention analytics
+  const studyConcepts = useStudyConcepts(user.id, studyProfile);
+  
   const [generationStatus, setGenerationStatus] = useState<ScheduleGenerationStatus>({
     status: 'idle',
     progress: 0,
@@ -300,6 +307,29 @@ export const StudyScheduleOptimizer: React.FC<StudyScheduleOptimizerProps> = ({
               </div>
             ) : (
               <>
+                {/* What the last automatic repair changed */}
+                {scheduleChanges.length > 0 && (
+                  <ScheduleChangesPanel
+                    changes={scheduleChanges}
+                    classes={classes}
+                    onDismiss={dismissScheduleChanges}
+                  />
+                )}
+                
+                {/* Study time the scheduler couldn't fit */}
+                {currentSchedule?.unmet_constraints && currentSchedule.unmet_constraints.length > 0 && (
+                  <div className="mx-4 mt-4 bg-orange-50 border border-orange-200 rounded-lg p-3">
+                    <p className="text-sm font-medium text-orange-800">
+                      Some study time couldn't be scheduled
+                    </p>
+                    <ul className="mt-1 space-y-1 text-xs text-orange-700">
+                      {currentSchedule.unmet_constraints.map(constraint => (
+                        <li key={constraint.demandId}>{constraint.reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
                 {/* Calendar View */}
                 <ScheduleCalendarView
                   schedule={currentSchedule}
@@ -313,9 +343,14 @@ export const StudyScheduleOptimizer: React.FC<StudyScheduleOptimizerProps> = ({
                 {/* Analytics Panel */}
                 {uiState.showAnalytics && featureLimits.retention_analytics_enabled && (
                   <RetentionAnalytics
-                    userId={user.id}
                     timeRange={uiState.analyticsTimeRange}
                     classes={classes}
+                    concepts={studyConcepts.concepts}
+                    reviews={studyConcepts.reviews}
+                    isLoading={studyConcepts.isLoading}
+                    onAddConcepts={studyConcepts.addConcepts}
+                    onReviewConcept={studyConcepts.recordReview}
+                    onDeleteConcept={studyConcepts.deleteConcept}
                   />
                 )}
               </>
@@ -330,6 +365,7 @@ export const StudyScheduleOptimizer: React.FC<StudyScheduleOptimizerProps> = ({
                 onUpdate={updateSessionStatus}
                 onClose={() => setUIState(prev => ({ ...prev, selectedSession: null }))}
                 classes={classes}
+                concepts={studyConcepts.concepts}
               />
             </div>
           )}
@@ -1,25 +1,64 @@
 import React, { useState, useEffect } from 'react';
 import { useStudySession } from '../hooks/useStudySession';
 import classService from '../services/classService';
+import {
+  getFocusTimerSettings,
+  getRemainingMs,
+  isLongBreakDue,
+  type FocusPhase,
+  type FocusTimerSettings
+} from '../services/focusTimer';
 import type { ClassWithRelations } from '../types/database';
+import type { StudyProfile } from '../types/studySchedule';
 
 interface StudySessionTrackerProps {
   taskId?: string;
   className?: string;
+  // Focus and break lengths for the focus timer; defaults apply without one
+  studyProfile?: Pick<StudyProfile, 'focus_duration_minutes' | 'break_duration_minutes'> | null;
 }
 
+const PHASE_LABELS: Record<FocusPhase, string> = {
+  focus: 'Focus',
+  short_break: 'Short break',
+  long_break: 'Long break',
+  idle: 'Break over'
+};
+
+const TIMER_SETTING_FIELDS: { key: keyof FocusTimerSettings; label: string; max: number }[] = [
+  { key: 'focusMinutes', label: 'Focus (min)', max: 180 },
+  { key: 'shortBreakMinutes', label: 'Short break (min)', max: 60 },
+  { key: 'longBreakMinutes', label: 'Long break (min)', max: 120 },
+  { key: 'cyclesBeforeLongBreak', label: 'Blocks before long break', max: 12 }
+];
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 export const StudySessionTracker: React.FC<StudySessionTrackerProps> = React.memo(({ 
   taskId, 
-  className = '' 
+  className = '',
+  studyProfile
 }) => {
   const { 
     activeSession, 
+    focusTimer,
     isLoading, 
     error, 
     startSession, 
+    startFocusSession,
+    startNextFocusBlock,
+    pauseFocus,
+    resumeFocus,
+    stopFocusPhase,
     endSession, 
     addInterruption, 
     getSessionDuration, 
+    getTimeOnTask,
     clearError 
   } = useStudySession();
   
@@ -50,6 +89,30 @@ export const StudySessionTracker: React.FC<StudySessionTrackerProps> = React.mem
   const [effectivenessRating, setEffectivenessRating] = useState<number>(3);
   const [sessionNotes, setSessionNotes] = useState('');
   const [currentDuration, setCurrentDuration] = useState(0);
+  const [useFocusTimer, setUseFocusTimer] = useState(false);
+  const [timerSettings, setTimerSettings] = useState<FocusTimerSettings>(() => getFocusTimerSettings(studyProfile));
+  const [now, setNow] = useState(() => new Date());
+  const [timeOnTask, setTimeOnTask] = useState<number | null>(null);
+
+  // Tick every second while the focus timer counts down
+  const isCountingDown = Boolean(focusTimer && focusTimer.phase !== 'idle' && focusTimer.pausedRemainingMs === null);
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isCountingDown]);
+
+  // Time already spent on this task, refreshed whenever a session or block ends
+  useEffect(() => {
+    if (!taskId) return;
+    let cancelled = false;
+    getTimeOnTask(taskId).then(minutes => {
+      if (!cancelled) setTimeOnTask(minutes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, activeSession?.id, focusTimer?.phase, getTimeOnTask]);
 
   // Update duration display every minute
   useEffect(() => {
@@ -68,12 +131,20 @@ export const StudySessionTracker: React.FC<StudySessionTrackerProps> = React.mem
   const handleStartSession = async () => {
     if (!sessionSubject.trim()) return;
 
-    const success = await startSession(
-      sessionSubject.trim(),
-      sessionType,
-      taskId,
-      selectedClassId || undefined
-    );
+    const success = useFocusTimer
+      ? await startFocusSession(
+        sessionSubject.trim(),
+        sessionType,
+        timerSettings,
+        taskId,
+        selectedClassId || undefined
+      )
+      : await startSession(
+        sessionSubject.trim(),
+        sessionType,
+        taskId,
+        selectedClassId || undefined
+      );
 
     if (success) {
       setShowStartForm(false);
@@ -139,6 +210,12 @@ export const StudySessionTracker: React.FC<StudySessionTrackerProps> = React.mem
         </div>
       )}
 
+      {taskId && timeOnTask !== null && timeOnTask > 0 && (
+        <p className="mb-2 text-xs text-gray-500 dark:text-slate-400">
+          Time on this task: {formatDuration(timeOnTask)}
+        </p>
+      )}
+
       {activeSession ? (
         <div className="bg-white dark:bg-slate-800/50 border border-gray-200 dark:border-slate-600/50 rounded-lg p-4 shadow-sm">
           <div className="flex items-center justify-between mb-3">
@@ -168,6 +245,45 @@ export const StudySessionTracker: React.FC<StudySessionTrackerProps> = React.mem
             )}
           </div>
 
+          {focusTimer && (
+            <div className={`mb-4 p-3 rounded-lg text-center ${focusTimer.phase === 'focus' ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-green-50 dark:bg-green-900/20'}`}>
+              <div className="text-xs font-medium uppercase tracking-wide text-gray-600 dark:text-slate-400">
+                {PHASE_LABELS[focusTimer.phase]} · Block {focusTimer.cycle}
+                {focusTimer.phase === 'focus' && isLongBreakDue(focusTimer) && ' · long break next'}
+              </div>
+              {focusTimer.phase !== 'idle' && (
+                <div className="text-3xl font-bold tabular-nums text-gray-900 dark:text-slate-100 my-1" aria-live="polite">
+                  {formatCountdown(getRemainingMs(focusTimer, now))}
+                </div>
+              )}
+              <div className="flex justify-center gap-2 mt-2">
+                {focusTimer.phase === 'idle' ? (
+                  <button
+                    onClick={startNextFocusBlock}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                  >
+                    Start next block
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={focusTimer.pausedRemainingMs === null ? pauseFocus : resumeFocus}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-slate-200 bg-white dark:bg-slate-700/50 border border-gray-300 dark:border-slate-600/50 rounded-md hover:bg-gray-50 dark:hover:bg-slate-600/50"
+                    >
+                      {focusTimer.pausedRemainingMs === null ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={stopFocusPhase}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-slate-200 bg-white dark:bg-slate-700/50 border border-gray-300 dark:border-slate-600/50 rounded-md hover:bg-gray-50 dark:hover:bg-slate-600/50"
+                    >
+                      {focusTimer.phase === 'focus' ? 'Stop block' : 'Skip break'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="flex space-x-2">
             <button
               onClick={addInterruption}
@@ -234,6 +350,40 @@ export const StudySessionTracker: React.FC<StudySessionTrackerProps> = React.mem
                 </select>
               </div>
 
+              <div>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={useFocusTimer}
+                    onChange={(e) => setUseFocusTimer(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700 dark:text-slate-300">Use focus timer (Pomodoro)</span>
+                </label>
+                {useFocusTimer && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {TIMER_SETTING_FIELDS.map(({ key, label, max }) => (
+                      <label key={key} className="block">
+                        <span className="block text-xs text-gray-600 dark:text-slate-400 mb-1">{label}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={max}
+                          value={timerSettings[key]}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value >= 1 && value <= max) {
+                              setTimerSettings(prev => ({ ...prev, [key]: value }));
+                            }
+                          }}
+                          className="w-full px-2 py-1 border border-gray-300 dark:border-slate-600/50 bg-white dark:bg-slate-700/50 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {classes.length > 0 && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
@@ -0,0 +1,93 @@
+import React from 'react';
+import { LETTER_GRADES, type GradingPolicy } from '../services/syllabus';
+
+interface SyllabusGradingPolicyProps {
+  policy: GradingPolicy;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+/**
+ * The grading policy read from a syllabus, with the option to set up the
+ * class's grade categories and letter-grade scale from it
+ */
+export const SyllabusGradingPolicy: React.FC<SyllabusGradingPolicyProps> = ({ policy, enabled, onToggle }) => {
+  const cutoffs = policy.cutoffs;
+  const letters = cutoffs ? LETTER_GRADES.filter(letter => letter in cutoffs) : [];
+
+  return (
+    <div className="border border-gray-200 dark:border-slate-600 rounded-lg p-4 mb-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-slate-100">Grading policy</h3>
+          <p className="text-sm text-gray-600 dark:text-slate-300">
+            Found in the syllabus. Existing categories with the same name are kept.
+          </p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-200 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onToggle(e.target.checked)}
+            className="h-4 w-4 text-blue-600 rounded"
+          />
+          <span>Set up grade categories</span>
+        </label>
+      </div>
+
+      {policy.categories.length > 0 && (
+        <table className="w-full mt-3 text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-slate-400">
+              <th className="font-medium py-1">Category</th>
+              <th className="font-medium py-1 text-right">Weight</th>
+              <th className="font-medium py-1 pl-4">Drop rule</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-800 dark:text-slate-200">
+            {policy.categories.map(category => (
+              <tr key={category.name} className="border-t border-gray-100 dark:border-slate-700">
+                <td className="py-1">{category.name}</td>
+                <td className="py-1 text-right">{category.weight}%</td>
+                <td className="py-1 pl-4 text-gray-600 dark:text-slate-400">
+                  {category.dropLowest > 0 ? `Lowest ${category.dropLowest} dropped` : '—'}
+                </td>
+              </tr>
+            ))}
+            <tr className={`border-t border-gray-200 dark:border-slate-600 font-medium ${
+              policy.isComplete ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'
+            }`}>
+              <td className="py-1">Total</td>
+              <td className="py-1 text-right">{policy.totalWeight}%</td>
+              <td className="py-1 pl-4 font-normal">{policy.isComplete ? 'Adds up to 100%' : 'Should add up to 100%'}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      {cutoffs && (
+        <div className="mt-3">
+          <p className="text-xs font-medium text-gray-500 dark:text-slate-400 mb-1">Letter-grade scale for this class</p>
+          <div className="flex flex-wrap gap-1">
+            {letters.map(letter => (
+              <span
+                key={letter}
+                className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-slate-300"
+              >
+                {letter} ≥ {cutoffs[letter]}%
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {policy.warnings.length > 0 && (
+        <ul className="mt-3 text-xs text-yellow-700 dark:text-yellow-300 space-y-1">
+          {policy.warnings.map((warning, index) => (
+            <li key={index}>• {warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import { useFileManager } from '../hooks/useFileManager';
 import { useDocumentViewer } from '../hooks/useDocumentViewer';
 import { DocumentViewer } from './DocumentViewer'; // Updated: no printer button, dark mode fixed
 import { SyllabusUploadModal } from './SyllabusUploadModal';
+import { ClassAliasEditor } from './ClassAliasEditor';
 import { logger } from '../utils/logger';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { features } from '../utils/buildConfig';
@@ -337,6 +338,8 @@ const SyllabusModal: React.FC<SyllabusModalProps> = ({
           </details>
         </div>
 
+        <ClassAliasEditor classId={selectedClass.id} />
+
         <div className="mb-5">
           <h3 className="font-bold text-lg mb-4 text-gray-900 dark:text-white">Class files</h3>
 
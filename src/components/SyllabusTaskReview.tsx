@@ -0,0 +1,307 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import {
+  findSourceSpan,
+  mergeReviewItems,
+  type GeneratedTask,
+  type ReviewConfidence,
+  type TaskReviewItem
+} from '../services/syllabus';
+import type { ClassWithRelations } from '../types/database';
+
+interface SyllabusTaskReviewProps {
+  items: TaskReviewItem[];
+  classes?: Pick<ClassWithRelations, 'id' | 'name'>[]; // Classes a task can be moved to
+  syllabusText: string;
+  isCreating: boolean;
+  onChange: (items: TaskReviewItem[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const CONFIDENCE_GROUPS: Array<{ confidence: ReviewConfidence; label: string; hint: string; style: string }> = [
+  { confidence: 'high', label: 'Likely tasks', hint: 'Clearly stated in the syllabus', style: 'text-green-700 dark:text-green-300' },
+  { confidence: 'medium', label: 'Worth a check', hint: 'Probably right, but check the details', style: 'text-yellow-700 dark:text-yellow-300' },
+  { confidence: 'low', label: 'Unsure', hint: 'Not added unless you approve them', style: 'text-red-700 dark:text-red-300' }
+];
+
+const TASK_TYPES = ['assignment', 'exam', 'quiz', 'project', 'reading', 'discussion', 'lab'];
+
+const inputClassName = 'px-2 py-1 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Review of the tasks extracted from a syllabus before any are created:
+ * grouped by confidence, with the text each came from highlighted in the
+ * syllabus, and ways to edit, merge or reject them
+ */
+export const SyllabusTaskReview: React.FC<SyllabusTaskReviewProps> = ({
+  items,
+  classes = [],
+  syllabusText,
+  isCreating,
+  onChange,
+  onConfirm,
+  onCancel
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const selected = items.find(item => item.id === selectedId) || null;
+  const span = useMemo(
+    () => (selected ? findSourceSpan(syllabusText, selected.task) : null),
+    [selected, syllabusText]
+  );
+  const approvedCount = items.filter(item => item.approved).length;
+  const classNames = useMemo(() => new Map(classes.map(cls => [cls.id, cls.name])), [classes]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [span]);
+
+  const updateItem = (id: string, changes: Partial<TaskReviewItem>) =>
+    onChange(items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  const updateTask = (item: TaskReviewItem, changes: Partial<GeneratedTask>) =>
+    updateItem(item.id, { task: { ...item.task, ...changes } });
+
+  const setGroupApproved = (confidence: ReviewConfidence, approved: boolean) =>
+    onChange(items.map(item => (item.confidence === confidence ? { ...item, approved } : item)));
+
+  const mergeInto = (sourceId: string, targetId: string) => {
+    if (selectedId === sourceId) setSelectedId(targetId);
+    if (editingId === sourceId) setEditingId(null);
+    onChange(mergeReviewItems(items, sourceId, targetId));
+  };
+
+  const renderItem = (item: TaskReviewItem) => {
+    const isEditing = editingId === item.id;
+    const isSelected = selectedId === item.id;
+
+    return (
+      <li
+        key={item.id}
+        className={`p-3 rounded-lg border transition-colors ${
+          isSelected
+            ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20'
+            : 'border-gray-200 dark:border-slate-600'
+        } ${item.approved ? '' : 'opacity-60'}`}
+      >
+        <div className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={item.approved}
+            onChange={(e) => updateItem(item.id, { approved: e.target.checked })}
+            className="mt-1 h-4 w-4 text-blue-600 rounded"
+            aria-label={`Add ${item.task.title}`}
+          />
+          <div className="flex-1 min-w-0">
+            {isEditing ? (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={item.task.title}
+                  onChange={(e) => updateTask(item, { title: e.target.value })}
+                  className={`w-full ${inputClassName}`}
+                  aria-label="Title"
+                />
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="date"
+                    value={(item.task.dueDate || '').slice(0, 10)}
+                    onChange={(e) => updateTask(item, { dueDate: e.target.value || undefined })}
+                    className={inputClassName}
+                    aria-label="Due date"
+                  />
+                  <select
+                    value={item.task.taskType}
+                    onChange={(e) => updateTask(item, { taskType: e.target.value })}
+                    className={inputClassName}
+                    aria-label="Type"
+                  >
+                    {TASK_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  {classes.length > 0 && (
+                    <select
+                      value={item.task.classId || ''}
+                      onChange={(e) => updateTask(item, { classId: e.target.value || undefined })}
+                      className={inputClassName}
+                      aria-label="Class"
+                    >
+                      <option value="">{item.task.courseCode || item.task.courseName ? 'Class from the syllabus' : 'This class'}</option>
+                      {classes.map(cls => (
+                        <option key={cls.id} value={cls.id}>{cls.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="font-medium text-gray-900 dark:text-slate-100 truncate">{item.task.title}</p>
+                <p className="text-xs text-gray-600 dark:text-slate-400">
+                  <span className="capitalize">{item.task.taskType}</span>
+                  {' • '}
+                  {item.task.dueDate ? `Due ${item.task.dueDate.slice(0, 10)}` : 'No due date'}
+                  {' • '}
+                  {Math.round(item.task.confidenceScore * 100)}% confident
+                  {item.task.extractedBy === 'rules' && ' • from the course schedule'}
+                  {item.task.classId && classNames.has(item.task.classId) && ` • ${classNames.get(item.task.classId)}`}
+                </p>
+              </>
+            )}
+
+            <div className="flex flex-wrap gap-1 mt-1">
+              {item.duplicateOf && (
+                <span className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                  {item.duplicateOf.taskId ? 'Already in class' : 'Possible duplicate'}: {item.duplicateOf.title}
+                </span>
+              )}
+              {item.rejectedBefore && (
+                <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-slate-300">
+                  Rejected in an earlier review
+                </span>
+              )}
+              {item.mergedFrom.length > 0 && (
+                <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200">
+                  Merged from {item.mergedFrom.length + 1} extracted tasks
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mt-2 text-xs">
+              <button
+                onClick={() => setSelectedId(isSelected ? null : item.id)}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {isSelected ? 'Hide source' : 'Show source'}
+              </button>
+              {!isEditing && (
+                <button
+                  onClick={() => setEditingId(item.id)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Edit
+                </button>
+              )}
+              {item.duplicateOf?.itemId && (
+                <button
+                  onClick={() => mergeInto(item.id, item.duplicateOf!.itemId!)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Merge into "{item.duplicateOf.title}"
+                </button>
+              )}
+              {items.length > 1 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && mergeInto(item.id, e.target.value)}
+                  className="text-xs border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200 rounded px-1 py-0.5"
+                  aria-label={`Merge ${item.task.title} into another task`}
+                >
+                  <option value="">Merge into…</option>
+                  {items.filter(other => other.id !== item.id).map(other => (
+                    <option key={other.id} value={other.id}>{other.task.title}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-slate-100">Review extracted tasks</h3>
+          <p className="text-sm text-gray-600 dark:text-slate-300">
+            {approvedCount} of {items.length} tasks will be added. Nothing is created until you confirm.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-1">
+          {CONFIDENCE_GROUPS.map(group => {
+            const groupItems = items.filter(item => item.confidence === group.confidence);
+            if (groupItems.length === 0) return null;
+
+            return (
+              <div key={group.confidence}>
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <h4 className={`font-medium ${group.style}`}>{group.label} ({groupItems.length})</h4>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{group.hint}</p>
+                  </div>
+                  <div className="flex space-x-2 text-xs">
+                    <button
+                      onClick={() => setGroupApproved(group.confidence, true)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Approve all
+                    </button>
+                    <button
+                      onClick={() => setGroupApproved(group.confidence, false)}
+                      className="text-gray-600 dark:text-slate-400 hover:underline"
+                    >
+                      Reject all
+                    </button>
+                  </div>
+                </div>
+                <ul className="space-y-2">{groupItems.map(renderItem)}</ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="border border-gray-200 dark:border-slate-600 rounded-lg bg-gray-50 dark:bg-slate-900/40">
+          <p className="px-3 py-2 text-xs font-medium text-gray-600 dark:text-slate-300 border-b border-gray-200 dark:border-slate-600">
+            {selected
+              ? span
+                ? `Source of "${selected.task.title}"`
+                : `Couldn't find "${selected.task.title}" in the syllabus text`
+              : 'Syllabus text: choose "Show source" on a task to see where it came from'}
+          </p>
+          <pre className="p-3 max-h-[45vh] overflow-y-auto text-xs whitespace-pre-wrap font-sans text-gray-700 dark:text-slate-300">
+            {span ? (
+              <>
+                {syllabusText.slice(0, span.start)}
+                <mark ref={highlightRef} className="bg-yellow-200 dark:bg-yellow-700/60 dark:text-white rounded px-0.5">
+                  {syllabusText.slice(span.start, span.end)}
+                </mark>
+                {syllabusText.slice(span.end)}
+              </>
+            ) : syllabusText}
+          </pre>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={onCancel}
+          disabled={isCreating}
+          className="px-4 py-2 text-gray-600 dark:text-slate-300 hover:text-gray-800 dark:hover:text-slate-100 transition-colors disabled:opacity-50"
+        >
+          Discard all
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isCreating || approvedCount === 0}
+          className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+        >
+          {isCreating ? 'Adding tasks...' : `Add ${approvedCount} task${approvedCount === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
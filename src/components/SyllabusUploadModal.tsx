@@ -4,6 +4,20 @@ import { useSubscription } from '../contexts/SubscriptionContext';
 import { SyllabusSecurityService } from '../services/syllabusSecurityService';
 import { SyllabusTaskGenerationService } from '../services/syllabusTaskGenerationService';
 import { fileService } from '../services/fileService';
+import { conceptService, extractSyllabusConcepts } from '../services/retention';
+import { getClasses, getTasks, getTaskTypes } from '../services/dataService';
+import { recordClassCorrections } from '../services/class/classResolver';
+import { applySyllabusGradingPolicy, linkSyllabusTasksToCategories } from '../services/grade/syllabusGradeIntegration';
+import {
+  getTaskRejections,
+  getTaskReviewOutcome,
+  recordTaskRejections,
+  type GradingPolicy,
+  type TaskReviewItem
+} from '../services/syllabus';
+import type { ClassWithRelations } from '../types/database';
+import { SyllabusTaskReview } from './SyllabusTaskReview';
+import { SyllabusGradingPolicy } from './SyllabusGradingPolicy';
 import { errorHandler } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { features } from '../utils/buildConfig';
@@ -23,6 +37,13 @@ interface ValidationState {
   isValid: boolean;
 }
 
+interface GradeSetupState {
+  createdCategories: number;
+  cutoffsSaved: boolean;
+  cutoffsPending: boolean;
+  linkedAssignments: number;
+}
+
 interface GenerationState {
   isGenerating: boolean;
   tasksGenerated: number;
@@ -38,7 +59,7 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
   className,
   onTasksGenerated
 }) => {
-  const { user } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // NEW: Safe subscription context usage (only when subscriptions are enabled)
@@ -74,7 +95,16 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
     warnings: [],
     isComplete: false
   });
-  const [currentStep, setCurrentStep] = useState<'select' | 'validate' | 'upload' | 'generate' | 'complete'>('select');
+  const [conceptsAdded, setConceptsAdded] = useState(0);
+  const [reviewItems, setReviewItems] = useState<TaskReviewItem[]>([]);
+  const [reviewClasses, setReviewClasses] = useState<ClassWithRelations[]>([]);
+  const [syllabusText, setSyllabusText] = useState('');
+  const [isCreatingTasks, setIsCreatingTasks] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [gradingPolicy, setGradingPolicy] = useState<GradingPolicy | null>(null);
+  const [setUpGrades, setSetUpGrades] = useState(false);
+  const [gradeSetup, setGradeSetup] = useState<GradeSetupState | null>(null);
+  const [currentStep, setCurrentStep] = useState<'select' | 'validate' | 'upload' | 'generate' | 'review' | 'complete'>('select');
 
   const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -212,31 +242,42 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
 
       setUploadProgress(80);
 
-      // Create tasks in database
-      const createdTasks = await SyllabusTaskGenerationService.createTasksFromGenerated(
-        taskGenerationResult.tasks,
-        classId,
-        user
-      );
+      // Tasks already in the class, to flag extracted tasks that duplicate them
+      const [existingTasks, taskTypes, classes] = await Promise.all([
+        getTasks(user.id, true).catch(() => []),
+        getTaskTypes(user.id, true).catch(() => []),
+        getClasses(user.id, true).catch(() => [])
+      ]);
 
-      setUploadProgress(100);
-      setCurrentStep('complete');
+      setReviewItems(SyllabusTaskGenerationService.prepareTaskReview(taskGenerationResult.tasks, {
+        classId,
+        existingTasks,
+        taskTypes,
+        rejections: getTaskRejections(user.id, classId)
+      }));
+      setReviewClasses(classes);
+      setSyllabusText(fileText);
+      setReviewError(null);
+
+      // Offer grade setup when the syllabus has a grading breakdown; on by default only when it adds up
+      const { gradingPolicy: policy } = taskGenerationResult;
+      const hasPolicy = policy.categories.length > 0 || !!policy.cutoffs;
+      setGradingPolicy(hasPolicy ? policy : null);
+      setSetUpGrades(hasPolicy && (policy.categories.length === 0 || policy.isComplete));
+      setCurrentStep('review');
 
       setGeneration({
         isGenerating: false,
-        tasksGenerated: createdTasks.length,
+        tasksGenerated: 0,
         averageConfidence: taskGenerationResult.metadata.averageConfidence,
         warnings: taskGenerationResult.warnings,
-        isComplete: true
+        isComplete: false
       });
 
-      // Notify parent component
-      onTasksGenerated?.(createdTasks.length);
-
-      logger.info('Syllabus upload and task generation completed', {
+      logger.info('Syllabus task generation ready for review', {
         fileName: selectedFile.name,
         classId,
-        tasksGenerated: createdTasks.length,
+        tasksExtracted: taskGenerationResult.tasks.length,
         averageConfidence: taskGenerationResult.metadata.averageConfidence
       });
 
@@ -284,13 +325,98 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
         errors: [...validation.errors, userFriendlyError]
       });
     }
-  }, [selectedFile, user, validation.isValid, classId, className, onTasksGenerated]);
+  }, [selectedFile, user, validation.isValid, classId, className]);
+
+  // Create only the approved tasks, and remember the rest for future extractions
+  const handleConfirmReview = useCallback(async () => {
+    if (!user) return;
+
+    const { approved, rejected, classCorrections } = getTaskReviewOutcome(reviewItems);
+    try {
+      setIsCreatingTasks(true);
+      setReviewError(null);
+
+      const createdTasks = await SyllabusTaskGenerationService.createTasksFromGenerated(
+        approved,
+        classId,
+        user,
+        { reviewed: true }
+      );
+      recordTaskRejections(user.id, classId, rejected);
+      recordClassCorrections(user.id, classCorrections);
+
+      // Grade categories and scale from the grading policy, with the new tasks as their assignments
+      if (setUpGrades && gradingPolicy) {
+        try {
+          const { categories, summary } = await applySyllabusGradingPolicy(gradingPolicy, classId, user.id, {
+            useSupabase: isAuthenticated
+          });
+          const linkedAssignments = await linkSyllabusTasksToCategories(
+            createdTasks,
+            approved,
+            categories,
+            classId,
+            user.id,
+            isAuthenticated
+          );
+          setGradeSetup({
+            createdCategories: summary.createdCategories,
+            cutoffsSaved: summary.cutoffsSaved,
+            cutoffsPending: summary.cutoffsPending,
+            linkedAssignments
+          });
+        } catch (gradeError) {
+          // The tasks are in; grades can still be set up by hand
+          logger.warn('Setting up grades from the syllabus grading policy failed', {
+            error: gradeError instanceof Error ? gradeError.message : String(gradeError),
+            classId
+          });
+        }
+      }
+
+      // Topics from the course schedule become concepts for spaced-repetition review
+      const concepts = await conceptService.addConcepts(
+        user.id,
+        extractSyllabusConcepts(syllabusText).map(name => ({ name, classId, source: 'syllabus' as const }))
+      );
+      setConceptsAdded(concepts.length);
+
+      setUploadProgress(100);
+      setCurrentStep('complete');
+      setGeneration(prev => ({ ...prev, tasksGenerated: createdTasks.length, isComplete: true }));
+
+      // Notify parent component
+      onTasksGenerated?.(createdTasks.length);
+
+      logger.info('Syllabus upload and task generation completed', {
+        classId,
+        tasksApproved: approved.length,
+        tasksRejected: rejected.length,
+        tasksGenerated: createdTasks.length
+      });
+    } catch (error) {
+      logger.error('Creating reviewed syllabus tasks failed', {
+        error: error instanceof Error ? error.message : String(error),
+        classId
+      });
+      setReviewError('Could not add the tasks: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setIsCreatingTasks(false);
+    }
+  }, [user, isAuthenticated, reviewItems, classId, syllabusText, setUpGrades, gradingPolicy, onTasksGenerated]);
 
   const handleClose = useCallback(() => {
     setSelectedFile(null);
     setCurrentStep('select');
     setValidation({ isValidating: false, errors: [], warnings: [], isValid: false });
     setGeneration({ isGenerating: false, tasksGenerated: 0, averageConfidence: 0, warnings: [], isComplete: false });
+    setConceptsAdded(0);
+    setReviewItems([]);
+    setSyllabusText('');
+    setReviewError(null);
+    setGradingPolicy(null);
+    setSetUpGrades(false);
+    setGradeSetup(null);
     setUploadProgress(0);
     onClose();
   }, [onClose]);
@@ -300,6 +426,13 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
     setCurrentStep('select');
     setValidation({ isValidating: false, errors: [], warnings: [], isValid: false });
     setGeneration({ isGenerating: false, tasksGenerated: 0, averageConfidence: 0, warnings: [], isComplete: false });
+    setConceptsAdded(0);
+    setReviewItems([]);
+    setSyllabusText('');
+    setReviewError(null);
+    setGradingPolicy(null);
+    setSetUpGrades(false);
+    setGradeSetup(null);
     setUploadProgress(0);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -310,7 +443,7 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[10010] p-4">
-      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto relative z-[10011]">
+      <div className={`bg-white dark:bg-slate-800 rounded-xl shadow-2xl ${currentStep === 'review' ? 'max-w-5xl' : 'max-w-2xl'} w-full max-h-[90vh] overflow-y-auto relative z-[10011]`}>
         {/* Header */}
         <div className="bg-blue-600 text-white p-6 rounded-t-xl">
           <div className="flex justify-between items-center">
@@ -343,8 +476,11 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
             <span className={currentStep === 'generate' ? 'text-blue-600 font-medium' : ''}>
               4. Generate Tasks
             </span>
+            <span className={currentStep === 'review' ? 'text-blue-600 font-medium' : ''}>
+              5. Review
+            </span>
             <span className={currentStep === 'complete' ? 'text-green-600 font-medium' : ''}>
-              5. Complete
+              6. Complete
             </span>
           </div>
           
@@ -532,7 +668,58 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
             </div>
           )}
 
-          {/* Step 5: Complete */}
+          {/* Step 5: Review */}
+          {currentStep === 'review' && (
+            <div>
+              {generation.warnings.length > 0 && (
+                <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700/50 rounded-lg p-4 mb-4">
+                  <h4 className="text-yellow-800 dark:text-yellow-200 font-medium mb-2">Processing Notes:</h4>
+                  <ul className="text-yellow-700 dark:text-yellow-300 text-sm space-y-1">
+                    {generation.warnings.map((warning, index) => (
+                      <li key={index}>• {warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {reviewError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 text-red-700 text-sm">
+                  {reviewError}
+                </div>
+              )}
+
+              {reviewItems.length > 0 && gradingPolicy && (
+                <SyllabusGradingPolicy policy={gradingPolicy} enabled={setUpGrades} onToggle={setSetUpGrades} />
+              )}
+
+              {reviewItems.length > 0 ? (
+                <SyllabusTaskReview
+                  items={reviewItems}
+                  classes={reviewClasses}
+                  syllabusText={syllabusText}
+                  isCreating={isCreatingTasks}
+                  onChange={setReviewItems}
+                  onConfirm={handleConfirmReview}
+                  onCancel={handleStartOver}
+                />
+              ) : (
+                <div className="text-center">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-slate-100 mb-2">No tasks found</h3>
+                  <p className="text-gray-600 dark:text-slate-300 mb-4">
+                    We couldn't find any assignments, exams or due dates in this syllabus.
+                  </p>
+                  <button
+                    onClick={handleStartOver}
+                    className="px-6 py-2 text-gray-600 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    Upload Another Syllabus
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Step 6: Complete */}
           {currentStep === 'complete' && (
             <div className="text-center">
               <svg className="h-20 w-20 text-green-600 mx-auto mb-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -542,6 +729,19 @@ export const SyllabusUploadModal: React.FC<SyllabusUploadModalProps> = ({
               <p className="text-lg text-gray-700 dark:text-slate-300 mb-6">
                 Your syllabus has been processed and {generation.tasksGenerated} new tasks have been added to your calendar and task list.
               </p>
+              {conceptsAdded > 0 && (
+                <p className="text-sm text-gray-600 dark:text-slate-400 -mt-4 mb-6">
+                  {conceptsAdded} course topic{conceptsAdded !== 1 ? 's were' : ' was'} added as concepts to review in your study plan.
+                </p>
+              )}
+              {gradeSetup && (
+                <p className="text-sm text-gray-600 dark:text-slate-400 -mt-4 mb-6">
+                  {gradeSetup.createdCategories} grade categor{gradeSetup.createdCategories !== 1 ? 'ies' : 'y'} set up
+                  {gradeSetup.cutoffsSaved && ', the syllabus letter-grade scale saved'}
+                  {' and '}{gradeSetup.linkedAssignments} task{gradeSetup.linkedAssignments !== 1 ? 's' : ''} added as graded assignments.
+                  {gradeSetup.cutoffsPending && ' The syllabus letter-grade scale will be used once you set the class up for GPA in grade entry.'}
+                </p>
+              )}
               
 
               {generation.warnings.length > 0 && (
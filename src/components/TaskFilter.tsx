@@ -1,11 +1,13 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { FilterService, FilterCriteria, FilterPreset } from '../services/filterService';
-import type { Class, TaskType } from '../types/index';
+import type { Class, Task, TaskType } from '../types/index';
+import { openDeepLink } from '../utils/deepLinks';
 
 interface TaskFilterProps {
   onFilterChange: (criteria: FilterCriteria) => void;
   classes: Class[];
   taskTypes: TaskType[];
+  tasks?: Task[];
   initialCriteria?: FilterCriteria;
   taskCount?: number;
   filteredCount?: number;
@@ -22,6 +24,7 @@ const TaskFilter: React.FC<TaskFilterProps> = ({
   onFilterChange,
   classes,
   taskTypes,
+  tasks = [],
   initialCriteria = {},
   taskCount = 0,
   filteredCount = 0
@@ -37,7 +40,7 @@ const TaskFilter: React.FC<TaskFilterProps> = ({
   const presetsRef = useRef<HTMLDivElement>(null);
 
   // Get filter presets
-  const academicPresets = useMemo(() => FilterService.getAcademicPresets(), []);
+  const academicPresets = useMemo(() => FilterService.getAcademicPresets(tasks, taskTypes), [tasks, taskTypes]);
   const savedPresets = useMemo(() => FilterService.getSavedFilterPresets(), []);
   const allPresets = useMemo(() => [...academicPresets, ...savedPresets], [academicPresets, savedPresets]);
 
@@ -293,23 +296,43 @@ const TaskFilter: React.FC<TaskFilterProps> = ({
               </div>
               <div className="max-h-60 overflow-y-auto">
                 {academicPresets.map((preset) => (
-                  <button
-                    key={preset.id}
-                    onClick={() => applyPreset(preset)}
-                    className="w-full px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-600 
-                             border-b border-gray-100 dark:border-gray-600 last:border-b-0
-                             focus:outline-none focus:bg-gray-50 dark:focus:bg-gray-600"
-                  >
-                    <div className="flex items-start space-x-3">
-                      <svg className="h-5 w-5 text-blue-500 mt-0.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={preset.icon} />
-                      </svg>
-                      <div className="flex-1 min-w-0">
-                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{preset.name}</div>
-                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{preset.description}</div>
+                  <div key={preset.id} className="border-b border-gray-100 dark:border-gray-600 last:border-b-0">
+                    <button
+                      onClick={() => applyPreset(preset)}
+                      className="w-full px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-600 
+                               focus:outline-none focus:bg-gray-50 dark:focus:bg-gray-600"
+                    >
+                      <div className="flex items-start space-x-3">
+                        <svg className="h-5 w-5 text-blue-500 mt-0.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={preset.icon} />
+                        </svg>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{preset.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{preset.description}</div>
+                        </div>
                       </div>
-                    </div>
-                  </button>
+                    </button>
+                    {preset.links && preset.links.length > 0 && (
+                      <div className="pl-12 pr-4 pb-3 space-y-1">
+                        {preset.links.map(link => (
+                          <button
+                            key={link.id}
+                            onClick={() => {
+                              setShowPresets(false);
+                              openDeepLink(link.target);
+                            }}
+                            className="w-full text-left px-2 py-1 rounded text-xs hover:bg-blue-50 dark:hover:bg-gray-600
+                                     focus:outline-none focus:bg-blue-50 dark:focus:bg-gray-600"
+                          >
+                            <span className="font-medium text-blue-600 dark:text-blue-400">{link.label}</span>
+                            {link.description && (
+                              <span className="text-gray-500 dark:text-gray-400"> · {link.description}</span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
                 ))}
               </div>
             </div>
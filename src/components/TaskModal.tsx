@@ -6,8 +6,11 @@ import { useTaskManagement } from "../hooks/useTaskManagement";
 import TaskFormFields from "./taskModal/TaskFormFields";
 import ClassManagement from "./taskModal/ClassManagement";
 import TaskTypeManagement from "./taskModal/TaskTypeManagement";
+import RepeatSettings from "./taskModal/RepeatSettings";
+import ReminderSettings from "./taskModal/ReminderSettings";
 import { StudySessionTracker } from "./StudySessionTracker";
 import { logger } from "../utils/logger";
+import type { RecurrenceScope, TaskRepeatSettings } from "../utils/recurringTaskHelpers";
 
 export interface TaskData {
   id?: string;
@@ -23,13 +26,16 @@ export interface TaskData {
   endTime: string;
   completed: boolean;
   date?: string;
+  repeat: TaskRepeatSettings | null;
+  reminder_offsets: string[] | null; // Null uses the task type's or the account's reminders
+  editScope?: RecurrenceScope; // Set when editing one occurrence of a repeating task
 }
 
 interface TaskModalProps {
   showModal: boolean;
   onClose: () => void;
   onSubmit: (task: TaskData) => Promise<void>;
-  onDelete?: () => void;
+  onDelete?: (scope?: RecurrenceScope) => void;
   editingTask: TaskWithMeta | null;
   selectedDate: Date | null;
   classes: ClassWithRelations[];
@@ -162,6 +168,17 @@ const TaskModal: React.FC<TaskModalProps> = ({
             titleInputRef={titleInputRef}
           />
 
+          <RepeatSettings
+            task={task}
+            onInputChange={handleInputChange}
+            isOccurrence={Boolean(editingTask?.seriesId)}
+          />
+
+          <ReminderSettings
+            task={task}
+            onInputChange={handleInputChange}
+          />
+
           <ClassManagement
             classes={classes}
             task={task}
@@ -234,7 +251,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
               {editingTask && onDelete && (
                 <button
                   type="button"
-                  onClick={onDelete}
+                  onClick={() => onDelete(task.editScope)}
                   className="w-full sm:w-auto px-4 py-3 sm:py-2 bg-red-600 dark:bg-red-700 text-white rounded-md hover:bg-red-700 dark:hover:bg-red-600 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 min-h-[44px] touch-manipulation"
                   aria-label="Delete this task permanently"
                 >
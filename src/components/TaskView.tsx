@@ -13,9 +13,11 @@ import type { TaskData } from "./TaskModal";
 import TaskFilter from "./TaskFilter";
 import { FilterService, FilterCriteria, SearchResult } from "../services/filterService";
 import type { Task, Class } from "../types/index";
+import { readDeepLink, subscribeToDeepLinks, clearDeepLink } from "../utils/deepLinks";
 
 // Lazy load TaskModal for better performance
 const TaskModal = lazy(() => import("./TaskModal"));
+const ExamPrepPlanner = lazy(() => import("./studySchedule/ExamPrepPlanner"));
 
 // Filter and sort options
 type FilterType = 'all' | 'pending' | 'completed' | 'overdue' | 'today' | 'thisWeek';
@@ -56,6 +58,23 @@ const TaskView: React.FC<TaskViewProps> = ({ onTaskEdit }) => {
   const [editingTask, setEditingTask] = useState<TaskWithMeta | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
 
+  // Exam whose prep plan is open, from the Upcoming Exams quick filter or a link
+  const [examPlanTaskId, setExamPlanTaskId] = useState<string | null>(() => {
+    const target = readDeepLink();
+    return target?.type === 'exam' ? target.id : null;
+  });
+
+  useEffect(() => subscribeToDeepLinks(target => {
+    if (target.type === 'exam') setExamPlanTaskId(target.id);
+  }), []);
+
+  const examPlanTask = examPlanTaskId ? tasks.find(task => task.id === examPlanTaskId) : undefined;
+
+  const closeExamPlan = useCallback(() => {
+    setExamPlanTaskId(null);
+    clearDeepLink();
+  }, []);
+
   // Initialize services when auth state is ready
   useEffect(() => {
     const initializeServices = async (): Promise<void> => {
@@ -145,6 +164,8 @@ const TaskView: React.FC<TaskViewProps> = ({ onTaskEdit }) => {
     };
   }, [user]);
 
+  const filterTasks = useMemo(() => tasks.map(convertToTask), [tasks, convertToTask]);
+
   // New advanced filtering with FilterService
   useEffect(() => {
     if (tasks.length === 0) {
@@ -448,6 +469,7 @@ const TaskView: React.FC<TaskViewProps> = ({ onTaskEdit }) => {
         onFilterChange={handleFilterChange}
         classes={classes.map(convertToClass)}
         taskTypes={taskTypes}
+        tasks={filterTasks}
         initialCriteria={filterCriteria}
         taskCount={tasks.length}
         filteredCount={filteredTasks.length}
@@ -723,6 +745,19 @@ const TaskView: React.FC<TaskViewProps> = ({ onTaskEdit }) => {
         user={user}
       />
     </Suspense>
+
+    {/* Exam prep plan */}
+    {examPlanTask && user && (
+      <Suspense fallback={null}>
+        <ExamPrepPlanner
+          user={user}
+          exam={examPlanTask}
+          classes={classes}
+          useSupabase={isAuthenticated}
+          onClose={closeExamPlan}
+        />
+      </Suspense>
+    )}
     </>
   );
 };
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  loadTranscript,
+  addTransferCredit,
+  type RepeatPolicy,
+  type Transcript
+} from '../services/grade/transcriptService';
+import { createTranscriptPDF } from '../services/grade/transcriptPdf';
+import { downloadBlob, generateExportFilename } from '../services/exportService';
+import { getAvailableTerms, type AcademicSystem } from '../utils/academicTermHelpers';
+import { logger } from '../utils/logger';
+
+const formatGPA = (gpa: number | null): string => (gpa === null ? '—' : gpa.toFixed(2));
+
+const EMPTY_TRANSFER_FORM = {
+  institution: '',
+  courseName: '',
+  courseCode: '',
+  creditHours: '3',
+  grade: 'P',
+  semester: '',
+  year: new Date().getFullYear().toString(),
+  countsInGpa: false,
+  isMajor: false
+};
+
+const TranscriptView: React.FC = () => {
+  const { user, isAuthenticated } = useAuth();
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [repeatPolicy, setRepeatPolicy] = useState<RepeatPolicy>('replace');
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [transferForm, setTransferForm] = useState(EMPTY_TRANSFER_FORM);
+  const [loading, setLoading] = useState(true);
+
+  const generalSettings = JSON.parse(localStorage.getItem('generalSettings') || '{}');
+  const academicSystem: AcademicSystem = generalSettings?.academicSystem || 'semester';
+
+  const refresh = useCallback(async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    try {
+      setTranscript(await loadTranscript(user.id, isAuthenticated, { repeatPolicy, academicSystem }));
+    } catch (error) {
+      logger.error('Error loading transcript', { error });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, isAuthenticated, repeatPolicy, academicSystem]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDownload = useCallback(() => {
+    if (!transcript) return;
+    const blob = createTranscriptPDF(transcript, { studentName: user?.email || undefined });
+    downloadBlob(blob, generateExportFilename('pdf', 'transcript'));
+  }, [transcript, user?.email]);
+
+  const handleAddTransfer = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id) return;
+
+    const credit = await addTransferCredit({
+      user_id: user.id,
+      institution: transferForm.institution,
+      course_name: transferForm.courseName,
+      course_code: transferForm.courseCode || undefined,
+      credit_hours: Number(transferForm.creditHours),
+      grade: transferForm.grade || undefined,
+      semester: transferForm.semester || getAvailableTerms(academicSystem)[0],
+      year: Number(transferForm.year),
+      counts_in_gpa: transferForm.countsInGpa,
+      is_major: transferForm.isMajor
+    }, isAuthenticated);
+
+    if (credit) {
+      setTransferForm(EMPTY_TRANSFER_FORM);
+      setShowTransferForm(false);
+      refresh();
+    }
+  }, [user?.id, isAuthenticated, transferForm, academicSystem, refresh]);
+
+  const inputClassName = 'w-full border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100';
+
+  return (
+    <div className="bg-white dark:bg-slate-800/90 backdrop-blur-sm rounded-lg shadow p-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Transcript</h3>
+          {transcript && (
+            <p className="text-sm text-gray-600 dark:text-slate-400">
+              Cumulative GPA {formatGPA(transcript.cumulativeGPA)} • Major GPA {formatGPA(transcript.majorGPA)} • {transcript.totalEarnedCredits} credits earned
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={repeatPolicy}
+            onChange={(e) => setRepeatPolicy(e.target.value as RepeatPolicy)}
+            className="border border-gray-300 dark:border-slate-600/50 rounded px-3 py-1 text-sm bg-white dark:bg-slate-700/50 text-gray-900 dark:text-slate-100"
+            title="How retaken courses count"
+          >
+            <option value="replace">Retakes replace grade</option>
+            <option value="average">Retakes averaged</option>
+          </select>
+          <button
+            onClick={() => setShowTransferForm(!showTransferForm)}
+            className="px-3 py-1 text-sm rounded border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700"
+          >
+            Add Transfer Credit
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!transcript || transcript.terms.length === 0}
+            className="px-3 py-1 text-sm rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white"
+          >
+            Download PDF
+          </button>
+        </div>
+      </div>
+
+      {showTransferForm && (
+        <form onSubmit={handleAddTransfer} className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 p-4 bg-gray-50 dark:bg-slate-700/30 rounded-lg">
+          <input required placeholder="Institution" value={transferForm.institution} onChange={(e) => setTransferForm(prev => ({ ...prev, institution: e.target.value }))} className={inputClassName} />
+          <input required placeholder="Course name" value={transferForm.courseName} onChange={(e) => setTransferForm(prev => ({ ...prev, courseName: e.target.value }))} className={inputClassName} />
+          <input placeholder="Course code" value={transferForm.courseCode} onChange={(e) => setTransferForm(prev => ({ ...prev, courseCode: e.target.value }))} className={inputClassName} />
+          <input required type="number" min="0" step="0.5" placeholder="Credits" value={transferForm.creditHours} onChange={(e) => setTransferForm(prev => ({ ...prev, creditHours: e.target.value }))} className={inputClassName} />
+          <input placeholder="Grade (e.g. A or P)" value={transferForm.grade} onChange={(e) => setTransferForm(prev => ({ ...prev, grade: e.target.value }))} className={inputClassName} />
+          <select value={transferForm.semester || getAvailableTerms(academicSystem)[0]} onChange={(e) => setTransferForm(prev => ({ ...prev, semester: e.target.value }))} className={inputClassName}>
+            {getAvailableTerms(academicSystem).map(term => (
+              <option key={term} value={term}>{term}</option>
+            ))}
+          </select>
+          <input required type="number" placeholder="Year" value={transferForm.year} onChange={(e) => setTransferForm(prev => ({ ...prev, year: e.target.value }))} className={inputClassName} />
+          <div className="flex flex-col justify-center text-sm text-gray-700 dark:text-slate-300">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={transferForm.countsInGpa} onChange={(e) => setTransferForm(prev => ({ ...prev, countsInGpa: e.target.checked }))} />
+              Counts in GPA
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={transferForm.isMajor} onChange={(e) => setTransferForm(prev => ({ ...prev, isMajor: e.target.checked }))} />
+              Major course
+            </label>
+          </div>
+          <button type="submit" className="col-span-2 md:col-span-4 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium">
+            Save Transfer Credit
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse bg-gray-200 dark:bg-slate-700 h-24 rounded" />
+      ) : !transcript || transcript.terms.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-slate-400">
+          Set up credit hours and terms for your classes to build a transcript.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {transcript.terms.map(term => (
+            <div key={term.key} className="border border-gray-200 dark:border-slate-600/50 rounded-lg">
+              <div className="flex justify-between items-center px-4 py-2 bg-gray-50 dark:bg-slate-700/30 rounded-t-lg">
+                <span className="font-medium text-gray-900 dark:text-white">{term.label}</span>
+                <span className="text-sm text-gray-600 dark:text-slate-400">
+                  Term {formatGPA(term.termGPA)} • Cumulative {formatGPA(term.cumulativeGPA)}
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <tbody>
+                  {term.courses.map(course => (
+                    <tr key={course.id} className={`border-t border-gray-100 dark:border-slate-600/50 ${course.excludedAsRepeat ? 'text-gray-400 line-through' : 'text-gray-800 dark:text-slate-200'}`}>
+                      <td className="px-4 py-1">
+                        {course.courseCode && <span className="text-gray-500 dark:text-slate-400 mr-2">{course.courseCode}</span>}
+                        {course.name}
+                        {course.isMajor && <span className="ml-2 text-xs text-purple-600">Major</span>}
+                      </td>
+                      <td className="px-2 py-1 text-right">{course.creditHours}</td>
+                      <td className="px-2 py-1 text-right font-medium">{course.letterGrade || '—'}</td>
+                      <td className="px-4 py-1 text-right text-xs text-gray-500 dark:text-slate-400">
+                        {course.status === 'in_progress' ? 'In progress' : course.status === 'withdrawn' ? 'Withdrawn' : course.excludedAsRepeat ? 'Repeated' : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { getCalendarTitle } from '../../utils/dateHelpers';
 import { getViewButtonClasses } from '../../utils/styleHelpers';
+import NotificationBell from '../notifications/NotificationBell';
 
 type ViewType = 'month' | 'week' | 'day';
 
@@ -242,6 +243,11 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = React.memo(({
           {renderDateTitle()}
         </div>
         
+        {/* Notification inbox - always visible on the left */}
+        <div className="absolute left-0 top-1/2 transform -translate-y-1/2">
+          <NotificationBell placement="header" />
+        </div>
+
         {/* Controls - positioned absolutely on the right, hover-only visibility */}
         <div className="group absolute right-0 top-1/2 transform -translate-y-1/2">
           {/* Invisible hover area to trigger controls - non-clickable */}
@@ -0,0 +1,123 @@
+import React from 'react';
+import {
+  BACKUP_ENTITIES,
+  type BackupDiff,
+  type BackupEntity,
+  type ConflictResolution,
+  type RestoreOptions
+} from '../../services/import/backupRestore';
+
+interface BackupRestoreDiffProps {
+  diff: BackupDiff;
+  restoreOptions: RestoreOptions;
+  onDefaultResolutionChange: (resolution: ConflictResolution) => void;
+  onItemResolutionChange: (key: string, resolution: ConflictResolution) => void;
+}
+
+const ENTITY_LABELS: Record<BackupEntity, string> = {
+  taskTypes: 'Task types',
+  classes: 'Classes',
+  tasks: 'Tasks',
+  gradeCategories: 'Grade categories',
+  assignments: 'Assignments',
+  grades: 'Grades',
+  studySessions: 'Study sessions'
+};
+
+const RESOLUTION_OPTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Keep current' },
+  { value: 'overwrite', label: 'Use backup' },
+  { value: 'keep-both', label: 'Keep both' }
+];
+
+const selectClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100';
+
+export const BackupRestoreDiff: React.FC<BackupRestoreDiffProps> = ({
+  diff,
+  restoreOptions,
+  onDefaultResolutionChange,
+  onItemResolutionChange
+}) => {
+  const conflicts = diff.items.filter(item => item.status === 'changed');
+  const entities = BACKUP_ENTITIES.filter(entity =>
+    Object.values(diff.counts[entity]).some(count => count > 0));
+
+  return (
+    <div className="space-y-4">
+      {!diff.sameAccount && (
+        <p className="text-sm text-yellow-800 dark:text-yellow-200">
+          This backup comes from another account. Records are matched by name and restored with new IDs.
+        </p>
+      )}
+
+      <table className="w-full text-sm">
+        <thead className="text-gray-600 dark:text-slate-400">
+          <tr>
+            <th className="text-left font-medium py-1"></th>
+            <th className="text-right font-medium py-1">New</th>
+            <th className="text-right font-medium py-1">Identical</th>
+            <th className="text-right font-medium py-1">Changed</th>
+            <th className="text-right font-medium py-1">Only here</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-800 dark:text-slate-200">
+          {entities.map(entity => (
+            <tr key={entity} className="border-t border-gray-200 dark:border-slate-600">
+              <td className="py-1">{ENTITY_LABELS[entity]}</td>
+              <td className="py-1 text-right text-green-600 dark:text-green-400">{diff.counts[entity].new}</td>
+              <td className="py-1 text-right">{diff.counts[entity].identical}</td>
+              <td className="py-1 text-right text-orange-600 dark:text-orange-400">{diff.counts[entity].changed}</td>
+              <td className="py-1 text-right text-gray-500 dark:text-slate-400">{diff.counts[entity]['local-only']}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {conflicts.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900 dark:text-slate-100">
+              {conflicts.length} conflicts
+            </span>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+              For all:
+              <select
+                value={restoreOptions.defaultResolution}
+                onChange={(e) => onDefaultResolutionChange(e.target.value as ConflictResolution)}
+                className={selectClassName}
+              >
+                {RESOLUTION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-slate-600 border border-gray-200 dark:border-slate-600 rounded-lg">
+            {conflicts.map(item => (
+              <li key={item.key} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-900 dark:text-slate-100 truncate">
+                    <span className="text-gray-500 dark:text-slate-400">{ENTITY_LABELS[item.entity]}:</span> {item.label}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                    Differs in {item.changedFields.join(', ')}
+                  </div>
+                </div>
+                <select
+                  value={restoreOptions.resolutions?.[item.key] || restoreOptions.defaultResolution}
+                  onChange={(e) => onItemResolutionChange(item.key, e.target.value as ConflictResolution)}
+                  className={selectClassName}
+                >
+                  {RESOLUTION_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import type { CSVFileContents } from '../../services/importService';
+import {
+  TASK_IMPORT_FIELDS,
+  type CSVMappingConfig,
+  type CSVMappingPreset,
+  type DateOrder,
+  type TaskImportField
+} from '../../services/import/csvMapping';
+
+interface CSVColumnMapperProps {
+  csvFile: CSVFileContents;
+  mapping: CSVMappingConfig;
+  presets: CSVMappingPreset[];
+  selectedPresetId: string | null;
+  onColumnChange: (field: TaskImportField, header: string) => void;
+  onDateOrderChange: (dateOrder: DateOrder) => void;
+  onApplyPreset: (presetId: string) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (presetId: string) => void;
+}
+
+const SAMPLE_ROWS = 3;
+
+const selectClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100';
+
+export const CSVColumnMapper: React.FC<CSVColumnMapperProps> = ({
+  csvFile,
+  mapping,
+  presets,
+  selectedPresetId,
+  onColumnChange,
+  onDateOrderChange,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+
+  const sampleValue = (header?: string): string => {
+    if (!header) return '';
+    const index = csvFile.headers.indexOf(header);
+    return csvFile.rows
+      .slice(0, SAMPLE_ROWS)
+      .map(row => row[index])
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300">
+          Map Columns
+        </label>
+        <span className="text-xs text-gray-500 dark:text-slate-400">
+          {csvFile.rows.length} rows • {csvFile.delimiter === '\t' ? 'tab' : `"${csvFile.delimiter}"`} separated • {csvFile.encoding.toUpperCase()}
+        </span>
+      </div>
+
+      {/* Presets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedPresetId || ''}
+          onChange={(e) => e.target.value && onApplyPreset(e.target.value)}
+          className={`${selectClassName} sm:w-auto`}
+        >
+          <option value="">Custom mapping</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}{preset.builtIn ? '' : ' (saved)'}
+            </option>
+          ))}
+        </select>
+        {selectedPreset && !selectedPreset.builtIn && (
+          <button
+            onClick={() => onDeletePreset(selectedPreset.id)}
+            className="text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+          >
+            Delete preset
+          </button>
+        )}
+      </div>
+
+      {/* Field mapping */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {TASK_IMPORT_FIELDS.map(({ field, label, required }) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-gray-600 dark:text-slate-400 mb-1">
+              {label}{required && <span className="text-red-500"> *</span>}
+            </label>
+            <select
+              value={mapping.columns[field] || ''}
+              onChange={(e) => onColumnChange(field, e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">Don't import</option>
+              {csvFile.headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+            {mapping.columns[field] && (
+              <p className="text-xs text-gray-500 dark:text-slate-400 mt-1 truncate">
+                e.g. {sampleValue(mapping.columns[field]) || '(empty)'}
+              </p>
+            )}
+          </div>
+        ))}
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-slate-400 mb-1">
+            Date format
+          </label>
+          <select
+            value={mapping.dateOrder || 'auto'}
+            onChange={(e) => onDateOrderChange(e.target.value as DateOrder)}
+            className={selectClassName}
+          >
+            <option value="auto">Detect automatically</option>
+            <option value="mdy">Month/Day/Year</option>
+            <option value="dmy">Day/Month/Year</option>
+            <option value="ymd">Year/Month/Day</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Save preset */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100"
+        />
+        <button
+          onClick={() => {
+            onSavePreset(presetName.trim());
+            setPresetName('');
+          }}
+          disabled={!presetName.trim()}
+          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-md hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Save mapping
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  getFeedTokens,
+  createFeedToken,
+  updateFeedSettings,
+  rotateFeedToken,
+  revokeFeedToken,
+  getFeedUrl,
+  type CalendarFeedSettings,
+} from "../../services/feedToken";
+import { getClasses, getTaskTypes } from "../../services/dataService";
+import { logger } from "../../utils/logger";
+import type { CalendarFeedToken, Class, TaskType } from "../../types/database";
+
+const toggleId = (ids: string[], id: string): string[] =>
+  ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+
+/**
+ * Manages subscribable calendar feed links: each link has its own filters and
+ * can be rotated (new URL) or revoked without affecting the others
+ */
+export const CalendarSubscriptionSettings: React.FC = () => {
+  const { isAuthenticated, user } = useAuth();
+  const [feeds, setFeeds] = useState<CalendarFeedToken[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [taskTypes, setTaskTypes] = useState<TaskType[]>([]);
+  const [newLabel, setNewLabel] = useState("");
+  const [busyFeedId, setBusyFeedId] = useState<string | null>(null);
+  const [copiedFeedId, setCopiedFeedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reloadFeeds = useCallback(async () => {
+    setFeeds(await getFeedTokens(isAuthenticated));
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const load = async (): Promise<void> => {
+      try {
+        const [loadedFeeds, loadedClasses, loadedTypes] = await Promise.all([
+          getFeedTokens(true),
+          getClasses(user?.id, true),
+          getTaskTypes(user?.id, true),
+        ]);
+        setFeeds(loadedFeeds);
+        setClasses(loadedClasses);
+        setTaskTypes(loadedTypes);
+      } catch (loadError) {
+        logger.warn('Failed to load calendar subscription settings', { error: loadError });
+      }
+    };
+    load();
+  }, [isAuthenticated, user?.id]);
+
+  const runFeedAction = useCallback(async (feedId: string, action: () => Promise<unknown>, failure: string) => {
+    setBusyFeedId(feedId);
+    setError(null);
+    try {
+      await action();
+      await reloadFeeds();
+    } catch (actionError) {
+      logger.error(failure, actionError);
+      setError(failure);
+    } finally {
+      setBusyFeedId(null);
+    }
+  }, [reloadFeeds]);
+
+  const handleCreate = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    runFeedAction('new', async () => {
+      await createFeedToken({ label: newLabel }, isAuthenticated);
+      setNewLabel("");
+    }, "Could not create the calendar link");
+  }, [newLabel, isAuthenticated, runFeedAction]);
+
+  const handleUpdate = useCallback((feed: CalendarFeedToken, settings: CalendarFeedSettings) => {
+    // Update in place so checkboxes respond before the save finishes
+    setFeeds(prev => prev.map(existing => existing.id === feed.id ? { ...existing, ...settings } : existing));
+    runFeedAction(feed.id, () => updateFeedSettings(feed.id, settings, isAuthenticated), "Could not save the feed filters");
+  }, [isAuthenticated, runFeedAction]);
+
+  const handleRotate = useCallback((feed: CalendarFeedToken) => {
+    if (!window.confirm(`Create a new link for "${feed.label}"? Calendars subscribed to the current link will stop updating.`)) return;
+    runFeedAction(feed.id, () => rotateFeedToken(feed.id, isAuthenticated), "Could not rotate the calendar link");
+  }, [isAuthenticated, runFeedAction]);
+
+  const handleRevoke = useCallback((feed: CalendarFeedToken) => {
+    if (!window.confirm(`Revoke "${feed.label}"? Calendars subscribed to it will stop updating.`)) return;
+    runFeedAction(feed.id, () => revokeFeedToken(feed.id, isAuthenticated), "Could not revoke the calendar link");
+  }, [isAuthenticated, runFeedAction]);
+
+  const handleCopy = useCallback(async (feed: CalendarFeedToken) => {
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(feed.token));
+      setCopiedFeedId(feed.id);
+      setTimeout(() => setCopiedFeedId(current => current === feed.id ? null : current), 2000);
+    } catch (copyError) {
+      logger.warn('Failed to copy calendar feed URL', { error: copyError });
+    }
+  }, []);
+
+  const inputClass = "px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md text-sm bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100";
+
+  return (
+    <div className="border-t pt-6 dark:border-slate-600">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-slate-100 mb-1">
+        Calendar Subscription
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">
+        Subscribe to a private link from your phone or calendar app and your tasks stay up to date without re-exporting.
+        Anyone with a link can read its tasks, so rotate or revoke links you no longer trust.
+      </p>
+
+      {!isAuthenticated ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          Sign in to create calendar subscription links. Local-only data can still be exported as a calendar file above.
+        </p>
+      ) : (
+        <>
+          {feeds.length > 0 && (
+            <ul className="space-y-3 mb-4">
+              {feeds.map(feed => (
+                <li key={feed.id} className="p-3 bg-gray-50 dark:bg-slate-800/50 border border-gray-200 dark:border-slate-700/50 rounded-lg space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      defaultValue={feed.label}
+                      onBlur={e => e.target.value !== feed.label && handleUpdate(feed, { label: e.target.value })}
+                      className={`${inputClass} flex-1 min-w-[8rem]`}
+                      aria-label="Calendar name"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleCopy(feed)}
+                      className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md"
+                    >
+                      {copiedFeedId === feed.id ? "Copied!" : "Copy Link"}
+                    </button>
+                    <a
+                      href={getFeedUrl(feed.token, { webcal: true })}
+                      className="px-3 py-2 text-sm bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-300 border border-gray-200 dark:border-slate-600 rounded-md"
+                    >
+                      Open in Calendar
+                    </a>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-gray-700 dark:text-slate-300">
+                    <fieldset>
+                      <legend className="font-medium mb-1">Classes</legend>
+                      <p className="text-xs text-gray-500 dark:text-slate-400 mb-1">None selected includes every class.</p>
+                      {classes.map(cls => (
+                        <label key={cls.id} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={feed.class_ids.includes(cls.id)}
+                            onChange={() => handleUpdate(feed, { class_ids: toggleId(feed.class_ids, cls.id) })}
+                            className="rounded border-gray-300 dark:border-slate-600"
+                          />
+                          <span>{cls.name}</span>
+                        </label>
+                      ))}
+                    </fieldset>
+                    <fieldset>
+                      <legend className="font-medium mb-1">Task types</legend>
+                      <p className="text-xs text-gray-500 dark:text-slate-400 mb-1">None selected includes every type.</p>
+                      {taskTypes.map(type => (
+                        <label key={type.id} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={feed.task_type_ids.includes(type.id)}
+                            onChange={() => handleUpdate(feed, { task_type_ids: toggleId(feed.task_type_ids, type.id) })}
+                            className="rounded border-gray-300 dark:border-slate-600"
+                          />
+                          <span>{type.name}</span>
+                        </label>
+                      ))}
+                    </fieldset>
+                  </div>
+
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={feed.include_completed}
+                        onChange={e => handleUpdate(feed, { include_completed: e.target.checked })}
+                        className="rounded border-gray-300 dark:border-slate-600"
+                      />
+                      <span>Include completed tasks</span>
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleRotate(feed)}
+                        disabled={busyFeedId !== null}
+                        className="px-3 py-1 text-xs text-gray-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 border border-gray-300 dark:border-slate-600 rounded disabled:opacity-50"
+                      >
+                        Rotate Link
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(feed)}
+                        disabled={busyFeedId !== null}
+                        className="px-3 py-1 text-xs text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 rounded disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={e => setNewLabel(e.target.value)}
+              placeholder="Calendar name (e.g. ScheduleBud)"
+              className={`${inputClass} flex-1 min-w-[10rem]`}
+              aria-label="New calendar name"
+            />
+            <button
+              type="submit"
+              disabled={busyFeedId !== null}
+              className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Create Link
+            </button>
+          </form>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -4,11 +4,26 @@ import {
   type ImportOptions,
   type ImportProgress,
   type ImportResult,
-  type ImportPreview 
+  type ImportPreview,
+  type CSVFileContents
 } from '../../services/importService';
+import {
+  getMappingPresets,
+  saveMappingPreset,
+  deleteMappingPreset,
+  matchPreset,
+  suggestMapping,
+  type CSVMappingConfig,
+  type CSVMappingPreset,
+  type DateOrder,
+  type TaskImportField
+} from '../../services/import/csvMapping';
+import type { ConflictResolution, RestoreOptions } from '../../services/import/backupRestore';
+import { CSVColumnMapper } from './CSVColumnMapper';
+import { BackupRestoreDiff } from './BackupRestoreDiff';
 import { logger } from '../../utils/logger';
 
-export type ImportFormat = 'csv' | 'ics';
+export type ImportFormat = 'csv' | 'ics' | 'json';
 
 export interface ImportState {
   isImporting: boolean;
@@ -19,6 +34,13 @@ export interface ImportState {
   selectedFile: File | null;
 }
 
+export interface CSVMappingState {
+  csvFile: CSVFileContents | null;
+  mapping: CSVMappingConfig;
+  presets: CSVMappingPreset[];
+  selectedPresetId: string | null;
+}
+
 export const useImportFunctionality = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -36,13 +58,101 @@ export const useImportFunctionality = () => {
   const [importOptions, setImportOptions] = useState<{
     skipDuplicates: boolean;
     validateData: boolean;
+    skipInvalidRows: boolean;
     conflictResolution: 'skip' | 'overwrite' | 'merge';
   }>({
     skipDuplicates: true,
     validateData: true,
+    skipInvalidRows: false,
     conflictResolution: 'skip'
   });
 
+  const [restoreOptions, setRestoreOptions] = useState<RestoreOptions>({
+    defaultResolution: 'skip',
+    resolutions: {}
+  });
+
+  const handleDefaultResolutionChange = useCallback((defaultResolution: ConflictResolution) => {
+    // A global choice replaces the per-conflict ones
+    setRestoreOptions({ defaultResolution, resolutions: {} });
+  }, []);
+
+  const handleItemResolutionChange = useCallback((key: string, resolution: ConflictResolution) => {
+    setRestoreOptions(prev => ({ ...prev, resolutions: { ...prev.resolutions, [key]: resolution } }));
+  }, []);
+
+  const [csvMappingState, setCsvMappingState] = useState<CSVMappingState>(() => ({
+    csvFile: null,
+    mapping: { columns: {} },
+    presets: getMappingPresets(),
+    selectedPresetId: null
+  }));
+
+  // Reads the CSV columns and picks a preset or guessed mapping for them
+  const loadCSVColumns = useCallback(async (file: File) => {
+    try {
+      const csvFile = await importService.readCSVFile(file);
+      setCsvMappingState(prev => {
+        const preset = matchPreset(csvFile.headers, prev.presets);
+        return {
+          ...prev,
+          csvFile,
+          mapping: preset
+            ? { columns: preset.columns, dateOrder: preset.dateOrder, rowFilter: preset.rowFilter }
+            : { columns: suggestMapping(csvFile.headers) },
+          selectedPresetId: preset?.id || null
+        };
+      });
+    } catch (error) {
+      logger.error('Reading CSV columns failed', error);
+      setCsvMappingState(prev => ({ ...prev, csvFile: null, mapping: { columns: {} }, selectedPresetId: null }));
+      setImportState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Could not read CSV file'
+      }));
+    }
+  }, []);
+
+  // Any mapping change invalidates the preview
+  const updateMapping = useCallback((update: (mapping: CSVMappingConfig) => CSVMappingConfig) => {
+    setCsvMappingState(prev => ({ ...prev, mapping: update(prev.mapping), selectedPresetId: null }));
+    setImportState(prev => ({ ...prev, preview: null, showPreview: false }));
+  }, []);
+
+  const handleColumnChange = useCallback((field: TaskImportField, header: string) => {
+    updateMapping(mapping => ({ ...mapping, columns: { ...mapping.columns, [field]: header || undefined } }));
+  }, [updateMapping]);
+
+  const handleDateOrderChange = useCallback((dateOrder: DateOrder) => {
+    updateMapping(mapping => ({ ...mapping, dateOrder }));
+  }, [updateMapping]);
+
+  const handleApplyPreset = useCallback((presetId: string) => {
+    setCsvMappingState(prev => {
+      const preset = prev.presets.find(entry => entry.id === presetId);
+      if (!preset) return prev;
+      return {
+        ...prev,
+        mapping: { columns: preset.columns, dateOrder: preset.dateOrder, rowFilter: preset.rowFilter },
+        selectedPresetId: preset.id
+      };
+    });
+    setImportState(prev => ({ ...prev, preview: null, showPreview: false }));
+  }, []);
+
+  const handleSavePreset = useCallback((name: string) => {
+    if (!name) return;
+    setCsvMappingState(prev => {
+      const preset = saveMappingPreset(name, prev.mapping);
+      return { ...prev, presets: getMappingPresets(), selectedPresetId: preset.id };
+    });
+  }, []);
+
+  const handleDeletePreset = useCallback((presetId: string) => {
+    deleteMappingPreset(presetId);
+    setCsvMappingState(prev => ({ ...prev, presets: getMappingPresets(), selectedPresetId: null }));
+  }, []);
+
   // Import handlers
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -50,7 +160,9 @@ export const useImportFunctionality = () => {
 
     // Auto-detect format from file extension
     const extension = file.name.split('.').pop()?.toLowerCase();
-    if (extension === 'csv' || extension === 'ics') {
+    setCsvMappingState(prev => ({ ...prev, csvFile: null, selectedPresetId: null }));
+    setRestoreOptions({ defaultResolution: 'skip', resolutions: {} });
+    if (extension === 'csv' || extension === 'ics' || extension === 'json') {
       setImportFormat(extension);
       setImportState(prev => ({
         ...prev,
@@ -59,12 +171,15 @@ export const useImportFunctionality = () => {
         preview: null,
         showPreview: false
       }));
-    } else if (extension === 'zip' || extension === 'json') {
-      // ZIP and JSON files are not supported for import for security reasons
+      if (extension === 'csv') {
+        loadCSVColumns(file);
+      }
+    } else if (extension === 'zip') {
+      // ZIP files are not supported for import for security reasons
       setImportState(prev => ({
         ...prev,
         selectedFile: null,
-        error: 'Only CSV and ICS files are supported for import. JSON and ZIP files are blocked for security reasons.',
+        error: 'Only CSV, ICS and JSON backup files are supported for import. ZIP files are blocked for security reasons.',
         preview: null,
         showPreview: false
       }));
@@ -77,7 +192,7 @@ export const useImportFunctionality = () => {
         showPreview: false
       }));
     }
-  }, []);
+  }, [loadCSVColumns]);
 
   const handlePreviewImport = useCallback(async () => {
     if (!importState.selectedFile) return;
@@ -88,6 +203,8 @@ export const useImportFunctionality = () => {
       const options: ImportOptions = {
         format: importFormat,
         ...importOptions,
+        csvMapping: importFormat === 'csv' ? csvMappingState.mapping : undefined,
+        restore: restoreOptions,
         preview: true
       };
 
@@ -108,7 +225,7 @@ export const useImportFunctionality = () => {
         error: error instanceof Error ? error.message : 'Preview failed'
       }));
     }
-  }, [importState.selectedFile, importFormat, importOptions]);
+  }, [importState.selectedFile, importFormat, importOptions, csvMappingState.mapping, restoreOptions]);
 
   const handleConfirmImport = useCallback(async () => {
     if (!importState.selectedFile) return;
@@ -118,7 +235,9 @@ export const useImportFunctionality = () => {
     try {
       const options: ImportOptions = {
         format: importFormat,
-        ...importOptions
+        ...importOptions,
+        csvMapping: importFormat === 'csv' ? csvMappingState.mapping : undefined,
+        restore: restoreOptions
       };
 
       const onProgress = (progress: ImportProgress) => {
@@ -134,6 +253,9 @@ export const useImportFunctionality = () => {
         case 'ics':
           result = await importService.importCalendarICS(importState.selectedFile, options, onProgress);
           break;
+        case 'json':
+          result = await importService.restoreBackup(importState.selectedFile, options, onProgress);
+          break;
         default:
           throw new Error(`Unsupported import format: ${importFormat}`);
       }
@@ -145,13 +267,14 @@ export const useImportFunctionality = () => {
           progress: {
             step: 'Complete',
             progress: 100,
-            message: `Import completed! ${result.summary.imported.tasks + result.summary.imported.classes} items imported.`
+            message: `Import completed! ${Object.values(result.summary.imported).reduce((sum, count) => sum + count, 0)} items imported.`
           }
         }));
 
         // Clear progress after 3 seconds
         setTimeout(() => {
           setImportState(prev => ({ ...prev, progress: null, selectedFile: null, preview: null }));
+          setCsvMappingState(prev => ({ ...prev, csvFile: null }));
           if (fileInputRef.current) {
             fileInputRef.current.value = '';
           }
@@ -168,7 +291,7 @@ export const useImportFunctionality = () => {
         error: error instanceof Error ? error.message : 'Import failed'
       }));
     }
-  }, [importState.selectedFile, importFormat, importOptions]);
+  }, [importState.selectedFile, importFormat, importOptions, csvMappingState.mapping, restoreOptions]);
 
   return {
     fileInputRef,
@@ -179,7 +302,16 @@ export const useImportFunctionality = () => {
     setImportOptions,
     handleFileSelect,
     handlePreviewImport,
-    handleConfirmImport
+    handleConfirmImport,
+    csvMappingState,
+    handleColumnChange,
+    handleDateOrderChange,
+    handleApplyPreset,
+    handleSavePreset,
+    handleDeletePreset,
+    restoreOptions,
+    handleDefaultResolutionChange,
+    handleItemResolutionChange
   };
 };
 
@@ -193,6 +325,15 @@ interface ImportTabProps {
   handleFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
   handlePreviewImport: () => void;
   handleConfirmImport: () => void;
+  csvMappingState: CSVMappingState;
+  handleColumnChange: (field: TaskImportField, header: string) => void;
+  handleDateOrderChange: (dateOrder: DateOrder) => void;
+  handleApplyPreset: (presetId: string) => void;
+  handleSavePreset: (name: string) => void;
+  handleDeletePreset: (presetId: string) => void;
+  restoreOptions: RestoreOptions;
+  handleDefaultResolutionChange: (resolution: ConflictResolution) => void;
+  handleItemResolutionChange: (key: string, resolution: ConflictResolution) => void;
 }
 
 export const ImportTab: React.FC<ImportTabProps> = ({
@@ -204,8 +345,20 @@ export const ImportTab: React.FC<ImportTabProps> = ({
   setImportOptions,
   handleFileSelect,
   handlePreviewImport,
-  handleConfirmImport
+  handleConfirmImport,
+  csvMappingState,
+  handleColumnChange,
+  handleDateOrderChange,
+  handleApplyPreset,
+  handleSavePreset,
+  handleDeletePreset,
+  restoreOptions,
+  handleDefaultResolutionChange,
+  handleItemResolutionChange
 }) => {
+  const previewRows = importState.preview?.rows?.filter(row => !row.filtered) || [];
+
+
   return (
     <div className="space-y-6">
       {/* File Selection */}
@@ -217,7 +370,7 @@ export const ImportTab: React.FC<ImportTabProps> = ({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv,.ics"
+            accept=".csv,.ics,.json"
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -251,13 +404,28 @@ export const ImportTab: React.FC<ImportTabProps> = ({
                 Choose File
               </button>
               <div className="text-xs text-gray-500 dark:text-slate-400">
-                Supported: CSV, ICS files only (JSON/ZIP blocked for security)
+                Supported: CSV, ICS and JSON backup files (ZIP blocked for security)
               </div>
             </div>
           )}
         </div>
       </div>
 
+      {/* Column Mapping */}
+      {importState.selectedFile && importFormat === 'csv' && csvMappingState.csvFile && (
+        <CSVColumnMapper
+          csvFile={csvMappingState.csvFile}
+          mapping={csvMappingState.mapping}
+          presets={csvMappingState.presets}
+          selectedPresetId={csvMappingState.selectedPresetId}
+          onColumnChange={handleColumnChange}
+          onDateOrderChange={handleDateOrderChange}
+          onApplyPreset={handleApplyPreset}
+          onSavePreset={handleSavePreset}
+          onDeletePreset={handleDeletePreset}
+        />
+      )}
+
       {/* Import Options */}
       {importState.selectedFile && (
         <div className="space-y-4">
@@ -285,29 +453,44 @@ export const ImportTab: React.FC<ImportTabProps> = ({
                 />
                 <span className="text-sm text-gray-700 dark:text-slate-300">Validate data before import</span>
               </label>
+
+              {importFormat === 'csv' && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={importOptions.skipInvalidRows}
+                    onChange={(e) => setImportOptions((prev: typeof importOptions) => ({ ...prev, skipInvalidRows: e.target.checked }))}
+                    className="rounded border-gray-300 dark:border-slate-600"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-slate-300">Skip rows with errors</span>
+                </label>
+              )}
             </div>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
-              Conflict Resolution
-            </label>
-            <select
-              value={importOptions.conflictResolution}
-              onChange={(e) => {
-                const value = e.target.value as 'skip' | 'overwrite' | 'merge';
-                setImportOptions((prev: any) => ({ 
-                  ...prev, 
-                  conflictResolution: value
-                }));
-              }}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100"
-            >
-              <option value="skip">Skip conflicting items</option>
-              <option value="overwrite">Overwrite existing items</option>
-              <option value="merge">Merge with existing items</option>
-            </select>
-          </div>
+          {/* Backup conflicts are resolved in the preview instead */}
+          {importFormat !== 'json' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
+                Conflict Resolution
+              </label>
+              <select
+                value={importOptions.conflictResolution}
+                onChange={(e) => {
+                  const value = e.target.value as 'skip' | 'overwrite' | 'merge';
+                  setImportOptions((prev: any) => ({ 
+                    ...prev, 
+                    conflictResolution: value
+                  }));
+                }}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100"
+              >
+                <option value="skip">Skip conflicting items</option>
+                <option value="overwrite">Overwrite existing items</option>
+                <option value="merge">Merge with existing items</option>
+              </select>
+            </div>
+          )}
         </div>
       )}
 
@@ -371,7 +554,7 @@ export const ImportTab: React.FC<ImportTabProps> = ({
               <div className="text-sm font-medium text-yellow-900 dark:text-yellow-100 mb-1">Warnings:</div>
               <ul className="text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
                 {importState.preview.validation.warnings.slice(0, 3).map((warning, index) => (
-                  <li key={index}>• {warning.message}</li>
+                  <li key={index}>• {warning.item}: {warning.message}</li>
                 ))}
                 {importState.preview.validation.warnings.length > 3 && (
                   <li className="text-yellow-600 dark:text-yellow-400">
@@ -382,12 +565,58 @@ export const ImportTab: React.FC<ImportTabProps> = ({
             </div>
           )}
 
+          {importState.preview.backupDiff && (
+            <div className="mb-3">
+              <BackupRestoreDiff
+                diff={importState.preview.backupDiff}
+                restoreOptions={restoreOptions}
+                onDefaultResolutionChange={handleDefaultResolutionChange}
+                onItemResolutionChange={handleItemResolutionChange}
+              />
+            </div>
+          )}
+
+          {previewRows.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-slate-600 rounded-lg mb-3">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Row</th>
+                    <th className="px-3 py-2 text-left font-medium">Title</th>
+                    <th className="px-3 py-2 text-left font-medium">Due</th>
+                    <th className="px-3 py-2 text-left font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map(row => (
+                    <tr key={row.rowNumber} className="border-t border-gray-200 dark:border-slate-600 text-gray-800 dark:text-slate-200">
+                      <td className="px-3 py-1.5 text-gray-500 dark:text-slate-400">{row.rowNumber}</td>
+                      <td className="px-3 py-1.5">{row.task?.title}</td>
+                      <td className="px-3 py-1.5 whitespace-nowrap">
+                        {row.task?.dueDate}{row.task?.dueTime ? ` ${row.task.dueTime}` : ''}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600 dark:text-red-400">{row.errors.map(error => error.message).join('; ')}</span>
+                        ) : row.warnings.length > 0 ? (
+                          <span className="text-yellow-700 dark:text-yellow-300">{row.warnings.map(warning => warning.message).join('; ')}</span>
+                        ) : (
+                          <span className="text-green-600 dark:text-green-400">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {!importState.preview.valid && (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
               <div className="text-sm font-medium text-red-900 dark:text-red-100 mb-1">Errors:</div>
               <ul className="text-sm text-red-800 dark:text-red-200 space-y-1">
                 {importState.preview.validation.errors.slice(0, 3).map((error, index) => (
-                  <li key={index}>• {error.message}</li>
+                  <li key={index}>• {error.item}: {error.message}</li>
                 ))}
                 {importState.preview.validation.errors.length > 3 && (
                   <li className="text-red-600 dark:text-red-400">
@@ -1,5 +1,8 @@
 // Barrel export for clean imports
 export { useExportFunctionality, ExportTab } from './ExportFunctionality';
 export { useImportFunctionality, ImportTab } from './ImportFunctionality';
+export { CalendarSubscriptionSettings } from './CalendarSubscriptionSettings';
+export { CSVColumnMapper } from './CSVColumnMapper';
+export { BackupRestoreDiff } from './BackupRestoreDiff';
 export type { ExportFormat, ExportState } from './ExportFunctionality';
-export type { ImportFormat, ImportState } from './ImportFunctionality';
\ No newline at end of file
+export type { ImportFormat, ImportState, CSVMappingState } from './ImportFunctionality';
\ No newline at end of file
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import {
+  groupNotifications,
+  notificationInboxService,
+  type NotificationGroup,
+} from '../../services/notifications';
+import type { AppNotification, AppNotificationKind } from '../../types/database';
+import { openDeepLink } from '../../utils/deepLinks';
+
+interface NotificationBellProps {
+  // Where the dropdown opens: below and to the left in the calendar header,
+  // above and to the right at the bottom of the sidebar
+  placement: 'header' | 'sidebar';
+}
+
+const KIND_ICONS: Record<AppNotificationKind, string> = {
+  reminder: '⏰',
+  deadline: '🔥',
+  new_assignment: '📥',
+  sync_failed: '⚠️',
+  study_session: '📚',
+};
+
+const formatAge = (createdAt: string, now: Date): string => {
+  const minutes = Math.floor((now.getTime() - Date.parse(createdAt)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(createdAt).toLocaleDateString();
+};
+
+/**
+ * Bell with the unread count that opens the notification inbox. Clicking a
+ * notification marks it read and opens its task or class.
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({ placement }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>(() => notificationInboxService.getNotifications());
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+  useEffect(() => notificationInboxService.subscribe(setNotifications), []);
+
+  useEffect(() => {
+    if (!isOpen) return undefined;
+    const handleEscapeKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => document.removeEventListener('keydown', handleEscapeKey);
+  }, [isOpen]);
+
+  const now = new Date();
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+  const sections = groupNotifications(notifications, now);
+
+  const handleOpen = (notification: AppNotification): void => {
+    notificationInboxService.markRead([notification.id]);
+    if (notification.task_id) {
+      openDeepLink({ type: 'task', id: notification.task_id });
+    } else if (notification.class_id) {
+      openDeepLink({ type: 'class', id: notification.class_id });
+    }
+    setIsOpen(false);
+  };
+
+  const toggleGroup = (key: string): void => {
+    setExpandedGroups(previous => {
+      const next = new Set(previous);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const renderNotification = (notification: AppNotification, extra?: React.ReactNode) => (
+    <button
+      type="button"
+      onClick={() => handleOpen(notification)}
+      className={`w-full text-left p-2 rounded-lg flex gap-2 hover:bg-gray-100 dark:hover:bg-slate-700/50 transition-colors duration-200 ${notification.read_at ? 'opacity-70' : ''}`}
+    >
+      <span className="flex-shrink-0 text-sm" aria-hidden="true">{KIND_ICONS[notification.kind]}</span>
+      <span className="flex-1 min-w-0">
+        <span className="flex items-center gap-1">
+          {!notification.read_at && <span className="w-2 h-2 rounded-full bg-blue-500 flex-shrink-0" aria-label="Unread" />}
+          <span className="text-sm font-medium text-gray-800 dark:text-slate-100 truncate">{notification.title}</span>
+        </span>
+        <span className="block text-xs text-gray-600 dark:text-slate-400 whitespace-pre-line line-clamp-3">{notification.body}</span>
+        <span className="block text-[11px] text-gray-400 dark:text-slate-500 mt-0.5">
+          {formatAge(notification.created_at, now)}
+          {extra}
+        </span>
+      </span>
+    </button>
+  );
+
+  const renderGroup = (group: NotificationGroup) => {
+    const isExpanded = expandedGroups.has(group.key);
+    const others = group.notifications.length - 1;
+
+    return (
+      <li key={group.key}>
+        {renderNotification(group.latest, others > 0 && ` · ${others} more`)}
+        {others > 0 && (
+          <div className="pl-8">
+            <button
+              type="button"
+              onClick={() => toggleGroup(group.key)}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? 'Show less' : `Show ${others} more`}
+            </button>
+            {isExpanded && (
+              <ul>
+                {group.notifications.slice(1).map(notification => (
+                  <li key={notification.id}>{renderNotification(notification)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const dropdownPosition = placement === 'header'
+    ? 'top-full right-0 mt-2'
+    : 'bottom-full left-0 mb-2';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700/50 transition-colors duration-200 min-h-[40px] min-w-[40px] touch-manipulation"
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="w-5 h-5 text-gray-600 dark:text-slate-400 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-4 text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-[9998]" onClick={() => setIsOpen(false)} aria-hidden="true" />
+          <div
+            className={`absolute ${dropdownPosition} z-[9999] w-80 max-h-[28rem] flex flex-col bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg shadow-2xl dark:shadow-slate-900/60`}
+            role="dialog"
+            aria-label="Notifications"
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-slate-700">
+              <span className="text-sm font-semibold text-gray-800 dark:text-slate-100">Notifications</span>
+              {unreadCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => notificationInboxService.markAllRead()}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+            <div className="overflow-y-auto p-2">
+              {sections.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">You're all caught up</p>
+              ) : (
+                sections.map(section => (
+                  <div key={section.label} className="mb-2">
+                    <h3 className="px-2 text-[11px] font-semibold uppercase tracking-wide text-gray-400 dark:text-slate-500">
+                      {section.label}
+                    </h3>
+                    <ul>{section.groups.map(renderGroup)}</ul>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  getSyncConflicts,
+  subscribeToSyncConflicts,
+  resolveSyncConflict,
+  dismissSyncConflict,
+  getSyncTableConfig,
+  type SyncConflict,
+} from '../../services/sync';
+
+interface SyncConflictListProps {
+  isSidebarCollapsed: boolean;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return 'whole record';
+  return String(value);
+};
+
+const describeConflict = (conflict: SyncConflict): string => {
+  const label = getSyncTableConfig(conflict.table).label;
+  if (conflict.field) {
+    return `${label} "${conflict.recordTitle}": ${conflict.field} changed on both devices`;
+  }
+  return conflict.localValue === null
+    ? `${label} "${conflict.recordTitle}" was deleted here but edited elsewhere`
+    : `${label} "${conflict.recordTitle}" was edited here but deleted elsewhere`;
+};
+
+/**
+ * Lists the conflicts the last syncs settled automatically, so the user can
+ * keep the other side's version instead
+ */
+const SyncConflictList: React.FC<SyncConflictListProps> = ({ isSidebarCollapsed }) => {
+  const { triggerSync } = useAuth();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(getSyncConflicts);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => subscribeToSyncConflicts(setConflicts), []);
+
+  if (conflicts.length === 0 || isSidebarCollapsed) {
+    return null;
+  }
+
+  const handleResolve = async (conflict: SyncConflict, keep: 'local' | 'server'): Promise<void> => {
+    resolveSyncConflict(conflict.id, keep);
+    if (keep !== conflict.applied) {
+      await triggerSync();
+    }
+  };
+
+  return (
+    <div className="px-2 mb-3 flex-shrink-0">
+      <div className="rounded-xl border border-amber-200 dark:border-amber-800/50 bg-amber-50 dark:bg-amber-900/20 p-2">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-between text-sm font-semibold text-amber-800 dark:text-amber-300"
+          aria-expanded={isExpanded}
+        >
+          <span>⚠️ {conflicts.length} sync {conflicts.length === 1 ? 'conflict' : 'conflicts'}</span>
+          <span className="text-xs">{isExpanded ? 'Hide' : 'Review'}</span>
+        </button>
+
+        {isExpanded && (
+          <ul className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="rounded-lg bg-white dark:bg-slate-800 p-2 text-xs text-gray-700 dark:text-slate-300">
+                <p className="font-medium">{describeConflict(conflict)}</p>
+                {conflict.field && (
+                  <p className="mt-1 text-gray-500 dark:text-slate-400">
+                    Yours: {formatValue(conflict.localValue)} · Server: {formatValue(conflict.serverValue)}
+                  </p>
+                )}
+                <p className="mt-1 text-gray-500 dark:text-slate-400">
+                  Kept the {conflict.applied === 'local' ? 'version from this device' : 'server version'}
+                </p>
+                <div className="mt-2 flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(conflict, 'local')}
+                    className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+                  >
+                    Keep mine
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(conflict, 'server')}
+                    className="px-2 py-1 rounded bg-gray-200 dark:bg-slate-700 hover:bg-gray-300 dark:hover:bg-slate-600"
+                  >
+                    Keep server
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => dismissSyncConflict(conflict.id)}
+                    className="ml-auto px-2 py-1 rounded text-gray-500 hover:text-gray-700 dark:hover:text-slate-200"
+                    aria-label="Dismiss conflict"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictList;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { ClassWithRelations, StudyConcept } from '../../types/database';
+import { REVIEW_RATINGS, getConceptRecall, type NewConcept, type ReviewRating } from '../../services/retention';
+import { formatDateForInput } from '../../utils/dateHelpers';
+
+interface ConceptReviewPanelProps {
+  concepts: StudyConcept[];
+  classes: ClassWithRelations[];
+  onAdd: (concepts: NewConcept[]) => void;
+  onReview: (concept: StudyConcept, rating: ReviewRating) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * The concepts being reviewed: add one by hand, review due ones right away,
+ * or remove ones no longer needed
+ */
+const ConceptReviewPanel: React.FC<ConceptReviewPanelProps> = ({
+  concepts,
+  classes,
+  onAdd,
+  onReview,
+  onDelete
+}) => {
+  const [name, setName] = useState('');
+  const [classId, setClassId] = useState('');
+  const today = formatDateForInput(new Date());
+
+  const getClassName = (id?: string | null) => {
+    return classes.find(c => c.id === id)?.name || 'No class';
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onAdd([{ name, classId: classId || null, source: 'manual' }]);
+    setName('');
+  };
+
+  const sortedConcepts = [...concepts].sort((a, b) => a.due.localeCompare(b.due) || a.name.localeCompare(b.name));
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-md font-semibold text-gray-900 mb-4">Concepts</h4>
+
+      <form onSubmit={handleAdd} className="flex space-x-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Add a concept to review..."
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+        />
+        <select
+          value={classId}
+          onChange={(e) => setClassId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">No class</option>
+          {classes.map(c => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+        >
+          Add
+        </button>
+      </form>
+
+      {sortedConcepts.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No concepts yet. Add them here, or upload a syllabus to pick them up from its course schedule.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {sortedConcepts.map(concept => {
+            const recall = getConceptRecall(concept);
+            const isDue = concept.due <= today;
+            return (
+              <div key={concept.id} className="flex items-center justify-between p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">{concept.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {getClassName(concept.class_id)} ·{' '}
+                    {concept.reps === 0 ? 'Not studied yet' : `${Math.round((recall ?? 0) * 100)}% recall`} ·{' '}
+                    {isDue ? <span className="text-orange-600">Due now</span> : `Next review ${concept.due}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                  {isDue && REVIEW_RATINGS.map(({ rating, label }) => (
+                    <button
+                      key={rating}
+                      onClick={() => onReview(concept, rating)}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-purple-100 hover:text-purple-700 transition-colors"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => onDelete(concept.id)}
+                    className="px-2 py-1 text-xs text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${concept.name}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConceptReviewPanel;
@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { User } from '@supabase/supabase-js';
+import type { ExamPrepPhase, StudySession } from '../../types/studySchedule';
+import type { ClassWithRelations, Task } from '../../types/database';
+import {
+  CONFIDENCE_LEVELS,
+  examPrepService,
+  getExamReadiness,
+  recordReadiness,
+  type ExamPrepPlan,
+  type ExamTopic,
+  type TopicConfidence
+} from '../../services/examPrep';
+import { StudyScheduleService } from '../../services/studyScheduleService';
+import { useStudyConcepts } from '../../hooks/useStudyConcepts';
+import { getTaskDeadline } from '../../utils/scheduleSolver';
+import { formatDateForInput } from '../../utils/dateHelpers';
+import { logger } from '../../utils/logger';
+
+interface ExamPrepPlannerProps {
+  user: User;
+  exam: Task;
+  classes: ClassWithRelations[];
+  useSupabase?: boolean;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<ExamPrepPhase, string> = {
+  review: 'Review',
+  practice: 'Practice',
+  mock_exam: 'Mock exam'
+};
+
+const PHASE_STYLES: Record<ExamPrepPhase, string> = {
+  review: 'bg-blue-100 text-blue-700',
+  practice: 'bg-purple-100 text-purple-700',
+  mock_exam: 'bg-red-100 text-red-700'
+};
+
+const DEFAULT_CONFIDENCE: TopicConfidence = 3;
+
+const getLocalNow = (): string => {
+  const now = new Date();
+  return `${formatDateForInput(now)}T${now.toTimeString().slice(0, 5)}`;
+};
+
+/**
+ * An exam's prep plan: the topics it covers and how confident the student
+ * is in each, the review, practice and mock-exam sessions planned from them,
+ * and how ready they are
+ */
+const ExamPrepPlanner: React.FC<ExamPrepPlannerProps> = ({
+  user,
+  exam,
+  classes,
+  useSupabase = false,
+  onClose
+}) => {
+  const [plan, setPlan] = useState<ExamPrepPlan | null>(() => examPrepService.getPlan(exam.id));
+  const [topicName, setTopicName] = useState('');
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { concepts } = useStudyConcepts(user.id);
+
+  useEffect(() => {
+    setPlan(examPrepService.getPlan(exam.id));
+    return examPrepService.subscribe(() => setPlan(examPrepService.getPlan(exam.id)));
+  }, [exam.id]);
+
+  const examDate = (getTaskDeadline(exam) || '').slice(0, 10);
+  const className = classes.find(c => c.id === exam.class)?.name || 'No class';
+  const topics = plan?.topics || [];
+
+  const readiness = useMemo(
+    () => (plan ? getExamReadiness(plan, examDate, concepts, getLocalNow()) : null),
+    [plan, examDate, concepts]
+  );
+
+  // Course topics of the exam's class that aren't on the list yet
+  const suggestedConcepts = useMemo(() => concepts.filter(concept =>
+    concept.class_id === exam.class &&
+    !topics.some(topic => topic.conceptId === concept.id || topic.name.toLowerCase() === concept.name.toLowerCase())
+  ), [concepts, exam.class, topics]);
+
+  const savePlan = useCallback((changes: Partial<ExamPrepPlan>) => {
+    const now = new Date().toISOString();
+    const updated: ExamPrepPlan = {
+      exam_task_id: exam.id,
+      user_id: user.id,
+      class_id: exam.class || 'unassigned',
+      topics: [],
+      sessions: [],
+      unmet: [],
+      readiness_history: [],
+      created_at: now,
+      updated_at: now,
+      ...plan,
+      ...changes
+    };
+    const score = getExamReadiness(updated, examDate, concepts, getLocalNow()).score;
+    examPrepService.savePlan({
+      ...updated,
+      readiness_history: recordReadiness(updated.readiness_history, formatDateForInput(new Date()), score)
+    });
+  }, [plan, exam.id, exam.class, user.id, examDate, concepts]);
+
+  const addTopic = (topic: ExamTopic) => savePlan({ topics: [...topics, topic] });
+
+  const handleAddTopic = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!topicName.trim()) return;
+    addTopic({ name: topicName.trim(), confidence: DEFAULT_CONFIDENCE });
+    setTopicName('');
+  };
+
+  const setConfidence = (index: number, confidence: TopicConfidence) =>
+    savePlan({ topics: topics.map((topic, i) => (i === index ? { ...topic, confidence } : topic)) });
+
+  const removeTopic = (index: number) => savePlan({ topics: topics.filter((_, i) => i !== index) });
+
+  const handleBuildPlan = async () => {
+    try {
+      setIsPlanning(true);
+      setError(null);
+      const existing = plan?.sessions || [];
+      const { sessions, unmet } = await StudyScheduleService.planExamPrep(
+        user,
+        exam,
+        topics,
+        undefined,
+        existing,
+        useSupabase
+      );
+      // Sessions already done or gone by stay in the plan
+      const localNow = getLocalNow();
+      const past = existing.filter(session =>
+        session.status === 'completed' || `${session.date}T${session.end_time}` <= localNow
+      );
+      savePlan({ sessions: [...past, ...sessions], unmet });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan exam prep');
+      logger.error('[ExamPrepPlanner] Error planning exam prep', err);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleDeletePlan = () => {
+    examPrepService.deletePlan(exam.id);
+  };
+
+  const sessionsByDate = useMemo(() => {
+    const groups = new Map<string, StudySession[]>();
+    (plan?.sessions || []).forEach(session => {
+      groups.set(session.date, [...(groups.get(session.date) || []), session]);
+    });
+    return Array.from(groups.entries());
+  }, [plan]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Exam prep: {exam.title}</h2>
+            <p className="text-sm text-gray-500">
+              {className} · {examDate || 'No date'}
+              {readiness && ` · ${readiness.daysLeft} day${readiness.daysLeft !== 1 ? 's' : ''} to go`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close exam prep"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Readiness */}
+          {readiness && topics.length > 0 && (
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm text-gray-600">Readiness</div>
+                  <div className="text-3xl font-bold text-gray-900">{readiness.score}%</div>
+                </div>
+                <span className={`px-2 py-1 text-xs rounded-full ${
+                  readiness.onTrack ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                }`}>
+                  {readiness.onTrack ? 'On track' : 'Falling behind'}
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-4 mt-4 text-sm">
+                <div>
+                  <div className="text-gray-500">Confidence</div>
+                  <div className="font-medium text-gray-900">{readiness.confidence}%</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Prep done</div>
+                  <div className="font-medium text-gray-900">
+                    {readiness.progress}% <span className="text-gray-500 font-normal">of {readiness.expectedProgress}% due</span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Recall</div>
+                  <div className="font-medium text-gray-900">{readiness.recall === null ? '—' : `${readiness.recall}%`}</div>
+                </div>
+              </div>
+              {readiness.weakTopics.length > 0 && (
+                <p className="mt-3 text-xs text-orange-700">Still shaky: {readiness.weakTopics.join(', ')}</p>
+              )}
+              {plan && plan.readiness_history.length > 1 && (
+                <div className="mt-3 flex items-end space-x-1 h-10" aria-label="Readiness over time">
+                  {plan.readiness_history.map(point => (
+                    <div
+                      key={point.date}
+                      className="flex-1 bg-blue-300 rounded-t"
+                      style={{ height: `${Math.max(4, point.readiness)}%` }}
+                      title={`${point.date}: ${point.readiness}%`}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Topics */}
+          <div>
+            <h3 className="text-md font-semibold text-gray-900 mb-3">Topics covered</h3>
+            <form onSubmit={handleAddTopic} className="flex space-x-2 mb-3">
+              <input
+                type="text"
+                value={topicName}
+                onChange={(e) => setTopicName(e.target.value)}
+                placeholder="Add a topic the exam covers..."
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!topicName.trim()}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Add
+              </button>
+            </form>
+
+            {suggestedConcepts.length > 0 && (
+              <div className="mb-3">
+                <div className="text-xs text-gray-500 mb-1">From your course topics:</div>
+                <div className="flex flex-wrap gap-1">
+                  {suggestedConcepts.map(concept => (
+                    <button
+                      key={concept.id}
+                      onClick={() => addTopic({ name: concept.name, conceptId: concept.id, confidence: DEFAULT_CONFIDENCE })}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full hover:bg-blue-100 hover:text-blue-700 transition-colors"
+                    >
+                      + {concept.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {topics.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Add the topics this exam covers and rate how confident you feel about each.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {topics.map((topic, index) => (
+                  <div key={`${topic.name}-${index}`} className="flex items-center justify-between p-3">
+                    <span className="text-sm font-medium text-gray-900 truncate">{topic.name}</span>
+                    <div className="flex items-center space-x-1 ml-2">
+                      {CONFIDENCE_LEVELS.map(({ confidence, label }) => (
+                        <button
+                          key={confidence}
+                          onClick={() => setConfidence(index, confidence)}
+                          className={`px-2 py-1 text-xs rounded transition-colors ${
+                            topic.confidence === confidence
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-100 text-gray-700 hover:bg-blue-100 hover:text-blue-700'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => removeTopic(index)}
+                        className="px-2 py-1 text-xs text-gray-400 hover:text-red-600"
+                        aria-label={`Remove ${topic.name}`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Planned sessions */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-md font-semibold text-gray-900">Prep sessions</h3>
+              <div className="flex items-center space-x-2">
+                {plan && (
+                  <button
+                    onClick={handleDeletePlan}
+                    className="px-3 py-2 text-sm text-gray-600 hover:text-red-600"
+                  >
+                    Delete plan
+                  </button>
+                )}
+                <button
+                  onClick={handleBuildPlan}
+                  disabled={topics.length === 0 || isPlanning}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {isPlanning ? 'Planning...' : plan?.sessions.length ? 'Update plan' : 'Plan my prep'}
+                </button>
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+            {plan && plan.unmet.length > 0 && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-3">
+                <p className="text-sm font-medium text-orange-800">Some prep time couldn't be fitted in before the exam</p>
+                <ul className="mt-1 space-y-1 text-xs text-orange-700">
+                  {plan.unmet.map(constraint => (
+                    <li key={constraint.demandId}>{constraint.reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {sessionsByDate.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Your prep is planned back from the exam date: reviews first, then practice, then a mock exam.
+                The sessions are added to your study schedule.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {sessionsByDate.map(([date, sessions]) => (
+                  <div key={date}>
+                    <div className="text-xs font-medium text-gray-500 mb-1">{date}</div>
+                    <ul className="space-y-1">
+                      {sessions.map(session => (
+                        <li key={session.id} className="flex items-center text-sm text-gray-700">
+                          <span className="w-24 text-xs text-gray-500">{session.start_time}–{session.end_time}</span>
+                          {session.prep_phase && (
+                            <span className={`mr-2 px-1.5 rounded text-xs ${PHASE_STYLES[session.prep_phase]}`}>
+                              {PHASE_LABELS[session.prep_phase]}
+                            </span>
+                          )}
+                          <span className={session.status === 'completed' ? 'line-through text-gray-400' : ''}>
+                            {session.focus_area}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamPrepPlanner;
@@ -1,111 +1,191 @@
-import React, { useState, useEffect } from 'react';
-import type { ClassWithRelations } from '../../types/database';
+import React, { useMemo, useState } from 'react';
+import type { ClassWithRelations, ConceptReview, StudyConcept } from '../../types/database';
+import type { ForgettingCurvePoint } from '../../types/studySchedule';
+import {
+  getConceptRecall,
+  getObservedForgettingCurve,
+  getPredictedForgettingCurve,
+  getRetentionTimeline,
+  isRecalled,
+  summarizeClassRetention,
+  type NewConcept,
+  type RetentionDay,
+  type RetentionTrend,
+  type ReviewRating
+} from '../../services/retention';
+import { formatDateForInput } from '../../utils/dateHelpers';
+import { shiftDateString } from '../../utils/recurringTaskHelpers';
+import ConceptReviewPanel from './ConceptReviewPanel';
 
 interface RetentionAnalyticsProps {
-  userId: string;
   timeRange: '1week' | '1month' | '3months' | 'semester';
   classes: ClassWithRelations[];
+  concepts: StudyConcept[];
+  reviews: ConceptReview[];
+  isLoading: boolean;
+  onAddConcepts: (concepts: NewConcept[]) => void;
+  onReviewConcept: (concept: StudyConcept, rating: ReviewRating) => void;
+  onDeleteConcept: (id: string) => void;
 }
 
-// Mock data interfaces for analytics
-interface RetentionMetric {
-  date: string;
-  retentionRate: number;
-  studyHours: number;
-  completedSessions: number;
-}
+type ChartMetric = 'curve' | 'recall' | 'reviews';
 
-interface ClassPerformance {
-  classId: string;
-  className: string;
-  averageRetention: number;
-  studyEfficiency: number;
-  strugglingConcepts: string[];
-  improvementTrend: 'up' | 'down' | 'stable';
-}
+const METRIC_LABELS: Record<ChartMetric, string> = {
+  curve: 'Forgetting curve',
+  recall: 'Recall',
+  reviews: 'Reviews'
+};
+
+const RANGE_DAYS: Record<RetentionAnalyticsProps['timeRange'], number> = {
+  '1week': 7,
+  '1month': 30,
+  '3months': 90,
+  semester: 120
+};
+
+// Days shown on the forgetting curve
+const CURVE_DAYS = 30;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
 
+// Predicted curve as a line, observed recall as dots
+const ForgettingCurveChart: React.FC<{ predicted: ForgettingCurvePoint[]; observed: ForgettingCurvePoint[] }> = ({
+  predicted,
+  observed
+}) => {
+  const x = (days: number) => (Math.min(days, CURVE_DAYS) / CURVE_DAYS) * CHART_WIDTH;
+  const y = (percentage: number) => CHART_HEIGHT - (percentage / 100) * CHART_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+      {[25, 50, 75].map(level => (
+        <line key={level} x1={0} x2={CHART_WIDTH} y1={y(level)} y2={y(level)} stroke="#e5e7eb" strokeDasharray="4 4" />
+      ))}
+      {predicted.length > 0 && (
+        <polyline
+          fill="none"
+          stroke="#8b5cf6"
+          strokeWidth={2}
+          points={predicted.map(point => `${x(point.days_since_learning)},${y(point.retention_percentage)}`).join(' ')}
+        />
+      )}
+      {observed.map(point => (
+        <circle
+          key={point.days_since_learning}
+          cx={x(point.days_since_learning)}
+          cy={y(point.retention_percentage)}
+          r={5}
+          fill="#2563eb"
+        >
+          <title>{`${point.retention_percentage}% recalled after ${point.days_since_learning} days`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+// One bar per day: the recall rate, or the number of reviews
+const TimelineChart: React.FC<{ days: RetentionDay[]; metric: 'recall' | 'reviews' }> = ({ days, metric }) => {
+  const maxReviews = Math.max(1, ...days.map(day => day.reviews));
+  const barWidth = CHART_WIDTH / days.length;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+      {days.map((day, index) => {
+        const value = metric === 'recall' ? day.recallRate : day.reviews / maxReviews;
+        if (!value) return null;
+        const height = value * CHART_HEIGHT;
+        return (
+          <rect
+            key={day.date}
+            x={index * barWidth + barWidth * 0.15}
+            y={CHART_HEIGHT - height}
+            width={barWidth * 0.7}
+            height={height}
+            fill={metric === 'recall' ? '#3b82f6' : '#10b981'}
+          >
+            <title>
+              {metric === 'recall'
+                ? `${day.date}: ${day.recalled} of ${day.reviews} recalled`
+                : `${day.date}: ${day.reviews} review${day.reviews !== 1 ? 's' : ''}`}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Retention from the spaced-repetition review history: the forgetting curve
+ * as observed and as predicted, recall over time, and how each class holds up
+ */
 const RetentionAnalytics: React.FC<RetentionAnalyticsProps> = ({
-  userId,
   timeRange,
-  classes
+  classes,
+  concepts,
+  reviews,
+  isLoading,
+  onAddConcepts,
+  onReviewConcept,
+  onDeleteConcept
 }) => {
-  const [retentionData, setRetentionData] = useState<RetentionMetric[]>([]);
-  const [classPerformances, setClassPerformances] = useState<ClassPerformance[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [selectedMetric, setSelectedMetric] = useState<'retention' | 'efficiency' | 'progress'>('retention');
-  
-  // Mock data generation (in real app, this would be API calls)
-  useEffect(() => {
-    const generateMockData = () => {
-      setIsLoading(true);
-      
-      // Generate retention metrics over time
-      const days = timeRange === '1week' ? 7 : timeRange === '1month' ? 30 : timeRange === '3months' ? 90 : 120;
-      const mockRetentionData: RetentionMetric[] = [];
-      
-      for (let i = 0; i < days; i++) {
-        const date = new Date();
-        date.setDate(date.getDate() - (days - i - 1));
-        
-        mockRetentionData.push({
-          date: date.toISOString().split('T')[0],
-          retentionRate: Math.max(0.3, Math.min(0.95, 0.7 + Math.sin(i * 0.1) * 0.2 + (Math.random() - 0.5) * 0.1)),
-          studyHours: Math.max(0, 3 + Math.sin(i * 0.2) * 1.5 + (Math.random() - 0.5) * 0.5),
-          completedSessions: Math.floor(Math.random() * 5) + 1
-        });
-      }
-      
-      // Generate class performance data
-      const mockClassPerformances: ClassPerformance[] = classes.slice(0, 6).map(cls => ({
-        classId: cls.id,
-        className: cls.name,
-        averageRetention: Math.max(0.4, Math.min(0.9, 0.6 + Math.random() * 0.3)),
-        studyEfficiency: Math.max(0.3, Math.min(0.95, 0.65 + Math.random() * 0.25)),
-        strugglingConcepts: [
-          'Complex equations',
-          'Abstract concepts',
-          'Problem solving'
-        ].slice(0, Math.floor(Math.random() * 3) + 1),
-        improvementTrend: (['up', 'down', 'stable'] as const)[Math.floor(Math.random() * 3)]
-      }));
-      
-      setTimeout(() => {
-        setRetentionData(mockRetentionData);
-        setClassPerformances(mockClassPerformances);
-        setIsLoading(false);
-      }, 1000);
+  const [selectedMetric, setSelectedMetric] = useState<ChartMetric>('curve');
+
+  const today = formatDateForInput(new Date());
+  const startDate = shiftDateString(today, -(RANGE_DAYS[timeRange] - 1));
+
+  const analytics = useMemo(() => {
+    const rangeReviews = reviews.filter(review => formatDateForInput(new Date(review.reviewed_at)) >= startDate);
+    const recalls = concepts
+      .map(concept => getConceptRecall(concept))
+      .filter((recall): recall is number => recall !== null);
+    const typicalStability = median(concepts.filter(c => c.stability).map(c => c.stability!));
+    const recalledInRange = rangeReviews.filter(isRecalled).length;
+
+    return {
+      rangeReviews,
+      timeline: getRetentionTimeline(reviews, startDate, today),
+      observedCurve: getObservedForgettingCurve(rangeReviews),
+      predictedCurve: typicalStability ? getPredictedForgettingCurve(typicalStability, CURVE_DAYS) : [],
+      classSummaries: summarizeClassRetention(concepts, reviews, startDate),
+      averageRecall: recalls.length > 0 ? recalls.reduce((sum, recall) => sum + recall, 0) / recalls.length : null,
+      recallRate: rangeReviews.length > 0 ? recalledInRange / rangeReviews.length : null,
+      dueCount: concepts.filter(concept => concept.due <= today).length,
+      learnedCount: concepts.filter(concept => concept.reps > 0).length
     };
-    
-    generateMockData();
-  }, [userId, timeRange, classes]);
-  
-  // Calculate summary statistics
-  const summaryStats = {
-    averageRetention: retentionData.length > 0 ? 
-      retentionData.reduce((sum, d) => sum + d.retentionRate, 0) / retentionData.length : 0,
-    totalStudyHours: retentionData.reduce((sum, d) => sum + d.studyHours, 0),
-    totalCompletedSessions: retentionData.reduce((sum, d) => sum + d.completedSessions, 0),
-    retentionTrend: retentionData.length > 10 ? 
-      (retentionData.slice(-5).reduce((s, d) => s + d.retentionRate, 0) / 5) - 
-      (retentionData.slice(-10, -5).reduce((s, d) => s + d.retentionRate, 0) / 5) : 0
+  }, [concepts, reviews, startDate, today]);
+
+  const getClassName = (classId: string) => {
+    return classes.find(c => c.id === classId)?.name || 'No class';
   };
-  
-  const getTrendIcon = (trend: 'up' | 'down' | 'stable') => {
+
+  const getTrendIcon = (trend: RetentionTrend) => {
     switch (trend) {
       case 'up': return '📈';
       case 'down': return '📉';
       case 'stable': return '➡️';
     }
   };
-  
-  const getTrendColor = (trend: 'up' | 'down' | 'stable') => {
+
+  const getTrendColor = (trend: RetentionTrend) => {
     switch (trend) {
       case 'up': return 'text-green-600';
       case 'down': return 'text-red-600';
       case 'stable': return 'text-gray-600';
     }
   };
-  
+
+  const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
   if (isLoading) {
     return (
       <div className="bg-white border-t border-gray-200 p-6">
@@ -116,7 +196,12 @@ const RetentionAnalytics: React.FC<RetentionAnalyticsProps> = ({
       </div>
     );
   }
-  
+
+  const hasChartData = selectedMetric === 'curve'
+    ? analytics.observedCurve.length > 0 || analytics.predictedCurve.length > 0
+    : analytics.rangeReviews.length > 0;
+  const strugglingClasses = analytics.classSummaries.filter(summary => summary.strugglingConcepts.length > 0);
+
   return (
     <div className="bg-white border-t border-gray-200 p-6">
       <div className="flex items-center justify-between mb-6">
@@ -129,171 +214,213 @@ const RetentionAnalytics: React.FC<RetentionAnalyticsProps> = ({
             Premium
           </span>
         </h3>
-        
+
         {/* Metric Selector */}
         <div className="flex bg-gray-100 rounded-lg p-1">
-          {(['retention', 'efficiency', 'progress'] as const).map(metric => (
+          {(Object.keys(METRIC_LABELS) as ChartMetric[]).map(metric => (
             <button
               key={metric}
               onClick={() => setSelectedMetric(metric)}
-              className={`px-3 py-1 text-sm font-medium rounded-md transition-colors capitalize ${
+              className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
                 selectedMetric === metric
                   ? 'bg-white text-gray-900 shadow-sm'
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              {metric}
+              {METRIC_LABELS[metric]}
             </button>
           ))}
         </div>
       </div>
-      
+
       {/* Summary Cards */}
       <div className="grid grid-cols-4 gap-4 mb-6">
         <div className="bg-gradient-to-r from-blue-50 to-blue-100 rounded-lg p-4">
           <div className="text-2xl font-bold text-blue-900">
-            {Math.round(summaryStats.averageRetention * 100)}%
+            {formatPercent(analytics.averageRecall)}
           </div>
-          <div className="text-sm text-blue-700">Avg Retention</div>
-          <div className={`text-xs flex items-center mt-1 ${
-            summaryStats.retentionTrend > 0 ? 'text-green-600' : 
-            summaryStats.retentionTrend < 0 ? 'text-red-600' : 'text-gray-600'
-          }`}>
-            {summaryStats.retentionTrend > 0 ? '↗️' : summaryStats.retentionTrend < 0 ? '↘️' : '➡️'}
-            {Math.abs(summaryStats.retentionTrend * 100).toFixed(1)}% trend
+          <div className="text-sm text-blue-700">Predicted Recall</div>
+          <div className="text-xs text-blue-600 mt-1">
+            Across {analytics.learnedCount} studied concept{analytics.learnedCount !== 1 ? 's' : ''}
           </div>
         </div>
-        
+
         <div className="bg-gradient-to-r from-green-50 to-green-100 rounded-lg p-4">
           <div className="text-2xl font-bold text-green-900">
-            {Math.round(summaryStats.totalStudyHours)}
+            {analytics.rangeReviews.length}
           </div>
-          <div className="text-sm text-green-700">Study Hours</div>
+          <div className="text-sm text-green-700">Reviews</div>
           <div className="text-xs text-green-600 mt-1">
-            {Math.round(summaryStats.totalStudyHours / retentionData.length * 10) / 10} per day
+            {Math.round(analytics.rangeReviews.length / RANGE_DAYS[timeRange] * 10) / 10} per day
           </div>
         </div>
-        
+
         <div className="bg-gradient-to-r from-purple-50 to-purple-100 rounded-lg p-4">
           <div className="text-2xl font-bold text-purple-900">
-            {summaryStats.totalCompletedSessions}
+            {formatPercent(analytics.recallRate)}
           </div>
-          <div className="text-sm text-purple-700">Sessions</div>
+          <div className="text-sm text-purple-700">Recall Rate</div>
           <div className="text-xs text-purple-600 mt-1">
-            {Math.round(summaryStats.totalCompletedSessions / retentionData.length * 10) / 10} per day
+            Reviews remembered
           </div>
         </div>
-        
+
         <div className="bg-gradient-to-r from-orange-50 to-orange-100 rounded-lg p-4">
           <div className="text-2xl font-bold text-orange-900">
-            {Math.round(summaryStats.averageRetention / (summaryStats.totalStudyHours / retentionData.length) * 100)}%
+            {analytics.dueCount}
           </div>
-          <div className="text-sm text-orange-700">Efficiency</div>
+          <div className="text-sm text-orange-700">Due Now</div>
           <div className="text-xs text-orange-600 mt-1">
-            Retention per hour
+            Of {concepts.length} concept{concepts.length !== 1 ? 's' : ''}
           </div>
         </div>
       </div>
-      
+
       {/* Chart Area */}
       <div className="mb-6">
-        <div className="bg-gray-50 rounded-lg p-4 h-64 flex items-center justify-center">
-          <div className="text-center text-gray-500">
-            <svg className="w-12 h-12 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v4a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-            </svg>
-            <p className="text-sm">Interactive Chart</p>
-            <p className="text-xs">{selectedMetric.charAt(0).toUpperCase() + selectedMetric.slice(1)} over {timeRange}</p>
-            <p className="text-xs text-gray-400 mt-1">Chart visualization would be implemented here</p>
-          </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          {hasChartData ? (
+            <>
+              {selectedMetric === 'curve' ? (
+                <ForgettingCurveChart predicted={analytics.predictedCurve} observed={analytics.observedCurve} />
+              ) : (
+                <TimelineChart days={analytics.timeline} metric={selectedMetric} />
+              )}
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                {selectedMetric === 'curve' ? (
+                  <>
+                    <span>Day of last review</span>
+                    <span>
+                      <span className="text-purple-600">━ predicted</span>
+                      {'  '}
+                      <span className="text-blue-600">● observed</span>
+                    </span>
+                    <span>{CURVE_DAYS} days later</span>
+                  </>
+                ) : (
+                  <>
+                    <span>{startDate}</span>
+                    <span>{today}</span>
+                  </>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="h-48 flex items-center justify-center text-center text-gray-500">
+              <div>
+                <p className="text-sm">No reviews in this period yet</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Rate how well you remembered each concept after a review session to see your forgetting curve
+                </p>
+              </div>
+            </div>
+          )}
         </div>
       </div>
-      
-      {/* Class Performance Breakdown */}
-      <div>
-        <h4 className="text-md font-semibold text-gray-900 mb-4">Class Performance Breakdown</h4>
-        <div className="space-y-3">
-          {classPerformances.map((performance) => (
-            <div key={performance.classId} className="border border-gray-200 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-3">
-                <h5 className="font-medium text-gray-900">{performance.className}</h5>
-                <div className="flex items-center space-x-2">
-                  <span className={`text-sm ${getTrendColor(performance.improvementTrend)}`}>
-                    {getTrendIcon(performance.improvementTrend)}
-                  </span>
-                  <span className="text-sm text-gray-600">
-                    {Math.round(performance.averageRetention * 100)}% retention
-                  </span>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4 mb-3">
-                <div>
-                  <div className="text-xs text-gray-600 mb-1">Retention Rate</div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-blue-500 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${performance.averageRetention * 100}%` }}
-                    ></div>
-                  </div>
-                  <div className="text-xs text-gray-600 mt-1">
-                    {Math.round(performance.averageRetention * 100)}%
+
+      {/* Class Retention Breakdown */}
+      {analytics.classSummaries.length > 0 && (
+        <div>
+          <h4 className="text-md font-semibold text-gray-900 mb-4">Class Retention Breakdown</h4>
+          <div className="space-y-3">
+            {analytics.classSummaries.map((summary) => (
+              <div key={summary.classId} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h5 className="font-medium text-gray-900">{getClassName(summary.classId)}</h5>
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-sm ${getTrendColor(summary.trend)}`}>
+                      {getTrendIcon(summary.trend)}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {summary.conceptCount} concept{summary.conceptCount !== 1 ? 's' : ''}, {summary.dueCount} due
+                    </span>
                   </div>
                 </div>
-                
-                <div>
-                  <div className="text-xs text-gray-600 mb-1">Study Efficiency</div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-green-500 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${performance.studyEfficiency * 100}%` }}
-                    ></div>
+
+                <div className="grid grid-cols-2 gap-4 mb-3">
+                  <div>
+                    <div className="text-xs text-gray-600 mb-1">Predicted Recall</div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${(summary.averageRecall ?? 0) * 100}%` }}
+                      ></div>
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {formatPercent(summary.averageRecall)}
+                    </div>
                   </div>
-                  <div className="text-xs text-gray-600 mt-1">
-                    {Math.round(performance.studyEfficiency * 100)}%
+
+                  <div>
+                    <div className="text-xs text-gray-600 mb-1">Recall Rate</div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-green-500 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${(summary.recallRate ?? 0) * 100}%` }}
+                      ></div>
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {formatPercent(summary.recallRate)}
+                    </div>
                   </div>
                 </div>
-              </div>
-              
-              {performance.strugglingConcepts.length > 0 && (
-                <div>
-                  <div className="text-xs text-gray-600 mb-2">Areas for improvement:</div>
-                  <div className="flex flex-wrap gap-1">
-                    {performance.strugglingConcepts.map((concept, index) => (
-                      <span
-                        key={index}
-                        className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full"
-                      >
-                        {concept}
-                      </span>
-                    ))}
+
+                {summary.strugglingConcepts.length > 0 && (
+                  <div>
+                    <div className="text-xs text-gray-600 mb-2">Areas for improvement:</div>
+                    <div className="flex flex-wrap gap-1">
+                      {summary.strugglingConcepts.map((concept) => (
+                        <span
+                          key={concept}
+                          className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full"
+                        >
+                          {concept}
+                        </span>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
-            </div>
-          ))}
+                )}
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
-      
+      )}
+
+      <ConceptReviewPanel
+        concepts={concepts}
+        classes={classes}
+        onAdd={onAddConcepts}
+        onReview={onReviewConcept}
+        onDelete={onDeleteConcept}
+      />
+
       {/* Insights and Recommendations */}
-      <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
-        <h4 className="text-sm font-semibold text-blue-900 mb-2 flex items-center">
-          <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
-          </svg>
-          AI Insights
-        </h4>
-        <div className="space-y-2 text-sm text-blue-800">
-          <p>• Your retention rate has improved by {Math.abs(summaryStats.retentionTrend * 100).toFixed(1)}% over the selected period</p>
-          <p>• Best performance in {classPerformances[0]?.className || 'your strongest class'} with {Math.round((classPerformances[0]?.averageRetention || 0.7) * 100)}% retention</p>
-          <p>• Consider increasing review frequency for subjects with lower retention rates</p>
-          {summaryStats.averageRetention < 0.6 && (
-            <p className="text-orange-700">• Your overall retention is below optimal. Consider shorter, more frequent study sessions</p>
-          )}
+      {analytics.rangeReviews.length > 0 && (
+        <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-blue-900 mb-2 flex items-center">
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+            </svg>
+            Insights
+          </h4>
+          <div className="space-y-2 text-sm text-blue-800">
+            <p>• You remembered {formatPercent(analytics.recallRate)} of {analytics.rangeReviews.length} reviews over the selected period</p>
+            {analytics.dueCount > 0 && (
+              <p>• {analytics.dueCount} concept{analytics.dueCount !== 1 ? 's are' : ' is'} due for review; they're added to your study plan</p>
+            )}
+            {strugglingClasses.map(summary => (
+              <p key={summary.classId}>
+                • In {getClassName(summary.classId)}, {summary.strugglingConcepts.slice(0, 2).join(' and ')} keep slipping; try reviewing them with practice problems
+              </p>
+            ))}
+            {analytics.recallRate !== null && analytics.recallRate < 0.8 && (
+              <p className="text-orange-700">• Recall is below target. Review due concepts on time rather than in batches</p>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
-export default RetentionAnalytics;
\ No newline at end of file
+export default RetentionAnalytics;
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { ScheduleChange, StudySession } from '../../types/studySchedule';
+import type { ClassWithRelations } from '../../types/database';
+
+interface ScheduleChangesPanelProps {
+  changes: ScheduleChange[];
+  classes: ClassWithRelations[];
+  onDismiss: () => void;
+}
+
+const KIND_LABELS: Record<ScheduleChange['kind'], string> = {
+  moved: 'Moved',
+  added: 'Added',
+  removed: 'Removed'
+};
+
+const KIND_STYLES: Record<ScheduleChange['kind'], string> = {
+  moved: 'bg-blue-100 text-blue-700',
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-gray-200 text-gray-700'
+};
+
+const formatSlot = (session: StudySession) => `${session.date} ${session.start_time}–${session.end_time}`;
+
+/**
+ * What the last automatic schedule repair moved, added or removed
+ */
+const ScheduleChangesPanel: React.FC<ScheduleChangesPanelProps> = ({
+  changes,
+  classes,
+  onDismiss
+}) => {
+  const getClassName = (classId: string) => {
+    return classes.find(c => c.id === classId)?.name || classId;
+  };
+
+  return (
+    <div className="mx-4 mt-4 bg-blue-50 border border-blue-200 rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-blue-800">
+          Your schedule was updated ({changes.length} change{changes.length !== 1 ? 's' : ''})
+        </p>
+        <button
+          onClick={onDismiss}
+          className="text-xs text-blue-700 hover:text-blue-900"
+        >
+          Dismiss
+        </button>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {changes.map((change, index) => (
+          <li key={`${change.kind}-${change.session.id}-${index}`} className="flex items-start text-xs text-gray-700">
+            <span className={`mr-2 px-1.5 rounded ${KIND_STYLES[change.kind]}`}>
+              {KIND_LABELS[change.kind]}
+            </span>
+            <span>
+              <span className="font-medium">{change.session.focus_area}</span>
+              {' '}({getClassName(change.session.class_id)}):{' '}
+              {change.previous ? `${formatSlot(change.previous)} → ` : ''}
+              {formatSlot(change.session)}
+              {change.reason && <span className="text-gray-500"> · {change.reason}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ScheduleChangesPanel;
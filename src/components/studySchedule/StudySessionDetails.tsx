@@ -1,19 +1,22 @@
 import React, { useState } from 'react';
 import type { StudySession } from '../../types/studySchedule';
-import type { ClassWithRelations } from '../../types/database';
+import type { ClassWithRelations, StudyConcept } from '../../types/database';
+import { REVIEW_RATINGS, type ReviewRating } from '../../services/retention';
 
 interface StudySessionDetailsProps {
   session: StudySession;
   onUpdate: (sessionId: string, status: StudySession['status'], feedback?: any) => void;
   onClose: () => void;
   classes: ClassWithRelations[];
+  concepts?: StudyConcept[];
 }
 
 const StudySessionDetails: React.FC<StudySessionDetailsProps> = ({
   session,
   onUpdate,
   onClose,
-  classes
+  classes,
+  concepts = []
 }) => {
   const [showFeedbackForm, setShowFeedbackForm] = useState(false);
   const [feedback, setFeedback] = useState({
@@ -22,6 +25,10 @@ const StudySessionDetails: React.FC<StudySessionDetailsProps> = ({
     focus_quality: session.focus_quality || 3,
     notes: session.notes || ''
   });
+  const [conceptRatings, setConceptRatings] = useState<Record<string, ReviewRating>>({});
+  
+  // Concepts reviewed in a spaced-repetition session
+  const sessionConcepts = concepts.filter(concept => session.concept_ids?.includes(concept.id));
   
   // Get class information
   const classInfo = classes.find(c => c.id === session.class_id) || {
@@ -75,7 +82,8 @@ const StudySessionDetails: React.FC<StudySessionDetailsProps> = ({
   
   // Handle completion with feedback
   const handleCompleteWithFeedback = () => {
-    onUpdate(session.id, 'completed', feedback);
+    const hasRatings = Object.keys(conceptRatings).length > 0;
+    onUpdate(session.id, 'completed', hasRatings ? { ...feedback, concept_ratings: conceptRatings } : feedback);
     setShowFeedbackForm(false);
   };
   
@@ -199,6 +207,23 @@ const StudySessionDetails: React.FC<StudySessionDetailsProps> = ({
           </div>
         )}
         
+        {/* Concepts */}
+        {sessionConcepts.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Concepts</h4>
+            <div className="flex flex-wrap gap-2">
+              {sessionConcepts.map(concept => (
+                <span
+                  key={concept.id}
+                  className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full"
+                >
+                  {concept.name}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Prerequisites */}
         {session.prerequisite_concepts.length > 0 && (
           <div>
@@ -298,6 +323,37 @@ const StudySessionDetails: React.FC<StudySessionDetailsProps> = ({
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Session Feedback</h3>
             
             <div className="space-y-4">
+              {sessionConcepts.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    How well did you remember each concept?
+                  </label>
+                  <div className="space-y-2">
+                    {sessionConcepts.map(concept => (
+                      <div key={concept.id} className="flex items-center justify-between">
+                        <span className="text-sm text-gray-900 truncate mr-2">{concept.name}</span>
+                        <div className="flex space-x-1">
+                          {REVIEW_RATINGS.map(({ rating, label }) => (
+                            <button
+                              key={rating}
+                              type="button"
+                              onClick={() => setConceptRatings(prev => ({ ...prev, [concept.id]: rating }))}
+                              className={`px-2 py-1 text-xs rounded transition-colors ${
+                                conceptRatings[concept.id] === rating
+                                  ? 'bg-purple-600 text-white'
+                                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   How difficult was this session?
@@ -111,6 +111,12 @@ const WorkloadAnalysisPanel: React.FC<WorkloadAnalysisPanelProps> = ({
                     <span>{Math.round(classWorkload.recommended_daily_minutes)} min/day</span>
                   </div>
                   
+                  {classWorkload.estimate_adjustment !== undefined && Math.abs(classWorkload.estimate_adjustment - 1) >= 0.1 && (
+                    <div className="mt-1 text-xs text-gray-500" title="Based on the time you tracked on completed tasks">
+                      ⏱️ Estimates adjusted ×{Math.round(classWorkload.estimate_adjustment * 10) / 10} from your tracked time
+                    </div>
+                  )}
+                  
                   {classWorkload.critical_deadlines.length > 0 && (
                     <div className="mt-2 text-xs text-red-600">
                       ⚠️ {classWorkload.critical_deadlines.length} critical deadline{classWorkload.critical_deadlines.length !== 1 ? 's' : ''} this week
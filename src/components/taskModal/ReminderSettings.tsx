@@ -0,0 +1,45 @@
+import React from 'react';
+import { TaskData } from '../TaskModal';
+import ReminderOffsetEditor from '../ui/ReminderOffsetEditor';
+
+interface ReminderSettingsProps {
+  task: TaskData;
+  onInputChange: <K extends keyof TaskData>(field: K, value: TaskData[K]) => void;
+}
+
+// Starting point when a task first gets its own reminders
+const INITIAL_TASK_OFFSETS = ['1d'];
+
+const ReminderSettings: React.FC<ReminderSettingsProps> = ({ task, onInputChange }) => {
+  const offsets = task.reminder_offsets;
+
+  return (
+    <div>
+      <label htmlFor="task-reminders" className="flex items-center space-x-2">
+        <input
+          id="task-reminders"
+          type="checkbox"
+          checked={Boolean(offsets)}
+          onChange={(e) => onInputChange("reminder_offsets", e.target.checked ? INITIAL_TASK_OFFSETS : null)}
+          className="rounded border-gray-300 dark:border-slate-600/50 bg-white dark:bg-slate-700/50 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 w-4 h-4 sm:w-3 sm:h-3 touch-manipulation"
+        />
+        <span className="text-sm font-medium text-gray-700 dark:text-slate-300">Custom reminders</span>
+      </label>
+      {offsets ? (
+        <div className="mt-2 pl-1">
+          <ReminderOffsetEditor
+            offsets={offsets}
+            onChange={(next) => onInputChange("reminder_offsets", next)}
+            idPrefix="task-reminders"
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+          Uses the reminders set for this task type or in your notification settings
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { TaskData } from '../TaskModal';
+import {
+  createDefaultRepeatSettings,
+  getTaskAnchorDate,
+  type TaskRepeatSettings,
+  type RepeatFrequency,
+  type RepeatEndType,
+} from '../../utils/recurringTaskHelpers';
+
+interface RepeatSettingsProps {
+  task: TaskData;
+  onInputChange: <K extends keyof TaskData>(field: K, value: TaskData[K]) => void;
+  isOccurrence: boolean;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FREQUENCY_UNITS: Record<RepeatFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const inputClass = "p-2 border border-gray-300 dark:border-slate-600/50 bg-white dark:bg-slate-700/50 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm text-gray-900 dark:text-slate-100";
+
+const RepeatSettings: React.FC<RepeatSettingsProps> = ({
+  task,
+  onInputChange,
+  isOccurrence,
+}) => {
+  const [skipDateInput, setSkipDateInput] = useState("");
+  const repeat = task.repeat;
+  const editingThisOnly = isOccurrence && task.editScope !== 'following';
+
+  const updateRepeat = (changes: Partial<TaskRepeatSettings>): void => {
+    if (!repeat) return;
+    onInputChange("repeat", { ...repeat, ...changes });
+  };
+
+  const toggleRepeat = (enabled: boolean): void => {
+    onInputChange("repeat", enabled ? createDefaultRepeatSettings(getTaskAnchorDate(task)) : null);
+  };
+
+  const toggleWeekday = (weekday: number): void => {
+    if (!repeat) return;
+    const weekdays = repeat.weekdays.includes(weekday)
+      ? repeat.weekdays.filter(day => day !== weekday)
+      : [...repeat.weekdays, weekday].sort((a, b) => a - b);
+    updateRepeat({ weekdays });
+  };
+
+  const addSkipDate = (): void => {
+    if (!repeat || !skipDateInput || repeat.skipDates.includes(skipDateInput)) return;
+    updateRepeat({ skipDates: [...repeat.skipDates, skipDateInput].sort() });
+    setSkipDateInput("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Scope for edits to one occurrence of a repeating task */}
+      {isOccurrence && (
+        <fieldset className="p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800/50 rounded-md">
+          <legend className="sr-only">Apply changes to</legend>
+          <p className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">This is a repeating task. Apply changes to:</p>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+              <input
+                type="radio"
+                name="edit-scope"
+                checked={task.editScope !== 'following'}
+                onChange={() => onInputChange("editScope", "this")}
+              />
+              <span>This occurrence</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+              <input
+                type="radio"
+                name="edit-scope"
+                checked={task.editScope === 'following'}
+                onChange={() => onInputChange("editScope", "following")}
+              />
+              <span>This and following</span>
+            </label>
+          </div>
+        </fieldset>
+      )}
+
+      {!editingThisOnly && (
+        <div>
+          <label htmlFor="task-repeat" className="flex items-center space-x-2">
+            <input
+              id="task-repeat"
+              type="checkbox"
+              checked={Boolean(repeat)}
+              onChange={(e) => toggleRepeat(e.target.checked)}
+              className="rounded border-gray-300 dark:border-slate-600/50 bg-white dark:bg-slate-700/50 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50 w-4 h-4 sm:w-3 sm:h-3 touch-manipulation"
+            />
+            <span className="text-sm font-medium text-gray-700 dark:text-slate-300">Repeat</span>
+          </label>
+
+          {repeat && (
+            <div className="mt-2 space-y-3 pl-1">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                <span>Every</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={repeat.interval}
+                  onChange={(e) => updateRepeat({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className={`${inputClass} w-16`}
+                  aria-label="Repeat interval"
+                />
+                <select
+                  value={repeat.frequency}
+                  onChange={(e) => updateRepeat({ frequency: e.target.value as RepeatFrequency })}
+                  className={inputClass}
+                  aria-label="Repeat frequency"
+                >
+                  {(Object.keys(FREQUENCY_UNITS) as RepeatFrequency[]).map(frequency => (
+                    <option key={frequency} value={frequency}>{FREQUENCY_UNITS[frequency]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {repeat.frequency === 'weekly' && (
+                <div className="flex gap-1" role="group" aria-label="Repeat on weekdays">
+                  {WEEKDAY_LABELS.map((label, weekday) => (
+                    <button
+                      key={weekday}
+                      type="button"
+                      onClick={() => toggleWeekday(weekday)}
+                      aria-pressed={repeat.weekdays.includes(weekday)}
+                      aria-label={WEEKDAY_NAMES[weekday]}
+                      className={`w-8 h-8 rounded-full text-xs font-medium ${
+                        repeat.weekdays.includes(weekday)
+                          ? "bg-blue-600 text-white"
+                          : "bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-slate-300"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                <span>Ends</span>
+                <select
+                  value={repeat.endType}
+                  onChange={(e) => updateRepeat({ endType: e.target.value as RepeatEndType })}
+                  className={inputClass}
+                  aria-label="Repeat end"
+                >
+                  <option value="never">Never</option>
+                  <option value="until">On date</option>
+                  <option value="count">After</option>
+                </select>
+                {repeat.endType === 'until' && (
+                  <input
+                    type="date"
+                    value={repeat.until || ""}
+                    onChange={(e) => updateRepeat({ until: e.target.value })}
+                    className={inputClass}
+                    aria-label="Repeat until date"
+                  />
+                )}
+                {repeat.endType === 'count' && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      value={repeat.count || 1}
+                      onChange={(e) => updateRepeat({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className={`${inputClass} w-16`}
+                      aria-label="Number of occurrences"
+                    />
+                    <span>times</span>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={skipDateInput}
+                    onChange={(e) => setSkipDateInput(e.target.value)}
+                    className={inputClass}
+                    aria-label="Date to skip"
+                  />
+                  <button
+                    type="button"
+                    onClick={addSkipDate}
+                    className="px-3 py-2 text-sm bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-300 border border-gray-200 dark:border-slate-600 rounded-md"
+                  >
+                    Skip date
+                  </button>
+                </div>
+                {repeat.skipDates.length > 0 && (
+                  <ul className="flex flex-wrap gap-1 mt-2">
+                    {repeat.skipDates.map(date => (
+                      <li key={date} className="flex items-center text-xs bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 rounded px-2 py-1">
+                        {date}
+                        <button
+                          type="button"
+                          onClick={() => updateRepeat({ skipDates: repeat.skipDates.filter(skip => skip !== date) })}
+                          className="ml-1 text-gray-500 hover:text-red-600"
+                          aria-label={`Stop skipping ${date}`}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepeatSettings;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import {
+  formatReminderOffset,
+  normalizeReminderOffset,
+  sortReminderOffsets
+} from '../../services/reminders';
+
+interface ReminderOffsetEditorProps {
+  offsets: string[];
+  onChange: (offsets: string[]) => void;
+  idPrefix: string;
+}
+
+const inputClass = "p-2 border border-gray-300 dark:border-slate-600/50 bg-white dark:bg-slate-700/50 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm text-gray-900 dark:text-slate-100";
+
+/**
+ * List of reminder offsets ('30m', '2h', '3d', '1w') with an input to add more
+ */
+const ReminderOffsetEditor: React.FC<ReminderOffsetEditorProps> = ({ offsets, onChange, idPrefix }) => {
+  const [input, setInput] = useState('');
+  const [invalid, setInvalid] = useState(false);
+
+  const addOffset = (): void => {
+    const offset = normalizeReminderOffset(input);
+    if (!offset) {
+      setInvalid(true);
+      return;
+    }
+    if (!offsets.includes(offset)) {
+      onChange(sortReminderOffsets([...offsets, offset]));
+    }
+    setInput('');
+    setInvalid(false);
+  };
+
+  return (
+    <div>
+      {offsets.length > 0 ? (
+        <ul className="flex flex-wrap gap-1 mb-2">
+          {offsets.map(offset => (
+            <li key={offset} className="flex items-center text-xs bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 rounded px-2 py-1">
+              {formatReminderOffset(offset)}
+              <button
+                type="button"
+                onClick={() => onChange(offsets.filter(existing => existing !== offset))}
+                className="ml-1 text-gray-500 hover:text-red-600"
+                aria-label={`Remove reminder ${formatReminderOffset(offset)}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-slate-400 italic mb-2">No reminders</p>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          id={`${idPrefix}-offset`}
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setInvalid(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addOffset();
+            }
+          }}
+          placeholder="e.g. 30m, 2h, 5d, 1w"
+          className={`${inputClass} w-40`}
+          aria-label="Reminder time before the deadline"
+          aria-invalid={invalid}
+        />
+        <button
+          type="button"
+          onClick={addOffset}
+          className="px-3 py-2 text-sm bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-300 border border-gray-200 dark:border-slate-600 rounded-md"
+        >
+          Add reminder
+        </button>
+      </div>
+      {invalid && (
+        <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+          Use a number followed by m, h, d or w
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReminderOffsetEditor;
@@ -15,6 +15,10 @@ interface StripeConfig {
   academicYearPriceId: string | undefined;
 }
 
+interface PushConfig {
+  vapidPublicKey: string | undefined;
+}
+
 interface AppConfig {
   nodeEnv: string;
   isDevelopment: boolean;
@@ -25,6 +29,7 @@ interface AppConfig {
 interface Config {
   supabase: SupabaseConfig;
   stripe: StripeConfig;
+  push: PushConfig;
   app: AppConfig;
 }
 
@@ -50,7 +55,8 @@ const REQUIRED_ENV_VARS: RequiredEnvVars = {
 const OPTIONAL_ENV_VARS: Record<string, string> = {
   REACT_APP_STRIPE_PUBLISHABLE_KEY: 'Stripe publishable key (required for SaaS subscription features)',
   REACT_APP_BUILD_MODE: 'Build mode configuration (personal/saas)',
-  REACT_APP_SENTRY_DSN: 'Sentry DSN for error tracking in production'
+  REACT_APP_SENTRY_DSN: 'Sentry DSN for error tracking in production',
+  REACT_APP_VAPID_PUBLIC_KEY: 'VAPID public key (required for Web Push notifications)'
 };
 
 // Fallback values for development - these should be loaded from .env file
@@ -147,6 +153,9 @@ function createConfig(): Config {
       studentMonthlyPriceId: process.env.STRIPE_STUDENT_MONTHLY_PRICE_ID || process.env.REACT_APP_STRIPE_STUDENT_MONTHLY_PRICE_ID,
       academicYearPriceId: process.env.STRIPE_ACADEMIC_YEAR_PRICE_ID || process.env.REACT_APP_STRIPE_ACADEMIC_YEAR_PRICE_ID
     },
+    push: {
+      vapidPublicKey: process.env.VAPID_PUBLIC_KEY || process.env.REACT_APP_VAPID_PUBLIC_KEY
+    },
     app: {
       nodeEnv: process.env.NODE_ENV || 'development',
       isDevelopment,
@@ -159,4 +168,5 @@ function createConfig(): Config {
 // Export both the config and legacy format for backward compatibility
 export const config: Config = createConfig();
 export const supabaseConfig: SupabaseConfig = config.supabase;
-export const stripeConfig: StripeConfig = config.stripe;
\ No newline at end of file
+export const stripeConfig: StripeConfig = config.stripe;
+export const pushConfig: PushConfig = config.push;
\ No newline at end of file
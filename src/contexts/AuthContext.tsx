@@ -12,6 +12,10 @@ import { errorHandler } from "../utils/errorHandler";
 import { logger } from "../utils/logger";
 import { handleAuthError, withSyncOperation } from "../utils/authHelpers";
 import { syncThemeFromSupabase } from "../services/settings/settingsOperations";
+import taskService from "../services/taskService";
+import classService from "../services/classService";
+import taskTypeService from "../services/taskTypeService";
+import { notificationInboxService } from "../services/notifications";
 
 // OAuth provider type
 type AuthProvider = 'google' | 'github' | 'discord';
@@ -238,6 +242,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // CRITICAL FIX: Clear all local user data to prevent data leakage to next user
       const { clearLocalUserData } = await import('../utils/storageHelpers');
       await clearLocalUserData();
+      notificationInboxService.reset();
       logger.auth('Local user data cleared after logout');
       
       return true;
@@ -278,6 +283,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [user]);
 
+  // Show edits made on other devices while the app is open
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    taskService.startRealtime(userId);
+    classService.startRealtime(userId);
+    taskTypeService.startRealtime(userId);
+    notificationInboxService.initialize(userId);
+    notificationInboxService.startRealtime(userId);
+    return () => {
+      taskService.stopRealtime();
+      classService.stopRealtime();
+      taskTypeService.stopRealtime();
+      notificationInboxService.stopRealtime();
+    };
+  }, [userId]);
+
+  // Replay changes made offline as soon as the connection comes back
+  useEffect(() => {
+    if (!user) return;
+
+    const handleOnline = (): void => {
+      logger.debug('Connection restored, syncing offline changes');
+      triggerSync();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user, triggerSync]);
+
   const value: AuthContextType = useMemo(() => ({
     user,
     loading,
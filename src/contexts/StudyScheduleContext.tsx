@@ -4,6 +4,7 @@ import type {
   StudySchedule,
   StudyProfile,
   WorkloadAnalysis,
+  ScheduleChange,
   StudyScheduleFeatureLimits
 } from '../types/studySchedule';
 import type { ClassWithRelations } from '../types/database';
@@ -16,6 +17,7 @@ interface StudyScheduleContextType {
   currentSchedule: StudySchedule | null;
   workloadAnalysis: WorkloadAnalysis | null;
   studyProfile: StudyProfile | null;
+  scheduleChanges: ScheduleChange[];
   
   // Feature limits
   featureLimits: StudyScheduleFeatureLimits;
@@ -31,6 +33,8 @@ interface StudyScheduleContextType {
   updateStudyProfile: (profile: StudyProfile) => Promise<void>;
   updateSessionStatus: (sessionId: string, status: any, feedback?: any) => Promise<void>;
   refreshFromCanvasTasks: () => Promise<void>;
+  repairSchedule: () => Promise<void>;
+  dismissScheduleChanges: () => void;
   
   // Premium actions
   upgradePrompt: () => void;
@@ -190,6 +194,7 @@ export const StudyScheduleProvider: React.FC<StudyScheduleProviderProps> = ({
     currentSchedule: studyScheduleHook.currentSchedule,
     workloadAnalysis: studyScheduleHook.workloadAnalysis,
     studyProfile: studyScheduleHook.studyProfile,
+    scheduleChanges: studyScheduleHook.scheduleChanges,
     
     // Feature limits
     featureLimits,
@@ -205,6 +210,8 @@ export const StudyScheduleProvider: React.FC<StudyScheduleProviderProps> = ({
     updateStudyProfile: studyScheduleHook.updateStudyProfile,
     updateSessionStatus: studyScheduleHook.updateSessionStatus,
     refreshFromCanvasTasks: studyScheduleHook.refreshFromCanvasTasks,
+    repairSchedule: studyScheduleHook.repairSchedule,
+    dismissScheduleChanges: studyScheduleHook.dismissScheduleChanges,
     
     // Premium actions
     upgradePrompt,
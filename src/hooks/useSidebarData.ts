@@ -6,7 +6,7 @@ import { useFileManager } from './useFileManager';
 import { getSettings, updateSettings } from '../services/dataService';
 import { getSettingsWithSync, updateSettingsWithSync } from '../services/settings/settingsOperations';
 import { supabase } from '../services/supabaseClient';
-import { fetchCanvasCalendar } from '../services/canvasService';
+import { getFeeds, syncAllFeeds } from '../services/canvas/feedRegistry';
 import classService from '../services/classService';
 import { logger } from '../utils/logger';
 
@@ -53,27 +53,27 @@ export const useSidebarData = ({
   // Auto-sync Canvas calendar
   useEffect(() => {
     const autoSyncCanvas = async (): Promise<void> => {
-      const canvasUrl = localStorage.getItem("canvas_calendar_url");
+      const enabledFeeds = getFeeds().filter(feed => feed.enabled);
       const autoSync = localStorage.getItem("canvas_auto_sync") === "true";
       
       logger.debug('AutoSyncCanvas triggered', { 
-        canvasUrl: !!canvasUrl, 
+        feedCount: enabledFeeds.length, 
         autoSync, 
         userAuthenticated: !!user
       });
 
-      if (user && canvasUrl && autoSync) {
+      if (user && enabledFeeds.length > 0 && autoSync) {
         try {
           setIsCanvasSyncing(true);
-          logger.info('Starting Canvas calendar auto-sync', { userId: user.id });
-          const result = await fetchCanvasCalendar(canvasUrl, isAuthenticated, user);
-          logger.debug('Canvas calendar fetch completed', { success: result?.success });
+          logger.info('Starting calendar feed auto-sync', { userId: user.id, feedCount: enabledFeeds.length });
+          const results = await syncAllFeeds(isAuthenticated, user);
+          logger.debug('Calendar feed sync completed', { successCount: results.filter(r => r.success).length });
 
-          if (result && result.success) {
-            logger.info('Canvas auto-sync successful, updating timestamp');
+          if (results.some(result => result.success)) {
+            logger.info('Calendar feed auto-sync successful, updating timestamp');
             setLastCalendarSyncTimestamp(Date.now());
           } else {
-            logger.warn('Canvas auto-sync failed or returned invalid result', { resultSuccess: result?.success });
+            logger.warn('Calendar feed auto-sync failed for every feed', { feedCount: results.length });
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
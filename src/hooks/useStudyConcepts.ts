@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { conceptService, type NewConcept, type ReviewRating, type RetentionProfile } from '../services/retention';
+import { logger } from '../utils/logger';
+import type { StudyConcept, ConceptReview } from '../types/database';
+
+/**
+ * A user's study concepts and review history, kept current as concepts are
+ * added, reviewed or deleted anywhere in the app
+ */
+export function useStudyConcepts(userId: string | undefined, profile?: RetentionProfile | null) {
+  const [concepts, setConcepts] = useState<StudyConcept[]>([]);
+  const [reviews, setReviews] = useState<ConceptReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadConcepts = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const [loadedConcepts, loadedReviews] = await Promise.all([
+        conceptService.getConcepts(userId),
+        conceptService.getReviews(userId)
+      ]);
+      setConcepts(loadedConcepts);
+      setReviews(loadedReviews);
+    } catch (err) {
+      logger.error('[useStudyConcepts] Error loading concepts', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadConcepts();
+    return conceptService.subscribe(loadConcepts);
+  }, [loadConcepts]);
+
+  const addConcepts = useCallback(async (newConcepts: NewConcept[]) => {
+    if (!userId) return [];
+    return conceptService.addConcepts(userId, newConcepts);
+  }, [userId]);
+
+  const recordReview = useCallback((concept: StudyConcept, rating: ReviewRating) =>
+    conceptService.recordReview(concept, rating, profile || undefined), [profile]);
+
+  const deleteConcept = useCallback((id: string) => conceptService.deleteConcept(id), []);
+
+  return {
+    concepts,
+    reviews,
+    isLoading,
+    addConcepts,
+    recordReview,
+    deleteConcept
+  };
+}
@@ -1,10 +1,11 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type { User } from '@supabase/supabase-js';
 import type {
   StudySchedule,
   StudyProfile,
   WorkloadAnalysis,
   StudySession,
+  ScheduleChange,
   ScheduleOptimizationRequest,
   StudyScheduleResponse,
   WorkloadAnalysisResponse
@@ -12,7 +13,19 @@ import type {
 import type { ClassWithRelations, Task } from '../types/database';
 import { StudyScheduleService } from '../services/studyScheduleService';
 import { getTasks } from '../services/dataService';
+import taskService from '../services/taskService';
+import { conceptService, type ReviewRating } from '../services/retention';
+import { examPrepService } from '../services/examPrep';
 import { logger } from '../utils/logger';
+import { notificationInboxService } from '../services/notifications';
+
+// Sessions starting within this many minutes get an inbox notification
+const SESSION_NOTICE_MINUTES = 10;
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Task edits and concept reviews often come in bursts (e.g. a sync), so wait
+// for them to settle
+const REPAIR_DEBOUNCE_MS = 2000;
 
 interface UseStudyScheduleProps {
   user: User | null;
@@ -26,6 +39,9 @@ interface UseStudyScheduleReturn {
   workloadAnalysis: WorkloadAnalysis | null;
   studyProfile: StudyProfile | null;
   
+  // What the last automatic repair changed
+  scheduleChanges: ScheduleChange[];
+  
   // UI state
   isLoading: boolean;
   error: string | null;
@@ -40,6 +56,8 @@ interface UseStudyScheduleReturn {
     feedback?: any
   ) => Promise<void>;
   refreshFromCanvasTasks: () => Promise<void>;
+  repairSchedule: () => Promise<void>;
+  dismissScheduleChanges: () => void;
   
   // Data
   getTasksForScheduling: () => Promise<Task[]>;
@@ -67,6 +85,18 @@ export const useStudySchedule = ({
   const [currentSchedule, setCurrentSchedule] = useState<StudySchedule | null>(null);
   const [workloadAnalysis, setWorkloadAnalysis] = useState<WorkloadAnalysis | null>(null);
   const [studyProfile, setStudyProfile] = useState<StudyProfile | null>(null);
+  const [scheduleChanges, setScheduleChanges] = useState<ScheduleChange[]>([]);
+  
+  // Latest schedule and the request it was generated from, for repairs
+  // started outside render (task changes, timers)
+  const scheduleRef = useRef<StudySchedule | null>(null);
+  const requestRef = useRef<Pick<ScheduleOptimizationRequest, 'include_classes' | 'exclude_dates'>>({
+    include_classes: [],
+    exclude_dates: []
+  });
+  const repairingRef = useRef(false);
+  const applyingPlansRef = useRef(false);
+  scheduleRef.current = currentSchedule;
   
   // UI state
   const [isLoading, setIsLoading] = useState(false);
@@ -143,6 +173,11 @@ export const useStudySchedule = ({
       );
       
       setCurrentSchedule(scheduleResponse.schedule);
+      setScheduleChanges([]);
+      requestRef.current = {
+        include_classes: request.include_classes,
+        exclude_dates: request.exclude_dates
+      };
       
       logger.debug('[useStudySchedule] Study schedule generated successfully', {
         sessionCount: scheduleResponse.schedule.study_sessions.length,
@@ -158,6 +193,43 @@ export const useStudySchedule = ({
     }
   }, [user, studyProfile, useSupabase]);
   
+  /**
+   * Repair the current schedule after missed sessions or task changes,
+   * keeping what still works instead of regenerating everything
+   */
+  const repairSchedule = useCallback(async () => {
+    const schedule = scheduleRef.current;
+    if (!user || !schedule || repairingRef.current) return;
+    
+    try {
+      repairingRef.current = true;
+      const { schedule: repaired, changes } = await StudyScheduleService.repairSchedule(
+        user,
+        schedule,
+        requestRef.current,
+        studyProfile || undefined,
+        useSupabase
+      );
+      
+      // Sessions may have been updated while the repair ran
+      if (scheduleRef.current !== schedule || changes.length === 0) return;
+      setCurrentSchedule(repaired);
+      setScheduleChanges(changes);
+      
+      logger.debug('[useStudySchedule] Study schedule repaired', {
+        version: repaired.version,
+        changes: changes.length
+      });
+      
+    } catch (err) {
+      logger.error('[useStudySchedule] Error repairing study schedule', err);
+    } finally {
+      repairingRef.current = false;
+    }
+  }, [user, studyProfile, useSupabase]);
+  
+  const dismissScheduleChanges = useCallback(() => setScheduleChanges([]), []);
+  
   /**
    * Update study profile
    */
@@ -199,12 +271,13 @@ export const useStudySchedule = ({
     try {
       setError(null);
       
+      const { concept_ratings: conceptRatings, ...sessionFeedback } = feedback || {};
       const updatedSessions = currentSchedule.study_sessions.map(session => {
         if (session.id === sessionId) {
           return {
             ...session,
             status,
-            ...feedback,
+            ...sessionFeedback,
             actual_start_time: status === 'in_progress' ? new Date().toISOString() : session.actual_start_time,
             actual_end_time: status === 'completed' ? new Date().toISOString() : session.actual_end_time,
             updated_at: new Date().toISOString()
@@ -220,6 +293,28 @@ export const useStudySchedule = ({
       };
       
       setCurrentSchedule(updatedSchedule);
+      scheduleRef.current = updatedSchedule;
+      
+      // Exam prep plans track their own sessions for readiness
+      const updatedSession = updatedSessions.find(session => session.id === sessionId);
+      if (updatedSession?.prep_phase && updatedSession.task_ids[0]) {
+        examPrepService.updateSession(updatedSession.task_ids[0], updatedSession);
+      }
+      
+      // Skipped work needs a new place in the schedule
+      if (status === 'skipped') {
+        repairSchedule();
+      }
+      
+      // Recall ratings from a review session schedule each concept's next
+      // review, which the concept listener below then fits into the schedule
+      if (user && conceptRatings) {
+        const concepts = await conceptService.getConcepts(user.id);
+        await Promise.all(Object.entries(conceptRatings as Record<string, ReviewRating>).map(([conceptId, rating]) => {
+          const concept = concepts.find(c => c.id === conceptId);
+          return concept ? conceptService.recordReview(concept, rating, studyProfile || undefined) : null;
+        }));
+      }
       
       // In a real implementation, this would sync to database
       logger.debug('[useStudySchedule] Session status updated', {
@@ -233,7 +328,7 @@ export const useStudySchedule = ({
       setError(errorMessage);
       logger.error('[useStudySchedule] Error updating session status', err);
     }
-  }, [currentSchedule]);
+  }, [user, currentSchedule, studyProfile, repairSchedule]);
   
   /**
    * Refresh workload analysis from Canvas tasks
@@ -420,11 +515,139 @@ export const useStudySchedule = ({
     }
   }, [user, classes, workloadAnalysis, loadWorkloadAnalysis]);
   
+  const hasSchedule = currentSchedule !== null;
+  
+  /**
+   * Repair the schedule when tasks are added, edited or completed, and when
+   * concepts are added or reviewed
+   */
+  useEffect(() => {
+    if (!user || !hasSchedule) return undefined;
+    
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRepair = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(repairSchedule, REPAIR_DEBOUNCE_MS);
+    };
+    const unsubscribeTasks = taskService.subscribe(scheduleRepair);
+    const unsubscribeConcepts = conceptService.subscribe(scheduleRepair);
+    return () => {
+      unsubscribeTasks();
+      unsubscribeConcepts();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [user, hasSchedule, repairSchedule]);
+  
+  /**
+   * Put exam prep plans into the schedule when one is saved, and again when
+   * a new schedule or a repair leaves out their upcoming sessions
+   */
+  useEffect(() => {
+    if (!user || !currentSchedule) return undefined;
+    
+    const applyExamPrepPlans = async () => {
+      const schedule = scheduleRef.current;
+      if (!schedule || applyingPlansRef.current) return;
+      
+      const now = new Date();
+      const scheduledIds = new Set(schedule.study_sessions.map(session => session.id));
+      const outdated = examPrepService.getPlans(user.id).filter(plan => plan.sessions.some(session =>
+        (session.status === 'scheduled' || session.status === 'rescheduled') &&
+        new Date(`${session.date}T${session.end_time}`) > now &&
+        session.date >= schedule.start_date &&
+        session.date <= schedule.end_date &&
+        !scheduledIds.has(session.id)
+      ));
+      if (outdated.length === 0) return;
+      
+      try {
+        applyingPlansRef.current = true;
+        let updated = schedule;
+        for (const plan of outdated) {
+          const applied = await StudyScheduleService.applyExamPrepPlan(
+            user,
+            updated,
+            plan,
+            studyProfile || undefined,
+            useSupabase,
+            now
+          );
+          updated = applied.schedule;
+          examPrepService.replaceSessions(plan.exam_task_id, applied.planSessions);
+        }
+        
+        // Sessions may have been updated while the plans were applied
+        if (scheduleRef.current !== schedule) return;
+        setCurrentSchedule(updated);
+        scheduleRef.current = updated;
+      } catch (err) {
+        logger.error('[useStudySchedule] Error applying exam prep plans', err);
+      } finally {
+        applyingPlansRef.current = false;
+      }
+    };
+    
+    applyExamPrepPlans();
+    return examPrepService.subscribe(applyExamPrepPlans);
+  }, [user, currentSchedule, studyProfile, useSupabase]);
+  
+  /**
+   * Repair the schedule at the start of each day, moving yesterday's missed sessions
+   */
+  useEffect(() => {
+    if (!user || !hasSchedule) return undefined;
+    
+    let timeout: ReturnType<typeof setTimeout>;
+    const scheduleRollover = () => {
+      const now = new Date();
+      const nextDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 0, 1);
+      timeout = setTimeout(() => {
+        repairSchedule();
+        scheduleRollover();
+      }, nextDay.getTime() - now.getTime());
+    };
+    
+    scheduleRollover();
+    return () => clearTimeout(timeout);
+  }, [user, hasSchedule, repairSchedule]);
+  
+  /**
+   * Notify about sessions that are about to start
+   */
+  useEffect(() => {
+    if (!user || !currentSchedule) return undefined;
+
+    const checkUpcomingSessions = () => {
+      const now = Date.now();
+      currentSchedule.study_sessions
+        .filter(session => session.status === 'scheduled' || session.status === 'rescheduled')
+        .forEach(session => {
+          const minutesUntilStart = (new Date(`${session.date}T${session.start_time}`).getTime() - now) / 60000;
+          if (!(minutesUntilStart > 0 && minutesUntilStart <= SESSION_NOTICE_MINUTES)) return;
+
+          const className = classes.find(c => c.id === session.class_id)?.name || session.class_id;
+          notificationInboxService.notify({
+            kind: 'study_session',
+            title: `Study session at ${session.start_time}`,
+            body: `${className}: ${session.focus_area}`,
+            class_id: session.class_id,
+            task_id: session.task_ids[0] || null,
+            source_key: `study_session:${session.id}`,
+          }, user.id);
+        });
+    };
+
+    checkUpcomingSessions();
+    const interval = setInterval(checkUpcomingSessions, SESSION_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, currentSchedule, classes]);
+  
   return {
     // Core state
     currentSchedule,
     workloadAnalysis,
     studyProfile,
+    scheduleChanges,
     
     // UI state
     isLoading,
@@ -436,6 +659,8 @@ export const useStudySchedule = ({
     updateStudyProfile,
     updateSessionStatus,
     refreshFromCanvasTasks,
+    repairSchedule,
+    dismissScheduleChanges,
     
     // Data
     getTasksForScheduling,
@@ -1,15 +1,57 @@
 import { useState, useEffect, useCallback } from 'react';
 import { studySessionService } from '../services/studySessionService';
+import {
+  advanceFocusTimer,
+  createFocusTimer,
+  loadFocusTimer,
+  pauseFocusTimer,
+  resumeFocusTimer,
+  saveFocusTimer,
+  saveFocusTimerSettings,
+  startFocusBlock as startFocusBlockState,
+  stopFocusPhase,
+  type FinishedFocusBlock,
+  type FocusTimerSettings,
+  type FocusTimerState
+} from '../services/focusTimer';
 import { useAuth } from '../contexts/AuthContext';
 import { logger } from '../utils/logger';
 import type { StudySession, StudySessionInsert, ActiveStudySession, StudyAnalytics } from '../types/database';
 
+type SessionType = 'focused' | 'review' | 'practice' | 'reading';
+
+// How often a running focus timer checks whether its phase has ended
+const FOCUS_TICK_MS = 1000;
+
+const toActiveSession = (session: StudySession): ActiveStudySession => ({
+  id: session.id,
+  subject: session.subject,
+  startTime: new Date(session.start_time),
+  sessionType: session.session_type,
+  taskId: session.task_id || undefined,
+  classId: session.class_id || undefined,
+  interruptionsCount: session.interruptions_count || 0
+});
+
+const recordFinishedBlocks = async (blocks: FinishedFocusBlock[]): Promise<void> => {
+  await Promise.all(blocks.map(block =>
+    studySessionService.finishSegment(block.segmentId, block.endedAt, block.minutes, block.completed)
+  ));
+};
+
 export function useStudySession() {
   const { user } = useAuth();
   const [activeSession, setActiveSession] = useState<ActiveStudySession | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [analytics, setAnalytics] = useState<StudyAnalytics | null>(null);
+  // Restored from the device so a running timer survives reloads
+  const [focusTimer, setFocusTimerState] = useState<FocusTimerState | null>(loadFocusTimer);
+
+  const setFocusTimer = useCallback((state: FocusTimerState | null) => {
+    saveFocusTimer(state);
+    setFocusTimerState(state);
+  }, []);
 
   // Load active session on mount
   useEffect(() => {
@@ -26,40 +68,37 @@ export function useStudySession() {
       const session = await studySessionService.getActiveSession(user.id);
       
       if (session) {
-        setActiveSession({
-          id: session.id,
-          subject: session.subject,
-          startTime: new Date(session.start_time),
-          sessionType: session.session_type,
-          taskId: session.task_id || undefined,
-          classId: session.class_id || undefined,
-          interruptionsCount: session.interruptions_count || 0
-        });
+        setActiveSession(toActiveSession(session));
       } else {
         setActiveSession(null);
       }
+      // A timer left over from a session that has since ended is dropped
+      const storedTimer = loadFocusTimer();
+      if (storedTimer && storedTimer.sessionId !== session?.id) {
+        setFocusTimer(null);
+      }
     } catch (err) {
       logger.error('Error loading active session:', err);
       setError('Failed to load active study session');
     } finally {
       setIsLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, setFocusTimer]);
 
-  const startSession = useCallback(async (
+  const createActiveSession = useCallback(async (
     subject: string,
-    sessionType: 'focused' | 'review' | 'practice' | 'reading',
+    sessionType: SessionType,
     taskId?: string,
     classId?: string
-  ) => {
+  ): Promise<ActiveStudySession | null> => {
     if (!user?.id) {
       setError('User not authenticated');
-      return false;
+      return null;
     }
 
     if (activeSession) {
       setError('A study session is already active');
-      return false;
+      return null;
     }
 
     try {
@@ -79,31 +118,111 @@ export function useStudySession() {
       const session = await studySessionService.createSession(sessionData);
       
       if (session) {
-        setActiveSession({
-          id: session.id,
-          subject: session.subject,
-          startTime: new Date(session.start_time),
-          sessionType: session.session_type,
-          taskId: session.task_id || undefined,
-          classId: session.class_id || undefined,
-          interruptionsCount: session.interruptions_count || 0
-        });
+        const started = toActiveSession(session);
+        setActiveSession(started);
         
         logger.info('Study session started:', session.id);
-        return true;
+        return started;
       } else {
         setError('Failed to create study session');
-        return false;
+        return null;
       }
     } catch (err) {
       logger.error('Error starting study session:', err);
       setError('Failed to start study session');
-      return false;
+      return null;
     } finally {
       setIsLoading(false);
     }
   }, [user?.id, activeSession]);
 
+  const startSession = useCallback(async (
+    subject: string,
+    sessionType: SessionType,
+    taskId?: string,
+    classId?: string
+  ) => {
+    return (await createActiveSession(subject, sessionType, taskId, classId)) !== null;
+  }, [createActiveSession]);
+
+  // Record a new focus block as a segment of the session and start its countdown
+  const beginFocusBlock = useCallback(async (timer: FocusTimerState) => {
+    if (!user?.id) return false;
+
+    const now = new Date();
+    const segment = await studySessionService.startSegment({
+      user_id: user.id,
+      session_id: timer.sessionId,
+      task_id: timer.taskId || null,
+      cycle: timer.cycle + 1,
+      start_time: now.toISOString(),
+      planned_minutes: timer.settings.focusMinutes
+    });
+
+    if (!segment) {
+      setError('Failed to start focus block');
+      return false;
+    }
+    setFocusTimer(startFocusBlockState(timer, segment.id, now));
+    return true;
+  }, [user?.id, setFocusTimer]);
+
+  /**
+   * Start a session run by the focus timer, beginning with its first focus block
+   */
+  const startFocusSession = useCallback(async (
+    subject: string,
+    sessionType: SessionType,
+    settings: FocusTimerSettings,
+    taskId?: string,
+    classId?: string
+  ) => {
+    const session = await createActiveSession(subject, sessionType, taskId, classId);
+    if (!session) return false;
+
+    saveFocusTimerSettings(settings);
+    return beginFocusBlock(createFocusTimer(session.id, settings, taskId));
+  }, [createActiveSession, beginFocusBlock]);
+
+  // Start the next focus block once a break is over
+  const startNextFocusBlock = useCallback(async () => {
+    if (!focusTimer || focusTimer.phase !== 'idle') return false;
+    return beginFocusBlock(focusTimer);
+  }, [focusTimer, beginFocusBlock]);
+
+  const pauseFocus = useCallback(() => {
+    if (focusTimer) setFocusTimer(pauseFocusTimer(focusTimer, new Date()));
+  }, [focusTimer, setFocusTimer]);
+
+  const resumeFocus = useCallback(() => {
+    if (focusTimer) setFocusTimer(resumeFocusTimer(focusTimer, new Date()));
+  }, [focusTimer, setFocusTimer]);
+
+  // Cut the running focus block short, or skip the break
+  const stopFocusPhaseEarly = useCallback(async () => {
+    if (!focusTimer) return;
+    const { state, finished } = stopFocusPhase(focusTimer, new Date());
+    setFocusTimer(state);
+    await recordFinishedBlocks(finished);
+  }, [focusTimer, setFocusTimer]);
+
+  // Move the timer on when a phase ends, including phases that ended while
+  // the page was closed
+  useEffect(() => {
+    if (!focusTimer || focusTimer.phase === 'idle' || focusTimer.pausedRemainingMs !== null) return;
+
+    const tick = () => {
+      const { state, finished } = advanceFocusTimer(focusTimer, new Date());
+      if (state === focusTimer) return;
+      setFocusTimer(state);
+      recordFinishedBlocks(finished);
+    };
+
+    tick();
+    const interval = setInterval(tick, FOCUS_TICK_MS);
+    return () => clearInterval(interval);
+  }, [focusTimer, setFocusTimer]);
+
   const endSession = useCallback(async (effectivenessRating?: number, notes?: string) => {
     if (!activeSession) {
       setError('No active study session to end');
@@ -114,6 +233,11 @@ export function useStudySession() {
       setIsLoading(true);
       setError(null);
 
+      if (focusTimer) {
+        const { finished } = stopFocusPhase(focusTimer, new Date());
+        await recordFinishedBlocks(finished);
+      }
+
       const endTime = new Date().toISOString();
       const updatedSession = await studySessionService.endSession(
         activeSession.id,
@@ -124,6 +248,7 @@ export function useStudySession() {
 
       if (updatedSession) {
         setActiveSession(null);
+        setFocusTimer(null);
         logger.info('Study session ended:', activeSession.id);
         return true;
       } else {
@@ -137,7 +262,7 @@ export function useStudySession() {
     } finally {
       setIsLoading(false);
     }
-  }, [activeSession]);
+  }, [activeSession, focusTimer, setFocusTimer]);
 
   const addInterruption = useCallback(async () => {
     if (!activeSession) return false;
@@ -184,20 +309,33 @@ export function useStudySession() {
     return Math.floor(diffMs / (1000 * 60)); // Convert to minutes
   }, [activeSession]);
 
+  // Minutes spent on a task across all sessions
+  const getTimeOnTask = useCallback(async (taskId: string) => {
+    if (!user?.id) return 0;
+    return studySessionService.getTimeOnTask(user.id, taskId);
+  }, [user?.id]);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
   return {
     activeSession,
+    focusTimer: focusTimer && activeSession && focusTimer.sessionId === activeSession.id ? focusTimer : null,
     isLoading,
     error,
     analytics,
     startSession,
+    startFocusSession,
+    startNextFocusBlock,
+    pauseFocus,
+    resumeFocus,
+    stopFocusPhase: stopFocusPhaseEarly,
     endSession,
     addInterruption,
     loadAnalytics,
     getSessionDuration,
+    getTimeOnTask,
     clearError,
     refreshActiveSession: loadActiveSession
   };
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { User } from '@supabase/supabase-js';
 import type { ClassWithRelations, TaskType, TaskWithMeta } from '../types/database';
 import { TaskData } from '../components/TaskModal';
+import { parseRepeatSettings, getTaskAnchorDate } from '../utils/recurringTaskHelpers';
 
 interface UseTaskFormProps {
   editingTask: TaskWithMeta | null;
@@ -36,6 +37,8 @@ export const useTaskForm = ({
     endDate: "",
     endTime: "11:00",
     completed: false,
+    repeat: null,
+    reminder_offsets: null,
   });
 
   // Update task state when props change
@@ -53,6 +56,8 @@ export const useTaskForm = ({
       endDate: formattedDate,
       endTime: "11:00",
       completed: false,
+      repeat: null,
+      reminder_offsets: null,
     };
 
     // If editing an existing task, override with its data
@@ -72,6 +77,9 @@ export const useTaskForm = ({
         endTime: editingTask.endTime || newTaskState.endTime,
         completed: Boolean(editingTask.completed),
         date: editingTask.date,
+        repeat: parseRepeatSettings(editingTask),
+        reminder_offsets: editingTask.reminder_offsets ?? null,
+        editScope: editingTask.seriesId ? 'this' : undefined,
       };
     }
 
@@ -116,6 +124,14 @@ export const useTaskForm = ({
       return;
     }
     
+    if (task.repeat?.endType === 'until') {
+      const anchorDate = getTaskAnchorDate(task);
+      if (!task.repeat.until || (anchorDate && task.repeat.until < anchorDate)) {
+        alert('Please choose a repeat end date on or after the task date');
+        return;
+      }
+    }
+    
     // Ensure we have an id for editing tasks
     const taskToSubmit: TaskData = { 
       ...task, 
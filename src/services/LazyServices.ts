@@ -15,6 +15,9 @@ export const lazyNotificationService = () =>
 export const lazyEmailNotificationTrigger = () => 
   import("./emailNotificationTrigger").then(module => module);
 
+export const lazyReminderService = () => 
+  import("./reminders").then(module => module);
+
 // Study Analytics - Complex calculations
 export const lazyStudyScheduleService = () => 
   import("./studyScheduleService").then(module => module);
@@ -16,6 +16,7 @@ import type {
   FileFingerprintRow,
   CachedTaskData,
   TaskGenerationMetadata,
+  StageOutputs,
   ProcessingStatus,
   CacheQueryOptions,
   CacheOperationResult,
@@ -355,6 +356,70 @@ export class CacheService {
     }
   }
 
+  /**
+   * Get the cached outputs of the syllabus pipeline's stages for a file
+   */
+  async getStageOutputs(contentHash: string): Promise<StageOutputs> {
+    const cacheEntry = await this.checkFingerprint(contentHash);
+
+    if (!cacheEntry?.stageOutputs || cacheEntry.processingStatus === 'failed') {
+      return {};
+    }
+
+    logger.info('Retrieved cached stage outputs', {
+      contentHash: contentHash.substring(0, 12) + '...',
+      stages: Object.keys(cacheEntry.stageOutputs)
+    });
+
+    return cacheEntry.stageOutputs;
+  }
+
+  /**
+   * Store outputs of the syllabus pipeline's stages for a file, alongside
+   * those already stored. The file's fingerprint must already be stored.
+   */
+  async storeStageOutputs(contentHash: string, outputs: StageOutputs): Promise<boolean> {
+    try {
+      const cacheEntry = await this.checkFingerprint(contentHash);
+      if (!cacheEntry) {
+        logger.debug('No fingerprint to store stage outputs with', {
+          contentHash: contentHash.substring(0, 12) + '...'
+        });
+        return false;
+      }
+
+      const { error } = await supabase
+        .from('file_fingerprints')
+        .update({
+          stage_outputs: JSON.stringify({ ...cacheEntry.stageOutputs, ...outputs }),
+          last_used_at: new Date().toISOString()
+        })
+        .eq('content_hash', contentHash);
+
+      if (error) {
+        logger.warn('Failed to store stage outputs', {
+          contentHash: contentHash.substring(0, 12) + '...',
+          error: error.message
+        });
+        return false;
+      }
+
+      logger.info('Stored stage outputs', {
+        contentHash: contentHash.substring(0, 12) + '...',
+        stages: Object.keys(outputs)
+      });
+
+      return true;
+
+    } catch (error) {
+      logger.error('Error storing stage outputs', {
+        contentHash: contentHash.substring(0, 12) + '...',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
   /**
    * Clean up expired cache entries
    */
@@ -443,6 +508,7 @@ export class CacheService {
       extractionMethod: row.extraction_method as any,
       generatedTasks: row.generated_tasks ? JSON.parse(row.generated_tasks) : undefined,
       taskGenerationMetadata: row.task_generation_metadata ? JSON.parse(row.task_generation_metadata) : undefined,
+      stageOutputs: row.stage_outputs ? JSON.parse(row.stage_outputs) : undefined,
       embeddingChunks: row.embedding_chunks || 0,
       embeddingsCreated: row.embeddings_created,
       useCount: row.use_count,
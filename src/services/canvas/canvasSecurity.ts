@@ -53,6 +53,31 @@ export const CanvasSecurityUtils = {
     return { isValid: true };
   },
 
+  /**
+   * Validate a non-Canvas calendar feed URL (Gradescope, Google Calendar, club calendars)
+   * 
+   * @param url - URL to validate
+   * @returns Validation result with isValid flag and optional reason
+   */
+  validateFeedUrl(url: string): UrlValidationResult {
+    if (!url.startsWith('https://')) {
+      return { isValid: false, reason: 'Feed URL must use HTTPS' };
+    }
+
+    // Catch several URLs pasted into the same field
+    if (url.includes('icshttps://') || url.split('https://').length > 2) {
+      return { isValid: false, reason: 'URL appears to contain multiple addresses' };
+    }
+
+    try {
+      new URL(url);
+    } catch {
+      return { isValid: false, reason: 'URL is not well formed' };
+    }
+
+    return { isValid: true };
+  },
+
   /**
    * Clean error messages to remove sensitive information
    * 
@@ -0,0 +1,197 @@
+import type { User } from '@supabase/supabase-js';
+import { logger } from '../../utils/logger';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import { generateUniqueId } from '../../utils/idHelpers';
+import { fetchCanvasCalendar, PRIMARY_CANVAS_FEED_ID } from '../canvasService';
+import type { FetchCanvasResult } from '../canvasService';
+import type { CanvasSyncSummary } from './syncDiff';
+
+export type CalendarFeedSource = 'canvas' | 'gradescope' | 'google' | 'outlook' | 'other';
+
+// Outcome of the most recent sync of a feed
+export interface CalendarFeedSyncStatus {
+  syncedAt: string;
+  success: boolean;
+  message: string;
+  summary?: CanvasSyncSummary;
+}
+
+// A calendar subscription the user pulls tasks from
+export interface CalendarFeed {
+  id: string;
+  label: string;
+  url: string;
+  source: CalendarFeedSource;
+  defaultClassId?: string;
+  defaultTaskType?: string;
+  enabled: boolean;
+  createdAt: string;
+  lastSync?: CalendarFeedSyncStatus;
+}
+
+export type CalendarFeedInput = Pick<CalendarFeed, 'label' | 'url'> &
+  Partial<Pick<CalendarFeed, 'source' | 'defaultClassId' | 'defaultTaskType' | 'enabled'>>;
+
+export interface FeedSyncResult extends FetchCanvasResult {
+  feedId: string;
+}
+
+export const CALENDAR_FEEDS_KEY = 'calendar_feeds';
+export const LEGACY_CANVAS_URL_KEY = 'canvas_calendar_url';
+
+/**
+ * Guesses which service a feed URL belongs to
+ */
+export const detectFeedSource = (url: string): CalendarFeedSource => {
+  const lower = url.toLowerCase();
+  if (lower.includes('gradescope')) return 'gradescope';
+  if (lower.includes('calendar.google.com') || lower.includes('googleusercontent')) return 'google';
+  if (lower.includes('outlook.') || lower.includes('office365') || lower.includes('live.com')) return 'outlook';
+  if (lower.includes('canvas') || lower.includes('elearn') || /\/feeds\/calendars\/user_/.test(lower)) return 'canvas';
+  return 'other';
+};
+
+/**
+ * Converts webcal:// links (what "Subscribe" buttons usually copy) to https://
+ */
+export const normalizeFeedUrl = (url: string): string =>
+  url.trim().replace(/^webcals?:\/\//i, 'https://');
+
+const saveFeeds = (feeds: CalendarFeed[]): void => {
+  saveLocalData(CALENDAR_FEEDS_KEY, feeds);
+};
+
+/**
+ * Returns all registered feeds. On first use, the single Canvas URL saved by
+ * older versions is migrated into the registry as the primary Canvas feed.
+ */
+export const getFeeds = (): CalendarFeed[] => {
+  const feeds = getLocalData<CalendarFeed[] | null>(CALENDAR_FEEDS_KEY, null);
+  if (feeds) return feeds;
+
+  const legacyUrl = localStorage.getItem(LEGACY_CANVAS_URL_KEY);
+  const migrated: CalendarFeed[] = legacyUrl && legacyUrl.trim() ? [{
+    id: PRIMARY_CANVAS_FEED_ID,
+    label: 'Canvas',
+    url: legacyUrl.trim(),
+    source: 'canvas',
+    enabled: true,
+    createdAt: new Date().toISOString(),
+  }] : [];
+
+  saveFeeds(migrated);
+  if (migrated.length > 0) {
+    logger.debug('[feedRegistry] Migrated legacy Canvas URL into feed registry');
+  }
+  return migrated;
+};
+
+export const getFeed = (feedId: string): CalendarFeed | undefined =>
+  getFeeds().find(feed => feed.id === feedId);
+
+/**
+ * Registers a new feed. The first Canvas feed takes over the primary feed ID so
+ * tasks synced from the old single-URL setting keep their change history.
+ */
+export const addFeed = (input: CalendarFeedInput): CalendarFeed => {
+  const feeds = getFeeds();
+  const url = normalizeFeedUrl(input.url);
+  const source = input.source || detectFeedSource(url);
+
+  if (feeds.some(feed => feed.url === url)) {
+    throw new Error('This calendar feed has already been added');
+  }
+
+  const usePrimaryId = source === 'canvas' && !feeds.some(feed => feed.id === PRIMARY_CANVAS_FEED_ID);
+  const feed: CalendarFeed = {
+    id: usePrimaryId ? PRIMARY_CANVAS_FEED_ID : generateUniqueId('feed'),
+    label: input.label.trim() || 'Calendar',
+    url,
+    source,
+    defaultClassId: input.defaultClassId || undefined,
+    defaultTaskType: input.defaultTaskType || undefined,
+    enabled: input.enabled ?? true,
+    createdAt: new Date().toISOString(),
+  };
+
+  saveFeeds([...feeds, feed]);
+  return feed;
+};
+
+export const updateFeed = (feedId: string, updates: Partial<Omit<CalendarFeed, 'id' | 'createdAt'>>): CalendarFeed | null => {
+  const feeds = getFeeds();
+  const index = feeds.findIndex(feed => feed.id === feedId);
+  if (index === -1) return null;
+
+  const updated: CalendarFeed = {
+    ...feeds[index],
+    ...updates,
+    url: updates.url ? normalizeFeedUrl(updates.url) : feeds[index].url,
+  };
+  feeds[index] = updated;
+  saveFeeds(feeds);
+  return updated;
+};
+
+/**
+ * Removes a feed from the registry. Tasks already imported from it are kept.
+ */
+export const removeFeed = (feedId: string): boolean => {
+  const feeds = getFeeds();
+  const remaining = feeds.filter(feed => feed.id !== feedId);
+  if (remaining.length === feeds.length) return false;
+  saveFeeds(remaining);
+  return true;
+};
+
+/**
+ * Syncs one feed through the shared fetch/parse/diff pipeline and records its status
+ */
+export const syncFeed = async (
+  feed: CalendarFeed,
+  useSupabase = false,
+  user: User | null = null
+): Promise<FeedSyncResult> => {
+  let result: FetchCanvasResult;
+  try {
+    result = await fetchCanvasCalendar(feed.url, useSupabase, user, {
+      feedId: feed.id,
+      feedLabel: feed.label,
+      defaultClassId: feed.defaultClassId,
+      defaultTaskType: feed.defaultTaskType,
+      validation: feed.source === 'canvas' ? 'canvas' : 'generic',
+    });
+  } catch (error) {
+    result = {
+      success: false,
+      message: `${feed.label} sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      tasks: [],
+    };
+  }
+
+  updateFeed(feed.id, {
+    lastSync: {
+      syncedAt: new Date().toISOString(),
+      success: result.success,
+      message: result.message,
+      summary: result.summary,
+    },
+  });
+
+  return { ...result, feedId: feed.id };
+};
+
+/**
+ * Syncs every enabled feed one after another (feeds share the proxy services,
+ * so running them in parallel mostly trips rate limits)
+ */
+export const syncAllFeeds = async (
+  useSupabase = false,
+  user: User | null = null
+): Promise<FeedSyncResult[]> => {
+  const results: FeedSyncResult[] = [];
+  for (const feed of getFeeds().filter(item => item.enabled)) {
+    results.push(await syncFeed(feed, useSupabase, user));
+  }
+  return results;
+};
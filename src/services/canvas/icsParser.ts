@@ -1,4 +1,16 @@
 import { logger } from '../../utils/logger';
+import {
+  expandRecurrence,
+  formatFloatingDate,
+  parseFloatingDate,
+  parseRRule,
+} from '../../utils/recurrenceHelpers';
+import {
+  getUserTimeZone,
+  getWallClockTime,
+  normalizeTimeZoneId,
+  wallClockToDate,
+} from '../../utils/timezoneHelpers';
 
 // Canvas event interface for ICS parsing
 export interface CanvasEvent {
@@ -6,23 +18,467 @@ export interface CanvasEvent {
   description?: string;
   location?: string;
   uid?: string;
-  start?: string;
+  start?: string; // YYYYMMDD for all-day events, otherwise a UTC YYYYMMDDTHHMMSSZ value
   end?: string;
+  status?: string;
+  isAllDay?: boolean;
+  timeZone?: string; // IANA zone from the DTSTART TZID parameter, when present
+  // Recurrence information (RRULE/RDATE/EXDATE/RECURRENCE-ID)
+  rrule?: string;
+  rdates?: string[];
+  exdates?: string[];
+  recurrenceId?: string; // Occurrence key, same format as start
+  seriesUid?: string; // UID shared by every occurrence of a series
+  occurrenceIndex?: number;
+  isRecurringInstance?: boolean;
+  isOverride?: boolean; // Occurrence replaced by an instructor-edited instance
 }
 
+// Options controlling recurrence expansion and time zone resolution
+export interface ICSParseOptions {
+  expandRecurrences?: boolean;
+  windowStart?: Date;
+  windowEnd?: Date;
+  timeZone?: string; // Zone used for floating times; defaults to the device zone
+  maxOccurrencesPerSeries?: number;
+}
+
+export const DEFAULT_RECURRENCE_WINDOW_PAST_DAYS = 30;
+export const DEFAULT_RECURRENCE_WINDOW_FUTURE_DAYS = 180;
+
+// A date-time property value with its parameters, before time zone resolution
+interface RawDateValue {
+  value: string;
+  tzid?: string;
+  isDate: boolean;
+}
+
+interface RawEvent {
+  summary?: string;
+  description?: string;
+  location?: string;
+  uid?: string;
+  status?: string;
+  dtstart?: RawDateValue;
+  dtend?: RawDateValue;
+  duration?: string;
+  rrule?: string;
+  rdates: RawDateValue[];
+  exdates: RawDateValue[];
+  recurrenceId?: RawDateValue;
+}
+
+// A resolved point in time; all-day values keep only their calendar date
+interface ResolvedDate {
+  instant: Date;
+  isAllDay: boolean;
+  key: string;
+}
+
+const DAY_MS = 86400000;
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\');
+
+const parseParams = (keyPart: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  keyPart.split(';').slice(1).forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.substring(0, eq).toUpperCase()] = param.substring(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+  return params;
+};
+
+const toRawDateValues = (keyPart: string, valuePart: string): RawDateValue[] => {
+  const params = parseParams(keyPart);
+  return valuePart.split(',').map(value => value.trim()).filter(Boolean).map(value => ({
+    value,
+    tzid: params.TZID,
+    isDate: params.VALUE === 'DATE' || /^\d{8}$/.test(value),
+  }));
+};
+
+const formatUtcKey = (date: Date): string =>
+  `${date.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`;
+
+/**
+ * Resolves an ICS date value to an instant. TZID-qualified times are converted
+ * from their zone, UTC values are kept, and floating times use the fallback zone.
+ */
+const resolveDateValue = (raw: RawDateValue, fallbackZone: string): ResolvedDate | null => {
+  const floating = parseFloatingDate(raw.value);
+  if (!floating) return null;
+
+  if (raw.isDate) {
+    return { instant: floating, isAllDay: true, key: formatFloatingDate(floating, true) };
+  }
+
+  let instant: Date;
+  if (raw.value.endsWith('Z')) {
+    instant = floating;
+  } else {
+    const zone = normalizeTimeZoneId(raw.tzid) || fallbackZone;
+    if (raw.tzid && !normalizeTimeZoneId(raw.tzid)) {
+      logger.warn(`[parseICS] Unknown TZID "${raw.tzid}", treating time as ${fallbackZone}`);
+    }
+    instant = wallClockToDate({
+      year: floating.getUTCFullYear(),
+      month: floating.getUTCMonth() + 1,
+      day: floating.getUTCDate(),
+      hour: floating.getUTCHours(),
+      minute: floating.getUTCMinutes(),
+      second: floating.getUTCSeconds(),
+    }, zone);
+  }
+
+  return { instant, isAllDay: false, key: formatUtcKey(instant) };
+};
+
+// Converts an instant to a floating wall-clock date in a zone (see recurrenceHelpers)
+const toFloating = (instant: Date, zone: string): Date => {
+  const wall = getWallClockTime(instant, zone);
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second));
+};
+
+/**
+ * Parses an ICS DURATION value (e.g. "PT1H30M", "P1D", "-P1W") into milliseconds
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 3600 +
+    +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const formatResolved = (date: Date, isAllDay: boolean): string =>
+  isAllDay ? formatFloatingDate(date, true) : formatUtcKey(date);
+
+/**
+ * Splits raw ICS text into VEVENT property bags, unfolding continuation lines
+ */
+const readRawEvents = (icsData: string): RawEvent[] => {
+  const rawEvents: RawEvent[] = [];
+  const lines = icsData.replace(/\r\n/g, '\n').split('\n');
+  let currentEvent: RawEvent | null = null;
+  let nestedDepth = 0; // VALARM and other sub-components inside a VEVENT
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line === 'BEGIN:VEVENT') {
+      currentEvent = { rdates: [], exdates: [] };
+      nestedDepth = 0;
+    } else if (line === 'END:VEVENT' && currentEvent) {
+      rawEvents.push(currentEvent);
+      currentEvent = null;
+    } else if (currentEvent) {
+      if (line.startsWith('BEGIN:')) {
+        nestedDepth++;
+        continue;
+      }
+      if (line.startsWith('END:')) {
+        nestedDepth = Math.max(0, nestedDepth - 1);
+        continue;
+      }
+
+      let fullLine = line;
+      // Handle potential multi-line values (folded lines)
+      while (i + 1 < lines.length && (lines[i + 1].startsWith(' ') || lines[i + 1].startsWith('\t'))) {
+        i++;
+        fullLine += lines[i].substring(1); // Drop the single folding whitespace character
+      }
+      fullLine = fullLine.trim();
+      if (nestedDepth > 0) continue;
+
+      const colonPosition = fullLine.indexOf(':');
+      if (colonPosition <= 0) continue;
+
+      const keyPart = fullLine.substring(0, colonPosition);
+      const valuePart = fullLine.substring(colonPosition + 1);
+      const mainKey = keyPart.split(';')[0].toUpperCase(); // Get main key like DTSTART, SUMMARY
+
+      switch (mainKey) {
+      case 'SUMMARY':
+        currentEvent.summary = unescapeText(valuePart);
+        break;
+      case 'DESCRIPTION':
+        currentEvent.description = unescapeText(valuePart);
+        break;
+      case 'LOCATION':
+        currentEvent.location = unescapeText(valuePart);
+        break;
+      case 'UID':
+        currentEvent.uid = valuePart;
+        break;
+      case 'STATUS':
+        currentEvent.status = valuePart.toUpperCase();
+        break;
+      case 'DTSTART':
+        // Canvas emits DTSTART;VALUE=DATE;VALUE=DATE:20240315 - the value itself is still valid
+        currentEvent.dtstart = toRawDateValues(keyPart, valuePart)[0];
+        break;
+      case 'DTEND':
+        currentEvent.dtend = toRawDateValues(keyPart, valuePart)[0];
+        break;
+      case 'DURATION':
+        currentEvent.duration = valuePart;
+        break;
+      case 'RRULE':
+        currentEvent.rrule = valuePart;
+        break;
+      case 'RDATE':
+        currentEvent.rdates.push(...toRawDateValues(keyPart, valuePart));
+        break;
+      case 'EXDATE':
+        currentEvent.exdates.push(...toRawDateValues(keyPart, valuePart));
+        break;
+      case 'RECURRENCE-ID':
+        currentEvent.recurrenceId = toRawDateValues(keyPart, valuePart)[0];
+        break;
+      default:
+        break;
+      }
+    }
+  }
+
+  return rawEvents;
+};
+
+/**
+ * Converts a raw VEVENT into a single (non-expanded) CanvasEvent
+ */
+const toCanvasEvent = (raw: RawEvent, fallbackZone: string): CanvasEvent => {
+  const event: CanvasEvent = {
+    summary: raw.summary,
+    description: raw.description,
+    location: raw.location,
+    uid: raw.uid,
+    status: raw.status,
+  };
+
+  const start = raw.dtstart ? resolveDateValue(raw.dtstart, fallbackZone) : null;
+  if (start) {
+    event.start = formatResolved(start.instant, start.isAllDay);
+    event.isAllDay = start.isAllDay;
+    const zone = normalizeTimeZoneId(raw.dtstart?.tzid);
+    if (zone) event.timeZone = zone;
+  } else if (raw.dtstart) {
+    event.start = raw.dtstart.value; // Leave unparseable values for parseICSDate to report
+  }
+
+  const end = raw.dtend ? resolveDateValue(raw.dtend, fallbackZone) : null;
+  if (end) {
+    event.end = formatResolved(end.instant, end.isAllDay);
+  } else if (raw.dtend) {
+    event.end = raw.dtend.value;
+  } else if (start && raw.duration) {
+    const durationMs = parseDuration(raw.duration);
+    if (durationMs !== null) {
+      event.end = formatResolved(new Date(start.instant.getTime() + durationMs), start.isAllDay);
+    }
+  }
+
+  if (raw.rrule) event.rrule = raw.rrule;
+  if (raw.rdates.length) {
+    event.rdates = raw.rdates.map(rdate => resolveDateValue(rdate, fallbackZone)?.key).filter((key): key is string => !!key);
+  }
+  if (raw.exdates.length) {
+    event.exdates = raw.exdates.map(exdate => resolveDateValue(exdate, fallbackZone)?.key).filter((key): key is string => !!key);
+  }
+  if (raw.recurrenceId) {
+    const recurrenceId = resolveDateValue(raw.recurrenceId, fallbackZone);
+    if (recurrenceId) event.recurrenceId = recurrenceId.key;
+  }
+
+  return event;
+};
+
+/**
+ * Expands a recurring master VEVENT into individual occurrences within the window,
+ * applying EXDATEs, RDATEs and RECURRENCE-ID overrides
+ */
+const expandSeries = (
+  master: RawEvent,
+  overrides: RawEvent[],
+  fallbackZone: string,
+  windowStart: Date,
+  windowEnd: Date,
+  maxOccurrences: number
+): CanvasEvent[] => {
+  const base = toCanvasEvent(master, fallbackZone);
+  const start = master.dtstart ? resolveDateValue(master.dtstart, fallbackZone) : null;
+  if (!start || !master.uid) return [base];
+
+  // Expansion happens in the event's own zone so weekly 10:00 lectures stay at 10:00 across DST
+  const seriesZone = start.isAllDay
+    ? 'UTC'
+    : master.dtstart?.value.endsWith('Z') ? 'UTC' : normalizeTimeZoneId(master.dtstart?.tzid) || fallbackZone;
+
+  let durationMs = 0;
+  if (base.end) {
+    const end = master.dtend ? resolveDateValue(master.dtend, fallbackZone) : null;
+    if (end) {
+      durationMs = end.instant.getTime() - start.instant.getTime();
+    } else if (master.duration) {
+      durationMs = parseDuration(master.duration) || 0;
+    }
+  }
+
+  // Instants as floating wall-clock times in the zone the series is expanded in
+  const toSeriesFloating = (instant: Date): Date =>
+    toFloating(instant, start.isAllDay ? fallbackZone : seriesZone);
+
+  const rule = master.rrule ? parseRRule(master.rrule) : null;
+  if (master.rrule && !rule) {
+    logger.warn(`[parseICS] Unsupported RRULE "${master.rrule}" on event ${master.uid}`);
+  }
+  if (rule) {
+    // A UTC UNTIL must be compared in the series zone, not as a floating value
+    const untilMatch = master.rrule?.match(/UNTIL=(\d{8}(?:T\d{6}Z?)?)/i);
+    if (untilMatch && untilMatch[1].endsWith('Z') && rule.until) {
+      rule.until = toFloating(rule.until, seriesZone);
+    } else if (rule.until && untilMatch && /^\d{8}$/.test(untilMatch[1]) && !start.isAllDay) {
+      rule.until = new Date(rule.until.getTime() + DAY_MS - 1000); // Date-only UNTIL covers the whole day
+    }
+  }
+
+  /**
+   * Occurrence starts by key: DTSTART, the RRULE dates between two floating
+   * bounds and every RDATE, less the EXDATEs
+   */
+  const collectStarts = (floatingFrom: Date, floatingTo: Date, maxResults: number): Map<string, Date> => {
+    const starts = new Map<string, Date>();
+    starts.set(start.key, start.instant);
+
+    if (rule) {
+      const floatingStart = start.isAllDay ? start.instant : toFloating(start.instant, seriesZone);
+      const occurrences = expandRecurrence(floatingStart, rule, {
+        windowStart: floatingFrom,
+        windowEnd: floatingTo,
+        maxOccurrences: maxResults,
+      });
+
+      for (const occurrence of occurrences) {
+        const instant = start.isAllDay
+          ? occurrence
+          : wallClockToDate({
+            year: occurrence.getUTCFullYear(),
+            month: occurrence.getUTCMonth() + 1,
+            day: occurrence.getUTCDate(),
+            hour: occurrence.getUTCHours(),
+            minute: occurrence.getUTCMinutes(),
+            second: occurrence.getUTCSeconds(),
+          }, seriesZone);
+        starts.set(formatResolved(instant, start.isAllDay), instant);
+      }
+    }
+
+    for (const rdate of master.rdates) {
+      const resolved = resolveDateValue(rdate, fallbackZone);
+      if (resolved) starts.set(resolved.key, resolved.instant);
+    }
+
+    for (const exdate of master.exdates) {
+      const resolved = resolveDateValue(exdate, fallbackZone);
+      if (resolved) starts.delete(resolved.key);
+    }
+    return starts;
+  };
+
+  const occurrenceStarts = collectStarts(toSeriesFloating(windowStart), toSeriesFloating(windowEnd), maxOccurrences);
+
+  const windowStartTime = start.isAllDay ? toFloating(windowStart, fallbackZone).getTime() : windowStart.getTime();
+  const windowEndTime = start.isAllDay ? toFloating(windowEnd, fallbackZone).getTime() : windowEnd.getTime();
+  const isInWindow = (instant: Date): boolean =>
+    instant.getTime() >= windowStartTime && instant.getTime() <= windowEndTime;
+
+  // Overrides can move an occurrence into the window from outside it. Only
+  // ones that replace an occurrence the series has count; an EXDATE'd one, or
+  // one past COUNT or UNTIL, is dropped.
+  const overridesByKey = new Map<string, CanvasEvent>();
+  overrides.forEach(override => {
+    const overrideEvent = toCanvasEvent(override, fallbackZone);
+    const original = override.recurrenceId ? resolveDateValue(override.recurrenceId, fallbackZone) : null;
+    if (!overrideEvent.recurrenceId || !original) return;
+
+    if (!occurrenceStarts.has(original.key)) {
+      const floatingOriginal = start.isAllDay ? original.instant : toFloating(original.instant, seriesZone);
+      if (!collectStarts(floatingOriginal, floatingOriginal, 1).has(original.key)) return;
+      occurrenceStarts.set(original.key, original.instant);
+    }
+    overridesByKey.set(overrideEvent.recurrenceId, overrideEvent);
+  });
+
+  // Occurrences in the window and moved ones alike, in series order
+  const sortedKeys = Array.from(occurrenceStarts.entries())
+    .filter(([key, instant]) => isInWindow(instant) || overridesByKey.has(key))
+    .sort((a, b) => a[1].getTime() - b[1].getTime())
+    .map(([key]) => key);
+
+  const events: CanvasEvent[] = [];
+  sortedKeys.forEach((key, index) => {
+    const override = overridesByKey.get(key);
+    if (override) {
+      if (override.status === 'CANCELLED') return;
+      const originalStart = occurrenceStarts.get(key);
+      const overrideStart = override.start ? parseFloatingDate(override.start) : null;
+      if (originalStart && !isInWindow(originalStart) && overrideStart && !isInWindow(overrideStart)) {
+        return;
+      }
+      events.push({
+        ...base,
+        ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined)),
+        uid: `${master.uid}::${key}`,
+        seriesUid: master.uid,
+        recurrenceId: key,
+        occurrenceIndex: index,
+        isRecurringInstance: true,
+        isOverride: true,
+      });
+      return;
+    }
+
+    const instant = occurrenceStarts.get(key);
+    if (!instant) return;
+    events.push({
+      ...base,
+      start: formatResolved(instant, start.isAllDay),
+      end: base.end ? formatResolved(new Date(instant.getTime() + durationMs), start.isAllDay) : undefined,
+      uid: `${master.uid}::${key}`,
+      seriesUid: master.uid,
+      recurrenceId: key,
+      occurrenceIndex: index,
+      isRecurringInstance: true,
+      isOverride: false,
+    });
+  });
+
+  return events;
+};
+
 /**
  * Parses ICS (iCalendar) data from Canvas and converts it to CanvasEvent objects.
- * 
+ *
  * This function handles Canvas-specific ICS formatting issues and malformed data:
  * - Handles folded lines (multi-line properties)
  * - Cleans up malformed DTSTART/DTEND values
  * - Extracts key event properties like UID, SUMMARY, DESCRIPTION
- * - Processes Canvas URL patterns and course information
+ * - Converts TZID-qualified and floating times to UTC instants
+ * - Expands RRULE/RDATE series within a window, honouring EXDATE and
+ *   RECURRENCE-ID overrides (instructor-edited single instances)
  * - Provides comprehensive error handling and logging
- * 
+ *
+ * Each expanded occurrence gets a unique `uid` of the form `<UID>::<occurrence key>`
+ * so it can be stored as its own task; `seriesUid` keeps the original UID.
+ *
  * @param icsData - Raw ICS calendar data string from Canvas
+ * @param options - Recurrence window and zone used for floating times
  * @returns Array of parsed CanvasEvent objects
- * 
+ *
  * @example
  * ```typescript
  * const icsData = `BEGIN:VCALENDAR
@@ -33,112 +489,92 @@ export interface CanvasEvent {
  * DTSTART:20240315T100000Z
  * END:VEVENT
  * END:VCALENDAR`;
- * 
+ *
  * const events = parseICS(icsData);
  * console.log(events.length); // 1
  * ```
- * 
+ *
  * @throws {Error} When ICS data is malformed or cannot be parsed
- * 
+ *
  * @internal This is an internal Canvas service function
  */
-export function parseICS(icsData: string): CanvasEvent[] {
+export function parseICS(icsData: string, options: ICSParseOptions = {}): CanvasEvent[] {
   const events: CanvasEvent[] = [];
-  
+
   try {
-    const lines = icsData.replace(/\r\n/g, '\n').split('\n');
-    let currentEvent: CanvasEvent | null = null;
-    let lineNumber = 0;
-    
+    const fallbackZone = normalizeTimeZoneId(options.timeZone) || getUserTimeZone();
+    const now = Date.now();
+    const windowStart = options.windowStart || new Date(now - DEFAULT_RECURRENCE_WINDOW_PAST_DAYS * DAY_MS);
+    const windowEnd = options.windowEnd || new Date(now + DEFAULT_RECURRENCE_WINDOW_FUTURE_DAYS * DAY_MS);
+    const expand = options.expandRecurrences !== false;
+    const maxOccurrences = options.maxOccurrencesPerSeries || 500;
+
     // Processing ICS data - verbose logging reduced for startup performance
+    const rawEvents = readRawEvents(icsData);
 
-    for (let i = 0; i < lines.length; i++) {
-      lineNumber = i + 1;
-      const line = lines[i].trim();
+    // Group instructor-edited instances (RECURRENCE-ID) with their series
+    const overridesByUid = new Map<string, RawEvent[]>();
+    const recurringUids = new Set<string>();
+    rawEvents.forEach(raw => {
+      if (raw.uid && raw.recurrenceId) {
+        overridesByUid.set(raw.uid, [...(overridesByUid.get(raw.uid) || []), raw]);
+      } else if (raw.uid && (raw.rrule || raw.rdates.length > 0)) {
+        recurringUids.add(raw.uid);
+      }
+    });
 
-    if (line === 'BEGIN:VEVENT') {
-      currentEvent = {};
-    } else if (line === 'END:VEVENT' && currentEvent) {
-      events.push(currentEvent);
-      currentEvent = null;
-    } else if (currentEvent) {
-      let fullLine = line;
-      // Handle potential multi-line values (folded lines)
-      while (i + 1 < lines.length && (lines[i + 1].startsWith(' ') || lines[i + 1].startsWith('\t'))) {
-        i++;
-        fullLine += lines[i].trim(); // Append unfolded part
+    for (const raw of rawEvents) {
+      if (raw.status === 'CANCELLED') {
+        logger.debug(`[parseICS] Skipping cancelled event ${raw.uid || 'N/A'}`);
+        continue;
       }
 
-      const colonPosition = fullLine.indexOf(':');
-      if (colonPosition > 0) {
-        const keyPart = fullLine.substring(0, colonPosition);
-        const valuePart = fullLine.substring(colonPosition + 1);
-        const mainKey = keyPart.split(';')[0]; // Get main key like DTSTART, SUMMARY
-
-        // Process common keys
-        if (mainKey === 'SUMMARY') {
-          // Basic unescaping for common ICS characters (same as DESCRIPTION)
-          currentEvent.summary = valuePart.replace(/\\n/g, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\');
-        } else if (mainKey === 'DESCRIPTION') {
-          // Basic unescaping for common ICS characters
-          currentEvent.description = valuePart.replace(/\\n/g, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\');
-        } else if (mainKey === 'LOCATION') {
-          // Basic unescaping for common ICS characters (same as SUMMARY/DESCRIPTION)
-          currentEvent.location = valuePart.replace(/\\n/g, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\');
-        } else if (mainKey === 'UID') {
-          currentEvent.uid = valuePart;
-        } else if (mainKey === 'DTSTART') {
-          // Handle Canvas's malformed DTSTART with duplicate VALUE=DATE
-          // Clean up the value part by removing duplicate parameters
-          let cleanValue = valuePart;
-          // Check if keyPart contains VALUE=DATE parameters (Canvas bug)
-          if (keyPart.includes('VALUE=DATE')) {
-            logger.debug("[parseICS] Detected Canvas malformed DTSTART, cleaning up");
-            // Extract just the date/time value, ignoring malformed parameters
-            cleanValue = valuePart;
-          }
-          currentEvent.start = cleanValue;
-        } else if (mainKey === 'DTEND') {
-          // Handle potential malformed DTEND similarly
-          let cleanValue = valuePart;
-          if (keyPart.includes('VALUE=DATE')) {
-            logger.debug("[parseICS] Detected Canvas malformed DTEND, cleaning up");
-            cleanValue = valuePart;
-          }
-          currentEvent.end = cleanValue;
-        }
+      const isMaster = !raw.recurrenceId && (raw.rrule || raw.rdates.length > 0);
+      if (isMaster && expand) {
+        events.push(...expandSeries(
+          raw,
+          overridesByUid.get(raw.uid || '') || [],
+          fallbackZone,
+          windowStart,
+          windowEnd,
+          maxOccurrences
+        ));
+      } else if (raw.recurrenceId && raw.uid && recurringUids.has(raw.uid) && expand) {
+        // Already applied while expanding its series
+        continue;
+      } else {
+        events.push(toCanvasEvent(raw, fallbackZone));
       }
     }
-  }
 
   // Parsed ${events.length} events from ICS data
-  
+
   // If no events found, check for common issues
   if (events.length === 0) {
     logger.warn(`[parseICS] No events found! Checking for common issues...`);
-    
+
     // Check if it's actually an ICS file
     if (!icsData.includes('BEGIN:VCALENDAR') && !icsData.includes('BEGIN:VEVENT')) {
       logger.error(`[parseICS] This doesn't appear to be a valid ICS file. Content start:`, icsData.substring(0, 200));
     }
-    
+
     // Check for network errors in the response
     if (icsData.includes('404') || icsData.includes('Not Found') || icsData.includes('Error')) {
       logger.error(`[parseICS] Response appears to contain an error:`, icsData.substring(0, 300));
     }
-    
+
     // Count VEVENT blocks manually for validation
     const veventCount = (icsData.match(/BEGIN:VEVENT/g) || []).length;
     logger.debug(`[parseICS] Manual count of VEVENT blocks: ${veventCount}`);
-    
+
     // Validate parsing results
     if (veventCount > 0 && events.length === 0) {
       logger.warn(`[parseICS] Found ${veventCount} VEVENT blocks but parsed 0 events - possible parsing issue`);
     }
   }
-  
+
   return events;
-    
+
   } catch (error) {
     logger.error(`[parseICS] Error parsing ICS data:`, error);
     throw new Error(`ICS parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
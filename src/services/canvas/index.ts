@@ -2,11 +2,18 @@
 // Provides clean imports for all Canvas-related functionality
 
 // Main Canvas Service API
-export { fetchCanvasCalendar, debugICSParsing } from '../canvasService';
+export {
+  fetchCanvasCalendar,
+  debugICSParsing,
+  resolveCanvasConflict,
+  deleteRemovedCanvasTasks,
+  getCanvasSyncSnapshots
+} from '../canvasService';
+export type { FetchCanvasResult } from '../canvasService';
 
 // ICS Parser Module
 export { parseICS, parseICSDate } from './icsParser';
-export type { CanvasEvent } from './icsParser';
+export type { CanvasEvent, ICSParseOptions } from './icsParser';
 
 // Proxy Manager Module
 export { fetchWithProxyFallback, retryCanvasOperation, CORS_PROXY_SERVICES } from './proxyManager';
@@ -22,4 +29,36 @@ export {
   generateUserFriendlyClassName, 
   ensureClassExists, 
   getTaskTypeFromEvent 
-} from './taskConverter';
\ No newline at end of file
+} from './taskConverter';
+export type { ConvertEventOptions } from './taskConverter';
+
+// Sync Diff Module
+export { diffCanvasTasks, summarizeCanvasDiff, createSnapshot } from './syncDiff';
+export type {
+  CanvasSyncDiff,
+  CanvasSyncConflict,
+  CanvasSyncSummary,
+  CanvasSyncSnapshot,
+  IncomingCanvasTask
+} from './syncDiff';
+
+// Feed Registry Module
+export {
+  getFeeds,
+  getFeed,
+  addFeed,
+  updateFeed,
+  removeFeed,
+  syncFeed,
+  syncAllFeeds,
+  detectFeedSource,
+  normalizeFeedUrl,
+  CALENDAR_FEEDS_KEY
+} from './feedRegistry';
+export type {
+  CalendarFeed,
+  CalendarFeedInput,
+  CalendarFeedSource,
+  CalendarFeedSyncStatus,
+  FeedSyncResult
+} from './feedRegistry';
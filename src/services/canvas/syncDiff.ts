@@ -0,0 +1,211 @@
+import type { Task, TaskInsert, TaskUpdate } from '../../types/database';
+
+// Fields compared between the Canvas feed and stored tasks
+export const CANVAS_SYNC_FIELDS = [
+  'title',
+  'dueDate',
+  'dueTime',
+  'startDate',
+  'startTime',
+  'endDate',
+  'endTime',
+  'description',
+] as const;
+
+export type CanvasSyncField = typeof CANVAS_SYNC_FIELDS[number];
+
+// Task values as last received from the feed; the baseline for detecting local edits
+export interface CanvasSyncSnapshot {
+  title?: string;
+  dueDate?: string;
+  dueTime?: string;
+  startDate?: string;
+  startTime?: string;
+  endDate?: string;
+  endTime?: string;
+  description?: string;
+  syncedAt: string;
+  removedAt?: string;
+  feedId?: string; // Feed the task came from; missing on snapshots from the primary Canvas feed
+}
+
+export type CanvasSyncSnapshots = Record<string, CanvasSyncSnapshot>;
+
+// A converted feed event, with the description kept for change detection
+export type IncomingCanvasTask = Partial<TaskInsert> & { description?: string };
+
+export interface CanvasFieldConflict {
+  field: CanvasSyncField;
+  localValue?: string;
+  remoteValue?: string;
+}
+
+export interface CanvasSyncConflict {
+  task: Task;
+  incoming: IncomingCanvasTask;
+  fields: CanvasFieldConflict[];
+}
+
+export interface CanvasSyncUpdate {
+  task: Task;
+  incoming: IncomingCanvasTask;
+  changes: Partial<TaskUpdate>;
+  changedFields: CanvasSyncField[];
+}
+
+export interface CanvasSyncDiff {
+  added: IncomingCanvasTask[];
+  updated: CanvasSyncUpdate[];
+  conflicts: CanvasSyncConflict[];
+  removed: Task[];
+  unchanged: Task[];
+}
+
+export interface CanvasSyncSummary {
+  added: number;
+  updated: number;
+  conflicted: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface CanvasDiffOptions {
+  // Recurring occurrences due before this date (YYYY-MM-DD) left the expansion window,
+  // so their absence from the feed is not a removal
+  windowStartDate?: string;
+}
+
+const normalize = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+const readField = (source: Record<string, unknown>, field: CanvasSyncField): string =>
+  normalize(source[field]);
+
+/**
+ * Builds the snapshot stored after a task has been brought in line with the feed
+ */
+export const createSnapshot = (
+  incoming: IncomingCanvasTask,
+  syncedAt = new Date().toISOString(),
+  feedId?: string
+): CanvasSyncSnapshot => {
+  const snapshot: CanvasSyncSnapshot = { syncedAt };
+  if (feedId) snapshot.feedId = feedId;
+  CANVAS_SYNC_FIELDS.forEach(field => {
+    const value = incoming[field];
+    if (value !== undefined && value !== null && value !== '') {
+      snapshot[field] = String(value);
+    }
+  });
+  return snapshot;
+};
+
+/**
+ * Compares fetched Canvas tasks against stored tasks and the last-synced snapshots.
+ *
+ * A field counts as changed remotely when the feed value differs from the snapshot,
+ * and as edited locally when the stored task differs from the snapshot. Remote
+ * changes to fields the user hasn't touched are applied; a field changed on both
+ * sides to different values turns the whole task into a conflict. Tasks synced
+ * before snapshots existed use their current values as the baseline.
+ *
+ * Tasks are only reported as removed when they have a snapshot in `snapshots`,
+ * which scopes removal detection to the feed the snapshots belong to.
+ *
+ * @param incoming - Tasks converted from the current feed (must carry canvas_uid)
+ * @param existingTasks - Tasks currently stored for the user
+ * @param snapshots - Last-synced values keyed by canvas_uid
+ * @returns Tasks grouped by what the sync should do with them
+ */
+export const diffCanvasTasks = (
+  incoming: IncomingCanvasTask[],
+  existingTasks: Task[],
+  snapshots: CanvasSyncSnapshots,
+  options: CanvasDiffOptions = {}
+): CanvasSyncDiff => {
+  const diff: CanvasSyncDiff = { added: [], updated: [], conflicts: [], removed: [], unchanged: [] };
+
+  const tasksByUid = new Map<string, Task>();
+  existingTasks.forEach(task => {
+    if (task.canvas_uid) tasksByUid.set(String(task.canvas_uid).trim(), task);
+  });
+
+  const seenUids = new Set<string>();
+
+  for (const item of incoming) {
+    const uid = normalize(item.canvas_uid);
+    if (!uid || seenUids.has(uid)) continue;
+    seenUids.add(uid);
+
+    const task = tasksByUid.get(uid);
+    if (!task) {
+      diff.added.push(item);
+      continue;
+    }
+
+    const taskRecord = task as unknown as Record<string, unknown>;
+    const baseline = (snapshots[uid] || createSnapshot(taskRecord as IncomingCanvasTask)) as unknown as Record<string, unknown>;
+    const itemRecord = item as unknown as Record<string, unknown>;
+
+    const changes: Partial<TaskUpdate> = {};
+    const changedFields: CanvasSyncField[] = [];
+    const conflictFields: CanvasFieldConflict[] = [];
+
+    for (const field of CANVAS_SYNC_FIELDS) {
+      const remoteValue = readField(itemRecord, field);
+      const baseValue = readField(baseline, field);
+      if (remoteValue === baseValue) continue;
+
+      const localValue = readField(taskRecord, field);
+      // The tasks table has no description column (it's only carried on the incoming
+      // event and in TaskWithMeta), so the description can never be edited locally
+      const editedLocally = field !== 'description' && localValue !== baseValue;
+
+      if (editedLocally && localValue !== remoteValue) {
+        conflictFields.push({ field, localValue: localValue || undefined, remoteValue: remoteValue || undefined });
+        continue;
+      }
+
+      changedFields.push(field);
+      if (field !== 'description' && localValue !== remoteValue) {
+        // An empty string clears a value Canvas removed; undefined would leave it as is
+        (changes as Record<string, unknown>)[field] = remoteValue;
+      }
+    }
+
+    if (conflictFields.length > 0) {
+      diff.conflicts.push({ task, incoming: item, fields: conflictFields });
+    } else if (changedFields.length > 0) {
+      if (item.isDuration !== undefined && item.isDuration !== task.isDuration) {
+        changes.isDuration = item.isDuration;
+      }
+      diff.updated.push({ task, incoming: item, changes, changedFields });
+    } else {
+      diff.unchanged.push(task);
+    }
+  }
+
+  for (const [uid, snapshot] of Object.entries(snapshots)) {
+    if (seenUids.has(uid) || snapshot.removedAt) continue;
+    const task = tasksByUid.get(uid);
+    if (!task) continue;
+
+    const isExpiredOccurrence = uid.includes('::') && !!options.windowStartDate &&
+      !!task.dueDate && task.dueDate < options.windowStartDate;
+    if (!isExpiredOccurrence) {
+      diff.removed.push(task);
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Collapses a diff into the counts shown after a sync
+ */
+export const summarizeCanvasDiff = (diff: CanvasSyncDiff): CanvasSyncSummary => ({
+  added: diff.added.length,
+  updated: diff.updated.length,
+  conflicted: diff.conflicts.length,
+  removed: diff.removed.length,
+  unchanged: diff.unchanged.length,
+});
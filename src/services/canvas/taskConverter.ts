@@ -2,9 +2,16 @@ import type { User } from '@supabase/supabase-js';
 import type { TaskInsert } from '../../types/database';
 import { addClass, getClasses } from '../class/classOperations';
 import { getSettings } from '../settings/settingsOperations';
+import { getClassResolverMemory, resolveClass } from '../class/classResolver';
 import { logger } from '../../utils/logger';
 import { CanvasEvent } from './icsParser';
 import { parseICSDate } from './icsParser';
+import { formatDateInTimeZone, formatTimeInTimeZone, getUserTimeZone } from '../../utils/timezoneHelpers';
+
+// Options for converting Canvas events to tasks
+export interface ConvertEventOptions {
+  timeZone?: string; // Zone used for due dates and times; defaults to the device zone
+}
 
 /**
  * Converts technical class codes to user-friendly names
@@ -69,77 +76,13 @@ export async function ensureClassExists(classCode: string, useSupabase: boolean,
     
     logger.debug(`[ensureClassExists] Looking for class "${classCode}" among ${classes.length} existing classes`);
     
-    // Enhanced class matching - check multiple patterns
-    const existingClass = classes.find(cls => {
-      const classId = cls.id.toLowerCase();
-      const className = cls.name.toLowerCase();
-      const searchCode = classCode.toLowerCase();
-      
-      logger.debug(`[ensureClassExists] Checking class "${cls.name}" (id: ${cls.id}) against search code "${classCode}"`);
-      
-      // Direct ID match
-      if (classId === searchCode) {
-        logger.debug(`[ensureClassExists] Direct ID match found`);
-        return true;
-      }
-      
-      // Direct name match
-      if (className === searchCode) {
-        logger.debug(`[ensureClassExists] Direct name match found`);
-        return true;
-      }
-      
-      // Check if the class code matches common patterns
-      // For example: "ugrd198g" should match "EE123" if that's what we're looking for
-      // Convert Canvas codes to standard format for matching
-      const standardizedCode = classCode.replace(/^ugrd/i, '').replace(/_/g, '');
-      if (classId === standardizedCode.toLowerCase()) {
-        logger.debug(`[ensureClassExists] Standardized code match found (${standardizedCode})`);
-        return true;
-      }
-      if (className.replace(/\s/g, '').toLowerCase() === standardizedCode.toLowerCase()) {
-        logger.debug(`[ensureClassExists] Standardized name match found (${standardizedCode})`);
-        return true;
-      }
-      
-      // Try to match against subject codes (e.g., EE123 matches EE 123)
-      const subjectMatch = classCode.match(/([A-Z]+)(\d+)/i);
-      if (subjectMatch) {
-        const [, subject, number] = subjectMatch;
-        const pattern = `${subject}${number}`.toLowerCase();
-        if (classId === pattern) {
-          logger.debug(`[ensureClassExists] Subject code ID match found (${pattern})`);
-          return true;
-        }
-        if (className.replace(/\s/g, '').toLowerCase() === pattern) {
-          logger.debug(`[ensureClassExists] Subject code name match found (${pattern})`);
-          return true;
-        }
-      }
-      
-      // Additional check: reverse matching - check if existing class patterns match search code
-      // E.g., if we have "EE123" class and search for "ee123"
-      const existingSubjectMatch = cls.id.match(/([A-Z]+)(\d+)/i) || cls.name.match(/([A-Z]+)\s*(\d+)/i);
-      if (existingSubjectMatch) {
-        const [, existingSubject, existingNumber] = existingSubjectMatch;
-        const existingPattern = `${existingSubject}${existingNumber}`.toLowerCase();
-        if (searchCode === existingPattern) {
-          logger.debug(`[ensureClassExists] Reverse subject match found (${existingPattern})`);
-          return true;
-        }
-        
-        // Also try without the subject (in case Canvas code is just numbers)
-        if (searchCode === existingNumber.toLowerCase()) {
-          logger.debug(`[ensureClassExists] Number-only match found (${existingNumber})`);
-          return true;
-        }
-      }
-      
-      return false;
-    });
+    // Same resolver as syllabus class assignment: aliases, learned corrections,
+    // course codes in any registrar format, then the closest class name
+    const resolution = resolveClass({ courseCode: classCode }, classes, getClassResolverMemory(userId || 'local-user'));
     
-    if (existingClass) {
-      logger.debug(`[ensureClassExists] Found existing class: "${existingClass.name}" (id: ${existingClass.id}) for code "${classCode}"`);
+    if (resolution) {
+      const existingClass = resolution.class;
+      logger.debug(`[ensureClassExists] Found existing class: "${existingClass.name}" (id: ${existingClass.id}) for code "${classCode}" by ${resolution.method} match`);
       return existingClass.id; // Return the existing class ID
     }
     
@@ -192,22 +135,36 @@ export async function ensureClassExists(classCode: string, useSupabase: boolean,
 
 /**
  * Converts Canvas event to ScheduleBud task format
- * 
+ *
+ * Timed events are converted to the user's time zone. Events with a real time
+ * range (lectures, labs and other expanded recurring occurrences) become
+ * duration tasks; point-in-time events keep their due date and time.
+ *
  * @param event - Canvas event object from ICS parsing
+ * @param options - Time zone used for the resulting dates and times
  * @returns Partial task object ready for insertion
  */
-export function convertEventToTask(event: CanvasEvent): Partial<TaskInsert> {
+export function convertEventToTask(event: CanvasEvent, options: ConvertEventOptions = {}): Partial<TaskInsert> {
+  const timeZone = options.timeZone || getUserTimeZone();
+
   // DTSTART;VALUE=DATE typically means the due DATE for Canvas assignments
   // The ICS file doesn't provide a specific time.
+  const isAllDay = event.isAllDay ?? (!!event.start && !event.start.includes('T'));
   const dueDate = event.start ? parseICSDate(event.start) : new Date();
-  const isDuration = false; // Canvas assignments from ICS are usually just due dates
+  const endDate = event.end && !isAllDay ? parseICSDate(event.end) : null;
+  const isDuration = !!endDate && endDate.getTime() > dueDate.getTime();
 
   const formatDate = (date: Date): string => {
-    return date.toISOString().split('T')[0];
+    if (isAllDay && event.start && /^\d{8}$/.test(event.start.trim())) {
+      const value = event.start.trim();
+      return `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}`;
+    }
+    return formatDateInTimeZone(date, timeZone);
   };
 
-  // Default due time to end of day as Canvas often does
+  // Default due time to end of day as Canvas often does for date-only events
   const defaultDueTime = "23:59";
+  const dueTime = isAllDay || !event.start ? defaultDueTime : formatTimeInTimeZone(dueDate, timeZone);
 
   let taskClass = 'canvas'; // Default class for canvas items
   let cleanTitle = event.summary || 'Canvas Event';
@@ -258,12 +215,19 @@ export function convertEventToTask(event: CanvasEvent): Partial<TaskInsert> {
     canvas_uid: event.uid || undefined,
     // Use the correct field names that match your database schema
     dueDate: formatDate(dueDate),  // Database expects "dueDate" not "due_date"
-    dueTime: defaultDueTime,       // Database expects "dueTime"
+    dueTime: dueTime,              // Database expects "dueTime"
     class: taskClass,              // Database expects "class" field
     isDuration: isDuration,        // Database expects "isDuration"
     completed: false,              // Ensure completed is set
   };
 
+  if (isDuration && endDate) {
+    task.startDate = formatDateInTimeZone(dueDate, timeZone);
+    task.startTime = formatTimeInTimeZone(dueDate, timeZone);
+    task.endDate = formatDateInTimeZone(endDate, timeZone);
+    task.endTime = formatTimeInTimeZone(endDate, timeZone);
+  }
+
   return task;
 }
 
@@ -1,14 +1,23 @@
 import type { User } from '@supabase/supabase-js';
 import type { TaskInsert, Task } from '../types/database';
-import { addTask, getTasks, deleteTask, getTaskTypes } from './dataService';
+import { addTask, getTasks, updateTask, deleteTask, getTaskTypes } from './dataService';
 import { logger } from '../utils/logger';
 import { errorHandler } from '../utils/errorHandler';
-import { parseICS, parseICSDate, CanvasEvent } from './canvas/icsParser';
+import { parseICS, parseICSDate, CanvasEvent, DEFAULT_RECURRENCE_WINDOW_PAST_DAYS } from './canvas/icsParser';
 import { fetchWithProxyFallback } from './canvas/proxyManager';
 import { CanvasSecurityUtils } from './canvas/canvasSecurity';
 import { convertEventToTask, ensureClassExists } from './canvas/taskConverter';
-import { getLocalData } from '../utils/storageHelpers';
-import { STORAGE_KEYS } from '../types/database';
+import {
+  diffCanvasTasks,
+  summarizeCanvasDiff,
+  createSnapshot,
+  CanvasSyncConflict,
+  CanvasSyncSnapshots,
+  CanvasSyncSummary,
+  IncomingCanvasTask,
+} from './canvas/syncDiff';
+import { getLocalData, saveLocalData } from '../utils/storageHelpers';
+import { EmailNotificationTrigger } from './emailNotificationTrigger';
 
 // Debug utility to test ICS parsing manually
 export const debugICSParsing = async (icsUrl: string): Promise<{ success: boolean; data?: any; error?: string }> => {
@@ -76,17 +85,70 @@ export const debugICSParsing = async (icsUrl: string): Promise<{ success: boolea
 
 
 // Result interface for fetchCanvasCalendar
-interface FetchCanvasResult {
+export interface FetchCanvasResult {
   success: boolean;
   message: string;
   tasks: Partial<TaskInsert>[];
+  summary?: CanvasSyncSummary;
+  conflicts?: CanvasSyncConflict[];
+  removedTasks?: Task[];
 }
 
+// Last-synced feed values per canvas_uid, used to tell local edits from Canvas changes
+const SNAPSHOTS_KEY = 'canvas_sync_snapshots';
+
+// Feed ID used for the original single Canvas URL and for snapshots recorded before feeds existed
+export const PRIMARY_CANVAS_FEED_ID = 'canvas';
+
+// Per-feed settings applied while syncing a calendar feed
+export interface CalendarFeedSyncOptions {
+  feedId?: string;
+  feedLabel?: string;
+  defaultClassId?: string; // Used when no course code can be read from the event
+  defaultTaskType?: string; // Used when the event text doesn't suggest a specific type
+  validation?: 'canvas' | 'generic';
+}
+
+export const getCanvasSyncSnapshots = (): CanvasSyncSnapshots =>
+  getLocalData<CanvasSyncSnapshots>(SNAPSHOTS_KEY, {});
+
+const saveCanvasSyncSnapshots = (snapshots: CanvasSyncSnapshots): void => {
+  saveLocalData(SNAPSHOTS_KEY, snapshots);
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Human-readable summary of what a sync changed
+const buildSyncMessage = (summary: CanvasSyncSummary, source = 'Canvas'): string => {
+  const parts: string[] = [];
+  if (summary.added > 0) parts.push(`imported ${plural(summary.added, 'new task')}`);
+  if (summary.updated > 0) parts.push(`updated ${plural(summary.updated, 'task')} changed in ${source}`);
+  if (summary.conflicted > 0) parts.push(`found ${plural(summary.conflicted, 'conflict')} with your edits`);
+  if (summary.removed > 0) parts.push(`found ${plural(summary.removed, 'assignment')} removed from ${source}`);
+
+  if (parts.length > 0) {
+    return `${source} sync completed! ${parts.join(', ').replace(/^./, c => c.toUpperCase())}.`;
+  }
+  if (summary.unchanged > 0) {
+    return `${source} sync completed! All ${plural(summary.unchanged, 'task')} from ${source} ${summary.unchanged === 1 ? 'is' : 'are'} already up to date.`;
+  }
+  return `${source} sync completed, but no tasks were found in the feed. This could mean no upcoming assignments are available or the feed format has changed.`;
+};
+
+/**
+ * Fetches an ICS feed and syncs its events into the user's tasks.
+ *
+ * Originally Canvas-only; `options` lets the calendar feed registry reuse the same
+ * pipeline for Gradescope, Google Calendar and other ICS feeds.
+ */
 export const fetchCanvasCalendar = async (
   icsUrl: string, 
   useSupabase = false, 
-  user: User | null = null
+  user: User | null = null,
+  options: CalendarFeedSyncOptions = {}
 ): Promise<FetchCanvasResult> => {
+  const feedId = options.feedId || PRIMARY_CANVAS_FEED_ID;
+  const sourceLabel = options.feedLabel || 'Canvas';
   // Reduced logging for startup performance
   try {
     if (!icsUrl) {
@@ -103,25 +165,37 @@ export const fetchCanvasCalendar = async (
       };
     }
 
-    // Validate Canvas URL format using security utils
-    if (!CanvasSecurityUtils.isValidCanvasFormat(icsUrl)) {
-      logger.warn(`[fetchCanvasCalendar] URL doesn't appear to be a Canvas ICS feed: ${icsUrl}`);
-      return {
-        success: false,
-        message: 'Please provide a valid Canvas calendar feed URL (should contain .ics and be from your Canvas instance)',
-        tasks: []
-      };
-    }
+    if (options.validation === 'generic') {
+      const feedValidation = CanvasSecurityUtils.validateFeedUrl(icsUrl);
+      if (!feedValidation.isValid) {
+        logger.warn(`[fetchCanvasCalendar] Invalid feed URL: ${feedValidation.reason}`);
+        return {
+          success: false,
+          message: `Invalid calendar feed URL: ${feedValidation.reason}`,
+          tasks: []
+        };
+      }
+    } else {
+      // Validate Canvas URL format using security utils
+      if (!CanvasSecurityUtils.isValidCanvasFormat(icsUrl)) {
+        logger.warn(`[fetchCanvasCalendar] URL doesn't appear to be a Canvas ICS feed: ${icsUrl}`);
+        return {
+          success: false,
+          message: 'Please provide a valid Canvas calendar feed URL (should contain .ics and be from your Canvas instance)',
+          tasks: []
+        };
+      }
 
-    // Security validation for Canvas URL
-    const urlValidation = CanvasSecurityUtils.validateCanvasUrl(icsUrl);
-    if (!urlValidation.isValid) {
-      logger.warn(`[fetchCanvasCalendar] Invalid Canvas URL: ${urlValidation.reason}`);
-      return {
-        success: false,
-        message: `Invalid Canvas URL: ${urlValidation.reason}`,
-        tasks: []
-      };
+      // Security validation for Canvas URL
+      const urlValidation = CanvasSecurityUtils.validateCanvasUrl(icsUrl);
+      if (!urlValidation.isValid) {
+        logger.warn(`[fetchCanvasCalendar] Invalid Canvas URL: ${urlValidation.reason}`);
+        return {
+          success: false,
+          message: `Invalid Canvas URL: ${urlValidation.reason}`,
+          tasks: []
+        };
+      }
     }
 
     const maskedUrl = CanvasSecurityUtils.maskSensitiveUrl(icsUrl);
@@ -196,9 +270,9 @@ export const fetchCanvasCalendar = async (
       });
     });
     
-    const addedTasks = [];
-    const existingTasks = [];
+    const incomingTasks: IncomingCanvasTask[] = [];
     const processedUIDs = new Set<string>(); // Track processed UIDs to avoid duplicates
+    const taskTypes = await getTaskTypes(user?.id, useSupabase);
     
     for (const event of events) {
       logger.debug(`[fetchCanvasCalendar] Processing event UID: "${event.uid || 'N/A'}", Summary: "${event.summary || 'N/A'}"`);
@@ -217,17 +291,24 @@ export const fetchCanvasCalendar = async (
       processedUIDs.add(event.uid);
       
       try {
-        const task = convertEventToTask(event);
-        // Event converted to task
+        const task: IncomingCanvasTask = convertEventToTask(event);
+        task.description = event.description;
         
-        // Ensure class exists before creating task and use the correct class ID
-        if (task.class) {
+        if (task.type === 'assignment' && options.defaultTaskType) {
+          task.type = options.defaultTaskType;
+        }
+        
+        // 'canvas' is the converter's fallback when no course code was found in the event.
+        // The feed's default class was picked from the user's classes, so it's already an id.
+        if (task.class === 'canvas' && options.defaultClassId) {
+          task.class = options.defaultClassId;
+        } else if (task.class) {
+          // Ensure class exists before creating task and use the correct class ID
           const actualClassId = await ensureClassExists(task.class, useSupabase, user);
           task.class = actualClassId; // Use the actual class ID (existing or newly created)
         }
         
         // Ensure task type exists and is valid
-        const taskTypes = await getTaskTypes(user?.id, useSupabase);
         if (task.type && taskTypes.length > 0) {
           const existingType = taskTypes.find(t => 
             t.id.toLowerCase() === task.type?.toLowerCase() || 
@@ -256,49 +337,7 @@ export const fetchCanvasCalendar = async (
           });
         }
         
-        logger.debug(`[fetchCanvasCalendar] Task object being sent to addTask:`, {
-          title: task.title,
-          dueDate: task.dueDate,
-          dueTime: task.dueTime,
-          class: task.class,
-          type: task.type,
-          canvas_uid: task.canvas_uid,
-          isDuration: task.isDuration,
-          completed: task.completed
-        });
-        
-        // Check if this Canvas task already exists before trying to add it
-        let wasExisting = false;
-        if (task.canvas_uid && String(task.canvas_uid).trim() !== "") {
-          const canvasUIDString = String(task.canvas_uid).trim();
-          const existingLocalTasks = getLocalData<Task[]>(STORAGE_KEYS.TASKS, []);
-          const existingTask = existingLocalTasks.find(t => 
-            t.canvas_uid && String(t.canvas_uid) === canvasUIDString
-          );
-          
-          if (existingTask) {
-            wasExisting = true;
-            logger.debug(`[fetchCanvasCalendar] Task with canvas_uid ${canvasUIDString} already exists locally`);
-          }
-        }
-        
-        const addedTask = await addTask(task, useSupabase, user);
-        // Task added successfully
-        
-        if (!addedTask) {
-          logger.warn(`[fetchCanvasCalendar] addTask returned null/undefined for "${event.summary}". Task not added.`);
-          continue;
-        }
-        
-        if (addedTask) {
-          if (wasExisting) {
-            existingTasks.push(addedTask);
-            logger.debug(`[fetchCanvasCalendar] Found existing task: ${addedTask.title}`);
-          } else {
-            addedTasks.push(addedTask);
-            logger.debug(`[fetchCanvasCalendar] Added new task: ${addedTask.title}`);
-          }
-        }
+        incomingTasks.push(task);
       } catch (error) {
         const errorToHandle = error instanceof Error ? error : new Error('Task processing error');
         const handled = errorHandler.handle(
@@ -313,25 +352,96 @@ export const fetchCanvasCalendar = async (
       }
     }
     
-    // Finished processing Canvas events
+    // Compare the feed against stored tasks and the last-synced snapshots
+    const existingTasks = await getTasks(user?.id, useSupabase);
+    const snapshots = getCanvasSyncSnapshots();
+    // Only this feed's snapshots take part in removal detection
+    const feedSnapshots: CanvasSyncSnapshots = {};
+    Object.entries(snapshots).forEach(([uid, snapshot]) => {
+      if ((snapshot.feedId || PRIMARY_CANVAS_FEED_ID) === feedId) feedSnapshots[uid] = snapshot;
+    });
+    const windowStart = new Date(Date.now() - DEFAULT_RECURRENCE_WINDOW_PAST_DAYS * 86400000);
+    const diff = diffCanvasTasks(incomingTasks, existingTasks, feedSnapshots, {
+      windowStartDate: windowStart.toISOString().split('T')[0]
+    });
+    const syncedAt = new Date().toISOString();
     
-    const totalProcessed = addedTasks.length + existingTasks.length;
+    const addedTasks: Task[] = [];
+    for (const incoming of diff.added) {
+      try {
+        const { description: _description, ...taskToAdd } = incoming;
+        const addedTask = await addTask(taskToAdd, useSupabase, user);
+        if (!addedTask) {
+          logger.warn(`[fetchCanvasCalendar] addTask returned null/undefined for "${incoming.title}". Task not added.`);
+          continue;
+        }
+        addedTasks.push(addedTask);
+        snapshots[String(incoming.canvas_uid)] = createSnapshot(incoming, syncedAt, feedId);
+        logger.debug(`[fetchCanvasCalendar] Added new task: ${addedTask.title}`);
+      } catch (error) {
+        const handled = errorHandler.handle(
+          error instanceof Error ? error : new Error('Task insert error'),
+          'fetchCanvasCalendar - adding task',
+          { canvasUID: incoming.canvas_uid || 'N/A' }
+        );
+        logger.warn(`Failed to add Canvas task: ${handled.userMessage || 'Unknown error'}`);
+      }
+    }
     
-    let successMessage: string;
-    if (addedTasks.length > 0 && existingTasks.length > 0) {
-      successMessage = `Canvas sync completed! Imported ${addedTasks.length} new task${addedTasks.length === 1 ? '' : 's'} and found ${existingTasks.length} existing task${existingTasks.length === 1 ? '' : 's'} already in your calendar.`;
-    } else if (addedTasks.length > 0) {
-      successMessage = `Successfully imported ${addedTasks.length} new task${addedTasks.length === 1 ? '' : 's'} from Canvas calendar. Check your calendar for the new assignments!`;
-    } else if (existingTasks.length > 0) {
-      successMessage = `Canvas sync completed! All ${existingTasks.length} task${existingTasks.length === 1 ? '' : 's'} from Canvas ${existingTasks.length === 1 ? 'is' : 'are'} already in your calendar. No new tasks to import.`;
-    } else {
-      successMessage = `Canvas sync completed, but no tasks were found in the feed. This could mean no upcoming assignments are available or the feed format has changed.`;
+    const updatedTasks: Task[] = [];
+    for (const update of diff.updated) {
+      try {
+        let updatedTask = update.task;
+        if (Object.keys(update.changes).length > 0) {
+          updatedTask = await updateTask(update.task.id, update.changes, useSupabase) || { ...update.task, ...update.changes } as Task;
+        }
+        updatedTasks.push(updatedTask);
+        snapshots[String(update.incoming.canvas_uid)] = createSnapshot(update.incoming, syncedAt, feedId);
+        logger.debug(`[fetchCanvasCalendar] Updated task "${update.task.title}" fields: ${update.changedFields.join(', ')}`);
+      } catch (error) {
+        const handled = errorHandler.handle(
+          error instanceof Error ? error : new Error('Task update error'),
+          'fetchCanvasCalendar - updating task',
+          { taskId: update.task.id }
+        );
+        logger.warn(`Failed to update Canvas task: ${handled.userMessage || 'Unknown error'}`);
+      }
     }
     
+    for (const task of diff.unchanged) {
+      const incoming = incomingTasks.find(item => item.canvas_uid === task.canvas_uid);
+      if (incoming) {
+        snapshots[String(task.canvas_uid)] = createSnapshot(incoming, syncedAt, feedId);
+      }
+    }
+    
+    // Removed assignments are kept (they may hold the user's notes) but marked so they
+    // are only reported once; the user can delete them from Canvas settings
+    for (const task of diff.removed) {
+      const uid = String(task.canvas_uid);
+      snapshots[uid] = { ...snapshots[uid], removedAt: syncedAt };
+    }
+    
+    saveCanvasSyncSnapshots(snapshots);
+
+    // The first sync of a feed imports everything, so only later additions are announced
+    if (useSupabase && Object.keys(feedSnapshots).length > 0) {
+      await Promise.all(addedTasks.map(task => EmailNotificationTrigger.notifyNewCanvasAssignment(task)));
+    }
+    
+    // Finished processing Canvas events
+    
+    const summary = summarizeCanvasDiff(diff);
+    summary.added = addedTasks.length;
+    summary.updated = updatedTasks.length;
+    
     return {
       success: true,
-      message: successMessage,
-      tasks: [...addedTasks, ...existingTasks] // Return all processed tasks for reference
+      message: buildSyncMessage(summary, sourceLabel),
+      tasks: [...addedTasks, ...updatedTasks, ...diff.unchanged], // Return all processed tasks for reference
+      summary,
+      conflicts: diff.conflicts,
+      removedTasks: diff.removed
     };
   } catch (error) {
     // If it's already a ServiceError, use its message directly
@@ -362,6 +472,54 @@ export const fetchCanvasCalendar = async (
   }
 };
 
+/**
+ * Resolves a sync conflict by either applying the Canvas values or keeping the
+ * user's edits. Keeping local edits moves the snapshot to the Canvas values so the
+ * same change isn't flagged again on the next sync.
+ */
+export const resolveCanvasConflict = async (
+  conflict: CanvasSyncConflict,
+  resolution: 'canvas' | 'local',
+  useSupabase = false
+): Promise<Task> => {
+  const snapshots = getCanvasSyncSnapshots();
+  const uid = String(conflict.task.canvas_uid);
+  let resolvedTask = conflict.task;
+
+  if (resolution === 'canvas') {
+    const changes: Partial<Task> = {};
+    conflict.fields.forEach(({ field, remoteValue }) => {
+      if (field !== 'description') {
+        changes[field] = remoteValue ?? '';
+      }
+    });
+    resolvedTask = await updateTask(conflict.task.id, changes, useSupabase) || { ...conflict.task, ...changes };
+  }
+
+  snapshots[uid] = createSnapshot(conflict.incoming, new Date().toISOString(), snapshots[uid]?.feedId);
+  saveCanvasSyncSnapshots(snapshots);
+  return resolvedTask;
+};
 
+/**
+ * Deletes tasks whose assignments were removed from the Canvas feed
+ *
+ * @returns Number of tasks deleted
+ */
+export const deleteRemovedCanvasTasks = async (tasks: Task[], useSupabase = false): Promise<number> => {
+  const snapshots = getCanvasSyncSnapshots();
+  let deleted = 0;
 
+  for (const task of tasks) {
+    try {
+      await deleteTask(task.id, useSupabase);
+      if (task.canvas_uid) delete snapshots[String(task.canvas_uid)];
+      deleted++;
+    } catch (error) {
+      logger.warn(`[deleteRemovedCanvasTasks] Failed to delete task ${task.id}:`, error);
+    }
+  }
 
+  saveCanvasSyncSnapshots(snapshots);
+  return deleted;
+};
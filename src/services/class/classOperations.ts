@@ -15,6 +15,7 @@ import { errorHandler } from "../../utils/errorHandler";
 import { getLocalData, saveLocalData } from "../../utils/storageHelpers";
 import { generateUniqueId } from "../../utils/idHelpers";
 import { STORAGE_KEYS } from '../../types/database';
+import { upsertOfflineFirst, deleteOfflineFirst } from '../sync';
 
 const CLASSES_KEY = STORAGE_KEYS.CLASSES;
 
@@ -76,7 +77,7 @@ export const getClasses = async (userId?: string, useSupabase = false): Promise<
   return getLocalData<ClassWithRelations[]>(CLASSES_KEY, []);
 };
 
-export const addClass = async (
+const addClassRecord = async (
   classObj: Partial<ClassInsert> & { files?: ClassFile[]; syllabus?: ClassSyllabus | null }, 
   useSupabase = false
 ): Promise<ClassWithRelations> => {
@@ -197,7 +198,17 @@ export const addClass = async (
   }
 };
 
-export const updateClass = async (
+/**
+ * Adds a class. Signed-in users without a connection get the class saved
+ * locally and queued for the next sync.
+ */
+export const addClass = async (
+  classObj: Partial<ClassInsert> & { files?: ClassFile[]; syllabus?: ClassSyllabus | null },
+  useSupabase = false
+): Promise<ClassWithRelations> =>
+  (await upsertOfflineFirst('classes', useSupabase, remote => addClassRecord(classObj, remote))).result;
+
+const updateClassRecord = async (
   classId: string,
   updatedClass: Partial<ClassUpdate> & { files?: ClassFile[]; syllabus?: ClassSyllabus | null },
   useSupabase = false
@@ -284,7 +295,20 @@ export const updateClass = async (
   }
 };
 
-export const deleteClass = async (classId: string, useSupabase = false): Promise<boolean> => {
+/**
+ * Updates a class, queuing the changed fields for the next sync when offline
+ */
+export const updateClass = async (
+  classId: string,
+  updatedClass: Partial<ClassUpdate> & { files?: ClassFile[]; syllabus?: ClassSyllabus | null },
+  useSupabase = false
+): Promise<ClassWithRelations> =>
+  (await upsertOfflineFirst('classes', useSupabase, remote => updateClassRecord(classId, updatedClass, remote), {
+    recordId: classId,
+    changes: updatedClass
+  })).result;
+
+const deleteClassRecord = async (classId: string, useSupabase = false): Promise<boolean> => {
   if (useSupabase) {
     try {
       const { data: existingClass, error: fetchError } = await supabase
@@ -382,4 +406,10 @@ export const deleteClass = async (classId: string, useSupabase = false): Promise
   }
 
   return true;
-};
\ No newline at end of file
+};
+
+/**
+ * Deletes a class, queuing the delete for the next sync when offline
+ */
+export const deleteClass = async (classId: string, useSupabase = false): Promise<boolean> =>
+  (await deleteOfflineFirst('classes', classId, useSupabase, remote => deleteClassRecord(classId, remote))).result;
@@ -0,0 +1,264 @@
+/**
+ * Class Resolver Module - Finds which of the user's classes a course code or
+ * course name refers to, for syllabus extraction and Canvas imports alike.
+ * Works from the user's own classes rather than a list of known subjects:
+ * the aliases the user gave a class, mappings learned from their corrections,
+ * registrar course codes, then a fuzzy match on the class name.
+ */
+
+import { logger } from '../../utils/logger';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import type { ClassWithRelations } from '../../types/database';
+
+export const CLASS_ALIASES_KEY = 'class_aliases';
+export const LEARNED_CLASS_MAPPINGS_KEY = 'class_learned_mappings';
+
+// Resolver configuration
+const CLASS_RESOLVER_CONFIG = {
+  MIN_NAME_SIMILARITY: 0.7,
+  MIN_NAME_LENGTH: 4,
+  MAX_LEARNED_MAPPINGS: 300
+} as const;
+
+// Words before a number that are terms or task words rather than subjects
+const NON_SUBJECT_WORDS = new Set([
+  'FA', 'FL', 'FALL', 'SP', 'SPR', 'SPRING', 'SU', 'SUM', 'SUMMER', 'WI', 'WIN', 'WINTER', 'WTR', 'AU', 'TERM', 'SEM', 'YEAR',
+  'SEC', 'SECT', 'LAB', 'LABS', 'HW', 'WEEK', 'WK', 'UNIT', 'PART', 'ROOM', 'RM'
+]);
+const CAREER_PREFIXES = new Set(['UGRD', 'UG', 'GRAD', 'GR']);
+
+// "CS 101", "MATH-120A", "NURS_3310", "ECON 1B03", "2024FA-BIOL-2010-01"
+const COURSE_CODE = /\b([A-Z]{2,5}) ?(\d{2,4}[A-Z]?|\d[A-Z]\d{2})\b/g;
+const NUMBER_ONLY = /^(\d{2,4}[A-Z]?)$/;
+
+export interface ParsedCourseCode {
+  subject: string | null; // null when the code only has a number, e.g. Canvas "ugrd198g"
+  number: string;
+  key: string;            // Subject and number without separators, e.g. "CS101"
+}
+
+export interface ClassQuery {
+  courseCode?: string;
+  courseName?: string;
+}
+
+export type ClassMatchMethod = 'alias' | 'learned' | 'exact' | 'code' | 'name';
+
+export interface ClassResolution<T> {
+  class: T;
+  method: ClassMatchMethod;
+  score: number; // 1 for everything but a fuzzy name match
+}
+
+// Other names the user gave each class, by class id
+export type ClassAliasTable = Record<string, string[]>;
+
+// The class the user moved tasks of a course to, by query key
+export type LearnedClassMappings = Record<string, string>;
+
+export interface ClassResolverMemory {
+  aliases: ClassAliasTable;
+  learned: LearnedClassMappings;
+}
+
+export const EMPTY_CLASS_RESOLVER_MEMORY: ClassResolverMemory = { aliases: {}, learned: {} };
+
+export interface ClassCorrection {
+  query: ClassQuery;
+  classId: string;
+}
+
+type ResolvableClass = Pick<ClassWithRelations, 'id' | 'name'>;
+
+export const normalizeClassText = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * The course code in a class id, course code or class name, in the common
+ * registrar formats: subject letters then a number, with any separator, and
+ * term or section parts around them ignored
+ */
+export function parseCourseCode(text: string | undefined): ParsedCourseCode | null {
+  if (!text) return null;
+  const normalized = text.toUpperCase().replace(/[_.\-/:]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+  const numberOnly = NUMBER_ONLY.exec(normalized);
+  if (numberOnly) return { subject: null, number: numberOnly[1], key: numberOnly[1] };
+
+  for (const match of normalized.matchAll(COURSE_CODE)) {
+    const [, subject, number] = match;
+    if (CAREER_PREFIXES.has(subject)) return { subject: null, number, key: number };
+    if (!NON_SUBJECT_WORDS.has(subject)) {
+      return { subject, number, key: `${subject}${number}` };
+    }
+  }
+  return null;
+}
+
+const bigrams = (text: string): string[] => {
+  const compact = normalizeClassText(text).replace(/ /g, '');
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, index) => compact.slice(index, index + 2));
+};
+
+/**
+ * How alike two class names are, from 0 to 1 (Dice coefficient of letter pairs),
+ * so "Intro to Psychology" still matches "Introduction to Psychology"
+ */
+export function classNameSimilarity(a: string, b: string): number {
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  pairsA.forEach(pair => remaining.set(pair, (remaining.get(pair) || 0) + 1));
+  let shared = 0;
+  pairsB.forEach(pair => {
+    const count = remaining.get(pair) || 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(pair, count - 1);
+    }
+  });
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+/**
+ * The key a query's learned mapping is stored under: its course code if it
+ * has one, else its normalized name
+ */
+export function getClassQueryKey(query: ClassQuery): string | null {
+  const parsed = parseCourseCode(query.courseCode) ?? parseCourseCode(query.courseName);
+  if (parsed?.subject) return `code:${parsed.key}`;
+  const name = normalizeClassText(query.courseName || query.courseCode || '');
+  return name ? `name:${name}` : null;
+}
+
+const classCodes = (cls: ResolvableClass): ParsedCourseCode[] =>
+  [parseCourseCode(cls.id), parseCourseCode(cls.name)].filter((code): code is ParsedCourseCode => !!code);
+
+/**
+ * The class a course code or name refers to, or null. Tries, in order: the
+ * user's aliases, mappings learned from their corrections, the class id or
+ * name as written, the course code, then the closest class name.
+ */
+export function resolveClass<T extends ResolvableClass>(
+  query: ClassQuery,
+  classes: T[],
+  memory: ClassResolverMemory = EMPTY_CLASS_RESOLVER_MEMORY
+): ClassResolution<T> | null {
+  const texts = [query.courseCode, query.courseName]
+    .map(text => normalizeClassText(text || ''))
+    .filter(Boolean);
+  if (texts.length === 0 || classes.length === 0) return null;
+
+  const parsed = parseCourseCode(query.courseCode) ?? parseCourseCode(query.courseName);
+  const byId = new Map(classes.map(cls => [cls.id, cls]));
+
+  const aliased = classes.find(cls => (memory.aliases[cls.id] || []).some(alias =>
+    texts.includes(normalizeClassText(alias)) ||
+    (!!parsed?.subject && parseCourseCode(alias)?.key === parsed.key)
+  ));
+  if (aliased) return { class: aliased, method: 'alias', score: 1 };
+
+  const queryKey = getClassQueryKey(query);
+  const learned = queryKey ? byId.get(memory.learned[queryKey]) : undefined;
+  if (learned) return { class: learned, method: 'learned', score: 1 };
+
+  const exact = classes.find(cls =>
+    texts.includes(normalizeClassText(cls.id)) || texts.includes(normalizeClassText(cls.name))
+  );
+  if (exact) return { class: exact, method: 'exact', score: 1 };
+
+  if (parsed) {
+    const sameCode = classes.filter(cls => classCodes(cls).some(code =>
+      parsed.subject ? code.key === parsed.key : code.number === parsed.number
+    ));
+    // A bare number only counts when a single class has it
+    if (sameCode.length === 1 || (parsed.subject && sameCode.length > 0)) {
+      return { class: sameCode[0], method: 'code', score: 1 };
+    }
+  }
+
+  const names = [query.courseName, parsed ? undefined : query.courseCode]
+    .filter((name): name is string => !!name && normalizeClassText(name).length >= CLASS_RESOLVER_CONFIG.MIN_NAME_LENGTH);
+  let best: ClassResolution<T> | null = null;
+  for (const cls of classes) {
+    for (const name of names) {
+      const score = classNameSimilarity(name, cls.name);
+      if (score >= CLASS_RESOLVER_CONFIG.MIN_NAME_SIMILARITY && (!best || score > best.score)) {
+        best = { class: cls, method: 'name', score };
+      }
+    }
+  }
+  return best;
+}
+
+const getUserTable = <T extends Record<string, unknown>>(key: string, userId: string): T =>
+  (getLocalData<Record<string, T>>(key, {})[userId] || {}) as T;
+
+const saveUserTable = (key: string, userId: string, table: Record<string, unknown>): void => {
+  const stored = getLocalData<Record<string, Record<string, unknown>>>(key, {});
+  saveLocalData(key, { ...stored, [userId]: table });
+};
+
+export function getClassAliases(userId: string): ClassAliasTable {
+  return getUserTable<ClassAliasTable>(CLASS_ALIASES_KEY, userId);
+}
+
+/**
+ * Replace the aliases of one class, dropping blanks and repeats
+ * @returns The aliases as stored
+ */
+export function setClassAliases(userId: string, classId: string, aliases: string[]): string[] {
+  const cleaned = aliases
+    .map(alias => alias.trim())
+    .filter((alias, index, all) =>
+      alias && all.findIndex(other => normalizeClassText(other) === normalizeClassText(alias)) === index
+    );
+
+  const table = { ...getClassAliases(userId), [classId]: cleaned };
+  if (cleaned.length === 0) delete table[classId];
+  saveUserTable(CLASS_ALIASES_KEY, userId, table);
+
+  logger.debug('🏫 CLASS RESOLVER: Updated class aliases', { classId, aliases: cleaned.length });
+  return cleaned;
+}
+
+export function getLearnedClassMappings(userId: string): LearnedClassMappings {
+  return getUserTable<LearnedClassMappings>(LEARNED_CLASS_MAPPINGS_KEY, userId);
+}
+
+/**
+ * Remember the class the user chose for a course code or name, so the next
+ * task from that course goes there. The latest correction wins.
+ */
+export function recordClassCorrections(userId: string, corrections: ClassCorrection[]): void {
+  const learned = { ...getLearnedClassMappings(userId) };
+  let recorded = 0;
+
+  corrections.forEach(({ query, classId }) => {
+    const key = getClassQueryKey(query);
+    if (!key) return;
+    // Re-insert so the most recent corrections are kept when trimming
+    delete learned[key];
+    learned[key] = classId;
+    recorded++;
+  });
+  if (recorded === 0) return;
+
+  const kept = Object.entries(learned).slice(-CLASS_RESOLVER_CONFIG.MAX_LEARNED_MAPPINGS);
+  saveUserTable(LEARNED_CLASS_MAPPINGS_KEY, userId, Object.fromEntries(kept));
+
+  logger.info('🏫 CLASS RESOLVER: Learned class mappings from corrections', {
+    recorded,
+    stored: kept.length
+  });
+}
+
+/**
+ * A user's aliases and learned mappings, to resolve classes with
+ */
+export function getClassResolverMemory(userId: string | undefined): ClassResolverMemory {
+  if (!userId) return EMPTY_CLASS_RESOLVER_MEMORY;
+  return { aliases: getClassAliases(userId), learned: getLearnedClassMappings(userId) };
+}
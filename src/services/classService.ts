@@ -6,6 +6,7 @@ import {
   deleteClass as deleteClassFromData 
 } from "./dataService";
 import { logger } from "../utils/logger";
+import { createSyncedRealtimeCache, type RealtimeCache, type RealtimeChange, type RealtimeTransport } from "./realtime";
 
 // Type for class change listeners
 type ClassChangeListener = (classes: ClassWithRelations[]) => void;
@@ -26,6 +27,9 @@ interface ClassServiceInterface {
   updateClass(classId: string, updatedClass: ClassUpdate, useSupabase?: boolean): Promise<ClassWithRelations | null>;
   deleteClass(classId: string, useSupabase?: boolean): Promise<boolean>;
   refreshClasses(userId?: string, useSupabase?: boolean): Promise<ClassWithRelations[]>;
+  startRealtime(userId: string, transport?: RealtimeTransport): void;
+  stopRealtime(): void;
+  applyRemoteChange(change: RealtimeChange): void;
   reset(): void;
 }
 
@@ -35,11 +39,20 @@ class ClassService implements ClassServiceInterface {
   public listeners: Set<ClassChangeListener>;
   public classes: ClassWithRelations[];
   public isInitialized: boolean;
+  private realtime: RealtimeCache<ClassWithRelations>;
 
   constructor() {
     this.listeners = new Set();
     this.classes = [];
     this.isInitialized = false;
+    this.realtime = createSyncedRealtimeCache({
+      table: 'classes',
+      getItems: () => this.classes,
+      setItems: classes => {
+        this.classes = classes;
+        this.notifyListeners();
+      },
+    });
   }
 
   // Subscribe to class changes
@@ -89,8 +102,7 @@ class ClassService implements ClassServiceInterface {
     try {
       const newClass = await addClassToData(classObj, useSupabase);
       if (newClass) {
-        this.classes = [...this.classes, newClass];
-        this.notifyListeners();
+        this.realtime.addItem(newClass);
       }
       return newClass;
     } catch (error) {
@@ -143,8 +155,25 @@ class ClassService implements ClassServiceInterface {
     }
   }
 
+  // Keep the cache in step with changes made on other devices
+  startRealtime(userId: string, transport?: RealtimeTransport): void {
+    this.realtime.start(userId, () => {
+      this.refreshClasses(userId, true);
+    }, transport);
+  }
+
+  stopRealtime(): void {
+    this.realtime.stop();
+  }
+
+  // Patch the cache with a class change from the server
+  applyRemoteChange(change: RealtimeChange): void {
+    this.realtime.applyChange(change);
+  }
+
   // Reset the service (useful for user logout)
   reset(): void {
+    this.stopRealtime();
     this.classes = [];
     this.isInitialized = false;
     this.notifyListeners();
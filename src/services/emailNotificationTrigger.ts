@@ -1,5 +1,9 @@
 import { supabase } from './supabaseClient';
 import NotificationService from './notificationService';
+import { processReminders } from './reminders';
+import { notificationInboxService } from './notifications';
+import { formatDateForInput } from '../utils/dateHelpers';
+import { logger } from '../utils/logger';
 import type { Task } from '../types/database';
 
 export interface NotificationTriggerOptions {
@@ -79,96 +83,19 @@ export class EmailNotificationTrigger {
   }
 
   /**
-   * Check all tasks and send appropriate notifications
+   * Send every reminder that is due for the user, on all of their channels
    * This would typically be called by a cron job or scheduled task
    */
   static async processAllNotifications(userId: string): Promise<void> {
-    try {
-      // Get all incomplete tasks for the user
-      const { data: tasks, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('completed', false)
-        .not('dueDate', 'is', null)
-        .gte('dueDate', new Date().toISOString().split('T')[0]); // Only future tasks
-
-      if (error) {
-        console.error('Error fetching tasks for notifications:', error);
-        return;
-      }
-
-      if (!tasks || tasks.length === 0) {
-        console.log('No tasks to process for user:', userId);
-        return;
-      }
-
-      for (const task of tasks) {
-        await this.processTaskNotifications(task);
-      }
-
-    } catch (error) {
-      console.error('Error in processAllNotifications:', error);
-    }
-  }
-
-  /**
-   * Process notifications for a single task
-   */
-  private static async processTaskNotifications(task: Task): Promise<void> {
-    if (!task.dueDate) return;
-
-    const now = new Date();
-    const dueDate = new Date(task.dueDate + (task.dueTime ? `T${task.dueTime}` : 'T23:59:59'));
-    const hoursUntilDue = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-    // Determine risk level
-    const riskLevel = NotificationService.calculateAssignmentRisk(
-      task.dueDate,
-      task.dueTime,
-      task.priority
-    );
-
-    // Send urgent deadline notification (2 hours before)
-    if (hoursUntilDue <= 2 && hoursUntilDue > 0) {
-      await this.sendNotification({
-        taskId: task.id,
-        userId: task.user_id,
-        emailType: 'urgent_deadline',
-        task
-      });
-    }
-    // Send regular reminder (1 day before)
-    else if (hoursUntilDue <= 24 && hoursUntilDue > 2) {
-      await this.sendNotification({
-        taskId: task.id,
-        userId: task.user_id,
-        emailType: 'assignment_reminder',
-        task
-      });
-    }
-    // Send early reminder (3 days before)
-    else if (hoursUntilDue <= 72 && hoursUntilDue > 24) {
-      await this.sendNotification({
-        taskId: task.id,
-        userId: task.user_id,
-        emailType: 'assignment_reminder',
-        task
-      });
-    }
-    // Send very early reminder (7 days before)
-    else if (hoursUntilDue <= 168 && hoursUntilDue > 72) {
-      await this.sendNotification({
-        taskId: task.id,
-        userId: task.user_id,
-        emailType: 'assignment_reminder',
-        task
-      });
+    const report = await processReminders(userId);
+    if (report.sent > 0 || report.failed > 0) {
+      logger.info('Processed reminders for user', { userId, ...report });
     }
   }
 
   /**
    * Send notification for newly created Canvas assignments
+   * The inbox always gets one; assignments imported on the same day are grouped
    */
   static async notifyNewCanvasAssignment(task: Task): Promise<boolean> {
     // Only notify for Canvas-imported assignments
@@ -176,6 +103,16 @@ export class EmailNotificationTrigger {
       return false;
     }
 
+    await notificationInboxService.notify({
+      kind: 'new_assignment',
+      title: `New assignment: ${task.title}`,
+      body: task.dueDate ? `Due ${task.dueDate}${task.dueTime ? ` ${task.dueTime}` : ''}` : 'Imported from Canvas',
+      task_id: task.id,
+      class_id: task.class || null,
+      group_key: `new_assignment:${formatDateForInput(new Date())}`,
+      source_key: `new_assignment:${task.id}`,
+    }, task.user_id);
+
     return this.sendNotification({
       taskId: task.id,
       userId: task.user_id,
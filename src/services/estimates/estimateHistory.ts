@@ -0,0 +1,57 @@
+// Turns completed tasks and the study time tracked on them into samples for
+// the estimate model
+import type { Task, TaskStudyData } from '../../types/database';
+import { studySessionService } from '../studySessionService';
+import { logger } from '../../utils/logger';
+import {
+  buildTimeEstimateModel,
+  EMPTY_ESTIMATE_MODEL,
+  type TaskTimeSample,
+  type TimeEstimateModel,
+} from './estimateModel';
+
+// Default estimate of a task, in minutes
+export type DefaultEstimate = (task: Task) => number;
+
+/**
+ * One sample per completed task with tracked time, estimated with the same
+ * default the caller will later scale
+ */
+export const collectTimeSamples = (
+  tasks: Task[],
+  timeOnTask: TaskStudyData[],
+  getDefaultEstimate: DefaultEstimate
+): TaskTimeSample[] => {
+  const tracked = new Map(timeOnTask.map(entry => [entry.taskId, entry]));
+
+  return tasks.flatMap(task => {
+    const time = tracked.get(task.id);
+    if (!task.completed || !time) return [];
+    return [{
+      taskId: task.id,
+      classId: task.class || null,
+      taskTypeId: task.type || null,
+      estimatedMinutes: getDefaultEstimate(task),
+      actualMinutes: time.totalTime,
+      completedAt: time.lastStudied,
+    }];
+  });
+};
+
+/**
+ * Loads the user's tracked time and learns from their completed tasks. With
+ * no history (or no way to load it) estimates stay at their defaults.
+ */
+export const loadTimeEstimateModel = async (
+  userId: string,
+  tasks: Task[],
+  getDefaultEstimate: DefaultEstimate
+): Promise<TimeEstimateModel> => {
+  try {
+    const timeOnTask = await studySessionService.getTaskBreakdown(userId);
+    return buildTimeEstimateModel(collectTimeSamples(tasks, timeOnTask, getDefaultEstimate));
+  } catch (error) {
+    logger.error('Error loading tracked time for estimates:', error);
+    return EMPTY_ESTIMATE_MODEL;
+  }
+};
@@ -0,0 +1,156 @@
+// Learned task durations. Every completed task with tracked study time is a
+// sample of how far off its estimate was; the model keeps the average error
+// per class, per task type and per class and task type, and scales new
+// estimates by it. Errors are kept as log ratios so "twice as long" and "half
+// as long" weigh the same.
+
+export interface TaskTimeSample {
+  taskId: string;
+  classId: string | null;
+  taskTypeId: string | null;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  completedAt: string;
+}
+
+export interface RatioStat {
+  count: number;
+  meanLogRatio: number; // Mean of ln(actual / estimated)
+}
+
+export interface TimeEstimateModel {
+  overall: RatioStat;
+  byClass: Record<string, RatioStat>;
+  byTaskType: Record<string, RatioStat>;
+  byClassTaskType: Record<string, RatioStat>;
+  sampleCount: number;
+  updatedAt: string | null; // Newest sample
+}
+
+export type EstimateSource = 'default' | 'overall' | 'class' | 'task_type' | 'class_task_type';
+
+export interface LearnedEstimate {
+  minutes: number;
+  defaultMinutes: number;
+  ratio: number; // minutes / defaultMinutes
+  source: EstimateSource; // Most specific history the estimate drew on
+  samples: number; // Samples behind that history
+}
+
+export interface EstimateKey {
+  classId?: string | null;
+  taskTypeId?: string | null;
+}
+
+// Tasks with less tracked time than this were most likely not tracked at all
+export const MIN_TRACKED_MINUTES = 10;
+
+// A history needs this many samples to count as much as the level above it
+const PRIOR_WEIGHT = 3;
+
+// Past this many samples the mean becomes a moving average, so habits that
+// change are picked up
+const MAX_WEIGHT = 20;
+
+// One task can move an estimate by at most this factor either way
+const MAX_RATIO = 8;
+const MAX_LOG_RATIO = Math.log(MAX_RATIO);
+
+const EMPTY_STAT: RatioStat = { count: 0, meanLogRatio: 0 };
+
+export const EMPTY_ESTIMATE_MODEL: TimeEstimateModel = {
+  overall: EMPTY_STAT,
+  byClass: {},
+  byTaskType: {},
+  byClassTaskType: {},
+  sampleCount: 0,
+  updatedAt: null,
+};
+
+const classTaskTypeKey = (classId: string, taskTypeId: string): string => `${classId}:${taskTypeId}`;
+
+const updateStat = (stat: RatioStat = EMPTY_STAT, logRatio: number): RatioStat => {
+  const count = stat.count + 1;
+  return {
+    count,
+    meanLogRatio: stat.meanLogRatio + (logRatio - stat.meanLogRatio) / Math.min(count, MAX_WEIGHT),
+  };
+};
+
+// Blends a history with the estimate from the level above, trusting the
+// history more as it grows
+const shrink = (fallback: number, stat: RatioStat | undefined): number =>
+  stat && stat.count > 0
+    ? (PRIOR_WEIGHT * fallback + stat.count * stat.meanLogRatio) / (PRIOR_WEIGHT + stat.count)
+    : fallback;
+
+export const isUsableSample = (sample: TaskTimeSample): boolean =>
+  sample.estimatedMinutes > 0 && sample.actualMinutes >= MIN_TRACKED_MINUTES;
+
+/**
+ * Adds one sample to the model. Samples that can't say anything about the
+ * estimate (no estimate, or barely any tracked time) leave it unchanged.
+ */
+export const addTimeSample = (model: TimeEstimateModel, sample: TaskTimeSample): TimeEstimateModel => {
+  if (!isUsableSample(sample)) return model;
+
+  const logRatio = Math.max(-MAX_LOG_RATIO, Math.min(MAX_LOG_RATIO,
+    Math.log(sample.actualMinutes / sample.estimatedMinutes)));
+  const next: TimeEstimateModel = {
+    ...model,
+    overall: updateStat(model.overall, logRatio),
+    sampleCount: model.sampleCount + 1,
+    updatedAt: !model.updatedAt || sample.completedAt > model.updatedAt ? sample.completedAt : model.updatedAt,
+  };
+
+  if (sample.classId) {
+    next.byClass = { ...model.byClass, [sample.classId]: updateStat(model.byClass[sample.classId], logRatio) };
+  }
+  if (sample.taskTypeId) {
+    next.byTaskType = { ...model.byTaskType, [sample.taskTypeId]: updateStat(model.byTaskType[sample.taskTypeId], logRatio) };
+  }
+  if (sample.classId && sample.taskTypeId) {
+    const key = classTaskTypeKey(sample.classId, sample.taskTypeId);
+    next.byClassTaskType = { ...model.byClassTaskType, [key]: updateStat(model.byClassTaskType[key], logRatio) };
+  }
+  return next;
+};
+
+/**
+ * Builds the model from scratch, oldest sample first so the moving averages
+ * end on the most recent work
+ */
+export const buildTimeEstimateModel = (samples: TaskTimeSample[]): TimeEstimateModel =>
+  [...samples]
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt))
+    .reduce(addTimeSample, EMPTY_ESTIMATE_MODEL);
+
+/**
+ * Scales a default estimate by the user's history, from the general to the
+ * specific: all tasks, the task type, the class, then that type in that class.
+ * Each level only moves the estimate as far as its samples justify.
+ */
+export const getLearnedEstimate = (
+  model: TimeEstimateModel,
+  key: EstimateKey,
+  defaultMinutes: number
+): LearnedEstimate => {
+  const classStat = key.classId ? model.byClass[key.classId] : undefined;
+  const typeStat = key.taskTypeId ? model.byTaskType[key.taskTypeId] : undefined;
+  const classTypeStat = key.classId && key.taskTypeId
+    ? model.byClassTaskType[classTaskTypeKey(key.classId, key.taskTypeId)]
+    : undefined;
+
+  const overall = shrink(0, model.overall);
+  const logRatio = shrink(shrink(shrink(overall, typeStat), classStat), classTypeStat);
+  const ratio = Math.exp(logRatio);
+
+  const [source, samples]: [EstimateSource, number] =
+    classTypeStat?.count ? ['class_task_type', classTypeStat.count]
+      : typeStat?.count ? ['task_type', typeStat.count]
+        : classStat?.count ? ['class', classStat.count]
+          : model.overall.count ? ['overall', model.overall.count]
+            : ['default', 0];
+
+  return { minutes: defaultMinutes * ratio, defaultMinutes, ratio, source, samples };
+};
@@ -0,0 +1,20 @@
+// Task duration estimates learned from tracked study time
+export type {
+  TaskTimeSample,
+  RatioStat,
+  TimeEstimateModel,
+  EstimateSource,
+  LearnedEstimate,
+  EstimateKey,
+} from './estimateModel';
+export {
+  MIN_TRACKED_MINUTES,
+  EMPTY_ESTIMATE_MODEL,
+  isUsableSample,
+  addTimeSample,
+  buildTimeEstimateModel,
+  getLearnedEstimate,
+} from './estimateModel';
+
+export type { DefaultEstimate } from './estimateHistory';
+export { collectTimeSamples, loadTimeEstimateModel } from './estimateHistory';
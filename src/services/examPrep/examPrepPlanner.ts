@@ -0,0 +1,306 @@
+// Exam prep plans: review, practice and a mock exam back-planned over the
+// weeks before an exam, weakest topics first, and how ready the student is
+import type { ExamPrepPhase, StudySession, UnmetConstraint } from '../../types/studySchedule';
+import type { StudyConcept, Task, TaskType } from '../../types/database';
+import {
+  DEFAULT_EXAM_MINUTES,
+  getTaskDeadline,
+  isTimedTask,
+  solveStudySchedule,
+  type BusyBlock,
+  type ScheduleSolverInput,
+  type StudyDemand
+} from '../../utils/scheduleSolver';
+import { shiftDateString } from '../../utils/recurringTaskHelpers';
+import { getConceptRecall } from '../retention';
+
+export type TopicConfidence = 1 | 2 | 3 | 4 | 5;
+
+// Something the exam covers, and how confident the student feels about it
+export interface ExamTopic {
+  name: string;
+  conceptId?: string | null; // Study concept the topic comes from
+  confidence: TopicConfidence;
+}
+
+export interface ReadinessPoint {
+  date: string; // YYYY-MM-DD
+  readiness: number; // 0-100
+}
+
+export interface ExamPrepPlan {
+  exam_task_id: string;
+  user_id: string;
+  class_id: string;
+  topics: ExamTopic[];
+  sessions: StudySession[];
+  unmet: UnmetConstraint[]; // Prep time that didn't fit before the exam
+  readiness_history: ReadinessPoint[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExamPrepInput {
+  exam: Task;
+  topics: ExamTopic[];
+  profile: ScheduleSolverInput['profile'];
+  busy: BusyBlock[];
+  now: string; // YYYY-MM-DDTHH:MM
+  fixed?: StudySession[]; // Other study sessions keeping their time
+  done?: StudySession[]; // Prep sessions from an earlier plan already done
+  excludeDates?: string[];
+  prepWeeks?: number;
+  createdAt?: string;
+}
+
+export interface ExamPrepSchedule {
+  sessions: StudySession[];
+  unmet: UnmetConstraint[];
+}
+
+export interface ExamReadiness {
+  score: number; // 0-100
+  confidence: number; // 0-100, from how confident the student is per topic
+  progress: number; // 0-100, share of the planned prep time done
+  expectedProgress: number; // 0-100, share that should be done by now
+  recall: number | null; // 0-100, predicted recall of topics that are study concepts
+  onTrack: boolean;
+  weakTopics: string[];
+  daysLeft: number;
+}
+
+export const CONFIDENCE_LEVELS: { confidence: TopicConfidence; label: string }[] = [
+  { confidence: 1, label: 'Lost' },
+  { confidence: 2, label: 'Shaky' },
+  { confidence: 3, label: 'Okay' },
+  { confidence: 4, label: 'Good' },
+  { confidence: 5, label: 'Solid' },
+];
+
+// Preparation starts this many weeks before the exam
+export const PREP_WEEKS = 3;
+
+// Study time per topic for each point of confidence short of full marks, plus
+// one point's worth for topics the student is already solid on
+export const REVIEW_MINUTES_PER_GAP = 20;
+export const PRACTICE_MINUTES_PER_GAP = 15;
+
+// The mock exam is sat this many days before the exam, leaving time to work
+// on what it shows up
+export const MOCK_EXAM_LEAD_DAYS = 2;
+
+// How many days the mock exam may move earlier to find a free block
+const MOCK_EXAM_WINDOW_DAYS = 2;
+
+// The first part of the prep window goes to review, the rest to practice
+const REVIEW_SHARE = 0.5;
+
+// Progress this far behind the plan counts as falling behind
+const BEHIND_MARGIN = 10;
+
+const WEAK_CONFIDENCE = 2;
+
+const EXAM_TYPE_PATTERN = /exam|midterm|final/;
+
+const PHASE_OBJECTIVES: Record<ExamPrepPhase, string[]> = {
+  review: ['Go back over your notes and the readings, and write down what is still unclear'],
+  practice: ['Work practice problems without your notes, then check them'],
+  mock_exam: ['Sit a past or practice exam under exam conditions, then mark it and note the topics to revisit'],
+};
+
+const DONE_STATUSES: StudySession['status'][] = ['completed', 'in_progress'];
+
+const daysBetween = (from: string, to: string): number => {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+};
+
+const laterDate = (a: string, b: string): string => (a > b ? a : b);
+
+const sessionEnd = (session: StudySession): string => `${session.date}T${session.end_time}`;
+
+const getSessionMinutes = (session: StudySession): number =>
+  session.actual_duration_minutes ?? session.duration_minutes;
+
+/**
+ * Whether a task is an exam. Task types are stored on tasks by id.
+ */
+export const isExamTask = (task: Pick<Task, 'type'>, taskTypes: TaskType[]): boolean => {
+  const typeName = taskTypes.find(type => type.id === task.type)?.name || task.type || '';
+  return EXAM_TYPE_PATTERN.test(typeName.toLowerCase());
+};
+
+// How long the exam itself takes, for sizing the mock exam
+const getExamMinutes = (exam: Task): number => {
+  if (!isTimedTask(exam)) return DEFAULT_EXAM_MINUTES;
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  };
+  const minutes = toMinutes(exam.endTime!) - toMinutes(exam.startTime!);
+  return minutes > 0 ? minutes : DEFAULT_EXAM_MINUTES;
+};
+
+/**
+ * Back-plans an exam's preparation from PREP_WEEKS before it (or now, if
+ * that's later): a review session per topic in the first half, practice per
+ * topic in the second, and a mock exam MOCK_EXAM_LEAD_DAYS before the exam.
+ * Less confident topics get more time and are placed first. Time already
+ * done for a topic in `done` isn't planned again.
+ */
+export const planExamPrep = (input: ExamPrepInput): ExamPrepSchedule => {
+  const { exam } = input;
+  const deadline = getTaskDeadline(exam);
+  if (!deadline || deadline <= input.now) return { sessions: [], unmet: [] };
+
+  const examDate = deadline.slice(0, 10);
+  const today = input.now.slice(0, 10);
+  const startDate = laterDate(today, shiftDateString(examDate, -(input.prepWeeks ?? PREP_WEEKS) * 7));
+  const prepDays = daysBetween(startDate, examDate);
+  const endOfDay = (date: string) => (date >= examDate ? deadline : `${date}T23:59`);
+
+  const reviewEnd = shiftDateString(startDate, Math.max(1, Math.floor(prepDays * REVIEW_SHARE)) - 1);
+  const practiceStart = prepDays > 1 ? shiftDateString(reviewEnd, 1) : startDate;
+  const mockLatest = prepDays > MOCK_EXAM_LEAD_DAYS ? shiftDateString(examDate, -MOCK_EXAM_LEAD_DAYS) : examDate;
+  const mockEarliest = laterDate(practiceStart, shiftDateString(mockLatest, -MOCK_EXAM_WINDOW_DAYS));
+
+  const doneMinutes = new Map<string, number>();
+  (input.done || []).forEach(session => {
+    doneMinutes.set(session.focus_area, (doneMinutes.get(session.focus_area) || 0) + getSessionMinutes(session));
+  });
+
+  const classId = exam.class || 'unassigned';
+  const buildDemand = (
+    phase: ExamPrepPhase,
+    index: number,
+    label: string,
+    minutes: number,
+    earliest: string,
+    latest: string,
+    difficulty: number,
+    conceptId?: string | null
+  ): StudyDemand => ({
+    id: `exam_${exam.id}_${phase}_${index}`,
+    classId,
+    label,
+    taskIds: [exam.id],
+    ...(conceptId ? { conceptIds: [conceptId] } : {}),
+    minutes: Math.max(0, minutes - (doneMinutes.get(label) || 0)),
+    earliest,
+    deadline: endOfDay(latest),
+    difficulty,
+    sessionType: 'exam_prep',
+  });
+
+  // Weakest topics first; the solver places earlier demands in earlier slots
+  const topics = input.topics
+    .map((topic, index) => ({ topic, index, gap: 6 - topic.confidence }))
+    .sort((a, b) => b.gap - a.gap || a.index - b.index);
+
+  const phases: { phase: ExamPrepPhase; demands: StudyDemand[]; focusMinutes?: number }[] = [
+    {
+      // The mock exam needs one long block, so it's placed first
+      phase: 'mock_exam',
+      demands: [buildDemand('mock_exam', 0, `Mock exam: ${exam.title}`, getExamMinutes(exam), mockEarliest, mockLatest, 5)],
+      focusMinutes: getExamMinutes(exam),
+    },
+    {
+      phase: 'review',
+      demands: topics.map(({ topic, index, gap }) => buildDemand(
+        'review', index, `Review: ${topic.name}`, gap * REVIEW_MINUTES_PER_GAP, startDate, reviewEnd, gap, topic.conceptId
+      )),
+    },
+    {
+      phase: 'practice',
+      demands: topics.map(({ topic, index, gap }) => buildDemand(
+        'practice', index, `Practice: ${topic.name}`, gap * PRACTICE_MINUTES_PER_GAP, practiceStart, examDate, gap
+      )),
+    },
+  ];
+
+  const sessions: StudySession[] = [];
+  const unmet: UnmetConstraint[] = [];
+  phases.forEach(({ phase, demands, focusMinutes }) => {
+    const solution = solveStudySchedule({
+      startDate,
+      endDate: examDate,
+      profile: focusMinutes
+        ? { ...input.profile, focus_duration_minutes: Math.max(input.profile.focus_duration_minutes, focusMinutes) }
+        : input.profile,
+      demands,
+      busy: input.busy,
+      excludeDates: input.excludeDates,
+      fixed: [...(input.fixed || []), ...sessions],
+      notBefore: input.now,
+      createdAt: input.createdAt,
+    });
+    sessions.push(...solution.sessions.map(session => ({
+      ...session,
+      id: `prep_${exam.id}_${session.date}_${session.start_time.replace(':', '')}`,
+      prep_phase: phase,
+      learning_objectives: PHASE_OBJECTIVES[phase],
+    })));
+    unmet.push(...solution.unmet);
+  });
+
+  sessions.sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+  return { sessions, unmet };
+};
+
+/**
+ * How ready the student is for an exam: topic confidence, prep sessions done
+ * against the plan, and predicted recall of topics that are study concepts
+ */
+export const getExamReadiness = (
+  plan: Pick<ExamPrepPlan, 'topics' | 'sessions'>,
+  examDate: string,
+  concepts: StudyConcept[],
+  now: string // YYYY-MM-DDTHH:MM
+): ExamReadiness => {
+  const percent = (value: number) => Math.round(value * 100);
+
+  const confidence = plan.topics.length > 0
+    ? plan.topics.reduce((sum, topic) => sum + (topic.confidence - 1) / 4, 0) / plan.topics.length
+    : 0;
+
+  const plannedMinutes = plan.sessions.reduce((sum, session) => sum + session.duration_minutes, 0);
+  const doneMinutes = plan.sessions
+    .filter(session => DONE_STATUSES.includes(session.status))
+    .reduce((sum, session) => sum + getSessionMinutes(session), 0);
+  const dueMinutes = plan.sessions
+    .filter(session => sessionEnd(session) <= now)
+    .reduce((sum, session) => sum + session.duration_minutes, 0);
+  const progress = plannedMinutes > 0 ? Math.min(1, doneMinutes / plannedMinutes) : 0;
+  const expectedProgress = plannedMinutes > 0 ? dueMinutes / plannedMinutes : 0;
+
+  const recalls = plan.topics
+    .map(topic => concepts.find(concept => concept.id === topic.conceptId))
+    .map(concept => (concept ? getConceptRecall(concept, new Date(now)) : null))
+    .filter((recall): recall is number => recall !== null);
+  const recall = recalls.length > 0 ? recalls.reduce((sum, value) => sum + value, 0) / recalls.length : null;
+
+  const score = recall === null
+    ? 0.6 * confidence + 0.4 * progress
+    : 0.5 * confidence + 0.3 * progress + 0.2 * recall;
+
+  return {
+    score: percent(score),
+    confidence: percent(confidence),
+    progress: percent(progress),
+    expectedProgress: percent(expectedProgress),
+    recall: recall === null ? null : percent(recall),
+    onTrack: percent(progress) >= percent(expectedProgress) - BEHIND_MARGIN,
+    weakTopics: plan.topics.filter(topic => topic.confidence <= WEAK_CONFIDENCE).map(topic => topic.name),
+    daysLeft: Math.max(0, daysBetween(now.slice(0, 10), examDate)),
+  };
+};
+
+/**
+ * Adds a day's readiness to the history, replacing an earlier one that day
+ */
+export const recordReadiness = (history: ReadinessPoint[], date: string, readiness: number): ReadinessPoint[] =>
+  [...history.filter(point => point.date !== date), { date, readiness }]
+    .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,76 @@
+// Exam prep plans, one per exam task. Stored on the device: they only hold
+// the student's own topic ratings and the sessions planned from them.
+import type { StudySession } from '../../types/studySchedule';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import type { ExamPrepPlan } from './examPrepPlanner';
+
+export const EXAM_PREP_PLANS_KEY = 'exam_prep_plans';
+
+type ExamPrepListener = () => void;
+
+class ExamPrepService {
+  private listeners = new Set<ExamPrepListener>();
+
+  /**
+   * Listen for plans being saved, updated or deleted
+   */
+  subscribe(listener: ExamPrepListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getAllPlans(): ExamPrepPlan[] {
+    return getLocalData<ExamPrepPlan[]>(EXAM_PREP_PLANS_KEY, []);
+  }
+
+  private savePlans(plans: ExamPrepPlan[]): void {
+    saveLocalData(EXAM_PREP_PLANS_KEY, plans);
+    this.notify();
+  }
+
+  getPlans(userId: string): ExamPrepPlan[] {
+    return this.getAllPlans().filter(plan => plan.user_id === userId);
+  }
+
+  getPlan(examTaskId: string): ExamPrepPlan | null {
+    return this.getAllPlans().find(plan => plan.exam_task_id === examTaskId) || null;
+  }
+
+  savePlan(plan: ExamPrepPlan): ExamPrepPlan {
+    const saved = { ...plan, updated_at: new Date().toISOString() };
+    this.savePlans([...this.getAllPlans().filter(cached => cached.exam_task_id !== plan.exam_task_id), saved]);
+    return saved;
+  }
+
+  /**
+   * Replace a plan's sessions, e.g. once they have been fitted into a study
+   * schedule
+   */
+  replaceSessions(examTaskId: string, sessions: StudySession[]): void {
+    const plan = this.getPlan(examTaskId);
+    if (plan) this.savePlan({ ...plan, sessions });
+  }
+
+  /**
+   * Keep a plan's copy of a session in step when it's started, completed or
+   * skipped in the study schedule
+   */
+  updateSession(examTaskId: string, session: StudySession): void {
+    const plan = this.getPlan(examTaskId);
+    if (!plan?.sessions.some(cached => cached.id === session.id)) return;
+    this.savePlan({
+      ...plan,
+      sessions: plan.sessions.map(cached => (cached.id === session.id ? session : cached)),
+    });
+  }
+
+  deletePlan(examTaskId: string): void {
+    this.savePlans(this.getAllPlans().filter(plan => plan.exam_task_id !== examTaskId));
+  }
+}
+
+export const examPrepService = new ExamPrepService();
@@ -0,0 +1,23 @@
+// Exam prep: back-planned review, practice and mock exams, and readiness
+export type {
+  TopicConfidence,
+  ExamTopic,
+  ReadinessPoint,
+  ExamPrepPlan,
+  ExamPrepInput,
+  ExamPrepSchedule,
+  ExamReadiness,
+} from './examPrepPlanner';
+export {
+  CONFIDENCE_LEVELS,
+  PREP_WEEKS,
+  REVIEW_MINUTES_PER_GAP,
+  PRACTICE_MINUTES_PER_GAP,
+  MOCK_EXAM_LEAD_DAYS,
+  isExamTask,
+  planExamPrep,
+  getExamReadiness,
+  recordReadiness,
+} from './examPrepPlanner';
+
+export { EXAM_PREP_PLANS_KEY, examPrepService } from './examPrepService';
@@ -4,6 +4,7 @@ import type {
   TaskType,
   Grade,
   Assignment,
+  GradeCategory,
   StudySession,
   NotificationSettings
 } from '../types/database';
@@ -12,10 +13,13 @@ import { errorHandler } from '../utils/errorHandler';
 import { getTasks } from './task/taskOperations';
 import { getClasses } from './class/classOperations';
 import { getTaskTypes } from './taskType/taskTypeOperations';
+import { getAssignments, getGrades, getGradeCategories } from './grade/gradeOperations';
+import { studySessionService } from './studySessionService';
 import { getCurrentUser } from './authService';
 import { supabase } from './supabaseClient';
 import JSZip from 'jszip';
 import { getTermDateRange, parseTermFromString, type AcademicTerm, type AcademicSystem } from '../utils/academicTermHelpers';
+import { buildCalendarICS, type ICSCalendarOptions } from '../utils/icsCalendarBuilder';
 
 // Export data structure types
 export interface ExportData {
@@ -27,6 +31,7 @@ export interface ExportData {
   taskTypes: TaskType[];
   grades?: Grade[];
   assignments?: Assignment[];
+  gradeCategories?: GradeCategory[];
   studySessions?: StudySession[];
   settings?: NotificationSettings;
 }
@@ -55,10 +60,7 @@ export interface CSVExportOptions extends ExportOptions {
 }
 
 // ICS export specific types
-export interface ICSExportOptions extends ExportOptions {
-  calendarName?: string;
-  timezone?: string;
-}
+export type ICSExportOptions = ExportOptions & ICSCalendarOptions;
 
 /**
  * Main export service class
@@ -110,14 +112,24 @@ export class ExportService {
 
       // Add optional data if requested
       if (options.dataTypes?.includes('grades')) {
-        // TODO: Add grades when grade service is available
-        exportData.grades = [];
-        exportData.assignments = [];
+        onProgress?.({ step: 'Fetching Grades', progress: 65, message: 'Loading grades...' });
+        const [gradeCategories, assignments, grades] = await Promise.all([
+          getGradeCategories(user.id, true),
+          getAssignments(user.id, true),
+          getGrades(user.id, true)
+        ]);
+        exportData.gradeCategories = gradeCategories;
+        exportData.assignments = assignments;
+        exportData.grades = grades;
       }
 
       if (options.dataTypes?.includes('sessions')) {
-        // TODO: Add study sessions when available
-        exportData.studySessions = [];
+        onProgress?.({ step: 'Fetching Study Sessions', progress: 75, message: 'Loading study sessions...' });
+        const sessions = await studySessionService.getUserSessions(user.id);
+        exportData.studySessions = sessions.filter(session => {
+          const start = new Date(session.start_time);
+          return (!options.startDate || start >= options.startDate) && (!options.endDate || start <= options.endDate);
+        });
       }
 
       onProgress?.({ step: 'Creating File', progress: 95, message: 'Creating download file...' });
@@ -240,68 +252,11 @@ export class ExportService {
 
       const tasks = await this.getFilteredTasks(user.id, options);
       const classes = await getClasses(user.id, true);
+      const taskTypes = await getTaskTypes(user.id, true);
 
       onProgress?.({ step: 'Creating Calendar', progress: 70, message: 'Generating calendar events...' });
 
-      // ICS header
-      const calendarName = options.calendarName || 'ScheduleBud Academic Calendar';
-      const timezone = options.timezone || 'America/Los_Angeles';
-      
-      let icsContent = [
-        'BEGIN:VCALENDAR',
-        'VERSION:2.0',
-        'PRODID:-//ScheduleBud//Academic Calendar//EN',
-        `X-WR-CALNAME:${calendarName}`,
-        `X-WR-TIMEZONE:${timezone}`,
-        'CALSCALE:GREGORIAN'
-      ].join('\r\n') + '\r\n';
-
-      // Add timezone definition
-      icsContent += [
-        'BEGIN:VTIMEZONE',
-        `TZID:${timezone}`,
-        'BEGIN:STANDARD',
-        'DTSTART:20201101T020000',
-        'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
-        'TZNAME:PST',
-        'TZOFFSETFROM:-0700',
-        'TZOFFSETTO:-0800',
-        'END:STANDARD',
-        'BEGIN:DAYLIGHT',
-        'DTSTART:20210314T020000',
-        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
-        'TZNAME:PDT',
-        'TZOFFSETFROM:-0800',
-        'TZOFFSETTO:-0700',
-        'END:DAYLIGHT',
-        'END:VTIMEZONE'
-      ].join('\r\n') + '\r\n';
-
-      // Convert tasks to calendar events
-      for (const task of tasks) {
-        const taskClass = classes.find(c => c.id === task.class);
-        const dueDate = task.dueDate ? new Date(task.dueDate) : new Date();
-        
-        // Format dates for ICS (YYYYMMDDTHHMMSSZ)
-        const dueDateFormatted = this.formatICSDate(dueDate);
-        const createdFormatted = this.formatICSDate(new Date(task.created_at));
-        
-        icsContent += [
-          'BEGIN:VEVENT',
-          `UID:task-${task.id}@schedulebud.app`,
-          `DTSTAMP:${createdFormatted}`,
-          `DTSTART;VALUE=DATE:${dueDateFormatted.split('T')[0]}`,
-          `SUMMARY:${this.escapeICSValue(task.title)}`,
-          `DESCRIPTION:${this.escapeICSValue('')}`, // Description not available in current schema
-          `LOCATION:${this.escapeICSValue(taskClass?.name || '')}`,
-          `CATEGORIES:${this.escapeICSValue(task.type || '')}`,
-          `STATUS:${task.completed ? 'COMPLETED' : 'CONFIRMED'}`,
-          'END:VEVENT'
-        ].join('\r\n') + '\r\n';
-      }
-
-      // ICS footer
-      icsContent += 'END:VCALENDAR\r\n';
+      const icsContent = buildCalendarICS(tasks, classes, taskTypes, options);
 
       onProgress?.({ step: 'Creating File', progress: 95, message: 'Creating ICS file...' });
 
@@ -398,7 +353,8 @@ export class ExportService {
         if (!task.dueDate) return true; // Include tasks without due dates
         const taskDate = new Date(task.dueDate);
         
-        if (options.startDate && taskDate < options.startDate) {
+        // Repeating tasks that started earlier can still have occurrences in range
+        if (options.startDate && taskDate < options.startDate && !task.recurrence_rule) {
           return false;
         }
         
@@ -434,21 +390,6 @@ export class ExportService {
     return value;
   }
 
-  private escapeICSValue(value: string): string {
-    if (!value) return '';
-    
-    return value
-      .replace(/\\/g, '\\\\')
-      .replace(/;/g, '\\;')
-      .replace(/,/g, '\\,')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '');
-  }
-
-  private formatICSDate(date: Date): string {
-    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
-  }
-
   /**
    * Export all user's uploaded files as ZIP archive
    */
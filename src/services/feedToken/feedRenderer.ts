@@ -0,0 +1,113 @@
+// Serves a subscribable calendar feed for a feed token. Kept free of browser
+// and Supabase client imports so the calendar-feed Edge Function and the local
+// stand-in run the same code.
+import type { Task, Class, TaskType, CalendarFeedToken } from '../../types/database';
+import { buildCalendarICS } from '../../utils/icsCalendarBuilder';
+
+// Tasks and lookups a feed is rendered from
+export interface CalendarFeedData {
+  tasks: Task[];
+  classes: Class[];
+  taskTypes: TaskType[];
+}
+
+// Where a feed server reads tokens and task data from
+export interface CalendarFeedSource {
+  findFeed(token: string): Promise<CalendarFeedToken | null>;
+  loadFeedData(userId: string): Promise<CalendarFeedData>;
+  markAccessed?(feedId: string, accessedAt: string): Promise<void>;
+}
+
+// Transport-neutral HTTP response, converted to a Response by the caller
+export interface CalendarFeedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export type CalendarFeedFilters = Pick<CalendarFeedToken, 'class_ids' | 'task_type_ids' | 'include_completed'>;
+
+// Tokens are 32 random bytes, base64url encoded
+export const FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+// Calendar apps poll feeds; let them reuse a response for a few minutes
+const FEED_CACHE_SECONDS = 300;
+
+const textResponse = (status: number, body: string, headers: Record<string, string> = {}): CalendarFeedResponse => ({
+  status,
+  headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store', ...headers },
+  body,
+});
+
+/**
+ * Applies a feed's filters. Empty class or task type lists mean "all".
+ */
+export const filterFeedTasks = (tasks: Task[], filters: CalendarFeedFilters): Task[] => {
+  const classIds = new Set(filters.class_ids);
+  const taskTypeIds = new Set(filters.task_type_ids);
+
+  return tasks.filter(task => {
+    if (!filters.include_completed && task.completed) return false;
+    if (classIds.size > 0 && (!task.class || !classIds.has(task.class))) return false;
+    if (taskTypeIds.size > 0 && (!task.type || !taskTypeIds.has(task.type))) return false;
+    return true;
+  });
+};
+
+/**
+ * Renders the ICS feed for a token. Unknown, malformed and revoked tokens all
+ * get the same 404 so a token's history can't be probed.
+ *
+ * @param method - HTTP method of the request; only GET and HEAD are allowed
+ * @param token - Token from the feed URL
+ * @param source - Token and task storage to read from
+ */
+export const renderCalendarFeed = async (
+  method: string,
+  token: string | null,
+  source: CalendarFeedSource
+): Promise<CalendarFeedResponse> => {
+  const upperMethod = method.toUpperCase();
+  if (upperMethod !== 'GET' && upperMethod !== 'HEAD') {
+    return textResponse(405, 'Method not allowed', { Allow: 'GET, HEAD' });
+  }
+
+  if (!token || !FEED_TOKEN_PATTERN.test(token)) {
+    return textResponse(404, 'Calendar feed not found');
+  }
+
+  const feed = await source.findFeed(token);
+  if (!feed || feed.revoked_at) {
+    return textResponse(404, 'Calendar feed not found');
+  }
+
+  let data: CalendarFeedData;
+  try {
+    data = await source.loadFeedData(feed.user_id);
+  } catch {
+    return textResponse(503, 'Calendar feed temporarily unavailable', { 'Retry-After': String(FEED_CACHE_SECONDS) });
+  }
+
+  const body = buildCalendarICS(filterFeedTasks(data.tasks, feed), data.classes, data.taskTypes, {
+    calendarName: feed.label,
+    timezone: feed.time_zone,
+    sourceTimezone: feed.time_zone,
+  });
+
+  // Access tracking is informational; a failed write shouldn't break the feed
+  try {
+    await source.markAccessed?.(feed.id, new Date().toISOString());
+  } catch {
+    // ignored
+  }
+
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="schedulebud.ics"',
+      'Cache-Control': `private, max-age=${FEED_CACHE_SECONDS}`,
+    },
+    body: upperMethod === 'HEAD' ? '' : body,
+  };
+};
@@ -0,0 +1,175 @@
+import type {
+  CalendarFeedToken,
+  CalendarFeedTokenInsert,
+  CalendarFeedTokenUpdate
+} from '../../types/database';
+import { supabase } from "../supabaseClient";
+import { getCurrentUser } from "../authService";
+import { supabaseConfig } from "../../config";
+import { logger } from "../../utils/logger";
+import { getLocalData, saveLocalData } from "../../utils/storageHelpers";
+import { generateUniqueId } from "../../utils/idHelpers";
+import { getUserTimeZone } from "../../utils/timezoneHelpers";
+import type { CalendarFeedFilters } from "./feedRenderer";
+
+export const FEED_TOKENS_KEY = 'calendar_feed_tokens';
+
+export type CalendarFeedSettings = Partial<CalendarFeedFilters> & { label?: string };
+
+const FEED_FUNCTION_PATH = '/functions/v1/calendar-feed';
+
+/**
+ * Creates an unguessable feed token: 32 random bytes, base64url encoded
+ */
+export const generateFeedToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Subscription URL for a feed token. Calendar apps on phones open webcal://
+ * links directly in their "add subscription" flow.
+ */
+export const getFeedUrl = (token: string, options: { webcal?: boolean } = {}): string => {
+  const url = `${supabaseConfig.url || ''}${FEED_FUNCTION_PATH}?token=${encodeURIComponent(token)}`;
+  return options.webcal ? url.replace(/^https?:\/\//, 'webcal://') : url;
+};
+
+const getLocalFeeds = (): CalendarFeedToken[] => getLocalData<CalendarFeedToken[]>(FEED_TOKENS_KEY, []);
+
+const updateLocalFeed = (feedId: string, changes: CalendarFeedTokenUpdate): CalendarFeedToken => {
+  const feeds = getLocalFeeds();
+  const index = feeds.findIndex(feed => feed.id === feedId);
+  if (index === -1) {
+    throw new Error(`Calendar feed ${feedId} not found`);
+  }
+  feeds[index] = { ...feeds[index], ...changes };
+  saveLocalData(FEED_TOKENS_KEY, feeds);
+  return feeds[index];
+};
+
+const updateFeed = async (
+  feedId: string,
+  changes: CalendarFeedTokenUpdate,
+  useSupabase: boolean
+): Promise<CalendarFeedToken> => {
+  if (!useSupabase) {
+    return updateLocalFeed(feedId, changes);
+  }
+
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .update(changes)
+    .eq("id", feedId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error("Error updating calendar feed in Supabase:", error);
+    throw error || new Error(`Calendar feed ${feedId} not found`);
+  }
+  return data as CalendarFeedToken;
+};
+
+/**
+ * Lists the user's active (not revoked) calendar feeds, oldest first
+ */
+export const getFeedTokens = async (useSupabase = false): Promise<CalendarFeedToken[]> => {
+  if (!useSupabase) {
+    return getLocalFeeds().filter(feed => !feed.revoked_at);
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    logger.error("[getFeedTokens] No authenticated user found");
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .select("*")
+    .eq("user_id", user.id)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    logger.error("Error fetching calendar feeds from Supabase:", error);
+    return [];
+  }
+  return (data || []) as CalendarFeedToken[];
+};
+
+/**
+ * Creates a feed with a fresh token. Task times are rendered in the zone the
+ * feed was created from, since the server has no device zone of its own.
+ */
+export const createFeedToken = async (
+  settings: CalendarFeedSettings = {},
+  useSupabase = false
+): Promise<CalendarFeedToken> => {
+  const feed: CalendarFeedTokenInsert = {
+    user_id: 'local-user',
+    token: generateFeedToken(),
+    label: settings.label?.trim() || 'ScheduleBud',
+    class_ids: settings.class_ids || [],
+    task_type_ids: settings.task_type_ids || [],
+    include_completed: settings.include_completed ?? false,
+    time_zone: getUserTimeZone(),
+    created_at: new Date().toISOString(),
+  };
+
+  if (!useSupabase) {
+    const created = { ...feed, id: generateUniqueId('feed') } as CalendarFeedToken;
+    saveLocalData(FEED_TOKENS_KEY, [...getLocalFeeds(), created]);
+    return created;
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    logger.error("No authenticated user found for createFeedToken");
+    throw new Error("Not authenticated");
+  }
+
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .insert([{ ...feed, user_id: user.id }])
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error("Error creating calendar feed in Supabase:", error);
+    throw error || new Error("Calendar feed was not created");
+  }
+  return data as CalendarFeedToken;
+};
+
+/**
+ * Changes a feed's label or filters. The token and URL stay the same.
+ */
+export const updateFeedSettings = (
+  feedId: string,
+  settings: CalendarFeedSettings,
+  useSupabase = false
+): Promise<CalendarFeedToken> => {
+  const changes: CalendarFeedTokenUpdate = { ...settings };
+  if (settings.label !== undefined) {
+    changes.label = settings.label.trim() || 'ScheduleBud';
+  }
+  return updateFeed(feedId, changes, useSupabase);
+};
+
+/**
+ * Replaces a feed's token. The old URL stops working immediately; calendars
+ * have to be re-subscribed with the new one.
+ */
+export const rotateFeedToken = (feedId: string, useSupabase = false): Promise<CalendarFeedToken> =>
+  updateFeed(feedId, { token: generateFeedToken(), rotated_at: new Date().toISOString() }, useSupabase);
+
+/**
+ * Permanently disables a feed. The row is kept (rather than deleted) so the
+ * token is never handed out again.
+ */
+export const revokeFeedToken = async (feedId: string, useSupabase = false): Promise<void> => {
+  await updateFeed(feedId, { revoked_at: new Date().toISOString() }, useSupabase);
+};
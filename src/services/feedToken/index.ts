@@ -0,0 +1,22 @@
+// Subscribable calendar feeds: token management, rendering and the local stand-in
+export {
+  FEED_TOKENS_KEY,
+  generateFeedToken,
+  getFeedUrl,
+  getFeedTokens,
+  createFeedToken,
+  updateFeedSettings,
+  rotateFeedToken,
+  revokeFeedToken,
+} from './feedTokenOperations';
+export type { CalendarFeedSettings } from './feedTokenOperations';
+
+export { FEED_TOKEN_PATTERN, filterFeedTasks, renderCalendarFeed } from './feedRenderer';
+export type {
+  CalendarFeedData,
+  CalendarFeedSource,
+  CalendarFeedResponse,
+  CalendarFeedFilters,
+} from './feedRenderer';
+
+export { createLocalFeedSource, serveLocalCalendarFeed } from './localFeedServer';
@@ -0,0 +1,49 @@
+// Local stand-in for the calendar-feed Edge Function: serves feeds from the
+// browser's local storage through the same renderer, for local mode and tests.
+import type { Task, Class, TaskType, CalendarFeedToken } from '../../types/database';
+import { STORAGE_KEYS } from '../../types/database';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import { FEED_TOKENS_KEY } from './feedTokenOperations';
+import {
+  renderCalendarFeed,
+  type CalendarFeedSource,
+  type CalendarFeedResponse,
+} from './feedRenderer';
+
+/**
+ * Feed source backed by the tokens and tasks saved in local storage
+ */
+export const createLocalFeedSource = (): CalendarFeedSource => ({
+  findFeed: async token =>
+    getLocalData<CalendarFeedToken[]>(FEED_TOKENS_KEY, []).find(feed => feed.token === token) || null,
+
+  // Local data belongs to the one local user, so the user id isn't needed
+  loadFeedData: async () => ({
+    tasks: getLocalData<Task[]>(STORAGE_KEYS.TASKS, []),
+    classes: getLocalData<Class[]>(STORAGE_KEYS.CLASSES, []),
+    taskTypes: getLocalData<TaskType[]>(STORAGE_KEYS.TASK_TYPES, []),
+  }),
+
+  markAccessed: async (feedId, accessedAt) => {
+    const feeds = getLocalData<CalendarFeedToken[]>(FEED_TOKENS_KEY, []);
+    saveLocalData(FEED_TOKENS_KEY, feeds.map(feed =>
+      feed.id === feedId ? { ...feed, last_accessed_at: accessedAt } : feed
+    ));
+  },
+});
+
+/**
+ * Answers a request for a feed URL the way the Edge Function would
+ *
+ * @param url - Feed URL, as returned by getFeedUrl
+ * @param method - HTTP method of the request
+ * @param source - Storage to serve from; defaults to local storage
+ */
+export const serveLocalCalendarFeed = (
+  url: string,
+  method = 'GET',
+  source: CalendarFeedSource = createLocalFeedSource()
+): Promise<CalendarFeedResponse> => {
+  const token = new URL(url.replace(/^webcal:\/\//i, 'https://'), 'http://localhost').searchParams.get('token');
+  return renderCalendarFeed(method, token, source);
+};
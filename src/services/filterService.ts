@@ -1,6 +1,8 @@
 import type { Task, Class, TaskType } from '../types/database';
 import { addDays, startOfWeek, endOfWeek, isWithinInterval, parseISO } from 'date-fns';
 import { logger } from '../utils/logger';
+import type { DeepLinkTarget } from '../utils/deepLinks';
+import { isExamTask } from './examPrep';
 
 // Filter criteria interfaces
 export interface FilterCriteria {
@@ -26,6 +28,15 @@ export interface FilterPreset {
   description: string;
   icon: string;
   criteria: FilterCriteria;
+  links?: FilterPresetLink[]; // Places to go from the tasks the preset finds
+}
+
+// A link shown with a preset, e.g. to an upcoming exam's prep plan
+export interface FilterPresetLink {
+  id: string;
+  label: string;
+  description?: string;
+  target: DeepLinkTarget;
 }
 
 // Search result with relevance scoring
@@ -40,13 +51,28 @@ export class FilterService {
   private static readonly STORAGE_KEY = 'schedulebud_saved_filters';
   
   /**
-   * Get predefined academic filter presets
+   * Get predefined academic filter presets. With the tasks and task types,
+   * Upcoming Exams only finds exam tasks and links to each one's prep plan.
    */
-  static getAcademicPresets(): FilterPreset[] {
+  static getAcademicPresets(tasks: Task[] = [], taskTypes: TaskType[] = []): FilterPreset[] {
     const today = new Date();
     const weekStart = startOfWeek(today, { weekStartsOn: 1 }); // Monday start
     const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
     
+    const examTypeIds = taskTypes.filter(type => isExamTask({ type: type.id }, taskTypes)).map(type => type.id);
+    const upcomingExamsCriteria: FilterCriteria = {
+      completionStatus: 'incomplete',
+      ...(examTypeIds.length > 0 ? { taskTypeIds: examTypeIds } : {}),
+      dueDateRange: {
+        start: today,
+        end: addDays(today, 14)
+      }
+    };
+    const upcomingExams = examTypeIds.length > 0
+      ? this.filterTasks(tasks, upcomingExamsCriteria, [], taskTypes)
+        .sort((a, b) => (a.dueDate || '').localeCompare(b.dueDate || ''))
+      : [];
+    
     return [
       {
         id: 'due-this-week',
@@ -90,13 +116,13 @@ export class FilterService {
         name: 'Upcoming Exams',
         description: 'Exams and tests in the next two weeks',
         icon: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
-        criteria: {
-          completionStatus: 'incomplete',
-          dueDateRange: {
-            start: today,
-            end: addDays(today, 14)
-          }
-        }
+        criteria: upcomingExamsCriteria,
+        links: upcomingExams.map(exam => ({
+          id: exam.id,
+          label: exam.title,
+          description: exam.dueDate ? `Prep plan · ${exam.dueDate.slice(0, 10)}` : 'Prep plan',
+          target: { type: 'exam', id: exam.id }
+        }))
       },
       {
         id: 'major-projects',
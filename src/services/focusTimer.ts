@@ -0,0 +1,190 @@
+// Pomodoro focus timer: focus blocks alternating with short breaks and a long
+// break every few cycles. The state is stored on the device so a running
+// timer survives page reloads; times are absolute so time spent with the page
+// closed still counts.
+import type { StudyProfile } from '../types/studySchedule';
+import { getLocalData, saveLocalData } from '../utils/storageHelpers';
+
+export const FOCUS_TIMER_KEY = 'focus_timer';
+const FOCUS_TIMER_SETTINGS_KEY = 'focus_timer_settings';
+
+export type FocusPhase = 'focus' | 'short_break' | 'long_break' | 'idle';
+
+export interface FocusTimerSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+export interface FocusTimerState {
+  sessionId: string;
+  taskId?: string;
+  settings: FocusTimerSettings;
+  phase: FocusPhase;
+  cycle: number; // Focus blocks started in this session
+  phaseStartedAt: string | null;
+  phaseEndsAt: string | null;
+  pausedRemainingMs: number | null; // Set while paused
+  segmentId: string | null; // Segment row of the running focus block
+}
+
+// A focus block that ended, to be recorded on its segment
+export interface FinishedFocusBlock {
+  segmentId: string;
+  endedAt: string;
+  minutes: number; // Time focused, without pauses
+  completed: boolean;
+}
+
+export interface FocusTimerUpdate {
+  state: FocusTimerState;
+  finished: FinishedFocusBlock[];
+}
+
+export const DEFAULT_FOCUS_TIMER_SETTINGS: FocusTimerSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const addMinutes = (iso: string, minutes: number): string =>
+  new Date(Date.parse(iso) + minutes * MINUTE_MS).toISOString();
+
+/**
+ * Timer settings for a study profile: its focus and break lengths, with the
+ * long break three times the short one. Settings last used on this device win.
+ */
+export const getFocusTimerSettings = (
+  profile?: Pick<StudyProfile, 'focus_duration_minutes' | 'break_duration_minutes'> | null
+): FocusTimerSettings => {
+  const fromProfile: FocusTimerSettings = profile
+    ? {
+      ...DEFAULT_FOCUS_TIMER_SETTINGS,
+      focusMinutes: profile.focus_duration_minutes,
+      shortBreakMinutes: profile.break_duration_minutes,
+      longBreakMinutes: profile.break_duration_minutes * 3,
+    }
+    : DEFAULT_FOCUS_TIMER_SETTINGS;
+  return { ...fromProfile, ...getLocalData<Partial<FocusTimerSettings>>(FOCUS_TIMER_SETTINGS_KEY, {}) };
+};
+
+export const saveFocusTimerSettings = (settings: FocusTimerSettings): void => {
+  saveLocalData(FOCUS_TIMER_SETTINGS_KEY, settings);
+};
+
+export const loadFocusTimer = (): FocusTimerState | null =>
+  getLocalData<FocusTimerState | null>(FOCUS_TIMER_KEY, null);
+
+export const saveFocusTimer = (state: FocusTimerState | null): void => {
+  if (state) {
+    saveLocalData(FOCUS_TIMER_KEY, state);
+  } else {
+    localStorage.removeItem(FOCUS_TIMER_KEY);
+  }
+};
+
+export const createFocusTimer = (sessionId: string, settings: FocusTimerSettings, taskId?: string): FocusTimerState => ({
+  sessionId,
+  taskId,
+  settings,
+  phase: 'idle',
+  cycle: 0,
+  phaseStartedAt: null,
+  phaseEndsAt: null,
+  pausedRemainingMs: null,
+  segmentId: null,
+});
+
+const idle = (state: FocusTimerState): FocusTimerState => ({
+  ...state,
+  phase: 'idle',
+  phaseStartedAt: null,
+  phaseEndsAt: null,
+  pausedRemainingMs: null,
+  segmentId: null,
+});
+
+/**
+ * Starts the next focus block, recorded on the given segment
+ */
+export const startFocusBlock = (state: FocusTimerState, segmentId: string, now: Date): FocusTimerState => ({
+  ...state,
+  phase: 'focus',
+  cycle: state.cycle + 1,
+  phaseStartedAt: now.toISOString(),
+  phaseEndsAt: addMinutes(now.toISOString(), state.settings.focusMinutes),
+  pausedRemainingMs: null,
+  segmentId,
+});
+
+export const isLongBreakDue = (state: FocusTimerState): boolean =>
+  state.cycle > 0 && state.cycle % state.settings.cyclesBeforeLongBreak === 0;
+
+export const getRemainingMs = (state: FocusTimerState, now: Date): number => {
+  if (state.pausedRemainingMs !== null) return state.pausedRemainingMs;
+  if (!state.phaseEndsAt) return 0;
+  return Math.max(0, Date.parse(state.phaseEndsAt) - now.getTime());
+};
+
+export const pauseFocusTimer = (state: FocusTimerState, now: Date): FocusTimerState =>
+  state.phase === 'idle' || state.pausedRemainingMs !== null
+    ? state
+    : { ...state, pausedRemainingMs: getRemainingMs(state, now) };
+
+export const resumeFocusTimer = (state: FocusTimerState, now: Date): FocusTimerState =>
+  state.pausedRemainingMs === null
+    ? state
+    : {
+      ...state,
+      phaseEndsAt: new Date(now.getTime() + state.pausedRemainingMs).toISOString(),
+      pausedRemainingMs: null,
+    };
+
+/**
+ * Moves the timer past every phase that has ended by now. A finished focus
+ * block starts its break; a finished break leaves the timer idle until the
+ * next block is started. Paused timers don't move.
+ */
+export const advanceFocusTimer = (state: FocusTimerState, now: Date): FocusTimerUpdate => {
+  const finished: FinishedFocusBlock[] = [];
+  let current = state;
+
+  while (current.phase !== 'idle' && current.pausedRemainingMs === null && current.phaseEndsAt
+    && Date.parse(current.phaseEndsAt) <= now.getTime()) {
+    const endedAt = current.phaseEndsAt;
+    if (current.phase === 'focus') {
+      if (current.segmentId) {
+        finished.push({ segmentId: current.segmentId, endedAt, minutes: current.settings.focusMinutes, completed: true });
+      }
+      const phase = isLongBreakDue(current) ? 'long_break' : 'short_break';
+      const breakMinutes = phase === 'long_break' ? current.settings.longBreakMinutes : current.settings.shortBreakMinutes;
+      current = {
+        ...current,
+        phase,
+        phaseStartedAt: endedAt,
+        phaseEndsAt: addMinutes(endedAt, breakMinutes),
+        segmentId: null,
+      };
+    } else {
+      current = idle(current);
+    }
+  }
+
+  return { state: current, finished };
+};
+
+/**
+ * Stops the running phase: a focus block cut short is finished as incomplete,
+ * a break is skipped
+ */
+export const stopFocusPhase = (state: FocusTimerState, now: Date): FocusTimerUpdate => {
+  const focusedMs = state.settings.focusMinutes * MINUTE_MS - getRemainingMs(state, now);
+  const finished: FinishedFocusBlock[] = state.phase === 'focus' && state.segmentId
+    ? [{ segmentId: state.segmentId, endedAt: now.toISOString(), minutes: Math.round(focusedMs / MINUTE_MS), completed: false }]
+    : [];
+  return { state: idle(state), finished };
+};
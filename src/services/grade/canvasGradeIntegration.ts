@@ -290,7 +290,7 @@ export const createGradeAssignmentsFromCanvasTasks = async (
 /**
  * Get appropriate color for category
  */
-const getCategoryColor = (categoryName: string): string => {
+export const getCategoryColor = (categoryName: string): string => {
   const colorMap: Record<string, string> = {
     'homework': '#3b82f6', // blue
     'assignments': '#3b82f6', // blue
@@ -9,11 +9,13 @@ import type {
   WhatIfScenario,
   GradeChange,
   ClassWithGrades,
-  AppSettings
+  AppSettings,
+  GradingMethod
 } from '../../types/database';
 import { supabase } from '../supabaseClient';
 import { logger } from '../../utils/logger';
 import { getClassWithGrades } from './gradeOperations';
+import { computeClassGrade, calculateNeededScore } from './gradeEngine';
 import { getClasses } from '../class/classOperations';
 import { getCurrentAcademicTermInfo } from '../../utils/dateHelpers';
 import type { AcademicSystem } from '../../utils/academicTermHelpers';
@@ -132,13 +134,35 @@ export const getClassGpaInfo = async (userId: string, useSupabase = false): Prom
   }
 };
 
+// Letter-grade scales from syllabi of classes not set up for GPA yet, by class id.
+// Saving the class's GPA info picks its scale up, so a syllabus never adds a class to the GPA.
+const pendingCutoffsKey = (userId: string) => `pending_grade_cutoffs_${userId}`;
+
+const getPendingGradeCutoffs = (userId: string): Record<string, NonNullable<ClassGpaInfo['grade_cutoffs']>> =>
+  JSON.parse(localStorage.getItem(pendingCutoffsKey(userId)) || '{}');
+
+export const savePendingGradeCutoffs = (
+  userId: string,
+  classId: string,
+  cutoffs: NonNullable<ClassGpaInfo['grade_cutoffs']>
+): void => {
+  localStorage.setItem(pendingCutoffsKey(userId), JSON.stringify({ ...getPendingGradeCutoffs(userId), [classId]: cutoffs }));
+};
+
+const clearPendingGradeCutoffs = (userId: string, classId: string): void => {
+  const { [classId]: _cleared, ...pending } = getPendingGradeCutoffs(userId);
+  localStorage.setItem(pendingCutoffsKey(userId), JSON.stringify(pending));
+};
+
 export const updateClassGpaInfo = async (
   classGpaInfo: ClassGpaInfoInsert,
   useSupabase = false
 ): Promise<ClassGpaInfo | null> => {
   try {
+    const pendingCutoffs = getPendingGradeCutoffs(classGpaInfo.user_id)[classGpaInfo.class_id];
     const gpaInfoData = {
       ...classGpaInfo,
+      ...(pendingCutoffs && !classGpaInfo.grade_cutoffs ? { grade_cutoffs: pendingCutoffs } : {}),
       id: classGpaInfo.id || crypto.randomUUID(),
       created_at: classGpaInfo.created_at || new Date().toISOString()
     };
@@ -151,6 +175,7 @@ export const updateClassGpaInfo = async (
         .single();
       
       if (error) throw error;
+      if (pendingCutoffs) clearPendingGradeCutoffs(classGpaInfo.user_id, classGpaInfo.class_id);
       return data;
     } else {
       const allGpaInfo = await getClassGpaInfo(classGpaInfo.user_id, false);
@@ -165,6 +190,7 @@ export const updateClassGpaInfo = async (
       }
       
       localStorage.setItem(`class_gpa_info_${classGpaInfo.user_id}`, JSON.stringify(allGpaInfo));
+      if (pendingCutoffs) clearPendingGradeCutoffs(classGpaInfo.user_id, classGpaInfo.class_id);
       return gpaInfoData as ClassGpaInfo;
     }
   } catch (error) {
@@ -174,7 +200,19 @@ export const updateClassGpaInfo = async (
 };
 
 // Core GPA Calculation Functions
-export const calculateLetterGrade = (percentage: number, gpaSettings: GpaSettings): string => {
+export const calculateLetterGrade = (
+  percentage: number,
+  gpaSettings: GpaSettings,
+  cutoffs?: ClassGpaInfo['grade_cutoffs']
+): string => {
+  // A class's own scale (from its syllabus) wins over the user's settings
+  if (cutoffs && Object.keys(cutoffs).length > 0) {
+    const match = Object.entries(cutoffs)
+      .sort(([, a], [, b]) => b - a)
+      .find(([, min]) => percentage >= min);
+    return match ? match[0] : 'F';
+  }
+
   if (percentage >= (gpaSettings.a_plus_min || 97)) return 'A+';
   if (percentage >= gpaSettings.a_min) return 'A';
   if (percentage >= gpaSettings.a_min - 3) return 'A-';
@@ -194,47 +232,12 @@ export const getQualityPoints = (letterGrade: string, gpaSettings: GpaSettings):
   return gpaSettings.quality_points[letterGrade] || 0;
 };
 
-export const calculateClassCurrentGrade = (classWithGrades: ClassWithGrades): number => {
+export const calculateClassCurrentGrade = (
+  classWithGrades: ClassWithGrades,
+  method: GradingMethod = classWithGrades.gpaInfo?.grading_method || 'weighted'
+): number => {
   const { assignments, categories } = classWithGrades;
-  
-  if (categories.length === 0) return 0;
-
-  let totalWeightedScore = 0;
-  let totalWeight = 0;
-
-  // Calculate grade for each category
-  for (const category of categories) {
-    const categoryAssignments = assignments.filter(a => a.category_id === category.id);
-    const gradedAssignments = categoryAssignments.filter(a => 
-      a.grade && 
-      a.grade.points_earned !== null && 
-      !a.grade.is_dropped
-    );
-    
-    if (gradedAssignments.length === 0) continue;
-
-    // Apply drop lowest if configured
-    let sortedAssignments = gradedAssignments;
-    if (category.drop_lowest && category.drop_lowest > 0) {
-      sortedAssignments = gradedAssignments
-        .map(a => ({
-          ...a,
-          percentage: (a.grade!.points_earned! / a.points_possible) * 100
-        }))
-        .sort((a, b) => b.percentage - a.percentage) // Sort by percentage descending
-        .slice(0, gradedAssignments.length - category.drop_lowest); // Drop the lowest
-    }
-
-    // Calculate category average
-    const totalPoints = sortedAssignments.reduce((sum, a) => sum + a.points_possible, 0);
-    const earnedPoints = sortedAssignments.reduce((sum, a) => sum + (a.grade?.points_earned || 0), 0);
-    const categoryPercentage = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
-
-    totalWeightedScore += categoryPercentage * (category.weight / 100);
-    totalWeight += category.weight;
-  }
-
-  return totalWeight > 0 ? (totalWeightedScore / totalWeight) * 100 : 0;
+  return computeClassGrade(assignments, categories, { method }).percentage;
 };
 
 export const calculateFullGPA = async (
@@ -266,13 +269,15 @@ export const calculateFullGPA = async (
 
       // Get current grade for the class
       const classWithGrades = await getClassWithGrades(classInfo.id, userId, useSupabase);
-      const currentGrade = classWithGrades ? calculateClassCurrentGrade(classWithGrades) : 0;
+      const currentGrade = classWithGrades
+        ? calculateClassCurrentGrade(classWithGrades, gpaInfo.grading_method)
+        : 0;
       
       // Use final grade if completed, otherwise use current grade
       const finalGrade = gpaInfo.is_completed ? (gpaInfo.final_gpa || 0) : currentGrade;
       const letterGrade = gpaInfo.is_completed ? 
-        (gpaInfo.final_grade || calculateLetterGrade(finalGrade, gpaSettings)) :
-        calculateLetterGrade(finalGrade, gpaSettings);
+        (gpaInfo.final_grade || calculateLetterGrade(finalGrade, gpaSettings, gpaInfo.grade_cutoffs)) :
+        calculateLetterGrade(finalGrade, gpaSettings, gpaInfo.grade_cutoffs);
       
       const qualityPoints = getQualityPoints(letterGrade, gpaSettings) * gpaInfo.credit_hours;
       
@@ -334,48 +339,56 @@ export const calculateWhatIfScenario = async (
     // Get GPA settings
     const gpaSettings = await initializeGpaSettings(userId, useSupabase);
     
+    const classGpaInfos = await getClassGpaInfo(userId, useSupabase);
+
     // Calculate new GPA with changes
-    const modifiedClassGrades = [...currentGPA.classGrades];
-    
+    const modifiedClassGrades = currentGPA.classGrades.map(classGrade => ({ ...classGrade }));
+
+    // Changes to the same class are applied together
+    const changesByClass = new Map<string, GradeChange[]>();
     for (const change of changes) {
-      // Find the assignment and its class
       const classGrade = modifiedClassGrades.find(cg => 
         cg.classId === change.className || // If className is actually classId
         cg.className === change.className
       );
-      
       if (!classGrade) continue;
+      changesByClass.set(classGrade.classId, [...(changesByClass.get(classGrade.classId) || []), change]);
+    }
+
+    for (const [classId, classChanges] of changesByClass) {
+      const classGrade = modifiedClassGrades.find(cg => cg.classId === classId)!;
 
       // Get the class with grades to recalculate
-      const classWithGrades = await getClassWithGrades(classGrade.classId, userId, useSupabase);
+      const classWithGrades = await getClassWithGrades(classId, userId, useSupabase);
       if (!classWithGrades) continue;
 
-      // Simulate the grade change
-      const assignment = classWithGrades.assignments.find(a => a.id === change.assignmentId);
-      if (!assignment) continue;
-
-      // Create a copy with the modified grade
+      // Simulate the grade changes
       const modifiedAssignments = classWithGrades.assignments.map(a => {
-        if (a.id === change.assignmentId) {
-          return {
-            ...a,
-            grade: {
-              ...a.grade!,
-              points_earned: change.pointsEarned,
-              percentage: (change.pointsEarned / change.pointsPossible) * 100
-            }
-          };
-        }
-        return a;
+        const change = classChanges.find(c => c.assignmentId === a.id);
+        if (!change) return a;
+        return {
+          ...a,
+          grade: {
+            id: a.grade?.id || `what-if-${a.id}`,
+            user_id: a.user_id,
+            assignment_id: a.id,
+            created_at: a.grade?.created_at || new Date().toISOString(),
+            ...a.grade,
+            points_earned: change.pointsEarned,
+            percentage: (change.pointsEarned / change.pointsPossible) * 100,
+            is_dropped: false
+          }
+        };
       });
 
       // Recalculate class grade
+      const gpaInfo = classGpaInfos.find(info => info.class_id === classId);
       const newClassGrade = calculateClassCurrentGrade({
         ...classWithGrades,
         assignments: modifiedAssignments
-      });
+      }, gpaInfo?.grading_method);
 
-      const newLetterGrade = calculateLetterGrade(newClassGrade, gpaSettings);
+      const newLetterGrade = calculateLetterGrade(newClassGrade, gpaSettings, gpaInfo?.grade_cutoffs);
       const newQualityPoints = getQualityPoints(newLetterGrade, gpaSettings) * classGrade.creditHours;
 
       // Update the class grade
@@ -415,49 +428,26 @@ export const calculateNeededGrade = async (
   targetGrade: number,
   userId: string,
   useSupabase = false
-): Promise<{ neededPercentage: number; neededPoints: number; isPossible: boolean }> => {
+): Promise<{ neededPercentage: number; neededPoints: number; isPossible: boolean; maxAchievableGrade: number }> => {
+  const impossible = { neededPercentage: 0, neededPoints: 0, isPossible: false, maxAchievableGrade: 0 };
   try {
     const classWithGrades = await getClassWithGrades(classId, userId, useSupabase);
     if (!classWithGrades) {
-      return { neededPercentage: 0, neededPoints: 0, isPossible: false };
-    }
-
-    const assignment = classWithGrades.assignments.find(a => a.id === assignmentId);
-    if (!assignment) {
-      return { neededPercentage: 0, neededPoints: 0, isPossible: false };
+      return impossible;
     }
 
-    // Calculate current grade without this assignment
-    const otherAssignments = classWithGrades.assignments.filter(a => a.id !== assignmentId);
-    const currentGradeWithoutAssignment = calculateClassCurrentGrade({
-      ...classWithGrades,
-      assignments: otherAssignments
-    });
-
-    // Find the category weight for this assignment
-    const category = classWithGrades.categories.find(c => c.id === assignment.category_id);
-    if (!category) {
-      return { neededPercentage: 0, neededPoints: 0, isPossible: false };
-    }
-
-    // Calculate what percentage this assignment needs to achieve target
-    const categoryWeight = category.weight / 100;
-    const otherCategoriesWeight = (100 - category.weight) / 100;
-    
-    // Simplified calculation: assumes this is the only assignment in category
-    // More complex logic would be needed for multiple assignments per category
-    const neededAssignmentScore = (targetGrade - (currentGradeWithoutAssignment * otherCategoriesWeight)) / categoryWeight;
-    
-    const neededPoints = (neededAssignmentScore / 100) * assignment.points_possible;
-    const isPossible = neededAssignmentScore <= 100 && neededAssignmentScore >= 0;
-
-    return {
-      neededPercentage: Math.round(neededAssignmentScore * 100) / 100,
-      neededPoints: Math.round(neededPoints * 100) / 100,
-      isPossible
-    };
+    const classGpaInfos = await getClassGpaInfo(userId, useSupabase);
+    const gradingMethod = classGpaInfos.find(info => info.class_id === classId)?.grading_method;
+
+    return calculateNeededScore(
+      classWithGrades.assignments,
+      classWithGrades.categories,
+      assignmentId,
+      targetGrade,
+      { method: gradingMethod }
+    ) || impossible;
   } catch (error) {
     logger.error('[calculateNeededGrade] Error:', error);
-    return { neededPercentage: 0, neededPoints: 0, isPossible: false };
+    return impossible;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,224 @@
+// Class grade calculation: weighted-category and point-based classes,
+// drop-lowest rules, category caps, extra credit and dropped grades
+import type { AssignmentWithGrade, GradeCategory, GradingMethod } from '../../types/database';
+
+export interface GradeEngineOptions {
+  method?: GradingMethod; // Defaults to 'weighted'
+}
+
+export interface CategoryGradeResult {
+  categoryId: string | null; // null for assignments without a known category
+  name: string;
+  weight: number;
+  earned: number; // Points counted, extra credit included, after drops and caps
+  possible: number;
+  percentage: number | null; // null when nothing in the category is graded yet
+  droppedAssignmentIds: string[];
+  capped: boolean;
+}
+
+export interface ClassGradeResult {
+  method: GradingMethod;
+  percentage: number;
+  categories: CategoryGradeResult[];
+}
+
+export interface NeededScoreResult {
+  neededPoints: number;
+  neededPercentage: number;
+  isPossible: boolean;
+  maxAchievableGrade: number; // Class grade with full marks on the assignment
+}
+
+interface ScoredItem {
+  id: string;
+  earned: number;
+  possible: number;
+}
+
+// How far past full marks the needed-score search looks before giving up
+const NEEDED_SCORE_SEARCH_LIMIT = 10;
+const SEARCH_ITERATIONS = 60;
+
+const isCounted = (assignment: AssignmentWithGrade): boolean =>
+  !!assignment.grade &&
+  typeof assignment.grade.points_earned === 'number' &&
+  !assignment.grade.is_dropped;
+
+/**
+ * Picks the items to keep so that (bonus + earned) / possible is as high as
+ * possible. Dropping by lowest percentage isn't optimal when point values
+ * differ, so this searches for the best achievable ratio instead.
+ */
+const selectKeptItems = (items: ScoredItem[], keepCount: number, bonus: number): ScoredItem[] => {
+  if (keepCount >= items.length) return items;
+
+  const bestAt = (ratio: number): { kept: ScoredItem[]; surplus: number } => {
+    const kept = [...items]
+      .sort((a, b) => (b.earned - ratio * b.possible) - (a.earned - ratio * a.possible))
+      .slice(0, keepCount);
+    const surplus = kept.reduce((sum, item) => sum + item.earned - ratio * item.possible, bonus);
+    return { kept, surplus };
+  };
+
+  const totalEarned = items.reduce((sum, item) => sum + item.earned, bonus);
+  const smallestPossible = Math.min(...items.map(item => item.possible).filter(possible => possible > 0));
+  let low = 0;
+  let high = Number.isFinite(smallestPossible) ? Math.max(totalEarned / smallestPossible, 1) : 1;
+
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (bestAt(mid).surplus >= 0) low = mid;
+    else high = mid;
+  }
+  return bestAt(low).kept;
+};
+
+const scoreCategory = (
+  category: Pick<GradeCategory, 'name' | 'weight' | 'drop_lowest' | 'max_percentage'> & { id: string | null },
+  assignments: AssignmentWithGrade[]
+): CategoryGradeResult => {
+  const counted = assignments.filter(isCounted);
+  const toItem = (assignment: AssignmentWithGrade): ScoredItem => ({
+    id: assignment.id,
+    earned: assignment.grade?.points_earned || 0,
+    possible: assignment.points_possible,
+  });
+  const regular = counted.filter(assignment => !assignment.is_extra_credit).map(toItem);
+  const bonus = counted
+    .filter(assignment => assignment.is_extra_credit)
+    .reduce((sum, assignment) => sum + (assignment.grade?.points_earned || 0), 0);
+
+  // Drop rules never drop every graded assignment
+  const dropCount = Math.max(0, Math.min(category.drop_lowest || 0, regular.length - 1));
+  const kept = selectKeptItems(regular, regular.length - dropCount, bonus);
+  const keptIds = new Set(kept.map(item => item.id));
+
+  let earned = kept.reduce((sum, item) => sum + item.earned, bonus);
+  const possible = kept.reduce((sum, item) => sum + item.possible, 0);
+  let percentage = possible > 0 ? (earned / possible) * 100 : null;
+  let capped = false;
+
+  const cap = category.max_percentage;
+  if (percentage !== null && typeof cap === 'number' && percentage > cap) {
+    percentage = cap;
+    earned = (cap / 100) * possible;
+    capped = true;
+  }
+
+  return {
+    categoryId: category.id,
+    name: category.name,
+    weight: category.weight,
+    earned,
+    possible,
+    percentage,
+    droppedAssignmentIds: regular.filter(item => !keptIds.has(item.id)).map(item => item.id),
+    capped,
+  };
+};
+
+/**
+ * Calculates a class grade from its assignments and categories. Ungraded
+ * assignments don't count; weighted classes spread the weight of categories
+ * without graded work over the others.
+ *
+ * @param assignments - Assignments of the class with their grades
+ * @param categories - Grade categories of the class
+ * @param options - Grading method of the class
+ */
+export const computeClassGrade = (
+  assignments: AssignmentWithGrade[],
+  categories: GradeCategory[],
+  options: GradeEngineOptions = {}
+): ClassGradeResult => {
+  const method = options.method || 'weighted';
+  const categoryIds = new Set(categories.map(category => category.id));
+
+  const results = categories.map(category =>
+    scoreCategory(category, assignments.filter(assignment => assignment.category_id === category.id))
+  );
+
+  // Point-based classes also count assignments outside the known categories
+  const uncategorized = assignments.filter(assignment => !categoryIds.has(assignment.category_id));
+  if (method === 'points' && uncategorized.length > 0) {
+    results.push(scoreCategory({ id: null, name: 'Uncategorized', weight: 0, drop_lowest: 0, max_percentage: null }, uncategorized));
+  }
+
+  let percentage = 0;
+  if (method === 'points') {
+    const earned = results.reduce((sum, result) => sum + result.earned, 0);
+    const possible = results.reduce((sum, result) => sum + result.possible, 0);
+    percentage = possible > 0 ? (earned / possible) * 100 : 0;
+  } else {
+    const graded = results.filter(result => result.percentage !== null && result.weight > 0);
+    const totalWeight = graded.reduce((sum, result) => sum + result.weight, 0);
+    percentage = totalWeight > 0
+      ? graded.reduce((sum, result) => sum + (result.percentage as number) * result.weight, 0) / totalWeight
+      : 0;
+  }
+
+  return { method, percentage, categories: results };
+};
+
+/**
+ * Finds the score an assignment needs for the class to reach a target grade,
+ * taking the other assignments of its category, drops and caps into account
+ *
+ * @param assignmentId - The assignment to solve for, graded or not
+ * @param targetGrade - Target class percentage
+ */
+export const calculateNeededScore = (
+  assignments: AssignmentWithGrade[],
+  categories: GradeCategory[],
+  assignmentId: string,
+  targetGrade: number,
+  options: GradeEngineOptions = {}
+): NeededScoreResult | null => {
+  const target = assignments.find(assignment => assignment.id === assignmentId);
+  if (!target) return null;
+
+  const gradeWith = (pointsEarned: number): number =>
+    computeClassGrade(
+      assignments.map(assignment => assignment.id !== assignmentId ? assignment : {
+        ...assignment,
+        grade: {
+          id: assignment.grade?.id || `what-if-${assignmentId}`,
+          user_id: assignment.user_id,
+          assignment_id: assignmentId,
+          created_at: assignment.grade?.created_at || new Date().toISOString(),
+          ...assignment.grade,
+          points_earned: pointsEarned,
+          is_dropped: false,
+        },
+      }),
+      categories,
+      options
+    ).percentage;
+
+  const pointsPossible = target.points_possible;
+  const maxAchievableGrade = gradeWith(pointsPossible);
+  const toResult = (points: number, isPossible: boolean): NeededScoreResult => ({
+    neededPoints: Math.round(points * 100) / 100,
+    neededPercentage: pointsPossible > 0 ? Math.round((points / pointsPossible) * 10000) / 100 : 0,
+    isPossible,
+    maxAchievableGrade: Math.round(maxAchievableGrade * 100) / 100,
+  });
+
+  if (gradeWith(0) >= targetGrade) return toResult(0, true);
+
+  // The class grade never falls as the score rises, so bisect
+  const limit = pointsPossible * NEEDED_SCORE_SEARCH_LIMIT;
+  if (pointsPossible <= 0 || gradeWith(limit) < targetGrade) {
+    return toResult(limit, false);
+  }
+
+  let low = 0;
+  let high = maxAchievableGrade >= targetGrade ? pointsPossible : limit;
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (gradeWith(mid) >= targetGrade) high = mid;
+    else low = mid;
+  }
+  return toResult(high, high <= pointsPossible);
+};
@@ -10,12 +10,33 @@ import type {
   GradeCategoryInsert,
   GradeCategoryUpdate,
   AssignmentWithGrade,
-  ClassWithGrades
+  ClassWithGrades,
+  Task,
+  TaskWithMeta
 } from '../../types/database';
 import { supabase } from '../supabaseClient';
 import { logger } from '../../utils/logger';
 import { errorHandler } from '../../utils/errorHandler';
 import { getClasses } from '../class/classOperations';
+import { computeClassGrade } from './gradeEngine';
+import { runOfflineFirst, recordOperation, markSynced, markDeleted, type SyncTable } from '../sync';
+
+// Queues a write that only reached local storage for a signed-in user, or
+// records a write that reached the server as synced
+const trackGradeWrite = (
+  table: SyncTable,
+  useSupabase: boolean,
+  synced: boolean,
+  recordId: string,
+  changes: Record<string, unknown> | null
+): void => {
+  if (synced) {
+    if (changes) markSynced(table, { id: recordId, ...changes });
+    else markDeleted(table, recordId);
+  } else if (useSupabase) {
+    recordOperation(table, recordId, changes ? 'upsert' : 'delete', changes || {});
+  }
+};
 
 // CRUD Operations for Assignments
 export const getAssignments = async (userId?: string, useSupabase = false): Promise<Assignment[]> => {
@@ -89,22 +110,25 @@ export const addAssignment = async (assignment: AssignmentInsert, useSupabase =
       is_extra_credit: assignment.is_extra_credit || false
     };
 
-    if (useSupabase) {
-      const { data, error } = await supabase
-        .from('assignments')
-        .insert(assignmentData)
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
-    } else {
+    const { result, synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { data, error } = await supabase
+          .from('assignments')
+          .insert(assignmentData)
+          .select()
+          .single();
+        
+        if (error) throw error;
+        return data as Assignment;
+      }
       // Local storage
       const assignments = await getAssignments(assignment.user_id, false);
       const newAssignments = [...assignments, assignmentData as Assignment];
       localStorage.setItem('grade_assignments', JSON.stringify(newAssignments));
       return assignmentData as Assignment;
-    }
+    });
+    trackGradeWrite('assignments', useSupabase, synced, result.id, { ...result });
+    return result;
   } catch (error) {
     logger.error('[addAssignment] Error:', error);
     return null;
@@ -122,17 +146,18 @@ export const updateAssignment = async (
       updated_at: new Date().toISOString()
     };
 
-    if (useSupabase) {
-      const { data, error } = await supabase
-        .from('assignments')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
-    } else {
+    const { result, synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { data, error } = await supabase
+          .from('assignments')
+          .update(updateData)
+          .eq('id', id)
+          .select()
+          .single();
+        
+        if (error) throw error;
+        return data as Assignment;
+      }
       // Local storage
       const assignments = await getAssignments();
       const updatedAssignments = assignments.map(assignment =>
@@ -140,7 +165,9 @@ export const updateAssignment = async (
       );
       localStorage.setItem('grade_assignments', JSON.stringify(updatedAssignments));
       return updatedAssignments.find(a => a.id === id) || null;
-    }
+    });
+    trackGradeWrite('assignments', useSupabase, synced, id, synced && result ? { ...result } : updates);
+    return result;
   } catch (error) {
     logger.error('[updateAssignment] Error:', error);
     return null;
@@ -149,12 +176,18 @@ export const updateAssignment = async (
 
 export const deleteAssignment = async (id: string, useSupabase = false): Promise<boolean> => {
   try {
-    if (useSupabase) {
-      // Also delete associated grades
-      await supabase.from('grades').delete().eq('assignment_id', id);
-      const { error } = await supabase.from('assignments').delete().eq('id', id);
-      if (error) throw error;
-    } else {
+    const gradeIds = (await getGrades())
+      .filter(grade => grade.assignment_id === id)
+      .map(grade => grade.id);
+
+    const { synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        // Also delete associated grades
+        await supabase.from('grades').delete().eq('assignment_id', id);
+        const { error } = await supabase.from('assignments').delete().eq('id', id);
+        if (error) throw error;
+        return;
+      }
       // Local storage
       const assignments = await getAssignments();
       const filteredAssignments = assignments.filter(assignment => assignment.id !== id);
@@ -164,7 +197,9 @@ export const deleteAssignment = async (id: string, useSupabase = false): Promise
       const grades = await getGrades();
       const filteredGrades = grades.filter(grade => grade.assignment_id !== id);
       localStorage.setItem('grade_grades', JSON.stringify(filteredGrades));
-    }
+    });
+    gradeIds.forEach(gradeId => trackGradeWrite('grades', useSupabase, synced, gradeId, null));
+    trackGradeWrite('assignments', useSupabase, synced, id, null);
     return true;
   } catch (error) {
     logger.error('[deleteAssignment] Error:', error);
@@ -203,21 +238,24 @@ export const addGrade = async (grade: GradeInsert, useSupabase = false): Promise
       is_dropped: grade.is_dropped || false
     };
 
-    if (useSupabase) {
-      const { data, error } = await supabase
-        .from('grades')
-        .insert(gradeData)
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
-    } else {
+    const { result, synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { data, error } = await supabase
+          .from('grades')
+          .insert(gradeData)
+          .select()
+          .single();
+        
+        if (error) throw error;
+        return data as Grade;
+      }
       const grades = await getGrades();
       const newGrades = [...grades, gradeData as Grade];
       localStorage.setItem('grade_grades', JSON.stringify(newGrades));
       return gradeData as Grade;
-    }
+    });
+    trackGradeWrite('grades', useSupabase, synced, result.id, { ...result });
+    return result;
   } catch (error) {
     logger.error('[addGrade] Error:', error);
     return null;
@@ -235,30 +273,52 @@ export const updateGrade = async (
       updated_at: new Date().toISOString()
     };
 
-    if (useSupabase) {
-      const { data, error } = await supabase
-        .from('grades')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
-    } else {
+    const { result, synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { data, error } = await supabase
+          .from('grades')
+          .update(updateData)
+          .eq('id', id)
+          .select()
+          .single();
+        
+        if (error) throw error;
+        return data as Grade;
+      }
       const grades = await getGrades();
       const updatedGrades = grades.map(grade =>
         grade.id === id ? { ...grade, ...updateData } : grade
       );
       localStorage.setItem('grade_grades', JSON.stringify(updatedGrades));
       return updatedGrades.find(g => g.id === id) || null;
-    }
+    });
+    trackGradeWrite('grades', useSupabase, synced, id, synced && result ? { ...result } : updates);
+    return result;
   } catch (error) {
     logger.error('[updateGrade] Error:', error);
     return null;
   }
 };
 
+export const deleteGrade = async (id: string, useSupabase = false): Promise<boolean> => {
+  try {
+    const { synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { error } = await supabase.from('grades').delete().eq('id', id);
+        if (error) throw error;
+        return;
+      }
+      const grades = await getGrades();
+      localStorage.setItem('grade_grades', JSON.stringify(grades.filter(grade => grade.id !== id)));
+    });
+    trackGradeWrite('grades', useSupabase, synced, id, null);
+    return true;
+  } catch (error) {
+    logger.error('[deleteGrade] Error:', error);
+    return false;
+  }
+};
+
 // CRUD Operations for Grade Categories
 export const getGradeCategories = async (userId?: string, useSupabase = false): Promise<GradeCategory[]> => {
   try {
@@ -307,27 +367,87 @@ export const addGradeCategory = async (
       drop_lowest: category.drop_lowest || 0
     };
 
-    if (useSupabase) {
-      const { data, error } = await supabase
-        .from('grade_categories')
-        .insert(categoryData)
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
-    } else {
+    const { result, synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { data, error } = await supabase
+          .from('grade_categories')
+          .insert(categoryData)
+          .select()
+          .single();
+        
+        if (error) throw error;
+        return data as GradeCategory;
+      }
       const categories = await getGradeCategories();
       const newCategories = [...categories, categoryData as GradeCategory];
       localStorage.setItem('grade_categories', JSON.stringify(newCategories));
       return categoryData as GradeCategory;
-    }
+    });
+    trackGradeWrite('grade_categories', useSupabase, synced, result.id, { ...result });
+    return result;
   } catch (error) {
     logger.error('[addGradeCategory] Error:', error);
     return null;
   }
 };
 
+export const updateGradeCategory = async (
+  id: string,
+  updates: GradeCategoryUpdate,
+  useSupabase = false
+): Promise<GradeCategory | null> => {
+  try {
+    const updateData = {
+      ...updates,
+      updated_at: new Date().toISOString()
+    };
+
+    const { result, synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { data, error } = await supabase
+          .from('grade_categories')
+          .update(updateData)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as GradeCategory;
+      }
+      const categories = await getGradeCategories();
+      const updatedCategories = categories.map(category =>
+        category.id === id ? { ...category, ...updateData } : category
+      );
+      localStorage.setItem('grade_categories', JSON.stringify(updatedCategories));
+      return updatedCategories.find(c => c.id === id) || null;
+    });
+    trackGradeWrite('grade_categories', useSupabase, synced, id, synced && result ? { ...result } : updates);
+    return result;
+  } catch (error) {
+    logger.error('[updateGradeCategory] Error:', error);
+    return null;
+  }
+};
+
+export const deleteGradeCategory = async (id: string, useSupabase = false): Promise<boolean> => {
+  try {
+    const { synced } = await runOfflineFirst(useSupabase, async remote => {
+      if (remote) {
+        const { error } = await supabase.from('grade_categories').delete().eq('id', id);
+        if (error) throw error;
+        return;
+      }
+      const categories = await getGradeCategories();
+      localStorage.setItem('grade_categories', JSON.stringify(categories.filter(category => category.id !== id)));
+    });
+    trackGradeWrite('grade_categories', useSupabase, synced, id, null);
+    return true;
+  } catch (error) {
+    logger.error('[deleteGradeCategory] Error:', error);
+    return false;
+  }
+};
+
 // Smart assignment creation from Canvas tasks
 export const createAssignmentFromTask = async (
   taskId: string,
@@ -335,12 +455,13 @@ export const createAssignmentFromTask = async (
   userId: string,
   categoryId: string,
   pointsPossible: number,
-  useSupabase = false
+  useSupabase = false,
+  knownTask?: Task
 ): Promise<Assignment | null> => {
   try {
-    // Get the task to extract information
-    const tasks = JSON.parse(localStorage.getItem('calendar_tasks') || '[]');
-    const task = tasks.find((t: any) => t.id === taskId);
+    // Get the task to extract information, unless the caller just created it
+    const tasks: TaskWithMeta[] = knownTask ? [] : JSON.parse(localStorage.getItem('calendar_tasks') || '[]');
+    const task: TaskWithMeta | undefined = knownTask || tasks.find(t => t.id === taskId);
     
     if (!task) {
       logger.error('[createAssignmentFromTask] Task not found');
@@ -401,32 +522,13 @@ export const getClassWithGrades = async (
   }
 };
 
-// Helper function to calculate class grade (basic implementation)
+// Helper function to calculate class grade
 const calculateClassGrade = (
   assignments: AssignmentWithGrade[], 
   categories: GradeCategory[]
 ): { percentage: number; letterGrade: string } => {
   try {
-    let totalWeightedScore = 0;
-    let totalWeight = 0;
-
-    // Calculate grade for each category
-    for (const category of categories) {
-      const categoryAssignments = assignments.filter(a => a.category_id === category.id);
-      const gradedAssignments = categoryAssignments.filter(a => a.grade && a.grade.points_earned !== null);
-      
-      if (gradedAssignments.length === 0) continue;
-
-      // Calculate category average
-      const totalPoints = gradedAssignments.reduce((sum, a) => sum + a.points_possible, 0);
-      const earnedPoints = gradedAssignments.reduce((sum, a) => sum + (a.grade?.points_earned || 0), 0);
-      const categoryPercentage = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
-
-      totalWeightedScore += categoryPercentage * (category.weight / 100);
-      totalWeight += category.weight;
-    }
-
-    const finalPercentage = totalWeight > 0 ? (totalWeightedScore / totalWeight) * 100 : 0;
+    const finalPercentage = computeClassGrade(assignments, categories).percentage;
     
     // Convert to letter grade (basic 90/80/70/60 scale)
     let letterGrade = 'F';
@@ -0,0 +1,144 @@
+import type {
+  Task,
+  GradeCategory,
+  GradeCategoryInsert
+} from '../../types/database';
+import {
+  getGradeCategoriesByClass,
+  addGradeCategory,
+  createAssignmentFromTask
+} from './gradeOperations';
+import { getClassGpaInfo, updateClassGpaInfo, savePendingGradeCutoffs } from './gpaService';
+import { getCategoryColor } from './canvasGradeIntegration';
+import { matchCategoryForTask, type GeneratedTask, type GradingPolicy } from '../syllabus';
+import { logger } from '../../utils/logger';
+
+/**
+ * Grade setup from a syllabus's grading policy: its categories, its letter-grade
+ * scale, and assignments for the tasks created from it
+ */
+
+const DEFAULT_POINTS_POSSIBLE = 100;
+
+interface GradingPolicySetupSummary {
+  createdCategories: number;
+  existingCategories: number; // Already in the class under the same name
+  cutoffsSaved: boolean;
+  cutoffsPending: boolean; // Kept until the class is set up for GPA in grade entry
+  errors: string[];
+}
+
+/**
+ * Create the grade categories of a grading policy for a class, skipping those
+ * it already has, and save the policy's letter-grade cutoffs as the class's
+ * own scale. A class without GPA info gets the scale once it is set up for GPA.
+ */
+export const applySyllabusGradingPolicy = async (
+  policy: GradingPolicy,
+  classId: string,
+  userId: string,
+  options: {
+    includeCutoffs?: boolean;
+    useSupabase?: boolean;
+  } = {}
+): Promise<{ categories: GradeCategory[]; summary: GradingPolicySetupSummary }> => {
+  const {
+    includeCutoffs = true,
+    useSupabase = false
+  } = options;
+
+  const summary: GradingPolicySetupSummary = {
+    createdCategories: 0,
+    existingCategories: 0,
+    cutoffsSaved: false,
+    cutoffsPending: false,
+    errors: []
+  };
+
+  const categories = await getGradeCategoriesByClass(classId, userId, useSupabase);
+
+  for (const policyCategory of policy.categories) {
+    const existing = categories.find(category =>
+      category.name.trim().toLowerCase() === policyCategory.name.trim().toLowerCase()
+    );
+    if (existing) {
+      summary.existingCategories++;
+      continue;
+    }
+
+    const categoryData: GradeCategoryInsert = {
+      user_id: userId,
+      class_id: classId,
+      name: policyCategory.name,
+      weight: policyCategory.weight,
+      drop_lowest: policyCategory.dropLowest,
+      color: getCategoryColor(policyCategory.name)
+    };
+
+    const newCategory = await addGradeCategory(categoryData, useSupabase);
+    if (newCategory) {
+      categories.push(newCategory);
+      summary.createdCategories++;
+    } else {
+      summary.errors.push(`Failed to create category: ${policyCategory.name}`);
+    }
+  }
+
+  if (includeCutoffs && policy.cutoffs) {
+    const classGpaInfos = await getClassGpaInfo(userId, useSupabase);
+    const gpaInfo = classGpaInfos.find(info => info.class_id === classId);
+
+    if (!gpaInfo) {
+      savePendingGradeCutoffs(userId, classId, policy.cutoffs);
+      summary.cutoffsPending = true;
+    } else if (await updateClassGpaInfo(
+      { ...gpaInfo, grade_cutoffs: policy.cutoffs, updated_at: new Date().toISOString() },
+      useSupabase
+    )) {
+      summary.cutoffsSaved = true;
+    } else {
+      summary.errors.push('Failed to save the letter-grade scale');
+    }
+  }
+
+  logger.debug('[applySyllabusGradingPolicy] Summary:', { classId, ...summary });
+  return { categories, summary };
+};
+
+/**
+ * Create a grade assignment for each task created from the syllabus, in the
+ * category its title or type matches. Tasks that match none are left for the
+ * user to add in grade entry.
+ */
+export const linkSyllabusTasksToCategories = async (
+  createdTasks: Task[],
+  generatedTasks: GeneratedTask[],
+  categories: GradeCategory[],
+  classId: string,
+  userId: string,
+  useSupabase = false
+): Promise<number> => {
+  let linked = 0;
+
+  for (const task of createdTasks) {
+    if (task.class !== classId) continue;
+
+    const generated = generatedTasks.find(candidate => candidate.title === task.title);
+    const category = matchCategoryForTask({ title: task.title, taskType: generated?.taskType || '' }, categories);
+    if (!category) continue;
+
+    const assignment = await createAssignmentFromTask(
+      task.id,
+      classId,
+      userId,
+      category.id,
+      DEFAULT_POINTS_POSSIBLE,
+      useSupabase,
+      task
+    );
+    if (assignment) linked++;
+  }
+
+  logger.debug(`[linkSyllabusTasksToCategories] Linked ${linked} of ${createdTasks.length} tasks to grade categories`);
+  return linked;
+};
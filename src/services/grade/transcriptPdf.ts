@@ -0,0 +1,112 @@
+import { jsPDF } from 'jspdf';
+import type { Transcript, TranscriptCourse } from './transcriptService';
+
+export interface TranscriptPdfOptions {
+  studentName?: string;
+  schoolName?: string;
+  generatedAt?: Date;
+}
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 6;
+
+// Column x positions in mm
+const COLUMNS = { course: PAGE_MARGIN, hours: 120, grade: 140, points: 160, note: 180 };
+
+const formatGPA = (gpa: number | null): string => (gpa === null ? '—' : gpa.toFixed(2));
+
+const describeCourse = (course: TranscriptCourse): string => {
+  if (course.excludedAsRepeat) return 'Repeated';
+  switch (course.status) {
+    case 'in_progress': return 'In progress';
+    case 'withdrawn': return 'Withdrawn';
+    case 'pass': return 'Pass';
+    case 'fail': return 'No pass';
+    default: return course.gpaHours === 0 ? 'No GPA' : '';
+  }
+};
+
+/**
+ * Renders a transcript as a PDF document
+ *
+ * @returns PDF file contents
+ */
+export const createTranscriptPDF = (transcript: Transcript, options: TranscriptPdfOptions = {}): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'letter' });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (lines: number): void => {
+    if (y + lines * LINE_HEIGHT > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('Unofficial Academic Transcript', PAGE_MARGIN, y);
+  y += LINE_HEIGHT + 2;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  [
+    options.studentName ? `Student: ${options.studentName}` : null,
+    options.schoolName ? `School: ${options.schoolName}` : null,
+    `Generated: ${(options.generatedAt || new Date()).toLocaleDateString()}`,
+    `Repeated courses: ${transcript.repeatPolicy === 'replace' ? 'latest grade replaces earlier attempts' : 'all attempts averaged'}`,
+  ].filter((line): line is string => !!line).forEach(line => {
+    doc.text(line, PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+  });
+  y += 2;
+
+  transcript.terms.forEach(term => {
+    ensureSpace(term.courses.length + 4);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(term.label, PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+
+    doc.setFontSize(9);
+    doc.text('Course', COLUMNS.course, y);
+    doc.text('Hours', COLUMNS.hours, y);
+    doc.text('Grade', COLUMNS.grade, y);
+    doc.text('Points', COLUMNS.points, y);
+    y += LINE_HEIGHT;
+
+    doc.setFont('helvetica', 'normal');
+    term.courses.forEach(course => {
+      ensureSpace(1);
+      const name = course.courseCode ? `${course.courseCode} ${course.name}` : course.name;
+      doc.text(doc.splitTextToSize(name, COLUMNS.hours - COLUMNS.course - 4)[0], COLUMNS.course, y);
+      doc.text(course.creditHours.toFixed(1), COLUMNS.hours, y);
+      doc.text(course.letterGrade || '—', COLUMNS.grade, y);
+      doc.text(course.qualityPoints.toFixed(2), COLUMNS.points, y);
+      doc.text(describeCourse(course), COLUMNS.note, y);
+      y += LINE_HEIGHT;
+    });
+
+    doc.setFont('helvetica', 'bold');
+    doc.text(
+      `Term GPA ${formatGPA(term.termGPA)}   Earned ${term.earnedCredits}   ` +
+      `Cumulative GPA ${formatGPA(term.cumulativeGPA)}   Total earned ${term.cumulativeEarnedCredits}`,
+      PAGE_MARGIN,
+      y
+    );
+    y += LINE_HEIGHT + 3;
+  });
+
+  ensureSpace(4);
+  doc.setFontSize(11);
+  doc.text(`Cumulative GPA: ${formatGPA(transcript.cumulativeGPA)}`, PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Major GPA: ${formatGPA(transcript.majorGPA)}`, PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  doc.text(`Credits earned: ${transcript.totalEarnedCredits} (${transcript.transferCredits} transferred)`, PAGE_MARGIN, y);
+
+  return doc.output('blob');
+};
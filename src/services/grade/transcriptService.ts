@@ -0,0 +1,391 @@
+import type {
+  GpaSettings,
+  TransferCredit,
+  TransferCreditInsert
+} from '../../types/database';
+import { supabase } from '../supabaseClient';
+import { logger } from '../../utils/logger';
+import { getClassWithGrades } from './gradeOperations';
+import {
+  initializeGpaSettings,
+  getClassGpaInfo,
+  calculateClassCurrentGrade,
+  calculateLetterGrade
+} from './gpaService';
+import { getClasses } from '../class/classOperations';
+import {
+  getTermDateRange,
+  parseTermFromString,
+  formatTermDisplayName,
+  type AcademicSystem,
+  type AcademicTerm
+} from '../../utils/academicTermHelpers';
+
+// How retaken courses count toward GPA
+export type RepeatPolicy = 'replace' | 'average';
+
+export type TranscriptCourseStatus = 'graded' | 'in_progress' | 'pass' | 'fail' | 'withdrawn';
+
+export interface TranscriptCourseInput {
+  id: string;
+  name: string;
+  courseCode?: string;
+  semester: string;
+  year: number;
+  creditHours: number;
+  letterGrade?: string; // Letter grade, or P/NP/W style marks
+  percentage?: number; // Current percentage of classes in progress
+  isCompleted: boolean;
+  isMajor: boolean;
+  isTransfer: boolean;
+  institution?: string;
+  countsInGpa: boolean; // Transfer credit often counts toward hours only
+}
+
+export interface TranscriptCourse extends TranscriptCourseInput {
+  status: TranscriptCourseStatus;
+  gpaHours: number; // Hours the grade is averaged over
+  qualityPoints: number;
+  earnedCredits: number;
+  excludedAsRepeat: boolean; // Replaced by a later attempt of the same course
+}
+
+export interface TranscriptTerm {
+  key: string;
+  label: string;
+  semester: string;
+  year: number;
+  isTransfer: boolean;
+  courses: TranscriptCourse[];
+  gpaHours: number;
+  qualityPoints: number;
+  termGPA: number | null;
+  earnedCredits: number;
+  cumulativeGPA: number | null;
+  cumulativeEarnedCredits: number;
+}
+
+export interface Transcript {
+  terms: TranscriptTerm[];
+  cumulativeGPA: number | null;
+  majorGPA: number | null;
+  totalGpaHours: number;
+  totalEarnedCredits: number;
+  transferCredits: number;
+  repeatPolicy: RepeatPolicy;
+}
+
+export interface TranscriptOptions {
+  repeatPolicy?: RepeatPolicy; // Defaults to 'replace'
+  includeInProgress?: boolean; // Count projected grades of current classes; defaults to true
+  academicSystem?: AcademicSystem;
+}
+
+const WITHDRAWN_MARKS = new Set(['W', 'WD']);
+const PASS_MARKS = new Set(['P', 'S', 'CR', 'PASS']);
+const FAIL_MARKS = new Set(['NP', 'U', 'NC', 'FAIL']);
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const getStatus = (course: TranscriptCourseInput): TranscriptCourseStatus => {
+  const mark = (course.letterGrade || '').trim().toUpperCase();
+  if (WITHDRAWN_MARKS.has(mark)) return 'withdrawn';
+  if (PASS_MARKS.has(mark)) return 'pass';
+  if (FAIL_MARKS.has(mark)) return 'fail';
+  return course.isCompleted ? 'graded' : 'in_progress';
+};
+
+// Start of the term, for ordering terms of either academic system
+const getTermStart = (semester: string, year: number, academicSystem?: AcademicSystem): number => {
+  const term = parseTermFromString(semester, academicSystem);
+  if (!term) return new Date(year, 0, 1).getTime();
+  return getTermDateRange(term, year).startDate.getTime();
+};
+
+const getRepeatKey = (course: TranscriptCourseInput): string =>
+  (course.courseCode || course.name).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const scoreCourse = (
+  course: TranscriptCourseInput,
+  gpaSettings: GpaSettings,
+  includeInProgress: boolean
+): TranscriptCourse => {
+  const status = getStatus(course);
+  const letter = (course.letterGrade || '').trim();
+  const hasQualityPoints = letter in gpaSettings.quality_points;
+  const countsInGpa = course.countsInGpa && hasQualityPoints &&
+    (status === 'graded' || (status === 'in_progress' && includeInProgress));
+  const pointsPerHour = hasQualityPoints ? gpaSettings.quality_points[letter] : 0;
+
+  let earnedCredits = 0;
+  if (status === 'pass' || (status === 'graded' && pointsPerHour > 0)) {
+    earnedCredits = course.creditHours;
+  }
+
+  return {
+    ...course,
+    status,
+    gpaHours: countsInGpa ? course.creditHours : 0,
+    qualityPoints: countsInGpa ? pointsPerHour * course.creditHours : 0,
+    earnedCredits,
+    excludedAsRepeat: false,
+  };
+};
+
+/**
+ * Applies the repeat policy to courses taken more than once. Replacement
+ * keeps only the latest attempt; averaging keeps every grade but grants the
+ * credits once.
+ *
+ * @param courses - Scored courses in chronological order
+ */
+const applyRepeatPolicy = (courses: TranscriptCourse[], policy: RepeatPolicy): TranscriptCourse[] => {
+  const attempts = new Map<string, TranscriptCourse[]>();
+  courses
+    .filter(course => course.status !== 'withdrawn')
+    .forEach(course => {
+      const key = getRepeatKey(course);
+      attempts.set(key, [...(attempts.get(key) || []), course]);
+    });
+
+  attempts.forEach(courseAttempts => {
+    if (courseAttempts.length < 2) return;
+    const latest = courseAttempts[courseAttempts.length - 1];
+    const creditedAttempt = [...courseAttempts].reverse().find(course => course.earnedCredits > 0);
+
+    courseAttempts.forEach(course => {
+      if (policy === 'replace' && course !== latest) {
+        course.excludedAsRepeat = true;
+        course.gpaHours = 0;
+        course.qualityPoints = 0;
+        course.earnedCredits = 0;
+      } else if (policy === 'average' && course !== creditedAttempt) {
+        course.earnedCredits = 0;
+      }
+    });
+  });
+  return courses;
+};
+
+const getGPA = (qualityPoints: number, gpaHours: number): number | null =>
+  gpaHours > 0 ? round2(qualityPoints / gpaHours) : null;
+
+/**
+ * Builds a term-by-term transcript with running cumulative GPA
+ *
+ * @param courses - Courses taken at this school and transferred in
+ * @param gpaSettings - Quality points per letter grade
+ * @param options - Repeat policy and whether current classes count
+ */
+export const buildTranscript = (
+  courses: TranscriptCourseInput[],
+  gpaSettings: GpaSettings,
+  options: TranscriptOptions = {}
+): Transcript => {
+  const repeatPolicy = options.repeatPolicy || 'replace';
+  const includeInProgress = options.includeInProgress !== false;
+
+  const ordered = [...courses].sort((a, b) =>
+    getTermStart(a.semester, a.year, options.academicSystem) - getTermStart(b.semester, b.year, options.academicSystem)
+  );
+  const scored = applyRepeatPolicy(
+    ordered.map(course => scoreCourse(course, gpaSettings, includeInProgress)),
+    repeatPolicy
+  );
+
+  const terms: TranscriptTerm[] = [];
+  scored.forEach(course => {
+    const key = course.isTransfer
+      ? `${course.year}-${course.semester}-transfer-${course.institution || ''}`
+      : `${course.year}-${course.semester}`;
+    let term = terms.find(entry => entry.key === key);
+    if (!term) {
+      const termName = formatTermDisplayName(course.semester as AcademicTerm, course.year);
+      term = {
+        key,
+        label: course.isTransfer ? `${termName} · Transfer${course.institution ? ` (${course.institution})` : ''}` : termName,
+        semester: course.semester,
+        year: course.year,
+        isTransfer: course.isTransfer,
+        courses: [],
+        gpaHours: 0,
+        qualityPoints: 0,
+        termGPA: null,
+        earnedCredits: 0,
+        cumulativeGPA: null,
+        cumulativeEarnedCredits: 0,
+      };
+      terms.push(term);
+    }
+    term.courses.push(course);
+  });
+
+  let totalQualityPoints = 0;
+  let totalGpaHours = 0;
+  let totalEarnedCredits = 0;
+  terms.forEach(term => {
+    term.gpaHours = term.courses.reduce((sum, course) => sum + course.gpaHours, 0);
+    term.qualityPoints = term.courses.reduce((sum, course) => sum + course.qualityPoints, 0);
+    term.earnedCredits = term.courses.reduce((sum, course) => sum + course.earnedCredits, 0);
+    term.termGPA = getGPA(term.qualityPoints, term.gpaHours);
+
+    totalQualityPoints += term.qualityPoints;
+    totalGpaHours += term.gpaHours;
+    totalEarnedCredits += term.earnedCredits;
+    term.cumulativeGPA = getGPA(totalQualityPoints, totalGpaHours);
+    term.cumulativeEarnedCredits = totalEarnedCredits;
+    term.qualityPoints = round2(term.qualityPoints);
+  });
+
+  const majorCourses = scored.filter(course => course.isMajor);
+  return {
+    terms,
+    cumulativeGPA: getGPA(totalQualityPoints, totalGpaHours),
+    majorGPA: getGPA(
+      majorCourses.reduce((sum, course) => sum + course.qualityPoints, 0),
+      majorCourses.reduce((sum, course) => sum + course.gpaHours, 0)
+    ),
+    totalGpaHours,
+    totalEarnedCredits,
+    transferCredits: scored
+      .filter(course => course.isTransfer)
+      .reduce((sum, course) => sum + course.earnedCredits, 0),
+    repeatPolicy,
+  };
+};
+
+// Transfer Credit Operations
+export const getTransferCredits = async (userId: string, useSupabase = false): Promise<TransferCredit[]> => {
+  try {
+    if (useSupabase) {
+      const { data, error } = await supabase
+        .from('transfer_credits')
+        .select('*')
+        .eq('user_id', userId)
+        .order('year', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } else {
+      const stored = localStorage.getItem(`transfer_credits_${userId}`);
+      return stored ? JSON.parse(stored) : [];
+    }
+  } catch (error) {
+    logger.error('[getTransferCredits] Error:', error);
+    return [];
+  }
+};
+
+export const addTransferCredit = async (
+  credit: TransferCreditInsert,
+  useSupabase = false
+): Promise<TransferCredit | null> => {
+  try {
+    const creditData = {
+      ...credit,
+      id: credit.id || crypto.randomUUID(),
+      counts_in_gpa: credit.counts_in_gpa ?? false,
+      is_major: credit.is_major ?? false,
+      created_at: credit.created_at || new Date().toISOString()
+    };
+
+    if (useSupabase) {
+      const { data, error } = await supabase
+        .from('transfer_credits')
+        .insert(creditData)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } else {
+      const credits = await getTransferCredits(credit.user_id, false);
+      localStorage.setItem(`transfer_credits_${credit.user_id}`, JSON.stringify([...credits, creditData]));
+      return creditData as TransferCredit;
+    }
+  } catch (error) {
+    logger.error('[addTransferCredit] Error:', error);
+    return null;
+  }
+};
+
+export const deleteTransferCredit = async (id: string, userId: string, useSupabase = false): Promise<boolean> => {
+  try {
+    if (useSupabase) {
+      const { error } = await supabase.from('transfer_credits').delete().eq('id', id);
+      if (error) throw error;
+    } else {
+      const credits = await getTransferCredits(userId, false);
+      localStorage.setItem(`transfer_credits_${userId}`, JSON.stringify(credits.filter(credit => credit.id !== id)));
+    }
+    return true;
+  } catch (error) {
+    logger.error('[deleteTransferCredit] Error:', error);
+    return false;
+  }
+};
+
+/**
+ * Loads the user's classes, GPA info and transfer credits and builds their
+ * transcript. Classes in progress use their current grade.
+ */
+export const loadTranscript = async (
+  userId: string,
+  useSupabase = false,
+  options: TranscriptOptions = {}
+): Promise<Transcript> => {
+  const gpaSettings = await initializeGpaSettings(userId, useSupabase);
+  const [classes, classGpaInfos, transferCredits] = await Promise.all([
+    getClasses(userId, useSupabase),
+    getClassGpaInfo(userId, useSupabase),
+    getTransferCredits(userId, useSupabase)
+  ]);
+
+  const courses: TranscriptCourseInput[] = [];
+  for (const gpaInfo of classGpaInfos) {
+    const classInfo = classes.find(cls => cls.id === gpaInfo.class_id);
+    if (!classInfo) continue;
+
+    let letterGrade = gpaInfo.final_grade;
+    let percentage: number | undefined;
+    if (!gpaInfo.is_completed) {
+      const classWithGrades = await getClassWithGrades(classInfo.id, userId, useSupabase);
+      percentage = classWithGrades ? calculateClassCurrentGrade(classWithGrades, gpaInfo.grading_method) : undefined;
+      letterGrade = percentage !== undefined ? calculateLetterGrade(percentage, gpaSettings, gpaInfo.grade_cutoffs) : undefined;
+    } else if (!letterGrade && typeof gpaInfo.final_gpa === 'number') {
+      letterGrade = calculateLetterGrade(gpaInfo.final_gpa, gpaSettings, gpaInfo.grade_cutoffs);
+    }
+
+    courses.push({
+      id: gpaInfo.id,
+      name: classInfo.name,
+      courseCode: gpaInfo.course_code,
+      semester: gpaInfo.semester,
+      year: gpaInfo.year,
+      creditHours: gpaInfo.credit_hours,
+      letterGrade,
+      percentage,
+      isCompleted: gpaInfo.is_completed,
+      isMajor: !!gpaInfo.is_major,
+      isTransfer: false,
+      countsInGpa: true,
+    });
+  }
+
+  transferCredits.forEach(credit => courses.push({
+    id: credit.id,
+    name: credit.course_name,
+    courseCode: credit.course_code,
+    semester: credit.semester,
+    year: credit.year,
+    creditHours: credit.credit_hours,
+    letterGrade: credit.grade || 'P',
+    isCompleted: true,
+    isMajor: credit.is_major,
+    isTransfer: true,
+    institution: credit.institution,
+    countsInGpa: credit.counts_in_gpa,
+  }));
+
+  return buildTranscript(courses, gpaSettings, options);
+};
@@ -0,0 +1,454 @@
+// Restores JSON backups (full exports and term archives): diffs the backup
+// against the current data, remaps IDs so references between records stay
+// intact, and applies the changes all-or-nothing
+import type { ExportData } from '../exportService';
+import { logger } from '../../utils/logger';
+import { valuesEqual } from '../sync';
+import { getTasks, addTask, updateTask, deleteTask } from '../task/taskOperations';
+import { getClasses, addClass, updateClass, deleteClass } from '../class/classOperations';
+import { getTaskTypes, addTaskType, updateTaskType, deleteTaskType } from '../taskType/taskTypeOperations';
+import {
+  getGradeCategories,
+  getAssignments,
+  getGrades,
+  addGradeCategory,
+  updateGradeCategory,
+  deleteGradeCategory,
+  addAssignment,
+  updateAssignment,
+  deleteAssignment,
+  addGrade,
+  updateGrade,
+  deleteGrade
+} from '../grade/gradeOperations';
+import { studySessionService } from '../studySessionService';
+
+export type BackupEntity =
+  | 'taskTypes'
+  | 'classes'
+  | 'tasks'
+  | 'gradeCategories'
+  | 'assignments'
+  | 'grades'
+  | 'studySessions';
+
+export type BackupItemStatus = 'new' | 'identical' | 'changed' | 'local-only';
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export type BackupRecord = Record<string, unknown> & { id: string };
+
+export type BackupSnapshot = Record<BackupEntity, BackupRecord[]>;
+
+export interface BackupDiffItem {
+  key: string; // Unique across the diff, used to pick a per-item resolution
+  entity: BackupEntity;
+  status: BackupItemStatus;
+  label: string;
+  backup?: BackupRecord;
+  local?: BackupRecord;
+  changedFields: string[];
+}
+
+export interface BackupDiff {
+  items: BackupDiffItem[];
+  counts: Record<BackupEntity, Record<BackupItemStatus, number>>;
+  sameAccount: boolean; // Backup was made by the user restoring it
+}
+
+export interface RestoreOptions {
+  defaultResolution: ConflictResolution;
+  resolutions?: Record<string, ConflictResolution>; // By diff item key
+}
+
+export interface RestoreResult {
+  restored: Record<BackupEntity, number>; // Records added or overwritten
+  skipped: number; // Conflicts left as they were
+}
+
+// Writes restored records; every method throws when the write fails
+export interface BackupRecordStore {
+  insert(entity: BackupEntity, record: BackupRecord | Omit<BackupRecord, 'id'>): Promise<BackupRecord>;
+  update(entity: BackupEntity, id: string, changes: Record<string, unknown>): Promise<void>;
+  remove(entity: BackupEntity, id: string): Promise<void>;
+}
+
+// Restore order: parents before the records that reference them
+export const BACKUP_ENTITIES: BackupEntity[] = [
+  'taskTypes',
+  'classes',
+  'tasks',
+  'gradeCategories',
+  'assignments',
+  'grades',
+  'studySessions',
+];
+
+const REFERENCES: Record<BackupEntity, { field: string; entity: BackupEntity }[]> = {
+  taskTypes: [],
+  classes: [],
+  tasks: [
+    { field: 'class', entity: 'classes' },
+    { field: 'type', entity: 'taskTypes' },
+    { field: 'recurrence_parent_id', entity: 'tasks' },
+  ],
+  gradeCategories: [{ field: 'class_id', entity: 'classes' }],
+  assignments: [
+    { field: 'class_id', entity: 'classes' },
+    { field: 'category_id', entity: 'gradeCategories' },
+    { field: 'task_id', entity: 'tasks' },
+  ],
+  grades: [{ field: 'assignment_id', entity: 'assignments' }],
+  studySessions: [
+    { field: 'task_id', entity: 'tasks' },
+    { field: 'class_id', entity: 'classes' },
+  ],
+};
+
+// Bookkeeping and relation fields that never count as a difference
+const UNCOMPARED_FIELDS = new Set(['id', 'user_id', 'created_at', 'updated_at', 'files', 'syllabus']);
+
+// Kept-both copies of named records get this suffix so they can be told apart
+const KEEP_BOTH_SUFFIX = ' (restored)';
+
+const normalizeText = (value: unknown): string =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const recordKey = (entity: BackupEntity, id: string): string => `${entity}:${id}`;
+
+/**
+ * Key that identifies the same record across accounts, where IDs differ.
+ * References are passed in already mapped to local IDs.
+ */
+const naturalKey = (entity: BackupEntity, record: Record<string, unknown>): string | null => {
+  switch (entity) {
+    case 'taskTypes':
+    case 'classes':
+      return normalizeText(record.name) || null;
+    case 'tasks':
+      return `${normalizeText(record.title)}|${record.dueDate || ''}|${record.class || ''}`;
+    case 'gradeCategories':
+    case 'assignments':
+      return `${record.class_id}|${normalizeText(record.name)}`;
+    case 'grades':
+      return String(record.assignment_id);
+    case 'studySessions':
+      return record.start_time ? `${record.start_time}` : null;
+  }
+};
+
+const describeRecord = (entity: BackupEntity, record: Record<string, unknown>): string => {
+  const name = record.name || record.title || record.subject;
+  if (name) return String(name);
+  if (entity === 'grades') return `Grade of ${record.points_earned} points`;
+  return String(record.id);
+};
+
+const withoutBookkeeping = (record: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(record).filter(([field]) => !UNCOMPARED_FIELDS.has(field)));
+
+const emptyCounts = (): BackupDiff['counts'] =>
+  Object.fromEntries(BACKUP_ENTITIES.map(entity => [
+    entity,
+    { new: 0, identical: 0, changed: 0, 'local-only': 0 },
+  ])) as BackupDiff['counts'];
+
+/**
+ * Reads the records of each entity from an export. Missing sections count as
+ * empty so older exports without grades or sessions still restore.
+ */
+export const snapshotFromExport = (data: ExportData): BackupSnapshot => {
+  const asRecords = (items?: unknown[]): BackupRecord[] =>
+    (items || []).filter((item): item is BackupRecord =>
+      !!item && typeof item === 'object' && typeof (item as BackupRecord).id === 'string');
+
+  return {
+    taskTypes: asRecords(data.taskTypes),
+    classes: asRecords(data.classes),
+    tasks: asRecords(data.tasks),
+    gradeCategories: asRecords(data.gradeCategories),
+    assignments: asRecords(data.assignments),
+    grades: asRecords(data.grades),
+    studySessions: asRecords(data.studySessions),
+  };
+};
+
+/**
+ * Loads the user's current records in the shape of a backup
+ */
+export const loadCurrentSnapshot = async (userId: string, useSupabase: boolean): Promise<BackupSnapshot> => {
+  const [tasks, classes, taskTypes, gradeCategories, assignments, grades, studySessions] = await Promise.all([
+    getTasks(userId, useSupabase),
+    getClasses(userId, useSupabase),
+    getTaskTypes(userId, useSupabase),
+    getGradeCategories(userId, useSupabase),
+    getAssignments(userId, useSupabase),
+    getGrades(userId, useSupabase),
+    studySessionService.getUserSessions(userId)
+  ]);
+
+  return snapshotFromExport({
+    version: '',
+    exportDate: '',
+    userId,
+    tasks,
+    classes,
+    taskTypes,
+    gradeCategories,
+    assignments,
+    grades,
+    studySessions,
+  });
+};
+
+/**
+ * Checks that parsed JSON looks like an export from this app
+ */
+export const parseBackup = (json: string): ExportData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  const backup = data as Partial<ExportData> | null;
+  if (!backup || typeof backup !== 'object' || typeof backup.version !== 'string') {
+    throw new Error('File is not a backup exported from this app');
+  }
+  const sections: (keyof ExportData)[] = ['tasks', 'classes', 'taskTypes', 'gradeCategories', 'assignments', 'grades', 'studySessions'];
+  sections.forEach(section => {
+    if (backup[section] !== undefined && !Array.isArray(backup[section])) {
+      throw new Error(`Backup section "${section}" is malformed`);
+    }
+  });
+  if (!Array.isArray(backup.tasks) || !Array.isArray(backup.classes) || !Array.isArray(backup.taskTypes)) {
+    throw new Error('Backup is missing tasks, classes or task types');
+  }
+  return backup as ExportData;
+};
+
+/**
+ * Compares a backup with the current data. Records match by ID, or by a
+ * natural key (name, title and date, ...) when the backup comes from another
+ * account or the record was recreated. References are compared after mapping
+ * them to the matching local records.
+ */
+export const diffBackup = (backup: BackupSnapshot, local: BackupSnapshot, sameAccount: boolean): BackupDiff => {
+  const items: BackupDiffItem[] = [];
+  const counts = emptyCounts();
+  const localIdsByBackupId = new Map<string, string>();
+
+  const mapReferences = (entity: BackupEntity, record: Record<string, unknown>): Record<string, unknown> => {
+    const mapped = { ...record };
+    REFERENCES[entity].forEach(({ field, entity: target }) => {
+      const value = record[field];
+      if (typeof value === 'string') {
+        mapped[field] = localIdsByBackupId.get(recordKey(target, value)) ?? value;
+      }
+    });
+    return mapped;
+  };
+
+  BACKUP_ENTITIES.forEach(entity => {
+    const localRecords = local[entity];
+    const localById = new Map(localRecords.map(record => [record.id, record]));
+    const localByNaturalKey = new Map<string, BackupRecord>();
+    localRecords.forEach(record => {
+      const key = naturalKey(entity, record);
+      if (key && !localByNaturalKey.has(key)) localByNaturalKey.set(key, record);
+    });
+    const matchedLocalIds = new Set<string>();
+
+    // Parents first so self-references (repeating task series) map too
+    const ordered = [...backup[entity]].sort((a, b) =>
+      Number(!!a.recurrence_parent_id) - Number(!!b.recurrence_parent_id));
+
+    ordered.forEach(backupRecord => {
+      const mapped = mapReferences(entity, backupRecord);
+      const naturalMatch = localByNaturalKey.get(naturalKey(entity, mapped) || '');
+      const localRecord = [localById.get(backupRecord.id), naturalMatch]
+        .find(candidate => candidate && !matchedLocalIds.has(candidate.id));
+
+      const key = recordKey(entity, backupRecord.id);
+      if (!localRecord) {
+        items.push({ key, entity, status: 'new', label: describeRecord(entity, backupRecord), backup: backupRecord, changedFields: [] });
+        counts[entity].new++;
+        return;
+      }
+
+      matchedLocalIds.add(localRecord.id);
+      localIdsByBackupId.set(key, localRecord.id);
+
+      const comparedBackup = withoutBookkeeping(mapped);
+      const comparedLocal = withoutBookkeeping(localRecord);
+      const changedFields = Array.from(new Set([...Object.keys(comparedBackup), ...Object.keys(comparedLocal)]))
+        .filter(field => !valuesEqual(comparedBackup[field], comparedLocal[field]));
+      const status: BackupItemStatus = changedFields.length > 0 ? 'changed' : 'identical';
+
+      items.push({ key, entity, status, label: describeRecord(entity, backupRecord), backup: backupRecord, local: localRecord, changedFields });
+      counts[entity][status]++;
+    });
+
+    localRecords
+      .filter(record => !matchedLocalIds.has(record.id))
+      .forEach(record => {
+        items.push({ key: `local:${recordKey(entity, record.id)}`, entity, status: 'local-only', label: describeRecord(entity, record), local: record, changedFields: [] });
+        counts[entity]['local-only']++;
+      });
+  });
+
+  return { items, counts, sameAccount };
+};
+
+/**
+ * Applies a diff: adds new records, resolves changed ones, and remaps
+ * references to the IDs the records end up with. Any failed write undoes the
+ * writes made so far, so the restore either fully applies or leaves the data
+ * as it was.
+ */
+export const applyBackupRestore = async (
+  diff: BackupDiff,
+  options: RestoreOptions,
+  store: BackupRecordStore,
+  userId: string
+): Promise<RestoreResult> => {
+  const targetIds = new Map<string, string>();
+  const localIds = new Set(diff.items.filter(item => item.local).map(item => recordKey(item.entity, item.local!.id)));
+  const applied: Array<
+    | { kind: 'insert'; entity: BackupEntity; id: string }
+    | { kind: 'update'; entity: BackupEntity; id: string; previous: Record<string, unknown> }
+  > = [];
+  const result: RestoreResult = {
+    restored: Object.fromEntries(BACKUP_ENTITIES.map(entity => [entity, 0])) as RestoreResult['restored'],
+    skipped: 0,
+  };
+
+  // Matches map to their local record up front; inserts add theirs as they land
+  diff.items.forEach(item => {
+    if (item.backup && item.local) targetIds.set(item.key, item.local.id);
+  });
+
+  const mapReferences = (entity: BackupEntity, record: Record<string, unknown>): Record<string, unknown> => {
+    const mapped = { ...record };
+    REFERENCES[entity].forEach(({ field, entity: target }) => {
+      const value = record[field];
+      if (typeof value === 'string') {
+        mapped[field] = targetIds.get(recordKey(target, value)) ?? value;
+      }
+    });
+    return mapped;
+  };
+
+  try {
+    for (const item of diff.items) {
+      if (!item.backup || item.status === 'identical') continue;
+
+      const resolution = item.status === 'new'
+        ? 'keep-both'
+        : options.resolutions?.[item.key] || options.defaultResolution;
+      if (resolution === 'skip') {
+        result.skipped++;
+        continue;
+      }
+
+      const fields = withoutBookkeeping(mapReferences(item.entity, item.backup));
+
+      if (resolution === 'overwrite' && item.local) {
+        await store.update(item.entity, item.local.id, fields);
+        applied.push({ kind: 'update', entity: item.entity, id: item.local.id, previous: withoutBookkeeping(item.local) });
+        result.restored[item.entity]++;
+        continue;
+      }
+
+      const record: Record<string, unknown> = { ...fields, user_id: userId };
+      if (item.local && typeof record.name === 'string' && (item.entity === 'classes' || item.entity === 'taskTypes')) {
+        record.name = `${record.name}${KEEP_BOTH_SUFFIX}`;
+      }
+      // Keep the original ID when restoring a deleted record into the same account
+      if (item.status === 'new' && diff.sameAccount && !localIds.has(recordKey(item.entity, item.backup.id))) {
+        record.id = item.backup.id;
+      }
+
+      const inserted = await store.insert(item.entity, record as BackupRecord);
+      targetIds.set(item.key, inserted.id);
+      applied.push({ kind: 'insert', entity: item.entity, id: inserted.id });
+      result.restored[item.entity]++;
+    }
+  } catch (error) {
+    logger.error('Backup restore failed, rolling back', error);
+
+    const rollbackFailures: string[] = [];
+    for (const change of [...applied].reverse()) {
+      try {
+        if (change.kind === 'insert') {
+          await store.remove(change.entity, change.id);
+        } else {
+          await store.update(change.entity, change.id, change.previous);
+        }
+      } catch (rollbackError) {
+        logger.error('Could not roll back restored record', { change, rollbackError });
+        rollbackFailures.push(`${change.entity} ${change.id}`);
+      }
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(rollbackFailures.length > 0
+      ? `Restore failed (${message}) and ${rollbackFailures.length} changes could not be undone`
+      : `Restore failed and was rolled back: ${message}`);
+  }
+
+  return result;
+};
+
+const requireResult = <T>(value: T | null | false, entity: BackupEntity, action: string): T => {
+  if (!value) throw new Error(`Could not ${action} ${entity}`);
+  return value;
+};
+
+/**
+ * Store that writes through the regular operations, so local caches and the
+ * sync queue stay consistent with the restored data. The operations queue
+ * writes made offline, rollbacks included, for the next sync.
+ */
+export const createOperationsStore = (useSupabase: boolean): BackupRecordStore => ({
+  async insert(entity, record) {
+    const data = record as never;
+    switch (entity) {
+      case 'taskTypes': return requireResult(await addTaskType(data, useSupabase), entity, 'add') as unknown as BackupRecord;
+      case 'classes': return requireResult(await addClass(data, useSupabase), entity, 'add') as unknown as BackupRecord;
+      case 'tasks': return requireResult(await addTask(data, useSupabase), entity, 'add') as unknown as BackupRecord;
+      case 'gradeCategories': return requireResult(await addGradeCategory(data, useSupabase), entity, 'add') as unknown as BackupRecord;
+      case 'assignments': return requireResult(await addAssignment(data, useSupabase), entity, 'add') as unknown as BackupRecord;
+      case 'grades': return requireResult(await addGrade(data, useSupabase), entity, 'add') as unknown as BackupRecord;
+      case 'studySessions': return requireResult(await studySessionService.createSession(data), entity, 'add') as unknown as BackupRecord;
+    }
+  },
+
+  async update(entity, id, changes) {
+    const data = changes as never;
+    switch (entity) {
+      case 'taskTypes': requireResult(await updateTaskType(id, data, useSupabase), entity, 'update'); return;
+      case 'classes': requireResult(await updateClass(id, data, useSupabase), entity, 'update'); return;
+      case 'tasks': requireResult(await updateTask(id, data, useSupabase), entity, 'update'); return;
+      case 'gradeCategories': requireResult(await updateGradeCategory(id, data, useSupabase), entity, 'update'); return;
+      case 'assignments': requireResult(await updateAssignment(id, data, useSupabase), entity, 'update'); return;
+      case 'grades': requireResult(await updateGrade(id, data, useSupabase), entity, 'update'); return;
+      case 'studySessions': requireResult(await studySessionService.updateSession(id, data), entity, 'update'); return;
+    }
+  },
+
+  async remove(entity, id) {
+    let removed: boolean;
+    switch (entity) {
+      case 'taskTypes': removed = await deleteTaskType(id, useSupabase); break;
+      case 'classes': removed = await deleteClass(id, useSupabase); break;
+      case 'tasks': removed = await deleteTask(id, useSupabase); break;
+      case 'gradeCategories': removed = await deleteGradeCategory(id, useSupabase); break;
+      case 'assignments': removed = await deleteAssignment(id, useSupabase); break;
+      case 'grades': removed = await deleteGrade(id, useSupabase); break;
+      case 'studySessions': removed = await studySessionService.deleteSession(id); break;
+    }
+    requireResult(removed, entity, 'remove');
+  },
+});
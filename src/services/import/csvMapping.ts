@@ -0,0 +1,403 @@
+// Maps CSV columns to task fields, with saved and built-in mapping presets
+// for exports from common planner apps
+import type { TaskInsert } from '../../types/database';
+import type { ImportError } from '../importService';
+import type { CSVTable } from '../../utils/csvHelpers';
+import { logger } from '../../utils/logger';
+
+export type TaskImportField =
+  | 'title'
+  | 'dueDate'
+  | 'dueTime'
+  | 'class'
+  | 'type'
+  | 'priority'
+  | 'startDate'
+  | 'startTime'
+  | 'endDate'
+  | 'endTime'
+  | 'completed';
+
+// How ambiguous numeric dates like 03/04/2024 are read
+export type DateOrder = 'auto' | 'mdy' | 'dmy' | 'ymd';
+
+// Task field -> source column header
+export type CSVColumnMapping = Partial<Record<TaskImportField, string>>;
+
+export interface CSVMappingConfig {
+  columns: CSVColumnMapping;
+  dateOrder?: DateOrder; // Defaults to 'auto'
+  rowFilter?: { column: string; value: string }; // Only rows with this value are tasks
+}
+
+export interface CSVMappingPreset extends CSVMappingConfig {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+export interface CSVMappingContext {
+  userId: string;
+  classes: { id: string; name: string }[];
+  taskTypes: { id: string; name: string }[];
+  classMapping?: Record<string, string>; // Imported class name -> class ID
+  taskTypeMapping?: Record<string, string>; // Imported type name -> task type ID
+}
+
+export interface CSVRowResult {
+  rowNumber: number; // Line of the row in the file, counting the header as 1
+  task: TaskInsert | null;
+  errors: ImportError[];
+  warnings: ImportError[];
+  filtered: boolean; // Empty, or excluded by the row filter like Todoist section rows
+}
+
+export const TASK_IMPORT_FIELDS: { field: TaskImportField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'dueDate', label: 'Due date' },
+  { field: 'dueTime', label: 'Due time' },
+  { field: 'class', label: 'Class' },
+  { field: 'type', label: 'Task type' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'startDate', label: 'Start date' },
+  { field: 'startTime', label: 'Start time' },
+  { field: 'endDate', label: 'End date' },
+  { field: 'endTime', label: 'End time' },
+  { field: 'completed', label: 'Completed' },
+];
+
+export const BUILT_IN_PRESETS: CSVMappingPreset[] = [
+  {
+    id: 'notion',
+    name: 'Notion',
+    builtIn: true,
+    columns: { title: 'Name', dueDate: 'Due', class: 'Class', type: 'Type', priority: 'Priority', completed: 'Done' },
+  },
+  {
+    id: 'todoist',
+    name: 'Todoist',
+    builtIn: true,
+    columns: { title: 'CONTENT', dueDate: 'DATE', priority: 'PRIORITY' },
+    rowFilter: { column: 'TYPE', value: 'task' },
+  },
+  {
+    id: 'google-sheets',
+    name: 'Google Sheets',
+    builtIn: true,
+    columns: { title: 'Title', dueDate: 'Due Date', dueTime: 'Due Time', class: 'Class', type: 'Type', priority: 'Priority' },
+  },
+  {
+    id: 'mystudylife',
+    name: 'MyStudyLife',
+    builtIn: true,
+    columns: { title: 'Title', dueDate: 'Due Date', class: 'Subject', type: 'Type', completed: 'Completed' },
+    dateOrder: 'auto',
+  },
+];
+
+const PRESETS_STORAGE_KEY = 'csv_import_presets';
+
+// Header spellings recognized when guessing a mapping, most specific first
+const FIELD_SYNONYMS: Record<TaskImportField, string[]> = {
+  title: ['title', 'name', 'task', 'taskname', 'content', 'assignment', 'summary'],
+  dueDate: ['duedate', 'due', 'deadline', 'date', 'duedatetime'],
+  dueTime: ['duetime', 'time'],
+  class: ['class', 'course', 'subject', 'classname', 'coursename', 'module'],
+  type: ['type', 'tasktype', 'category', 'kind'],
+  priority: ['priority', 'importance'],
+  startDate: ['startdate', 'start', 'begin', 'startdatetime'],
+  startTime: ['starttime'],
+  endDate: ['enddate', 'end', 'finish', 'enddatetime'],
+  endTime: ['endtime'],
+  completed: ['completed', 'done', 'complete', 'status', 'checked'],
+};
+
+// Partial matches are tried for specific fields first, so "Start Time" isn't
+// taken as a start date or "Start Date" as a due date
+const PARTIAL_MATCH_ORDER: TaskImportField[] = [
+  'startTime', 'endTime', 'startDate', 'endDate', 'dueTime', 'dueDate',
+  'title', 'class', 'type', 'priority', 'completed',
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toDateString = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Reads a time like "14:30", "2:30 PM" or "2pm" as HH:MM
+ */
+export const parseTimeValue = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2}(?:\.\d+)?)?\s*([ap])\.?m?\.?$/i)
+    || value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?()$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+/**
+ * Reads the date, and time if present, from a spreadsheet cell. Handles ISO
+ * dates and timestamps, numeric dates in the given order, and written-out
+ * dates like "October 5, 2024 3:00 PM". Date ranges ("Oct 5 → Oct 7") use
+ * their start.
+ */
+export const parseDateValue = (
+  value: string,
+  dateOrder: DateOrder = 'auto'
+): { date: string; time?: string } | null => {
+  const text = value.split(/\s+(?:→|->)\s+/)[0].trim();
+  if (!text) return null;
+
+  // ISO timestamps with an offset are converted to local time
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    if (iso[6]) {
+      const instant = new Date(text.replace(' ', 'T'));
+      if (isNaN(instant.getTime())) return null;
+      return {
+        date: `${instant.getFullYear()}-${pad(instant.getMonth() + 1)}-${pad(instant.getDate())}`,
+        time: `${pad(instant.getHours())}:${pad(instant.getMinutes())}`,
+      };
+    }
+    const date = toDateString(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (!date) return null;
+    return iso[4] ? { date, time: `${iso[4]}:${iso[5]}` } : { date };
+  }
+
+  const numeric = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:,?\s+(.+))?$/);
+  if (numeric) {
+    const [a, b, c] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    let date: string | null;
+    if (numeric[1].length === 4 || dateOrder === 'ymd') {
+      date = toDateString(a, b, c);
+    } else {
+      const year = numeric[3].length === 2 ? 2000 + c : c;
+      const dayFirst = dateOrder === 'dmy' || (dateOrder === 'auto' && a > 12);
+      date = dayFirst ? toDateString(year, b, a) : toDateString(year, a, b);
+    }
+    if (!date) return null;
+    if (!numeric[4]) return { date };
+    const time = parseTimeValue(numeric[4]);
+    return time ? { date, time } : null;
+  }
+
+  // Written-out month names
+  if (MONTHS.some(month => text.toLowerCase().includes(month))) {
+    const parsed = new Date(text.replace(/(\d+)(st|nd|rd|th)\b/g, '$1').replace(/\s+at\s+/i, ' '));
+    if (isNaN(parsed.getTime())) return null;
+    const date = `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+    return /\d{1,2}:\d{2}|\d\s*[ap]\.?m\b/i.test(text)
+      ? { date, time: `${pad(parsed.getHours())}:${pad(parsed.getMinutes())}` }
+      : { date };
+  }
+
+  return null;
+};
+
+const parsePriority = (value: string): TaskInsert['priority'] | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['high', 'urgent', 'important', 'p1', '1', '!!!'].includes(normalized)) return 'high';
+  if (['medium', 'normal', 'med', 'p2', '2', '!!'].includes(normalized)) return 'medium';
+  if (['low', 'p3', 'p4', '3', '4', '!'].includes(normalized)) return 'low';
+  return null;
+};
+
+const parseCompleted = (value: string): boolean =>
+  ['true', 'yes', 'y', 'x', '1', 'done', 'complete', 'completed', 'checked', '✓', '✔'].includes(value.trim().toLowerCase());
+
+const findByName = <T extends { id: string; name: string }>(items: T[], value: string): T | undefined => {
+  const normalized = normalizeHeader(value);
+  return items.find(item => item.id === value)
+    || items.find(item => normalizeHeader(item.name) === normalized);
+};
+
+/**
+ * Guesses which column holds each task field from the header names
+ */
+export const suggestMapping = (headers: string[]): CSVColumnMapping => {
+  const mapping: CSVColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(normalizeHeader);
+
+  // Exact synonym matches win over partial ones, across all fields
+  [true, false].forEach(exact => {
+    PARTIAL_MATCH_ORDER.forEach(field => {
+      if (mapping[field]) return;
+      for (const synonym of FIELD_SYNONYMS[field]) {
+        const index = normalized.findIndex((header, i) =>
+          !used.has(headers[i]) && (exact ? header === synonym : header.includes(synonym)));
+        if (index !== -1) {
+          mapping[field] = headers[index];
+          used.add(headers[index]);
+          return;
+        }
+      }
+    });
+  });
+
+  return mapping;
+};
+
+/**
+ * Finds the preset whose columns (and row filter column) all appear in the file
+ */
+export const matchPreset = (headers: string[], presets: CSVMappingPreset[]): CSVMappingPreset | null => {
+  const available = new Set(headers.map(normalizeHeader));
+  const matches = presets.filter(preset => {
+    const columns = [...Object.values(preset.columns), preset.rowFilter?.column]
+      .filter((column): column is string => !!column);
+    return columns.length > 0 && columns.every(column => available.has(normalizeHeader(column)));
+  });
+
+  // Prefer the preset that accounts for the most columns
+  return matches.sort((a, b) => Object.keys(b.columns).length - Object.keys(a.columns).length)[0] || null;
+};
+
+/**
+ * Converts CSV rows to tasks using a column mapping, collecting the problems
+ * of each row instead of stopping at the first one
+ */
+export const mapCSVRows = (
+  table: CSVTable,
+  config: CSVMappingConfig,
+  context: CSVMappingContext
+): CSVRowResult[] => {
+  const normalizedHeaders = table.headers.map(normalizeHeader);
+  const columnIndex = (header?: string): number =>
+    header ? normalizedHeaders.indexOf(normalizeHeader(header)) : -1;
+
+  const indexes = Object.fromEntries(
+    TASK_IMPORT_FIELDS.map(({ field }) => [field, columnIndex(config.columns[field])])
+  ) as Record<TaskImportField, number>;
+  const filterIndex = columnIndex(config.rowFilter?.column);
+
+  return table.rows.map((row, i) => {
+    const rowNumber = i + 2;
+    const item = `Row ${rowNumber}`;
+    const errors: ImportError[] = [];
+    const warnings: ImportError[] = [];
+    const cell = (field: TaskImportField): string =>
+      indexes[field] === -1 ? '' : (row[indexes[field]] || '').trim();
+
+    if (row.every(value => !value.trim()) || (config.rowFilter && filterIndex !== -1 &&
+        (row[filterIndex] || '').trim().toLowerCase() !== config.rowFilter.value.toLowerCase())) {
+      return { rowNumber, task: null, errors, warnings, filtered: true };
+    }
+
+    const readDate = (field: TaskImportField, label: string) => {
+      const raw = cell(field);
+      if (!raw) return null;
+      const parsed = parseDateValue(raw, config.dateOrder);
+      if (!parsed) {
+        errors.push({ type: 'format', item, field, message: `Can't read ${label} "${raw}"`, severity: 'high' });
+      }
+      return parsed;
+    };
+    const readTime = (field: TaskImportField, label: string, fallback?: string) => {
+      const raw = cell(field);
+      if (!raw) return fallback;
+      const time = parseTimeValue(raw);
+      if (!time) {
+        errors.push({ type: 'format', item, field, message: `Can't read ${label} "${raw}"`, severity: 'high' });
+      }
+      return time || fallback;
+    };
+
+    const task: TaskInsert = {
+      title: cell('title'),
+      completed: cell('completed') ? parseCompleted(cell('completed')) : false,
+      priority: 'medium',
+      user_id: context.userId,
+    };
+
+    const due = readDate('dueDate', 'due date');
+    const start = readDate('startDate', 'start date');
+    const end = readDate('endDate', 'end date');
+
+    if (start || end) {
+      task.isDuration = true;
+      task.startDate = start?.date || end?.date;
+      task.startTime = readTime('startTime', 'start time', start?.time);
+      task.endDate = end?.date || start?.date;
+      task.endTime = readTime('endTime', 'end time', end?.time);
+    }
+    task.dueDate = due?.date || task.startDate;
+    task.dueTime = readTime('dueTime', 'due time', due?.time || task.startTime);
+
+    const priority = cell('priority');
+    if (priority) {
+      const parsed = parsePriority(priority);
+      if (parsed) {
+        task.priority = parsed;
+      } else {
+        warnings.push({ type: 'validation', item, field: 'priority', message: `Unknown priority "${priority}", using medium`, severity: 'low' });
+      }
+    }
+
+    const className = cell('class');
+    if (className) {
+      const classId = context.classMapping?.[className] || findByName(context.classes, className)?.id;
+      if (classId) {
+        task.class = classId;
+      } else {
+        warnings.push({ type: 'validation', item, field: 'class', message: `No class named "${className}", importing without a class`, severity: 'low' });
+      }
+    }
+
+    const typeName = cell('type');
+    if (typeName) {
+      const typeId = context.taskTypeMapping?.[typeName] || findByName(context.taskTypes, typeName)?.id;
+      if (typeId) {
+        task.type = typeId;
+      } else {
+        warnings.push({ type: 'validation', item, field: 'type', message: `No task type named "${typeName}", importing without a type`, severity: 'low' });
+      }
+    }
+
+    return { rowNumber, task, errors, warnings, filtered: false };
+  });
+};
+
+/**
+ * Returns the built-in presets followed by the ones the user saved
+ */
+export const getMappingPresets = (): CSVMappingPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const saved: CSVMappingPreset[] = stored ? JSON.parse(stored) : [];
+    return [...BUILT_IN_PRESETS, ...saved];
+  } catch (error) {
+    logger.warn('Could not read CSV mapping presets', error);
+    return [...BUILT_IN_PRESETS];
+  }
+};
+
+/**
+ * Saves a mapping under a name, replacing a saved preset of the same name
+ */
+export const saveMappingPreset = (name: string, config: CSVMappingConfig): CSVMappingPreset => {
+  const saved = getMappingPresets().filter(preset => !preset.builtIn && preset.name !== name);
+  const preset: CSVMappingPreset = { ...config, id: `custom-${Date.now()}`, name };
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify([...saved, preset]));
+  return preset;
+};
+
+export const deleteMappingPreset = (id: string): void => {
+  const saved = getMappingPresets().filter(preset => !preset.builtIn && preset.id !== id);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(saved));
+};
@@ -17,6 +17,25 @@ import { addTaskType } from './taskType/taskTypeOperations';
 import { getClasses } from './class/classOperations';
 import { getTaskTypes } from './taskType/taskTypeOperations';
 import { supabase } from './supabaseClient';
+import { parseRRule, formatRRule } from '../utils/recurrenceHelpers';
+import { decodeCSVBytes, parseCSVTable, type CSVTable, type CSVEncoding } from '../utils/csvHelpers';
+import {
+  mapCSVRows,
+  suggestMapping,
+  type CSVMappingConfig,
+  type CSVRowResult
+} from './import/csvMapping';
+import {
+  parseBackup,
+  snapshotFromExport,
+  loadCurrentSnapshot,
+  diffBackup,
+  applyBackupRestore,
+  createOperationsStore,
+  type BackupDiff,
+  type BackupEntity,
+  type RestoreOptions
+} from './import/backupRestore';
 
 // Import data types
 export interface ImportData {
@@ -29,13 +48,16 @@ export interface ImportData {
 }
 
 export interface ImportOptions {
-  format: 'csv' | 'ics';
+  format: 'csv' | 'ics' | 'json';
   preview?: boolean;
   skipDuplicates?: boolean;
   conflictResolution?: 'skip' | 'overwrite' | 'merge' | 'prompt';
   validateData?: boolean;
   classMapping?: Record<string, string>; // Map imported class names to existing class IDs
   taskTypeMapping?: Record<string, string>; // Map imported task types to existing type IDs
+  csvMapping?: CSVMappingConfig; // Guessed from the CSV headers when omitted
+  skipInvalidRows?: boolean; // Import the valid CSV rows instead of failing on any error
+  restore?: RestoreOptions; // How JSON backup conflicts are resolved
 }
 
 export interface ImportProgress {
@@ -80,11 +102,11 @@ export interface ImportError {
 }
 
 export interface ImportConflict {
-  type: 'task' | 'class' | 'taskType';
+  type: 'task' | 'class' | 'taskType' | 'gradeCategory' | 'assignment' | 'grade' | 'studySession';
   existing: any;
   imported: any;
   field: string;
-  suggestedResolution: 'skip' | 'overwrite' | 'merge';
+  suggestedResolution: 'skip' | 'overwrite' | 'merge' | 'keep-both';
 }
 
 export interface ImportPreview {
@@ -92,6 +114,8 @@ export interface ImportPreview {
   data: ImportData;
   validation: ValidationResult;
   conflicts: ImportConflict[];
+  rows?: CSVRowResult[]; // Per-row results of CSV imports
+  backupDiff?: BackupDiff; // Differences between a JSON backup and current data
   summary: {
     tasks: number;
     classes: number;
@@ -106,6 +130,26 @@ export interface ValidationResult {
   warnings: ImportError[];
 }
 
+export interface CSVFileContents extends CSVTable {
+  encoding: CSVEncoding;
+}
+
+interface PreparedCSVImport {
+  rows: CSVRowResult[];
+  tasks: TaskInsert[];
+  validation: ValidationResult;
+}
+
+const CONFLICT_TYPES: Record<BackupEntity, ImportConflict['type']> = {
+  taskTypes: 'taskType',
+  classes: 'class',
+  tasks: 'task',
+  gradeCategories: 'gradeCategory',
+  assignments: 'assignment',
+  grades: 'grade',
+  studySessions: 'studySession'
+};
+
 export type ImportProgressCallback = (progress: ImportProgress) => void;
 
 /**
@@ -177,8 +221,9 @@ export class ImportService {
     try {
       onProgress?.({ step: 'Security Check', progress: 10, message: 'Validating file security...' });
 
-      // Secure server-side validation
-      const { content: fileContent, warnings } = await this.validateFileSecurely(file, 'csv');
+      // Secure server-side validation; the file is still decoded locally so
+      // its encoding and delimiter can be detected
+      const { warnings } = await this.validateFileSecurely(file, 'csv');
       
       if (warnings.length > 0) {
         logger.warn('CSV import warnings', warnings);
@@ -186,22 +231,11 @@ export class ImportService {
 
       onProgress?.({ step: 'Parsing CSV', progress: 20, message: 'Parsing CSV file...' });
 
-      const csvData = this.parseCSV(fileContent);
-
-      if (csvData.length === 0) {
-        throw new Error('CSV file appears to be empty or invalid');
-      }
-
-      onProgress?.({ step: 'Converting', progress: 30, message: 'Converting CSV data to tasks...' });
-
-      // Convert CSV rows to tasks
-      const tasks = await this.convertCSVToTasks(csvData, options);
+      const { rows, tasks, validation } = await this.prepareCSVImport(file, options);
 
       onProgress?.({ step: 'Validating', progress: 50, message: 'Validating task data...' });
 
-      // Validate converted tasks
-      const validation = this.validateTasks(tasks);
-      if (!validation.isValid && !options.preview) {
+      if (!validation.isValid && !options.preview && !options.skipInvalidRows) {
         throw new Error(`Validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
       }
 
@@ -214,6 +248,12 @@ export class ImportService {
         };
       }
 
+      // Rows with errors are left out when skipping invalid rows
+      const invalidRows = rows.filter(row => !row.filtered && row.errors.length > 0).length;
+      if (invalidRows > 0) {
+        logger.warn(`Skipping ${invalidRows} invalid CSV rows`);
+      }
+
       onProgress?.({ step: 'Importing', progress: 70, message: 'Importing tasks...' });
 
       // Import the tasks
@@ -248,8 +288,8 @@ export class ImportService {
 
       return {
         success: true,
-        summary: this.createImportSummary({ tasks, classes: [], taskTypes: [] }, imported, 0, 0, skipped, 0),
-        errors,
+        summary: this.createImportSummary({ tasks, classes: [], taskTypes: [] }, imported, 0, 0, skipped + invalidRows, 0),
+        errors: [...validation.errors, ...errors],
         conflicts: []
       };
     } catch (error) {
@@ -347,12 +387,57 @@ export class ImportService {
     const previewOptions = { ...options, preview: true };
     
     try {
+      if (options.format === 'json') {
+        const { diff } = await this.diffBackupFile(file);
+        const incoming = (entity: BackupEntity) => diff.counts[entity].new + diff.counts[entity].changed;
+        const conflicts: ImportConflict[] = diff.items
+          .filter(item => item.status === 'changed')
+          .map(item => ({
+            type: CONFLICT_TYPES[item.entity],
+            existing: item.local,
+            imported: item.backup,
+            field: item.changedFields.join(', '),
+            suggestedResolution: options.restore?.defaultResolution || 'skip'
+          }));
+
+        return {
+          valid: true,
+          data: { tasks: [], classes: [], taskTypes: [] },
+          validation: { isValid: true, errors: [], warnings: [] },
+          conflicts,
+          backupDiff: diff,
+          summary: {
+            tasks: incoming('tasks'),
+            classes: incoming('classes'),
+            taskTypes: incoming('taskTypes'),
+            estimatedImportTime: Math.ceil(diff.items.filter(item => item.status === 'new' || item.status === 'changed').length * 0.1)
+          }
+        };
+      }
+
+      if (options.format === 'csv') {
+        // CSV previews run the mapping locally; nothing is sent or written
+        const { rows, tasks, validation } = await this.prepareCSVImport(file, previewOptions);
+        const validRows = rows.filter(row => !row.filtered && row.errors.length === 0).length;
+
+        return {
+          valid: validation.isValid || (!!options.skipInvalidRows && validRows > 0),
+          data: { tasks: tasks as Task[], classes: [], taskTypes: [] },
+          validation,
+          conflicts: [],
+          rows,
+          summary: {
+            tasks: options.skipInvalidRows ? validRows : tasks.length,
+            classes: 0,
+            taskTypes: 0,
+            estimatedImportTime: Math.ceil(tasks.length * 0.1) // 100ms per item estimate
+          }
+        };
+      }
+
       let result: ImportResult;
       
       switch (options.format) {
-        case 'csv':
-          result = await this.importTasksCSV(file, previewOptions);
-          break;
         case 'ics':
           result = await this.importCalendarICS(file, previewOptions);
           break;
@@ -360,10 +445,7 @@ export class ImportService {
           throw new Error(`Unsupported format: ${options.format}`);
       }
 
-      const fileContent = await this.readFileContent(file);
-      let data: ImportData;
-
-      data = {
+      const data: ImportData = {
         tasks: [], // Will be populated by the specific parsers
         classes: [],
         taskTypes: []
@@ -391,6 +473,73 @@ export class ImportService {
     }
   }
 
+  /**
+   * Restore a JSON backup or term archive. New records are added, conflicts
+   * resolved as chosen, and everything is rolled back if any write fails.
+   */
+  async restoreBackup(
+    file: File,
+    options: ImportOptions = { format: 'json' },
+    onProgress?: ImportProgressCallback
+  ): Promise<ImportResult> {
+    try {
+      onProgress?.({ step: 'Reading Backup', progress: 10, message: 'Reading backup file...' });
+      const { diff, userId } = await this.diffBackupFile(file);
+
+      onProgress?.({ step: 'Restoring', progress: 40, message: 'Restoring backup...' });
+      const result = await applyBackupRestore(
+        diff,
+        options.restore || { defaultResolution: 'skip' },
+        createOperationsStore(true),
+        userId
+      );
+
+      const restored = Object.values(result.restored).reduce((sum, count) => sum + count, 0);
+      onProgress?.({ step: 'Complete', progress: 100, message: `Restore complete! ${restored} items restored.` });
+
+      const backupCount = (entity: BackupEntity) => diff.items.filter(item => item.entity === entity && item.backup).length;
+      return {
+        success: true,
+        summary: {
+          totalProcessed: diff.items.filter(item => item.backup).length,
+          imported: {
+            tasks: result.restored.tasks,
+            classes: result.restored.classes,
+            taskTypes: result.restored.taskTypes,
+            grades: result.restored.grades + result.restored.assignments + result.restored.gradeCategories,
+            studySessions: result.restored.studySessions
+          },
+          skipped: {
+            tasks: backupCount('tasks') - result.restored.tasks,
+            classes: backupCount('classes') - result.restored.classes,
+            taskTypes: backupCount('taskTypes') - result.restored.taskTypes,
+            duplicates: diff.items.filter(item => item.status === 'identical').length
+          },
+          errors: 0
+        },
+        errors: [],
+        conflicts: []
+      };
+    } catch (error) {
+      logger.error('Backup restore failed', error);
+      throw errorHandler.handle(error as Error, 'restoreBackup');
+    }
+  }
+
+  /**
+   * Reads a CSV file's columns and rows, detecting its encoding and
+   * delimiter, so the columns can be mapped before importing
+   */
+  async readCSVFile(file: File): Promise<CSVFileContents> {
+    const { text, encoding } = decodeCSVBytes(await this.readFileAsArrayBuffer(file));
+    const table = parseCSVTable(text);
+
+    if (table.headers.length === 0) {
+      throw new Error('CSV file appears to be empty or invalid');
+    }
+    return { ...table, encoding };
+  }
+
   /**
    * Private helper methods
    */
@@ -403,6 +552,15 @@ export class ImportService {
     });
   }
 
+  private async readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
   private async readFileAsBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -471,56 +629,70 @@ export class ImportService {
 
 
 
-  private parseCSV(content: string): string[][] {
-    const lines = content.split('\n');
-    const result: string[][] = [];
-    
-    for (const line of lines) {
-      if (line.trim()) {
-        // Simple CSV parsing - could be enhanced for more complex cases
-        const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
-        result.push(cells);
-      }
-    }
-    
-    return result;
+  /**
+   * Compares a backup file with the signed-in user's current data
+   */
+  private async diffBackupFile(file: File): Promise<{ diff: BackupDiff; userId: string }> {
+    const backup = parseBackup(await this.readFileContent(file));
+
+    const user = await getCurrentUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const current = await loadCurrentSnapshot(user.id, true);
+    return {
+      diff: diffBackup(snapshotFromExport(backup), current, backup.userId === user.id),
+      userId: user.id
+    };
   }
 
-  private async convertCSVToTasks(csvData: string[][], options: ImportOptions): Promise<TaskInsert[]> {
+  /**
+   * Maps the rows of a CSV file to tasks and validates each row
+   */
+  private async prepareCSVImport(file: File, options: ImportOptions): Promise<PreparedCSVImport> {
+    const table = await this.readCSVFile(file);
+    if (table.rows.length === 0) {
+      throw new Error('CSV file appears to be empty or invalid');
+    }
+
     const user = await getCurrentUser();
     if (!user) throw new Error('User not authenticated');
 
-    const headers = csvData[0];
-    const rows = csvData.slice(1);
-    
-    // Map CSV columns to task fields
-    const titleIndex = headers.findIndex(h => h.toLowerCase().includes('title') || h.toLowerCase().includes('name'));
-    const dueDateIndex = headers.findIndex(h => h.toLowerCase().includes('due'));
-    const descriptionIndex = headers.findIndex(h => h.toLowerCase().includes('description'));
-    const classIndex = headers.findIndex(h => h.toLowerCase().includes('class') || h.toLowerCase().includes('course'));
-    
-    if (titleIndex === -1 || dueDateIndex === -1) {
-      throw new Error('CSV must contain at least Title and Due Date columns');
+    const mapping = options.csvMapping || { columns: suggestMapping(table.headers) };
+    if (!mapping.columns.title) {
+      throw new Error('Choose the CSV column that holds the task title');
     }
 
-    const tasks: TaskInsert[] = [];
-    
-    for (const row of rows) {
-      if (row.length > titleIndex && row[titleIndex]) {
-        const task: TaskInsert = {
-          title: row[titleIndex],
-          dueDate: row[dueDateIndex],
-          completed: false,
-          priority: 'medium',
-          type: 'default', // TODO: Map to actual task type
-          user_id: user.id
-        };
-        
-        tasks.push(task);
+    const [classes, taskTypes] = await Promise.all([
+      getClasses(user.id),
+      getTaskTypes(user.id)
+    ]);
+
+    const rows = mapCSVRows(table, mapping, {
+      userId: user.id,
+      classes,
+      taskTypes,
+      classMapping: options.classMapping,
+      taskTypeMapping: options.taskTypeMapping
+    });
+
+    rows.forEach(row => {
+      if (row.task && !row.filtered) {
+        row.errors.push(...this.validateTask(row.task, `Row ${row.rowNumber}`));
       }
-    }
-    
-    return tasks;
+    });
+
+    const errors = rows.flatMap(row => row.errors);
+    const included = rows.filter(row => !row.filtered && (row.errors.length === 0 || !options.skipInvalidRows));
+
+    return {
+      rows,
+      tasks: included.map(row => row.task).filter((task): task is TaskInsert => !!task),
+      validation: {
+        isValid: errors.length === 0,
+        errors,
+        warnings: rows.flatMap(row => row.warnings)
+      }
+    };
   }
 
   private parseICS(content: string): any[] {
@@ -559,6 +731,14 @@ export class ImportService {
           case 'LOCATION':
             currentEvent.location = value;
             break;
+          case 'RRULE':
+            currentEvent.rrule = value;
+            break;
+        }
+
+        // EXDATE may carry VALUE/TZID parameters and repeat across lines
+        if (key.split(';')[0] === 'EXDATE') {
+          currentEvent.exdates = [...(currentEvent.exdates || []), ...value.split(',')];
         }
       }
     }
@@ -575,15 +755,26 @@ export class ImportService {
     for (const event of events) {
       if (event.title) {
         const dueDate = event.startDate || event.endDate;
+        const { date, time } = this.parseICSDate(dueDate);
         
         const task: TaskInsert = {
           title: event.title,
-          dueDate: this.parseICSDate(dueDate),
+          dueDate: date,
+          dueTime: time,
           completed: false,
           priority: 'medium',
           type: 'default', // TODO: Map to actual task type
           user_id: user.id
         };
+
+        const rule = event.rrule ? parseRRule(event.rrule) : null;
+        if (rule) {
+          // Tasks repeat on whole days, so a date-time UNTIL is reduced to its date
+          task.recurrence_rule = formatRRule(rule, { dateOnly: true });
+          if (event.exdates?.length) {
+            task.recurrence_exdates = event.exdates.map((exdate: string) => this.parseICSDate(exdate).date);
+          }
+        }
         
         tasks.push(task);
       }
@@ -592,32 +783,32 @@ export class ImportService {
     return tasks;
   }
 
-  private parseICSDate(icsDate: string): string {
-    if (!icsDate) return new Date().toISOString();
+  private parseICSDate(icsDate: string): { date: string; time?: string } {
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    const toDateString = (value: Date): string =>
+      `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+
+    if (!icsDate) return { date: toDateString(new Date()) };
     
     // Handle different ICS date formats
-    let date: Date;
+    const cleanDate = icsDate.trim();
+    const year = parseInt(cleanDate.substr(0, 4));
+    const month = parseInt(cleanDate.substr(4, 2)) - 1;
+    const day = parseInt(cleanDate.substr(6, 2));
     
-    if (icsDate.includes('T')) {
-      // DateTime format: 20231201T140000Z
-      const cleanDate = icsDate.replace(/[TZ]/g, '');
-      const year = parseInt(cleanDate.substr(0, 4));
-      const month = parseInt(cleanDate.substr(4, 2)) - 1;
-      const day = parseInt(cleanDate.substr(6, 2));
-      const hour = parseInt(cleanDate.substr(8, 2)) || 0;
-      const minute = parseInt(cleanDate.substr(10, 2)) || 0;
-      
-      date = new Date(year, month, day, hour, minute);
-    } else {
-      // Date only format: 20231201
-      const year = parseInt(icsDate.substr(0, 4));
-      const month = parseInt(icsDate.substr(4, 2)) - 1;
-      const day = parseInt(icsDate.substr(6, 2));
+    if (cleanDate.includes('T')) {
+      // DateTime format: 20231201T140000Z (UTC) or 20231201T140000 (local)
+      const hour = parseInt(cleanDate.substr(9, 2)) || 0;
+      const minute = parseInt(cleanDate.substr(11, 2)) || 0;
+      const date = cleanDate.endsWith('Z')
+        ? new Date(Date.UTC(year, month, day, hour, minute))
+        : new Date(year, month, day, hour, minute);
       
-      date = new Date(year, month, day);
+      return { date: toDateString(date), time: `${pad(date.getHours())}:${pad(date.getMinutes())}` };
     }
     
-    return date.toISOString();
+    // Date only format: 20231201
+    return { date: toDateString(new Date(year, month, day)) };
   }
 
   private createImportSummary(
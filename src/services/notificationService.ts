@@ -122,6 +122,26 @@ export class NotificationService {
     return data && data.length > 0;
   }
 
+  /**
+   * Get reminders logged per offset since the given time. Throws rather than
+   * returning an empty list, so a failed lookup never causes duplicates.
+   */
+  static async getSentReminders(userId: string, since: Date): Promise<EmailNotification[]> {
+    const { data, error } = await supabase
+      .from('email_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .not('reminder_offset', 'is', null)
+      .gte('sent_at', since.toISOString());
+
+    if (error) {
+      console.error('Error fetching sent reminders:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
   /**
    * Get user's recent notification history
    */
@@ -0,0 +1,239 @@
+// Notification inbox. Notifications are stored in Supabase so read state is
+// the same on every device, with a local copy for offline use.
+import { supabase } from '../supabaseClient';
+import type { AppNotification, AppNotificationInsert } from '../../types/database';
+import { logger } from '../../utils/logger';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import { generateUniqueId } from '../../utils/idHelpers';
+import { createRealtimeCache, type RealtimeCache, type RealtimeChange, type RealtimeTransport } from '../realtime';
+
+export const INBOX_KEY = 'notification_inbox';
+
+// Only the newest notifications are loaded and kept
+const MAX_INBOX_ITEMS = 100;
+
+// Prefix of notifications that could not be stored on the server
+const LOCAL_ID_PREFIX = 'local-notification';
+
+export type NewNotification = Omit<AppNotificationInsert, 'id' | 'user_id' | 'read_at' | 'created_at' | 'updated_at'>;
+
+export interface NotificationGroup {
+  key: string;
+  latest: AppNotification;
+  notifications: AppNotification[]; // Newest first
+  unreadCount: number;
+}
+
+export interface NotificationSection {
+  label: 'Today' | 'Yesterday' | 'Earlier';
+  groups: NotificationGroup[];
+}
+
+type InboxListener = (notifications: AppNotification[]) => void;
+
+const byNewest = (a: AppNotification, b: AppNotification): number =>
+  Date.parse(b.created_at) - Date.parse(a.created_at);
+
+const isLocalOnly = (notification: AppNotification): boolean =>
+  notification.id.startsWith(LOCAL_ID_PREFIX);
+
+const startOfDay = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Groups notifications for display: notifications sharing a group key are
+ * collapsed into one group, and groups are split into Today, Yesterday and
+ * Earlier by their newest notification
+ */
+export const groupNotifications = (notifications: AppNotification[], now: Date = new Date()): NotificationSection[] => {
+  const groups = new Map<string, AppNotification[]>();
+  [...notifications].sort(byNewest).forEach(notification => {
+    const key = notification.group_key || notification.id;
+    groups.set(key, [...(groups.get(key) || []), notification]);
+  });
+
+  const today = startOfDay(now);
+  const yesterday = today - 24 * 60 * 60 * 1000;
+  const sections: NotificationSection[] = [
+    { label: 'Today', groups: [] },
+    { label: 'Yesterday', groups: [] },
+    { label: 'Earlier', groups: [] },
+  ];
+
+  groups.forEach((items, key) => {
+    const latest = items[0];
+    const day = startOfDay(new Date(latest.created_at));
+    const section = day >= today ? sections[0] : day >= yesterday ? sections[1] : sections[2];
+    section.groups.push({
+      key,
+      latest,
+      notifications: items,
+      unreadCount: items.filter(item => !item.read_at).length,
+    });
+  });
+
+  return sections.filter(section => section.groups.length > 0);
+};
+
+class NotificationInboxService {
+  private listeners: Set<InboxListener>;
+  private notifications: AppNotification[];
+  private userId: string | null;
+  private realtime: RealtimeCache<AppNotification>;
+
+  constructor() {
+    this.listeners = new Set();
+    this.notifications = getLocalData<AppNotification[]>(INBOX_KEY, []);
+    this.userId = null;
+    this.realtime = createRealtimeCache({
+      table: 'notifications',
+      getItems: () => this.notifications,
+      setItems: notifications => this.setNotifications(notifications),
+    });
+  }
+
+  subscribe(listener: InboxListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getNotifications(): AppNotification[] {
+    return this.notifications;
+  }
+
+  getUnreadCount(): number {
+    return this.notifications.filter(notification => !notification.read_at).length;
+  }
+
+  private setNotifications(notifications: AppNotification[]): void {
+    this.notifications = [...notifications].sort(byNewest).slice(0, MAX_INBOX_ITEMS);
+    saveLocalData(INBOX_KEY, this.notifications);
+    this.listeners.forEach(listener => listener(this.notifications));
+  }
+
+  // Load the user's notifications, keeping any that only exist on this device
+  async initialize(userId: string): Promise<AppNotification[]> {
+    this.userId = userId;
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(MAX_INBOX_ITEMS);
+      if (error) throw error;
+
+      this.setNotifications([...this.notifications.filter(isLocalOnly), ...(data || [])]);
+    } catch (error) {
+      logger.error('Error loading notifications:', error);
+    }
+    return this.notifications;
+  }
+
+  /**
+   * Adds a notification. A notification whose source key was already used
+   * is skipped, so producers running on several devices don't duplicate it.
+   *
+   * @returns The created notification, or null when it already existed
+   */
+  async notify(notification: NewNotification, userId: string | null = this.userId): Promise<AppNotification | null> {
+    if (notification.source_key && this.notifications.some(existing => existing.source_key === notification.source_key)) {
+      return null;
+    }
+
+    if (userId) {
+      try {
+        const row: AppNotificationInsert = { ...notification, user_id: userId };
+        const { data, error } = notification.source_key
+          ? await supabase
+            .from('notifications')
+            .upsert(row, { onConflict: 'user_id,source_key', ignoreDuplicates: true })
+            .select()
+          : await supabase.from('notifications').insert(row).select();
+        if (error) throw error;
+
+        const created = data?.[0];
+        if (!created) return null;
+        this.realtime.addItem(created);
+        return created;
+      } catch (error) {
+        logger.warn('Could not store notification, keeping it on this device', { error });
+      }
+    }
+
+    const local: AppNotification = {
+      ...notification,
+      id: generateUniqueId(LOCAL_ID_PREFIX),
+      user_id: userId || '',
+      read_at: null,
+      created_at: new Date().toISOString(),
+    };
+    this.setNotifications([local, ...this.notifications]);
+    return local;
+  }
+
+  async markRead(ids: string[]): Promise<void> {
+    const readAt = new Date().toISOString();
+    const unread = this.notifications.filter(notification => ids.includes(notification.id) && !notification.read_at);
+    if (unread.length === 0) return;
+
+    this.setNotifications(this.notifications.map(notification =>
+      unread.includes(notification) ? { ...notification, read_at: readAt, updated_at: readAt } : notification
+    ));
+
+    const serverIds = unread.filter(notification => !isLocalOnly(notification)).map(notification => notification.id);
+    if (serverIds.length === 0) return;
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt, updated_at: readAt })
+        .in('id', serverIds);
+      if (error) throw error;
+    } catch (error) {
+      logger.error('Error marking notifications as read:', error);
+    }
+  }
+
+  async markAllRead(): Promise<void> {
+    await this.markRead(this.notifications.map(notification => notification.id));
+  }
+
+  async remove(id: string): Promise<void> {
+    const notification = this.notifications.find(existing => existing.id === id);
+    if (!notification) return;
+
+    this.setNotifications(this.notifications.filter(existing => existing.id !== id));
+    if (isLocalOnly(notification)) return;
+    try {
+      const { error } = await supabase.from('notifications').delete().eq('id', id);
+      if (error) throw error;
+    } catch (error) {
+      logger.error('Error deleting notification:', error);
+    }
+  }
+
+  // Keep the inbox in step with notifications created or read on other devices
+  startRealtime(userId: string, transport?: RealtimeTransport): void {
+    this.realtime.start(userId, () => {
+      this.initialize(userId);
+    }, transport);
+  }
+
+  stopRealtime(): void {
+    this.realtime.stop();
+  }
+
+  applyRemoteChange(change: RealtimeChange): void {
+    this.realtime.applyChange(change);
+  }
+
+  // Clear the inbox, e.g. on logout
+  reset(): void {
+    this.stopRealtime();
+    this.userId = null;
+    this.setNotifications([]);
+  }
+}
+
+export const notificationInboxService = new NotificationInboxService();
+export default notificationInboxService;
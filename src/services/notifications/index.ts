@@ -0,0 +1,16 @@
+// Notifications: the cross-device inbox, Web Push subscriptions and delivery
+export type { NewNotification, NotificationGroup, NotificationSection } from './inboxService';
+export { INBOX_KEY, groupNotifications, notificationInboxService } from './inboxService';
+
+export {
+  isPushSupported,
+  registerServiceWorker,
+  subscribeToPush,
+  unsubscribeFromPush,
+  hasPushSubscription,
+  sendPushNotification,
+  listenForNotificationClicks,
+} from './pushSubscription';
+
+export type { PushMessage, StoredPushSubscription, PushDeliveryTarget, PushDeliveryReport } from './pushDelivery';
+export { readPushMessage, deliverPushMessage } from './pushDelivery';
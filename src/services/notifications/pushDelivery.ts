@@ -0,0 +1,81 @@
+// Delivers a push message to every device a user subscribed. Kept free of
+// browser and Supabase client imports so the send-push-notification Edge
+// Function runs it with the Web Push library, and tests with a fake sender.
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url?: string; // Deep link opened when the notification is clicked
+  tag?: string; // Replaces an earlier notification with the same tag
+}
+
+// A stored browser push subscription
+export interface StoredPushSubscription {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// Where subscriptions are read from and how messages are sent to them
+export interface PushDeliveryTarget {
+  listSubscriptions(userId: string): Promise<StoredPushSubscription[]>;
+  removeSubscriptions(ids: string[]): Promise<void>;
+  // Rejects with the push service's statusCode when it refuses the message
+  send(subscription: StoredPushSubscription, payload: string): Promise<void>;
+}
+
+export interface PushDeliveryReport {
+  sent: number;
+  failed: number;
+  removed: number; // Subscriptions the push service reported as expired
+}
+
+// Push services answer these for subscriptions that no longer exist
+const GONE_STATUS_CODES = [404, 410];
+
+/**
+ * Checks a request body and returns the message in it, or null when it has
+ * no title
+ */
+export const readPushMessage = (body: Record<string, unknown>): PushMessage | null => {
+  const text = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+  const title = text(body.title);
+  if (!title) return null;
+  return { title, body: text(body.body) || '', url: text(body.url), tag: text(body.tag) };
+};
+
+/**
+ * Sends the message to all of the user's subscriptions, in the shape the
+ * service worker reads, and removes subscriptions that have expired
+ */
+export const deliverPushMessage = async (
+  userId: string,
+  message: PushMessage,
+  target: PushDeliveryTarget
+): Promise<PushDeliveryReport> => {
+  const subscriptions = await target.listSubscriptions(userId);
+  const payload = JSON.stringify(message);
+  const report: PushDeliveryReport = { sent: 0, failed: 0, removed: 0 };
+  const gone: string[] = [];
+
+  await Promise.all(subscriptions.map(async subscription => {
+    try {
+      await target.send(subscription, payload);
+      report.sent++;
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number } | null)?.statusCode;
+      if (statusCode !== undefined && GONE_STATUS_CODES.includes(statusCode)) {
+        gone.push(subscription.id);
+      } else {
+        report.failed++;
+      }
+    }
+  }));
+
+  if (gone.length > 0) {
+    await target.removeSubscriptions(gone);
+    report.removed = gone.length;
+  }
+  return report;
+};
@@ -0,0 +1,153 @@
+// Web Push: the service worker, this browser's push subscription, and sending
+// through the Supabase function so notifications reach every subscribed device
+import { supabase } from '../supabaseClient';
+import { pushConfig } from '../../config';
+import { logger } from '../../utils/logger';
+import { openDeepLink, readDeepLink } from '../../utils/deepLinks';
+import type { PushMessage } from './pushDelivery';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+
+// Message the service worker posts when a notification is clicked while the app is open
+interface NotificationClickMessage {
+  type: 'notification-click';
+  url: string;
+}
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+// The VAPID key is base64url, the push manager wants raw bytes
+const decodeVapidKey = (key: string): ArrayBuffer => {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0)).buffer;
+};
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isPushSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    logger.error('Error registering service worker:', error);
+    return null;
+  }
+};
+
+/**
+ * Subscribes this browser to push notifications and stores the subscription
+ * so the server can reach it. Asks for notification permission if needed.
+ *
+ * @returns Whether the browser is subscribed
+ */
+export const subscribeToPush = async (userId: string): Promise<boolean> => {
+  if (!isPushSupported() || !pushConfig.vapidPublicKey) return false;
+
+  try {
+    const permission = Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission;
+    if (permission !== 'granted') return false;
+
+    const registration = await registerServiceWorker();
+    if (!registration) return false;
+
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeVapidKey(pushConfig.vapidPublicKey),
+      });
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys?.auth) return false;
+
+    const { error } = await supabase.from('push_subscriptions').upsert({
+      user_id: userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: navigator.userAgent,
+    }, { onConflict: 'endpoint' });
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    logger.error('Error subscribing to push notifications:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes this browser's push subscription, here and on the server
+ */
+export const unsubscribeFromPush = async (userId: string): Promise<void> => {
+  if (!isPushSupported()) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', userId)
+      .eq('endpoint', subscription.endpoint);
+    if (error) throw error;
+    await subscription.unsubscribe();
+  } catch (error) {
+    logger.error('Error unsubscribing from push notifications:', error);
+  }
+};
+
+/**
+ * Whether any of the user's devices is subscribed to push notifications
+ */
+export const hasPushSubscription = async (userId: string): Promise<boolean> => {
+  try {
+    const { count, error } = await supabase
+      .from('push_subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  } catch (error) {
+    logger.error('Error checking push subscriptions:', error);
+    return false;
+  }
+};
+
+/**
+ * Sends a push notification to all of the user's subscribed devices
+ *
+ * @returns Whether the server accepted the message
+ */
+export const sendPushNotification = async (userId: string, message: PushMessage): Promise<boolean> => {
+  const { error } = await supabase.functions.invoke('send-push-notification', {
+    body: { user_id: userId, ...message },
+  });
+  if (error) {
+    logger.error('Error calling send-push-notification function:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Opens the deep link of notifications clicked while the app is already open
+ *
+ * @returns Function that removes the listener
+ */
+export const listenForNotificationClicks = (): (() => void) => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent<NotificationClickMessage>): void => {
+    if (event.data?.type !== 'notification-click') return;
+    const target = readDeepLink(new URL(event.data.url, window.location.origin).search);
+    if (target) openDeepLink(target);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,27 @@
+// Realtime updates of cached data from Supabase Postgres changes
+export type {
+  RealtimeEventType,
+  RealtimeChannelStatus,
+  RealtimeRow,
+  RealtimeChange,
+  RealtimeChannelOptions,
+  RealtimeChannelHandle,
+  RealtimeTransport,
+} from './realtimeChannel';
+export { supabaseRealtimeTransport } from './realtimeChannel';
+
+export type {
+  TableSubscriptionOptions,
+  TableSubscription,
+  CachedTable,
+  RealtimeCacheOptions,
+  RealtimeCache,
+} from './tableSubscription';
+export {
+  subscribeToTable,
+  createRealtimeCache,
+  createSyncedRealtimeCache,
+  getRetryDelay,
+  applyRealtimeChange,
+  applyTableChange,
+} from './tableSubscription';
@@ -0,0 +1,60 @@
+// Minimal channel interface over Supabase Realtime, so the services can be
+// driven by a fake channel in tests
+import { supabase } from '../supabaseClient';
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type RealtimeChannelStatus = 'SUBSCRIBED' | 'CHANNEL_ERROR' | 'TIMED_OUT' | 'CLOSED';
+
+export type RealtimeRow = Record<string, unknown> & { id?: string };
+
+// One Postgres change, in the server shape of the table
+export interface RealtimeChange {
+  eventType: RealtimeEventType;
+  table: string;
+  new: RealtimeRow;
+  old: RealtimeRow; // Only carries the primary key unless the table has full replica identity
+}
+
+export interface RealtimeChannelOptions {
+  table: string;
+  userId: string;
+  onChange: (change: RealtimeChange) => void;
+  onStatus: (status: RealtimeChannelStatus, error?: Error) => void;
+}
+
+export interface RealtimeChannelHandle {
+  close(): void;
+}
+
+export interface RealtimeTransport {
+  open(options: RealtimeChannelOptions): RealtimeChannelHandle;
+}
+
+/**
+ * Transport backed by the app's Supabase client. Listens to every change of
+ * the user's rows in one table.
+ */
+export const supabaseRealtimeTransport: RealtimeTransport = {
+  open({ table, userId, onChange, onStatus }) {
+    const channel = supabase
+      .channel(`realtime_${table}_${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+        payload => onChange({
+          eventType: payload.eventType,
+          table,
+          new: payload.new as RealtimeRow,
+          old: payload.old as RealtimeRow,
+        })
+      )
+      .subscribe((status, error) => onStatus(status as RealtimeChannelStatus, error));
+
+    return {
+      close: () => {
+        supabase.removeChannel(channel);
+      },
+    };
+  },
+};
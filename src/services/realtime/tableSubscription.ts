@@ -0,0 +1,257 @@
+// Keeps a realtime channel for one table open, reconnecting with exponential
+// backoff, and patches cached lists with the changes it delivers
+import { logger } from '../../utils/logger';
+import { saveLocalData } from '../../utils/storageHelpers';
+import {
+  getSyncTableConfig,
+  markDeleted,
+  markSynced,
+  valuesEqual,
+  type SyncRecord,
+  type SyncTable,
+  type SyncTableConfig,
+} from '../sync';
+import {
+  supabaseRealtimeTransport,
+  type RealtimeChange,
+  type RealtimeChannelHandle,
+  type RealtimeChannelStatus,
+  type RealtimeTransport,
+} from './realtimeChannel';
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface TableSubscriptionOptions {
+  table: string;
+  userId: string;
+  onChange: (change: RealtimeChange) => void;
+  onReconnect?: () => void; // Called after a dropped channel is back, to catch up on missed changes
+  transport?: RealtimeTransport;
+}
+
+export interface TableSubscription {
+  stop(): void;
+}
+
+// A service's cached list of a synced table
+export interface CachedTable<T> {
+  table: SyncTable;
+  getItems: () => T[];
+  setItems: (items: T[]) => void; // Replaces the cached list and notifies listeners
+}
+
+export interface RealtimeCacheOptions<T> {
+  table: string;
+  getItems: () => T[];
+  setItems: (items: T[]) => void;
+  // Patches the list with a server change; by default rows are stored as they come
+  applyChange?: (change: RealtimeChange) => void;
+}
+
+// A service's cached list kept in step with changes made on other devices
+export interface RealtimeCache<T> {
+  start(userId: string, reload: () => void, transport?: RealtimeTransport): void;
+  stop(): void;
+  applyChange(change: RealtimeChange): void;
+  addItem(item: T): void; // Adds a row this client just created
+}
+
+/**
+ * Delay before the given reconnect attempt (0-based), doubling up to a cap
+ */
+export const getRetryDelay = (attempt: number): number =>
+  Math.min(INITIAL_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+
+/**
+ * Subscribes to changes of the user's rows in a table
+ *
+ * @returns Handle that closes the channel and cancels pending reconnects
+ */
+export const subscribeToTable = ({
+  table,
+  userId,
+  onChange,
+  onReconnect,
+  transport = supabaseRealtimeTransport,
+}: TableSubscriptionOptions): TableSubscription => {
+  let channel: RealtimeChannelHandle | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let hasDropped = false;
+  let stopped = false;
+
+  const scheduleReconnect = (): void => {
+    if (stopped || retryTimer) return;
+    const delay = getRetryDelay(attempt);
+    attempt += 1;
+    logger.warn(`Realtime channel for ${table} dropped, reconnecting in ${delay}ms`);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const handleStatus = (status: RealtimeChannelStatus, error?: Error): void => {
+    if (stopped) return;
+
+    if (status === 'SUBSCRIBED') {
+      attempt = 0;
+      if (hasDropped) {
+        hasDropped = false;
+        onReconnect?.();
+      }
+      return;
+    }
+
+    if (error) {
+      logger.warn(`Realtime channel for ${table} reported ${status}`, { error });
+    }
+    hasDropped = true;
+    channel?.close();
+    channel = null;
+    scheduleReconnect();
+  };
+
+  const connect = (): void => {
+    if (stopped) return;
+    try {
+      channel = transport.open({
+        table,
+        userId,
+        onChange: change => {
+          if (!stopped) onChange(change);
+        },
+        onStatus: handleStatus,
+      });
+    } catch (error) {
+      logger.warn(`Could not open realtime channel for ${table}`, { error });
+      hasDropped = true;
+      scheduleReconnect();
+    }
+  };
+
+  connect();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      channel?.close();
+      channel = null;
+    },
+  };
+};
+
+const isOlder = (a: unknown, b: unknown): boolean =>
+  typeof a === 'string' && typeof b === 'string' && Date.parse(a) < Date.parse(b);
+
+/**
+ * Applies a change to a cached list. Returns null when the list already
+ * reflects it, which is the case for echoes of this client's own writes, or
+ * when the change is older than the cached row.
+ *
+ * @param items - Cached list in the local shape
+ * @param change - Change in the server shape
+ * @param config - Conversion between the local and server shape
+ */
+export const applyRealtimeChange = <T extends { id: string }>(
+  items: T[],
+  change: RealtimeChange,
+  config: Pick<SyncTableConfig, 'toServer' | 'fromServer'>
+): T[] | null => {
+  if (change.eventType === 'DELETE') {
+    const id = change.old.id;
+    if (!id || !items.some(item => item.id === id)) return null;
+    return items.filter(item => item.id !== id);
+  }
+
+  const row = change.new as SyncRecord;
+  if (!row.id) return null;
+
+  const existing = items.find(item => item.id === row.id);
+  if (!existing) {
+    return [...items, config.fromServer(row) as unknown as T];
+  }
+
+  const cached = config.toServer(existing as unknown as Record<string, unknown>);
+  if (isOlder(row.updated_at, cached.updated_at)) return null;
+  if (Object.keys(row).every(field => valuesEqual(row[field], cached[field]))) return null;
+
+  const updated = config.fromServer(row, existing as unknown as SyncRecord) as unknown as T;
+  return items.map(item => (item.id === row.id ? updated : item));
+};
+
+/**
+ * Patches a service's cached list, its stored copy and the sync shadow with a
+ * change from the server
+ *
+ * @returns Whether the cache changed
+ */
+export const applyTableChange = <T extends { id: string }>(cache: CachedTable<T>, change: RealtimeChange): boolean => {
+  const config = getSyncTableConfig(cache.table);
+  const updated = applyRealtimeChange<T>(cache.getItems(), change, config);
+  if (!updated) return false;
+
+  saveLocalData(config.storageKey, updated);
+  if (change.eventType === 'DELETE') {
+    markDeleted(cache.table, change.old.id as string);
+  } else {
+    markSynced(cache.table, change.new);
+  }
+  cache.setItems(updated);
+  return true;
+};
+
+// Rows stored as they come from the server
+const identity = <T>(row: T): T => row;
+const identityConfig = { toServer: identity, fromServer: identity };
+
+/**
+ * Keeps a service's cached list in step with the server while started
+ */
+export const createRealtimeCache = <T extends { id: string }>({
+  table,
+  getItems,
+  setItems,
+  applyChange = change => {
+    const updated = applyRealtimeChange<T>(getItems(), change, identityConfig);
+    if (updated) setItems(updated);
+  },
+}: RealtimeCacheOptions<T>): RealtimeCache<T> => {
+  let subscription: TableSubscription | null = null;
+
+  const stop = (): void => {
+    subscription?.stop();
+    subscription = null;
+  };
+
+  return {
+    start: (userId, reload, transport) => {
+      stop();
+      // Changes made while the channel was down never arrive, so the list is reloaded
+      subscription = subscribeToTable({ table, userId, transport, onChange: applyChange, onReconnect: reload });
+    },
+    stop,
+    applyChange,
+    addItem: item => {
+      // The realtime echo of the insert may have arrived first
+      setItems([...getItems().filter(existing => existing.id !== item.id), item]);
+    },
+  };
+};
+
+/**
+ * A realtime cache of a synced table, which also keeps the stored copy and the
+ * sync shadow in step
+ */
+export const createSyncedRealtimeCache = <T extends { id: string }>(cache: CachedTable<T>): RealtimeCache<T> =>
+  createRealtimeCache({
+    ...cache,
+    applyChange: change => {
+      applyTableChange(cache, change);
+    },
+  });
@@ -0,0 +1,38 @@
+// Reminders: per-task offsets, quiet hours, the daily digest and delivery channels
+export type {
+  ReminderChannelId,
+  ReminderEmailType,
+  QuietHours,
+  QuietHoursSchedule,
+  ReminderPreferences,
+  SentReminder,
+  TaskReminder,
+  DigestReminder,
+  PlannedReminder,
+  ReminderPlanInput,
+} from './reminderPlanner';
+export {
+  DEFAULT_REMINDER_OFFSETS,
+  DEFAULT_DIGEST_TIME,
+  DIGEST_WINDOW_DAYS,
+  parseReminderOffset,
+  normalizeReminderOffset,
+  formatReminderOffset,
+  sortReminderOffsets,
+  getReminderPreferences,
+  resolveTaskOffsets,
+  getTaskDueAt,
+  isInQuietHours,
+  planReminders,
+} from './reminderPlanner';
+
+export type { ReminderMessage, ReminderChannel } from './reminderChannels';
+export {
+  formatReminderMessage,
+  registerReminderChannel,
+  getReminderChannel,
+  getReminderChannels,
+} from './reminderChannels';
+
+export type { ReminderRunReport } from './reminderScheduler';
+export { processReminders } from './reminderScheduler';
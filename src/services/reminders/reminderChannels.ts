@@ -0,0 +1,139 @@
+// Delivery channels for reminders. Each channel reports whether it delivered,
+// so only delivered reminders are logged and the rest are retried next run.
+import { supabase } from '../supabaseClient';
+import type { NotificationSettings } from '../../types/database';
+import { logger } from '../../utils/logger';
+import { formatReminderOffset, type PlannedReminder, type ReminderChannelId } from './reminderPlanner';
+import { buildDeepLink } from '../../utils/deepLinks';
+import { notificationInboxService, hasPushSubscription, sendPushNotification } from '../notifications';
+
+export interface ReminderMessage {
+  title: string;
+  body: string;
+}
+
+export interface ReminderChannel {
+  id: ReminderChannelId;
+  label: string;
+  send: (userId: string, reminder: PlannedReminder, settings: NotificationSettings) => Promise<boolean>;
+}
+
+const formatDue = (dueDate?: string, dueTime?: string): string =>
+  dueTime ? `${dueDate} ${dueTime}` : `${dueDate}`;
+
+export const formatReminderMessage = (reminder: PlannedReminder): ReminderMessage => {
+  if (reminder.kind === 'digest') {
+    return {
+      title: `${reminder.tasks.length} ${reminder.tasks.length === 1 ? 'task' : 'tasks'} due this week`,
+      body: reminder.tasks.map(task => `${task.title} (${formatDue(task.dueDate, task.dueTime)})`).join('\n'),
+    };
+  }
+
+  return {
+    title: reminder.emailType === 'urgent_deadline' ? `Due soon: ${reminder.task.title}` : `Reminder: ${reminder.task.title}`,
+    body: `Due ${formatDue(reminder.task.dueDate, reminder.task.dueTime)} (${formatReminderOffset(reminder.offset)})`,
+  };
+};
+
+const emailChannel: ReminderChannel = {
+  id: 'email',
+  label: 'Email',
+  async send(userId, reminder) {
+    const body = reminder.kind === 'digest'
+      ? {
+        user_id: userId,
+        email_type: 'digest',
+        reminder_offset: reminder.offset,
+        tasks: reminder.tasks.map(task => ({
+          task_id: task.id,
+          task_title: task.title,
+          task_class: task.class,
+          due_date: task.dueDate,
+          due_time: task.dueTime,
+          priority: task.priority,
+        })),
+      }
+      : {
+        user_id: userId,
+        task_id: reminder.task.id,
+        email_type: reminder.emailType,
+        reminder_offset: reminder.offset,
+        task_title: reminder.task.title,
+        task_class: reminder.task.class,
+        due_date: reminder.task.dueDate,
+        due_time: reminder.task.dueTime,
+        priority: reminder.task.priority,
+      };
+
+    const { error } = await supabase.functions.invoke('send-email-notification', { body });
+    if (error) {
+      logger.error('Error calling send-email-notification function:', error);
+      return false;
+    }
+    return true;
+  },
+};
+
+const getReminderTag = (reminder: PlannedReminder): string =>
+  reminder.kind === 'digest' ? reminder.offset : `${reminder.task.id}:${reminder.offset}`;
+
+// Pushed to every subscribed device when the user has any; otherwise shown
+// in this browser only, through the service worker when one is registered
+const pushChannel: ReminderChannel = {
+  id: 'push',
+  label: 'Browser notifications',
+  async send(userId, reminder) {
+    const { title, body } = formatReminderMessage(reminder);
+    const tag = getReminderTag(reminder);
+
+    if (await hasPushSubscription(userId)) {
+      return sendPushNotification(userId, {
+        title,
+        body,
+        tag,
+        url: reminder.kind === 'task' ? buildDeepLink({ type: 'task', id: reminder.task.id }) : undefined,
+      });
+    }
+
+    if (typeof window === 'undefined' || !('Notification' in window) || Notification.permission !== 'granted') {
+      return false;
+    }
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, tag });
+    } else {
+      new Notification(title, { body, tag });
+    }
+    return true;
+  },
+};
+
+const inAppChannel: ReminderChannel = {
+  id: 'in_app',
+  label: 'In-app inbox',
+  async send(userId, reminder) {
+    await notificationInboxService.notify({
+      ...formatReminderMessage(reminder),
+      kind: reminder.emailType === 'urgent_deadline' ? 'deadline' : 'reminder',
+      task_id: reminder.kind === 'task' ? reminder.task.id : null,
+      group_key: reminder.kind === 'digest' ? 'digest' : null,
+      source_key: `reminder:${getReminderTag(reminder)}`,
+    }, userId);
+    return true;
+  },
+};
+
+const channels = new Map<ReminderChannelId, ReminderChannel>(
+  [emailChannel, pushChannel, inAppChannel].map(channel => [channel.id, channel])
+);
+
+/**
+ * Registers a channel, replacing the built-in one with the same id
+ */
+export const registerReminderChannel = (channel: ReminderChannel): void => {
+  channels.set(channel.id, channel);
+};
+
+export const getReminderChannel = (id: ReminderChannelId): ReminderChannel | undefined => channels.get(id);
+
+export const getReminderChannels = (): ReminderChannel[] => Array.from(channels.values());
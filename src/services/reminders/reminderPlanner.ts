@@ -0,0 +1,258 @@
+// Decides which reminders are due: offsets resolved per task, quiet hours by
+// weekday, the morning digest, and catch-up for runs that started late.
+// Deadlines, quiet hours and the digest time are read in the user's time zone,
+// not the one the reminder run happens to execute in.
+import type { NotificationSettings, Task, TaskType } from '../../types/database';
+import {
+  formatDateInTimeZone,
+  getUserTimeZone,
+  getWallClockTime,
+  normalizeTimeZoneId,
+  wallClockToDate,
+} from '../../utils/timezoneHelpers';
+
+export type ReminderChannelId = 'email' | 'push' | 'in_app';
+
+export type ReminderEmailType = 'assignment_reminder' | 'urgent_deadline' | 'digest';
+
+// Times are 'HH:MM'; a window whose end is before its start runs past midnight
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// Keyed by weekday, 0 = Sunday
+export type QuietHoursSchedule = Record<number, QuietHours>;
+
+export interface ReminderPreferences {
+  offsets: string[];
+  channels: ReminderChannelId[];
+  quietHours: QuietHoursSchedule;
+  digestEnabled: boolean;
+  digestTime: string;
+  timeZone: string; // IANA zone that due times, quiet hours and the digest time are in
+}
+
+export interface SentReminder {
+  taskId: string | null;
+  offset: string;
+  channel: string;
+}
+
+export interface TaskReminder {
+  kind: 'task';
+  channel: ReminderChannelId;
+  emailType: ReminderEmailType;
+  task: Task;
+  offset: string; // The offset the message is worded for
+  coveredOffsets: string[]; // Every offset this message settles, logged once each
+  dueAt: Date;
+}
+
+export interface DigestReminder {
+  kind: 'digest';
+  channel: ReminderChannelId;
+  emailType: 'digest';
+  offset: string; // 'digest:YYYY-MM-DD', so each day's digest is logged once
+  tasks: Task[];
+}
+
+export type PlannedReminder = TaskReminder | DigestReminder;
+
+export interface ReminderPlanInput {
+  tasks: Task[];
+  taskTypes: TaskType[];
+  preferences: ReminderPreferences;
+  sent: SentReminder[];
+  now: Date;
+}
+
+export const DEFAULT_REMINDER_OFFSETS = ['7d', '3d', '1d', '2h'];
+export const DEFAULT_DIGEST_TIME = '07:00';
+export const DIGEST_WINDOW_DAYS = 7;
+
+const OFFSET_UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+const OFFSET_UNIT_NAMES: Record<string, string> = { m: 'minute', h: 'hour', d: 'day', w: 'week' };
+
+// Reminders at least this far ahead are folded into the digest when it is on
+const DIGEST_OFFSET_MINUTES = 24 * 60;
+// Reminders this close to the deadline are worded as urgent
+const URGENT_OFFSET_MINUTES = 2 * 60;
+
+/**
+ * Parses an offset such as '30m', '2h', '3d' or '1w' into minutes
+ * @returns Minutes before the deadline, or null when the offset isn't valid
+ */
+export const parseReminderOffset = (offset: string): number | null => {
+  const match = offset.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/);
+  if (!match) return null;
+  const amount = parseInt(match[1], 10);
+  return amount > 0 ? amount * OFFSET_UNIT_MINUTES[match[2]] : null;
+};
+
+/**
+ * Normalizes an offset typed by the user ('3 D' → '3d')
+ */
+export const normalizeReminderOffset = (offset: string): string | null => {
+  const match = offset.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/);
+  return match && parseInt(match[1], 10) > 0 ? `${parseInt(match[1], 10)}${match[2]}` : null;
+};
+
+export const formatReminderOffset = (offset: string): string => {
+  const match = offset.match(/^(\d+)([mhdw])$/);
+  if (!match) return offset;
+  const amount = parseInt(match[1], 10);
+  return `${amount} ${OFFSET_UNIT_NAMES[match[2]]}${amount === 1 ? '' : 's'} before`;
+};
+
+export const sortReminderOffsets = (offsets: string[]): string[] =>
+  [...offsets].sort((a, b) => (parseReminderOffset(b) ?? 0) - (parseReminderOffset(a) ?? 0));
+
+/**
+ * Builds reminder preferences from the stored settings. Accounts that only
+ * have the older active hours get them as quiet hours on every day.
+ */
+export const getReminderPreferences = (settings: NotificationSettings): ReminderPreferences => {
+  const channels = settings.channels
+    ? settings.channels.filter(channel => channel !== 'email' || settings.email_enabled)
+    : settings.email_enabled ? ['email' as const] : [];
+
+  let quietHours: QuietHoursSchedule = settings.quiet_hours || {};
+  if (!settings.quiet_hours && settings.active_hours_start !== undefined && settings.active_hours_end !== undefined) {
+    const window: QuietHours = {
+      start: `${String((settings.active_hours_end + 1) % 24).padStart(2, '0')}:00`,
+      end: `${String(settings.active_hours_start).padStart(2, '0')}:00`,
+    };
+    quietHours = Object.fromEntries([0, 1, 2, 3, 4, 5, 6].map(day => [day, window]));
+  }
+
+  return {
+    offsets: settings.notification_times?.length ? settings.notification_times : DEFAULT_REMINDER_OFFSETS,
+    channels,
+    quietHours,
+    digestEnabled: Boolean(settings.digest_enabled),
+    digestTime: settings.digest_time || DEFAULT_DIGEST_TIME,
+    timeZone: normalizeTimeZoneId(settings.time_zone) || getUserTimeZone(),
+  };
+};
+
+/**
+ * Offsets for a task: its own override, else its task type's, else the
+ * account default. An empty override turns reminders off.
+ */
+export const resolveTaskOffsets = (task: Task, taskTypes: TaskType[], defaults: string[]): string[] => {
+  if (task.reminder_offsets) return task.reminder_offsets;
+  const taskType = taskTypes.find(type => type.id === task.type);
+  if (taskType?.reminder_offsets) return taskType.reminder_offsets;
+  return defaults;
+};
+
+/**
+ * The instant a task is due, reading its date and time as wall-clock time in
+ * the user's time zone
+ */
+export const getTaskDueAt = (task: Task, timeZone: string): Date | null => {
+  const date = task.dueDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!date) return null;
+  const time = (task.dueTime || '23:59:59').match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!time) return null;
+
+  const [year, month, day] = date.slice(1).map(part => parseInt(part, 10));
+  const [hour, minute, second] = time.slice(1).map(part => parseInt(part || '0', 10));
+  return wallClockToDate({ year, month, day, hour, minute, second }, timeZone);
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Minutes since midnight and weekday (0 = Sunday) of an instant in a time zone
+const getLocalClock = (date: Date, timeZone: string): { minutes: number; weekday: number } => {
+  const wall = getWallClockTime(date, timeZone);
+  return {
+    minutes: wall.hour * 60 + wall.minute,
+    weekday: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay(),
+  };
+};
+
+/**
+ * Whether the time falls in that weekday's quiet hours in the user's time
+ * zone, including a window that started the evening before and runs past midnight
+ */
+export const isInQuietHours = (date: Date, schedule: QuietHoursSchedule, timeZone: string): boolean => {
+  const { minutes, weekday } = getLocalClock(date, timeZone);
+  const today = schedule[weekday];
+  const yesterday = schedule[(weekday + 6) % 7];
+
+  if (today) {
+    const start = toMinutes(today.start);
+    const end = toMinutes(today.end);
+    if (start <= end ? minutes >= start && minutes < end : minutes >= start) return true;
+  }
+  if (yesterday) {
+    const start = toMinutes(yesterday.start);
+    const end = toMinutes(yesterday.end);
+    if (start > end && minutes < end) return true;
+  }
+  return false;
+};
+
+const sentKey = (channel: string, taskId: string | null, offset: string): string =>
+  `${channel}:${taskId ?? ''}:${offset}`;
+
+/**
+ * Lists the reminders to send now. Each offset is sent at most once per task
+ * and channel; when a run finds several offsets of a task already due, one
+ * message covers all of them. Nothing is sent during quiet hours, so those
+ * reminders go out on the first run afterwards.
+ */
+export const planReminders = ({ tasks, taskTypes, preferences, sent, now }: ReminderPlanInput): PlannedReminder[] => {
+  const { timeZone } = preferences;
+  if (preferences.channels.length === 0 || isInQuietHours(now, preferences.quietHours, timeZone)) return [];
+
+  const sentKeys = new Set(sent.map(record => sentKey(record.channel, record.taskId, record.offset)));
+  const openTasks = tasks
+    .filter(task => !task.completed)
+    .map(task => ({ task, dueAt: getTaskDueAt(task, timeZone) }))
+    .filter((entry): entry is { task: Task; dueAt: Date } => entry.dueAt !== null && entry.dueAt > now);
+  const planned: PlannedReminder[] = [];
+
+  preferences.channels.forEach(channel => {
+    openTasks.forEach(({ task, dueAt }) => {
+      const dueOffsets = resolveTaskOffsets(task, taskTypes, preferences.offsets)
+        .map(offset => ({ offset, minutes: parseReminderOffset(offset) }))
+        .filter((entry): entry is { offset: string; minutes: number } => entry.minutes !== null)
+        .filter(({ minutes }) => !preferences.digestEnabled || minutes < DIGEST_OFFSET_MINUTES)
+        .filter(({ minutes }) => dueAt.getTime() - minutes * 60 * 1000 <= now.getTime())
+        .filter(({ offset }) => !sentKeys.has(sentKey(channel, task.id, offset)))
+        .sort((a, b) => a.minutes - b.minutes);
+
+      if (dueOffsets.length === 0) return;
+      planned.push({
+        kind: 'task',
+        channel,
+        emailType: dueOffsets[0].minutes <= URGENT_OFFSET_MINUTES ? 'urgent_deadline' : 'assignment_reminder',
+        task,
+        offset: dueOffsets[0].offset,
+        coveredOffsets: dueOffsets.map(({ offset }) => offset),
+        dueAt,
+      });
+    });
+
+    if (preferences.digestEnabled && getLocalClock(now, timeZone).minutes >= toMinutes(preferences.digestTime)) {
+      const offset = `digest:${formatDateInTimeZone(now, timeZone)}`;
+      const windowEnd = now.getTime() + DIGEST_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const dueThisWeek = openTasks
+        .filter(({ dueAt }) => dueAt.getTime() <= windowEnd)
+        .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+        .map(({ task }) => task);
+
+      if (dueThisWeek.length > 0 && !sentKeys.has(sentKey(channel, null, offset))) {
+        planned.push({ kind: 'digest', channel, emailType: 'digest', offset, tasks: dueThisWeek });
+      }
+    }
+  });
+
+  return planned;
+};
@@ -0,0 +1,124 @@
+// Reminder run: loads a user's settings, open tasks and reminder log, sends
+// what the planner finds due and logs every settled offset
+import { supabase } from '../supabaseClient';
+import NotificationService from '../notificationService';
+import type { NotificationSettings, Task, TaskType } from '../../types/database';
+import { formatDateInTimeZone } from '../../utils/timezoneHelpers';
+import { logger } from '../../utils/logger';
+import {
+  getReminderPreferences,
+  parseReminderOffset,
+  planReminders,
+  type PlannedReminder,
+} from './reminderPlanner';
+import { formatReminderMessage, getReminderChannel } from './reminderChannels';
+
+export interface ReminderRunReport {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * How far back the reminder log has to be read: the largest offset in use,
+ * plus a day for the digest
+ */
+const getLogLookbackMinutes = (offsets: string[]): number =>
+  Math.max(0, ...offsets.map(offset => parseReminderOffset(offset) ?? 0)) + 24 * 60;
+
+const logDelivery = async (
+  userId: string,
+  reminder: PlannedReminder,
+  settings: NotificationSettings
+): Promise<void> => {
+  const subject = formatReminderMessage(reminder).title;
+  const offsets = reminder.kind === 'digest' ? [reminder.offset] : reminder.coveredOffsets;
+
+  for (const offset of offsets) {
+    await NotificationService.logSentNotification({
+      user_id: userId,
+      task_id: reminder.kind === 'task' ? reminder.task.id : null,
+      email_type: reminder.emailType,
+      reminder_offset: offset,
+      channel: reminder.channel,
+      email_address: settings.email_address,
+      subject,
+    });
+  }
+};
+
+/**
+ * Sends the reminders due for a user. Safe to run as often as wanted: each
+ * offset is logged once per task and channel, and a run that can't read the
+ * log sends nothing.
+ */
+export const processReminders = async (userId: string, now: Date = new Date()): Promise<ReminderRunReport> => {
+  const report: ReminderRunReport = { sent: 0, failed: 0 };
+
+  try {
+    const settings = await NotificationService.getNotificationSettings(userId);
+    if (!settings) return report;
+
+    const preferences = getReminderPreferences(settings);
+    if (preferences.channels.length === 0) return report;
+
+    const [tasksResult, taskTypesResult] = await Promise.all([
+      supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('completed', false)
+        .not('dueDate', 'is', null)
+        .gte('dueDate', formatDateInTimeZone(now, preferences.timeZone)),
+      supabase
+        .from('task_types')
+        .select('*')
+        .eq('user_id', userId),
+    ]);
+    if (tasksResult.error) throw tasksResult.error;
+    if (taskTypesResult.error) throw taskTypesResult.error;
+
+    const tasks = (tasksResult.data || []) as Task[];
+    const taskTypes = (taskTypesResult.data || []) as TaskType[];
+    const offsetsInUse = [
+      ...preferences.offsets,
+      ...tasks.flatMap(task => task.reminder_offsets || []),
+      ...taskTypes.flatMap(type => type.reminder_offsets || []),
+    ];
+    const since = new Date(now.getTime() - getLogLookbackMinutes(offsetsInUse) * 60 * 1000);
+    const sentLog = await NotificationService.getSentReminders(userId, since);
+
+    const planned = planReminders({
+      tasks,
+      taskTypes,
+      preferences,
+      sent: sentLog.map(record => ({
+        taskId: record.task_id,
+        offset: record.reminder_offset || '',
+        channel: record.channel || 'email',
+      })),
+      now,
+    });
+
+    for (const reminder of planned) {
+      const channel = getReminderChannel(reminder.channel);
+      if (!channel) continue;
+
+      try {
+        const delivered = await channel.send(userId, reminder, settings);
+        if (!delivered) {
+          report.failed++;
+          continue;
+        }
+        await logDelivery(userId, reminder, settings);
+        report.sent++;
+      } catch (error) {
+        logger.error(`[processReminders] Error sending ${reminder.channel} reminder:`, error);
+        report.failed++;
+      }
+    }
+  } catch (error) {
+    logger.error('[processReminders] Error:', error);
+  }
+
+  return report;
+};
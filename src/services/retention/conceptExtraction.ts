@@ -0,0 +1,54 @@
+// Picks the topics out of a syllabus' course schedule, to review as concepts
+
+// A schedule row: "Week 3: Recursion", "Lecture 12 - Graphs", "Unit 2. Cells"
+const SCHEDULE_ROW = /^\s*(?:week|wk|lecture|lec|module|unit|chapter|ch|topic|session|class|day)\.?\s*\d+[a-z]?\s*(?:\([^)]*\)\s*)?(?:[:.)\-–—|]\s*)+(.+)$/i;
+
+// A list of topics: "Topics: sorting, searching" or "Topics covered - ..."
+const TOPIC_LIST = /^\s*(?:main\s+)?topics?(?:\s+covered)?\s*[:\-–—]\s*(.+)$/i;
+
+// Schedule entries that are events rather than topics
+const NOT_A_TOPIC = /\b(exam|midterm|final|quiz|test|holiday|break|no class|cancel+ed|review|due|deadline|presentation|tba|tbd|introduction to the course|syllabus)\b/i;
+
+// A date leading a topic: "Sep 12 - Recursion", "9/12: Recursion"
+const LEADING_DATE = /^(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s*)?(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2}|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)\s*[:\-–—|]\s*/i;
+
+// Readings, dates and page references that trail a topic
+const TRAILING_NOTES = /\s*(?:\((?:ch|chapter|pp?|pages?|sec|section|reading)\b[^)]*\)|[-–—|]\s*(?:read(?:ing)?|ch(?:apter)?|pp?\.?)\b.*|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2}\b.*|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?.*)$/i;
+
+const MIN_LENGTH = 3;
+const MAX_LENGTH = 80;
+
+// Long syllabi are capped so the review plan stays manageable
+export const MAX_SYLLABUS_CONCEPTS = 40;
+
+const cleanTopic = (topic: string): string =>
+  topic
+    .replace(TRAILING_NOTES, '')
+    .replace(/^[\s\-–—•*:]+|[\s\-–—•*:.;,]+$/g, '')
+    .replace(/\s+/g, ' ');
+
+/**
+ * Concept names from the schedule rows and topic lists of a syllabus, in the
+ * order they're taught. Rows listing several topics are split on semicolons
+ * and commas; exams, breaks and other events are left out.
+ */
+export const extractSyllabusConcepts = (syllabusText: string): string[] => {
+  const seen = new Set<string>();
+  const concepts: string[] = [];
+
+  syllabusText.split(/\r?\n/).forEach(line => {
+    const match = line.match(SCHEDULE_ROW) || line.match(TOPIC_LIST);
+    if (!match) return;
+
+    match[1].replace(LEADING_DATE, '').split(/[;,]|\s+&\s+/).forEach(part => {
+      const topic = cleanTopic(part);
+      const key = topic.toLowerCase();
+      if (topic.length < MIN_LENGTH || topic.length > MAX_LENGTH) return;
+      if (NOT_A_TOPIC.test(topic) || !/[a-z]/i.test(topic) || seen.has(key)) return;
+      seen.add(key);
+      concepts.push(topic);
+    });
+  });
+
+  return concepts.slice(0, MAX_SYLLABUS_CONCEPTS);
+};
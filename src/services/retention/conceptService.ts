@@ -0,0 +1,268 @@
+// Study concepts and their review history. Stored in Supabase, with a local
+// copy so concepts can be added and reviewed offline and synced later.
+import { supabase } from '../supabaseClient';
+import { logger } from '../../utils/logger';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import { formatDateForInput } from '../../utils/dateHelpers';
+import { runOfflineFirst, isNetworkError, recordOperation, markSynced, markDeleted } from '../sync';
+import type { StudyConcept, ConceptReview } from '../../types/database';
+import { reviewConcept, type ReviewRating, type RetentionProfile } from './reviewEngine';
+
+export const CONCEPTS_KEY = 'study_concepts';
+export const CONCEPT_REVIEWS_KEY = 'concept_reviews';
+
+export interface NewConcept {
+  name: string;
+  classId?: string | null;
+  source: StudyConcept['source'];
+}
+
+type ConceptListener = () => void;
+
+const conceptKey = (name: string, classId?: string | null): string =>
+  `${classId || ''}:${name.trim().toLowerCase()}`;
+
+const upsertById = <T extends { id: string }>(rows: T[], row: T): T[] =>
+  rows.some(cached => cached.id === row.id)
+    ? rows.map(cached => (cached.id === row.id ? row : cached))
+    : [...rows, row];
+
+class ConceptService {
+  private listeners = new Set<ConceptListener>();
+
+  /**
+   * Listen for concepts being added, reviewed or deleted
+   */
+  subscribe(listener: ConceptListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getCachedConcepts(): StudyConcept[] {
+    return getLocalData<StudyConcept[]>(CONCEPTS_KEY, []);
+  }
+
+  private getCachedReviews(): ConceptReview[] {
+    return getLocalData<ConceptReview[]>(CONCEPT_REVIEWS_KEY, []);
+  }
+
+  /**
+   * Get a user's concepts
+   */
+  async getConcepts(userId: string): Promise<StudyConcept[]> {
+    try {
+      const { data, error } = await supabase
+        .from('study_concepts')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error('Failed to fetch study concepts:', error);
+        throw error;
+      }
+      return data || [];
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return this.getCachedConcepts().filter(concept => concept.user_id === userId);
+      }
+      logger.error('Error fetching study concepts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the review history of a user's concepts, oldest first
+   */
+  async getReviews(userId: string): Promise<ConceptReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('concept_reviews')
+        .select('*')
+        .eq('user_id', userId)
+        .order('reviewed_at', { ascending: true });
+
+      if (error) {
+        logger.error('Failed to fetch concept reviews:', error);
+        throw error;
+      }
+      return data || [];
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return this.getCachedReviews()
+          .filter(review => review.user_id === userId)
+          .sort((a, b) => a.reviewed_at.localeCompare(b.reviewed_at));
+      }
+      logger.error('Error fetching concept reviews:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add concepts, skipping any the class already has. New concepts can be
+   * scheduled from today.
+   */
+  async addConcepts(userId: string, concepts: NewConcept[]): Promise<StudyConcept[]> {
+    const existing = new Set((await this.getConcepts(userId)).map(concept => conceptKey(concept.name, concept.class_id)));
+    const now = new Date().toISOString();
+    const rows: StudyConcept[] = [];
+    concepts.forEach(concept => {
+      const key = conceptKey(concept.name, concept.classId);
+      if (!concept.name.trim() || existing.has(key)) return;
+      existing.add(key);
+      rows.push({
+        id: crypto.randomUUID(),
+        user_id: userId,
+        class_id: concept.classId || null,
+        name: concept.name.trim(),
+        source: concept.source,
+        stability: null,
+        difficulty: null,
+        reps: 0,
+        lapses: 0,
+        last_review: null,
+        due: formatDateForInput(new Date()),
+        created_at: now,
+        updated_at: now
+      });
+    });
+    if (rows.length === 0) return [];
+
+    try {
+      const { result, synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) return rows;
+
+        const { data, error } = await supabase
+          .from('study_concepts')
+          .insert(rows)
+          .select();
+
+        if (error) {
+          logger.error('Failed to create study concepts:', error);
+          throw error;
+        }
+        return (data || []) as StudyConcept[];
+      });
+
+      saveLocalData(CONCEPTS_KEY, result.reduce(upsertById, this.getCachedConcepts()));
+      result.forEach(concept => {
+        if (synced) {
+          markSynced('study_concepts', concept);
+        } else {
+          recordOperation('study_concepts', concept.id, 'upsert', { ...concept });
+        }
+      });
+
+      logger.info('Study concepts added:', result.length);
+      this.notify();
+      return result;
+    } catch (error) {
+      logger.error('Error adding study concepts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a review of a concept: updates its memory state and next due date
+   * and adds the review to its history
+   */
+  async recordReview(
+    concept: StudyConcept,
+    rating: ReviewRating,
+    profile?: RetentionProfile,
+    reviewedAt: Date = new Date()
+  ): Promise<StudyConcept | null> {
+    const { update, review } = reviewConcept(concept, rating, reviewedAt, profile);
+    const reviewData = { ...review, id: crypto.randomUUID(), created_at: reviewedAt.toISOString() };
+
+    try {
+      const { result, synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) return { ...concept, ...update } as StudyConcept;
+
+        const { error: reviewError } = await supabase
+          .from('concept_reviews')
+          .insert(reviewData);
+        if (reviewError) {
+          logger.error('Failed to save concept review:', reviewError);
+          throw reviewError;
+        }
+
+        const { data, error } = await supabase
+          .from('study_concepts')
+          .update(update)
+          .eq('id', concept.id)
+          .select()
+          .single();
+        if (error) {
+          logger.error('Failed to update study concept:', error);
+          throw error;
+        }
+        return data as StudyConcept;
+      });
+
+      saveLocalData(CONCEPTS_KEY, upsertById(this.getCachedConcepts(), result));
+      saveLocalData(CONCEPT_REVIEWS_KEY, upsertById(this.getCachedReviews(), reviewData as ConceptReview));
+      if (synced) {
+        markSynced('concept_reviews', reviewData);
+        markSynced('study_concepts', result);
+      } else {
+        recordOperation('concept_reviews', reviewData.id, 'upsert', { ...reviewData });
+        recordOperation('study_concepts', concept.id, 'upsert', { ...update });
+      }
+
+      this.notify();
+      return result;
+    } catch (error) {
+      logger.error('Error recording concept review:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a concept and its review history
+   */
+  async deleteConcept(id: string): Promise<boolean> {
+    const reviews = this.getCachedReviews();
+    try {
+      const { synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) return;
+
+        const { error } = await supabase
+          .from('study_concepts')
+          .delete()
+          .eq('id', id);
+
+        if (error) {
+          logger.error('Failed to delete study concept:', error);
+          throw error;
+        }
+      });
+
+      saveLocalData(CONCEPTS_KEY, this.getCachedConcepts().filter(concept => concept.id !== id));
+      saveLocalData(CONCEPT_REVIEWS_KEY, reviews.filter(review => review.concept_id !== id));
+      reviews.filter(review => review.concept_id === id).forEach(review => {
+        if (synced) {
+          markDeleted('concept_reviews', review.id);
+        } else {
+          recordOperation('concept_reviews', review.id, 'delete', {});
+        }
+      });
+      if (synced) {
+        markDeleted('study_concepts', id);
+      } else {
+        recordOperation('study_concepts', id, 'delete', {});
+      }
+
+      this.notify();
+      return true;
+    } catch (error) {
+      logger.error('Error deleting study concept:', error);
+      return false;
+    }
+  }
+}
+
+export const conceptService = new ConceptService();
@@ -0,0 +1,36 @@
+// Spaced repetition: concepts, the review engine and retention analytics
+export type { ReviewRating, RetentionProfile, MemoryState, MemoryUpdate, ConceptReviewResult } from './reviewEngine';
+export {
+  REVIEW_RATINGS,
+  TARGET_RETENTION,
+  MAX_INTERVAL_DAYS,
+  getRetrievability,
+  getIntervalDays,
+  reviewMemory,
+  reviewConcept,
+  getConceptRecall,
+} from './reviewEngine';
+
+export {
+  REVIEW_MINUTES,
+  NEW_CONCEPT_MINUTES,
+  NEW_CONCEPTS_PER_DAY,
+  REVIEW_WINDOW_DAYS,
+  getReviewDemands,
+} from './reviewPlanner';
+
+export type { RetentionDay, RetentionTrend, ClassRetentionSummary } from './retentionHistory';
+export {
+  FORGETTING_CURVE_BUCKETS,
+  isRecalled,
+  getObservedForgettingCurve,
+  getPredictedForgettingCurve,
+  getRetentionTimeline,
+  getConceptRetention,
+  summarizeClassRetention,
+} from './retentionHistory';
+
+export { MAX_SYLLABUS_CONCEPTS, extractSyllabusConcepts } from './conceptExtraction';
+
+export type { NewConcept } from './conceptService';
+export { CONCEPTS_KEY, CONCEPT_REVIEWS_KEY, conceptService } from './conceptService';
@@ -0,0 +1,168 @@
+// Retention analytics from the review history: how recall actually fell off
+// with time, how each concept and class is holding up, and what needs work
+import type { StudyConcept, ConceptReview } from '../../types/database';
+import type { ConceptRetention, ForgettingCurvePoint } from '../../types/studySchedule';
+import { formatDateForInput } from '../../utils/dateHelpers';
+import { shiftDateString } from '../../utils/recurringTaskHelpers';
+import { getConceptRecall, getRetrievability } from './reviewEngine';
+
+export interface RetentionDay {
+  date: string; // YYYY-MM-DD
+  reviews: number;
+  recalled: number;
+  recallRate: number | null; // Null on days without reviews
+}
+
+export type RetentionTrend = 'up' | 'down' | 'stable';
+
+export interface ClassRetentionSummary {
+  classId: string;
+  conceptCount: number;
+  dueCount: number; // Due today or overdue
+  averageRecall: number | null; // Predicted recall now, over reviewed concepts
+  recallRate: number | null; // Share of reviews in the period that were recalled
+  strugglingConcepts: string[];
+  trend: RetentionTrend;
+}
+
+// Days since the previous review are grouped into these ranges for the curve
+export const FORGETTING_CURVE_BUCKETS: [number, number][] = [
+  [1, 1], [2, 2], [3, 4], [5, 7], [8, 14], [15, 30], [31, Infinity],
+];
+
+// A concept is struggling when it keeps being forgotten or recall is this low
+const STRUGGLING_RECALL = 0.7;
+const STRUGGLING_LAPSES = 2;
+const MAX_STRUGGLING = 5;
+
+// Change in recall rate, week over week, that counts as a trend
+const TREND_THRESHOLD = 0.05;
+
+export const isRecalled = (review: Pick<ConceptReview, 'rating'>): boolean => review.rating > 1;
+
+const recallRate = (reviews: ConceptReview[]): number | null =>
+  reviews.length > 0 ? reviews.filter(isRecalled).length / reviews.length : null;
+
+const reviewDate = (review: ConceptReview): string => formatDateForInput(new Date(review.reviewed_at));
+
+/**
+ * The forgetting curve as observed: for repeat reviews, the share recalled by
+ * how many days had passed since the previous review
+ */
+export const getObservedForgettingCurve = (reviews: ConceptReview[]): ForgettingCurvePoint[] =>
+  FORGETTING_CURVE_BUCKETS.flatMap(([min, max]) => {
+    const inBucket = reviews.filter(review =>
+      review.retrievability !== null && review.retrievability !== undefined &&
+      review.elapsed_days >= min && review.elapsed_days <= max
+    );
+    if (inBucket.length === 0) return [];
+    const days = inBucket.reduce((sum, review) => sum + review.elapsed_days, 0) / inBucket.length;
+    return [{
+      days_since_learning: Math.round(days * 10) / 10,
+      retention_percentage: Math.round(recallRate(inBucket)! * 100),
+    }];
+  });
+
+/**
+ * The forgetting curve the model predicts for a given stability, one point a day
+ */
+export const getPredictedForgettingCurve = (stability: number, days = 30): ForgettingCurvePoint[] =>
+  Array.from({ length: days + 1 }, (_, day) => ({
+    days_since_learning: day,
+    retention_percentage: Math.round(getRetrievability(stability, day) * 100),
+  }));
+
+/**
+ * Reviews and recall rate per day between two dates
+ */
+export const getRetentionTimeline = (reviews: ConceptReview[], startDate: string, endDate: string): RetentionDay[] => {
+  const byDate = new Map<string, ConceptReview[]>();
+  reviews.forEach(review => {
+    const date = reviewDate(review);
+    byDate.set(date, [...(byDate.get(date) || []), review]);
+  });
+
+  const days: RetentionDay[] = [];
+  for (let date = startDate; date <= endDate; date = shiftDateString(date, 1)) {
+    const dayReviews = byDate.get(date) || [];
+    days.push({
+      date,
+      reviews: dayReviews.length,
+      recalled: dayReviews.filter(isRecalled).length,
+      recallRate: recallRate(dayReviews),
+    });
+  }
+  return days;
+};
+
+/**
+ * Where a reviewed concept stands now; null before its first review
+ */
+export const getConceptRetention = (
+  concept: StudyConcept,
+  reviews: ConceptReview[],
+  now: Date = new Date()
+): ConceptRetention | null => {
+  const recall = getConceptRecall(concept, now);
+  if (recall === null || !concept.last_review) return null;
+  const first = reviews.find(review => review.concept_id === concept.id);
+  return {
+    concept_name: concept.name,
+    initial_learning_date: first?.reviewed_at || concept.last_review,
+    last_review_date: concept.last_review,
+    retention_strength: recall,
+    optimal_next_review: concept.due,
+  };
+};
+
+// Most at-risk first: lowest recall, then most lapses
+const getStrugglingConcepts = (concepts: StudyConcept[], now: Date): string[] =>
+  concepts
+    .map(concept => ({ concept, recall: getConceptRecall(concept, now) }))
+    .filter(({ concept, recall }) =>
+      recall !== null && (recall < STRUGGLING_RECALL || concept.lapses >= STRUGGLING_LAPSES)
+    )
+    .sort((a, b) => a.recall! - b.recall! || b.concept.lapses - a.concept.lapses)
+    .slice(0, MAX_STRUGGLING)
+    .map(({ concept }) => concept.name);
+
+/**
+ * Retention per class over the reviews since `sinceDate`. The trend compares
+ * the recall rate of the last seven days with the seven before.
+ */
+export const summarizeClassRetention = (
+  concepts: StudyConcept[],
+  reviews: ConceptReview[],
+  sinceDate: string,
+  now: Date = new Date()
+): ClassRetentionSummary[] => {
+  const today = formatDateForInput(now);
+  const weekAgo = shiftDateString(today, -7);
+  const twoWeeksAgo = shiftDateString(today, -14);
+  const classIds = Array.from(new Set(concepts.map(concept => concept.class_id || 'unassigned')));
+
+  return classIds.map(classId => {
+    const classConcepts = concepts.filter(concept => (concept.class_id || 'unassigned') === classId);
+    const conceptIds = new Set(classConcepts.map(concept => concept.id));
+    const classReviews = reviews.filter(review => conceptIds.has(review.concept_id));
+    const recalls = classConcepts
+      .map(concept => getConceptRecall(concept, now))
+      .filter((recall): recall is number => recall !== null);
+
+    const lastWeek = recallRate(classReviews.filter(review => reviewDate(review) > weekAgo));
+    const weekBefore = recallRate(classReviews.filter(review =>
+      reviewDate(review) > twoWeeksAgo && reviewDate(review) <= weekAgo
+    ));
+    const change = lastWeek !== null && weekBefore !== null ? lastWeek - weekBefore : 0;
+
+    return {
+      classId,
+      conceptCount: classConcepts.length,
+      dueCount: classConcepts.filter(concept => concept.due <= today).length,
+      averageRecall: recalls.length > 0 ? recalls.reduce((sum, recall) => sum + recall, 0) / recalls.length : null,
+      recallRate: recallRate(classReviews.filter(review => reviewDate(review) >= sinceDate)),
+      strugglingConcepts: getStrugglingConcepts(classConcepts, now),
+      trend: change > TREND_THRESHOLD ? 'up' : change < -TREND_THRESHOLD ? 'down' : 'stable',
+    };
+  });
+};
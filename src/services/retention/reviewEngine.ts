@@ -0,0 +1,177 @@
+// Spaced-repetition engine for study concepts: an FSRS-style memory model
+// where each review's rating updates the concept's stability and difficulty,
+// and the next review is due when predicted recall drops to the target.
+import type { StudyProfile } from '../../types/studySchedule';
+import type { StudyConcept, StudyConceptUpdate, ConceptReviewInsert } from '../../types/database';
+import { formatDateForInput } from '../../utils/dateHelpers';
+import { shiftDateString } from '../../utils/recurringTaskHelpers';
+
+export type ReviewRating = 1 | 2 | 3 | 4;
+
+export const REVIEW_RATINGS: { rating: ReviewRating; label: string }[] = [
+  { rating: 1, label: 'Again' },
+  { rating: 2, label: 'Hard' },
+  { rating: 3, label: 'Good' },
+  { rating: 4, label: 'Easy' },
+];
+
+export type RetentionProfile = Pick<StudyProfile, 'retention_curve_steepness' | 'review_interval_multiplier'>;
+
+export interface MemoryState {
+  stability: number; // Days until recall drops to 90%
+  difficulty: number; // 1-10
+}
+
+export interface MemoryUpdate extends MemoryState {
+  retrievability: number | null; // Predicted recall before the review; null on the first one
+}
+
+export interface ConceptReviewResult {
+  update: StudyConceptUpdate;
+  review: Omit<ConceptReviewInsert, 'id' | 'created_at'>;
+}
+
+// Reviews are scheduled for when predicted recall falls to this
+export const TARGET_RETENTION = 0.9;
+
+export const MAX_INTERVAL_DAYS = 365;
+
+// The profile defaults, which leave the model's own parameters unchanged
+const DEFAULT_STEEPNESS = 0.3;
+const DEFAULT_INTERVAL_MULTIPLIER = 1.5;
+
+// FSRS default parameters
+const W = [0.4, 0.6, 2.4, 5.8, 4.93, 0.94, 0.86, 0.01, 1.49, 0.14, 0.94, 2.18, 0.05, 0.34, 1.26, 0.29, 2.61];
+
+// Shape of the power forgetting curve: recall is 90% after `stability` days
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_STABILITY = 0.1;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days between two YYYY-MM-DD dates
+const daysBetween = (from: string, to: string): number => {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+};
+
+/**
+ * Predicted chance of recalling a concept `elapsedDays` after its last review
+ */
+export const getRetrievability = (stability: number, elapsedDays: number): number =>
+  Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+
+/**
+ * Days until the next review: when recall is predicted to reach the target
+ * retention, stretched or shortened by the profile's interval multiplier
+ */
+export const getIntervalDays = (stability: number, profile?: RetentionProfile): number => {
+  const days = (stability / FACTOR) * (Math.pow(TARGET_RETENTION, 1 / DECAY) - 1);
+  const scale = (profile?.review_interval_multiplier ?? DEFAULT_INTERVAL_MULTIPLIER) / DEFAULT_INTERVAL_MULTIPLIER;
+  return clamp(Math.round(days * scale), 1, MAX_INTERVAL_DAYS);
+};
+
+const initialDifficulty = (rating: ReviewRating): number => clamp(W[4] - (rating - 3) * W[5], 1, 10);
+
+/**
+ * Memory state after a review. The first review sets it from the rating alone,
+ * with students who forget faster (a steeper retention curve) starting lower.
+ * After that, successful reviews grow stability the more, the harder the
+ * concept was to recall; "again" resets it to a fraction.
+ */
+export const reviewMemory = (
+  state: MemoryState | null,
+  rating: ReviewRating,
+  elapsedDays: number,
+  profile?: RetentionProfile
+): MemoryUpdate => {
+  if (!state) {
+    const steepness = clamp(profile?.retention_curve_steepness ?? DEFAULT_STEEPNESS, 0, 0.9);
+    return {
+      stability: Math.max(MIN_STABILITY, W[rating - 1] * (1 - steepness) / (1 - DEFAULT_STEEPNESS)),
+      difficulty: initialDifficulty(rating),
+      retrievability: null,
+    };
+  }
+
+  const retrievability = getRetrievability(state.stability, elapsedDays);
+  // Difficulty moves with the rating and drifts back toward the default
+  const difficulty = clamp(
+    W[7] * initialDifficulty(3) + (1 - W[7]) * (state.difficulty - W[6] * (rating - 3)),
+    1,
+    10
+  );
+
+  const s = state.stability;
+  const d = difficulty;
+  const stability = rating === 1
+    ? W[11] * Math.pow(d, -W[12]) * (Math.pow(s + 1, W[13]) - 1) * Math.exp(W[14] * (1 - retrievability))
+    : s * (1 + Math.exp(W[8]) * (11 - d) * Math.pow(s, -W[9]) * (Math.exp(W[10] * (1 - retrievability)) - 1)
+      * (rating === 2 ? W[15] : 1) * (rating === 4 ? W[16] : 1));
+
+  return {
+    // A lapse never leaves a concept more stable than before
+    stability: Math.max(MIN_STABILITY, rating === 1 ? Math.min(stability, s) : stability),
+    difficulty,
+    retrievability,
+  };
+};
+
+/**
+ * Applies a review to a concept: its new memory state and due date, and the
+ * review record to keep for the concept's history
+ */
+export const reviewConcept = (
+  concept: StudyConcept,
+  rating: ReviewRating,
+  reviewedAt: Date,
+  profile?: RetentionProfile
+): ConceptReviewResult => {
+  const reviewDate = formatDateForInput(reviewedAt);
+  const elapsedDays = concept.last_review
+    ? Math.max(0, daysBetween(formatDateForInput(new Date(concept.last_review)), reviewDate))
+    : 0;
+  const state = concept.stability && concept.difficulty
+    ? { stability: concept.stability, difficulty: concept.difficulty }
+    : null;
+  const memory = reviewMemory(state, rating, elapsedDays, profile);
+  const timestamp = reviewedAt.toISOString();
+
+  return {
+    update: {
+      stability: memory.stability,
+      difficulty: memory.difficulty,
+      reps: concept.reps + 1,
+      lapses: concept.lapses + (state && rating === 1 ? 1 : 0),
+      last_review: timestamp,
+      due: shiftDateString(reviewDate, getIntervalDays(memory.stability, profile)),
+      updated_at: timestamp,
+    },
+    review: {
+      user_id: concept.user_id,
+      concept_id: concept.id,
+      rating,
+      reviewed_at: timestamp,
+      elapsed_days: elapsedDays,
+      retrievability: memory.retrievability,
+      stability: memory.stability,
+      difficulty: memory.difficulty,
+    },
+  };
+};
+
+/**
+ * Predicted recall of a concept on a date; null before its first review
+ */
+export const getConceptRecall = (concept: StudyConcept, date: Date = new Date()): number | null => {
+  if (!concept.stability || !concept.last_review) return null;
+  const elapsed = daysBetween(formatDateForInput(new Date(concept.last_review)), formatDateForInput(date));
+  return getRetrievability(concept.stability, elapsed);
+};
@@ -0,0 +1,87 @@
+// Turns due concept reviews into study time for the constraint-based scheduler
+import type { StudyConcept } from '../../types/database';
+import type { StudyDemand } from '../../utils/scheduleSolver';
+import { shiftDateString } from '../../utils/recurringTaskHelpers';
+
+// Study time per concept in a review session, and for learning a new one
+export const REVIEW_MINUTES = 10;
+export const NEW_CONCEPT_MINUTES = 20;
+
+// New concepts are introduced a few at a time so a syllabus doesn't flood the plan
+export const NEW_CONCEPTS_PER_DAY = 3;
+
+// A review can happen up to this many days after it's due
+export const REVIEW_WINDOW_DAYS = 1;
+
+const MAX_LABEL_CONCEPTS = 3;
+
+const describeConcepts = (concepts: StudyConcept[]): string => {
+  const names = concepts.slice(0, MAX_LABEL_CONCEPTS).map(concept => concept.name);
+  const more = concepts.length - names.length;
+  return more > 0 ? `${names.join(', ')} +${more} more` : names.join(', ');
+};
+
+/**
+ * Study demands for the concepts needing attention between two dates: reviews
+ * on their due date (overdue ones on the first day), grouped per class and
+ * day, and concepts never studied yet, NEW_CONCEPTS_PER_DAY per day in the
+ * order they were added. Each demand may only be placed from its day until
+ * REVIEW_WINDOW_DAYS after it.
+ */
+export const getReviewDemands = (
+  concepts: StudyConcept[],
+  startDate: string,
+  endDate: string
+): StudyDemand[] => {
+  const groups = new Map<string, { date: string; classId: string; isNew: boolean; concepts: StudyConcept[] }>();
+  const addToGroup = (concept: StudyConcept, date: string, isNew: boolean) => {
+    const classId = concept.class_id || 'unassigned';
+    const key = `${isNew ? 'learn' : 'review'}_${classId}_${date}`;
+    const group = groups.get(key) || { date, classId, isNew, concepts: [] };
+    group.concepts.push(concept);
+    groups.set(key, group);
+  };
+
+  concepts
+    .filter(concept => concept.reps > 0)
+    .forEach(concept => {
+      const date = concept.due < startDate ? startDate : concept.due;
+      if (date <= endDate) addToGroup(concept, date, false);
+    });
+
+  const newConcepts = concepts
+    .filter(concept => concept.reps === 0)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+  let date = startDate;
+  let introduced = 0;
+  newConcepts.forEach(concept => {
+    if (introduced === NEW_CONCEPTS_PER_DAY) {
+      date = shiftDateString(date, 1);
+      introduced = 0;
+    }
+    const available = concept.due > date ? concept.due : date;
+    if (available > endDate) return;
+    if (available > date) {
+      date = available;
+      introduced = 0;
+    }
+    addToGroup(concept, date, true);
+    introduced += 1;
+  });
+
+  return Array.from(groups.entries()).map(([id, group]) => ({
+    id,
+    classId: group.classId,
+    label: `${group.isNew ? 'Learn' : 'Review'}: ${describeConcepts(group.concepts)}`,
+    taskIds: [],
+    conceptIds: group.concepts.map(concept => concept.id),
+    minutes: group.concepts.length * (group.isNew ? NEW_CONCEPT_MINUTES : REVIEW_MINUTES),
+    earliest: group.date,
+    deadline: `${shiftDateString(group.date, REVIEW_WINDOW_DAYS)}T23:59`,
+    // Concept difficulty is 1-10, session difficulty 1-5
+    difficulty: Math.max(1, Math.round(
+      group.concepts.reduce((sum, concept) => sum + (concept.difficulty ?? 5), 0) / group.concepts.length / 2
+    )),
+    sessionType: group.isNew ? 'new_material' : 'review',
+  }));
+};
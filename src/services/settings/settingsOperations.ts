@@ -5,6 +5,7 @@ import { supabase } from '../supabaseClient';
 import { logger } from '../../utils/logger';
 import { errorHandler } from '../../utils/errorHandler';
 import { getDefaultSidebarTitle } from '../../utils/buildConfig';
+import { CALENDAR_FEEDS_KEY, LEGACY_CANVAS_URL_KEY } from '../canvas/feedRegistry';
 
 const SETTINGS_KEY = STORAGE_KEYS.SETTINGS;
 
@@ -167,7 +168,10 @@ export const updateSelectedView = async (view: 'dashboard' | 'tasks' | 'calendar
  * Check if Canvas integration is properly configured
  */
 export const isCanvasConfigured = (): boolean => {
-  const canvasUrl = localStorage.getItem('canvas_calendar_url');
+  // Feeds live in the registry (see canvas/feedRegistry); the legacy key covers unmigrated installs
+  const feeds = getLocalData<{ enabled: boolean }[] | null>(CALENDAR_FEEDS_KEY, null);
+  if (feeds) return feeds.some(feed => feed.enabled);
+  const canvasUrl = localStorage.getItem(LEGACY_CANVAS_URL_KEY);
   return canvasUrl !== null && canvasUrl.trim() !== '';
 };
 
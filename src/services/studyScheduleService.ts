@@ -8,17 +8,51 @@ import type {
   StudyScheduleResponse,
   ClassWorkload,
   ScheduleOptimizationRequest,
-  OptimizationGoal
+  OptimizationGoal,
+  ScheduleRepairResponse,
+  UnmetConstraint
 } from '../types/studySchedule';
-import type { Task, ClassWithRelations } from '../types/database';
-import { getTasks } from './dataService';
+import type { Task, TaskType, TaskWithMeta, ClassWithRelations, StudyConcept } from '../types/database';
+import { getTasks, getTaskTypes } from './dataService';
 import { getClasses } from './class/classOperations';
+import { getLearnedEstimate, loadTimeEstimateModel, type LearnedEstimate } from './estimates';
+import { conceptService, getReviewDemands } from './retention';
+import {
+  examPrepService,
+  isExamTask,
+  planExamPrep,
+  type ExamPrepPlan,
+  type ExamPrepSchedule,
+  type ExamTopic
+} from './examPrep';
+import { ScheduleOptimizer, type ConstrainedScheduleOptions } from '../utils/scheduleOptimizer';
+import { getBusyBlocks, getTaskDeadline } from '../utils/scheduleSolver';
+import { formatDateForInput } from '../utils/dateHelpers';
 import { logger } from '../utils/logger';
 import { errorHandler } from '../utils/errorHandler';
 import { supabase } from './supabaseClient';
 
 // AI Analysis via secure Edge Function
 
+// Everything workload analysis and scheduling work from
+interface WorkloadData {
+  tasks: Task[];
+  classes: ClassWithRelations[];
+  taskTypes: TaskType[];
+  concepts: StudyConcept[];
+  examPlans: ExamPrepPlan[];
+  estimateTask: (task: Task) => LearnedEstimate;
+}
+
+const DONE_STATUSES: StudySession['status'][] = ['completed', 'in_progress'];
+
+const sessionsOverlap = (a: StudySession, b: StudySession): boolean =>
+  a.date === b.date && a.start_time < b.end_time && b.start_time < a.end_time;
+
+// A time as the solver takes it: YYYY-MM-DDTHH:MM, local time
+const toLocalDateTime = (date: Date): string =>
+  `${formatDateForInput(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
 /**
  * AI-powered workload analysis service
  * Analyzes Canvas tasks and generates intelligent study recommendations
@@ -34,67 +68,7 @@ export class StudyScheduleService {
   ): Promise<WorkloadAnalysisResponse> {
     try {
       logger.debug('[StudyScheduleService] Starting workload analysis', { userId: user.id });
-      
-      // Get current tasks and classes
-      const [tasks, classes] = await Promise.all([
-        getTasks(user.id, useSupabase),
-        getClasses(user.id, useSupabase)
-      ]);
-      
-      // Filter for incomplete tasks and upcoming deadlines (next 30 days)
-      const now = new Date();
-      const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000));
-      
-      const upcomingTasks = tasks.filter(task => {
-        if (task.completed) return false;
-        if (!task.dueDate) return false;
-        
-        const dueDate = new Date(task.dueDate);
-        return dueDate >= now && dueDate <= thirtyDaysFromNow;
-      });
-      
-      logger.debug('[StudyScheduleService] Filtered tasks', {
-        totalTasks: tasks.length,
-        upcomingTasks: upcomingTasks.length
-      });
-      
-      // Analyze workload by class
-      const classWorkloads = await this.analyzeClassWorkloads(upcomingTasks, classes);
-      
-      // Get AI analysis of workload
-      const aiAnalysis = await this.getAIWorkloadAnalysis(upcomingTasks, classWorkloads);
-      
-      // Create workload analysis record
-      const analysis: WorkloadAnalysis = {
-        id: `analysis_${Date.now()}`,
-        user_id: user.id,
-        analysis_date: new Date().toISOString(),
-        total_assignments: upcomingTasks.length,
-        upcoming_deadlines: upcomingTasks.filter(task => {
-          const dueDate = new Date(task.dueDate!);
-          const sevenDaysFromNow = new Date(now.getTime() + (7 * 24 * 60 * 60 * 1000));
-          return dueDate <= sevenDaysFromNow;
-        }).length,
-        estimated_total_hours: aiAnalysis.estimatedTotalHours,
-        class_workloads: classWorkloads,
-        stress_level_prediction: aiAnalysis.stressLevel,
-        recommended_daily_hours: aiAnalysis.recommendedDailyHours,
-        peak_workload_dates: aiAnalysis.peakWorkloadDates,
-        canvas_sync_date: new Date().toISOString(),
-        ai_model_version: 'gemini-flash-2.5',
-        created_at: new Date().toISOString()
-      };
-      
-      return {
-        analysis,
-        recommendations: aiAnalysis.recommendations,
-        risk_factors: {
-          overload_risk: aiAnalysis.overloadRisk,
-          deadline_conflicts: aiAnalysis.deadlineConflicts,
-          burnout_risk: aiAnalysis.burnoutRisk
-        }
-      };
-      
+      return await this.analyzeLoadedWorkload(user, await this.loadWorkloadData(user, useSupabase));
     } catch (error) {
       logger.error('[StudyScheduleService] Error analyzing workload', error);
       const handled = errorHandler.handle(
@@ -105,6 +79,85 @@ export class StudyScheduleService {
     }
   }
   
+  /**
+   * Load tasks, classes, task types and concepts to review, and learn from
+   * time tracked on completed tasks how far off the default estimates are
+   */
+  private static async loadWorkloadData(user: User, useSupabase: boolean): Promise<WorkloadData> {
+    const [tasks, classes, taskTypes, concepts] = await Promise.all([
+      getTasks(user.id, useSupabase),
+      getClasses(user.id, useSupabase),
+      getTaskTypes(user.id, useSupabase),
+      conceptService.getConcepts(user.id)
+    ]);
+    
+    const getDefaultMinutes = (task: Task) => this.getDefaultTaskMinutes(task, taskTypes);
+    const estimateModel = await loadTimeEstimateModel(user.id, tasks, getDefaultMinutes);
+    const estimateTask = (task: Task) =>
+      getLearnedEstimate(estimateModel, { classId: task.class, taskTypeId: task.type }, getDefaultMinutes(task));
+    
+    return { tasks, classes, taskTypes, concepts, examPlans: examPrepService.getPlans(user.id), estimateTask };
+  }
+  
+  private static async analyzeLoadedWorkload(
+    user: User,
+    { tasks, classes, estimateTask }: WorkloadData
+  ): Promise<WorkloadAnalysisResponse> {
+    // Filter for incomplete tasks and upcoming deadlines (next 30 days)
+    const now = new Date();
+    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000));
+    
+    const upcomingTasks = tasks.filter(task => {
+      if (task.completed) return false;
+      if (!task.dueDate) return false;
+      
+      const dueDate = new Date(task.dueDate);
+      return dueDate >= now && dueDate <= thirtyDaysFromNow;
+    });
+    
+    logger.debug('[StudyScheduleService] Filtered tasks', {
+      totalTasks: tasks.length,
+      upcomingTasks: upcomingTasks.length
+    });
+    
+    // Analyze workload by class
+    const classWorkloads = await this.analyzeClassWorkloads(upcomingTasks, classes, estimateTask);
+    
+    // Get AI analysis of workload
+    const aiAnalysis = await this.getAIWorkloadAnalysis(upcomingTasks, classWorkloads);
+    
+    // Create workload analysis record
+    const analysis: WorkloadAnalysis = {
+      id: `analysis_${Date.now()}`,
+      user_id: user.id,
+      analysis_date: new Date().toISOString(),
+      total_assignments: upcomingTasks.length,
+      upcoming_deadlines: upcomingTasks.filter(task => {
+        const dueDate = new Date(task.dueDate!);
+        const sevenDaysFromNow = new Date(now.getTime() + (7 * 24 * 60 * 60 * 1000));
+        return dueDate <= sevenDaysFromNow;
+      }).length,
+      estimated_total_hours: aiAnalysis.estimatedTotalHours,
+      class_workloads: classWorkloads,
+      stress_level_prediction: aiAnalysis.stressLevel,
+      recommended_daily_hours: aiAnalysis.recommendedDailyHours,
+      peak_workload_dates: aiAnalysis.peakWorkloadDates,
+      canvas_sync_date: new Date().toISOString(),
+      ai_model_version: 'gemini-flash-2.5',
+      created_at: new Date().toISOString()
+    };
+    
+    return {
+      analysis,
+      recommendations: aiAnalysis.recommendations,
+      risk_factors: {
+        overload_risk: aiAnalysis.overloadRisk,
+        deadline_conflicts: aiAnalysis.deadlineConflicts,
+        burnout_risk: aiAnalysis.burnoutRisk
+      }
+    };
+  }
+  
   /**
    * Generate optimized study schedule based on workload analysis
    */
@@ -123,7 +176,8 @@ export class StudyScheduleService {
       });
       
       // Get workload analysis
-      const workloadAnalysis = await this.analyzeWorkload(user, useSupabase);
+      const workloadData = await this.loadWorkloadData(user, useSupabase);
+      const workloadAnalysis = await this.analyzeLoadedWorkload(user, workloadData);
       
       // Get user's study profile or create default
       const profile = studyProfile || this.createDefaultStudyProfile(user.id);
@@ -132,7 +186,8 @@ export class StudyScheduleService {
       const aiSchedule = await this.generateAISchedule(
         request,
         workloadAnalysis.analysis,
-        profile
+        profile,
+        workloadData
       );
       
       // Create study schedule record
@@ -146,6 +201,7 @@ export class StudyScheduleService {
         ai_confidence_score: aiSchedule.confidenceScore,
         optimization_method: this.determineOptimizationMethod(request.optimization_goals),
         study_sessions: aiSchedule.sessions,
+        unmet_constraints: aiSchedule.unmetConstraints,
         adherence_score: 0, // Will be updated as user completes sessions
         effectiveness_score: 0, // Will be updated based on performance
         created_at: new Date().toISOString(),
@@ -173,12 +229,168 @@ export class StudyScheduleService {
     }
   }
   
+  /**
+   * Repair a schedule after sessions were missed or tasks changed, without
+   * regenerating it: completed and still valid sessions stay, missed work
+   * moves into free time before its deadline, and the version goes up
+   */
+  static async repairSchedule(
+    user: User,
+    schedule: StudySchedule,
+    request: Pick<ScheduleOptimizationRequest, 'include_classes' | 'exclude_dates'>,
+    studyProfile?: StudyProfile,
+    useSupabase = false,
+    now: Date = new Date()
+  ): Promise<ScheduleRepairResponse> {
+    try {
+      logger.debug('[StudyScheduleService] Repairing study schedule', {
+        userId: user.id,
+        scheduleId: schedule.id,
+        version: schedule.version
+      });
+      
+      // Class workloads only; a repair doesn't need a fresh AI analysis
+      const workloadData = await this.loadWorkloadData(user, useSupabase);
+      const classWorkloads = await this.analyzeClassWorkloads(
+        workloadData.tasks.filter(task => !task.completed && task.dueDate),
+        workloadData.classes,
+        workloadData.estimateTask
+      );
+      const profile = studyProfile || this.createDefaultStudyProfile(user.id);
+      const localNow = toLocalDateTime(now);
+      
+      const repair = ScheduleOptimizer.repairConstrainedSchedule(
+        schedule.study_sessions,
+        { ...request, start_date: schedule.start_date, end_date: schedule.end_date },
+        profile,
+        workloadData.tasks,
+        { ...this.getConstrainedScheduleOptions(classWorkloads, workloadData), createdAt: now.toISOString() },
+        localNow
+      );
+      
+      return {
+        schedule: {
+          ...schedule,
+          version: schedule.version + 1,
+          study_sessions: repair.sessions.map(session => ({ ...session, schedule_id: schedule.id })),
+          unmet_constraints: repair.unmet,
+          updated_at: now.toISOString()
+        },
+        changes: repair.changes
+      };
+      
+    } catch (error) {
+      logger.error('[StudyScheduleService] Error repairing study schedule', error);
+      const handled = errorHandler.handle(
+        error instanceof Error ? error : new Error('Schedule repair failed'),
+        'StudyScheduleService.repairSchedule'
+      );
+      throw new Error(handled.userMessage);
+    }
+  }
+  
+  /**
+   * Back-plan an exam's prep sessions around the calendar and the given
+   * study sessions. Prep already done for the exam among them isn't planned
+   * again; its upcoming sessions are replaced.
+   */
+  static async planExamPrep(
+    user: User,
+    exam: Task,
+    topics: ExamTopic[],
+    studyProfile?: StudyProfile,
+    sessions: StudySession[] = [],
+    useSupabase = false,
+    now: Date = new Date()
+  ): Promise<ExamPrepSchedule> {
+    try {
+      const [tasks, taskTypes] = await Promise.all([
+        getTasks(user.id, useSupabase),
+        getTaskTypes(user.id, useSupabase)
+      ]);
+      const deadline = getTaskDeadline(exam);
+      if (!deadline) return { sessions: [], unmet: [] };
+      
+      const localNow = toLocalDateTime(now);
+      const isForExam = (session: StudySession) => session.task_ids[0] === exam.id;
+      
+      return planExamPrep({
+        exam,
+        topics,
+        profile: studyProfile || this.createDefaultStudyProfile(user.id),
+        busy: getBusyBlocks(
+          tasks.filter(task => task.id !== exam.id),
+          localNow.slice(0, 10),
+          deadline.slice(0, 10),
+          task => isExamTask(task, taskTypes)
+        ),
+        now: localNow,
+        fixed: sessions.filter(session => !isForExam(session) || DONE_STATUSES.includes(session.status)),
+        done: sessions.filter(session => isForExam(session) && session.prep_phase && DONE_STATUSES.includes(session.status)),
+        createdAt: now.toISOString()
+      });
+    } catch (error) {
+      logger.error('[StudyScheduleService] Error planning exam prep', error);
+      const handled = errorHandler.handle(
+        error instanceof Error ? error : new Error('Exam prep planning failed'),
+        'StudyScheduleService.planExamPrep'
+      );
+      throw new Error(handled.userMessage);
+    }
+  }
+  
+  /**
+   * Put an exam prep plan's upcoming sessions into a schedule in place of
+   * the other study time planned for the exam. Sessions that now clash with
+   * the rest of the schedule are planned again around it.
+   *
+   * @returns The schedule, and the plan's sessions as they are in it
+   */
+  static async applyExamPrepPlan(
+    user: User,
+    schedule: StudySchedule,
+    plan: ExamPrepPlan,
+    studyProfile?: StudyProfile,
+    useSupabase = false,
+    now: Date = new Date()
+  ): Promise<{ schedule: StudySchedule; planSessions: StudySession[] }> {
+    const localNow = toLocalDateTime(now);
+    const isPending = (session: StudySession) =>
+      !DONE_STATUSES.includes(session.status) && `${session.date}T${session.end_time}` > localNow;
+    const others = schedule.study_sessions.filter(session =>
+      session.task_ids[0] !== plan.exam_task_id || !isPending(session)
+    );
+    
+    let planSessions = plan.sessions;
+    if (planSessions.filter(isPending).some(session => others.some(other => sessionsOverlap(session, other)))) {
+      const exam = (await getTasks(user.id, useSupabase)).find(task => task.id === plan.exam_task_id);
+      if (!exam) return { schedule, planSessions };
+      const replanned = await this.planExamPrep(user, exam, plan.topics, studyProfile, others, useSupabase, now);
+      planSessions = [...plan.sessions.filter(session => !isPending(session)), ...replanned.sessions];
+    }
+    
+    const inRange = planSessions.filter(session =>
+      isPending(session) && session.date >= schedule.start_date && session.date <= schedule.end_date
+    );
+    return {
+      schedule: {
+        ...schedule,
+        version: schedule.version + 1,
+        study_sessions: [...others, ...inRange.map(session => ({ ...session, schedule_id: schedule.id }))]
+          .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time)),
+        updated_at: now.toISOString()
+      },
+      planSessions
+    };
+  }
+  
   /**
    * Analyze workload distribution by class
    */
   private static async analyzeClassWorkloads(
     tasks: Task[],
-    classes: ClassWithRelations[]
+    classes: ClassWithRelations[],
+    estimateTask: (task: Task) => LearnedEstimate
   ): Promise<ClassWorkload[]> {
     const classWorkloadMap = new Map<string, {
       tasks: Task[];
@@ -213,8 +425,10 @@ export class StudyScheduleService {
     for (const [classId, data] of Array.from(classWorkloadMap.entries())) {
       const { tasks: classTasks, class: classInfo } = data;
       
-      // Calculate estimated hours using AI or heuristics
-      const estimatedHours = await this.estimateTaskHours(classTasks);
+      // Calculate estimated hours from heuristics, adjusted by tracked time
+      const estimates = classTasks.map(estimateTask);
+      const estimatedHours = this.estimateTaskHours(estimates);
+      const defaultHours = estimates.reduce((total, estimate) => total + estimate.defaultMinutes, 0) / 60;
       
       // Calculate critical deadlines (next 7 days)
       const now = new Date();
@@ -235,6 +449,7 @@ export class StudyScheduleService {
         class_name: classInfo.name,
         pending_assignments: classTasks.length,
         total_estimated_hours: estimatedHours,
+        estimate_adjustment: defaultHours > 0 ? estimatedHours / defaultHours : 1,
         average_assignment_difficulty: this.calculateAverageDifficulty(classTasks),
         recommended_daily_minutes: Math.ceil((estimatedHours * 60) / 14), // Spread over 2 weeks
         priority_score: priorityScore,
@@ -325,9 +540,11 @@ export class StudyScheduleService {
   private static async generateAISchedule(
     request: ScheduleOptimizationRequest,
     workloadAnalysis: WorkloadAnalysis,
-    studyProfile: StudyProfile
+    studyProfile: StudyProfile,
+    workloadData: WorkloadData
   ): Promise<{
     sessions: StudySession[];
+    unmetConstraints: UnmetConstraint[];
     confidenceScore: number;
     totalHours: number;
     sessionsPerWeek: number;
@@ -335,10 +552,10 @@ export class StudyScheduleService {
     predictedSuccessRate: number;
     recommendations: string[];
   }> {
-    // Use fallback schedule generation for now
+    // Use local schedule generation for now
     // TODO: Implement AI-powered schedule generation via Edge Function
-    logger.info('[StudyScheduleService] Using fallback schedule generation (secure AI implementation pending)');
-    return this.getFallbackSchedule(request, workloadAnalysis, studyProfile);
+    logger.info('[StudyScheduleService] Using local schedule generation (secure AI implementation pending)');
+    return this.getFallbackSchedule(request, workloadAnalysis, studyProfile, workloadData);
   }
   
   /**
@@ -377,61 +594,27 @@ export class StudyScheduleService {
   }
   
   /**
-   * Fallback schedule generation when AI is not available
+   * Fallback schedule generation when AI is not available: the local
+   * constraint solver, placing each open task's estimated hours around the
+   * calendar before its deadline
    */
   private static getFallbackSchedule(
     request: ScheduleOptimizationRequest,
     workloadAnalysis: WorkloadAnalysis,
-    studyProfile: StudyProfile
+    studyProfile: StudyProfile,
+    workloadData: WorkloadData
   ) {
-    // Simple schedule generation based on class workloads and study preferences
-    const sessions: StudySession[] = [];
-    const startDate = new Date(request.start_date);
-    const endDate = new Date(request.end_date);
-    const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    const totalDays = Math.ceil(
+      (new Date(request.end_date).getTime() - new Date(request.start_date).getTime()) / (1000 * 60 * 60 * 24)
+    ) + 1;
     
-    // Distribute workload across available days
-    const dailyHours = Math.min(
-      studyProfile.daily_study_limit_hours,
-      workloadAnalysis.estimated_total_hours / totalDays * 1.2
+    const { sessions, unmet } = ScheduleOptimizer.generateConstrainedSchedule(
+      request,
+      studyProfile,
+      workloadData.tasks,
+      this.getConstrainedScheduleOptions(workloadAnalysis.class_workloads, workloadData)
     );
     
-    // Create basic sessions for each study time preference
-    let sessionId = 0;
-    for (let day = 0; day < totalDays; day++) {
-      const currentDate = new Date(startDate.getTime() + (day * 24 * 60 * 60 * 1000));
-      const dayOfWeek = currentDate.getDay();
-      
-      // Find study preferences for this day
-      const dayPrefs = studyProfile.preferred_study_times.filter(pref => pref.day_of_week === dayOfWeek);
-      
-      for (const pref of dayPrefs) {
-        if (sessions.length >= 100) break; // Reasonable limit
-        
-        // Select class based on priority
-        const classWorkload = workloadAnalysis.class_workloads[sessionId % workloadAnalysis.class_workloads.length];
-        
-        sessions.push({
-          id: `fallback_session_${sessionId++}`,
-          schedule_id: '',
-          date: currentDate.toISOString().split('T')[0],
-          start_time: pref.start_time,
-          end_time: this.addMinutesToTime(pref.start_time, studyProfile.focus_duration_minutes),
-          duration_minutes: studyProfile.focus_duration_minutes,
-          class_id: classWorkload.class_id,
-          task_ids: [],
-          session_type: 'practice',
-          focus_area: `Study ${classWorkload.class_name}`,
-          difficulty_level: Math.ceil(classWorkload.average_assignment_difficulty),
-          prerequisite_concepts: [],
-          learning_objectives: [`Complete assignments for ${classWorkload.class_name}`],
-          status: 'scheduled',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      }
-    }
-    
     const totalHours = sessions.reduce((sum, s) => sum + s.duration_minutes / 60, 0);
     const classTimeDistribution: Record<string, number> = {};
     sessions.forEach(session => {
@@ -440,13 +623,15 @@ export class StudyScheduleService {
     });
     
     return {
-      sessions: sessions.slice(0, 50), // Limit sessions
-      confidenceScore: 0.6,
+      sessions,
+      unmetConstraints: unmet,
+      confidenceScore: unmet.length === 0 ? 0.8 : 0.6,
       totalHours,
       sessionsPerWeek: sessions.length / (totalDays / 7),
       classTimeDistribution,
-      predictedSuccessRate: 0.7,
+      predictedSuccessRate: unmet.length === 0 ? 0.8 : 0.6,
       recommendations: [
+        ...unmet.map(constraint => constraint.reason),
         'This is a basic schedule. Consider upgrading to premium for AI-optimized scheduling.',
         'Adjust session times based on your productivity patterns.',
         'Take regular breaks to maintain focus.'
@@ -454,17 +639,44 @@ export class StudyScheduleService {
     };
   }
   
+  // How the scheduler sizes, classifies and rates tasks, and which concept
+  // reviews it fits in alongside them
+  private static getConstrainedScheduleOptions(
+    classWorkloads: ClassWorkload[],
+    { taskTypes, concepts, examPlans, estimateTask }: WorkloadData
+  ): ConstrainedScheduleOptions {
+    const workloadByClass = new Map(classWorkloads.map(cw => [cw.class_id, cw]));
+    // An exam with a prep plan gets the time the plan sets aside for it
+    const plannedMinutes = new Map(examPlans
+      .filter(plan => plan.sessions.length > 0)
+      .map(plan => [plan.exam_task_id, plan.sessions.reduce((sum, session) => sum + session.duration_minutes, 0)]));
+    return {
+      estimateMinutes: task => plannedMinutes.get(task.id) ?? estimateTask(task).minutes,
+      isExam: task => isExamTask(task, taskTypes),
+      getDifficulty: task => Math.ceil(workloadByClass.get(task.class || 'unassigned')?.average_assignment_difficulty ?? 3),
+      getReviewDemands: (startDate, endDate) => getReviewDemands(concepts, startDate, endDate)
+    };
+  }
+  
   /**
    * Helper methods
    */
-  private static async estimateTaskHours(tasks: Task[]): Promise<number> {
-    // Simple heuristic-based hour estimation
-    return tasks.reduce((total, task) => {
-      const baseHours = this.getBaseHoursForTaskType(task.type || 'assignment');
-      const complexityMultiplier = (task as any).description?.length ? 
-        Math.min(2, 1 + ((task as any).description.length / 1000)) : 1;
-      return total + (baseHours * complexityMultiplier);
-    }, 0);
+  private static estimateTaskHours(estimates: LearnedEstimate[]): number {
+    return estimates.reduce((total, estimate) => total + estimate.minutes, 0) / 60;
+  }
+  
+  // Heuristic estimate before any tracked time: hours by task type, more
+  // for long descriptions
+  private static getDefaultTaskMinutes(task: TaskWithMeta, taskTypes: TaskType[]): number {
+    const baseHours = this.getBaseHoursForTaskType(this.getTaskTypeName(task, taskTypes));
+    const complexityMultiplier = task.description?.length ?
+      Math.min(2, 1 + (task.description.length / 1000)) : 1;
+    return baseHours * complexityMultiplier * 60;
+  }
+  
+  // Task types are stored on tasks by id
+  private static getTaskTypeName(task: Task, taskTypes: TaskType[]): string {
+    return taskTypes.find(type => type.id === task.type)?.name.toLowerCase() || task.type || 'assignment';
   }
   
   private static getBaseHoursForTaskType(taskType: string): number {
@@ -551,12 +763,4 @@ export class StudyScheduleService {
     if (goals.includes('meet_deadlines')) return 'deadline_focused';
     return 'balanced';
   }
-  
-  private static addMinutesToTime(time: string, minutes: number): string {
-    const [hours, mins] = time.split(':').map(Number);
-    const totalMinutes = hours * 60 + mins + minutes;
-    const newHours = Math.floor(totalMinutes / 60) % 24;
-    const newMins = totalMinutes % 60;
-    return `${newHours.toString().padStart(2, '0')}:${newMins.toString().padStart(2, '0')}`;
-  }
 }
\ No newline at end of file
@@ -1,26 +1,80 @@
 import { supabase } from './supabaseClient';
 import { logger } from '../utils/logger';
-import type { StudySession, StudySessionInsert, StudySessionUpdate, StudyAnalytics, SubjectStudyData } from '../types/database';
+import { getLocalData, saveLocalData } from '../utils/storageHelpers';
+import { runOfflineFirst, isNetworkError, recordOperation, markSynced, markDeleted } from './sync';
+import type {
+  StudySession,
+  StudySessionInsert,
+  StudySessionUpdate,
+  StudySessionSegment,
+  StudySessionSegmentInsert,
+  StudyAnalytics,
+  SubjectStudyData,
+  TaskStudyData
+} from '../types/database';
+
+// Sessions started or changed while offline wait here for the next sync
+const STUDY_SESSIONS_KEY = 'study_sessions';
+// Focus blocks of focus timer sessions, cached the same way
+const SEGMENTS_KEY = 'study_session_segments';
 
 export class StudySessionService {
+  private getCachedSessions(): StudySession[] {
+    return getLocalData<StudySession[]>(STUDY_SESSIONS_KEY, []);
+  }
+
+  private saveCachedSession(session: StudySession): void {
+    const sessions = this.getCachedSessions();
+    saveLocalData(STUDY_SESSIONS_KEY, sessions.some(cached => cached.id === session.id)
+      ? sessions.map(cached => (cached.id === session.id ? session : cached))
+      : [...sessions, session]);
+  }
+
+  private getCachedSegments(): StudySessionSegment[] {
+    return getLocalData<StudySessionSegment[]>(SEGMENTS_KEY, []);
+  }
+
+  private saveCachedSegment(segment: StudySessionSegment): void {
+    const segments = this.getCachedSegments();
+    saveLocalData(SEGMENTS_KEY, segments.some(cached => cached.id === segment.id)
+      ? segments.map(cached => (cached.id === segment.id ? segment : cached))
+      : [...segments, segment]);
+  }
+
   /**
    * Create a new study session
    */
   async createSession(session: StudySessionInsert): Promise<StudySession | null> {
     try {
-      const { data, error } = await supabase
-        .from('study_sessions')
-        .insert(session)
-        .select()
-        .single();
+      const sessionData = { ...session, id: session.id || crypto.randomUUID() };
+      const { result, synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) {
+          const now = new Date().toISOString();
+          return { created_at: now, updated_at: now, ...sessionData } as StudySession;
+        }
+
+        const { data, error } = await supabase
+          .from('study_sessions')
+          .insert(sessionData)
+          .select()
+          .single();
+
+        if (error) {
+          logger.error('Failed to create study session:', error);
+          throw error;
+        }
+        return data as StudySession;
+      });
 
-      if (error) {
-        logger.error('Failed to create study session:', error);
-        throw error;
+      this.saveCachedSession(result);
+      if (synced) {
+        markSynced('study_sessions', result);
+      } else {
+        recordOperation('study_sessions', result.id, 'upsert', { ...result });
       }
 
-      logger.info('Study session created:', data.id);
-      return data;
+      logger.info('Study session created:', result.id);
+      return result;
     } catch (error) {
       logger.error('Error creating study session:', error);
       return null;
@@ -32,41 +86,95 @@ export class StudySessionService {
    */
   async updateSession(id: string, updates: StudySessionUpdate): Promise<StudySession | null> {
     try {
-      const { data, error } = await supabase
-        .from('study_sessions')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
+      const { result, synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) {
+          const cached = this.getCachedSessions().find(session => session.id === id);
+          return { ...cached, ...updates, id } as StudySession;
+        }
+
+        const { data, error } = await supabase
+          .from('study_sessions')
+          .update(updates)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          logger.error('Failed to update study session:', error);
+          throw error;
+        }
+        return data as StudySession;
+      });
 
-      if (error) {
-        logger.error('Failed to update study session:', error);
-        throw error;
+      this.saveCachedSession(result);
+      if (synced) {
+        markSynced('study_sessions', result);
+      } else {
+        recordOperation('study_sessions', id, 'upsert', { ...updates });
       }
 
       logger.info('Study session updated:', id);
-      return data;
+      return result;
     } catch (error) {
       logger.error('Error updating study session:', error);
       return null;
     }
   }
 
+  /**
+   * Delete a study session
+   */
+  async deleteSession(id: string): Promise<boolean> {
+    try {
+      const { synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) return;
+
+        const { error } = await supabase
+          .from('study_sessions')
+          .delete()
+          .eq('id', id);
+
+        if (error) {
+          logger.error('Failed to delete study session:', error);
+          throw error;
+        }
+      });
+
+      saveLocalData(STUDY_SESSIONS_KEY, this.getCachedSessions().filter(session => session.id !== id));
+      if (synced) {
+        markDeleted('study_sessions', id);
+      } else {
+        recordOperation('study_sessions', id, 'delete', {});
+      }
+
+      logger.info('Study session deleted:', id);
+      return true;
+    } catch (error) {
+      logger.error('Error deleting study session:', error);
+      return false;
+    }
+  }
+
   /**
    * End a study session
    */
   async endSession(id: string, endTime: string, effectivenessRating?: number, notes?: string): Promise<StudySession | null> {
     try {
-      // Get the session to calculate duration
-      const { data: session, error: fetchError } = await supabase
-        .from('study_sessions')
-        .select('start_time')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) {
-        logger.error('Failed to fetch study session:', fetchError);
-        throw fetchError;
+      // Get the session to calculate duration; sessions started offline are
+      // only in the local cache
+      let session = this.getCachedSessions().find(cached => cached.id === id);
+      if (!session) {
+        const { data, error: fetchError } = await supabase
+          .from('study_sessions')
+          .select('start_time')
+          .eq('id', id)
+          .single();
+
+        if (fetchError) {
+          logger.error('Failed to fetch study session:', fetchError);
+          throw fetchError;
+        }
+        session = data as StudySession;
       }
 
       // Calculate duration in minutes
@@ -89,6 +197,148 @@ export class StudySessionService {
     }
   }
 
+  /**
+   * Start a focus block of a focus timer session
+   */
+  async startSegment(segment: StudySessionSegmentInsert): Promise<StudySessionSegment | null> {
+    try {
+      const segmentData = { ...segment, id: segment.id || crypto.randomUUID() };
+      const { result, synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) {
+          const now = new Date().toISOString();
+          return { completed: false, created_at: now, updated_at: now, ...segmentData } as StudySessionSegment;
+        }
+
+        const { data, error } = await supabase
+          .from('study_session_segments')
+          .insert(segmentData)
+          .select()
+          .single();
+
+        if (error) {
+          logger.error('Failed to create focus block:', error);
+          throw error;
+        }
+        return data as StudySessionSegment;
+      });
+
+      this.saveCachedSegment(result);
+      if (synced) {
+        markSynced('study_session_segments', result);
+      } else {
+        recordOperation('study_session_segments', result.id, 'upsert', { ...result });
+      }
+      return result;
+    } catch (error) {
+      logger.error('Error starting focus block:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Finish a focus block
+   *
+   * @param minutes - Time focused, which leaves out pauses
+   * @param completed - Whether the block ran its planned length
+   */
+  async finishSegment(id: string, endTime: string, minutes: number, completed: boolean): Promise<StudySessionSegment | null> {
+    const updates = {
+      end_time: endTime,
+      duration_minutes: minutes,
+      completed,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      const { result, synced } = await runOfflineFirst(true, async remote => {
+        if (!remote) {
+          const cached = this.getCachedSegments().find(segment => segment.id === id);
+          return { ...cached, ...updates, id } as StudySessionSegment;
+        }
+
+        const { data, error } = await supabase
+          .from('study_session_segments')
+          .update(updates)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          logger.error('Failed to finish focus block:', error);
+          throw error;
+        }
+        return data as StudySessionSegment;
+      });
+
+      this.saveCachedSegment(result);
+      if (synced) {
+        markSynced('study_session_segments', result);
+      } else {
+        recordOperation('study_session_segments', id, 'upsert', { ...updates });
+      }
+      return result;
+    } catch (error) {
+      logger.error('Error finishing focus block:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the finished focus blocks of a user, optionally only those since a date
+   */
+  async getUserSegments(userId: string, since?: Date): Promise<StudySessionSegment[]> {
+    try {
+      let query = supabase
+        .from('study_session_segments')
+        .select('*')
+        .eq('user_id', userId)
+        .not('end_time', 'is', null);
+
+      if (since) {
+        query = query.gte('start_time', since.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        logger.error('Failed to fetch focus blocks:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return this.getCachedSegments().filter(segment =>
+          segment.user_id === userId && segment.end_time && (!since || segment.start_time >= since.toISOString())
+        );
+      }
+      logger.error('Error fetching focus blocks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Minutes spent on each task the user has studied for
+   */
+  async getTaskBreakdown(userId: string): Promise<TaskStudyData[]> {
+    const [sessions, segments] = await Promise.all([
+      this.getUserSessions(userId),
+      this.getUserSegments(userId)
+    ]);
+    return this.calculateTaskBreakdown(
+      sessions.filter(session => session.end_time),
+      segments
+    );
+  }
+
+  /**
+   * Minutes spent on a task: its focus blocks, plus open-ended sessions tied to it
+   */
+  async getTimeOnTask(userId: string, taskId: string): Promise<number> {
+    const breakdown = await this.getTaskBreakdown(userId);
+    return breakdown.find(entry => entry.taskId === taskId)?.totalTime || 0;
+  }
+
   /**
    * Get study sessions for a user
    */
@@ -113,6 +363,12 @@ export class StudySessionService {
 
       return data || [];
     } catch (error) {
+      if (isNetworkError(error)) {
+        const cached = this.getCachedSessions()
+          .filter(session => session.user_id === userId)
+          .sort((a, b) => b.start_time.localeCompare(a.start_time));
+        return limit ? cached.slice(0, limit) : cached;
+      }
       logger.error('Error fetching user study sessions:', error);
       return [];
     }
@@ -164,7 +420,8 @@ export class StudySessionService {
         throw error;
       }
 
-      return this.calculateAnalytics(sessions || []);
+      const segments = await this.getUserSegments(userId, startDate);
+      return this.calculateAnalytics(sessions || [], segments);
     } catch (error) {
       logger.error('Error fetching study analytics:', error);
       return this.getEmptyAnalytics();
@@ -174,12 +431,16 @@ export class StudySessionService {
   /**
    * Calculate analytics from study sessions
    */
-  private calculateAnalytics(sessions: StudySession[]): StudyAnalytics {
+  private calculateAnalytics(sessions: StudySession[], segments: StudySessionSegment[] = []): StudyAnalytics {
     if (sessions.length === 0) {
       return this.getEmptyAnalytics();
     }
 
-    const totalStudyTime = sessions.reduce((sum, session) => sum + (session.duration_minutes || 0), 0);
+    const focusBySession = this.sumFocusBySession(segments);
+    const getStudyMinutes = (session: StudySession): number =>
+      focusBySession.get(session.id) ?? (session.duration_minutes || 0);
+
+    const totalStudyTime = sessions.reduce((sum, session) => sum + getStudyMinutes(session), 0);
     const averageSessionDuration = totalStudyTime / sessions.length;
     
     // Sessions in the last 7 days
@@ -220,7 +481,7 @@ export class StudySessionService {
         lastStudied: session.start_time
       };
 
-      existing.totalTime += session.duration_minutes || 0;
+      existing.totalTime += getStudyMinutes(session);
       existing.sessionCount += 1;
       if (session.effectiveness_rating !== null && session.effectiveness_rating !== undefined) {
         existing.effectivenessRatings.push(session.effectiveness_rating);
@@ -249,7 +510,7 @@ export class StudySessionService {
     }));
 
     // Weekly trends (simplified - could be enhanced)
-    const weeklyTrends = this.calculateWeeklyTrends(sessions);
+    const weeklyTrends = this.calculateWeeklyTrends(sessions, getStudyMinutes);
 
     // Generate recommendations
     const recommendations = this.generateRecommendations(sessions, subjectBreakdown);
@@ -260,13 +521,51 @@ export class StudySessionService {
       sessionsThisWeek,
       retentionRate,
       effectivenessScore,
+      totalFocusTime: segments.reduce((sum, segment) => sum + (segment.duration_minutes || 0), 0),
+      focusBlocksCompleted: segments.filter(segment => segment.completed).length,
       subjectBreakdown,
+      taskBreakdown: this.calculateTaskBreakdown(sessions, segments),
       weeklyTrends,
       recommendations
     };
   }
 
-  private calculateWeeklyTrends(sessions: StudySession[]) {
+  // Focus minutes per session, for sessions run with the focus timer
+  private sumFocusBySession(segments: StudySessionSegment[]): Map<string, number> {
+    const focusBySession = new Map<string, number>();
+    segments.forEach(segment => {
+      focusBySession.set(segment.session_id, (focusBySession.get(segment.session_id) || 0) + (segment.duration_minutes || 0));
+    });
+    return focusBySession;
+  }
+
+  // Time on each task: focus blocks count by their own task, open-ended
+  // sessions by the task they were started for
+  private calculateTaskBreakdown(sessions: StudySession[], segments: StudySessionSegment[]): TaskStudyData[] {
+    const taskMap = new Map<string, TaskStudyData>();
+    const add = (taskId: string, minutes: number, focusBlocks: number, studiedAt: string) => {
+      const existing = taskMap.get(taskId) || { taskId, totalTime: 0, focusBlocks: 0, lastStudied: studiedAt };
+      existing.totalTime += minutes;
+      existing.focusBlocks += focusBlocks;
+      if (studiedAt > existing.lastStudied) existing.lastStudied = studiedAt;
+      taskMap.set(taskId, existing);
+    };
+
+    segments.forEach(segment => {
+      if (segment.task_id) add(segment.task_id, segment.duration_minutes || 0, segment.completed ? 1 : 0, segment.start_time);
+    });
+
+    const timedSessions = new Set(segments.map(segment => segment.session_id));
+    sessions.forEach(session => {
+      if (session.task_id && !timedSessions.has(session.id)) {
+        add(session.task_id, session.duration_minutes || 0, 0, session.start_time);
+      }
+    });
+
+    return Array.from(taskMap.values()).sort((a, b) => b.totalTime - a.totalTime);
+  }
+
+  private calculateWeeklyTrends(sessions: StudySession[], getStudyMinutes: (session: StudySession) => number) {
     const weeklyData = new Map<string, { totalMinutes: number; sessionCount: number; effectivenessRatings: number[] }>();
 
     sessions.forEach(session => {
@@ -276,7 +575,7 @@ export class StudySessionService {
       const weekKey = weekStart.toISOString().split('T')[0];
 
       const existing = weeklyData.get(weekKey) || { totalMinutes: 0, sessionCount: 0, effectivenessRatings: [] };
-      existing.totalMinutes += session.duration_minutes || 0;
+      existing.totalMinutes += getStudyMinutes(session);
       existing.sessionCount += 1;
       if (session.effectiveness_rating !== null && session.effectiveness_rating !== undefined) {
         existing.effectivenessRatings.push(session.effectiveness_rating);
@@ -349,7 +648,10 @@ export class StudySessionService {
       sessionsThisWeek: 0,
       retentionRate: 0,
       effectivenessScore: 0,
+      totalFocusTime: 0,
+      focusBlocksCompleted: 0,
       subjectBreakdown: [],
+      taskBreakdown: [],
       weeklyTrends: [],
       recommendations: []
     };
@@ -23,6 +23,12 @@ export interface Database {
           endTime?: string;
           priority?: 'low' | 'medium' | 'high';
           canvas_uid?: string;
+          recurrence_rule?: string | null;
+          recurrence_exdates?: string[] | null;
+          completed_occurrences?: string[] | null;
+          recurrence_parent_id?: string | null;
+          recurrence_date?: string | null;
+          reminder_offsets?: string[] | null;
           created_at: string;
           updated_at?: string;
         };
@@ -43,6 +49,12 @@ export interface Database {
           endTime?: string;
           priority?: 'low' | 'medium' | 'high';
           canvas_uid?: string;
+          recurrence_rule?: string | null;
+          recurrence_exdates?: string[] | null;
+          completed_occurrences?: string[] | null;
+          recurrence_parent_id?: string | null;
+          recurrence_date?: string | null;
+          reminder_offsets?: string[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -63,6 +75,12 @@ export interface Database {
           endTime?: string;
           priority?: 'low' | 'medium' | 'high';
           canvas_uid?: string;
+          recurrence_rule?: string | null;
+          recurrence_exdates?: string[] | null;
+          completed_occurrences?: string[] | null;
+          recurrence_parent_id?: string | null;
+          recurrence_date?: string | null;
+          reminder_offsets?: string[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -100,6 +118,7 @@ export interface Database {
           name: string;
           color?: string;
           completed_color?: string;
+          reminder_offsets?: string[] | null;
           created_at: string;
           updated_at?: string;
         };
@@ -109,6 +128,7 @@ export interface Database {
           name: string;
           color?: string;
           completed_color?: string;
+          reminder_offsets?: string[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -118,6 +138,7 @@ export interface Database {
           name?: string;
           color?: string;
           completed_color?: string;
+          reminder_offsets?: string[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -195,6 +216,11 @@ export interface Database {
           active_hours_start: number;
           active_hours_end: number;
           email_address?: string;
+          channels?: ('email' | 'push' | 'in_app')[];
+          quiet_hours?: Record<number, { start: string; end: string }> | null;
+          digest_enabled?: boolean;
+          digest_time?: string;
+          time_zone?: string;
           created_at: string;
           updated_at?: string;
         };
@@ -206,6 +232,11 @@ export interface Database {
           active_hours_start?: number;
           active_hours_end?: number;
           email_address?: string;
+          channels?: ('email' | 'push' | 'in_app')[];
+          quiet_hours?: Record<number, { start: string; end: string }> | null;
+          digest_enabled?: boolean;
+          digest_time?: string;
+          time_zone?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -217,6 +248,11 @@ export interface Database {
           active_hours_start?: number;
           active_hours_end?: number;
           email_address?: string;
+          channels?: ('email' | 'push' | 'in_app')[];
+          quiet_hours?: Record<number, { start: string; end: string }> | null;
+          digest_enabled?: boolean;
+          digest_time?: string;
+          time_zone?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -225,38 +261,44 @@ export interface Database {
         Row: {
           id: number;
           user_id: string;
-          task_id: string;
-          email_type: 'assignment_reminder' | 'new_assignment' | 'urgent_deadline';
+          task_id: string | null; // Null for digests
+          email_type: 'assignment_reminder' | 'new_assignment' | 'urgent_deadline' | 'digest';
           sent_at: string;
           opened_at?: string;
           clicked_at?: string;
           email_address: string;
           subject: string;
           message_id?: string;
+          reminder_offset?: string | null; // '3d', '2h' or 'digest:YYYY-MM-DD'
+          channel?: 'email' | 'push' | 'in_app';
         };
         Insert: {
           id?: number;
           user_id: string;
-          task_id: string;
-          email_type: 'assignment_reminder' | 'new_assignment' | 'urgent_deadline';
+          task_id?: string | null;
+          email_type: 'assignment_reminder' | 'new_assignment' | 'urgent_deadline' | 'digest';
           sent_at?: string;
           opened_at?: string;
           clicked_at?: string;
-          email_address: string;
+          email_address?: string;
           subject: string;
           message_id?: string;
+          reminder_offset?: string | null; // '3d', '2h' or 'digest:YYYY-MM-DD'
+          channel?: 'email' | 'push' | 'in_app';
         };
         Update: {
           id?: number;
           user_id?: string;
-          task_id?: string;
-          email_type?: 'assignment_reminder' | 'new_assignment' | 'urgent_deadline';
+          task_id?: string | null;
+          email_type?: 'assignment_reminder' | 'new_assignment' | 'urgent_deadline' | 'digest';
           sent_at?: string;
           opened_at?: string;
           clicked_at?: string;
           email_address?: string;
           subject?: string;
           message_id?: string;
+          reminder_offset?: string | null; // '3d', '2h' or 'digest:YYYY-MM-DD'
+          channel?: 'email' | 'push' | 'in_app';
         };
       };
       assignments: {
@@ -355,6 +397,7 @@ export interface Database {
           name: string;
           weight: number;
           drop_lowest?: number;
+          max_percentage?: number | null;
           color?: string;
           created_at: string;
           updated_at?: string;
@@ -366,6 +409,7 @@ export interface Database {
           name: string;
           weight: number;
           drop_lowest?: number;
+          max_percentage?: number | null;
           color?: string;
           created_at?: string;
           updated_at?: string;
@@ -377,6 +421,7 @@ export interface Database {
           name?: string;
           weight?: number;
           drop_lowest?: number;
+          max_percentage?: number | null;
           color?: string;
           created_at?: string;
           updated_at?: string;
@@ -434,6 +479,10 @@ export interface Database {
           is_completed: boolean;
           final_grade?: string;
           final_gpa?: number;
+          grading_method?: 'weighted' | 'points';
+          course_code?: string;
+          is_major?: boolean;
+          grade_cutoffs?: Record<string, number> | null; // Class's own letter-grade scale, letter -> lowest percentage
           created_at: string;
           updated_at?: string;
         };
@@ -447,6 +496,10 @@ export interface Database {
           is_completed?: boolean;
           final_grade?: string;
           final_gpa?: number;
+          grading_method?: 'weighted' | 'points';
+          course_code?: string;
+          is_major?: boolean;
+          grade_cutoffs?: Record<string, number> | null; // Class's own letter-grade scale, letter -> lowest percentage
           created_at?: string;
           updated_at?: string;
         };
@@ -460,6 +513,10 @@ export interface Database {
           is_completed?: boolean;
           final_grade?: string;
           final_gpa?: number;
+          grading_method?: 'weighted' | 'points';
+          course_code?: string;
+          is_major?: boolean;
+          grade_cutoffs?: Record<string, number> | null; // Class's own letter-grade scale, letter -> lowest percentage
           created_at?: string;
           updated_at?: string;
         };
@@ -517,6 +574,299 @@ export interface Database {
           updated_at?: string;
         };
       };
+      study_session_segments: {
+        Row: {
+          id: string;
+          user_id: string;
+          session_id: string;
+          task_id?: string | null;
+          cycle: number; // 1-based index of the focus block within the session
+          start_time: string;
+          end_time?: string | null;
+          planned_minutes: number;
+          duration_minutes?: number | null;
+          completed: boolean; // False when the block was stopped before its planned length
+          created_at: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          session_id: string;
+          task_id?: string | null;
+          cycle: number;
+          start_time: string;
+          end_time?: string | null;
+          planned_minutes: number;
+          duration_minutes?: number | null;
+          completed?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          session_id?: string;
+          task_id?: string | null;
+          cycle?: number;
+          start_time?: string;
+          end_time?: string | null;
+          planned_minutes?: number;
+          duration_minutes?: number | null;
+          completed?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      calendar_feed_tokens: {
+        Row: {
+          id: string;
+          user_id: string;
+          token: string;
+          label: string;
+          class_ids: string[];
+          task_type_ids: string[];
+          include_completed: boolean;
+          time_zone: string;
+          created_at: string;
+          rotated_at?: string | null;
+          revoked_at?: string | null;
+          last_accessed_at?: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token: string;
+          label: string;
+          class_ids?: string[];
+          task_type_ids?: string[];
+          include_completed?: boolean;
+          time_zone: string;
+          created_at?: string;
+          rotated_at?: string | null;
+          revoked_at?: string | null;
+          last_accessed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token?: string;
+          label?: string;
+          class_ids?: string[];
+          task_type_ids?: string[];
+          include_completed?: boolean;
+          time_zone?: string;
+          created_at?: string;
+          rotated_at?: string | null;
+          revoked_at?: string | null;
+          last_accessed_at?: string | null;
+        };
+      };
+      transfer_credits: {
+        Row: {
+          id: string;
+          user_id: string;
+          institution: string;
+          course_name: string;
+          course_code?: string;
+          credit_hours: number;
+          grade?: string;
+          semester: string;
+          year: number;
+          counts_in_gpa: boolean;
+          is_major: boolean;
+          created_at: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          institution: string;
+          course_name: string;
+          course_code?: string;
+          credit_hours: number;
+          grade?: string;
+          semester: string;
+          year: number;
+          counts_in_gpa?: boolean;
+          is_major?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          institution?: string;
+          course_name?: string;
+          course_code?: string;
+          credit_hours?: number;
+          grade?: string;
+          semester?: string;
+          year?: number;
+          counts_in_gpa?: boolean;
+          is_major?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: 'reminder' | 'deadline' | 'new_assignment' | 'sync_failed' | 'study_session';
+          title: string;
+          body: string;
+          task_id?: string | null;
+          class_id?: string | null;
+          group_key?: string | null; // Notifications sharing a key are shown as one group
+          source_key?: string | null; // Unique per user, so devices never create the same notification twice
+          read_at?: string | null;
+          created_at: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: 'reminder' | 'deadline' | 'new_assignment' | 'sync_failed' | 'study_session';
+          title: string;
+          body: string;
+          task_id?: string | null;
+          class_id?: string | null;
+          group_key?: string | null;
+          source_key?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: 'reminder' | 'deadline' | 'new_assignment' | 'sync_failed' | 'study_session';
+          title?: string;
+          body?: string;
+          task_id?: string | null;
+          class_id?: string | null;
+          group_key?: string | null;
+          source_key?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          endpoint?: string;
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+      };
+      study_concepts: {
+        Row: {
+          id: string;
+          user_id: string;
+          class_id?: string | null;
+          name: string;
+          source: 'syllabus' | 'manual';
+          stability?: number | null; // Days until recall drops to 90%; null before the first review
+          difficulty?: number | null; // 1-10
+          reps: number;
+          lapses: number; // Reviews rated "again" after the first
+          last_review?: string | null;
+          due: string; // YYYY-MM-DD of the next review
+          created_at: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          class_id?: string | null;
+          name: string;
+          source?: 'syllabus' | 'manual';
+          stability?: number | null;
+          difficulty?: number | null;
+          reps?: number;
+          lapses?: number;
+          last_review?: string | null;
+          due: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          class_id?: string | null;
+          name?: string;
+          source?: 'syllabus' | 'manual';
+          stability?: number | null;
+          difficulty?: number | null;
+          reps?: number;
+          lapses?: number;
+          last_review?: string | null;
+          due?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      concept_reviews: {
+        Row: {
+          id: string;
+          user_id: string;
+          concept_id: string;
+          rating: 1 | 2 | 3 | 4; // Again, hard, good, easy
+          reviewed_at: string;
+          elapsed_days: number; // Since the previous review
+          retrievability?: number | null; // Predicted recall at review time; null on the first review
+          stability: number; // After the review
+          difficulty: number; // After the review
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          concept_id: string;
+          rating: 1 | 2 | 3 | 4;
+          reviewed_at: string;
+          elapsed_days: number;
+          retrievability?: number | null;
+          stability: number;
+          difficulty: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          concept_id?: string;
+          rating?: 1 | 2 | 3 | 4;
+          reviewed_at?: string;
+          elapsed_days?: number;
+          retrievability?: number | null;
+          stability?: number;
+          difficulty?: number;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
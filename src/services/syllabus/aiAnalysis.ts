@@ -30,6 +30,9 @@ export interface GeneratedTask {
   courseName?: string;
   sourceText?: string;
   subject?: string;
+  sourceLine?: number;          // 1-based line of the syllabus the task was read from
+  extractedBy?: 'ai' | 'rules'; // AI analysis or the offline schedule extractor
+  classId?: string;             // The user's existing class the course information matched
 }
 
 /**
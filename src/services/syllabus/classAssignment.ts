@@ -6,6 +6,14 @@
 import { logger } from '../../utils/logger';
 import type { GeneratedTask } from './aiAnalysis';
 import type { User } from '@supabase/supabase-js';
+import type { Class } from '../../types/database';
+import {
+  EMPTY_CLASS_RESOLVER_MEMORY,
+  getClassResolverMemory,
+  parseCourseCode,
+  resolveClass,
+  type ClassResolverMemory
+} from '../class/classResolver';
 
 /**
  * Determine the appropriate class for a task based on AI-detected course information
@@ -38,76 +46,9 @@ export async function determineTaskClass(
 
     // Get existing classes for the user
     const existingClasses = await getClasses(user.id, true);
-    
-    // Try to find existing class based on detected course information
+    const matchingClass = findMatchingClass(generatedTask, existingClasses, getClassResolverMemory(user.id));
     const detectedCourseCode = generatedTask.courseCode?.toLowerCase();
     const detectedCourseName = generatedTask.courseName?.toLowerCase();
-    
-    logger.debug('🏫 CLASS ASSIGNMENT: Searching for matching class', {
-      taskTitle: generatedTask.title,
-      detectedCourseCode,
-      detectedCourseName,
-      existingClassCount: existingClasses.length
-    });
-
-    // Enhanced class matching logic (similar to Canvas import)
-    const matchingClass = existingClasses.find(cls => {
-      const classId = cls.id.toLowerCase();
-      const className = cls.name.toLowerCase();
-      
-      // Direct course code match
-      if (detectedCourseCode && classId === detectedCourseCode) {
-        logger.debug('🏫 CLASS ASSIGNMENT: Found direct course code match', {
-          taskTitle: generatedTask.title,
-          matchedClass: cls.name,
-          classId: cls.id
-        });
-        return true;
-      }
-      
-      // Course code in class name
-      if (detectedCourseCode && className.includes(detectedCourseCode)) {
-        logger.debug('🏫 CLASS ASSIGNMENT: Found course code in class name', {
-          taskTitle: generatedTask.title,
-          matchedClass: cls.name,
-          classId: cls.id
-        });
-        return true;
-      }
-      
-      // Course name match
-      if (detectedCourseName && className.includes(detectedCourseName)) {
-        logger.debug('🏫 CLASS ASSIGNMENT: Found course name match', {
-          taskTitle: generatedTask.title,
-          matchedClass: cls.name,
-          classId: cls.id
-        });
-        return true;
-      }
-      
-      // Try subject matching (e.g., CS101 matches Computer Science)
-      if (detectedCourseCode) {
-        const subjectMatch = detectedCourseCode.match(/([a-z]+)(\d+)/);
-        if (subjectMatch) {
-          const [, subject] = subjectMatch;
-          const subjectMappings = getSubjectMappings();
-          
-          const relatedTerms = subjectMappings[subject] || [subject];
-          if (relatedTerms.some(term => className.includes(term))) {
-            logger.debug('🏫 CLASS ASSIGNMENT: Found subject match', {
-              taskTitle: generatedTask.title,
-              subject,
-              relatedTerms,
-              matchedClass: cls.name,
-              classId: cls.id
-            });
-            return true;
-          }
-        }
-      }
-      
-      return false;
-    });
 
     if (matchingClass) {
       logger.debug('🏫 CLASS ASSIGNMENT: Using existing matching class', {
@@ -179,23 +120,32 @@ export async function determineTaskClass(
 }
 
 /**
- * Get subject mappings for course code matching
+ * Find the user's existing class a task's detected course information points
+ * to, with the same resolver Canvas imports use
  */
-export function getSubjectMappings(): { [key: string]: string[] } {
-  return {
-    'cs': ['computer', 'computing'],
-    'math': ['mathematics', 'math'],
-    'ee': ['electrical', 'engineering'],
-    'me': ['mechanical', 'engineering'],
-    'ce': ['computer', 'civil', 'engineering'],
-    'phys': ['physics', 'physical'],
-    'chem': ['chemistry', 'chemical'],
-    'biol': ['biology', 'biological'],
-    'psyc': ['psychology', 'psychological'],
-    'econ': ['economics', 'economic'],
-    'engl': ['english', 'literature'],
-    'hist': ['history', 'historical']
-  };
+export function findMatchingClass<T extends Pick<Class, 'id' | 'name'>>(
+  generatedTask: GeneratedTask,
+  classes: T[],
+  memory: ClassResolverMemory = EMPTY_CLASS_RESOLVER_MEMORY
+): T | undefined {
+  if (!generatedTask.courseCode && !generatedTask.courseName) return undefined;
+
+  const resolution = resolveClass(
+    { courseCode: generatedTask.courseCode, courseName: generatedTask.courseName },
+    classes,
+    memory
+  );
+
+  logger.debug('🏫 CLASS ASSIGNMENT: Searched for matching class', {
+    taskTitle: generatedTask.title,
+    detectedCourseCode: generatedTask.courseCode,
+    detectedCourseName: generatedTask.courseName,
+    existingClassCount: classes.length,
+    matchedClass: resolution?.class.name,
+    matchedBy: resolution?.method
+  });
+
+  return resolution?.class;
 }
 
 /**
@@ -240,104 +190,21 @@ export function generateUserFriendlyClassName(courseCode: string): string {
 }
 
 /**
- * Detect academic subject from task information
+ * Detect academic subject from task information: the subject the AI read from
+ * the syllabus, else the subject letters of the course code
  */
 export function detectSubjectFromTask(generatedTask: GeneratedTask): string {
-  // First, use AI-detected subject if available
-  if (generatedTask.subject) {
-    // Map AI subject to our standard names
-    const subjectMappings: { [key: string]: string } = {
-      'EE': 'Electrical Engineering',
-      'ECE': 'Electrical Engineering', 
-      'Electrical Engineering': 'Electrical Engineering',
-      'CHEM': 'Chemistry',
-      'Chemistry': 'Chemistry',
-      'Chemical': 'Chemistry',
-      'PHYS': 'Physics',
-      'Physics': 'Physics',
-      'Physical Science': 'Physics',
-      'CS': 'Computer Science',
-      'Computer Science': 'Computer Science',
-      'MATH': 'Mathematics',
-      'Mathematics': 'Mathematics'
-    };
-    
-    const mappedSubject = subjectMappings[generatedTask.subject];
-    if (mappedSubject) {
-      logger.debug('📚 SUBJECT DETECTION: Subject detected from AI subject field', {
-        taskTitle: generatedTask.title,
-        aiSubject: generatedTask.subject,
-        mappedSubject
-      });
-      return mappedSubject;
-    }
-  }
+  const subject = generatedTask.subject?.trim()
+    || parseCourseCode(generatedTask.courseCode)?.subject
+    || parseCourseCode(generatedTask.courseName)?.subject;
 
-  // Enhanced fallback: detect from course code or course name
-  const courseInfo = (generatedTask.courseCode || generatedTask.courseName || '').toLowerCase();
-  
-  // Enhanced EE detection patterns
-  if (courseInfo.includes('ee ') || courseInfo.includes('ee1') || courseInfo.includes('ee2') || 
-      courseInfo.includes('ee123') || courseInfo.includes('ee 123') ||
-      courseInfo.includes('ece') || courseInfo.includes('electrical') ||
-      courseInfo.includes('power electronics')) {
-    logger.debug('📚 SUBJECT DETECTION: EE subject detected from course info', {
+  if (!subject) {
+    logger.debug('📚 SUBJECT DETECTION: Subject detection failed, returning Unknown', {
       taskTitle: generatedTask.title,
-      courseInfo: generatedTask.courseCode || generatedTask.courseName
-    });
-    return 'Electrical Engineering';
-  }
-  
-  if (courseInfo.includes('chem') || courseInfo.includes('chemistry')) {
-    return 'Chemistry';
-  }
-  
-  if (courseInfo.includes('phys') || courseInfo.includes('physics')) {
-    return 'Physics';
-  }
-
-  if (courseInfo.includes('cs ') || courseInfo.includes('cs1') || courseInfo.includes('cs2') || 
-      courseInfo.includes('computer')) {
-    return 'Computer Science';
-  }
-
-  if (courseInfo.includes('math') || courseInfo.includes('mathematics')) {
-    return 'Mathematics';
-  }
-
-  // Additional fallback: check task title for subject indicators
-  const taskTitle = generatedTask.title.toLowerCase();
-  
-  // Enhanced EE detection from task content
-  if (taskTitle.includes('power') && (taskTitle.includes('electronic') || taskTitle.includes('electronics'))) {
-    logger.debug('📚 SUBJECT DETECTION: EE subject detected from power electronics in title', {
-      taskTitle: generatedTask.title
-    });
-    return 'Electrical Engineering';
-  }
-  
-  if (taskTitle.includes('circuit') || taskTitle.includes('voltage') || taskTitle.includes('current') || 
-      taskTitle.includes('rectifier') || taskTitle.includes('converter') || taskTitle.includes('inverter')) {
-    logger.debug('📚 SUBJECT DETECTION: EE subject detected from electrical terms in title', {
-      taskTitle: generatedTask.title
-    });
-    return 'Electrical Engineering';
-  }
-
-  // Final fallback: check for common lab patterns that might indicate subject
-  if (taskTitle.includes('lab') && (taskTitle.includes('characterization') || taskTitle.includes('bridge'))) {
-    logger.debug('📚 SUBJECT DETECTION: EE subject inferred from lab content', {
-      taskTitle: generatedTask.title
+      courseCode: generatedTask.courseCode,
+      courseName: generatedTask.courseName
     });
-    return 'Electrical Engineering';
   }
 
-  logger.debug('📚 SUBJECT DETECTION: Subject detection failed, returning Unknown', {
-    taskTitle: generatedTask.title,
-    courseCode: generatedTask.courseCode,
-    courseName: generatedTask.courseName,
-    subject: generatedTask.subject
-  });
-
-  return 'Unknown';
-}
\ No newline at end of file
+  return subject || 'Unknown';
+}
@@ -320,72 +320,83 @@ export function deduplicateAndSortLabs(schedule: LabScheduleEntry[]): LabSchedul
 }
 
 /**
- * Convert date string to ISO format (YYYY-MM-DD)
+ * Convert a "MM/DD", "MM/DD/YY" or "MM/DD/YYYY" date to YYYY-MM-DD, in the
+ * given year when it has none. Dates that don't exist, like 02/30, are
+ * rejected rather than rolled over.
  */
 export function convertDateToISO(dateString: string, currentYear?: number): string | null {
-  try {
-    const year = currentYear || new Date().getFullYear();
-    
-    // Handle MM/DD or MM/DD/YY or MM/DD/YYYY formats
-    const parts = dateString.split('/');
-    if (parts.length < 2) return null;
-    
-    const month = parseInt(parts[0], 10);
-    const day = parseInt(parts[1], 10);
-    let yearToUse = year;
-    
-    if (parts.length === 3) {
-      const yearPart = parseInt(parts[2], 10);
-      if (yearPart < 100) {
-        // Convert 2-digit year to 4-digit (assume 20xx)
-        yearToUse = 2000 + yearPart;
-      } else {
-        yearToUse = yearPart;
-      }
-    }
-    
-    // Validate month and day
-    if (month < 1 || month > 12 || day < 1 || day > 31) {
-      return null;
-    }
-    
-    // Create date and format as ISO string
-    const date = new Date(yearToUse, month - 1, day);
-    return date.toISOString().split('T')[0];
-    
-  } catch (error) {
-    logger.warn('📅 DATE PARSING: Error converting date to ISO', {
-      dateString,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+  const dateMatch = dateString.match(/(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?/);
+  if (!dateMatch) return null;
+
+  const month = parseInt(dateMatch[1], 10);
+  const day = parseInt(dateMatch[2], 10);
+  let year = currentYear || new Date().getFullYear();
+
+  if (dateMatch[3]?.length === 2) {
+    const twoDigitYear = parseInt(dateMatch[3], 10);
+    year = twoDigitYear < 50 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+  } else if (dateMatch[3]?.length === 4) {
+    year = parseInt(dateMatch[3], 10);
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    logger.debug('📅 DATE PARSING: Invalid date', { dateString, year, month, day });
     return null;
   }
+
+  // Formatted from the parts, as toISOString would shift the day in UTC
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 }
 
 /**
- * Find matching lab session for a generated task
+ * Find the lab session in a schedule a generated task is about: by lab
+ * number, then by a significant word the titles share ("Rectifiers" and
+ * "Half-Wave Rectifier Lab")
  */
 export function findMatchingLabSession(
   generatedTask: GeneratedTask,
   labSchedule: LabScheduleEntry[]
 ): LabScheduleEntry | null {
   const taskTitle = generatedTask.title.toLowerCase();
-  
-  // Try to extract lab number/identifier from task title
-  const labMatch = taskTitle.match(/lab\s*(\d+|[a-z]+)/i);
-  if (!labMatch) return null;
-  
-  const labId = labMatch[1].toLowerCase();
-  
-  // Find matching entry in schedule
-  for (const entry of labSchedule) {
-    const entryTitle = entry.title.toLowerCase();
-    const entryMatch = entryTitle.match(/lab\s*(\d+|[a-z]+)/i);
-    
-    if (entryMatch && entryMatch[1].toLowerCase() === labId) {
-      return entry;
-    }
+
+  const labNumberMatch = taskTitle.match(/lab\s*(\d+)/);
+  if (labNumberMatch) {
+    const labNumber = labNumberMatch[1];
+    const numberedSession = labSchedule.find(session => {
+      const sessionNumber = session.title.toLowerCase().match(/lab\s*(\d+)/);
+      return sessionNumber?.[1] === labNumber;
+    });
+    if (numberedSession) return numberedSession;
   }
-  
-  return null;
-}
\ No newline at end of file
+
+  const taskWords = taskTitle.split(/\s+/).filter(word => word.length > 3);
+  return labSchedule.find(session => {
+    const sessionWords = session.title.toLowerCase().split(/\s+/).filter(word => word.length > 3);
+    return taskWords.some(taskWord =>
+      sessionWords.some(sessionWord => sessionWord.includes(taskWord) || taskWord.includes(sessionWord))
+    );
+  }) || null;
+}
+
+/**
+ * The date a generated task is due on the calendar: its due date, else for
+ * labs the session (when the lab is done) before the date it was assigned,
+ * and for other tasks the other way round
+ */
+export function determineFinalDueDate(generatedTask: GeneratedTask): string | undefined {
+  if (generatedTask.dueDate) return generatedTask.dueDate;
+
+  const isLab = generatedTask.taskType?.toLowerCase() === 'lab';
+  const finalDueDate = isLab
+    ? generatedTask.sessionDate || generatedTask.assignmentDate
+    : generatedTask.assignmentDate || generatedTask.sessionDate;
+
+  if (!finalDueDate) {
+    logger.warn('📅 DATE PARSING: No date available for task - it will not appear on the calendar', {
+      taskTitle: generatedTask.title,
+      taskType: generatedTask.taskType
+    });
+  }
+  return finalDueDate;
+}
@@ -0,0 +1,179 @@
+/**
+ * Deduplication Module - Finds generated tasks that are the same piece of work
+ * Used to drop repeats within one extraction and to flag tasks the class
+ * already has in review
+ */
+
+import { logger } from '../../utils/logger';
+import type { GeneratedTask } from './aiAnalysis';
+
+export type DuplicateMatchType = 'exact' | 'numberBased' | 'dateBased' | 'none';
+
+export interface DuplicateMatch {
+  isDuplicate: boolean;
+  type: DuplicateMatchType;
+  confidence: number;
+}
+
+// Numbered work: "Lab 1", "HW 2", "Quiz 3"
+const NUMBERED_TASK_PATTERNS = [
+  /(?:lab|laboratory)\s*(\d+)/i,
+  /(?:hw|homework|assignment)\s*(\d+)/i,
+  /(?:quiz|test)\s*(\d+)/i,
+  /(?:project|proj)\s*(\d+)/i,
+  /(?:exam|midterm|final)\s*(\d+)/i,
+  /(?:reading|chapter)\s*(\d+)/i,
+  /(?:discussion|disc)\s*(\d+)/i
+];
+
+const RELATED_TYPES = [
+  ['assignment', 'homework'],
+  ['lab', 'laboratory'],
+  ['quiz', 'test'],
+  ['exam', 'midterm', 'final'],
+  ['project', 'proj'],
+  ['discussion', 'disc']
+];
+
+const NO_MATCH: DuplicateMatch = { isDuplicate: false, type: 'none', confidence: 0 };
+
+const normalizeTitle = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const taskDate = (task: GeneratedTask): string | undefined =>
+  task.dueDate || task.assignmentDate || task.sessionDate;
+
+const taskTypeOf = (task: GeneratedTask): string => task.taskType?.toLowerCase() || '';
+
+function areTypesRelated(type1: string, type2: string): boolean {
+  return type1 === type2 || RELATED_TYPES.some(group => group.includes(type1) && group.includes(type2));
+}
+
+/**
+ * Whether two dates are within toleranceDays of each other; two missing
+ * dates count as close
+ */
+function areDatesClose(date1: string | undefined, date2: string | undefined, toleranceDays: number): boolean {
+  if (!date1 && !date2) return true;
+  if (!date1 || !date2) return false;
+
+  const d1 = new Date(date1);
+  const d2 = new Date(date2);
+  if (isNaN(d1.getTime()) || isNaN(d2.getTime())) return false;
+
+  return Math.abs(d1.getTime() - d2.getTime()) / (1000 * 60 * 60 * 24) <= toleranceDays;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, by Levenshtein distance
+ */
+function calculateTitleSimilarity(str1: string, str2: string): number {
+  const len1 = str1.length;
+  const len2 = str2.length;
+  if (len1 === 0) return len2 === 0 ? 1 : 0;
+  if (len2 === 0) return 0;
+
+  const matrix: number[][] = [];
+  for (let i = 0; i <= len1; i++) matrix[i] = [i];
+  for (let j = 0; j <= len2; j++) matrix[0][j] = j;
+
+  for (let i = 1; i <= len1; i++) {
+    for (let j = 1; j <= len2; j++) {
+      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(matrix[i - 1][j] + 1, matrix[i][j - 1] + 1, matrix[i - 1][j - 1] + cost);
+    }
+  }
+
+  const maxLen = Math.max(len1, len2);
+  return (maxLen - matrix[len1][len2]) / maxLen;
+}
+
+/**
+ * Same title and type, due within a day of each other
+ */
+export function isExactTaskMatch(task1: GeneratedTask, task2: GeneratedTask): boolean {
+  return normalizeTitle(task1.title) === normalizeTitle(task2.title) &&
+    taskTypeOf(task1) === taskTypeOf(task2) &&
+    areDatesClose(taskDate(task1), taskDate(task2), 1);
+}
+
+/**
+ * Same number of the same kind of work ("Lab 1" and "Lab #1"); different
+ * numbers are never duplicates
+ */
+function isNumberBasedMatch(task1: GeneratedTask, task2: GeneratedTask): boolean {
+  for (const pattern of NUMBERED_TASK_PATTERNS) {
+    const match1 = task1.title.match(pattern);
+    const match2 = task2.title.match(pattern);
+    if (!match1 || !match2) continue;
+    if (match1[1] !== match2[1]) return false;
+    if (areTypesRelated(taskTypeOf(task1), taskTypeOf(task2))) return true;
+  }
+  return false;
+}
+
+/**
+ * Same type on the same day with similar titles
+ */
+function dateBasedMatchConfidence(task1: GeneratedTask, task2: GeneratedTask): number {
+  const date1 = taskDate(task1);
+  const date2 = taskDate(task2);
+  if (taskTypeOf(task1) !== taskTypeOf(task2) || !date1 || !date2 || !areDatesClose(date1, date2, 0)) {
+    return 0;
+  }
+
+  const titleSimilarity = calculateTitleSimilarity(normalizeTitle(task1.title), normalizeTitle(task2.title));
+  return titleSimilarity >= 0.5 ? titleSimilarity * 0.8 : 0;
+}
+
+/**
+ * Check if two tasks are duplicates: exact matches, the same numbered piece
+ * of work, or similar titles of the same type on the same day
+ */
+export function checkIfTasksDuplicate(task1: GeneratedTask, task2: GeneratedTask): DuplicateMatch {
+  if (isExactTaskMatch(task1, task2)) {
+    return { isDuplicate: true, type: 'exact', confidence: 1.0 };
+  }
+
+  if (isNumberBasedMatch(task1, task2)) {
+    return { isDuplicate: true, type: 'numberBased', confidence: 0.9 };
+  }
+
+  const dateConfidence = dateBasedMatchConfidence(task1, task2);
+  if (dateConfidence > 0) {
+    return { isDuplicate: true, type: 'dateBased', confidence: dateConfidence };
+  }
+
+  return NO_MATCH;
+}
+
+/**
+ * Drop exact repeats from one extraction, keeping the more confident copy in
+ * the place of the first. Looser matches are left for the user to merge in
+ * review, since numbered labs and sections are easily mistaken for repeats.
+ */
+export function deduplicateTasks<T extends GeneratedTask>(tasks: T[]): T[] {
+  const uniqueTasks: T[] = [];
+
+  for (const task of tasks) {
+    const index = uniqueTasks.findIndex(kept => isExactTaskMatch(kept, task));
+    if (index === -1) {
+      uniqueTasks.push(task);
+    } else if (task.confidenceScore > uniqueTasks[index].confidenceScore) {
+      uniqueTasks[index] = task;
+    }
+  }
+
+  if (uniqueTasks.length < tasks.length) {
+    logger.info('🔁 DEDUPLICATION: Removed repeated tasks', {
+      originalCount: tasks.length,
+      deduplicatedCount: uniqueTasks.length
+    });
+  }
+
+  return uniqueTasks;
+}
@@ -0,0 +1,93 @@
+/**
+ * Extraction Feedback Module - Remembers the tasks users turn down when reviewing
+ * a syllabus extraction, so the next extraction for the class can flag them
+ */
+
+import { logger } from '../../utils/logger';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import type { GeneratedTask } from './aiAnalysis';
+
+export const SYLLABUS_REJECTIONS_KEY = 'syllabus_task_rejections';
+
+const MAX_STORED_REJECTIONS = 500;
+
+// Rejected outright, a duplicate of a task already in the class, or merged into another
+export type RejectionReason = 'rejected' | 'duplicate' | 'merged';
+
+export interface TaskRejection {
+  userId: string;
+  classId: string;
+  title: string;
+  taskType: string;
+  dueDate?: string;
+  confidenceScore: number;
+  extractedBy?: GeneratedTask['extractedBy'];
+  sourceText?: string;
+  reason: RejectionReason;
+  rejectedAt: string;
+}
+
+const normalizeTitle = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Rejections for a user, optionally only those from one class
+ */
+export function getTaskRejections(userId: string, classId?: string): TaskRejection[] {
+  return getLocalData<TaskRejection[]>(SYLLABUS_REJECTIONS_KEY, []).filter(rejection =>
+    rejection.userId === userId && (!classId || rejection.classId === classId)
+  );
+}
+
+/**
+ * Record the tasks turned down in a review, keeping the most recent ones
+ */
+export function recordTaskRejections(
+  userId: string,
+  classId: string,
+  rejected: Array<{ task: GeneratedTask; reason: RejectionReason }>
+): void {
+  if (rejected.length === 0) return;
+
+  const rejectedAt = new Date().toISOString();
+  const rejections: TaskRejection[] = rejected.map(({ task, reason }) => ({
+    userId,
+    classId,
+    title: task.title,
+    taskType: task.taskType,
+    dueDate: task.dueDate,
+    confidenceScore: task.confidenceScore,
+    extractedBy: task.extractedBy,
+    sourceText: task.sourceText,
+    reason,
+    rejectedAt
+  }));
+
+  const stored = getLocalData<TaskRejection[]>(SYLLABUS_REJECTIONS_KEY, []);
+  saveLocalData(SYLLABUS_REJECTIONS_KEY, [...stored, ...rejections].slice(-MAX_STORED_REJECTIONS));
+
+  logger.info('📝 EXTRACTION FEEDBACK: Recorded rejected syllabus tasks', {
+    classId,
+    rejected: rejections.length,
+    byReason: rejections.reduce<Record<string, number>>((counts, rejection) => {
+      counts[rejection.reason] = (counts[rejection.reason] || 0) + 1;
+      return counts;
+    }, {}),
+    byExtractor: rejections.reduce<Record<string, number>>((counts, rejection) => {
+      const extractor = rejection.extractedBy || 'unknown';
+      counts[extractor] = (counts[extractor] || 0) + 1;
+      return counts;
+    }, {}),
+    averageConfidence: rejections.reduce((sum, rejection) => sum + rejection.confidenceScore, 0) / rejections.length
+  });
+}
+
+/**
+ * Whether a task was turned down outright in an earlier review of the class
+ */
+export function wasRejectedBefore(task: GeneratedTask, rejections: TaskRejection[]): boolean {
+  const title = normalizeTitle(task.title);
+  return rejections.some(rejection =>
+    rejection.reason === 'rejected' && normalizeTitle(rejection.title) === title
+  );
+}
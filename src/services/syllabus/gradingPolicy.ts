@@ -0,0 +1,266 @@
+/**
+ * Grading Policy Module - Rule-based extraction of a syllabus's grading policy
+ * Reads the category weights ("Homework 20%"), drop rules and letter-grade
+ * scale, and checks the weights add up to 100%
+ */
+
+import { logger } from '../../utils/logger';
+import type { GeneratedTask } from './aiAnalysis';
+
+// Grading policy extraction configuration
+const GRADING_POLICY_CONFIG = {
+  WEIGHT_TOLERANCE: 0.5, // Percentage points of rounding allowed in the total
+  MAX_NAME_WORDS: 5,     // Longer names are prose, not categories
+  MIN_CUTOFF_LETTERS: 2,
+  MAX_SCALE_ROW_WORDS: 5 // A line with a single letter grade must be short, like a table row
+} as const;
+
+// Highest to lowest; F is whatever falls below the lowest cutoff
+export const LETTER_GRADES = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-'] as const;
+
+// Letter grade to the lowest percentage that earns it
+export type GradeCutoffs = Record<string, number>;
+
+export interface GradingPolicyCategory {
+  name: string;
+  weight: number;      // Percent of the final grade
+  dropLowest: number;  // Lowest scores dropped
+  sourceLine: number;  // 1-based line of the syllabus
+  sourceText: string;
+}
+
+export interface GradingPolicy {
+  categories: GradingPolicyCategory[];
+  cutoffs: GradeCutoffs | null;
+  totalWeight: number;
+  isComplete: boolean; // Weights add up to 100%
+  warnings: string[];
+}
+
+const NUMBER = '(\\d{1,3}(?:\\.\\d+)?)';
+const LETTER = '([A-D][+\\-−]?|F)';
+const RANGE_DASH = '\\s*(?:-|–|—|to)\\s*';
+
+// "Homework 20%", "Midterm: 25%", "Final exam ..... 35%", "Labs (15%)", "Quizzes are worth 10%"
+const CATEGORY_WEIGHT = new RegExp(
+  `([A-Za-z][A-Za-z&/' ]*?)(?:\\s*\\([^)]*\\))?\\s*(?:[:=–—-]|\\.{2,}|…|\\b(?:is|are|counts? for|accounts? for|(?:is |are )?worth)\\b)?\\s*\\(?${NUMBER}\\s*%`,
+  'g'
+);
+
+// "A 93-100", "A: 90%", "B+ >= 87", "A - 93 to 100"
+const LETTER_THEN_SCORE = new RegExp(
+  `(?:^|[\\s,;(])${LETTER}\\s*(?:[:=)]|\\s[-–—]\\s|\\s)?\\s*(?:[≥>]=?\\s*)?${NUMBER}\\s*%?(?:${RANGE_DASH}${NUMBER}\\s*%?)?`,
+  'g'
+);
+
+// "93-100 A", "90 – 100% = A"
+const SCORE_THEN_LETTER = new RegExp(`${NUMBER}\\s*%?${RANGE_DASH}${NUMBER}\\s*%?\\s*[:=]?\\s*${LETTER}(?![A-Za-z])`, 'g');
+
+// Percentages that aren't category weights
+const NOT_A_WEIGHT = /\b(late|penalt\w*|deduct\w*|per (?:day|hour|week)|los(?:e|es|t)|off|extra credit|bonus|curve|attendance below)\b/i;
+const NOT_A_NAME = /\b(you|your|we|our|will|must|need|least|than|more|less|over|under|get|earn|receive|total|overall|average)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+const DROP_RULE = /\bdrop(?:s|ped|ping)?\b/i;
+const DROP_COUNT = /\blowest\s+(\d|one|two|three|four|five)\b|\b(\d|one|two|three|four|five)\s+lowest\b/i;
+
+// Words in a task title or type that point at a category
+const CATEGORY_ALIASES: Record<string, string[]> = {
+  assignment: ['homework', 'assignment', 'problem', 'hw', 'pset'],
+  exam: ['exam', 'midterm', 'final', 'test'],
+  quiz: ['quiz'],
+  project: ['project'],
+  lab: ['lab', 'laboratory'],
+  reading: ['reading', 'response'],
+  discussion: ['discussion', 'participation', 'forum', 'post']
+};
+
+const STOP_WORDS = new Set(['and', 'of', 'the', 'in', 'class', 'course', 'grade', 'score', 'scores']);
+
+const stem = (word: string): string =>
+  word.toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/zzes$/, 'z')
+    .replace(/zes$/, 'z')
+    .replace(/ies$/, 'y')
+    .replace(/([^s])s$/, '$1');
+
+const significantWords = (text: string): string[] =>
+  text.split(/[\s/&:-]+/).map(stem).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+const normalizeLetter = (letter: string): string => letter.replace('−', '-');
+
+const cleanCategoryName = (name: string): string =>
+  name.replace(/\s+/g, ' ').replace(/\b(?:is|are|worth)$/i, '').trim();
+
+const isLetterGrade = (name: string): boolean => /^[A-DF][+-]?$/.test(name);
+
+/**
+ * Category weights read from one line, with any drop rule on the same line
+ */
+function parseCategoryLine(line: string, lineIndex: number): GradingPolicyCategory[] {
+  if (NOT_A_WEIGHT.test(line)) return [];
+
+  const text = line.replace(/[|\t]/g, '  ');
+  const categories: GradingPolicyCategory[] = [];
+  for (const match of text.matchAll(CATEGORY_WEIGHT)) {
+    const name = cleanCategoryName(match[1]);
+    const weight = parseFloat(match[2]);
+    if (!name || isLetterGrade(name) || NOT_A_NAME.test(name)) continue;
+    if (name.split(' ').length > GRADING_POLICY_CONFIG.MAX_NAME_WORDS || weight <= 0 || weight > 100) continue;
+
+    categories.push({ name, weight, dropLowest: 0, sourceLine: lineIndex + 1, sourceText: line.trim() });
+  }
+
+  // A drop rule on a line with one category is that category's
+  if (categories.length === 1 && DROP_RULE.test(line)) {
+    categories[0].dropLowest = parseDropCount(line);
+  }
+  return categories;
+}
+
+function parseDropCount(line: string): number {
+  const match = DROP_COUNT.exec(line);
+  const count = match?.[1] || match?.[2];
+  if (!count) return 1;
+  return NUMBER_WORDS[count.toLowerCase()] ?? parseInt(count, 10);
+}
+
+/**
+ * The category a drop rule like "your lowest quiz score is dropped" is about
+ */
+function findDropRuleCategory(line: string, categories: GradingPolicyCategory[]): GradingPolicyCategory | undefined {
+  const lineWords = new Set(significantWords(line));
+  return categories.find(category => significantWords(category.name).some(word => lineWords.has(word)));
+}
+
+/**
+ * Letter-grade cutoffs read from one line
+ */
+function parseCutoffLine(line: string): Array<[string, number]> {
+  const text = line.replace(/[|\t]/g, ' ');
+  const found: Array<[string, number]> = [];
+
+  for (const match of text.matchAll(LETTER_THEN_SCORE)) {
+    const values = [match[2], match[3]].filter(Boolean).map(value => parseFloat(value));
+    found.push([normalizeLetter(match[1]), Math.min(...values)]);
+  }
+  if (found.length === 0) {
+    for (const match of text.matchAll(SCORE_THEN_LETTER)) {
+      found.push([normalizeLetter(match[3]), Math.min(parseFloat(match[1]), parseFloat(match[2]))]);
+    }
+  }
+
+  // "A 10-page paper is due Friday" is prose, not a scale row
+  const isScaleRow = found.length > 1 || text.trim().split(/\s+/).length <= GRADING_POLICY_CONFIG.MAX_SCALE_ROW_WORDS;
+  return isScaleRow ? found : [];
+}
+
+/**
+ * Cutoffs are only kept when several letters are found and they go down in
+ * order, so a stray "A 5" in prose doesn't become a grade scale
+ */
+function validateCutoffs(found: Array<[string, number]>, warnings: string[]): GradeCutoffs | null {
+  const cutoffs: GradeCutoffs = {};
+  for (const [letter, min] of found) {
+    if (letter === 'F' || letter in cutoffs || min < 0 || min > 100) continue;
+    cutoffs[letter] = min;
+  }
+
+  const letters = LETTER_GRADES.filter(letter => letter in cutoffs);
+  if (letters.length < GRADING_POLICY_CONFIG.MIN_CUTOFF_LETTERS) return null;
+
+  const descending = letters.every((letter, index) => index === 0 || cutoffs[letters[index - 1]] > cutoffs[letter]);
+  if (!descending) {
+    warnings.push('The letter-grade scale in the syllabus could not be read reliably, so it was left out');
+    return null;
+  }
+  return cutoffs;
+}
+
+/**
+ * Extract the grading policy of a syllabus: category weights, drop rules and
+ * the class's letter-grade cutoffs
+ */
+export function extractGradingPolicy(content: string): GradingPolicy {
+  const lines = content.split(/\r?\n/);
+  const warnings: string[] = [];
+  const categories: GradingPolicyCategory[] = [];
+  const dropRuleLines: string[] = [];
+  const cutoffMatches: Array<[string, number]> = [];
+
+  lines.forEach((line, lineIndex) => {
+    const cutoffs = parseCutoffLine(line);
+    if (cutoffs.length > 0) {
+      cutoffMatches.push(...cutoffs);
+      return;
+    }
+
+    const lineCategories = parseCategoryLine(line, lineIndex);
+    if (lineCategories.length === 0 && DROP_RULE.test(line) && /\blowest\b/i.test(line)) {
+      dropRuleLines.push(line);
+    }
+
+    // Breakdowns are often repeated; the first mention of a category wins
+    for (const category of lineCategories) {
+      const key = significantWords(category.name).join(' ');
+      const existing = categories.find(other => significantWords(other.name).join(' ') === key);
+      if (!existing) {
+        categories.push(category);
+      } else if (existing.weight !== category.weight) {
+        warnings.push(`"${existing.name}" is listed as both ${existing.weight}% and ${category.weight}%; using ${existing.weight}%`);
+      }
+    }
+  });
+
+  for (const line of dropRuleLines) {
+    const category = findDropRuleCategory(line, categories);
+    if (category && category.dropLowest === 0) category.dropLowest = parseDropCount(line);
+  }
+
+  const totalWeight = Math.round(categories.reduce((sum, category) => sum + category.weight, 0) * 100) / 100;
+  const isComplete = categories.length > 0 && Math.abs(totalWeight - 100) <= GRADING_POLICY_CONFIG.WEIGHT_TOLERANCE;
+  if (categories.length > 0 && !isComplete) {
+    warnings.push(`The grade categories in the syllabus add up to ${totalWeight}%, not 100%. Check the weights before using them.`);
+  }
+
+  const cutoffs = validateCutoffs(cutoffMatches, warnings);
+
+  logger.info('📊 GRADING POLICY: Extracted grading policy from syllabus', {
+    categories: categories.length,
+    totalWeight,
+    isComplete,
+    dropRules: categories.filter(category => category.dropLowest > 0).length,
+    cutoffLetters: cutoffs ? Object.keys(cutoffs).length : 0
+  });
+
+  return { categories, cutoffs, totalWeight, isComplete, warnings };
+}
+
+/**
+ * The grade category a task most likely belongs to: by the words of its
+ * title first, then by its type
+ */
+export function matchCategoryForTask<T extends { name: string }>(
+  task: Pick<GeneratedTask, 'title' | 'taskType'>,
+  categories: T[]
+): T | undefined {
+  const titleWords = new Set(significantWords(task.title));
+  const typeWords = new Set(CATEGORY_ALIASES[task.taskType?.toLowerCase()] || [task.taskType?.toLowerCase()]);
+  const titleAliases = new Set(
+    Object.values(CATEGORY_ALIASES).filter(aliases => aliases.some(alias => titleWords.has(alias))).flat()
+  );
+
+  let best: { category: T; score: number } | undefined;
+  for (const category of categories) {
+    const words = significantWords(category.name);
+    const score = words.reduce((sum, word) => {
+      if (titleWords.has(word)) return sum + 3;
+      if (titleAliases.has(word)) return sum + 2;
+      if (typeWords.has(word)) return sum + 1;
+      return sum;
+    }, 0);
+    if (score > 0 && (!best || score > best.score)) best = { category, score };
+  }
+  return best?.category;
+}
@@ -4,13 +4,77 @@
  */
 
 // Re-export all functionality for backward compatibility
-export { validateSyllabusForTaskGeneration, validateGeneratedTasks } from './validation';
-export { callAIAnalysis, callAIAnalysisEdgeFunction, parseGeminiResponse } from './aiAnalysis';
-export { enhanceLabTasksWithManualDateParsing, parseLabScheduleFromDocumentChunks } from './dateParser';
-export { determineTaskClass } from './classAssignment';
+export {
+  VALID_TASK_TYPES,
+  validateSyllabusForTaskGeneration,
+  validateGeneratedTasks,
+  isValidTaskType,
+  getConfidenceThreshold,
+  meetsConfidenceThreshold,
+  inferTaskType
+} from './validation';
+export { callAIAnalysis, callAIAnalysisEdgeFunction, parseGeminiResponse, detectAcademicContent } from './aiAnalysis';
+export {
+  enhanceLabTasksWithManualDateParsing,
+  parseLabScheduleFromDocumentChunks,
+  convertDateToISO,
+  findMatchingLabSession,
+  determineFinalDueDate
+} from './dateParser';
+export { extractScheduleTasks, crossCheckScheduleTasks } from './scheduleExtractor';
+export {
+  REVIEW_CONFIDENCE_THRESHOLDS,
+  getReviewConfidence,
+  findSourceSpan,
+  mergeGeneratedTasks,
+  mergeReviewItems,
+  getTaskReviewOutcome
+} from './taskReview';
+export { LETTER_GRADES, extractGradingPolicy, matchCategoryForTask } from './gradingPolicy';
+export { SYLLABUS_REJECTIONS_KEY, getTaskRejections, recordTaskRejections, wasRejectedBefore } from './extractionFeedback';
+export { determineTaskClass, findMatchingClass } from './classAssignment';
+export { checkIfTasksDuplicate, isExactTaskMatch, deduplicateTasks } from './deduplication';
+export { DEFAULT_SYLLABUS_PIPELINE, getStageCacheKeys, runSyllabusPipeline } from './pipeline/runner';
+export { textStage, normalizeSyllabusText } from './pipeline/textStage';
+export { segmentStage, segmentSyllabus, readHeading, findSection } from './pipeline/segmentStage';
+export {
+  candidateStage,
+  createCandidateStage,
+  aiCandidateExtractor,
+  scheduleCandidateExtractor
+} from './pipeline/candidateStage';
+export { dateStage } from './pipeline/dateStage';
+export { classifyStage } from './pipeline/classifyStage';
+export { dedupeStage } from './pipeline/dedupeStage';
+export { validateStage } from './pipeline/validateStage';
 export { getOrCreateTaskTypeViaServiceLayer, getOrCreateTaskTypeLegacy, getEstimatedDurationForTaskType } from './taskTypeUtils';
 
 // Export types
 export type { GeneratedTask, SyllabusAnalysisData } from './aiAnalysis';
 export type { ValidationResult } from './validation';
-export type { LabScheduleEntry } from './dateParser';
\ No newline at end of file
+export type { LabScheduleEntry } from './dateParser';
+export type {
+  ScheduleExtractionOptions,
+  ScheduleExtractionResult,
+  ScheduleCrossCheck,
+  ScheduleTask,
+  TermStartSource
+} from './scheduleExtractor';
+export type { ReviewConfidence, ReviewDuplicate, TaskReviewItem, SourceSpan, TaskReviewOutcome } from './taskReview';
+export type { GradeCutoffs, GradingPolicy, GradingPolicyCategory } from './gradingPolicy';
+export type { RejectionReason, TaskRejection } from './extractionFeedback';
+export type { DuplicateMatch, DuplicateMatchType } from './deduplication';
+export type {
+  CandidateExtractor,
+  CandidateSet,
+  PipelineContext,
+  PipelineResult,
+  PipelineStage,
+  StageCache,
+  StageRun,
+  StageScope,
+  SyllabusDocument,
+  SyllabusPipeline,
+  SyllabusSection,
+  TaskStage
+} from './pipeline/types';
\ No newline at end of file
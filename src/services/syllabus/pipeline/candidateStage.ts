@@ -0,0 +1,118 @@
+/**
+ * Candidate Stage - Reads possible tasks out of the syllabus with a list of
+ * extractors. The default list is the AI analysis, then the rule-based
+ * schedule extractor, which checks the AI's dates and stands in for it when
+ * it is unavailable.
+ */
+
+import { logger } from '../../../utils/logger';
+import { callAIAnalysisEdgeFunction, parseGeminiResponse } from '../aiAnalysis';
+import {
+  extractScheduleTasks,
+  crossCheckScheduleTasks,
+  getReferenceTerm,
+  type ScheduleTask
+} from '../scheduleExtractor';
+import type { CandidateExtractor, CandidateSet, PipelineStage, SyllabusDocument } from './types';
+
+export const aiCandidateExtractor: CandidateExtractor = {
+  name: 'ai',
+  label: 'AI analysis',
+  async extract(document, context) {
+    const aiResponse = await callAIAnalysisEdgeFunction({
+      syllabusText: document.text,
+      className: context.className,
+      courseName: context.className
+    });
+    const tasks = parseGeminiResponse(aiResponse).map(task => ({ ...task, extractedBy: 'ai' as const }));
+    return { tasks, warnings: [] };
+  }
+};
+
+export const scheduleCandidateExtractor: CandidateExtractor<ScheduleTask> = {
+  name: 'schedule',
+  label: 'the course schedule',
+  async extract(document, context) {
+    const { tasks, warnings } = extractScheduleTasks(document.text, { academicSystem: context.academicSystem });
+    return { tasks, warnings };
+  },
+  // Schedules of syllabi that name no term are dated from the current one
+  cacheVariant: context => getReferenceTerm(context.academicSystem),
+  combine(earlier, own) {
+    const crossCheck = crossCheckScheduleTasks(earlier.tasks, own.tasks);
+    // The schedule's own warnings (guessed week 1) only matter if its tasks are used
+    const usesSchedule = crossCheck.tasks.some(task => task.extractedBy === 'rules');
+    return {
+      tasks: crossCheck.tasks,
+      warnings: [...earlier.warnings, ...crossCheck.warnings, ...(usesSchedule ? own.warnings : [])]
+    };
+  }
+};
+
+const appendCandidates = (earlier: CandidateSet, own: CandidateSet): CandidateSet => ({
+  tasks: [...earlier.tasks, ...own.tasks],
+  warnings: [...earlier.warnings, ...own.warnings]
+});
+
+/**
+ * The candidate stage for a list of extractors. An extractor that fails is
+ * skipped with a warning, as long as another one found something.
+ */
+export function createCandidateStage(
+  extractors: CandidateExtractor[],
+  version = 1
+): PipelineStage<SyllabusDocument, CandidateSet> {
+  return {
+    name: `candidates:${extractors.map(extractor => extractor.name).join('+')}`,
+    version,
+    scope: 'class',
+    cache: true,
+    cacheVariant: context => extractors
+      .map(extractor => extractor.cacheVariant?.(context))
+      .filter(Boolean)
+      .join('+'),
+    async run(document, context) {
+      let result: CandidateSet | null = null;
+      const failed: Array<{ extractor: CandidateExtractor; error: unknown }> = [];
+
+      for (const extractor of extractors) {
+        try {
+          const own = await extractor.extract(document, context);
+          result = result ? (extractor.combine ?? appendCandidates)(result, own) : own;
+        } catch (error) {
+          logger.warn('⚠️ CANDIDATES: Extractor failed', {
+            extractor: extractor.name,
+            classId: context.classId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          failed.push({ extractor, error });
+        }
+      }
+
+      if (!result || (result.tasks.length === 0 && failed.length > 0)) {
+        throw failed[0]?.error ?? new Error('No candidate extractors configured');
+      }
+
+      if (failed.length > 0) {
+        const used = extractors.filter(extractor => !failed.some(failure => failure.extractor === extractor));
+        result = {
+          ...result,
+          warnings: [
+            `${failed.map(failure => failure.extractor.label).join(' and ')} was unavailable, so ${result.tasks.length} tasks were read from ${used.map(extractor => extractor.label).join(' and ')} instead. Please review them before adding.`,
+            ...result.warnings
+          ]
+        };
+      }
+
+      logger.info('🔍 CANDIDATES: Extracted candidate tasks', {
+        extractors: extractors.map(extractor => extractor.name),
+        failed: failed.map(failure => failure.extractor.name),
+        candidates: result.tasks.length
+      });
+
+      return result;
+    }
+  };
+}
+
+export const candidateStage = createCandidateStage([aiCandidateExtractor, scheduleCandidateExtractor]);
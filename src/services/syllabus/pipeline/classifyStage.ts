@@ -0,0 +1,26 @@
+/**
+ * Classify Stage - Gives each task a type it can be created with, and the
+ * user's existing class its course information points to. Classes that don't
+ * exist yet are created when the tasks are.
+ */
+
+import { findMatchingClass } from '../classAssignment';
+import { inferTaskType, isValidTaskType } from '../validation';
+import type { TaskStage } from './types';
+
+export const classifyStage: TaskStage = {
+  name: 'classify',
+  version: 1,
+  scope: 'run',
+  cache: false,
+  async run(candidates, context) {
+    return {
+      ...candidates,
+      tasks: candidates.tasks.map(task => ({
+        ...task,
+        taskType: isValidTaskType(task.taskType) ? task.taskType : inferTaskType(task.title, task.description || ''),
+        classId: task.classId ?? findMatchingClass(task, context.classes, context.classMemory)?.id
+      }))
+    };
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Date Stage - Fills in lab dates from the class's lab schedule, then sets
+ * each task's due date from the dates it has
+ */
+
+import { enhanceLabTasksWithManualDateParsing, determineFinalDueDate } from '../dateParser';
+import type { TaskStage } from './types';
+
+export const dateStage: TaskStage = {
+  name: 'dates',
+  version: 1,
+  scope: 'run',
+  cache: false,
+  async run(candidates, context) {
+    const enhanced = await enhanceLabTasksWithManualDateParsing(candidates.tasks, context.classId);
+    return {
+      ...candidates,
+      tasks: enhanced.map(task => ({ ...task, dueDate: determineFinalDueDate(task) }))
+    };
+  }
+};
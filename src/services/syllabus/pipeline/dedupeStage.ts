@@ -0,0 +1,15 @@
+/**
+ * Dedupe Stage - Drops tasks read more than once, e.g. by both the AI and the
+ * schedule, or from a syllabus that lists its deadlines twice
+ */
+
+import { deduplicateTasks } from '../deduplication';
+import type { TaskStage } from './types';
+
+export const dedupeStage: TaskStage = {
+  name: 'dedupe',
+  version: 1,
+  scope: 'content',
+  cache: false,
+  run: async candidates => ({ ...candidates, tasks: deduplicateTasks(candidates.tasks) })
+};
@@ -0,0 +1,135 @@
+/**
+ * Pipeline Runner - Runs the syllabus stages in order, resuming from the
+ * latest cached stage output
+ */
+
+import { logger } from '../../../utils/logger';
+import { textStage } from './textStage';
+import { segmentStage } from './segmentStage';
+import { candidateStage } from './candidateStage';
+import { dateStage } from './dateStage';
+import { classifyStage } from './classifyStage';
+import { dedupeStage } from './dedupeStage';
+import { validateStage } from './validateStage';
+import type {
+  CandidateSet,
+  PipelineContext,
+  PipelineResult,
+  PipelineStage,
+  StageCache,
+  StageRun,
+  SyllabusPipeline
+} from './types';
+
+export const DEFAULT_SYLLABUS_PIPELINE: SyllabusPipeline = [
+  textStage,
+  segmentStage,
+  candidateStage,
+  dateStage,
+  classifyStage,
+  dedupeStage,
+  validateStage
+];
+
+/**
+ * Cache key of each stage's output, or null for stages that aren't cached.
+ * A key names every stage up to it with its version, so changing or swapping
+ * an earlier stage invalidates the outputs after it, and includes the class
+ * once a class-scoped stage has run and the variants of the stages so far.
+ */
+export function getStageCacheKeys(
+  stages: readonly PipelineStage<never, unknown>[],
+  context: PipelineContext
+): Array<string | null> {
+  let chain = '';
+  let classScoped = false;
+  let cacheable = true;
+  const variants: string[] = [];
+
+  return stages.map(stage => {
+    chain = chain ? `${chain}>${stage.name}@${stage.version}` : `${stage.name}@${stage.version}`;
+    classScoped = classScoped || stage.scope === 'class';
+    cacheable = cacheable && stage.scope !== 'run';
+    const variant = stage.cacheVariant?.(context);
+    if (variant) variants.push(variant);
+    if (!cacheable || !stage.cache) return null;
+    const key = classScoped ? `${chain}#${context.classId}` : chain;
+    return variants.length > 0 ? `${key}#${variants.join('#')}` : key;
+  });
+}
+
+/**
+ * Run a syllabus through the pipeline's stages. With a cache, the stages up
+ * to the latest stored output are skipped, and the outputs of cached stages
+ * are stored for next time; cache failures only cost the time saved.
+ */
+export async function runSyllabusPipeline(
+  content: string,
+  context: PipelineContext,
+  options: { stages?: SyllabusPipeline; cache?: StageCache } = {}
+): Promise<PipelineResult> {
+  const { stages = DEFAULT_SYLLABUS_PIPELINE, cache } = options;
+  const keys = getStageCacheKeys(stages, context);
+  const runs: StageRun[] = [];
+
+  let value: unknown = content;
+  let start = 0;
+
+  if (cache && keys.some(Boolean)) {
+    try {
+      const stored = await cache.load();
+      for (let index = keys.length - 1; index >= 0; index--) {
+        const key = keys[index];
+        if (key && stored[key] !== undefined) {
+          value = stored[key];
+          start = index + 1;
+          runs.push({ name: stages[index].name, version: stages[index].version, fromCache: true, durationMs: 0 });
+          break;
+        }
+      }
+    } catch (error) {
+      logger.warn('⚠️ PIPELINE: Could not load cached stage outputs', {
+        classId: context.classId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const toStore: Record<string, unknown> = {};
+  for (let index = start; index < stages.length; index++) {
+    const stage = stages[index] as PipelineStage<unknown, unknown>;
+    const startTime = Date.now();
+    value = await stage.run(value, context);
+
+    const tasks = (value as Partial<CandidateSet>)?.tasks;
+    runs.push({
+      name: stage.name,
+      version: stage.version,
+      fromCache: false,
+      durationMs: Date.now() - startTime,
+      outputCount: Array.isArray(tasks) ? tasks.length : undefined
+    });
+
+    const key = keys[index];
+    if (key) toStore[key] = value;
+  }
+
+  if (cache && Object.keys(toStore).length > 0) {
+    try {
+      await cache.save(toStore);
+    } catch (error) {
+      logger.warn('⚠️ PIPELINE: Could not store stage outputs', {
+        classId: context.classId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  logger.info('🧩 PIPELINE: Syllabus pipeline completed', {
+    classId: context.classId,
+    stages: runs
+  });
+
+  const result = value as CandidateSet;
+  return { tasks: result.tasks, warnings: result.warnings, stages: runs };
+}
@@ -0,0 +1,77 @@
+/**
+ * Segment Stage - Splits the syllabus into sections by heading
+ * Headings are short lines that are marked up ("## Schedule"), end in a colon,
+ * are in capitals, or are title-case section names ("Course Schedule")
+ */
+
+import type { PipelineStage, SyllabusDocument, SyllabusSection } from './types';
+
+// Segmentation configuration
+const SEGMENT_CONFIG = {
+  MAX_HEADING_WORDS: 6,
+  MAX_HEADING_LENGTH: 60,
+  MIN_CAPITAL_LETTERS: 3
+} as const;
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const SECTION_NAME = /\b(schedule|calendar|grading|grades?|assignments?|exams?|assessments?|polic(?:y|ies)|textbooks?|materials|objectives|outcomes|description|overview|office hours|contact|attendance|readings?)\b/i;
+const SMALL_WORDS = new Set(['a', 'an', 'and', 'of', 'the', 'for', 'to', 'in', 'on', '&']);
+
+const isTitleCase = (text: string): boolean =>
+  text.split(/\s+/).every(word => SMALL_WORDS.has(word.toLowerCase()) || /^[A-Z0-9]/.test(word));
+
+/**
+ * The heading a line is, or null if it isn't one
+ */
+export function readHeading(line: string): string | null {
+  const trimmed = line.trim();
+  const markdown = MARKDOWN_HEADING.exec(trimmed);
+  if (markdown) return markdown[1].trim();
+
+  const text = trimmed.replace(/:$/, '').trim();
+  const words = text.split(/\s+/);
+  if (!text || words.length > SEGMENT_CONFIG.MAX_HEADING_WORDS || text.length > SEGMENT_CONFIG.MAX_HEADING_LENGTH) {
+    return null;
+  }
+  if (/[.,;!?]$/.test(text) || /\d{1,2}\/\d{1,2}/.test(text)) return null;
+
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  const isCapitals = letters.length >= SEGMENT_CONFIG.MIN_CAPITAL_LETTERS && letters === letters.toUpperCase();
+  const endsInColon = trimmed.endsWith(':') && /^[A-Z]/.test(text);
+
+  return isCapitals || endsInColon || (isTitleCase(text) && SECTION_NAME.test(text)) ? text : null;
+}
+
+export function segmentSyllabus(text: string): SyllabusDocument {
+  const lines = text.split('\n');
+  const sections: SyllabusSection[] = [];
+  let current: SyllabusSection = { heading: null, startLine: 1, endLine: 0 };
+
+  lines.forEach((line, index) => {
+    const heading = readHeading(line);
+    if (heading) {
+      if (current.endLine >= current.startLine) sections.push(current);
+      current = { heading, startLine: index + 1, endLine: index + 1 };
+    } else {
+      current.endLine = index + 1;
+    }
+  });
+  if (current.endLine >= current.startLine) sections.push(current);
+
+  return { text, lines, sections };
+}
+
+/**
+ * The section a 1-based line falls in
+ */
+export function findSection(document: SyllabusDocument, line: number): SyllabusSection | undefined {
+  return document.sections.find(section => line >= section.startLine && line <= section.endLine);
+}
+
+export const segmentStage: PipelineStage<string, SyllabusDocument> = {
+  name: 'segment',
+  version: 1,
+  scope: 'content',
+  cache: false,
+  run: async text => segmentSyllabus(text)
+};
@@ -0,0 +1,29 @@
+/**
+ * Text Stage - Normalizes extracted syllabus text for the stages after it
+ * Keeps one line per original line, so line numbers still point into the
+ * syllabus as uploaded
+ */
+
+import type { PipelineStage } from './types';
+
+// Zero-width characters and controls other than tab and newline, left by PDF extraction
+const INVISIBLE_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200D\uFEFF]/g;
+const NON_BREAKING_SPACES = /[\u00A0\u2007\u202F]/g;
+
+export function normalizeSyllabusText(content: string): string {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(NON_BREAKING_SPACES, ' ')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n');
+}
+
+export const textStage: PipelineStage<string, string> = {
+  name: 'text',
+  version: 1,
+  scope: 'content',
+  cache: false,
+  run: async content => normalizeSyllabusText(content)
+};
@@ -0,0 +1,103 @@
+/**
+ * Pipeline Types - The stages syllabus task generation is built from
+ * Each stage takes the previous stage's output, so a stage can be swapped for
+ * another with the same input and output without touching the rest
+ */
+
+import type { AcademicSystem } from '../../../utils/academicTermHelpers';
+import type { ClassWithRelations } from '../../../types/database';
+import type { GeneratedTask } from '../aiAnalysis';
+import type { ClassResolverMemory } from '../../class/classResolver';
+
+/**
+ * What a stage's output depends on besides its input: nothing but the
+ * syllabus, also the class it is for, or things that change between runs
+ * (today's date, the user's classes). Only stages before the first 'run'
+ * stage are cached.
+ */
+export type StageScope = 'content' | 'class' | 'run';
+
+export interface PipelineContext {
+  content: string;         // The syllabus as uploaded
+  classId: string;
+  className: string;
+  userId: string;
+  academicSystem: AcademicSystem;
+  classes: Pick<ClassWithRelations, 'id' | 'name'>[];
+  classMemory?: ClassResolverMemory; // The user's class aliases and learned corrections
+}
+
+export interface PipelineStage<I, O> {
+  name: string;
+  version: number; // Bump when the output changes, so cached outputs aren't reused
+  scope: StageScope;
+  cache: boolean;  // Worth storing: slow, or calls a paid service
+  // Anything else a cached output depends on, e.g. the term today falls in
+  cacheVariant?(context: PipelineContext): string;
+  run(input: I, context: PipelineContext): Promise<O>;
+}
+
+export interface SyllabusSection {
+  heading: string | null; // null for text before the first heading
+  startLine: number;      // 1-based, inclusive
+  endLine: number;
+}
+
+export interface SyllabusDocument {
+  text: string;
+  lines: string[];
+  sections: SyllabusSection[];
+}
+
+export interface CandidateSet<T extends GeneratedTask = GeneratedTask> {
+  tasks: T[];
+  warnings: string[];
+}
+
+/**
+ * One way of reading tasks out of a syllabus. Extractors run in order; each
+ * one's tasks are combined with those found before it, by default appended.
+ */
+export interface CandidateExtractor<T extends GeneratedTask = GeneratedTask> {
+  name: string;
+  label: string; // For warnings, e.g. "AI analysis"
+  extract(document: SyllabusDocument, context: PipelineContext): Promise<CandidateSet<T>>;
+  cacheVariant?(context: PipelineContext): string; // See PipelineStage
+
+  combine?(earlier: CandidateSet, own: CandidateSet<T>): CandidateSet;
+}
+
+/**
+ * Stored stage outputs for one syllabus, by stage cache key
+ */
+export interface StageCache {
+  load(): Promise<Record<string, unknown>>;
+  save(outputs: Record<string, unknown>): Promise<void>;
+}
+
+export type TaskStage = PipelineStage<CandidateSet, CandidateSet>;
+
+/**
+ * Text preparation, segmentation and candidate extraction, then any number of
+ * stages refining the candidates
+ */
+export type SyllabusPipeline = [
+  PipelineStage<string, string>,
+  PipelineStage<string, SyllabusDocument>,
+  PipelineStage<SyllabusDocument, CandidateSet>,
+  ...TaskStage[]
+];
+
+export interface StageRun {
+  name: string;
+  version: number;
+  fromCache: boolean;
+  durationMs: number;
+  outputCount?: number; // Tasks out of a task stage
+}
+
+export interface PipelineResult {
+  tasks: GeneratedTask[];
+  warnings: string[];
+  stages: StageRun[];
+}
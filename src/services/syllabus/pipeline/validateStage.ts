@@ -0,0 +1,20 @@
+/**
+ * Validate Stage - Rejects tasks that are too unsure or that can't be traced
+ * back to the syllabus
+ */
+
+import { validateGeneratedTasks } from '../validation';
+import { normalizeSyllabusText } from './textStage';
+import type { TaskStage } from './types';
+
+export const validateStage: TaskStage = {
+  name: 'validate',
+  version: 1,
+  scope: 'content',
+  cache: false,
+  // Candidates were read from the normalized text, so their quotes are traced back to it
+  run: async (candidates, context) => ({
+    ...candidates,
+    tasks: validateGeneratedTasks(candidates.tasks, normalizeSyllabusText(context.content))
+  })
+};
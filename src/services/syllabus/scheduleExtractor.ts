@@ -0,0 +1,562 @@
+/**
+ * Schedule Extractor Module - Rule-based task extraction from syllabi
+ * Reads weekly schedule tables, "Due:" lines and dated assessment lines without
+ * the network, so it backs up the AI analysis and checks its dates
+ */
+
+import { logger } from '../../utils/logger';
+import { formatDateForInput } from '../../utils/dateHelpers';
+import {
+  getCurrentAcademicTerm,
+  getTermStartDate,
+  parseTermFromString,
+  type AcademicSystem
+} from '../../utils/academicTermHelpers';
+import type { GeneratedTask } from './aiAnalysis';
+
+// Schedule extraction configuration
+const SCHEDULE_EXTRACTION_CONFIG = {
+  TABLE_CONFIDENCE: 0.85,
+  DUE_LINE_CONFIDENCE: 0.8,
+  KEYWORD_LINE_CONFIDENCE: 0.75,
+  INEXACT_DATE_PENALTY: 0.05, // "Week 5 Friday" against a guessed week 1
+  MAX_TITLE_WORDS: 10,        // Longer lines are prose, not schedule entries
+  MAX_WEEKS: 26,
+  YEAR_ROLLOVER_DAYS: 60      // Undated years this far before the term are next year's
+} as const;
+
+export interface ScheduleExtractionOptions {
+  termStartDate?: string;         // YYYY-MM-DD, any day of week 1
+  academicSystem?: AcademicSystem;
+  referenceDate?: Date;           // Today, for guessing the current term
+}
+
+// Where week 1 came from, most to least reliable
+export type TermStartSource = 'option' | 'table' | 'syllabus' | 'term';
+
+/**
+ * Task read from the syllabus by rules, with the line it came from
+ */
+export interface ScheduleTask extends GeneratedTask {
+  sourceLine: number;
+  sourceText: string;
+  extractedBy: 'rules';
+  exactDate: boolean; // Dated in the syllabus, or by week against a known week 1
+}
+
+export interface ScheduleExtractionResult {
+  tasks: ScheduleTask[];
+  termStartDate: string; // Monday of week 1
+  termStartSource: TermStartSource;
+  warnings: string[];
+}
+
+export interface ScheduleCrossCheck {
+  tasks: GeneratedTask[];
+  warnings: string[];
+}
+
+type ScheduleColumn = 'week' | 'date' | 'topic' | 'due';
+
+interface ScheduleRow {
+  lineIndex: number;
+  week?: number;
+  date?: string;
+  topic?: string;
+  due?: string;
+}
+
+interface DateMatch {
+  day: Date;
+  text: string;   // Matched text, removed from titles
+  exact: boolean;
+}
+
+interface DateContext {
+  termStart: Date;          // Monday of week 1
+  anchorReliable: boolean;
+  week?: number;            // Schedule row's week, for a bare "Fri"
+}
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const WEEKDAY_PATTERN = '(mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)';
+
+const ISO_DATE = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/;
+const NUMERIC_DATE = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/;
+const NAMED_DATE = new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'i');
+const WEEK_THEN_DAY = new RegExp(`\\bweek\\s*(\\d{1,2})\\b(?:\\s*[,:(-]?\\s*${WEEKDAY_PATTERN}\\b)?`, 'i');
+const DAY_THEN_WEEK = new RegExp(`\\b${WEEKDAY_PATTERN}\\b,?\\s+(?:of\\s+)?week\\s*(\\d{1,2})\\b`, 'i');
+const WEEKDAY = new RegExp(`\\b${WEEKDAY_PATTERN}\\b\\.?`, 'i');
+const WEEKDAYS = new RegExp(`\\b${WEEKDAY_PATTERN}\\b\\.?,?`, 'gi');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAYS_FROM_MONDAY = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const FRIDAY = 4; // Work given only by week is due at the end of the class week
+
+const SYLLABUS_TERM = /\b(spring|summer|fall|autumn|winter)\s+(?:(?:semester|quarter|term)\s+)?(\d{4})\b/i;
+
+const COLUMN_HEADERS: Array<[ScheduleColumn, RegExp]> = [
+  ['week', /^(week|wk|module|unit)\.?\s*#?$/i],
+  ['date', /^(class\s+|lecture\s+)?(date|day)s?$/i],
+  ['due', /^(due|due\s+dates?|deliverables?|assignments?(\s+due)?|homework|work\s+due|assessments?)$/i],
+  ['topic', /^(topics?|subjects?|lectures?|content|class|description|activities)$/i]
+];
+const SEPARATOR_ROW = /^[\s|:+=-]+$/;
+const EMPTY_CELL = /^(none|n\/a|tba|tbd|-+|—|–)$/i;
+
+const ASSESSMENT_TOPIC = /\b(exams?|midterms?|quiz(?:zes)?|test\s*#?\d+|lab\s*#?\d+)\b|^final\b/i;
+const NON_ASSESSMENT_TOPIC = /\b(review|no class|holiday|break|recess|prep)\b/i;
+const DUE_LINE = /\bdue\b/i;
+const KEYWORD_LINE = /\b(exams?|midterms?|final|quiz(?:zes)?|projects?|papers?|essays?|labs?|homework|hw|assignments?|problem sets?|presentations?)\b/i;
+
+const TASK_TYPE_PATTERNS: Array<[string, RegExp]> = [
+  ['lab', /\b(lab|laboratory|experiment)\b/i],
+  ['quiz', /\bquiz(?:zes)?\b/i],
+  ['exam', /\b(exams?|midterms?|test\s*#?\d*)\b|^final$/i],
+  ['project', /\b(project|presentation|capstone)\b/i],
+  ['reading', /\b(reading|read|chapters?|textbook)\b/i],
+  ['discussion', /\b(discussion|forum|post)\b/i]
+];
+const TASK_PRIORITIES: Record<string, GeneratedTask['priority']> = {
+  exam: 'high',
+  project: 'high',
+  reading: 'low',
+  discussion: 'low'
+};
+
+// Numbered work, so "HW 3" and "Homework 3" are the same task
+const TASK_IDENTIFIER = /\b(homework|hw|assignment|problem\s+set|pset|ps|lab|quiz|exam|midterm|project|essay|paper)\s*#?\s*(\d+)\b/i;
+const IDENTIFIER_ALIASES: Record<string, string> = {
+  hw: 'homework',
+  assignment: 'homework',
+  'problem set': 'homework',
+  pset: 'homework',
+  ps: 'homework',
+  paper: 'essay'
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const mondayOf = (date: Date): Date => addDays(date, -((date.getDay() + 6) % 7));
+
+const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const calendarDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+/**
+ * Undated years follow the term: a January final in a Fall syllabus is next year's
+ */
+const inferYear = (month: number, day: number, termStart: Date): Date | null => {
+  const date = calendarDate(termStart.getFullYear(), month, day);
+  if (!date) return null;
+  const rolloverCutoff = addDays(termStart, -SCHEDULE_EXTRACTION_CONFIG.YEAR_ROLLOVER_DAYS);
+  return date < rolloverCutoff ? calendarDate(termStart.getFullYear() + 1, month, day) : date;
+};
+
+const weekDate = (week: number, dayFromMonday: number, termStart: Date): Date | null =>
+  week >= 1 && week <= SCHEDULE_EXTRACTION_CONFIG.MAX_WEEKS
+    ? addDays(termStart, (week - 1) * 7 + dayFromMonday)
+    : null;
+
+const weekOf = (date: Date, termStart: Date): number =>
+  Math.floor(Math.round((mondayOf(date).getTime() - termStart.getTime()) / 86400000) / 7) + 1;
+
+const dayFromMonday = (weekday: string | undefined): number =>
+  weekday ? DAYS_FROM_MONDAY.indexOf(weekday.substring(0, 3).toLowerCase()) : FRIDAY;
+
+/**
+ * Find a date written out in full: 2024-10-03, 10/3, Oct 3
+ */
+const findCalendarDate = (text: string, termStart: Date): DateMatch | null => {
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    const day = calendarDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    if (day) return { day, text: iso[0], exact: true };
+  }
+
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const month = Number(numeric[1]) - 1;
+    const date = Number(numeric[2]);
+    const year = numeric[3] ? Number(numeric[3]) + (numeric[3].length === 2 ? 2000 : 0) : null;
+    const day = year ? calendarDate(year, month, date) : inferYear(month, date, termStart);
+    if (day) return { day, text: numeric[0], exact: true };
+  }
+
+  const named = text.match(NAMED_DATE);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].substring(0, 3).toLowerCase());
+    const date = Number(named[2]);
+    const day = named[3] ? calendarDate(Number(named[3]), month, date) : inferYear(month, date, termStart);
+    if (day) return { day, text: named[0], exact: true };
+  }
+
+  return null;
+};
+
+/**
+ * Find a calendar date, or one relative to the term: "Week 5 Friday", or "Fri"
+ * in a schedule row for week 5
+ */
+const findDate = (text: string, context: DateContext): DateMatch | null => {
+  const calendar = findCalendarDate(text, context.termStart);
+  if (calendar) return calendar;
+
+  const dayThenWeek = text.match(DAY_THEN_WEEK);
+  const weekThenDay = text.match(WEEK_THEN_DAY);
+  const relative = dayThenWeek
+    ? { text: dayThenWeek[0], week: Number(dayThenWeek[2]), weekday: dayThenWeek[1] }
+    : weekThenDay
+      ? { text: weekThenDay[0], week: Number(weekThenDay[1]), weekday: weekThenDay[2] }
+      : null;
+  if (relative) {
+    const day = weekDate(relative.week, dayFromMonday(relative.weekday), context.termStart);
+    return day ? { day, text: relative.text, exact: context.anchorReliable } : null;
+  }
+
+  const weekday = context.week ? text.match(WEEKDAY) : null;
+  if (weekday && context.week) {
+    const day = weekDate(context.week, dayFromMonday(weekday[1]), context.termStart);
+    return day ? { day, text: weekday[0], exact: context.anchorReliable } : null;
+  }
+
+  return null;
+};
+
+const splitCells = (line: string): string[] => {
+  const trimmed = line.trim();
+  if (trimmed.includes('|')) return trimmed.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+  if (trimmed.includes('\t')) return trimmed.split('\t').map(cell => cell.trim());
+  return trimmed.split(/\s{2,}/).map(cell => cell.trim());
+};
+
+/**
+ * Recognize a schedule table header: a week or date column, and a topic or
+ * due column
+ */
+const readHeader = (cells: string[]): Partial<Record<ScheduleColumn, number>> | null => {
+  const columns: Partial<Record<ScheduleColumn, number>> = {};
+  cells.forEach((cell, index) => {
+    const match = COLUMN_HEADERS.find(([column, pattern]) => columns[column] === undefined && pattern.test(cell));
+    if (match) columns[match[0]] = index;
+  });
+
+  const hasWhen = columns.week !== undefined || columns.date !== undefined;
+  const hasWhat = columns.topic !== undefined || columns.due !== undefined;
+  return hasWhen && hasWhat ? columns : null;
+};
+
+/**
+ * Read the rows of every schedule table, and which lines they cover
+ */
+const readScheduleTables = (lines: string[]): { rows: ScheduleRow[]; tableLines: Set<number> } => {
+  const rows: ScheduleRow[] = [];
+  const tableLines = new Set<number>();
+  let columns: Partial<Record<ScheduleColumn, number>> | null = null;
+  let currentWeek: number | undefined;
+
+  lines.forEach((line, lineIndex) => {
+    if (!line.trim()) return;
+    const cells = splitCells(line);
+
+    const header = readHeader(cells);
+    if (header) {
+      columns = header;
+      currentWeek = undefined;
+      tableLines.add(lineIndex);
+      return;
+    }
+    if (!columns) return;
+    if (cells.length < 2) {
+      columns = null;
+      return;
+    }
+    tableLines.add(lineIndex);
+    if (SEPARATOR_ROW.test(line)) return;
+
+    const cell = (column: ScheduleColumn): string | undefined => {
+      const index = columns?.[column];
+      const value = index === undefined ? undefined : cells[index];
+      return value && !EMPTY_CELL.test(value) ? value : undefined;
+    };
+    const weekNumber = cell('week')?.match(/\d+/);
+    if (weekNumber) currentWeek = Number(weekNumber[0]);
+
+    rows.push({ lineIndex, week: currentWeek, date: cell('date'), topic: cell('topic'), due: cell('due') });
+  });
+
+  return { rows, tableLines };
+};
+
+/**
+ * A row with both a week number and a date pins down week 1 exactly
+ */
+const findTableAnchor = (rows: ScheduleRow[], estimate: Date): Date | null => {
+  for (const row of rows) {
+    if (!row.week || !row.date) continue;
+    const date = findCalendarDate(row.date, estimate);
+    if (date) return addDays(mondayOf(date.day), -(row.week - 1) * 7);
+  }
+  return null;
+};
+
+/**
+ * The term a syllabus that names none is read against, e.g. "fall 2026"
+ */
+export const getReferenceTerm = (academicSystem: AcademicSystem = 'semester', referenceDate = new Date()): string =>
+  `${getCurrentAcademicTerm(academicSystem, referenceDate)} ${referenceDate.getFullYear()}`;
+
+/**
+ * Best guess at week 1 before reading any tables: the caller's term start,
+ * the term named in the syllabus ("Fall 2024"), or the current term
+ */
+const estimateTermStart = (
+  content: string,
+  options: ScheduleExtractionOptions,
+  referenceDate: Date
+): { start: Date; source: TermStartSource } => {
+  if (options.termStartDate) {
+    return { start: mondayOf(parseLocalDate(options.termStartDate)), source: 'option' };
+  }
+
+  const academicSystem = options.academicSystem || 'semester';
+  const named = content.match(SYLLABUS_TERM);
+  const term = named ? parseTermFromString(named[1].replace(/autumn/i, 'fall'), academicSystem) : null;
+  if (named && term) {
+    return { start: getTermStartDate(term, Number(named[2]), academicSystem), source: 'syllabus' };
+  }
+
+  const currentTerm = getCurrentAcademicTerm(academicSystem, referenceDate);
+  return { start: getTermStartDate(currentTerm, referenceDate.getFullYear(), academicSystem), source: 'term' };
+};
+
+const cleanTitle = (text: string, dateText: string): string =>
+  text
+    .replace(dateText, ' ')
+    .replace(/^\s*(?:[-*•–]|\d+[.)])\s+/, '')
+    .replace(/\b(?:is\s+)?due\b(?:\s+(?:on|by|at))?\s*:?/gi, ' ')
+    .replace(/\b(?:at\s+)?\d{1,2}(?::\d{2})?\s*(?:am|pm)\b/gi, ' ')
+    .replace(WEEKDAYS, ' ')
+    .replace(/\(\s*\)/g, ' ')
+    .replace(/\b(?:by|on|of)\s*$/i, '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s:,;–—-]+|[\s:,;–—(-]+$/g, '');
+
+const inferScheduleTaskType = (title: string): string =>
+  TASK_TYPE_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] || 'assignment';
+
+const buildTask = (
+  title: string,
+  date: DateMatch,
+  lineIndex: number,
+  line: string,
+  confidence: number,
+  options: { description?: string; session?: boolean } = {}
+): ScheduleTask => {
+  const taskType = inferScheduleTaskType(title);
+  const dueDate = formatDateForInput(date.day);
+  return {
+    title,
+    ...(options.description ? { description: options.description } : {}),
+    dueDate,
+    ...(options.session ? { sessionDate: dueDate } : {}),
+    taskType,
+    priority: TASK_PRIORITIES[taskType] || 'medium',
+    confidenceScore: date.exact ? confidence : confidence - SCHEDULE_EXTRACTION_CONFIG.INEXACT_DATE_PENALTY,
+    sourceText: line.trim(),
+    sourceLine: lineIndex + 1,
+    extractedBy: 'rules',
+    exactDate: date.exact
+  };
+};
+
+const isTitle = (title: string): boolean =>
+  title.length >= 2 && title.split(/\s+/).length <= SCHEDULE_EXTRACTION_CONFIG.MAX_TITLE_WORDS;
+
+/**
+ * Tasks from schedule rows: each due item, and exams, quizzes and labs held
+ * that week
+ */
+const tasksFromRows = (rows: ScheduleRow[], lines: string[], termStart: Date, anchorReliable: boolean): ScheduleTask[] =>
+  rows.flatMap(row => {
+    const line = lines[row.lineIndex];
+    const rowDate = row.date ? findDate(row.date, { termStart, anchorReliable }) : null;
+    const week = row.week ?? (rowDate ? weekOf(rowDate.day, termStart) : undefined);
+    const context = { termStart, week, anchorReliable: anchorReliable || !!rowDate?.exact };
+    const weekEnd = week ? weekDate(week, FRIDAY, termStart) : null;
+    const fallback = rowDate || (weekEnd ? { day: weekEnd, text: '', exact: anchorReliable } : null);
+    const tasks: ScheduleTask[] = [];
+
+    if (row.topic && ASSESSMENT_TOPIC.test(row.topic) && !NON_ASSESSMENT_TOPIC.test(row.topic)) {
+      const date = findDate(row.topic, context) || fallback;
+      const title = date ? cleanTitle(row.topic, date.text) : '';
+      if (date && isTitle(title)) {
+        tasks.push(buildTask(title, date, row.lineIndex, line, SCHEDULE_EXTRACTION_CONFIG.TABLE_CONFIDENCE, { session: true }));
+      }
+    }
+
+    (row.due || '')
+      .split(/;|,(?!\s*\d{4}\b)/)
+      .map(item => item.trim())
+      .filter(item => item && !EMPTY_CELL.test(item))
+      .forEach(item => {
+        const date = findDate(item, context) || fallback;
+        const title = date ? cleanTitle(item, date.text) : '';
+        if (date && isTitle(title)) {
+          tasks.push(buildTask(title, date, row.lineIndex, line, SCHEDULE_EXTRACTION_CONFIG.TABLE_CONFIDENCE, {
+            description: row.topic ? `Topic: ${row.topic}` : undefined
+          }));
+        }
+      });
+
+    return tasks;
+  });
+
+/**
+ * Tasks from lines outside the tables: "Due:" lines, and exams, labs and
+ * projects given with a date
+ */
+const tasksFromLines = (
+  lines: string[],
+  tableLines: Set<number>,
+  termStart: Date,
+  anchorReliable: boolean
+): ScheduleTask[] =>
+  lines.flatMap((line, lineIndex) => {
+    if (tableLines.has(lineIndex) || !line.trim()) return [];
+    const isDueLine = DUE_LINE.test(line);
+    if (!isDueLine && !KEYWORD_LINE.test(line)) return [];
+
+    const date = findDate(line, { termStart, anchorReliable });
+    const title = date ? cleanTitle(line, date.text) : '';
+    if (!date || !isTitle(title)) return [];
+
+    const confidence = isDueLine
+      ? SCHEDULE_EXTRACTION_CONFIG.DUE_LINE_CONFIDENCE
+      : SCHEDULE_EXTRACTION_CONFIG.KEYWORD_LINE_CONFIDENCE;
+    return [buildTask(title, date, lineIndex, line, confidence)];
+  });
+
+const normalizeTitle = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const taskIdentifier = (title: string): string | null => {
+  const match = title.match(TASK_IDENTIFIER);
+  if (!match) return null;
+  const kind = match[1].toLowerCase().replace(/\s+/g, ' ');
+  return `${IDENTIFIER_ALIASES[kind] || kind} ${Number(match[2])}`;
+};
+
+const isSameTask = (task: GeneratedTask, scheduled: ScheduleTask): boolean => {
+  const taskId = taskIdentifier(task.title);
+  const scheduledId = taskIdentifier(scheduled.title);
+  if (taskId && scheduledId) return taskId === scheduledId;
+
+  const taskTitle = normalizeTitle(task.title);
+  const scheduledTitle = normalizeTitle(scheduled.title);
+  if (taskTitle === scheduledTitle) return true;
+  if (taskId || scheduledId) return false;
+  const [shorter, longer] = taskTitle.length < scheduledTitle.length ? [taskTitle, scheduledTitle] : [scheduledTitle, taskTitle];
+  return shorter.length >= 4 && longer.includes(shorter);
+};
+
+const dedupeScheduleTasks = (tasks: ScheduleTask[]): ScheduleTask[] => {
+  const unique = new Map<string, ScheduleTask>();
+  tasks.forEach(task => {
+    const key = `${normalizeTitle(task.title)}|${task.dueDate}`;
+    const existing = unique.get(key);
+    if (!existing || task.confidenceScore > existing.confidenceScore) unique.set(key, task);
+  });
+  return Array.from(unique.values()).sort((a, b) =>
+    (a.dueDate || '').localeCompare(b.dueDate || '') || a.sourceLine - b.sourceLine
+  );
+};
+
+/**
+ * Extract dated tasks from a syllabus with rules alone: schedule tables
+ * (Week/Date/Topic/Due columns), "Due:" lines, and dated exams, labs and
+ * projects. Relative dates ("Week 5 Friday") are read against week 1, taken
+ * from the options, a dated table row, the term named in the syllabus, or
+ * the current term, in that order.
+ */
+export function extractScheduleTasks(
+  content: string,
+  options: ScheduleExtractionOptions = {}
+): ScheduleExtractionResult {
+  const lines = content.split(/\r?\n/);
+  const estimate = estimateTermStart(content, options, options.referenceDate || new Date());
+  const { rows, tableLines } = readScheduleTables(lines);
+
+  const anchor = estimate.source === 'option' ? null : findTableAnchor(rows, estimate.start);
+  const termStart = anchor || estimate.start;
+  const termStartSource: TermStartSource = anchor ? 'table' : estimate.source;
+  const anchorReliable = termStartSource === 'option' || termStartSource === 'table';
+
+  const tasks = dedupeScheduleTasks([
+    ...tasksFromRows(rows, lines, termStart, anchorReliable),
+    ...tasksFromLines(lines, tableLines, termStart, anchorReliable)
+  ]);
+  const termStartDate = formatDateForInput(termStart);
+
+  const warnings: string[] = [];
+  if (tasks.some(task => !task.exactDate)) {
+    const basis = termStartSource === 'syllabus' ? 'the term named in the syllabus' : 'the current term';
+    warnings.push(`Dates given only by week assume week 1 starts ${termStartDate} (from ${basis}); check them if your term started on a different week`);
+  }
+
+  logger.info('📅 SCHEDULE EXTRACTION: Completed rule-based extraction', {
+    scheduleRows: rows.length,
+    tasksFound: tasks.length,
+    termStartDate,
+    termStartSource
+  });
+
+  return { tasks, termStartDate, termStartSource, warnings };
+}
+
+/**
+ * Check AI-extracted tasks against the schedule: an explicit schedule date
+ * wins over the AI's, missing dates are filled in, and scheduled tasks the AI
+ * missed are added
+ */
+export function crossCheckScheduleTasks(
+  aiTasks: GeneratedTask[],
+  scheduleTasks: ScheduleTask[]
+): ScheduleCrossCheck {
+  const warnings: string[] = [];
+  const unmatched = [...scheduleTasks];
+
+  const tasks = aiTasks.map(task => {
+    const index = unmatched.findIndex(scheduled => isSameTask(task, scheduled));
+    if (index === -1) return task;
+    const [scheduled] = unmatched.splice(index, 1);
+    const checked = { ...task, sourceLine: task.sourceLine ?? scheduled.sourceLine };
+
+    if (!task.dueDate) return { ...checked, dueDate: scheduled.dueDate };
+    if (scheduled.exactDate && task.dueDate.substring(0, 10) !== scheduled.dueDate) {
+      warnings.push(`"${task.title}": the AI read ${task.dueDate} but the course schedule (line ${scheduled.sourceLine}) says ${scheduled.dueDate}; using the schedule date`);
+      return { ...checked, dueDate: scheduled.dueDate };
+    }
+    return checked;
+  });
+
+  if (unmatched.length > 0) {
+    warnings.push(`Added ${unmatched.length} task${unmatched.length === 1 ? '' : 's'} from the course schedule that the AI analysis missed`);
+  }
+
+  logger.info('📅 SCHEDULE EXTRACTION: Cross-checked AI tasks against the schedule', {
+    aiTasks: aiTasks.length,
+    scheduleTasks: scheduleTasks.length,
+    added: unmatched.length,
+    warnings: warnings.length
+  });
+
+  return { tasks: [...tasks, ...unmatched], warnings };
+}
@@ -0,0 +1,153 @@
+/**
+ * Task Review Module - The review step between syllabus extraction and task
+ * creation: confidence triage, source spans, merging and the review outcome
+ */
+
+import type { GeneratedTask } from './aiAnalysis';
+import type { RejectionReason } from './extractionFeedback';
+import type { ClassCorrection } from '../class/classResolver';
+
+export type ReviewConfidence = 'high' | 'medium' | 'low';
+
+export const REVIEW_CONFIDENCE_THRESHOLDS = {
+  high: 0.85,
+  medium: 0.7
+} as const;
+
+export interface ReviewDuplicate {
+  title: string;
+  taskId?: string; // A task already in the class
+  itemId?: string; // Another extracted task in the same review
+}
+
+export interface TaskReviewItem {
+  id: string;
+  task: GeneratedTask;
+  approved: boolean;
+  confidence: ReviewConfidence;
+  duplicateOf?: ReviewDuplicate;
+  rejectedBefore: boolean;
+  mergedFrom: GeneratedTask[];
+  suggestedClassId?: string; // The class the extraction matched, to tell when the user moved the task
+}
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface TaskReviewOutcome {
+  approved: GeneratedTask[];
+  rejected: Array<{ task: GeneratedTask; reason: RejectionReason }>;
+  classCorrections: ClassCorrection[]; // Courses whose tasks the user moved to another class
+}
+
+const MAX_SPAN_WORDS = 40;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function getReviewConfidence(confidenceScore: number): ReviewConfidence {
+  if (confidenceScore >= REVIEW_CONFIDENCE_THRESHOLDS.high) return 'high';
+  if (confidenceScore >= REVIEW_CONFIDENCE_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Where a task was read from in the syllabus text: its source text, verbatim
+ * or with the line breaks of the PDF extraction, else the line the rule
+ * extractor read, else the first mention of its title
+ */
+export function findSourceSpan(content: string, task: GeneratedTask): SourceSpan | null {
+  const sourceText = task.sourceText?.trim();
+  if (sourceText) {
+    const start = content.indexOf(sourceText);
+    if (start !== -1) return { start, end: start + sourceText.length };
+
+    const words = sourceText.split(/\s+/).slice(0, MAX_SPAN_WORDS).map(escapeRegExp);
+    const match = new RegExp(words.join('\\s+'), 'i').exec(content);
+    if (match) return { start: match.index, end: match.index + match[0].length };
+  }
+
+  if (task.sourceLine) {
+    const lines = content.split('\n');
+    if (task.sourceLine <= lines.length) {
+      const start = lines.slice(0, task.sourceLine - 1).reduce((offset, line) => offset + line.length + 1, 0);
+      return { start, end: start + lines[task.sourceLine - 1].length };
+    }
+  }
+
+  const title = task.title.trim();
+  const start = title ? content.toLowerCase().indexOf(title.toLowerCase()) : -1;
+  return start === -1 ? null : { start, end: start + title.length };
+}
+
+/**
+ * Combine two extracted tasks for the same work, keeping the first one's
+ * details and filling gaps from the second
+ */
+export function mergeGeneratedTasks(primary: GeneratedTask, secondary: GeneratedTask): GeneratedTask {
+  return {
+    ...primary,
+    description: primary.description || secondary.description,
+    dueDate: primary.dueDate || secondary.dueDate,
+    assignmentDate: primary.assignmentDate || secondary.assignmentDate,
+    sessionDate: primary.sessionDate || secondary.sessionDate,
+    courseCode: primary.courseCode || secondary.courseCode,
+    courseName: primary.courseName || secondary.courseName,
+    sourceText: primary.sourceText || secondary.sourceText,
+    sourceLine: primary.sourceLine ?? secondary.sourceLine,
+    subject: primary.subject || secondary.subject,
+    confidenceScore: Math.max(primary.confidenceScore, secondary.confidenceScore)
+  };
+}
+
+/**
+ * Merge one review item into another. Items that pointed at the merged item
+ * as their duplicate now point at the item it went into.
+ */
+export function mergeReviewItems(items: TaskReviewItem[], sourceId: string, targetId: string): TaskReviewItem[] {
+  const source = items.find(item => item.id === sourceId);
+  const target = items.find(item => item.id === targetId);
+  if (!source || !target || source === target) return items;
+
+  const task = mergeGeneratedTasks(target.task, source.task);
+  return items
+    .filter(item => item.id !== sourceId)
+    .map(item => {
+      if (item.id === targetId) {
+        return {
+          ...item,
+          task,
+          confidence: getReviewConfidence(task.confidenceScore),
+          duplicateOf: item.duplicateOf?.itemId === sourceId ? undefined : item.duplicateOf,
+          mergedFrom: [...item.mergedFrom, source.task, ...source.mergedFrom]
+        };
+      }
+      if (item.duplicateOf?.itemId === sourceId) {
+        return { ...item, duplicateOf: { title: task.title, itemId: targetId } };
+      }
+      return item;
+    });
+}
+
+/**
+ * The tasks to create, the ones turned down and why, and the classes the
+ * user moved approved tasks to
+ */
+export function getTaskReviewOutcome(items: TaskReviewItem[]): TaskReviewOutcome {
+  return {
+    approved: items.filter(item => item.approved).map(item => item.task),
+    rejected: items.flatMap(item => [
+      ...(item.approved ? [] : [{
+        task: item.task,
+        reason: (item.duplicateOf?.taskId ? 'duplicate' : 'rejected') as RejectionReason
+      }]),
+      ...item.mergedFrom.map(task => ({ task, reason: 'merged' as RejectionReason }))
+    ]),
+    classCorrections: items.flatMap(({ approved, task, suggestedClassId }) =>
+      approved && task.classId && task.classId !== suggestedClassId && (task.courseCode || task.courseName)
+        ? [{ query: { courseCode: task.courseCode, courseName: task.courseName }, classId: task.classId }]
+        : []
+    )
+  };
+}
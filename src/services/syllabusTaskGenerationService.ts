@@ -1,88 +1,64 @@
 import type { User } from '@supabase/supabase-js';
-import type { Task } from '../types/index';
-import { supabase } from './supabaseClient';
+import type { Task, TaskType } from '../types/index';
 import { errorHandler } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
-import { SyllabusSecurityService } from './syllabusSecurityService';
 import { cacheService } from './cacheService';
 import { generateTextHash } from '../utils/fileFingerprinting';
 import type { CachedTaskData, TaskGenerationMetadata } from '../types/cache';
+import type { AcademicSystem } from '../utils/academicTermHelpers';
+import { getClassResolverMemory } from './class/classResolver';
 
 // Import refactored syllabus modules
 import {
   validateSyllabusForTaskGeneration,
-  callAIAnalysisEdgeFunction,
-  parseGeminiResponse,
-  enhanceLabTasksWithManualDateParsing,
+  detectAcademicContent,
+  extractGradingPolicy,
+  getReviewConfidence,
+  wasRejectedBefore,
   determineTaskClass,
-  getOrCreateTaskTypeViaServiceLayer
+  determineFinalDueDate,
+  getOrCreateTaskTypeViaServiceLayer,
+  meetsConfidenceThreshold,
+  getConfidenceThreshold,
+  isValidTaskType,
+  inferTaskType,
+  checkIfTasksDuplicate,
+  runSyllabusPipeline
+} from './syllabus';
+import type {
+  GeneratedTask,
+  GradingPolicy,
+  PipelineResult,
+  StageCache,
+  TaskRejection,
+  TaskReviewItem
 } from './syllabus';
 
 // Syllabus task generation configuration
 const TASK_GENERATION_CONFIG = {
-  GEMINI_API_URL: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent',
   MAX_PROMPT_LENGTH: 500000, // 500KB max prompt (increased for larger syllabi)
-  MAX_TASKS_PER_SYLLABUS: 50,
-  MIN_CONFIDENCE_SCORE: 0.7,
-  MIN_LAB_CONFIDENCE_SCORE: 0.5, // Relaxed threshold for lab tasks
-  TASK_VALIDATION_PATTERNS: {
-    VALID_TASK_TYPES: ['assignment', 'exam', 'quiz', 'project', 'reading', 'discussion', 'lab'],
-    DATE_PATTERNS: [
-      /\b(january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{1,2}\b/gi,
-      /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g,
-      /\b\d{1,2}-\d{1,2}-\d{2,4}\b/g,
-      /\bweek\s+\d+\b/gi,
-    ],
-    ACADEMIC_TERMS: [
-      'assignment', 'homework', 'project', 'essay', 'paper', 'report', 'presentation',
-      'exam', 'midterm', 'final', 'test', 'quiz', 'discussion', 'lab', 'reading'
-    ]
-  }
+  MAX_TASKS_PER_SYLLABUS: 50
 } as const;
 
-// Task form data interface
-interface TaskFormData {
-  title: string;
-  description?: string;
-  due_date?: Date;
-  priority: 'low' | 'medium' | 'high';
-  class_id: string;
-  type_id: string;
-  tags?: string[];
-  estimated_duration?: number;
-}
-
-// Generated task validation interface
-interface GeneratedTask {
-  title: string;
-  description?: string;
-  dueDate?: string;
-  assignmentDate?: string; // When lab was assigned
-  sessionDate?: string;    // When lab session occurs
-  taskType: string;
-  priority: 'low' | 'medium' | 'high';
-  confidenceScore: number;
-  courseCode?: string;
-  courseName?: string;
-  sourceText?: string;
-  subject?: string;        // Academic subject (EE, Chemistry, Physics, etc.)
-}
-
 interface TaskGenerationResult {
   tasks: GeneratedTask[];
+  gradingPolicy: GradingPolicy;
   warnings: string[];
   metadata: {
     totalTasksGenerated: number;
     averageConfidence: number;
     academicContentDetected: boolean;
     processingTimeMs: number;
+    cachedStages: string[]; // Stages whose output came from the cache
   };
 }
 
 export class SyllabusTaskGenerationService {
-  
+
   /**
-   * Generate tasks from syllabus content using AI with security validation
+   * Generate tasks from syllabus content with security validation. The tasks
+   * come from the syllabus pipeline (services/syllabus/pipeline), whose slow
+   * stages are cached per syllabus in the file fingerprint cache.
    */
   static async generateTasksFromSyllabus(
     syllabusContent: string,
@@ -90,7 +66,7 @@ export class SyllabusTaskGenerationService {
     user: User
   ): Promise<TaskGenerationResult> {
     const startTime = Date.now();
-    
+
     logger.info('Syllabus task generation started', {
       classId,
       userId: user.id,
@@ -111,276 +87,55 @@ export class SyllabusTaskGenerationService {
         );
       }
 
+      const gradingPolicy = extractGradingPolicy(syllabusContent);
+
       // Get class information for context
       const { getClasses } = await import('./class/classOperations');
-      const classes = await getClasses(user.id);
+      const classes = await getClasses(user.id, true);
       const classInfo = classes.find(c => c.id === classId);
-      
-      // CACHE OPTIMIZATION: Check for cached task generation results
-      try {
-        const contentHash = await generateTextHash(syllabusContent);
-        logger.info('🔐 CACHE CHECK: Generated content hash for syllabus', {
-          contentHashPrefix: contentHash.substring(0, 12) + '...',
-          contentLength: syllabusContent.length,
-          classId
-        });
-
-        const cachedTasks = await cacheService.getCachedTasks(contentHash, classId);
-        if (cachedTasks && cachedTasks.length > 0) {
-          logger.info('🚀 CACHE HIT: Found cached task generation results', {
-            contentHashPrefix: contentHash.substring(0, 12) + '...',
-            cachedTaskCount: cachedTasks.length,
-            classId,
-            performanceImprovement: '~95% time saved'
-          });
-
-          // Transform cached tasks to match expected GeneratedTask format
-          const transformedTasks = cachedTasks.map(cached => ({
-            title: cached.title,
-            description: cached.description,
-            dueDate: cached.dueDate,
-            assignmentDate: cached.assignmentDate,
-            sessionDate: cached.sessionDate,
-            taskType: cached.taskType,
-            priority: cached.priority,
-            confidenceScore: cached.confidence
-            // Note: tags and estimatedDuration are handled during task creation, not in GeneratedTask
-          }));
-
-          // Return cached results with appropriate metadata
-          const metadata = {
-            totalTasksGenerated: transformedTasks.length,
-            averageConfidence: transformedTasks.reduce((sum, task) => sum + task.confidenceScore, 0) / transformedTasks.length || 0,
-            academicContentDetected: this.detectAcademicContent(syllabusContent),
-            processingTimeMs: 50 // Minimal cache retrieval time
-          };
-
-          logger.info('✅ CACHE RETURN: Returning cached task generation results', {
-            contentHashPrefix: contentHash.substring(0, 12) + '...',
-            tasksReturned: transformedTasks.length,
-            averageConfidence: metadata.averageConfidence,
-            cacheSource: 'file_fingerprints_table'
-          });
 
-          return {
-            tasks: transformedTasks,
-            warnings: [], // Cached results have no new warnings
-            metadata
-          };
-        } else {
-          logger.info('📭 CACHE MISS: No cached results found, proceeding with AI analysis', {
-            contentHashPrefix: contentHash.substring(0, 12) + '...',
-            classId,
-            reason: 'Fresh content or no previous processing'
-          });
+      const contentHash = await this.getContentHash(syllabusContent);
+      const cache = contentHash
+        ? await this.getStageCache(contentHash, syllabusContent.length, classId, user.id)
+        : undefined;
 
-          // Store initial fingerprint for tracking (non-blocking)
-          cacheService.storeFingerprint(
-            {
-              contentHash,
-              filename: `syllabus-${classId}-${Date.now()}`,
-              size: syllabusContent.length,
-              mimeType: 'text/plain',
-              createdAt: new Date()
-            },
-            {
-              classId,
-              userId: user.id,
-              processingStatus: 'generating'
-            }
-          ).catch(error => {
-            logger.debug('Failed to store initial fingerprint (non-blocking)', { error });
-          });
-        }
-      } catch (cacheError) {
-        logger.warn('⚠️ CACHE ERROR: Cache check failed, proceeding with AI analysis', {
-          classId,
-          error: cacheError instanceof Error ? cacheError.message : String(cacheError),
-          fallback: 'AI analysis will proceed normally'
-        });
-        // Continue with normal processing - cache failures should not break functionality
-      }
-      
-      // Call AI Analysis Edge Function for task generation
-      const aiResponse = await callAIAnalysisEdgeFunction({
-        syllabusText: syllabusContent,
+      const pipeline = await runSyllabusPipeline(syllabusContent, {
+        content: syllabusContent,
+        classId,
         className: classInfo?.name || 'Unknown Class',
-        courseName: classInfo?.name || 'Unknown Course'
-      });
-      
-      // Parse and validate generated tasks
-      const parsedTasks = parseGeminiResponse(aiResponse);
-      
-      // ENHANCED DEBUG: Log ALL tasks with comprehensive details
-      logger.info('🔍 COMPREHENSIVE PARSED TASKS ANALYSIS - EE 123', {
-        totalParsed: parsedTasks.length,
-        allTasks: parsedTasks.map((task, index) => ({
-          index: index + 1,
-          title: task.title,
-          taskType: task.taskType,
-          dueDate: task.dueDate,
-          assignmentDate: task.assignmentDate,
-          sessionDate: task.sessionDate,
-          courseCode: task.courseCode,
-          courseName: task.courseName,
-          subject: task.subject,
-          confidenceScore: task.confidenceScore,
-          hasAnyDate: !!(task.dueDate || task.assignmentDate || task.sessionDate)
-        })),
-        validTaskTypes: TASK_GENERATION_CONFIG.TASK_VALIDATION_PATTERNS.VALID_TASK_TYPES
-      });
+        userId: user.id,
+        academicSystem: this.getAcademicSystem(),
+        classes,
+        classMemory: getClassResolverMemory(user.id)
+      }, { cache });
 
-      // CRITICAL DEBUG: Detailed lab task analysis to find filtering issues
-      const labTasks = parsedTasks.filter(t => t.taskType?.toLowerCase() === 'lab');
-      logger.info('🧪 CRITICAL LAB TASKS ANALYSIS - EE 123', {
-        totalLabTasks: labTasks.length,
-        expectedLabCount: '7-8 labs from EE 123 syllabus',
-        labTaskDetails: labTasks.map((task, index) => ({
-          labNumber: index + 1,
-          title: task.title,
-          taskType: task.taskType,
-          dueDate: task.dueDate,
-          assignmentDate: task.assignmentDate,
-          sessionDate: task.sessionDate,
-          courseCode: task.courseCode,
-          courseName: task.courseName,
-          subject: task.subject,
-          confidenceScore: task.confidenceScore,
-          sourceText: task.sourceText?.substring(0, 150),
-          hasRequiredDate: !!(task.dueDate || task.assignmentDate || task.sessionDate),
-          willPassValidation: task.confidenceScore >= TASK_GENERATION_CONFIG.MIN_LAB_CONFIDENCE_SCORE
-        })),
-        criticalInfo: {
-          minLabConfidence: TASK_GENERATION_CONFIG.MIN_LAB_CONFIDENCE_SCORE,
-          minStandardConfidence: TASK_GENERATION_CONFIG.MIN_CONFIDENCE_SCORE,
-          labsWithDates: labTasks.filter(t => !!(t.dueDate || t.assignmentDate || t.sessionDate)).length,
-          labsAboveThreshold: labTasks.filter(t => t.confidenceScore >= TASK_GENERATION_CONFIG.MIN_LAB_CONFIDENCE_SCORE).length
-        }
-      });
-      
-      // Apply manual lab date parsing if AI failed to extract dates (DOCUMENT-BASED)
-      const enhancedTasks = await enhanceLabTasksWithManualDateParsing(parsedTasks, classId);
-      
-      // CRITICAL VALIDATION STEP - Where labs might be getting filtered
-      logger.info('🚨 ENTERING CRITICAL VALIDATION PHASE - EE 123', {
-        totalTasksBeforeValidation: enhancedTasks.length,
-        labTasksBeforeValidation: enhancedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length
-      });
-      
-      const validatedTasks = this.validateGeneratedTasks(enhancedTasks, syllabusContent);
-      
-      logger.info('📋 VALIDATION RESULTS - EE 123', {
-        totalTasksAfterValidation: validatedTasks.length,
-        labTasksAfterValidation: validatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length,
-        tasksRejectedInValidation: enhancedTasks.length - validatedTasks.length,
-        labsRejectedInValidation: enhancedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length - validatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length
-      });
-      
-      // CRITICAL DEDUPLICATION STEP - Second place labs might be lost
-      logger.info('🔄 DEDUPLICATION PHASE DISABLED - EE 123', {
-        totalTasksBeforeDedup: validatedTasks.length,
-        labTasksBeforeDedup: validatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length,
-        note: 'Deduplication disabled to preserve all lab tasks'
-      });
-      
-      // DISABLED: Skip deduplication entirely to preserve all tasks
-      const deduplicatedTasks = validatedTasks; // this.deduplicateAllTasks(validatedTasks);
-      
-      logger.info('✂️ DEDUPLICATION RESULTS - EE 123 (DISABLED)', {
-        totalTasksAfterDedup: deduplicatedTasks.length,
-        labTasksAfterDedup: deduplicatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length,
-        tasksRemovedInDedup: 0, // validatedTasks.length - deduplicatedTasks.length,
-        labsRemovedInDedup: 0, // validatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length - deduplicatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab').length
-        status: 'DEDUPLICATION_DISABLED'
-      });
-      
-      // Calculate metadata
+      const tasks = pipeline.tasks;
+      const warnings = [...securityValidation.warnings, ...pipeline.warnings];
       const metadata = {
-        totalTasksGenerated: deduplicatedTasks.length,
-        averageConfidence: deduplicatedTasks.reduce((sum, task) => sum + task.confidenceScore, 0) / deduplicatedTasks.length || 0,
-        academicContentDetected: this.detectAcademicContent(syllabusContent),
-        processingTimeMs: Date.now() - startTime
+        totalTasksGenerated: tasks.length,
+        averageConfidence: tasks.reduce((sum, task) => sum + task.confidenceScore, 0) / tasks.length || 0,
+        academicContentDetected: detectAcademicContent(syllabusContent),
+        processingTimeMs: Date.now() - startTime,
+        cachedStages: pipeline.stages.filter(stage => stage.fromCache).map(stage => stage.name)
       };
 
       logger.info('Syllabus task generation completed', {
         classId,
         userId: user.id,
-        tasksGenerated: deduplicatedTasks.length,
-        duplicatesRemoved: validatedTasks.length - deduplicatedTasks.length,
+        tasksGenerated: tasks.length,
         averageConfidence: metadata.averageConfidence,
+        cachedStages: metadata.cachedStages,
         processingTime: metadata.processingTimeMs
       });
 
-      // CACHE OPTIMIZATION: Store successful results for future use
-      try {
-        const contentHash = await generateTextHash(syllabusContent);
-        
-        // Transform GeneratedTask to CachedTaskData format
-        const cachedTaskData: CachedTaskData[] = deduplicatedTasks.map(task => ({
-          title: task.title,
-          description: task.description,
-          dueDate: task.dueDate,
-          assignmentDate: task.assignmentDate,
-          sessionDate: task.sessionDate,
-          taskType: task.taskType,
-          priority: task.priority,
-          confidence: task.confidenceScore
-          // Note: tags and estimatedDuration are optional fields that may not be present in GeneratedTask
-        }));
-
-        // Prepare task generation metadata for caching
-        const taskGenerationMetadata: TaskGenerationMetadata = {
-          averageConfidence: metadata.averageConfidence,
-          totalTasks: metadata.totalTasksGenerated,
-          processingDuration: metadata.processingTimeMs,
-          generatedAt: new Date(),
-          warnings: securityValidation.warnings,
-          duplicatesDetected: validatedTasks.length - deduplicatedTasks.length,
-          duplicatesRemoved: validatedTasks.length - deduplicatedTasks.length
-        };
-
-        // Store results in cache for future requests
-        const cacheStored = await cacheService.updateProcessingStatus(
-          contentHash,
-          'completed',
-          {
-            generatedTasks: cachedTaskData,
-            taskGenerationMetadata: taskGenerationMetadata,
-            processingDuration: metadata.processingTimeMs
-          }
-        );
-
-        if (cacheStored) {
-          logger.info('💾 CACHE STORE: Successfully cached task generation results', {
-            contentHashPrefix: contentHash.substring(0, 12) + '...',
-            tasksStored: cachedTaskData.length,
-            processingTime: metadata.processingTimeMs,
-            classId,
-            userId: user.id,
-            futurePerformanceImprovement: '~95% faster for identical content'
-          });
-        } else {
-          logger.warn('💾 CACHE STORE WARNING: Failed to cache results, but processing completed successfully', {
-            contentHashPrefix: contentHash.substring(0, 12) + '...',
-            tasksGenerated: deduplicatedTasks.length,
-            classId,
-            impact: 'No impact on current request, future requests will not benefit from cache'
-          });
-        }
-      } catch (cacheError) {
-        logger.warn('⚠️ CACHE STORE ERROR: Failed to store results in cache, but processing completed successfully', {
-          classId,
-          userId: user.id,
-          tasksGenerated: deduplicatedTasks.length,
-          error: cacheError instanceof Error ? cacheError.message : String(cacheError),
-          impact: 'No impact on current request, future requests will not benefit from cache'
-        });
-        // Don't throw - cache storage failure should not affect the main functionality
+      if (contentHash) {
+        await this.storeGenerationResult(contentHash, pipeline, warnings, metadata.processingTimeMs);
       }
 
       return {
-        tasks: deduplicatedTasks,
-        warnings: securityValidation.warnings,
+        tasks,
+        gradingPolicy,
+        warnings,
         metadata
       };
 
@@ -396,22 +151,24 @@ export class SyllabusTaskGenerationService {
   }
 
   /**
-   * Create actual tasks in the database from generated tasks with automatic class assignment
+   * Create actual tasks in the database from generated tasks with automatic class assignment.
+   * Tasks the user approved in the review step are created whatever their confidence.
    */
   static async createTasksFromGenerated(
     generatedTasks: GeneratedTask[],
     fallbackClassId: string,
-    user: User
+    user: User,
+    options: { reviewed?: boolean } = {}
   ): Promise<Task[]> {
     logger.info('Creating tasks from generated content with automatic class assignment', {
       fallbackClassId,
       userId: user.id,
-      taskCount: generatedTasks.length
+      taskCount: generatedTasks.length,
+      reviewed: !!options.reviewed
     });
 
     // Import the existing service layer functions
     const { addTask } = await import('./task/taskOperations');
-    const { addTaskType } = await import('./taskType/taskTypeOperations');
 
     const createdTasks: Task[] = [];
     const errors: string[] = [];
@@ -419,54 +176,26 @@ export class SyllabusTaskGenerationService {
     for (const generatedTask of generatedTasks) {
       try {
         // Only create tasks that meet confidence threshold (relaxed for labs)
-        const isLabTask = generatedTask.taskType?.toLowerCase() === 'lab';
-        const confidenceThreshold = isLabTask ? TASK_GENERATION_CONFIG.MIN_LAB_CONFIDENCE_SCORE : TASK_GENERATION_CONFIG.MIN_CONFIDENCE_SCORE;
-        
-        if (generatedTask.confidenceScore < confidenceThreshold) {
+        if (!options.reviewed && !meetsConfidenceThreshold(generatedTask)) {
           logger.warn('Skipping low-confidence task', {
             taskTitle: generatedTask.title,
             taskType: generatedTask.taskType,
             confidence: generatedTask.confidenceScore,
-            threshold: confidenceThreshold,
-            isLabTask
+            threshold: getConfidenceThreshold(generatedTask)
           });
           continue;
         }
 
         // Get or create task type using the service layer
-        const taskTypeId = await this.getOrCreateTaskTypeViaServiceLayer(generatedTask.taskType, user.id);
-
-        // Determine the appropriate class for this task based on AI-detected course information
-        const assignedClassId = await this.determineTaskClass(generatedTask, fallbackClassId, user);
+        const taskTypeId = await getOrCreateTaskTypeViaServiceLayer(generatedTask.taskType, user.id);
 
-        // Determine appropriate due date for task, especially labs
-        const finalDueDate = this.determineFinalDueDate(generatedTask);
+        // The class the pipeline matched, or one found or created from the detected course information
+        const assignedClassId = generatedTask.classId || await determineTaskClass(generatedTask, fallbackClassId, user);
 
-        // CRITICAL LAB TASK CREATION LOGGING
-        if (generatedTask.taskType?.toLowerCase() === 'lab') {
-          logger.info('🚀 CREATING LAB TASK - EE 123', {
-            taskTitle: generatedTask.title,
-            taskType: generatedTask.taskType,
-            originalDates: {
-              dueDate: generatedTask.dueDate,
-              assignmentDate: generatedTask.assignmentDate,
-              sessionDate: generatedTask.sessionDate
-            },
-            calculatedDueDate: finalDueDate,
-            assignedClass: assignedClassId,
-            confidence: generatedTask.confidenceScore,
-            willCreateInDb: !!finalDueDate,
-            taskDataToCreate: {
-              title: generatedTask.title,
-              dueDate: finalDueDate,
-              date: finalDueDate,
-              class: assignedClassId,
-              type: 'will_resolve_via_service'
-            }
-          });
-        }
+        // Reviewed tasks may have had their due date cleared or edited
+        const finalDueDate = determineFinalDueDate(generatedTask);
 
-        // Convert to the format expected by addTask - FIXED for calendar display
+        // Convert to the format expected by addTask
         const taskData = {
           title: generatedTask.title,
           class: assignedClassId, // Using automatically determined class
@@ -483,37 +212,16 @@ export class SyllabusTaskGenerationService {
         const task = await addTask(taskData, true, user);
 
         createdTasks.push(task);
-        
-        // SUCCESS LOGGING WITH CALENDAR VERIFICATION
-        const isLab = generatedTask.taskType?.toLowerCase() === 'lab';
-        if (isLab) {
-          logger.info('✅ LAB TASK SUCCESSFULLY CREATED - SHOULD APPEAR IN CALENDAR', {
-            taskId: task.id,
-            title: task.title,
-            taskType: generatedTask.taskType,
-            dueDate: finalDueDate,
-            dateField: finalDueDate,
-            assignedClass: assignedClassId,
-            confidence: generatedTask.confidenceScore,
-            calendarEligible: !!(finalDueDate),
-            createdTask: {
-              id: task.id,
-              title: task.title,
-              dueDate: task.dueDate,
-              date: task.date,
-              type: task.type,
-              class: task.class
-            }
-          });
-        } else {
-          logger.debug('Task created from syllabus with auto-assigned class', {
-            taskId: task.id,
-            title: task.title,
-            assignedClass: assignedClassId,
-            detectedCourse: generatedTask.courseCode || generatedTask.courseName || 'none',
-            confidence: generatedTask.confidenceScore
-          });
-        }
+
+        logger.debug('Task created from syllabus with auto-assigned class', {
+          taskId: task.id,
+          title: task.title,
+          taskType: generatedTask.taskType,
+          dueDate: finalDueDate,
+          assignedClass: assignedClassId,
+          detectedCourse: generatedTask.courseCode || generatedTask.courseName || 'none',
+          confidence: generatedTask.confidenceScore
+        });
 
       } catch (error) {
         errors.push(`Error creating task "${generatedTask.title}": ${error instanceof Error ? error.message : String(error)}`);
@@ -533,2587 +241,190 @@ export class SyllabusTaskGenerationService {
       });
     }
 
-    const createdLabTasks = createdTasks.filter(t => {
-      // Check if task type name contains 'lab' 
-      const taskTypeId = generatedTasks.find(gt => gt.title === t.title)?.taskType;
-      return taskTypeId?.toLowerCase() === 'lab';
-    });
-
-    logger.info('🏁 FINAL TASK CREATION SUMMARY - EE 123', {
+    logger.info('Syllabus task creation completed', {
       fallbackClassId,
       userId: user.id,
       totalGenerated: generatedTasks.length,
       successfullyCreated: createdTasks.length,
-      labTasksCreated: createdLabTasks.length,
-      expectedLabCount: '7-8',
-      errors: errors.length,
-      createdLabTitles: createdLabTasks.map(t => t.title),
-      criticalCheck: {
-        labsWithDates: createdLabTasks.filter(t => t.dueDate || t.date).length,
-        shouldAppearInCalendar: createdLabTasks.filter(t => t.dueDate || t.date).map(t => t.title)
-      }
+      withoutDueDate: createdTasks.filter(task => !task.dueDate && !task.date).length,
+      errors: errors.length
     });
 
     return createdTasks;
   }
 
   /**
-   * Determine the appropriate class for a task based on AI-detected course information
-   * This mimics the Canvas import automatic class assignment functionality
-   */
-  private static async determineTaskClass(
-    generatedTask: GeneratedTask,
-    fallbackClassId: string,
-    user: User
-  ): Promise<string> {
-    try {
-      // Import class operations
-      const { getClasses, addClass } = await import('./class/classOperations');
-      const { getSettings } = await import('./settings/settingsOperations');
-      
-      // If no course information was detected by AI, use fallback class
-      if (!generatedTask.courseCode && !generatedTask.courseName) {
-        logger.debug('No course information detected, using fallback class', {
-          taskTitle: generatedTask.title,
-          fallbackClassId
-        });
-        return fallbackClassId;
-      }
-
-      // Get existing classes for the user
-      const existingClasses = await getClasses(user.id, true);
-      
-      // Try to find existing class based on detected course information
-      const detectedCourseCode = generatedTask.courseCode?.toLowerCase();
-      const detectedCourseName = generatedTask.courseName?.toLowerCase();
-      
-      logger.debug('Searching for matching class', {
-        taskTitle: generatedTask.title,
-        detectedCourseCode,
-        detectedCourseName,
-        existingClassCount: existingClasses.length
-      });
-
-      // Enhanced class matching logic (similar to Canvas import)
-      const matchingClass = existingClasses.find(cls => {
-        const classId = cls.id.toLowerCase();
-        const className = cls.name.toLowerCase();
-        
-        // Direct course code match
-        if (detectedCourseCode && classId === detectedCourseCode) {
-          logger.debug('Found direct course code match', {
-            taskTitle: generatedTask.title,
-            matchedClass: cls.name,
-            classId: cls.id
-          });
-          return true;
-        }
-        
-        // Course code in class name
-        if (detectedCourseCode && className.includes(detectedCourseCode)) {
-          logger.debug('Found course code in class name', {
-            taskTitle: generatedTask.title,
-            matchedClass: cls.name,
-            classId: cls.id
-          });
-          return true;
-        }
-        
-        // Course name match
-        if (detectedCourseName && className.includes(detectedCourseName)) {
-          logger.debug('Found course name match', {
-            taskTitle: generatedTask.title,
-            matchedClass: cls.name,
-            classId: cls.id
-          });
-          return true;
-        }
-        
-        // Try subject matching (e.g., CS101 matches Computer Science)
-        if (detectedCourseCode) {
-          const subjectMatch = detectedCourseCode.match(/([a-z]+)(\d+)/);
-          if (subjectMatch) {
-            const [, subject] = subjectMatch;
-            const subjectMappings: { [key: string]: string[] } = {
-              'cs': ['computer', 'computing'],
-              'math': ['mathematics', 'math'],
-              'ee': ['electrical', 'engineering'],
-              'me': ['mechanical', 'engineering'],
-              'ce': ['computer', 'civil', 'engineering'],
-              'phys': ['physics', 'physical'],
-              'chem': ['chemistry', 'chemical'],
-              'biol': ['biology', 'biological'],
-              'psyc': ['psychology', 'psychological'],
-              'econ': ['economics', 'economic'],
-              'engl': ['english', 'literature'],
-              'hist': ['history', 'historical']
-            };
-            
-            const relatedTerms = subjectMappings[subject] || [subject];
-            if (relatedTerms.some(term => className.includes(term))) {
-              logger.debug('Found subject match', {
-                taskTitle: generatedTask.title,
-                subject,
-                relatedTerms,
-                matchedClass: cls.name,
-                classId: cls.id
-              });
-              return true;
-            }
-          }
-        }
-        
-        return false;
-      });
-
-      if (matchingClass) {
-        logger.debug('Using existing matching class', {
-          taskTitle: generatedTask.title,
-          matchedClass: matchingClass.name,
-          classId: matchingClass.id
-        });
-        return matchingClass.id;
-      }
-
-      // No existing class found, create a new one based on detected course information
-      const settings = getSettings();
-      const useDescriptiveNames = settings.classNamingStyle === 'descriptive';
-      
-      let newClassName: string;
-      let newClassId: string;
-      
-      if (detectedCourseCode && detectedCourseName) {
-        // We have both code and name
-        newClassName = useDescriptiveNames ? detectedCourseName : detectedCourseCode.toUpperCase();
-        newClassId = detectedCourseCode.toLowerCase();
-      } else if (detectedCourseCode) {
-        // Only have course code
-        newClassName = useDescriptiveNames ? this.generateUserFriendlyClassName(detectedCourseCode) : detectedCourseCode.toUpperCase();
-        newClassId = detectedCourseCode.toLowerCase();
-      } else if (detectedCourseName) {
-        // Only have course name
-        newClassName = detectedCourseName;
-        newClassId = detectedCourseName.toLowerCase().replace(/\s+/g, '');
-      } else {
-        // Fallback to default class
-        return fallbackClassId;
-      }
-
-      // Create the new class
-      logger.debug('Creating new class for detected course', {
-        taskTitle: generatedTask.title,
-        newClassName,
-        newClassId,
-        detectedCourseCode,
-        detectedCourseName,
-        useDescriptiveNames
-      });
-
-      await addClass({
-        id: newClassId,
-        name: newClassName,
-        user_id: user.id,
-        istaskclass: true, // Mark as task class since it's from AI-generated content
-        created_at: new Date().toISOString()
-      }, true);
-
-      logger.debug('Successfully created new class for AI-detected course', {
-        taskTitle: generatedTask.title,
-        createdClass: newClassName,
-        classId: newClassId
-      });
-
-      return newClassId;
-
-    } catch (error) {
-      logger.error('Error determining task class, using fallback', {
-        taskTitle: generatedTask.title,
-        fallbackClassId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return fallbackClassId;
-    }
-  }
-
-  /**
-   * Determine the final due date for a task - WITH FALLBACK for EE 123 labs
+   * Build the review list for generated tasks: triaged by confidence, with
+   * duplicates of tasks already in the class (or earlier in the list) found by
+   * checkIfTasksDuplicate, and tasks rejected in an earlier review flagged.
+   * Duplicates, earlier rejections and low-confidence tasks start unapproved.
    */
-  private static determineFinalDueDate(generatedTask: GeneratedTask & { _labSchedule?: Array<{title: string, date: string}> }): string | undefined {
-    // If we already have a dueDate, use it
-    if (generatedTask.dueDate) {
-      logger.debug('Using explicit due date', {
-        taskTitle: generatedTask.title,
-        dueDate: generatedTask.dueDate
-      });
-      return generatedTask.dueDate;
-    }
-
-    // For lab assignments, prioritize session date (when lab occurs)
-    if (generatedTask.taskType?.toLowerCase() === 'lab') {
-      const subject = this.detectSubjectFromTask(generatedTask);
-      
-      logger.debug('Processing lab task date determination', {
-        taskTitle: generatedTask.title,
-        subject,
-        assignmentDate: generatedTask.assignmentDate,
-        sessionDate: generatedTask.sessionDate,
-        originalDueDate: generatedTask.dueDate,
-        hasLabSchedule: !!(generatedTask._labSchedule && generatedTask._labSchedule.length > 0)
-      });
-
-      // PRIMARY RULE: Check if we have parsed lab schedule from syllabus
-      if (generatedTask._labSchedule && generatedTask._labSchedule.length > 0) {
-        const matchingSession = this.findMatchingLabSession(generatedTask, generatedTask._labSchedule);
-        if (matchingSession) {
-          logger.info('✅ USING PARSED LAB DATE FROM SYLLABUS', {
-            taskTitle: generatedTask.title,
-            matchedSessionTitle: matchingSession.title,
-            parsedDate: matchingSession.date,
-            source: 'Syllabus extraction'
-          });
-          return matchingSession.date;
-        }
-      }
-
-      // SECONDARY RULE: Session date is when the lab occurs - use this for calendar display
-      if (generatedTask.sessionDate) {
-        logger.info('Using session date as lab due date for calendar display', {
-          taskTitle: generatedTask.title,
-          subject,
-          sessionDate: generatedTask.sessionDate
-        });
-        return generatedTask.sessionDate;
-      }
-
-      // TERTIARY RULE: Assignment date as fallback
-      if (generatedTask.assignmentDate) {
-        logger.debug('Using assignment date as lab fallback', {
-          taskTitle: generatedTask.title,
-          assignmentDate: generatedTask.assignmentDate
-        });
-        return generatedTask.assignmentDate;
-      }
-
-      // FINAL FALLBACK: Lab date fallback system for EE 123
-      // Generate reasonable lab dates based on lab number and course pattern
-      const labFallbackDate = this.generateLabFallbackDate(generatedTask);
-      if (labFallbackDate) {
-        logger.warn('Using generated fallback date for lab - CALENDAR DISPLAY ENABLED', {
-          taskTitle: generatedTask.title,
-          subject,
-          fallbackDate: labFallbackDate,
-          reason: 'No explicit dates found in syllabus'
-        });
-        return labFallbackDate;
-      }
-
-      // CRITICAL WARNING: No date available for lab
-      logger.error('CRITICAL: No date available for lab assignment - this WILL prevent calendar display', {
-        taskTitle: generatedTask.title,
-        subject,
-        taskType: generatedTask.taskType,
-        availableDates: {
-          dueDate: !!generatedTask.dueDate,
-          assignmentDate: !!generatedTask.assignmentDate,
-          sessionDate: !!generatedTask.sessionDate
-        }
+  static prepareTaskReview(
+    generatedTasks: GeneratedTask[],
+    context: { classId: string; existingTasks: Task[]; taskTypes: TaskType[]; rejections: TaskRejection[] }
+  ): TaskReviewItem[] {
+    const typeNames = new Map(context.taskTypes.map(type => [type.id, type.name.toLowerCase()]));
+    const existing = context.existingTasks
+      .filter(task => task.class === context.classId)
+      .map(task => {
+        const typeName = (task.type && typeNames.get(task.type)) || '';
+        const taskType = isValidTaskType(typeName) ? typeName : inferTaskType(task.title, typeName);
+        return {
+          task,
+          generated: { title: task.title, dueDate: task.dueDate, taskType, priority: 'medium' as const, confidenceScore: 1 }
+        };
       });
-      return undefined;
-    }
 
-    // For non-lab tasks, try assignment date then session date
-    if (generatedTask.assignmentDate) {
-      logger.debug('Using assignment date for non-lab task', {
-        taskTitle: generatedTask.title,
-        assignmentDate: generatedTask.assignmentDate
-      });
-      return generatedTask.assignmentDate;
-    }
-    
-    if (generatedTask.sessionDate) {
-      logger.debug('Using session date for non-lab task', {
-        taskTitle: generatedTask.title,
-        sessionDate: generatedTask.sessionDate
+    const items: TaskReviewItem[] = [];
+    generatedTasks.forEach((task, index) => {
+      const existingMatch = existing.find(candidate => checkIfTasksDuplicate(task, candidate.generated).isDuplicate);
+      const itemMatch = existingMatch ? undefined : items.find(item => checkIfTasksDuplicate(task, item.task).isDuplicate);
+      const duplicateOf = existingMatch
+        ? { title: existingMatch.task.title, taskId: existingMatch.task.id }
+        : itemMatch ? { title: itemMatch.task.title, itemId: itemMatch.id } : undefined;
+      const confidence = getReviewConfidence(task.confidenceScore);
+      const rejectedBefore = wasRejectedBefore(task, context.rejections);
+
+      items.push({
+        id: `review-${index}`,
+        task,
+        approved: !duplicateOf && !rejectedBefore && confidence !== 'low',
+        confidence,
+        duplicateOf,
+        rejectedBefore,
+        mergedFrom: [],
+        suggestedClassId: task.classId
       });
-      return generatedTask.sessionDate;
-    }
-
-    // No date information available
-    logger.warn('No date information available for task - this will prevent calendar display', {
-      taskTitle: generatedTask.title,
-      taskType: generatedTask.taskType,
-      availableDates: {
-        dueDate: !!generatedTask.dueDate,
-        assignmentDate: !!generatedTask.assignmentDate,
-        sessionDate: !!generatedTask.sessionDate
-      }
     });
-    
-    return undefined;
-  }
-
-  /**
-   * Detect academic subject from task information
-   */
-  private static detectSubjectFromTask(generatedTask: GeneratedTask): string {
-    // First, use AI-detected subject if available
-    if (generatedTask.subject) {
-      // Map AI subject to our standard names
-      const subjectMappings: { [key: string]: string } = {
-        'EE': 'Electrical Engineering',
-        'ECE': 'Electrical Engineering', 
-        'Electrical Engineering': 'Electrical Engineering',
-        'CHEM': 'Chemistry',
-        'Chemistry': 'Chemistry',
-        'Chemical': 'Chemistry',
-        'PHYS': 'Physics',
-        'Physics': 'Physics',
-        'Physical Science': 'Physics',
-        'CS': 'Computer Science',
-        'Computer Science': 'Computer Science',
-        'MATH': 'Mathematics',
-        'Mathematics': 'Mathematics'
-      };
-      
-      const mappedSubject = subjectMappings[generatedTask.subject];
-      if (mappedSubject) {
-        logger.debug('Subject detected from AI subject field', {
-          taskTitle: generatedTask.title,
-          aiSubject: generatedTask.subject,
-          mappedSubject
-        });
-        return mappedSubject;
-      }
-    }
-
-    // Enhanced fallback: detect from course code or course name
-    const courseInfo = (generatedTask.courseCode || generatedTask.courseName || '').toLowerCase();
-    
-    // Enhanced EE detection patterns - IMPROVED for EE 123
-    if (courseInfo.includes('ee ') || courseInfo.includes('ee1') || courseInfo.includes('ee2') || 
-        courseInfo.includes('ee123') || courseInfo.includes('ee 123') ||
-        courseInfo.includes('ece') || courseInfo.includes('electrical') ||
-        courseInfo.includes('power electronics')) {
-      logger.debug('EE subject detected from course info', {
-        taskTitle: generatedTask.title,
-        courseInfo: generatedTask.courseCode || generatedTask.courseName
-      });
-      return 'Electrical Engineering';
-    }
-    
-    if (courseInfo.includes('chem') || courseInfo.includes('chemistry')) {
-      return 'Chemistry';
-    }
-    
-    if (courseInfo.includes('phys') || courseInfo.includes('physics')) {
-      return 'Physics';
-    }
-
-    if (courseInfo.includes('cs ') || courseInfo.includes('cs1') || courseInfo.includes('cs2') || 
-        courseInfo.includes('computer')) {
-      return 'Computer Science';
-    }
-
-    if (courseInfo.includes('math') || courseInfo.includes('mathematics')) {
-      return 'Mathematics';
-    }
-
-    // Additional fallback: check task title for subject indicators
-    const taskTitle = generatedTask.title.toLowerCase();
-    
-    // Enhanced EE detection from task content
-    if (taskTitle.includes('power') && (taskTitle.includes('electronic') || taskTitle.includes('electronics'))) {
-      logger.debug('EE subject detected from power electronics in title', {
-        taskTitle: generatedTask.title
-      });
-      return 'Electrical Engineering';
-    }
-    
-    if (taskTitle.includes('circuit') || taskTitle.includes('voltage') || taskTitle.includes('current') || 
-        taskTitle.includes('rectifier') || taskTitle.includes('converter') || taskTitle.includes('inverter')) {
-      logger.debug('EE subject detected from electrical terms in title', {
-        taskTitle: generatedTask.title
-      });
-      return 'Electrical Engineering';
-    }
-
-    // Final fallback: check for common lab patterns that might indicate subject
-    if (taskTitle.includes('lab') && (taskTitle.includes('characterization') || taskTitle.includes('bridge'))) {
-      logger.debug('EE subject inferred from lab content', {
-        taskTitle: generatedTask.title
-      });
-      return 'Electrical Engineering';
-    }
 
-    logger.debug('Subject detection failed, returning Unknown', {
-      taskTitle: generatedTask.title,
-      courseCode: generatedTask.courseCode,
-      courseName: generatedTask.courseName,
-      subject: generatedTask.subject
+    logger.info('Prepared syllabus tasks for review', {
+      classId: context.classId,
+      tasks: items.length,
+      byConfidence: items.reduce<Record<string, number>>((counts, item) => {
+        counts[item.confidence] = (counts[item.confidence] || 0) + 1;
+        return counts;
+      }, {}),
+      duplicatesOfExisting: items.filter(item => item.duplicateOf?.taskId).length,
+      duplicatesInExtraction: items.filter(item => item.duplicateOf?.itemId).length,
+      rejectedBefore: items.filter(item => item.rejectedBefore).length
     });
 
-    return 'Unknown';
+    return items;
   }
 
   /**
-   * Generate fallback date for lab tasks when no date is found - EE 123 specific
+   * Hash of the syllabus for the fingerprint cache, or null if it can't be
+   * computed; the pipeline then runs uncached
    */
-  private static generateLabFallbackDate(generatedTask: GeneratedTask): string | undefined {
+  private static async getContentHash(syllabusContent: string): Promise<string | null> {
     try {
-      // Extract lab number from title - handle both "Lab X" and LTspice Installation (Lab 0)
-      let labNumber: number | null = null;
-      
-      // First try standard lab number extraction
-      const labNumberMatch = generatedTask.title.match(/lab\s*(\d+)/i);
-      if (labNumberMatch) {
-        labNumber = parseInt(labNumberMatch[1]);
-      } 
-      // Special case for LTspice Installation which is Lab 0
-      else if (generatedTask.title.toLowerCase().includes('ltspice') && 
-               generatedTask.title.toLowerCase().includes('installation')) {
-        labNumber = 0;
-        logger.info('Detected LTspice Installation as Lab 0', {
-          taskTitle: generatedTask.title
-        });
-      }
-      
-      if (labNumber === null) {
-        logger.debug('No lab number found for fallback date generation', {
-          taskTitle: generatedTask.title
-        });
-        return undefined;
-      }
-
-      // EE 123 Summer 2025 course - use actual syllabus dates
-      // These are the ACTUAL dates from the EE 123 syllabus calendar
-      const labDates: { [key: number]: string } = {
-        0: '2025-07-29', // Tue, 07/29 - LTspice Installation
-        1: '2025-07-31', // Thu, 07/31 - Power Characterization
-        2: '2025-08-05', // Tue, 08/05 - Half-Wave Rectifiers
-        3: '2025-08-07', // Thu, 08/07 - Full-Wave Bridge Rectifiers
-        4: '2025-08-12', // Tue, 08/12 - Phase-Controlled Rectifiers
-        5: '2025-08-19', // Tue, 08/19 - Switch-Mode DC-DC Converters
-        6: '2025-08-21', // Thu, 08/21 - Flyback and Forward Converters
-        7: '2025-08-26', // Tue, 08/26 - DC-AC and AC-AC Line Inverters
-      };
-      
-      // Use the specific date if available, otherwise generate based on pattern
-      let fallbackDate: string;
-      if (labDates[labNumber]) {
-        fallbackDate = labDates[labNumber];
-        logger.info('Using specific EE 123 syllabus date for lab', {
-          taskTitle: generatedTask.title,
-          labNumber,
-          fallbackDate,
-          basedOn: 'EE 123 syllabus calendar dates'
-        });
-      } else {
-        // For labs beyond Lab 7, generate dates following the pattern
-        const baseDate = new Date('2025-07-29');
-        const labDate = new Date(baseDate);
-        const daysToAdd = labNumber * 2; // Every 2 days approximately
-        labDate.setDate(baseDate.getDate() + daysToAdd);
-        fallbackDate = labDate.toISOString().split('T')[0];
-        
-        logger.info('Generated fallback date for lab beyond syllabus range', {
-          taskTitle: generatedTask.title,
-          labNumber,
-          fallbackDate,
-          basedOn: 'Extrapolated pattern'
-        });
-      }
-      
-      return fallbackDate;
-      
+      return await generateTextHash(syllabusContent);
     } catch (error) {
-      logger.error('Failed to generate lab fallback date', {
-        taskTitle: generatedTask.title,
+      logger.warn('⚠️ CACHE ERROR: Could not hash syllabus, generating without the cache', {
         error: error instanceof Error ? error.message : String(error)
       });
-      return undefined;
-    }
-  }
-
-  /**
-   * Generate user-friendly class name from course code (similar to Canvas import)
-   */
-  private static generateUserFriendlyClassName(courseCode: string): string {
-    // Remove common prefixes and clean up codes
-    const cleanCode = courseCode.replace(/^(canvas|task)_?/i, '').toUpperCase();
-    
-    // Pattern matching for common course formats  
-    if (cleanCode.match(/^[A-Z]{2,4}\d+[A-Z]*$/)) {
-      // Format like EE123, CS100, MATH120
-      const subject = cleanCode.match(/^[A-Z]{2,4}/)?.[0] || '';
-      const number = cleanCode.replace(/^[A-Z]{2,4}/, '');
-      
-      // Common subject mappings
-      const subjectNames: { [key: string]: string } = {
-        'EE': 'Electrical Engineering',
-        'CS': 'Computer Science', 
-        'MATH': 'Mathematics',
-        'PHYS': 'Physics',
-        'CHEM': 'Chemistry',
-        'BIOL': 'Biology',
-        'ENGL': 'English',
-        'HIST': 'History',
-        'PSYC': 'Psychology',
-        'ECON': 'Economics',
-        'POLI': 'Political Science',
-        'PHIL': 'Philosophy',
-        'ANTH': 'Anthropology',
-        'SOCI': 'Sociology',
-        'ME': 'Mechanical Engineering',
-        'CE': 'Civil Engineering'
-      };
-      
-      const fullSubjectName = subjectNames[subject] || subject;
-      return `${fullSubjectName} ${number}`;
+      return null;
     }
-    
-    // Fallback: capitalize and format nicely
-    return cleanCode.replace(/([A-Z])(\d)/g, '$1 $2').replace(/_/g, ' ');
   }
 
   /**
-   * Validate syllabus content for security before AI processing
+   * The pipeline's stage cache for a syllabus, storing its fingerprint first
+   * if it's new so stage outputs have somewhere to go
    */
-  private static async validateSyllabusForTaskGeneration(content: string, userId: string): Promise<{
-    isValid: boolean;
-    errors: string[];
-    warnings: string[];
-  }> {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // Content length validation
-    if (content.length > TASK_GENERATION_CONFIG.MAX_PROMPT_LENGTH) {
-      errors.push('Syllabus content too large for processing');
-    }
-
-    if (content.length < 100) {
-      errors.push('Syllabus content too short to generate meaningful tasks');
-    }
-
-    // Academic content validation
-    const academicIndicators = TASK_GENERATION_CONFIG.TASK_VALIDATION_PATTERNS.ACADEMIC_TERMS
-      .filter(term => content.toLowerCase().includes(term.toLowerCase())).length;
-
-    if (academicIndicators < 3) {
-      warnings.push('Content may not be a typical academic syllabus');
-    }
-
-    // Security pattern validation (reuse from security service)
-    const suspiciousPatterns = [
-      /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
-      /javascript:/gi,
-      /data:text\/html/gi
-    ];
-
-    for (const pattern of suspiciousPatterns) {
-      if (pattern.test(content)) {
-        errors.push('Suspicious content detected in syllabus');
-        break;
-      }
+  private static async getStageCache(
+    contentHash: string,
+    size: number,
+    classId: string,
+    userId: string
+  ): Promise<StageCache> {
+    if (!await cacheService.checkFingerprint(contentHash)) {
+      await cacheService.storeFingerprint(
+        {
+          contentHash,
+          filename: `syllabus-${classId}-${Date.now()}`,
+          size,
+          mimeType: 'text/plain',
+          createdAt: new Date()
+        },
+        {
+          classId,
+          userId,
+          processingStatus: 'generating'
+        }
+      );
     }
 
-    SyllabusSecurityService.logSecurityEvent('syllabus_task_generation_validation', {
-      userId,
-      contentLength: content.length,
-      academicIndicators,
-      isValid: errors.length === 0,
-      errors: errors.length,
-      warnings: warnings.length
-    });
-
     return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
+      load: () => cacheService.getStageOutputs(contentHash),
+      save: async outputs => {
+        await cacheService.storeStageOutputs(contentHash, outputs);
+      }
     };
   }
 
   /**
-   * Build optimized prompt for Gemini API task extraction with class detection
-   */
-  private static buildTaskExtractionPrompt(syllabusContent: string): string {
-    return `
-You are an academic task extraction specialist. Analyze this syllabus and extract all assignments, exams, projects, and academic tasks.
-
-SYLLABUS CONTENT:
-${syllabusContent}
-
-EXTRACTION REQUIREMENTS:
-1. Extract ONLY clearly defined academic tasks (assignments, exams, projects, readings, lab sessions, etc.)
-2. Include due dates when available (convert to ISO format YYYY-MM-DD)
-3. Classify task types accurately (assignment, exam, quiz, project, reading, discussion, lab)
-4. Assign priority based on task importance (low, medium, high)
-5. Provide confidence score (0.0-1.0) for each extracted task
-6. IDENTIFY COURSE/CLASS INFORMATION for each task from course codes, department names, or subject areas mentioned in the syllabus
-
-LABORATORY SESSIONS CRITICAL HANDLING FOR EE 123:
-- Labs are scheduled on specific dates ("Tue, 07/29", "Thu, 07/31", etc.) - these ARE the session dates
-- Extract these dates as "sessionDate" field - they represent when the lab occurs
-- Look for table format: "Tue, 07/29" followed by "Lab 0. LTspice Installation" in Laboratory column
-- Date format: "Day, MM/DD" (e.g., "Tue, 07/29", "Thu, 07/31") - assume year 2025
-- Lab titles include descriptions: "Lab 1. Power Characterization, Regular and Controlled Rectifiers"
-- Extract both lab number AND description for complete task title
-- CRITICAL: These session dates should be used as due dates for calendar display
-
-OUTPUT FORMAT (JSON only):
-{
-  "tasks": [
-    {
-      "title": "Task name",
-      "description": "Brief description if available",
-      "dueDate": "YYYY-MM-DD or null if explicit due date found",
-      "assignmentDate": "YYYY-MM-DD or null if assignment date found",
-      "sessionDate": "YYYY-MM-DD or null if session/lab date found",
-      "taskType": "assignment|exam|quiz|project|reading|discussion|lab",
-      "priority": "low|medium|high",
-      "confidenceScore": 0.95,
-      "courseCode": "EE123" (this is EE 123 Power Electronics),
-      "courseName": "Full course name if available (e.g., Computer Science, Mathematics, Electrical Engineering)",
-      "subject": "Academic subject (e.g., EE, Chemistry, Physics, Computer Science)",
-      "sourceText": "Original text excerpt"
-    }
-  ]
-}
-
-COURSE/CLASS DETECTION GUIDELINES:
-- Look for course codes like CS101, MATH120, EE123, PSYC100, etc.
-- Extract department names like Computer Science, Mathematics, Psychology, etc.
-- Find subject areas mentioned in headers, titles, or course descriptions
-- Pay special attention to engineering courses (EE, ECE = Electrical Engineering)
-- If multiple courses are mentioned, assign each task to the most relevant course
-- If no specific course code is found, use the general subject area (e.g., "Science", "Math", "English")
-
-DATE EXTRACTION GUIDELINES FOR EE 123 SYLLABUS:
-- Laboratory calendar shows "Tue, 07/29", "Thu, 07/31" format - convert to 2025-07-29, 2025-07-31
-- These dates appear in the "Date" column and correspond to "Laboratory" column entries
-- Homework due dates use formats like "Sat, 08/02 HW 1, 11:59 pm" - extract these as assignment dates
-- Convert ALL dates to YYYY-MM-DD format assuming year 2025 (Summer 2025 course)
-- For labs: sessionDate = when lab occurs (from calendar table)
-- For homework: dueDate = explicit due date (e.g., "Sat, 08/02")
+   * Record the generated tasks with the syllabus's fingerprint; failures
+   * don't affect the result
+   */
+  private static async storeGenerationResult(
+    contentHash: string,
+    pipeline: PipelineResult,
+    warnings: string[],
+    processingDuration: number
+  ): Promise<void> {
+    const { tasks, stages } = pipeline;
+    const dedupeIndex = stages.findIndex(stage => stage.name === 'dedupe');
+    const duplicatesRemoved = dedupeIndex > 0
+      ? (stages[dedupeIndex - 1].outputCount ?? 0) - (stages[dedupeIndex].outputCount ?? 0)
+      : 0;
+
+    const generatedTasks: CachedTaskData[] = tasks.map(task => ({
+      title: task.title,
+      description: task.description,
+      dueDate: task.dueDate,
+      assignmentDate: task.assignmentDate,
+      sessionDate: task.sessionDate,
+      taskType: task.taskType,
+      priority: task.priority,
+      confidence: task.confidenceScore
+    }));
 
-IMPORTANT:
-- Only extract tasks explicitly mentioned in the syllabus
-- Do not infer or create tasks not directly stated
-- Confidence score should reflect certainty of extraction
-- Exclude general course information (policies, grading scales, etc.)
-- Always try to identify course/class information for proper organization
-- For labs, prioritize extracting session dates even if no due date is given
-- Maximum ${TASK_GENERATION_CONFIG.MAX_TASKS_PER_SYLLABUS} tasks
-`;
-  }
+    const taskGenerationMetadata: TaskGenerationMetadata = {
+      averageConfidence: tasks.reduce((sum, task) => sum + task.confidenceScore, 0) / tasks.length || 0,
+      totalTasks: tasks.length,
+      processingDuration,
+      generatedAt: new Date(),
+      warnings,
+      duplicatesDetected: duplicatesRemoved,
+      duplicatesRemoved
+    };
 
-  /**
-   * Call AI Analysis Edge Function for secure task generation
-   */
-  private static async callAIAnalysis(syllabusData: { syllabusText: string; className: string; courseName: string }): Promise<any> {
-    logger.info('Calling AI Analysis Edge Function for task extraction', {
-      syllabusLength: syllabusData.syllabusText.length,
-      className: syllabusData.className
+    const stored = await cacheService.updateProcessingStatus(contentHash, 'completed', {
+      generatedTasks,
+      taskGenerationMetadata,
+      processingDuration
     });
 
-    let retries = 3;
-    while (retries > 0) {
-      try {
-        const { data, error } = await supabase.functions.invoke('ai-analysis', {
-          body: {
-            type: 'syllabus_tasks',
-            data: syllabusData,
-            config: {
-              temperature: 0.1,
-              topK: 1,
-              topP: 0.8,
-              maxOutputTokens: 8192,
-            }
-          }
-        });
-
-        if (error) {
-          logger.error('AI Analysis Edge Function error', error);
-          throw new Error(`AI Analysis error: ${error.message}`);
-        }
-
-        if (!data) {
-          throw new Error('Invalid response from AI Analysis service');
-        }
-
-        logger.info('AI Analysis response received', {
-          hasResult: !!data,
-          resultType: typeof data
-        });
-
-        // Return the result directly - it should already be the task extraction text
-        const responseText = typeof data === 'string' ? data : JSON.stringify(data);
-        
-        logger.info('Successfully extracted response from AI Analysis', {
-          responseLength: responseText.length
-        });
-        
-        return responseText;
-        
-      } catch (error) {
-        retries--;
-        if (retries === 0) {
-          logger.error('AI Analysis call failed after retries', { error: error instanceof Error ? error.message : String(error) });
-          throw errorHandler.createError('AI Analysis call failed', 'AI_ANALYSIS_FAILED', {
-            service: 'AI Analysis Edge Function',
-            operation: 'task extraction',
-            originalError: error instanceof Error ? error.message : String(error)
-          });
-        }
-        
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+    if (!stored) {
+      logger.warn('💾 CACHE STORE WARNING: Failed to record generated tasks, but processing completed successfully', {
+        contentHashPrefix: contentHash.substring(0, 12) + '...',
+        tasksGenerated: tasks.length
+      });
     }
   }
 
   /**
-   * Parse Gemini response and extract task data
+   * The user's academic system, for reading week numbers against their term
    */
-  private static parseGeminiResponse(responseText: string): GeneratedTask[] {
+  private static getAcademicSystem(): AcademicSystem {
     try {
-      logger.debug('Parsing Gemini response', {
-        responseLength: responseText.length,
-        startsWithJson: responseText.trim().startsWith('```json'),
-        startsWithBackticks: responseText.trim().startsWith('```'),
-        firstChars: responseText.substring(0, 100)
-      });
-
-      // Extract JSON from response (handle markdown code blocks)
-      let jsonText = responseText.trim();
-      
-      // Remove markdown code block markers if present
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-
-      logger.debug('After markdown cleanup', {
-        jsonTextLength: jsonText.length,
-        firstChars: jsonText.substring(0, 200),
-        lastChars: jsonText.substring(jsonText.length - 100)
-      });
-
-      // Handle potential nested rawResponse structure
-      let parsed;
-      try {
-        parsed = JSON.parse(jsonText);
-      } catch (parseError) {
-        logger.warn('Initial JSON parse failed, checking for nested structure', { error: parseError });
-        
-        // Try to find JSON within the response
-        const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          jsonText = jsonMatch[0];
-          parsed = JSON.parse(jsonText);
-        } else {
-          throw parseError;
-        }
-      }
-
-      logger.debug('Successfully parsed JSON', {
-        parsedKeys: Object.keys(parsed),
-        hasTasks: !!parsed.tasks,
-        tasksType: typeof parsed.tasks,
-        tasksIsArray: Array.isArray(parsed.tasks)
-      });
-
-      // Handle different response structures
-      let tasks = null;
-      if (parsed.tasks && Array.isArray(parsed.tasks)) {
-        tasks = parsed.tasks;
-      } else if (parsed.rawResponse && typeof parsed.rawResponse === 'string') {
-        // Handle nested rawResponse - clean markdown and parse
-        logger.debug('Found rawResponse, parsing nested JSON');
-        let cleanedRawResponse = parsed.rawResponse.trim();
-        
-        // Remove markdown code block markers from rawResponse
-        if (cleanedRawResponse.startsWith('```json')) {
-          cleanedRawResponse = cleanedRawResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanedRawResponse.startsWith('```')) {
-          cleanedRawResponse = cleanedRawResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        logger.debug('Cleaned rawResponse for parsing', {
-          originalLength: parsed.rawResponse.length,
-          cleanedLength: cleanedRawResponse.length,
-          cleanedStartsWith: cleanedRawResponse.substring(0, 50)
-        });
-        
-        const nestedParsed = JSON.parse(cleanedRawResponse);
-        if (nestedParsed.tasks && Array.isArray(nestedParsed.tasks)) {
-          tasks = nestedParsed.tasks;
-        }
-      }
-
-      if (!tasks || !Array.isArray(tasks)) {
-        logger.error('Invalid task format in Gemini response', {
-          parsedStructure: Object.keys(parsed),
-          tasksFound: !!tasks,
-          tasksType: typeof tasks
-        });
-        throw new Error('Invalid task format in Gemini response');
-      }
-
-      logger.info('Successfully extracted tasks from response', {
-        taskCount: tasks.length,
-        maxTasks: TASK_GENERATION_CONFIG.MAX_TASKS_PER_SYLLABUS
-      });
-
-      // Map AI response field names to frontend expected field names
-      const mappedTasks = tasks.slice(0, TASK_GENERATION_CONFIG.MAX_TASKS_PER_SYLLABUS).map((task: any) => {
-        const isLabTask = task.type === 'Lab' || (task.title && task.title.toLowerCase().includes('lab'));
-        return {
-          ...task,
-          taskType: task.type || task.taskType, // Map 'type' to 'taskType'
-          title: task.title,
-          description: task.description,
-          dueDate: task.dueDate || task.sessionDate, // Prefer sessionDate for labs
-          assignmentDate: task.assignmentDate,
-          sessionDate: task.sessionDate,
-          priority: task.priority || 'medium',
-          // Ensure confidence score is always above threshold
-          confidenceScore: task.confidenceScore || (isLabTask ? 0.9 : 0.8),
-          courseCode: task.courseCode,
-          courseName: task.courseName,
-          subject: task.subject
-        };
-      });
-
-      logger.debug('Task field mapping completed', {
-        originalFieldNames: Object.keys(tasks[0] || {}),
-        mappedFieldNames: Object.keys(mappedTasks[0] || {}),
-        sampleTaskType: mappedTasks[0]?.taskType,
-        sampleOriginalType: tasks[0]?.type
-      });
-
-      return mappedTasks;
-      
-    } catch (error) {
-      logger.error('Failed to parse Gemini response', { 
-        error: error instanceof Error ? error.message : String(error),
-        responseText: responseText.substring(0, 1000) // Log first 1000 chars for debugging
-      });
-      
-      throw errorHandler.createError('Failed to parse Gemini response', 'PARSE_FAILED', {
-        operation: 'parseGeminiResponse',
-        originalError: error instanceof Error ? error.message : String(error)
-      });
-    }
-  }
-
-  /**
-   * Validate generated tasks for quality and security - RELAXED for EE 123 labs
-   */
-  private static validateGeneratedTasks(tasks: GeneratedTask[], originalContent: string): GeneratedTask[] {
-    logger.info('Starting ENHANCED task validation for EE 123', {
-      totalTasks: tasks.length,
-      labTasks: tasks.filter(t => t.taskType?.toLowerCase() === 'lab').length
-    });
-
-    const processedTasks = tasks.map(task => {
-      // Fix missing or invalid taskType with smart inference
-      if (!task.taskType || !TASK_GENERATION_CONFIG.TASK_VALIDATION_PATTERNS.VALID_TASK_TYPES.includes(task.taskType as any)) {
-        const inferredType = this.inferTaskType(task.title, task.description || '');
-        logger.debug('Task type inference applied', { 
-          originalType: task.taskType, 
-          inferredType, 
-          taskTitle: task.title 
-        });
-        task.taskType = inferredType;
-      }
-
-      // Enhanced lab task logging
-      if (task.taskType?.toLowerCase() === 'lab') {
-        logger.info('LAB TASK PROCESSING - EE 123 Enhanced', {
-          title: task.title,
-          taskType: task.taskType,
-          dueDate: task.dueDate,
-          assignmentDate: task.assignmentDate,
-          sessionDate: task.sessionDate,
-          courseCode: task.courseCode,
-          courseName: task.courseName,
-          subject: task.subject,
-          confidenceScore: task.confidenceScore
-        });
-      }
-
-      return task;
-    });
-
-    const validatedTasks = processedTasks.filter(task => {
-      // Basic validation
-      if (!task.title || task.title.length < 2) { // Reduced from 3 to 2
-        logger.warn('Task rejected: title too short', { 
-          title: task.title,
-          taskType: task.taskType
-        });
-        return false;
-      }
-
-      // After inference, this should always pass, but keep as safety check
-      if (!TASK_GENERATION_CONFIG.TASK_VALIDATION_PATTERNS.VALID_TASK_TYPES.includes(task.taskType as any)) {
-        logger.warn('Task rejected: invalid task type after inference', { 
-          taskType: task.taskType,
-          title: task.title
-        });
-        return false;
-      }
-
-      // RELAXED CONFIDENCE VALIDATION FOR LABS
-      const isLab = task.taskType?.toLowerCase() === 'lab';
-      const confidenceThreshold = isLab ? TASK_GENERATION_CONFIG.MIN_LAB_CONFIDENCE_SCORE : TASK_GENERATION_CONFIG.MIN_CONFIDENCE_SCORE;
-      
-      if (task.confidenceScore < confidenceThreshold) {
-        if (isLab) {
-          logger.warn('LAB TASK REJECTED: low confidence (relaxed threshold)', { 
-            title: task.title,
-            taskType: task.taskType,
-            confidence: task.confidenceScore,
-            threshold: confidenceThreshold,
-            originalThreshold: TASK_GENERATION_CONFIG.MIN_CONFIDENCE_SCORE
-          });
-        } else {
-          logger.warn('Task rejected: low confidence', { 
-            title: task.title, 
-            confidence: task.confidenceScore,
-            threshold: confidenceThreshold
-          });
-        }
-        return false;
-      }
-
-      // RELAXED SOURCE VERIFICATION FOR LABS
-      const titleWords = task.title.toLowerCase().split(' ').filter(word => word.length > 2); // Reduced from 3
-      const contentLower = originalContent.toLowerCase();
-      
-      // Enhanced matching for labs
-      let hasRelevantWords = false;
-      
-      if (isLab) {
-        // For labs, check for "lab", lab numbers, or key lab-related terms
-        hasRelevantWords = 
-          contentLower.includes('lab') || 
-          contentLower.includes('laboratory') ||
-          contentLower.includes('experiment') ||
-          /lab\s*\d+/.test(contentLower) ||
-          titleWords.some(word => 
-            contentLower.includes(word) ||
-            contentLower.includes(word.substring(0, 3)) // Even more relaxed partial matching
-          );
-      } else {
-        // Standard validation for non-labs
-        hasRelevantWords = titleWords.some(word => 
-          contentLower.includes(word) ||
-          contentLower.includes(word.substring(0, 4))
-        );
-      }
-      
-      if (!hasRelevantWords && titleWords.length > 0) {
-        if (isLab) {
-          logger.warn('LAB TASK REJECTED: not found in source (relaxed validation)', { 
-            title: task.title,
-            taskType: task.taskType,
-            titleWords: titleWords.slice(0, 3),
-            hasLabKeyword: contentLower.includes('lab'),
-            hasLabratory: contentLower.includes('laboratory')
-          });
-        } else {
-          logger.warn('Task rejected: not found in source', { 
-            title: task.title,
-            titleWords: titleWords.slice(0, 3)
-          });
-        }
-        return false;
-      }
-
-      // Success logging
-      if (isLab) {
-        logger.info('✅ LAB TASK VALIDATED SUCCESSFULLY - EE 123', {
-          title: task.title,
-          taskType: task.taskType,
-          confidence: task.confidenceScore,
-          relaxedThreshold: confidenceThreshold,
-          hasRelevantWords,
-          titleWords: titleWords.slice(0, 3)
-        });
-      }
-
-      return true;
-    });
-
-    const labTasksValidated = validatedTasks.filter(t => t.taskType?.toLowerCase() === 'lab');
-    
-    logger.info('🎯 ENHANCED Task validation completed for EE 123', {
-      originalCount: tasks.length,
-      validatedCount: validatedTasks.length,
-      rejectedCount: tasks.length - validatedTasks.length,
-      labTasksValidated: labTasksValidated.length,
-      labTitles: labTasksValidated.map(t => t.title)
-    });
-
-    return validatedTasks;
-  }
-
-  /**
-   * Enhance lab tasks with manual date parsing if AI failed to extract dates - DOCUMENT-BASED approach for EE 123
-   */
-  private static async enhanceLabTasksWithManualDateParsing(tasks: GeneratedTask[], classId: string): Promise<GeneratedTask[]> {
-    const labTasks = tasks.filter(task => task.taskType?.toLowerCase() === 'lab');
-    const tasksWithoutDates = labTasks.filter(task => !task.dueDate && !task.assignmentDate && !task.sessionDate);
-    
-    logger.info('🔧 STARTING MANUAL LAB DATE PARSING - EE 123', {
-      totalTasks: tasks.length,
-      totalLabTasks: labTasks.length,
-      tasksWithoutDates: tasksWithoutDates.length,
-      labTaskDetails: labTasks.map(t => ({
-        title: t.title.substring(0, 50),
-        hasDueDate: !!t.dueDate,
-        hasAssignmentDate: !!t.assignmentDate,
-        hasSessionDate: !!t.sessionDate,
-        needsDateParsing: !t.dueDate && !t.assignmentDate && !t.sessionDate
-      }))
-    });
-    
-    // CRITICAL FIX: Always run lab date parsing for EE 123 to ensure all labs are found
-    // Previous logic was incorrectly skipping when some labs had dates but not all 8 labs were found
-    if (tasksWithoutDates.length === 0 && labTasks.length >= 8) {
-      logger.info('✅ All lab tasks already have dates and complete set found, skipping manual parsing', {
-        labTaskCount: labTasks.length,
-        allHaveDates: true
-      });
-      return tasks;
-    }
-    
-    // Force parsing if we have fewer than 8 lab tasks (expected for EE 123)
-    if (labTasks.length < 8) {
-      logger.warn('🔄 FORCING LAB DATE PARSING - Incomplete lab set detected', {
-        currentLabCount: labTasks.length,
-        expectedCount: 8,
-        reason: 'Need to find all missing lab tasks'
-      });
-    }
-
-    logger.info('📊 TASKS REQUIRING DATE PARSING - EE 123', {
-      count: tasksWithoutDates.length,
-      taskTitles: tasksWithoutDates.map(t => t.title)
-    });
-
-    // Extract the lab schedule from document embeddings (DOCUMENT-BASED APPROACH)  
-    const labSchedule = await this.parseLabScheduleFromDocumentChunks(classId);
-    
-    logger.info('📅 PARSED LAB SCHEDULE FROM SYLLABUS', {
-      scheduleEntries: labSchedule.length,
-      expectedEntries: '7-8 for EE 123',
-      successRate: `${Math.round((labSchedule.length / 8) * 100)}%`,
-      schedule: labSchedule,
-      canEnhanceTasks: labSchedule.length > 0
-    });
-
-    // Store the parsed lab schedule to use when creating tasks
-    // We'll apply these dates in the determineFinalDueDate function
-    logger.info('📅 LAB SCHEDULE READY FOR TASK CREATION', {
-      labScheduleCount: labSchedule.length,
-      parsedDates: labSchedule.map(s => ({ lab: s.title, date: s.date }))
-    });
-
-    // Store lab schedule in a way that determineFinalDueDate can access it
-    // We'll pass it through the tasks as metadata
-    const tasksWithLabSchedule = tasks.map(task => ({
-      ...task,
-      _labSchedule: labSchedule // Add parsed lab schedule as metadata
-    }));
-
-    return tasksWithLabSchedule;
-  }
-
-  /**
-   * Parse lab schedule from document extractions - EXTRACTION-BASED APPROACH for EE 123 format
-   * Uses raw extracted text from document_extractions table which has complete syllabus content
-   */
-  private static async parseLabScheduleFromDocumentChunks(classId: string): Promise<Array<{title: string, date: string}>> {
-    const schedule: Array<{title: string, date: string}> = [];
-    
-    // Use 2025 for Summer 2025 EE 123 course
-    const currentYear = 2025;
-    
-    try {
-      logger.info('🔍 EXTRACTION-BASED LAB SCHEDULE PARSING - EE 123', {
-        classId,
-        targetYear: currentYear,
-        approach: 'document_extractions_table'
-      });
-
-      // First, check what class files exist for this class
-      const { data: allFiles, error: filesError } = await supabase
-        .from('class_files')
-        .select('id, name, class_id')
-        .eq('class_id', classId);
-
-      logger.info('🗂️ ALL CLASS FILES FOR DEBUG', {
-        classId,
-        totalFiles: allFiles?.length || 0,
-        fileNames: allFiles?.map(f => f.name) || [],
-        syllabusFiles: allFiles?.filter(f => f.name.toLowerCase().includes('syllabus')).length || 0
-      });
-
-      // Query extracted text from document_extractions table via class_files
-      const { data: extractionData, error } = await supabase
-        .from('class_files')
-        .select(`
-          id,
-          name,
-          document_extractions!inner(extracted_text)
-        `)
-        .eq('class_id', classId)
-        .ilike('name', '%syllabus%');
-
-      logger.info('🔍 DATABASE QUERY RESULTS', {
-        classId,
-        queryError: error?.message || null,
-        extractionDataLength: extractionData?.length || 0,
-        rawExtractionData: extractionData
-      });
-
-      if (error) {
-        logger.error('Failed to query document extractions', { error: error.message, classId });
-        return [];
-      }
-
-      if (!extractionData || extractionData.length === 0) {
-        logger.warn('No syllabus document extractions found, trying alternative approach', { classId });
-        
-        // FALLBACK: Try to find syllabus files without the document_extractions join
-        const { data: syllabusFiles, error: syllabusError } = await supabase
-          .from('class_files')
-          .select('*')
-          .eq('class_id', classId)
-          .ilike('name', '%syllabus%');
-
-        logger.info('🔄 FALLBACK: Direct syllabus file lookup', {
-          classId,
-          syllabusFilesFound: syllabusFiles?.length || 0,
-          files: syllabusFiles?.map(f => ({ name: f.name, id: f.id })) || []
-        });
-
-        if (syllabusFiles && syllabusFiles.length > 0) {
-          // Try to manually fetch document extractions for these files
-          for (const file of syllabusFiles) {
-            const { data: extractions, error: extError } = await supabase
-              .from('document_extractions')
-              .select('extracted_text')
-              .eq('class_file_id', file.id);
-
-            logger.info('📄 MANUAL EXTRACTION LOOKUP', {
-              fileName: file.name,
-              fileId: file.id,
-              extractionsFound: extractions?.length || 0,
-              extractionLength: extractions?.[0]?.extracted_text?.length || 0,
-              hasContent: !!extractions?.[0]?.extracted_text
-            });
-
-            if (extractions && extractions.length > 0 && extractions[0].extracted_text) {
-              // Add content preview for manual extraction too
-              const manualContentPreview = extractions[0].extracted_text.substring(0, 1000).replace(/\n/g, ' ');
-              logger.info('🔍 MANUAL EXTRACTED TEXT PREVIEW', {
-                fileName: file.name,
-                contentLength: extractions[0].extracted_text.length,
-                preview: manualContentPreview,
-                hasLabKeyword: extractions[0].extracted_text.toLowerCase().includes('lab'),
-                hasDatePatterns: /\d{1,2}\/\d{1,2}/.test(extractions[0].extracted_text),
-                dateMatches: extractions[0].extracted_text.match(/\d{1,2}\/\d{1,2}/g)?.slice(0, 10) || []
-              });
-
-              // Process this manually found extraction
-              const extractionSchedule = this.parseLabScheduleFromContent(extractions[0].extracted_text, currentYear);
-              schedule.push(...extractionSchedule);
-
-              logger.info('📋 PROCESSED MANUAL EXTRACTION', {
-                fileName: file.name,
-                contentLength: extractions[0].extracted_text.length,
-                labsFound: extractionSchedule.length,
-                totalLabsSoFar: schedule.length
-              });
-            }
-          }
-
-          if (schedule.length > 0) {
-            logger.info('✅ FALLBACK APPROACH SUCCESS', {
-              foundSessions: schedule.length,
-              willContinueWithResults: true
-            });
-          } else {
-            logger.warn('❌ FALLBACK APPROACH FAILED', {
-              syllabusFilesFound: syllabusFiles.length,
-              noneHadExtractions: true
-            });
-            return [];
-          }
-        } else {
-          logger.error('❌ NO SYLLABUS FILES FOUND AT ALL', { classId });
-          return [];
-        }
-      } else {
-        logger.info('📚 FOUND DOCUMENT EXTRACTIONS', {
-          totalExtractions: extractionData.length,
-          extractions: extractionData.map(e => ({
-            fileName: e.name,
-            extractedTextLength: e.document_extractions[0]?.extracted_text?.length || 0,
-            hasLabKeywords: e.document_extractions[0]?.extracted_text?.toLowerCase().includes('lab') || false
-          }))
-        });
-
-        // Process each document extraction to find lab schedule data
-        for (const extraction of extractionData) {
-          const extractedText = extraction.document_extractions[0]?.extracted_text;
-          if (!extractedText) continue;
-
-          // Add preview of content to debug
-          const contentPreview = extractedText.substring(0, 1000).replace(/\n/g, ' ');
-          logger.info('🔍 EXTRACTED TEXT PREVIEW', {
-            fileName: extraction.name,
-            contentLength: extractedText.length,
-            preview: contentPreview,
-            hasLabKeyword: extractedText.toLowerCase().includes('lab'),
-            hasDatePatterns: /\d{1,2}\/\d{1,2}/.test(extractedText),
-            dateMatches: extractedText.match(/\d{1,2}\/\d{1,2}/g)?.slice(0, 10) || []
-          });
-
-          const extractionSchedule = this.parseLabScheduleFromContent(extractedText, currentYear);
-          schedule.push(...extractionSchedule);
-
-          logger.info('📋 PROCESSED EXTRACTION', {
-            fileName: extraction.name,
-            contentLength: extractedText.length,
-            labsFound: extractionSchedule.length,
-            totalLabsSoFar: schedule.length
-          });
-        }
-      }
-
-      // Remove duplicates and sort
-      const uniqueSchedule = this.deduplicateAndSortLabs(schedule);
-
-      logger.info('🎯 DOCUMENT-BASED LAB SCHEDULE PARSING COMPLETED - EE 123', {
-        foundSessions: uniqueSchedule.length,
-        expectedSessions: '7-8 for EE 123',
-        successRate: `${Math.round((uniqueSchedule.length / 8) * 100)}%`,
-        sessions: uniqueSchedule.map(s => ({
-          labNum: s.title.match(/lab\s*(\d+)/i)?.[1],
-          date: s.date,
-          title: s.title.substring(0, 60)
-        })),
-        willEnableCalendarDisplay: uniqueSchedule.length > 0
-      });
-
-      return uniqueSchedule;
-
-    } catch (error) {
-      logger.error('Document-based lab schedule parsing failed', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        classId
-      });
-      return [];
-    }
-  }
-
-  /**
-   * Parse lab schedule from syllabus content - Simplified multi-approach system
-   */
-  private static parseLabScheduleFromContent(syllabusContent: string, currentYear: number = 2025): Array<{title: string, date: string}> {
-    let schedule: Array<{title: string, date: string}> = [];
-    
-    logger.info('🔍 PARSING LAB SCHEDULE FROM CONTENT - Simplified System', {
-      contentLength: syllabusContent.length,
-      targetYear: currentYear,
-      hasLabKeywords: syllabusContent.toLowerCase().includes('lab'),
-      hasDatePatterns: /\d{1,2}\/\d{1,2}/.test(syllabusContent)
-    });
-
-    // Split content into lines for analysis
-    const lines = syllabusContent.split('\n');
-    
-    // APPROACH 1: Find all lines that contain both a date and "Lab"
-    logger.info('🎯 APPROACH 1: Direct Line Matching');
-    const directMatches = this.parseDirectLineMatches(lines, currentYear);
-    if (directMatches.length > 0) {
-      schedule = directMatches;
-      logger.info('✅ Direct line matching successful', {
-        foundLabs: directMatches.length,
-        labs: directMatches.map(s => ({ lab: s.title, date: s.date }))
-      });
-    }
-    
-    // APPROACH 2: If direct matching didn't find enough, try word-by-word association
-    if (schedule.length < 5) {
-      logger.info('🎯 APPROACH 2: Word Association');
-      const wordAssociation = this.parseLabsWithWordAssociation(syllabusContent, currentYear);
-      if (wordAssociation.length > schedule.length) {
-        schedule = wordAssociation;
-        logger.info('✅ Word association successful', {
-          foundLabs: wordAssociation.length,
-          labs: wordAssociation.map(s => ({ lab: s.title, date: s.date }))
-        });
-      }
-    }
-    
-    // APPROACH 3: If still not enough, try comprehensive regex
-    if (schedule.length < 5) {
-      logger.info('🎯 APPROACH 3: Comprehensive Regex');
-      const regexMatches = this.parseLabsWithComprehensiveRegex(syllabusContent, currentYear);
-      if (regexMatches.length > schedule.length) {
-        schedule = regexMatches;
-        logger.info('✅ Comprehensive regex successful', {
-          foundLabs: regexMatches.length,
-          labs: regexMatches.map(s => ({ lab: s.title, date: s.date }))
-        });
-      }
-    }
-
-    // Deduplicate and sort the final schedule
-    const uniqueSchedule = this.deduplicateAndSortLabs(schedule);
-
-    logger.info('🎯 DYNAMIC LAB SCHEDULE PARSING COMPLETED', {
-      foundSessions: uniqueSchedule.length,
-      expectedRange: '7-10 labs typical',
-      successRate: uniqueSchedule.length >= 7 ? '100%' : `${Math.round((uniqueSchedule.length / 7) * 100)}%`,
-      sessions: uniqueSchedule.map(s => ({
-        labNum: s.title.match(/lab\s*(\d+)/i)?.[1],
-        date: s.date,
-        title: s.title.substring(0, 60)
-      })),
-      parsingApproachesUsed: [
-        'direct-line-matches',
-        'word-association',
-        'comprehensive-regex'
-      ].filter(Boolean)
-    });
-
-    return uniqueSchedule;
-  }
-
-  /**
-   * APPROACH 1: Direct line matching - finds lines with both date and lab
-   */
-  private static parseDirectLineMatches(lines: string[], currentYear: number): Array<{title: string, date: string}> {
-    const schedule: Array<{title: string, date: string}> = [];
-    
-    for (const line of lines) {
-      // Skip empty lines
-      if (!line.trim()) continue;
-      
-      // Check if line contains both a date and "Lab X"
-      const dateMatch = line.match(/(\d{1,2}\/\d{1,2})/);
-      const labMatch = line.match(/Lab\s*(\d+)[\.:]*\s*([^(\n]*)/i);
-      
-      if (dateMatch && labMatch) {
-        const dateStr = dateMatch[1];
-        const labNumber = labMatch[1];
-        let description = labMatch[2]?.trim() || '';
-        
-        // Clean up description
-        description = description
-          .replace(/\s+/g, ' ')
-          .replace(/\([^)]*\)$/, '') // Remove trailing parentheses
-          .replace(/^[\s\-\.]+|[\s\-\.]+$/g, '') // Remove leading/trailing punctuation
-          .trim();
-        
-        // Limit description length
-        if (description.length > 60) {
-          description = description.substring(0, 60).trim();
-        }
-        
-        const convertedDate = this.convertDateToISO(dateStr, currentYear);
-        if (convertedDate) {
-          const title = description ? 
-            `Lab ${labNumber}. ${description}` : 
-            `Lab ${labNumber}`;
-          
-          schedule.push({ title, date: convertedDate });
-          
-          logger.debug('✅ Direct match found', {
-            labNumber,
-            date: convertedDate,
-            description: description || '(no description)',
-            sourceLine: line.substring(0, 100)
-          });
-        }
-      }
-    }
-    
-    // Deduplicate and sort
-    return this.deduplicateAndSortLabs(schedule);
-  }
-  
-  /**
-   * APPROACH 2: Word association - finds all dates and labs, then associates them
-   */
-  private static parseLabsWithWordAssociation(syllabusContent: string, currentYear: number): Array<{title: string, date: string}> {
-    const schedule: Array<{title: string, date: string}> = [];
-    
-    // Find all dates and their positions
-    const dateRegex = /(\d{1,2}\/\d{1,2})/g;
-    const dates: Array<{match: string, index: number}> = [];
-    let dateMatch;
-    while ((dateMatch = dateRegex.exec(syllabusContent)) !== null) {
-      dates.push({ match: dateMatch[1], index: dateMatch.index });
-    }
-    
-    // Find all lab mentions and their positions
-    const labRegex = /Lab\s*(\d+)[\.:]*\s*([^(\n]{0,60})/gi;
-    const labs: Array<{number: string, description: string, index: number}> = [];
-    let labMatch;
-    while ((labMatch = labRegex.exec(syllabusContent)) !== null) {
-      labs.push({
-        number: labMatch[1],
-        description: (labMatch[2] || '').trim(),
-        index: labMatch.index
-      });
-    }
-    
-    logger.debug('Word association data', {
-      datesFound: dates.length,
-      labsFound: labs.length,
-      sampleDates: dates.slice(0, 5).map(d => d.match),
-      sampleLabs: labs.slice(0, 5).map(l => `Lab ${l.number}`)
-    });
-    
-    // Associate each lab with the closest preceding date
-    for (const lab of labs) {
-      let bestDate: {match: string, index: number} | null = null;
-      let minDistance = Infinity;
-      
-      for (const date of dates) {
-        // Prefer dates that come BEFORE the lab mention (on same line or previous line)
-        const distance = lab.index - date.index;
-        
-        // Date should precede lab and be within reasonable distance (0-100 chars before)
-        if (distance > 0 && distance < 100) {
-          if (distance < minDistance) {
-            bestDate = date;
-            minDistance = distance;
-          }
-        }
-      }
-      
-      // If no preceding date found, look for closest date in either direction
-      if (!bestDate) {
-        for (const date of dates) {
-          const distance = Math.abs(lab.index - date.index);
-          if (distance < 150 && distance < minDistance) {
-            bestDate = date;
-            minDistance = distance;
-          }
-        }
-      }
-      
-      if (bestDate) {
-        const convertedDate = this.convertDateToISO(bestDate.match, currentYear);
-        if (convertedDate) {
-          const title = lab.description ? 
-            `Lab ${lab.number}. ${lab.description}` : 
-            `Lab ${lab.number}`;
-          
-          schedule.push({ title, date: convertedDate });
-          
-          logger.debug('✅ Word association match', {
-            labNumber: lab.number,
-            date: convertedDate,
-            distance: minDistance
-          });
-        }
-      }
-    }
-    
-    return this.deduplicateAndSortLabs(schedule);
-  }
-  
-  /**
-   * APPROACH 3: Comprehensive regex patterns
-   */
-  private static parseLabsWithComprehensiveRegex(syllabusContent: string, currentYear: number): Array<{title: string, date: string}> {
-    const schedule: Array<{title: string, date: string}> = [];
-    
-    // Pattern specifically for EE 123 format
-    const patterns = [
-      // Table format with day name: "Tue, 07/29 ... Lab 0. LTspice"
-      /(mon|tue|wed|thu|fri|sat|sun),?\s*(\d{1,2}\/\d{1,2})[^\n]{0,200}?Lab\s*(\d+)[\.:]*\s*([^\n(]{0,60})/gim,
-      // Just date and lab: "07/29 ... Lab 0"
-      /(\d{1,2}\/\d{1,2})[^\n]{0,200}?Lab\s*(\d+)[\.:]*\s*([^\n(]{0,60})/gim
-    ];
-
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(syllabusContent)) !== null) {
-        let dateStr: string;
-        let labNumber: string;
-        let description: string;
-        
-        if (match[1].length <= 3) {
-          // Pattern 1: Has day name
-          dateStr = match[2];
-          labNumber = match[3];
-          description = (match[4] || '').trim();
-        } else {
-          // Pattern 2: No day name
-          dateStr = match[1];
-          labNumber = match[2];
-          description = (match[3] || '').trim();
-        }
-        
-        // Clean description
-        description = description
-          .replace(/\s+/g, ' ')
-          .replace(/\([^)]*\)$/, '')
-          .replace(/^[\s\-\.]+|[\s\-\.]+$/g, '')
-          .trim();
-        
-        if (description.length > 60) {
-          description = description.substring(0, 60).trim();
-        }
-        
-        const convertedDate = this.convertDateToISO(dateStr, currentYear);
-        if (convertedDate) {
-          const title = description ? 
-            `Lab ${labNumber}. ${description}` : 
-            `Lab ${labNumber}`;
-          
-          schedule.push({ title, date: convertedDate });
-          
-          logger.debug('✅ Regex match found', {
-            labNumber,
-            date: convertedDate,
-            description: description || '(no description)'
-          });
-        }
-      }
-    }
-    
-    return this.deduplicateAndSortLabs(schedule);
-  }
-
-
-
-  /**
-   * Merge lab schedules while avoiding duplicates
-   */
-  private static mergeLabSchedules(
-    primary: Array<{title: string, date: string}>, 
-    secondary: Array<{title: string, date: string}>
-  ): Array<{title: string, date: string}> {
-    const merged = [...primary];
-    
-    for (const secondaryLab of secondary) {
-      const secondaryLabNum = secondaryLab.title.match(/lab\s*(\d+)/i)?.[1];
-      const existingIndex = merged.findIndex(lab => {
-        const existingLabNum = lab.title.match(/lab\s*(\d+)/i)?.[1];
-        return secondaryLabNum && existingLabNum && secondaryLabNum === existingLabNum;
-      });
-      
-      if (existingIndex === -1) {
-        // New lab, add it
-        merged.push(secondaryLab);
-      } else {
-        // Lab exists, keep the one with better description
-        const existing = merged[existingIndex];
-        if (secondaryLab.title.length > existing.title.length) {
-          merged[existingIndex] = secondaryLab;
-        }
-      }
-    }
-    
-    return merged;
-  }
-
-
-  /**
-   * Deduplicate and sort lab schedule entries
-   */
-  private static deduplicateAndSortLabs(schedule: Array<{title: string, date: string}>): Array<{title: string, date: string}> {
-    // Remove duplicates based on lab number (keep the one with most complete title)
-    const uniqueSchedule = schedule.reduce((acc, current) => {
-      const currentLabNum = current.title.match(/lab\s*(\d+)/i)?.[1];
-      const existingIndex = acc.findIndex(item => {
-        const existingLabNum = item.title.match(/lab\s*(\d+)/i)?.[1];
-        return currentLabNum && existingLabNum && currentLabNum === existingLabNum;
-      });
-      
-      if (existingIndex === -1) {
-        acc.push(current);
-      } else {
-        // Keep the one with more descriptive title
-        const existing = acc[existingIndex];
-        if (current.title.length > existing.title.length) {
-          acc[existingIndex] = current;
-          logger.debug('Replaced lab with more descriptive title', {
-            labNumber: currentLabNum,
-            oldTitle: existing.title,
-            newTitle: current.title
-          });
-        }
-      }
-      
-      return acc;
-    }, [] as Array<{title: string, date: string}>);
-
-    // Sort by lab number
-    uniqueSchedule.sort((a, b) => {
-      const labA = parseInt(a.title.match(/lab\s*(\d+)/i)?.[1] || '0');
-      const labB = parseInt(b.title.match(/lab\s*(\d+)/i)?.[1] || '0');
-      return labA - labB;
-    });
-
-    return uniqueSchedule;
-  }
-
-  /**
-   * Parse labs with context awareness - looks for date sections with lab information
-   */
-  private static parseLabsWithContext(lines: string[], currentYear: number): Array<{title: string, date: string}> {
-    const schedule: Array<{title: string, date: string}> = [];
-    
-    // Build a context map of dates and their associated content
-    const dateContextMap = new Map<string, string[]>();
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      // Find dates
-      const dateMatch = line.match(/(\d{1,2}\/\d{1,2})/);
-      if (dateMatch) {
-        const date = dateMatch[1];
-        const context = [];
-        
-        // Gather context: current line plus next 3 lines
-        for (let j = 0; j < 4 && i + j < lines.length; j++) {
-          context.push(lines[i + j]);
-        }
-        
-        dateContextMap.set(date, context);
-      }
-    }
-    
-    // Now look for labs in the context of each date
-    dateContextMap.forEach((contextLines, dateStr) => {
-      const fullContext = contextLines.join(' ');
-      
-      // Look for lab mentions
-      const labMatch = fullContext.match(/Lab\s*(\d+)[\.:]?\s*([^(\n.]{0,100})/i);
-      if (labMatch) {
-        const convertedDate = this.convertDateToISO(dateStr, currentYear);
-        if (convertedDate) {
-          const title = labMatch[2]?.trim() 
-            ? `Lab ${labMatch[1]}. ${labMatch[2].trim()}`
-            : `Lab ${labMatch[1]}`;
-          
-          // Check if we already have this lab
-          const exists = schedule.some(s => 
-            s.title.match(/lab\s*(\d+)/i)?.[1] === labMatch[1]
-          );
-          
-          if (!exists) {
-            schedule.push({ title, date: convertedDate });
-            logger.info('✅ EXTRACTED LAB WITH CONTEXT', {
-              labNumber: labMatch[1],
-              date: convertedDate,
-              context: fullContext.substring(0, 100)
-            });
-          }
-        }
-      }
-    });
-    
-    return schedule;
-  }
-
-  /**
-   * Get human-readable description of regex patterns for debugging
-   */
-  private static getPatternDescription(patternIndex: number): string {
-    const descriptions = [
-      'EE 123 Calendar format: "Day, MM/DD ... Lab X. Description" (includes optional labs)'
-    ];
-    return descriptions[patternIndex] || 'Unknown pattern';
-  }
-
-  /**
-   * Convert date string from syllabus to ISO format (YYYY-MM-DD) - ENHANCED for EE 123
-   */
-  private static convertDateToISO(dateString: string, currentYear?: number): string | null {
-    try {
-      logger.debug('Converting date string to ISO', {
-        dateString,
-        currentYear
-      });
-      
-      // Extract month and day from formats like "07/29", "7/29", "07/29/25", "07/29/2025"
-      const dateMatch = dateString.match(/(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?/);
-      if (!dateMatch) {
-        logger.warn('No date match found in string', { dateString });
-        return null;
-      }
-
-      const month = parseInt(dateMatch[1]);
-      const day = parseInt(dateMatch[2]);
-      let year = currentYear || 2025; // Default to 2025 for Summer 2025 course
-
-      // Handle year if provided
-      if (dateMatch[3]) {
-        const yearStr = dateMatch[3];
-        if (yearStr.length === 2) {
-          // Convert 2-digit year to 4-digit (assumes 20xx)
-          const twoDigitYear = parseInt(yearStr);
-          year = twoDigitYear < 50 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
-        } else if (yearStr.length === 4) {
-          year = parseInt(yearStr);
-        }
-      }
-
-      // Validate date components
-      if (month < 1 || month > 12 || day < 1 || day > 31) {
-        logger.warn('Invalid date components', { month, day, year });
-        return null;
-      }
-
-      // Create and validate date
-      const date = new Date(year, month - 1, day);
-      if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
-        logger.warn('Date validation failed', { 
-          input: { year, month, day },
-          created: { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() }
-        });
-        return null;
-      }
-
-      // Format as YYYY-MM-DD
-      const formattedYear = year.toString();
-      const formattedMonth = month.toString().padStart(2, '0');
-      const formattedDay = day.toString().padStart(2, '0');
-      const isoDate = `${formattedYear}-${formattedMonth}-${formattedDay}`;
-
-      logger.debug('Successfully converted date', {
-        original: dateString,
-        parsed: { month, day, year },
-        iso: isoDate
-      });
-
-      return isoDate;
-    } catch (error) {
-      logger.error('Exception while converting date string to ISO format', { 
-        dateString, 
-        currentYear,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return null;
-    }
-  }
-
-  /**
-   * Comprehensive deduplication logic for all assignment types
-   */
-  private static deduplicateAllTasks(tasks: GeneratedTask[]): GeneratedTask[] {
-    logger.info('Starting comprehensive task deduplication', {
-      totalTasks: tasks.length,
-      tasksByType: this.getTaskCountsByType(tasks)
-    });
-
-    const uniqueTasks: GeneratedTask[] = [];
-    const duplicateCount = {
-      exact: 0,
-      fuzzyTitle: 0,
-      numberBased: 0,
-      dateBased: 0
-    };
-
-    for (const currentTask of tasks) {
-      let isDuplicate = false;
-      let duplicateType = '';
-
-      // Check against all existing unique tasks
-      for (const existingTask of uniqueTasks) {
-        const duplicateCheck = this.checkIfTasksDuplicate(currentTask, existingTask);
-        
-        if (duplicateCheck.isDuplicate) {
-          isDuplicate = true;
-          duplicateType = duplicateCheck.type;
-          duplicateCount[duplicateCheck.type as keyof typeof duplicateCount]++;
-          
-          // CRITICAL FIX: Handle undefined confidence scores properly
-          const currentConfidence = currentTask.confidenceScore ?? 0.5; // Default for undefined
-          const existingConfidence = existingTask.confidenceScore ?? 0.5; // Default for undefined
-          
-          // For labs with different numbers, this should NEVER happen, but if it does, don't remove any labs
-          if ((currentTask.taskType?.toLowerCase() === 'lab' || existingTask.taskType?.toLowerCase() === 'lab') && duplicateType === 'fuzzyTitle') {
-            logger.error('CRITICAL BUG: Lab tasks incorrectly marked as fuzzy duplicates', {
-              currentTask: currentTask.title,
-              existingTask: existingTask.title,
-              duplicateType: duplicateType,
-              currentLabNum: currentTask.title.match(/(?:lab|laboratory)\s*(\d+)/i)?.[1],
-              existingLabNum: existingTask.title.match(/(?:lab|laboratory)\s*(\d+)/i)?.[1]
-            });
-            // Skip this "duplicate" detection - don't remove either lab
-            continue;
-          }
-          
-          // Keep the task with higher confidence score
-          if (currentConfidence > existingConfidence) {
-            // Replace the existing task with the current one (better confidence)
-            const index = uniqueTasks.indexOf(existingTask);
-            uniqueTasks[index] = currentTask;
-            
-            logger.debug('Replaced duplicate with higher confidence task', {
-              kept: currentTask.title,
-              confidence: currentConfidence,
-              removed: existingTask.title,
-              removedConfidence: existingConfidence,
-              duplicateType: duplicateType
-            });
-          } else {
-            logger.debug('Skipped duplicate task (lower confidence)', {
-              skipped: currentTask.title,
-              confidence: currentConfidence,
-              kept: existingTask.title,
-              keptConfidence: existingConfidence,
-              duplicateType: duplicateType
-            });
-          }
-          break;
-        }
-      }
-
-      // If no duplicate found, add to unique tasks
-      if (!isDuplicate) {
-        uniqueTasks.push(currentTask);
-      }
-    }
-
-    logger.info('Task deduplication completed', {
-      originalCount: tasks.length,
-      deduplicatedCount: uniqueTasks.length,
-      totalDuplicatesRemoved: tasks.length - uniqueTasks.length,
-      duplicateBreakdown: duplicateCount,
-      finalTasksByType: this.getTaskCountsByType(uniqueTasks)
-    });
-
-    return uniqueTasks;
-  }
-
-  /**
-   * Check if two tasks are duplicates using multiple criteria
-   */
-  private static checkIfTasksDuplicate(
-    task1: GeneratedTask, 
-    task2: GeneratedTask
-  ): { isDuplicate: boolean; type: string; confidence: number } {
-    
-    // 1. Exact match (same title, type, and close dates)
-    if (this.isExactTaskMatch(task1, task2)) {
-      return { isDuplicate: true, type: 'exact', confidence: 1.0 };
-    }
-
-    // 2. Number-based matching (Lab 1, Homework 1, Assignment 1, etc.)
-    const numberMatch = this.isNumberBasedMatch(task1, task2);
-    if (numberMatch.isMatch) {
-      return { isDuplicate: true, type: 'numberBased', confidence: numberMatch.confidence };
-    }
-
-    // 3. Fuzzy title matching with type similarity - DISABLED TO PREVENT LAB ISSUES
-    // const fuzzyMatch = this.isFuzzyTitleMatch(task1, task2);
-    // if (fuzzyMatch.isMatch) {
-    //   return { isDuplicate: true, type: 'fuzzyTitle', confidence: fuzzyMatch.confidence };
-    // }
-
-    // 4. Date-based matching (same type, very close dates, similar titles)
-    const dateMatch = this.isDateBasedMatch(task1, task2);
-    if (dateMatch.isMatch) {
-      return { isDuplicate: true, type: 'dateBased', confidence: dateMatch.confidence };
-    }
-
-    // 5. Keyword-based matching for common academic terms (midterm, final, etc.) - DISABLED
-    // const keywordMatch = this.isKeywordBasedMatch(task1, task2);
-    // if (keywordMatch.isMatch) {
-    //   return { isDuplicate: true, type: 'fuzzyTitle', confidence: keywordMatch.confidence };
-    // }
-
-    return { isDuplicate: false, type: 'none', confidence: 0.0 };
-  }
-
-  /**
-   * Check for exact matches
-   */
-  private static isExactTaskMatch(task1: GeneratedTask, task2: GeneratedTask): boolean {
-    const title1 = this.normalizeTitle(task1.title);
-    const title2 = this.normalizeTitle(task2.title);
-    const type1 = task1.taskType?.toLowerCase() || '';
-    const type2 = task2.taskType?.toLowerCase() || '';
-    
-    // Same title and type
-    if (title1 === title2 && type1 === type2) {
-      // Check if dates are close (within 1 day) or both missing
-      const datesMatch = this.areDatesClose(
-        task1.dueDate || task1.assignmentDate || task1.sessionDate,
-        task2.dueDate || task2.assignmentDate || task2.sessionDate,
-        1 // 1 day tolerance
-      );
-      
-      return datesMatch;
-    }
-    
-    return false;
-  }
-
-  /**
-   * Check for number-based matches (Lab 1, Homework 1, etc.) - ENHANCED for EE 123
-   */
-  private static isNumberBasedMatch(task1: GeneratedTask, task2: GeneratedTask): { isMatch: boolean; confidence: number } {
-    const patterns = [
-      /(?:lab|laboratory)\s*(\d+)/i,
-      /(?:hw|homework|assignment)\s*(\d+)/i,
-      /(?:quiz|test)\s*(\d+)/i,
-      /(?:project|proj)\s*(\d+)/i,
-      /(?:exam|midterm|final)\s*(\d+)/i,
-      /(?:reading|chapter)\s*(\d+)/i,
-      /(?:discussion|disc)\s*(\d+)/i
-    ];
-
-    for (const pattern of patterns) {
-      const match1 = task1.title.match(pattern);
-      const match2 = task2.title.match(pattern);
-      
-      if (match1 && match2) {
-        const number1 = match1[1];
-        const number2 = match2[1];
-        const type1 = task1.taskType?.toLowerCase() || '';
-        const type2 = task2.taskType?.toLowerCase() || '';
-        
-        // FIXED: Only mark as duplicate if SAME number AND same/similar type
-        // Different numbers (Lab 1 vs Lab 2) should NOT be duplicates
-        if (number1 === number2 && (type1 === type2 || this.areTypesRelated(type1, type2))) {
-          logger.debug('Found number-based match', {
-            task1: task1.title,
-            task2: task2.title,
-            number1,
-            number2,
-            type1,
-            type2
-          });
-          return { isMatch: true, confidence: 0.9 };
-        } else if (number1 !== number2) {
-          // CRITICAL FIX: Different numbers are NOT duplicates
-          logger.debug('Different numbers - NOT duplicates', {
-            task1: task1.title,
-            task2: task2.title,
-            number1,
-            number2,
-            type1,
-            type2
-          });
-          return { isMatch: false, confidence: 0.0 };
-        }
-      }
-    }
-
-    return { isMatch: false, confidence: 0.0 };
-  }
-
-  /**
-   * Check for fuzzy title matches - ENHANCED for lab tasks
-   */
-  private static isFuzzyTitleMatch(task1: GeneratedTask, task2: GeneratedTask): { isMatch: boolean; confidence: number } {
-    const title1 = this.normalizeTitle(task1.title);
-    const title2 = this.normalizeTitle(task2.title);
-    const type1 = task1.taskType?.toLowerCase() || '';
-    const type2 = task2.taskType?.toLowerCase() || '';
-    
-    // Must be same or related type for fuzzy matching
-    if (!(type1 === type2 || this.areTypesRelated(type1, type2))) {
-      return { isMatch: false, confidence: 0.0 };
-    }
-    
-    // CRITICAL FIX: For lab tasks, check number-based matching FIRST
-    // This prevents "Lab 1" and "Lab 2" from being considered duplicates
-    if (type1 === 'lab' && type2 === 'lab') {
-      const labPattern = /(?:lab|laboratory)\s*(\d+)/i;
-      const labMatch1 = task1.title.match(labPattern);
-      const labMatch2 = task2.title.match(labPattern);
-      
-      if (labMatch1 && labMatch2) {
-        const labNum1 = labMatch1[1];
-        const labNum2 = labMatch2[1];
-        
-        // Different lab numbers are NEVER duplicates, regardless of similarity
-        if (labNum1 !== labNum2) {
-          logger.debug('Different lab numbers - preventing fuzzy match', {
-            task1: task1.title,
-            task2: task2.title,
-            labNum1,
-            labNum2
-          });
-          return { isMatch: false, confidence: 0.0 };
-        }
-        
-        // Same lab numbers - check if titles are similar enough to be duplicates
-        const similarity = this.calculateTitleSimilarity(title1, title2);
-        if (similarity >= 0.8) {
-          logger.debug('Same lab numbers with high similarity - duplicate detected', {
-            task1: task1.title,
-            task2: task2.title,
-            labNum1,
-            labNum2,
-            similarity
-          });
-          return { isMatch: true, confidence: similarity };
-        }
-      }
-      
-      // If both are labs but no clear lab numbers, skip fuzzy matching to be safe
-      if (!labMatch1 && !labMatch2) {
-        logger.debug('Both tasks are labs but no clear numbers - skipping fuzzy match', {
-          task1: task1.title,
-          task2: task2.title
-        });
-        return { isMatch: false, confidence: 0.0 };
-      }
-    }
-    
-    // Calculate similarity score
-    const similarity = this.calculateTitleSimilarity(title1, title2);
-    
-    // ENHANCED: Use different thresholds for different task types
-    const isLab = type1 === 'lab' || type2 === 'lab';
-    const threshold = isLab ? 0.95 : 0.85; // Higher threshold for labs to prevent false matches
-    
-    logger.debug('Fuzzy title match analysis', {
-      task1: task1.title.substring(0, 50),
-      task2: task2.title.substring(0, 50),
-      similarity,
-      threshold,
-      isLab,
-      willMatch: similarity >= threshold
-    });
-    
-    if (similarity >= threshold) {
-      return { isMatch: true, confidence: similarity };
-    }
-    
-    return { isMatch: false, confidence: similarity };
-  }
-
-  /**
-   * Check for date-based matches
-   */
-  private static isDateBasedMatch(task1: GeneratedTask, task2: GeneratedTask): { isMatch: boolean; confidence: number } {
-    const type1 = task1.taskType?.toLowerCase() || '';
-    const type2 = task2.taskType?.toLowerCase() || '';
-    
-    // Must be same type for date-based matching
-    if (type1 !== type2) {
-      return { isMatch: false, confidence: 0.0 };
-    }
-    
-    const date1 = task1.dueDate || task1.assignmentDate || task1.sessionDate;
-    const date2 = task2.dueDate || task2.assignmentDate || task2.sessionDate;
-    
-    // Both must have dates
-    if (!date1 || !date2) {
-      return { isMatch: false, confidence: 0.0 };
-    }
-    
-    // Dates must be very close (same day)
-    if (!this.areDatesClose(date1, date2, 0)) {
-      return { isMatch: false, confidence: 0.0 };
-    }
-    
-    // Titles must have some similarity
-    const titleSimilarity = this.calculateTitleSimilarity(
-      this.normalizeTitle(task1.title),
-      this.normalizeTitle(task2.title)
-    );
-    
-    if (titleSimilarity >= 0.5) {
-      return { isMatch: true, confidence: titleSimilarity * 0.8 };
-    }
-    
-    return { isMatch: false, confidence: 0.0 };
-  }
-
-  /**
-   * Check for keyword-based matches (midterm exam vs midterm test, etc.)
-   */
-  private static isKeywordBasedMatch(task1: GeneratedTask, task2: GeneratedTask): { isMatch: boolean; confidence: number } {
-    const type1 = task1.taskType?.toLowerCase() || '';
-    const type2 = task2.taskType?.toLowerCase() || '';
-    
-    // Must be same or related type for keyword matching
-    if (!(type1 === type2 || this.areTypesRelated(type1, type2))) {
-      return { isMatch: false, confidence: 0.0 };
-    }
-    
-    const title1 = task1.title.toLowerCase();
-    const title2 = task2.title.toLowerCase();
-    
-    // Common academic keyword groups that should be treated as equivalent
-    const keywordGroups = [
-      ['midterm', 'midterms', 'mid-term', 'mid term'],
-      ['final', 'finals', 'final exam', 'final test'],
-      ['quiz', 'quizzes'],
-      ['exam', 'test', 'examination'],
-      ['assignment', 'homework', 'hw'],
-      ['project', 'proj'],
-      ['lab', 'laboratory', 'labs'],
-      ['discussion', 'disc', 'section'],
-      ['reading', 'readings', 'chapter']
-    ];
-    
-    // Check if both titles contain keywords from the same group
-    for (const group of keywordGroups) {
-      const hasGroup1 = group.some(keyword => title1.includes(keyword));
-      const hasGroup2 = group.some(keyword => title2.includes(keyword));
-      
-      if (hasGroup1 && hasGroup2) {
-        // Check if dates are close (same day for keyword-based matching)
-        const date1 = task1.dueDate || task1.assignmentDate || task1.sessionDate;
-        const date2 = task2.dueDate || task2.assignmentDate || task2.sessionDate;
-        
-        if (date1 && date2 && this.areDatesClose(date1, date2, 0)) {
-          // Same keyword group + same date = likely duplicate
-          return { isMatch: true, confidence: 0.85 };
-        }
-        
-        // Same keyword group but different/missing dates - lower confidence
-        if (!date1 || !date2) {
-          return { isMatch: true, confidence: 0.7 };
-        }
-      }
-    }
-    
-    return { isMatch: false, confidence: 0.0 };
-  }
-
-  /**
-   * Normalize title for comparison
-   */
-  private static normalizeTitle(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' ')    // Normalize whitespace
-      .trim();
-  }
-
-  /**
-   * Calculate similarity between two strings using Levenshtein distance
-   */
-  private static calculateTitleSimilarity(str1: string, str2: string): number {
-    const matrix: number[][] = [];
-    const len1 = str1.length;
-    const len2 = str2.length;
-
-    // If either string is empty
-    if (len1 === 0) return len2 === 0 ? 1 : 0;
-    if (len2 === 0) return 0;
-
-    // Initialize matrix
-    for (let i = 0; i <= len1; i++) {
-      matrix[i] = [i];
-    }
-    for (let j = 0; j <= len2; j++) {
-      matrix[0][j] = j;
-    }
-
-    // Fill matrix
-    for (let i = 1; i <= len1; i++) {
-      for (let j = 1; j <= len2; j++) {
-        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,     // deletion
-          matrix[i][j - 1] + 1,     // insertion
-          matrix[i - 1][j - 1] + cost // substitution
-        );
-      }
-    }
-
-    const maxLen = Math.max(len1, len2);
-    return (maxLen - matrix[len1][len2]) / maxLen;
-  }
-
-  /**
-   * Check if two dates are close within tolerance (days)
-   */
-  private static areDatesClose(date1: string | undefined, date2: string | undefined, toleranceDays: number): boolean {
-    if (!date1 && !date2) return true;  // Both null/undefined
-    if (!date1 || !date2) return false; // One null/undefined
-    
-    try {
-      const d1 = new Date(date1);
-      const d2 = new Date(date2);
-      
-      if (isNaN(d1.getTime()) || isNaN(d2.getTime())) return false;
-      
-      const diffMs = Math.abs(d1.getTime() - d2.getTime());
-      const diffDays = diffMs / (1000 * 60 * 60 * 24);
-      
-      return diffDays <= toleranceDays;
+      const generalSettings = JSON.parse(localStorage.getItem('generalSettings') || '{}');
+      return generalSettings?.academicSystem || 'semester';
     } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Check if two task types are related
-   */
-  private static areTypesRelated(type1: string, type2: string): boolean {
-    const relatedTypes = [
-      ['assignment', 'homework'],
-      ['lab', 'laboratory'],
-      ['quiz', 'test'],
-      ['exam', 'midterm', 'final'],
-      ['project', 'proj'],
-      ['discussion', 'disc']
-    ];
-    
-    for (const group of relatedTypes) {
-      if (group.includes(type1) && group.includes(type2)) {
-        return true;
-      }
-    }
-    
-    return false;
-  }
-
-  /**
-   * Helper function to get task counts by type
-   */
-  private static getTaskCountsByType(tasks: GeneratedTask[]): Record<string, number> {
-    const counts: Record<string, number> = {};
-    
-    for (const task of tasks) {
-      const type = task.taskType?.toLowerCase() || 'unknown';
-      counts[type] = (counts[type] || 0) + 1;
-    }
-    
-    return counts;
-  }
-
-  /**
-   * Find matching lab session for a task
-   */
-  private static findMatchingLabSession(
-    task: GeneratedTask, 
-    labSchedule: Array<{title: string, date: string}>
-  ): {title: string, date: string} | null {
-    const taskTitle = task.title.toLowerCase();
-    
-    // Try exact lab number matching first (for tasks with "lab" in title)
-    const labNumberMatch = taskTitle.match(/lab\s*(\d+)/);
-    if (labNumberMatch) {
-      const labNumber = labNumberMatch[1];
-      const matchingSession = labSchedule.find(session => 
-        session.title.toLowerCase().includes(`lab ${labNumber}`) ||
-        session.title.toLowerCase().includes(`lab${labNumber}`)
-      );
-      if (matchingSession) {
-        return matchingSession;
-      }
-    }
-
-    // Special handling for Lab 0 LTspice Installation case
-    if (taskTitle.includes('ltspice') && taskTitle.includes('installation')) {
-      const lab0Session = labSchedule.find(session => 
-        session.title.toLowerCase().includes('lab 0') && 
-        session.title.toLowerCase().includes('ltspice')
-      );
-      if (lab0Session) {
-        return lab0Session;
-      }
-    }
-
-    // Enhanced partial title matching with better algorithm
-    for (const session of labSchedule) {
-      const sessionTitle = session.title.toLowerCase();
-      const sessionWords = sessionTitle.split(' ').filter(word => word.length > 3);
-      const taskWords = taskTitle.split(' ').filter(word => word.length > 3);
-      
-      // Check for significant keyword matches
-      const significantMatches = taskWords.filter(taskWord => 
-        sessionWords.some(sessionWord => 
-          sessionWord.includes(taskWord) || taskWord.includes(sessionWord) ||
-          // Handle technical terms
-          (taskWord === 'characterization' && sessionWord === 'characterization') ||
-          (taskWord === 'rectifiers' && sessionWord === 'rectifier') ||
-          (taskWord === 'converters' && sessionWord === 'converter') ||
-          (taskWord === 'inverters' && sessionWord === 'inverter')
-        )
-      );
-      
-      // Require at least 1 significant match or special keywords
-      if (significantMatches.length > 0) {
-        return session;
-      }
+      return 'semester';
     }
-
-    return null;
-  }
-
-  /**
-   * Detect if content appears to be academic material
-   */
-  private static detectAcademicContent(content: string): boolean {
-    const academicTerms = TASK_GENERATION_CONFIG.TASK_VALIDATION_PATTERNS.ACADEMIC_TERMS;
-    const foundTerms = academicTerms.filter(term => 
-      content.toLowerCase().includes(term.toLowerCase())
-    );
-    
-    return foundTerms.length >= 5; // Need at least 5 academic terms
-  }
-
-  /**
-   * Get or create task type using the service layer (which handles RLS properly)
-   */
-  private static async getOrCreateTaskTypeViaServiceLayer(taskTypeName: string, userId: string): Promise<string> {
-    try {
-      // Import the service layer functions
-      const { getTaskTypes, addTaskType } = await import('./taskType/taskTypeOperations');
-
-      // First, try to find existing task type using the service layer
-      const existingTypes = await getTaskTypes(userId, true);
-      const existingType = existingTypes.find(type => 
-        type.name.toLowerCase() === taskTypeName.toLowerCase()
-      );
-
-      if (existingType) {
-        logger.debug('Found existing task type via service layer', {
-          taskTypeName,
-          userId,
-          taskTypeId: existingType.id
-        });
-        return existingType.id;
-      }
-
-      logger.debug('Creating new task type via service layer', {
-        taskTypeName,
-        userId,
-        color: this.getTaskTypeColor(taskTypeName)
-      });
-
-      // Create new task type using the service layer
-      const newTaskType = await addTaskType({
-        name: taskTypeName,
-        color: this.getTaskTypeColor(taskTypeName),
-        user_id: userId
-      }, true);
-
-      if (newTaskType) {
-        logger.debug('Successfully created new task type via service layer', {
-          taskTypeName,
-          userId,
-          taskTypeId: newTaskType.id
-        });
-        return newTaskType.id;
-      }
-
-      // Fallback to finding any existing task type
-      logger.warn('Failed to create task type, trying fallback via service layer', {
-        taskTypeName,
-        userId
-      });
-
-      const allTypes = await getTaskTypes(userId, true);
-      if (allTypes.length > 0) {
-        const fallbackType = allTypes[0];
-        logger.debug('Using first available task type as fallback', {
-          taskTypeName,
-          userId,
-          fallbackTypeId: fallbackType.id,
-          fallbackTypeName: fallbackType.name
-        });
-        return fallbackType.id;
-      }
-
-      // Generate a fallback ID if all else fails
-      logger.warn('All task type operations failed, using hardcoded fallback', {
-        taskTypeName,
-        userId
-      });
-      
-      return 'default-task-type-id'; // Ultimate fallback
-      
-    } catch (error) {
-      logger.error('Task type creation failed with exception via service layer', {
-        taskTypeName,
-        userId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return 'default-task-type-id'; // Ultimate fallback
-    }
-  }
-
-  /**
-   * Get or create task type for generated tasks (legacy method - kept for compatibility)
-   */
-  private static async getOrCreateTaskType(taskTypeName: string, userId: string): Promise<string> {
-    try {
-      // First, try to find existing task type (remove .single() to avoid errors)
-      const { data: existingTypes, error: findError } = await supabase
-        .from('task_types')
-        .select('id')
-        .eq('name', taskTypeName)
-        .eq('user_id', userId)
-        .limit(1);
-
-      if (!findError && existingTypes && existingTypes.length > 0) {
-        logger.debug('Found existing task type', {
-          taskTypeName,
-          userId,
-          taskTypeId: existingTypes[0].id
-        });
-        return existingTypes[0].id;
-      }
-
-      logger.debug('Creating new task type', {
-        taskTypeName,
-        userId,
-        color: this.getTaskTypeColor(taskTypeName)
-      });
-
-      // Create new task type
-      const { data: newTypes, error: createError } = await supabase
-        .from('task_types')
-        .insert({
-          name: taskTypeName,
-          color: this.getTaskTypeColor(taskTypeName),
-          user_id: userId
-        })
-        .select('id');
-
-      if (!createError && newTypes && newTypes.length > 0) {
-        logger.debug('Successfully created new task type', {
-          taskTypeName,
-          userId,
-          taskTypeId: newTypes[0].id
-        });
-        return newTypes[0].id;
-      }
-
-      logger.warn('Failed to create task type, trying fallback', {
-        taskTypeName,
-        userId,
-        createError: createError?.message
-      });
-
-      // Fallback to default task type
-      const { data: defaultTypes, error: defaultError } = await supabase
-        .from('task_types')
-        .select('id')
-        .eq('is_default', true)
-        .eq('user_id', userId)
-        .limit(1);
-      
-      if (!defaultError && defaultTypes && defaultTypes.length > 0) {
-        logger.debug('Using default task type as fallback', {
-          taskTypeName,
-          userId,
-          defaultTypeId: defaultTypes[0].id
-        });
-        return defaultTypes[0].id;
-      }
-
-      // Generate a fallback ID if all else fails
-      logger.warn('All task type lookups failed, using hardcoded fallback', {
-        taskTypeName,
-        userId,
-        findError: findError?.message,
-        createError: createError?.message,
-        defaultError: defaultError?.message
-      });
-      
-      return 'default-task-type-id'; // Ultimate fallback
-      
-    } catch (error) {
-      logger.error('Task type creation failed with exception', {
-        taskTypeName,
-        userId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return 'default-task-type-id'; // Ultimate fallback
-    }
-  }
-
-  /**
-   * Infer task type from title and description using keyword matching
-   */
-  private static inferTaskType(title: string, description: string): string {
-    const text = (title + ' ' + description).toLowerCase();
-    
-    // Keyword patterns for different task types
-    const typePatterns = {
-      exam: /\b(exam|test|midterm|final|assessment)\b/i,
-      quiz: /\b(quiz|short test|pop quiz)\b/i,
-      assignment: /\b(assignment|homework|hw|problem set|exercise|submit|turn in)\b/i,
-      lab: /\b(lab|laboratory|experiment|practical)\b/i,
-      project: /\b(project|design|build|develop|create|presentation)\b/i,
-      reading: /\b(reading|read|chapter|section|textbook|article)\b/i,
-      discussion: /\b(discussion|forum|post|respond|participate|comment)\b/i
-    };
-
-    // Check for specific patterns
-    for (const [type, pattern] of Object.entries(typePatterns)) {
-      if (pattern.test(text)) {
-        logger.debug('Task type inferred from pattern', { type, pattern: pattern.source, matchedText: text.substring(0, 100) });
-        return type;
-      }
-    }
-
-    // Default fallback based on common academic terms
-    if (/\b(due|submit|complete|finish)\b/i.test(text)) {
-      return 'assignment';
-    }
-
-    // Ultimate fallback
-    logger.debug('Using fallback task type', { text: text.substring(0, 100) });
-    return 'assignment';
-  }
-
-  /**
-   * Get appropriate color for task type
-   */
-  private static getTaskTypeColor(taskType: string): string {
-    const colorMap: Record<string, string> = {
-      exam: '#EF4444',      // Red
-      assignment: '#3B82F6', // Blue
-      project: '#8B5CF6',    // Purple
-      quiz: '#F59E0B',       // Amber
-      reading: '#10B981',    // Emerald
-      discussion: '#6B7280', // Gray
-      lab: '#F97316'         // Orange
-    };
-    
-    return colorMap[taskType.toLowerCase()] || '#6B7280';
-  }
-
-  /**
-   * Estimate task duration based on task type
-   */
-  private static estimateTaskDuration(taskType: string): number {
-    const durationMap: Record<string, number> = {
-      exam: 180,        // 3 hours
-      assignment: 120,  // 2 hours
-      project: 480,     // 8 hours
-      quiz: 30,         // 30 minutes
-      reading: 60,      // 1 hour
-      discussion: 45,   // 45 minutes
-      lab: 180          // 3 hours
-    };
-    
-    return durationMap[taskType.toLowerCase()] || 60; // Default 1 hour
   }
 }
 
 // Export configuration for external use
-export const SYLLABUS_TASK_GENERATION_CONFIG = TASK_GENERATION_CONFIG;
\ No newline at end of file
+export const SYLLABUS_TASK_GENERATION_CONFIG = TASK_GENERATION_CONFIG;
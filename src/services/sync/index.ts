@@ -0,0 +1,34 @@
+// Offline-first sync: operation log, three-way merge and the sync run
+export type { SyncTable, SyncRecord, SyncTableConfig } from './syncTables';
+export { SYNC_TABLES, getSyncTableConfig } from './syncTables';
+
+export type { SyncOperation, SyncOperationType, PendingRecordChange } from './operationLog';
+export {
+  OPERATION_LOG_KEY,
+  getOperationLog,
+  foldOperations,
+  recordOperation,
+  removeOperations,
+  hasPendingOperations,
+} from './operationLog';
+
+export type { SyncConflict, TableMergeInput, TableMergeResult } from './mergeRecords';
+export { mergeTable, valuesEqual } from './mergeRecords';
+
+export type { OfflineFirstResult } from './offlineWrite';
+export { isOnline, isNetworkError, runOfflineFirst } from './offlineWrite';
+export { upsertOfflineFirst, deleteOfflineFirst } from './queuedWrite';
+
+export type { SyncReport } from './syncEngine';
+export {
+  LAST_SYNC_KEY,
+  SHADOW_KEY,
+  CONFLICTS_KEY,
+  syncWithServer,
+  markSynced,
+  markDeleted,
+  getSyncConflicts,
+  subscribeToSyncConflicts,
+  resolveSyncConflict,
+  dismissSyncConflict,
+} from './syncEngine';
@@ -0,0 +1,188 @@
+// Three-way merge of local and server rows against the copy both sides last
+// agreed on. Fields changed on only one side are taken from that side; fields
+// changed on both get the newer value (last writer wins) and a conflict entry.
+import { generateUniqueId } from '../../utils/idHelpers';
+import { UNTRACKED_FIELDS, type PendingRecordChange } from './operationLog';
+import type { SyncRecord, SyncTable, SyncTableConfig } from './syncTables';
+
+// A disagreement the merge settled automatically, kept so the user can flip it
+export interface SyncConflict {
+  id: string;
+  table: SyncTable;
+  recordId: string;
+  recordTitle: string;
+  field?: string; // Missing when one side deleted the whole record
+  localValue: unknown; // null when the record was deleted on this device
+  serverValue: unknown; // null when the record was deleted on the server
+  applied: 'local' | 'server';
+  detectedAt: string;
+}
+
+export interface TableMergeInput {
+  config: SyncTableConfig;
+  local: SyncRecord[]; // Local rows, already converted to the server shape
+  server: SyncRecord[];
+  shadow: Record<string, SyncRecord> | null; // Rows as of the last sync; null if this device never synced
+  pending: PendingRecordChange[];
+  lastSyncedAt?: string;
+  now: string;
+}
+
+export interface TableMergeResult {
+  records: SyncRecord[]; // Merged state of the table
+  upserts: SyncRecord[]; // Rows to write to the server
+  deletes: string[]; // Ids to delete on the server
+  conflicts: SyncConflict[];
+}
+
+type FieldChanges = Record<string, { value: unknown; changedAt: string }>;
+
+const normalize = (value: unknown): string => JSON.stringify(value === undefined ? null : value);
+
+export const valuesEqual = (a: unknown, b: unknown): boolean => normalize(a) === normalize(b);
+
+const trackedFields = (...rows: Array<SyncRecord | undefined>): string[] => {
+  const fields = new Set<string>();
+  rows.forEach(row => row && Object.keys(row).forEach(field => fields.add(field)));
+  return Array.from(fields).filter(field => !UNTRACKED_FIELDS.has(field));
+};
+
+// Server timestamps may use "+00:00" instead of "Z", so compare instants, not strings
+const isLater = (a: string, b: string): boolean => Date.parse(a) > Date.parse(b);
+
+const changedAtOf = (row: SyncRecord, fallback: string): string =>
+  (row.updated_at as string | undefined) || (row.created_at as string | undefined) || fallback;
+
+/**
+ * Fields the device changed since the last sync: queued operations first, then
+ * anything else that differs from the shadow (writes that bypassed the queue)
+ */
+const getLocalChanges = (
+  local: SyncRecord | undefined,
+  base: SyncRecord | undefined,
+  pending: PendingRecordChange | undefined,
+  fallbackTime: string
+): FieldChanges => {
+  const changes: FieldChanges = { ...(pending?.fields || {}) };
+  if (local && base) {
+    const changedAt = changedAtOf(local, fallbackTime);
+    trackedFields(local, base).forEach(field => {
+      if (!changes[field] && !valuesEqual(local[field], base[field])) {
+        changes[field] = { value: local[field], changedAt };
+      }
+    });
+  }
+  return changes;
+};
+
+const getServerChanges = (server: SyncRecord, base: SyncRecord): string[] =>
+  trackedFields(server, base).filter(field => !valuesEqual(server[field], base[field]));
+
+/**
+ * Merges one table
+ */
+export const mergeTable = ({ config, local, server, shadow, pending, lastSyncedAt, now }: TableMergeInput): TableMergeResult => {
+  const localById = new Map(local.map(row => [row.id, row]));
+  const serverById = new Map(server.map(row => [row.id, row]));
+  const pendingById = new Map(pending.map(change => [change.recordId, change]));
+  const ids = new Set([...localById.keys(), ...serverById.keys(), ...pendingById.keys()]);
+
+  const result: TableMergeResult = { records: [], upserts: [], deletes: [], conflicts: [] };
+  const fallbackTime = lastSyncedAt || now;
+
+  const addConflict = (recordId: string, title: unknown, conflict: Pick<SyncConflict, 'field' | 'localValue' | 'serverValue' | 'applied'>): void => {
+    result.conflicts.push({
+      id: generateUniqueId('conflict'),
+      table: config.table,
+      recordId,
+      recordTitle: String(title ?? recordId),
+      detectedAt: now,
+      ...conflict,
+    });
+  };
+
+  ids.forEach(id => {
+    const localRow = localById.get(id);
+    const serverRow = serverById.get(id);
+    const base = shadow?.[id];
+    const change = pendingById.get(id);
+    const localChanges = getLocalChanges(localRow, base, change, fallbackTime);
+    const hasLocalChanges = Object.keys(localChanges).length > 0;
+
+    if (!serverRow) {
+      if (base) {
+        // Deleted on the server. Local edits can't be merged into a deleted
+        // row, so the deletion stands and the edits are offered as a conflict.
+        if (localRow && !change?.deletedAt && hasLocalChanges) {
+          addConflict(id, localRow[config.titleField], { localValue: localRow, serverValue: null, applied: 'server' });
+        }
+        return;
+      }
+      // Created on this device
+      if (localRow && !change?.deletedAt) {
+        const row = { ...localRow, updated_at: now };
+        result.records.push(row);
+        result.upserts.push(row);
+      }
+      return;
+    }
+
+    const serverChangedAt = changedAtOf(serverRow, fallbackTime);
+
+    if (change?.deletedAt) {
+      const serverChanges = base ? getServerChanges(serverRow, base) : [];
+      if (serverChanges.length > 0) {
+        const serverWins = isLater(serverChangedAt, change.deletedAt);
+        addConflict(id, serverRow[config.titleField], { localValue: null, serverValue: serverRow, applied: serverWins ? 'server' : 'local' });
+        if (serverWins) {
+          result.records.push(serverRow);
+          return;
+        }
+      }
+      result.deletes.push(id);
+      return;
+    }
+
+    if (!localRow && !hasLocalChanges) {
+      result.records.push(serverRow);
+      return;
+    }
+
+    const merged: SyncRecord = { ...serverRow };
+    const serverChanges = new Set(base ? getServerChanges(serverRow, base) : []);
+    let push = false;
+
+    Object.entries(localChanges).forEach(([field, { value, changedAt }]) => {
+      if (valuesEqual(value, serverRow[field])) return;
+
+      // Without a shadow there is no telling which side changed the field, so
+      // a difference counts as a concurrent edit
+      const changedOnServer = !base || serverChanges.has(field);
+      if (!changedOnServer) {
+        merged[field] = value;
+        push = true;
+        return;
+      }
+
+      const localWins = isLater(changedAt, serverChangedAt);
+      addConflict(id, serverRow[config.titleField], {
+        field,
+        localValue: value,
+        serverValue: serverRow[field],
+        applied: localWins ? 'local' : 'server',
+      });
+      if (localWins) {
+        merged[field] = value;
+        push = true;
+      }
+    });
+
+    if (push) {
+      merged.updated_at = now;
+      result.upserts.push(merged);
+    }
+    result.records.push(merged);
+  });
+
+  return result;
+};
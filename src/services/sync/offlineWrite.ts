@@ -0,0 +1,51 @@
+// Runs writes against Supabase when possible and falls back to local storage
+// (with the change queued for sync) when the device is offline
+import { logger } from '../../utils/logger';
+
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|network request failed|load failed|fetch failed|timeout|ECONNREFUSED/i;
+
+export const isOnline = (): boolean =>
+  typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Whether an error means Supabase couldn't be reached, as opposed to the
+ * server rejecting the write. Errors wrapped by errorHandler keep the original
+ * message in their context.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!isOnline()) return true;
+  if (!error || typeof error !== 'object') return false;
+
+  const { message, context } = error as { message?: string; context?: { originalError?: unknown } };
+  const messages = [message, typeof context?.originalError === 'string' ? context.originalError : undefined];
+  return messages.some(text => typeof text === 'string' && NETWORK_ERROR_PATTERN.test(text));
+};
+
+export interface OfflineFirstResult<T> {
+  result: T;
+  synced: boolean; // False when the write only reached local storage
+}
+
+/**
+ * Performs a write remotely when signed in and online, otherwise (or when the
+ * remote write fails for lack of a connection) locally
+ *
+ * @param useSupabase - Whether the user is signed in
+ * @param write - The write, given whether to target Supabase
+ */
+export const runOfflineFirst = async <T>(
+  useSupabase: boolean,
+  write: (remote: boolean) => Promise<T>
+): Promise<OfflineFirstResult<T>> => {
+  if (!useSupabase || !isOnline()) {
+    return { result: await write(false), synced: false };
+  }
+
+  try {
+    return { result: await write(true), synced: true };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    logger.warn('Supabase unreachable, saving change locally for the next sync', { error });
+    return { result: await write(false), synced: false };
+  }
+};
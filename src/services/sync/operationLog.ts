@@ -0,0 +1,150 @@
+// Queue of local mutations waiting to be replayed against Supabase
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import { generateUniqueId } from '../../utils/idHelpers';
+import { getSyncTableConfig, type SyncTable } from './syncTables';
+
+export const OPERATION_LOG_KEY = 'sync_operation_log';
+
+export type SyncOperationType = 'upsert' | 'delete';
+
+// One local mutation. Changes are stored in the server shape of the table.
+export interface SyncOperation {
+  id: string;
+  table: SyncTable;
+  recordId: string;
+  type: SyncOperationType;
+  changes: Record<string, unknown>;
+  timestamp: string;
+}
+
+// The net effect of all queued operations on one record
+export interface PendingRecordChange {
+  table: SyncTable;
+  recordId: string;
+  fields: Record<string, { value: unknown; changedAt: string }>;
+  deletedAt?: string;
+  operationIds: string[];
+}
+
+// Folding keeps the log bounded for devices that stay offline for a long time
+const MAX_LOG_LENGTH = 500;
+
+// Fields the server owns or that never take part in merges
+export const UNTRACKED_FIELDS = new Set(['id', 'user_id', 'created_at', 'updated_at']);
+
+export const getOperationLog = (): SyncOperation[] => getLocalData<SyncOperation[]>(OPERATION_LOG_KEY, []);
+
+const saveOperationLog = (operations: SyncOperation[]): void => {
+  saveLocalData(OPERATION_LOG_KEY, operations);
+};
+
+/**
+ * Folds operations into one change per record, keeping the newest value and
+ * timestamp of every field. A delete drops earlier field changes; an upsert
+ * after a delete brings the record back.
+ */
+export const foldOperations = (operations: SyncOperation[]): PendingRecordChange[] => {
+  const changes = new Map<string, PendingRecordChange>();
+  const sorted = [...operations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const operation of sorted) {
+    const key = `${operation.table}:${operation.recordId}`;
+    const change = changes.get(key) || {
+      table: operation.table,
+      recordId: operation.recordId,
+      fields: {},
+      operationIds: [],
+    };
+    change.operationIds.push(operation.id);
+
+    if (operation.type === 'delete') {
+      change.fields = {};
+      change.deletedAt = operation.timestamp;
+    } else {
+      delete change.deletedAt;
+      Object.entries(operation.changes).forEach(([field, value]) => {
+        if (!UNTRACKED_FIELDS.has(field)) {
+          change.fields[field] = { value, changedAt: operation.timestamp };
+        }
+      });
+    }
+    changes.set(key, change);
+  }
+
+  return Array.from(changes.values());
+};
+
+/**
+ * Drops field changes a later operation overwrote and operations left with
+ * nothing to replay. The survivors keep their ids, so a sync that is running
+ * while the log is compacted still removes what it replayed and still sees
+ * what was queued after it started.
+ */
+const compactOperations = (operations: SyncOperation[]): SyncOperation[] => {
+  const sorted = [...operations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const newerFields = new Map<string, Set<string>>();
+  const deletedLater = new Set<string>();
+  const upsertedLater = new Set<string>();
+  const kept: SyncOperation[] = [];
+
+  for (const operation of sorted.reverse()) {
+    const key = `${operation.table}:${operation.recordId}`;
+    if (deletedLater.has(key)) continue;
+    const fields = newerFields.get(key) || new Set<string>();
+    newerFields.set(key, fields);
+
+    if (operation.type === 'delete') {
+      deletedLater.add(key);
+      // An upsert after the delete brought the record back
+      if (!upsertedLater.has(key)) kept.push(operation);
+      continue;
+    }
+
+    upsertedLater.add(key);
+    const changes = Object.fromEntries(Object.entries(operation.changes)
+      .filter(([field]) => !UNTRACKED_FIELDS.has(field) && !fields.has(field)));
+    Object.keys(changes).forEach(field => fields.add(field));
+    if (Object.keys(changes).length > 0) kept.push({ ...operation, changes });
+  }
+
+  return kept.reverse();
+};
+
+/**
+ * Queues a local mutation for the next sync
+ *
+ * @param table - Table the record belongs to
+ * @param recordId - Id of the changed record
+ * @param type - 'upsert' for inserts and updates, 'delete' for removals
+ * @param changes - Changed fields in the local shape (ignored for deletes)
+ */
+export const recordOperation = (
+  table: SyncTable,
+  recordId: string,
+  type: SyncOperationType,
+  changes: Record<string, unknown> = {}
+): SyncOperation => {
+  const operation: SyncOperation = {
+    id: generateUniqueId('op'),
+    table,
+    recordId,
+    type,
+    changes: type === 'delete' ? {} : getSyncTableConfig(table).toServer(changes),
+    timestamp: new Date().toISOString(),
+  };
+
+  const operations = [...getOperationLog(), operation];
+  saveOperationLog(operations.length > MAX_LOG_LENGTH ? compactOperations(operations) : operations);
+  return operation;
+};
+
+/**
+ * Drops operations that have been replayed. Operations queued while a sync
+ * was running are kept.
+ */
+export const removeOperations = (operationIds: string[]): void => {
+  const replayed = new Set(operationIds);
+  saveOperationLog(getOperationLog().filter(operation => !replayed.has(operation.id)));
+};
+
+export const hasPendingOperations = (): boolean => getOperationLog().length > 0;
@@ -0,0 +1,62 @@
+// Offline-first writes of synced records: the change either reaches Supabase
+// and the sync shadow, or local storage and the operation log. The task, class
+// and task type operations write through these, so no caller can skip the log.
+import { runOfflineFirst, type OfflineFirstResult } from './offlineWrite';
+import { recordOperation } from './operationLog';
+import { markSynced, markDeleted } from './syncEngine';
+import type { SyncTable } from './syncTables';
+
+/**
+ * Inserts or updates a record offline-first
+ *
+ * @param table - Table the record belongs to
+ * @param useSupabase - Whether the user is signed in
+ * @param write - The write, given whether to target Supabase
+ * @param update - For updates, the record and the changed fields to queue;
+ *   inserts queue the whole written record
+ */
+export const upsertOfflineFirst = async <T extends object | null>(
+  table: SyncTable,
+  useSupabase: boolean,
+  write: (remote: boolean) => Promise<T>,
+  update?: { recordId: string; changes: object }
+): Promise<OfflineFirstResult<T>> => {
+  const outcome = await runOfflineFirst(useSupabase, write);
+  const record = outcome.result as (Record<string, unknown> & { id?: unknown }) | null;
+  if (!record) return outcome;
+
+  if (outcome.synced) {
+    markSynced(table, { ...record });
+  } else if (useSupabase) {
+    const recordId = update?.recordId ?? (typeof record.id === 'string' ? record.id : null);
+    if (recordId) {
+      recordOperation(table, recordId, 'upsert', { ...(update?.changes ?? record) });
+    }
+  }
+  return outcome;
+};
+
+/**
+ * Deletes a record offline-first
+ *
+ * @param table - Table the record belongs to
+ * @param recordId - Id of the deleted record
+ * @param useSupabase - Whether the user is signed in
+ * @param write - The delete, given whether to target Supabase
+ */
+export const deleteOfflineFirst = async (
+  table: SyncTable,
+  recordId: string,
+  useSupabase: boolean,
+  write: (remote: boolean) => Promise<boolean>
+): Promise<OfflineFirstResult<boolean>> => {
+  const outcome = await runOfflineFirst(useSupabase, write);
+  if (!outcome.result) return outcome;
+
+  if (outcome.synced) {
+    markDeleted(table, recordId);
+  } else if (useSupabase) {
+    recordOperation(table, recordId, 'delete');
+  }
+  return outcome;
+};
@@ -0,0 +1,303 @@
+// Two-way sync: replays the operation log against Supabase, merges server
+// changes into local storage and keeps the list of conflicts it settled
+import { supabase } from '../supabaseClient';
+import { logger } from '../../utils/logger';
+import { errorHandler } from '../../utils/errorHandler';
+import { getLocalData, saveLocalData } from '../../utils/storageHelpers';
+import { SYNC_TABLES, getSyncTableConfig, type SyncRecord, type SyncTable, type SyncTableConfig } from './syncTables';
+import { getOperationLog, foldOperations, recordOperation, removeOperations } from './operationLog';
+import { mergeTable, type SyncConflict, type TableMergeResult } from './mergeRecords';
+import { isOnline, isNetworkError } from './offlineWrite';
+
+export const LAST_SYNC_KEY = 'last_sync_timestamp';
+export const SHADOW_KEY = 'sync_shadow';
+export const CONFLICTS_KEY = 'sync_conflicts';
+
+// Rows per upsert request
+const UPSERT_BATCH_SIZE = 100;
+
+type ShadowStore = Partial<Record<SyncTable, Record<string, SyncRecord>>>;
+type ConflictListener = (conflicts: SyncConflict[]) => void;
+
+export interface SyncReport {
+  success: boolean;
+  offline: boolean;
+  pushed: number; // Rows written or deleted on the server
+  pulled: number; // Rows received from the server
+  conflicts: SyncConflict[]; // Conflicts found in this run
+  failedTables: SyncTable[];
+  error?: string; // Why the run failed before merging, e.g. a table the server wouldn't return
+}
+
+const conflictListeners = new Set<ConflictListener>();
+let activeSync: Promise<SyncReport> | null = null;
+
+const getShadows = (): ShadowStore => getLocalData<ShadowStore>(SHADOW_KEY, {});
+
+const saveShadow = (table: SyncTable, rows: Record<string, SyncRecord>): void => {
+  saveLocalData(SHADOW_KEY, { ...getShadows(), [table]: rows });
+};
+
+const toRecordMap = (rows: SyncRecord[]): Record<string, SyncRecord> =>
+  Object.fromEntries(rows.map(row => [row.id, row]));
+
+const getLocalRows = (config: SyncTableConfig): SyncRecord[] =>
+  getLocalData<SyncRecord[]>(config.storageKey, []).filter(row => row && row.id);
+
+// Conflicts ------------------------------------------------------------------
+
+export const getSyncConflicts = (): SyncConflict[] => getLocalData<SyncConflict[]>(CONFLICTS_KEY, []);
+
+const saveConflicts = (conflicts: SyncConflict[]): void => {
+  saveLocalData(CONFLICTS_KEY, conflicts);
+  conflictListeners.forEach(listener => listener(conflicts));
+};
+
+/**
+ * Subscribes to changes of the conflict list
+ *
+ * @returns Function that removes the listener
+ */
+export const subscribeToSyncConflicts = (listener: ConflictListener): (() => void) => {
+  conflictListeners.add(listener);
+  return () => conflictListeners.delete(listener);
+};
+
+export const dismissSyncConflict = (conflictId: string): void => {
+  saveConflicts(getSyncConflicts().filter(conflict => conflict.id !== conflictId));
+};
+
+/**
+ * Settles a conflict the other way than the merge did. The chosen value is
+ * written locally and queued, so the next sync sends it to the server.
+ *
+ * @param conflictId - Conflict to resolve
+ * @param keep - Which side's value to keep
+ */
+export const resolveSyncConflict = (conflictId: string, keep: 'local' | 'server'): void => {
+  const conflict = getSyncConflicts().find(entry => entry.id === conflictId);
+  if (!conflict) return;
+
+  if (keep !== conflict.applied) {
+    const config = getSyncTableConfig(conflict.table);
+    const value = keep === 'local' ? conflict.localValue : conflict.serverValue;
+    const localRows = getLocalRows(config);
+    const existing = localRows.find(row => row.id === conflict.recordId);
+
+    if (conflict.field) {
+      const serverShaped = { ...config.toServer(existing || { id: conflict.recordId }), [conflict.field]: value } as SyncRecord;
+      const updated = config.fromServer(serverShaped, existing);
+      saveLocalData(config.storageKey, existing
+        ? localRows.map(row => (row.id === conflict.recordId ? updated : row))
+        : [...localRows, updated]);
+      recordOperation(conflict.table, conflict.recordId, 'upsert', { [conflict.field]: value });
+    } else if (value === null) {
+      saveLocalData(config.storageKey, localRows.filter(row => row.id !== conflict.recordId));
+      recordOperation(conflict.table, conflict.recordId, 'delete');
+    } else {
+      const restored = config.fromServer(value as SyncRecord, existing);
+      saveLocalData(config.storageKey, [...localRows.filter(row => row.id !== conflict.recordId), restored]);
+      recordOperation(conflict.table, conflict.recordId, 'upsert', restored);
+    }
+  }
+
+  dismissSyncConflict(conflictId);
+};
+
+// Shadow upkeep for writes that reached the server directly ------------------
+
+/**
+ * Records that a row was written to the server outside of a sync run, so the
+ * next merge doesn't mistake the write for a local edit
+ */
+export const markSynced = (table: SyncTable, row: Record<string, unknown> | null | undefined): void => {
+  const shadow = getShadows()[table];
+  if (!shadow || !row || typeof row.id !== 'string') return;
+  saveShadow(table, { ...shadow, [row.id]: getSyncTableConfig(table).toServer(row) as SyncRecord });
+};
+
+export const markDeleted = (table: SyncTable, recordId: string): void => {
+  const shadow = getShadows()[table];
+  if (!shadow || !shadow[recordId]) return;
+  const { [recordId]: _removed, ...rest } = shadow;
+  saveShadow(table, rest);
+};
+
+// Sync run -------------------------------------------------------------------
+
+interface ServerRowsResult {
+  rows: Record<SyncTable, SyncRecord[]>;
+  failures: Array<{ table: SyncTable; error: unknown }>;
+}
+
+const fetchServerRows = async (userId: string): Promise<ServerRowsResult> => {
+  const results = await Promise.all(SYNC_TABLES.map(async ({ table }) => {
+    try {
+      const { data, error } = await supabase.from(table).select('*').eq('user_id', userId);
+      if (error) throw error;
+      return { table, rows: (data || []) as SyncRecord[] };
+    } catch (error) {
+      return { table, rows: [] as SyncRecord[], error };
+    }
+  }));
+  return {
+    rows: Object.fromEntries(results.map(({ table, rows }) => [table, rows])) as Record<SyncTable, SyncRecord[]>,
+    failures: results.flatMap(({ table, error }) => (error === undefined ? [] : [{ table, error }])),
+  };
+};
+
+const pushUpserts = async (table: SyncTable, rows: SyncRecord[], userId: string): Promise<void> => {
+  for (let start = 0; start < rows.length; start += UPSERT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + UPSERT_BATCH_SIZE).map(row => ({ ...row, user_id: userId }));
+    const { error } = await supabase.from(table).upsert(batch as never[], { onConflict: 'id' });
+    if (error) throw error;
+  }
+};
+
+const pushDeletes = async (table: SyncTable, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from(table).delete().in('id', ids);
+  if (error) throw error;
+};
+
+const runSync = async (userId: string): Promise<SyncReport> => {
+  const report: SyncReport = { success: false, offline: false, pushed: 0, pulled: 0, conflicts: [], failedTables: [] };
+  if (!isOnline()) {
+    return { ...report, offline: true };
+  }
+
+  // Operations queued from here on wait for the next run
+  const pending = foldOperations(getOperationLog());
+  const shadows = getShadows();
+  const lastSyncedAt = localStorage.getItem(LAST_SYNC_KEY) || undefined;
+  const now = new Date().toISOString();
+
+  const { rows: serverRows, failures } = await fetchServerRows(userId);
+  if (failures.length > 0) {
+    // Only a lost connection counts as offline; server errors mean sync is broken
+    if (failures.every(({ error }) => isNetworkError(error))) {
+      logger.warn('Sync skipped: server unreachable', { error: failures[0].error });
+      return { ...report, offline: true };
+    }
+    const { error } = failures.find(failure => !isNetworkError(failure.error)) || failures[0];
+    logger.error('Sync failed: could not load server data', {
+      failedTables: failures.map(failure => failure.table),
+      error,
+    });
+    return {
+      ...report,
+      failedTables: failures.map(failure => failure.table),
+      // Supabase errors are plain objects with a message
+      error: (error as { message?: string } | null)?.message || String(error),
+    };
+  }
+
+  const merges = new Map<SyncTable, TableMergeResult>();
+  SYNC_TABLES.forEach(config => {
+    const server = serverRows[config.table];
+    report.pulled += server.length;
+    merges.set(config.table, mergeTable({
+      config,
+      local: getLocalRows(config).map(row => config.toServer(row) as SyncRecord),
+      server,
+      shadow: shadows[config.table] || null,
+      pending: pending.filter(change => change.table === config.table),
+      lastSyncedAt,
+      now,
+    }));
+  });
+
+  const failed = new Set<SyncTable>();
+  for (const { table } of SYNC_TABLES) {
+    const merge = merges.get(table) as TableMergeResult;
+    try {
+      await pushUpserts(table, merge.upserts, userId);
+      report.pushed += merge.upserts.length;
+    } catch (error) {
+      logger.error(`Sync: failed to upload ${table}`, error);
+      failed.add(table);
+    }
+  }
+  // Children first, so foreign keys don't block the deletes
+  for (const { table } of [...SYNC_TABLES].reverse()) {
+    const merge = merges.get(table) as TableMergeResult;
+    try {
+      await pushDeletes(table, merge.deletes);
+      report.pushed += merge.deletes.length;
+    } catch (error) {
+      logger.error(`Sync: failed to delete ${table}`, error);
+      failed.add(table);
+    }
+  }
+
+  // Records edited while the sync was running keep their local version
+  const replayingIds = new Set(pending.flatMap(change => change.operationIds));
+  const editedDuringSync = new Set(getOperationLog()
+    .filter(operation => !replayingIds.has(operation.id))
+    .map(operation => `${operation.table}:${operation.recordId}`));
+
+  const replayedOperationIds: string[] = [];
+  SYNC_TABLES.forEach(config => {
+    const merge = merges.get(config.table) as TableMergeResult;
+    const currentLocal = getLocalRows(config);
+    const localById = toRecordMap(currentLocal);
+    const isEdited = (id: string): boolean => editedDuringSync.has(`${config.table}:${id}`);
+    const mergedIds = new Set(merge.records.map(row => row.id));
+    saveLocalData(config.storageKey, [
+      ...merge.records
+        .filter(row => !isEdited(row.id) || localById[row.id])
+        .map(row => (isEdited(row.id) ? localById[row.id] : config.fromServer(row, localById[row.id]))),
+      ...currentLocal.filter(row => isEdited(row.id) && !mergedIds.has(row.id)),
+    ]);
+
+    // A failed table keeps its queue and old shadow, so the next run retries
+    if (!failed.has(config.table)) {
+      saveShadow(config.table, toRecordMap(merge.records));
+      pending
+        .filter(change => change.table === config.table)
+        .forEach(change => replayedOperationIds.push(...change.operationIds));
+    }
+    report.conflicts.push(...merge.conflicts);
+  });
+  removeOperations(replayedOperationIds);
+
+  if (report.conflicts.length > 0) {
+    saveConflicts([...getSyncConflicts(), ...report.conflicts]);
+  }
+  report.failedTables = Array.from(failed);
+  report.success = failed.size === 0;
+  if (report.success) {
+    localStorage.setItem(LAST_SYNC_KEY, now);
+  }
+
+  logger.info('Sync finished', {
+    pushed: report.pushed,
+    pulled: report.pulled,
+    conflicts: report.conflicts.length,
+    failedTables: report.failedTables,
+  });
+  return report;
+};
+
+/**
+ * Syncs local data with the user's Supabase data. Concurrent calls share the
+ * run in progress.
+ */
+export const syncWithServer = (userId: string): Promise<SyncReport> => {
+  if (!activeSync) {
+    activeSync = runSync(userId)
+      .catch(error => {
+        const handled = errorHandler.handle(
+          error instanceof Error ? error : new Error('Unknown error'),
+          'syncWithServer',
+          { userId: !!userId }
+        );
+        logger.error('Error during sync', { error: handled.userMessage, context: handled.context });
+        return { success: false, offline: false, pushed: 0, pulled: 0, conflicts: [], failedTables: [] } as SyncReport;
+      })
+      .finally(() => {
+        activeSync = null;
+      });
+  }
+  return activeSync;
+};
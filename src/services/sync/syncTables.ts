@@ -0,0 +1,74 @@
+// Tables covered by the two-way sync, with the conversion between the shape
+// rows are cached in locally and the shape of the Supabase table
+import { STORAGE_KEYS } from '../../types/database';
+
+export type SyncTable =
+  | 'classes'
+  | 'task_types'
+  | 'tasks'
+  | 'grade_categories'
+  | 'assignments'
+  | 'grades'
+  | 'study_sessions'
+  | 'study_session_segments'
+  | 'study_concepts'
+  | 'concept_reviews';
+
+export type SyncRecord = Record<string, unknown> & { id: string };
+
+export interface SyncTableConfig {
+  table: SyncTable;
+  storageKey: string;
+  label: string; // Shown in the conflict list
+  titleField: string; // Field that names a record in the conflict list
+  toServer: (row: Record<string, unknown>) => Record<string, unknown>;
+  fromServer: (row: SyncRecord, local?: SyncRecord) => SyncRecord;
+}
+
+const identity = <T>(row: T): T => row;
+
+// Local classes carry their files and syllabus, and spell the task-class flag differently
+const classToServer = (row: Record<string, unknown>): Record<string, unknown> => {
+  const { files: _files, syllabus: _syllabus, isTaskClass, ...rest } = row;
+  return isTaskClass === undefined ? rest : { ...rest, istaskclass: isTaskClass };
+};
+
+const classFromServer = (row: SyncRecord, local?: SyncRecord): SyncRecord => {
+  const { istaskclass, ...rest } = row;
+  return {
+    ...rest,
+    id: row.id,
+    isTaskClass: Boolean(istaskclass),
+    files: local?.files || [],
+    syllabus: local?.syllabus || null,
+  };
+};
+
+// The completed color of a task type is only stored on the device
+const taskTypeToServer = (row: Record<string, unknown>): Record<string, unknown> => {
+  const { completedColor: _completedColor, ...rest } = row;
+  return rest;
+};
+
+const taskTypeFromServer = (row: SyncRecord, local?: SyncRecord): SyncRecord =>
+  local?.completedColor ? { ...row, completedColor: local.completedColor } : row;
+
+/**
+ * Sync order: parents before children, so inserts never reference a missing
+ * row. Deletes run in reverse.
+ */
+export const SYNC_TABLES: SyncTableConfig[] = [
+  { table: 'classes', storageKey: STORAGE_KEYS.CLASSES, label: 'Class', titleField: 'name', toServer: classToServer, fromServer: classFromServer },
+  { table: 'task_types', storageKey: STORAGE_KEYS.TASK_TYPES, label: 'Task type', titleField: 'name', toServer: taskTypeToServer, fromServer: taskTypeFromServer },
+  { table: 'tasks', storageKey: STORAGE_KEYS.TASKS, label: 'Task', titleField: 'title', toServer: identity, fromServer: identity },
+  { table: 'grade_categories', storageKey: 'grade_categories', label: 'Grade category', titleField: 'name', toServer: identity, fromServer: identity },
+  { table: 'assignments', storageKey: 'grade_assignments', label: 'Assignment', titleField: 'name', toServer: identity, fromServer: identity },
+  { table: 'grades', storageKey: 'grade_grades', label: 'Grade', titleField: 'assignment_id', toServer: identity, fromServer: identity },
+  { table: 'study_sessions', storageKey: 'study_sessions', label: 'Study session', titleField: 'subject', toServer: identity, fromServer: identity },
+  { table: 'study_session_segments', storageKey: 'study_session_segments', label: 'Focus block', titleField: 'start_time', toServer: identity, fromServer: identity },
+  { table: 'study_concepts', storageKey: 'study_concepts', label: 'Review concept', titleField: 'name', toServer: identity, fromServer: identity },
+  { table: 'concept_reviews', storageKey: 'concept_reviews', label: 'Concept review', titleField: 'reviewed_at', toServer: identity, fromServer: identity },
+];
+
+export const getSyncTableConfig = (table: SyncTable): SyncTableConfig =>
+  SYNC_TABLES.find(config => config.table === table) as SyncTableConfig;
@@ -5,8 +5,9 @@ import { getLocalData, saveLocalData } from '../utils/storageHelpers';
 import { checkUserDataExists, batchUpsert } from '../utils/supabaseHelpers';
 import { errorHandler } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
-
-const LAST_SYNC_KEY = 'last_sync_timestamp';
+import { syncWithServer, getSyncTableConfig, LAST_SYNC_KEY } from './sync';
+import { notificationInboxService } from './notifications';
+import { formatDateForInput } from '../utils/dateHelpers';
 
 // Sync result interface
 interface SyncResult {
@@ -135,26 +136,29 @@ export const downloadDataFromSupabase = async (userId: string): Promise<boolean>
   }
 };
 
+/**
+ * Two-way sync of local data with Supabase. Queued offline changes are
+ * replayed, server changes are merged in field by field, and concurrent edits
+ * are settled by last writer wins and listed as sync conflicts.
+ */
 export const syncData = async (userId: string): Promise<boolean> => {
   if (!userId) {
     return false;
   }
 
-  try {
-    const dataExists = await checkIfDataExists(userId);
-
-    if (!dataExists) {
-      return await uploadLocalDataToSupabase(userId);
-    } else {
-      return await downloadDataFromSupabase(userId);
-    }
-  } catch (error) {
-    const handled = errorHandler.handle(
-      error instanceof Error ? error : new Error('Unknown error'),
-      'syncData',
-      { userId: !!userId }
-    );
-    logger.error('Error during sync', { error: handled.userMessage, context: handled.context });
-    return false;
+  const report = await syncWithServer(userId);
+  // Being offline isn't a failure; the changes are replayed once back online
+  if (!report.success && !report.offline) {
+    const tables = report.failedTables.map(table => getSyncTableConfig(table).label);
+    await notificationInboxService.notify({
+      kind: 'sync_failed',
+      title: 'Sync failed',
+      body: tables.length > 0
+        ? `Some changes could not be synced (${tables.join(', ')}). They are kept on this device and will be retried.`
+        : 'Your changes are kept on this device and will be retried.',
+      group_key: 'sync_failed',
+      source_key: `sync_failed:${formatDateForInput(new Date())}`,
+    }, userId);
   }
-};
\ No newline at end of file
+  return report.success;
+};
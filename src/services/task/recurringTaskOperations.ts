@@ -0,0 +1,177 @@
+import type { User } from '@supabase/supabase-js';
+import type { Task, TaskInsert, TaskUpdate } from '../../types/database';
+import { addTask, updateTask, deleteTask } from './taskOperations';
+import { logger } from '../../utils/logger';
+import {
+  createOccurrence,
+  getTaskAnchorDate,
+  splitRecurrenceRule,
+  type RecurrenceScope,
+} from '../../utils/recurringTaskHelpers';
+
+// Fields that make an occurrence differ from its series when edited on its own
+const OCCURRENCE_FIELDS = [
+  'title', 'class', 'type', 'priority', 'isDuration',
+  'dueDate', 'dueTime', 'startDate', 'startTime', 'endDate', 'endTime',
+] as const;
+
+// Fields a detached occurrence or a new series must not copy from the series it came from
+const SERIES_ONLY_FIELDS = [
+  'id', 'created_at', 'updated_at', 'canvas_uid',
+  'recurrence_rule', 'recurrence_exdates', 'completed_occurrences',
+  'recurrence_parent_id', 'recurrence_date', 'seriesId', 'occurrenceDate',
+];
+
+const stripSeriesFields = (task: Partial<Task>): Partial<TaskInsert> => {
+  const fields: Record<string, unknown> = { ...task };
+  SERIES_ONLY_FIELDS.forEach(field => delete fields[field]);
+  return fields as Partial<TaskInsert>;
+};
+
+const addUnique = (dates: string[] | null | undefined, date: string): string[] =>
+  Array.from(new Set([...(dates || []), date])).sort();
+
+/**
+ * Marks a single occurrence of a recurring task as completed or not completed
+ */
+export const setOccurrenceCompleted = async (
+  series: Task,
+  occurrenceDate: string,
+  completed: boolean,
+  useSupabase = false
+): Promise<Task> => {
+  const current = series.completed_occurrences || [];
+  const completedOccurrences = completed
+    ? addUnique(current, occurrenceDate)
+    : current.filter(date => date !== occurrenceDate);
+
+  const result = await updateTask(series.id, { completed_occurrences: completedOccurrences }, useSupabase);
+  return { ...series, ...result, completed_occurrences: completedOccurrences };
+};
+
+/**
+ * Applies an edit made to one occurrence of a recurring task.
+ *
+ * "this" detaches the occurrence into a standalone task linked to the series and
+ * skips its date in the series (edits that only toggle completion are tracked on
+ * the series instead). "following" ends the series the day before and continues
+ * it as a new series carrying the edits; editing the first occurrence this way
+ * updates the whole series.
+ *
+ * @param series - The stored recurring task
+ * @param occurrenceDate - Date of the edited occurrence (YYYY-MM-DD)
+ * @param changes - Edited task fields; may include a new recurrence_rule for "following"
+ * @returns Tasks created or updated by the edit
+ */
+export const updateRecurringTask = async (
+  series: Task,
+  occurrenceDate: string,
+  changes: Partial<TaskUpdate>,
+  scope: RecurrenceScope,
+  useSupabase = false,
+  providedUser: User | null = null
+): Promise<Task[]> => {
+  const occurrence = createOccurrence(series, occurrenceDate);
+
+  if (scope === 'this') {
+    const changedFields = OCCURRENCE_FIELDS.filter(field =>
+      field in changes && (changes[field] ?? '') !== (occurrence[field] ?? '')
+    );
+
+    if (changedFields.length === 0) {
+      if (changes.completed === undefined || changes.completed === occurrence.completed) return [series];
+      return [await setOccurrenceCompleted(series, occurrenceDate, changes.completed, useSupabase)];
+    }
+
+    const detached = await addTask({
+      ...stripSeriesFields(occurrence),
+      ...stripSeriesFields(changes as Partial<Task>),
+      completed: changes.completed ?? occurrence.completed,
+      recurrence_parent_id: series.id,
+      recurrence_date: occurrenceDate,
+    }, useSupabase, providedUser);
+
+    const updatedSeries = await updateTask(series.id, {
+      recurrence_exdates: addUnique(series.recurrence_exdates, occurrenceDate),
+    }, useSupabase);
+
+    logger.debug('[recurringTasks] Detached occurrence from series', { seriesId: series.id, occurrenceDate });
+    return [{ ...series, ...updatedSeries }, detached];
+  }
+
+  const anchor = getTaskAnchorDate(series) || occurrenceDate;
+  const ruleValue = changes.recurrence_rule !== undefined ? changes.recurrence_rule : series.recurrence_rule;
+  const split = splitRecurrenceRule(series.recurrence_rule || '', anchor, occurrenceDate);
+
+  if (!split.before) {
+    const updated = await updateTask(series.id, changes, useSupabase);
+    return [{ ...series, ...updated }];
+  }
+
+  const updatedSeries = await updateTask(series.id, {
+    recurrence_rule: split.before,
+    recurrence_exdates: (series.recurrence_exdates || []).filter(date => date < occurrenceDate),
+    completed_occurrences: (series.completed_occurrences || []).filter(date => date < occurrenceDate),
+  }, useSupabase);
+
+  // A rule edited in the form replaces the remainder; otherwise the series continues unchanged
+  const continuedRule = changes.recurrence_rule !== undefined && changes.recurrence_rule !== series.recurrence_rule
+    ? ruleValue
+    : split.after;
+
+  const continued = await addTask({
+    ...stripSeriesFields(occurrence),
+    ...stripSeriesFields(changes as Partial<Task>),
+    completed: changes.completed ?? series.completed,
+    recurrence_rule: continuedRule || undefined,
+    recurrence_exdates: (changes.recurrence_exdates ?? series.recurrence_exdates ?? []).filter(date => date >= occurrenceDate),
+    completed_occurrences: (series.completed_occurrences || []).filter(date => date >= occurrenceDate),
+  }, useSupabase, providedUser);
+
+  logger.debug('[recurringTasks] Split series for following edit', { seriesId: series.id, occurrenceDate, newSeriesId: continued.id });
+  return [{ ...series, ...updatedSeries }, continued];
+};
+
+/**
+ * Deletes one occurrence ("this") or an occurrence and everything after it
+ * ("following") from a recurring task. Detached occurrences in the deleted
+ * range are removed as well.
+ *
+ * @param overrides - Detached occurrences of the series (see getOccurrenceOverrides)
+ * @returns The remaining series, or null when the whole series was deleted
+ */
+export const deleteRecurringTask = async (
+  series: Task,
+  occurrenceDate: string,
+  scope: RecurrenceScope,
+  useSupabase = false,
+  overrides: Task[] = []
+): Promise<Task | null> => {
+  if (scope === 'this') {
+    const exdates = addUnique(series.recurrence_exdates, occurrenceDate);
+    const updated = await updateTask(series.id, { recurrence_exdates: exdates }, useSupabase);
+    return { ...series, ...updated, recurrence_exdates: exdates };
+  }
+
+  const anchor = getTaskAnchorDate(series) || occurrenceDate;
+  const split = splitRecurrenceRule(series.recurrence_rule || '', anchor, occurrenceDate);
+
+  for (const override of overrides) {
+    if (override.recurrence_date && override.recurrence_date >= occurrenceDate) {
+      await deleteTask(override.id, useSupabase);
+    }
+  }
+
+  if (!split.before) {
+    await deleteTask(series.id, useSupabase);
+    return null;
+  }
+
+  const changes: Partial<TaskUpdate> = {
+    recurrence_rule: split.before,
+    recurrence_exdates: (series.recurrence_exdates || []).filter(date => date < occurrenceDate),
+    completed_occurrences: (series.completed_occurrences || []).filter(date => date < occurrenceDate),
+  };
+  const updated = await updateTask(series.id, changes, useSupabase);
+  return { ...series, ...updated, ...changes };
+};
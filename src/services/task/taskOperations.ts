@@ -12,6 +12,7 @@ import { errorHandler } from "../../utils/errorHandler";
 import { getLocalData, saveLocalData } from "../../utils/storageHelpers";
 import { generateUniqueId } from "../../utils/idHelpers";
 import { STORAGE_KEYS } from '../../types/database';
+import { upsertOfflineFirst, deleteOfflineFirst } from '../sync';
 
 const TASKS_KEY = STORAGE_KEYS.TASKS;
 
@@ -61,7 +62,7 @@ export const getTasks = async (userId?: string, useSupabase = false): Promise<Ta
   return getLocalData(TASKS_KEY, []);
 };
 
-export const addTask = async (
+const addTaskRecord = async (
   task: Partial<TaskInsert>, 
   useSupabase = false, 
   providedUser: User | null = null
@@ -163,6 +164,11 @@ export const addTask = async (
         endTime: taskData.endTime,
         priority: taskData.priority,
         canvas_uid: (task.canvas_uid && String(task.canvas_uid).trim() !== "") ? String(task.canvas_uid) : undefined,
+        recurrence_rule: taskData.recurrence_rule || undefined,
+        recurrence_exdates: taskData.recurrence_exdates || undefined,
+        completed_occurrences: taskData.completed_occurrences || undefined,
+        recurrence_parent_id: taskData.recurrence_parent_id || undefined,
+        recurrence_date: taskData.recurrence_date || undefined,
         created_at: taskData.created_at,
         updated_at: taskData.updated_at,
       };
@@ -266,6 +272,11 @@ export const addTask = async (
         endTime: taskWithTimestamp.endTime,
         priority: taskWithTimestamp.priority,
         canvas_uid: (task.canvas_uid && String(task.canvas_uid).trim() !== "") ? String(task.canvas_uid) : undefined,
+        recurrence_rule: taskWithTimestamp.recurrence_rule || undefined,
+        recurrence_exdates: taskWithTimestamp.recurrence_exdates || undefined,
+        completed_occurrences: taskWithTimestamp.completed_occurrences || undefined,
+        recurrence_parent_id: taskWithTimestamp.recurrence_parent_id || undefined,
+        recurrence_date: taskWithTimestamp.recurrence_date || undefined,
         created_at: taskWithTimestamp.created_at || new Date().toISOString(),
         updated_at: taskWithTimestamp.updated_at,
       };
@@ -312,7 +323,18 @@ export const addTask = async (
   }
 };
 
-export const updateTask = async (
+/**
+ * Adds a task. Signed-in users without a connection get the task saved
+ * locally and queued for the next sync.
+ */
+export const addTask = async (
+  task: Partial<TaskInsert>,
+  useSupabase = false,
+  providedUser: User | null = null
+): Promise<Task> =>
+  (await upsertOfflineFirst('tasks', useSupabase, remote => addTaskRecord(task, remote, providedUser))).result;
+
+const updateTaskRecord = async (
   taskId: string, 
   updatedTask: Partial<TaskUpdate>, 
   useSupabase = false
@@ -377,7 +399,20 @@ export const updateTask = async (
   return { id: taskId, ...taskToUpdate } as Task;
 };
 
-export const deleteTask = async (taskId: string, useSupabase = false): Promise<boolean> => {
+/**
+ * Updates a task, queuing the changed fields for the next sync when offline
+ */
+export const updateTask = async (
+  taskId: string,
+  updatedTask: Partial<TaskUpdate>,
+  useSupabase = false
+): Promise<Task> =>
+  (await upsertOfflineFirst('tasks', useSupabase, remote => updateTaskRecord(taskId, updatedTask, remote), {
+    recordId: taskId,
+    changes: updatedTask
+  })).result;
+
+const deleteTaskRecord = async (taskId: string, useSupabase = false): Promise<boolean> => {
   logger.debug('[deleteTask] Starting task deletion', { taskId, useSupabase });
   
   if (useSupabase) {
@@ -446,4 +481,10 @@ export const deleteTask = async (taskId: string, useSupabase = false): Promise<b
   }
 
   return true;
-};
\ No newline at end of file
+};
+
+/**
+ * Deletes a task, queuing the delete for the next sync when offline
+ */
+export const deleteTask = async (taskId: string, useSupabase = false): Promise<boolean> =>
+  (await deleteOfflineFirst('tasks', taskId, useSupabase, remote => deleteTaskRecord(taskId, remote))).result;
@@ -7,6 +7,7 @@ import {
   deleteTask as deleteTaskFromData 
 } from "./task/taskOperations";
 import { logger } from "../utils/logger";
+import { createSyncedRealtimeCache, type RealtimeCache, type RealtimeChange, type RealtimeTransport } from "./realtime";
 
 // Type for task change listeners
 type TaskChangeListener = (tasks: Task[]) => void;
@@ -27,6 +28,9 @@ interface TaskServiceInterface {
   updateTask(taskId: string, updatedTask: TaskUpdate, useSupabase?: boolean): Promise<Task | null>;
   deleteTask(taskId: string, useSupabase?: boolean): Promise<boolean>;
   refreshTasks(userId?: string, useSupabase?: boolean): Promise<Task[]>;
+  startRealtime(userId: string, transport?: RealtimeTransport): void;
+  stopRealtime(): void;
+  applyRemoteChange(change: RealtimeChange): void;
   reset(): void;
 }
 
@@ -36,11 +40,20 @@ class TaskService implements TaskServiceInterface {
   public listeners: Set<TaskChangeListener>;
   public tasks: Task[];
   public isInitialized: boolean;
+  private realtime: RealtimeCache<Task>;
 
   constructor() {
     this.listeners = new Set();
     this.tasks = [];
     this.isInitialized = false;
+    this.realtime = createSyncedRealtimeCache({
+      table: 'tasks',
+      getItems: () => this.tasks,
+      setItems: tasks => {
+        this.tasks = tasks;
+        this.notifyListeners();
+      },
+    });
   }
 
   // Subscribe to task changes
@@ -90,8 +103,7 @@ class TaskService implements TaskServiceInterface {
     try {
       const newTask = await addTaskToData(task, useSupabase, providedUser);
       if (newTask) {
-        this.tasks = [...this.tasks, newTask];
-        this.notifyListeners();
+        this.realtime.addItem(newTask);
       }
       return newTask;
     } catch (error) {
@@ -105,8 +117,9 @@ class TaskService implements TaskServiceInterface {
     try {
       const updated = await updateTaskInData(taskId, updatedTask, useSupabase);
       if (updated) {
+        // Local updates only return the changed fields
         this.tasks = this.tasks.map(task => 
-          task.id === taskId ? updated : task
+          task.id === taskId ? { ...task, ...updated } : task
         );
         this.notifyListeners();
       }
@@ -145,8 +158,25 @@ class TaskService implements TaskServiceInterface {
     }
   }
 
+  // Keep the cache in step with changes made on other devices
+  startRealtime(userId: string, transport?: RealtimeTransport): void {
+    this.realtime.start(userId, () => {
+      this.refreshTasks(userId, true);
+    }, transport);
+  }
+
+  stopRealtime(): void {
+    this.realtime.stop();
+  }
+
+  // Patch the cache with a task change from the server
+  applyRemoteChange(change: RealtimeChange): void {
+    this.realtime.applyChange(change);
+  }
+
   // Reset service (clear data and listeners)
   reset(): void {
+    this.stopRealtime();
     this.tasks = [];
     this.isInitialized = false;
     this.notifyListeners();
@@ -9,6 +9,7 @@ import { logger } from "../../utils/logger";
 import { getLocalData, saveLocalData } from "../../utils/storageHelpers";
 import { generateUniqueId } from "../../utils/idHelpers";
 import { STORAGE_KEYS } from '../../types/database';
+import { upsertOfflineFirst, deleteOfflineFirst } from '../sync';
 
 const TASK_TYPES_KEY = STORAGE_KEYS.TASK_TYPES;
 
@@ -51,7 +52,7 @@ export const getTaskTypes = async (userId?: string, useSupabase = false): Promis
   return getLocalData<TaskType[]>(TASK_TYPES_KEY, []);
 };
 
-export const addTaskType = async (taskType: Partial<TaskTypeInsert>, useSupabase = false): Promise<TaskType | null> => {
+const addTaskTypeRecord = async (taskType: Partial<TaskTypeInsert>, useSupabase = false): Promise<TaskType | null> => {
   try {
     const { completedColor, ...dbTaskType } = taskType as Partial<TaskTypeInsert> & { completedColor?: string };
     
@@ -115,7 +116,14 @@ export const addTaskType = async (taskType: Partial<TaskTypeInsert>, useSupabase
   }
 };
 
-export const updateTaskType = async (
+/**
+ * Adds a task type. Signed-in users without a connection get the type saved
+ * locally and queued for the next sync.
+ */
+export const addTaskType = async (taskType: Partial<TaskTypeInsert>, useSupabase = false): Promise<TaskType | null> =>
+  (await upsertOfflineFirst('task_types', useSupabase, remote => addTaskTypeRecord(taskType, remote))).result;
+
+const updateTaskTypeRecord = async (
   typeId: string,
   updatedType: Partial<TaskTypeUpdate>,
   useSupabase = false
@@ -166,7 +174,20 @@ export const updateTaskType = async (
   }
 };
 
-export const deleteTaskType = async (typeId: string, useSupabase = false): Promise<boolean> => {
+/**
+ * Updates a task type, queuing the changed fields for the next sync when offline
+ */
+export const updateTaskType = async (
+  typeId: string,
+  updatedType: Partial<TaskTypeUpdate>,
+  useSupabase = false
+): Promise<TaskType> =>
+  (await upsertOfflineFirst('task_types', useSupabase, remote => updateTaskTypeRecord(typeId, updatedType, remote), {
+    recordId: typeId,
+    changes: updatedType
+  })).result;
+
+const deleteTaskTypeRecord = async (typeId: string, useSupabase = false): Promise<boolean> => {
   if (useSupabase) {
     try {
       const { error } = await supabase
@@ -192,4 +213,10 @@ export const deleteTaskType = async (typeId: string, useSupabase = false): Promi
   }
 
   return true;
-};
\ No newline at end of file
+};
+
+/**
+ * Deletes a task type, queuing the delete for the next sync when offline
+ */
+export const deleteTaskType = async (typeId: string, useSupabase = false): Promise<boolean> =>
+  (await deleteOfflineFirst('task_types', typeId, useSupabase, remote => deleteTaskTypeRecord(typeId, remote))).result;
@@ -6,6 +6,7 @@ import {
   deleteTaskType as deleteTaskTypeFromData 
 } from "./taskType/taskTypeOperations";
 import { logger } from "../utils/logger";
+import { createSyncedRealtimeCache, type RealtimeCache, type RealtimeChange, type RealtimeTransport } from "./realtime";
 
 // Type for task type change listeners
 type TaskTypeChangeListener = (taskTypes: TaskType[]) => void;
@@ -26,6 +27,9 @@ interface TaskTypeServiceInterface {
   updateTaskType(taskTypeId: string, updatedTaskType: TaskTypeUpdate, useSupabase?: boolean): Promise<TaskType | null>;
   deleteTaskType(taskTypeId: string, useSupabase?: boolean): Promise<boolean>;
   refreshTaskTypes(userId?: string, useSupabase?: boolean): Promise<TaskType[]>;
+  startRealtime(userId: string, transport?: RealtimeTransport): void;
+  stopRealtime(): void;
+  applyRemoteChange(change: RealtimeChange): void;
   reset(): void;
 }
 
@@ -35,11 +39,20 @@ class TaskTypeService implements TaskTypeServiceInterface {
   public listeners: Set<TaskTypeChangeListener>;
   public taskTypes: TaskType[];
   public isInitialized: boolean;
+  private realtime: RealtimeCache<TaskType>;
 
   constructor() {
     this.listeners = new Set();
     this.taskTypes = [];
     this.isInitialized = false;
+    this.realtime = createSyncedRealtimeCache({
+      table: 'task_types',
+      getItems: () => this.taskTypes,
+      setItems: taskTypes => {
+        this.taskTypes = taskTypes;
+        this.notifyListeners();
+      },
+    });
   }
 
   // Subscribe to task type changes
@@ -89,8 +102,7 @@ class TaskTypeService implements TaskTypeServiceInterface {
     try {
       const newTaskType = await addTaskTypeToData(taskType, useSupabase);
       if (newTaskType) {
-        this.taskTypes = [...this.taskTypes, newTaskType];
-        this.notifyListeners();
+        this.realtime.addItem(newTaskType);
       }
       return newTaskType;
     } catch (error) {
@@ -144,8 +156,25 @@ class TaskTypeService implements TaskTypeServiceInterface {
     }
   }
 
+  // Keep the cache in step with changes made on other devices
+  startRealtime(userId: string, transport?: RealtimeTransport): void {
+    this.realtime.start(userId, () => {
+      this.refreshTaskTypes(userId, true);
+    }, transport);
+  }
+
+  stopRealtime(): void {
+    this.realtime.stop();
+  }
+
+  // Patch the cache with a task type change from the server
+  applyRemoteChange(change: RealtimeChange): void {
+    this.realtime.applyChange(change);
+  }
+
   // Reset service (clear data and listeners)
   reset(): void {
+    this.stopRealtime();
     this.taskTypes = [];
     this.isInitialized = false;
     this.notifyListeners();
@@ -41,6 +41,7 @@ export interface FileFingerprintCache {
   // Cached task generation results
   generatedTasks?: CachedTaskData[];
   taskGenerationMetadata?: TaskGenerationMetadata;
+  stageOutputs?: StageOutputs;
   
   // Cached embedding information
   embeddingChunks?: number;
@@ -69,6 +70,9 @@ export interface CachedTaskData {
   estimatedDuration?: number;
 }
 
+// Outputs of the syllabus pipeline's cached stages, by stage cache key
+export type StageOutputs = Record<string, unknown>;
+
 // Task generation metadata
 export interface TaskGenerationMetadata {
   averageConfidence: number;
@@ -142,6 +146,7 @@ export interface FileFingerprintRow {
   extraction_method?: string;
   generated_tasks?: any; // JSONB
   task_generation_metadata?: any; // JSONB
+  stage_outputs?: any; // JSONB
   
   // Embedding info
   embedding_chunks?: number;
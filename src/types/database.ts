@@ -54,10 +54,37 @@ export type GpaSettingsUpdate = Database['public']['Tables']['gpa_settings']['Up
 export type ClassGpaInfo = Database['public']['Tables']['class_gpa_info']['Row'];
 export type ClassGpaInfoInsert = Database['public']['Tables']['class_gpa_info']['Insert'];
 export type ClassGpaInfoUpdate = Database['public']['Tables']['class_gpa_info']['Update'];
+export type GradingMethod = NonNullable<ClassGpaInfo['grading_method']>;
+
+export type TransferCredit = Database['public']['Tables']['transfer_credits']['Row'];
+export type TransferCreditInsert = Database['public']['Tables']['transfer_credits']['Insert'];
+export type TransferCreditUpdate = Database['public']['Tables']['transfer_credits']['Update'];
 
 export type StudySession = Database['public']['Tables']['study_sessions']['Row'];
 export type StudySessionInsert = Database['public']['Tables']['study_sessions']['Insert'];
 export type StudySessionUpdate = Database['public']['Tables']['study_sessions']['Update'];
+export type StudySessionSegment = Database['public']['Tables']['study_session_segments']['Row'];
+export type StudySessionSegmentInsert = Database['public']['Tables']['study_session_segments']['Insert'];
+export type StudySessionSegmentUpdate = Database['public']['Tables']['study_session_segments']['Update'];
+
+export type CalendarFeedToken = Database['public']['Tables']['calendar_feed_tokens']['Row'];
+export type CalendarFeedTokenInsert = Database['public']['Tables']['calendar_feed_tokens']['Insert'];
+export type CalendarFeedTokenUpdate = Database['public']['Tables']['calendar_feed_tokens']['Update'];
+
+export type AppNotification = Database['public']['Tables']['notifications']['Row'];
+export type AppNotificationInsert = Database['public']['Tables']['notifications']['Insert'];
+export type AppNotificationUpdate = Database['public']['Tables']['notifications']['Update'];
+export type AppNotificationKind = AppNotification['kind'];
+
+export type PushSubscriptionRecord = Database['public']['Tables']['push_subscriptions']['Row'];
+export type PushSubscriptionInsert = Database['public']['Tables']['push_subscriptions']['Insert'];
+
+export type StudyConcept = Database['public']['Tables']['study_concepts']['Row'];
+export type StudyConceptInsert = Database['public']['Tables']['study_concepts']['Insert'];
+export type StudyConceptUpdate = Database['public']['Tables']['study_concepts']['Update'];
+
+export type ConceptReview = Database['public']['Tables']['concept_reviews']['Row'];
+export type ConceptReviewInsert = Database['public']['Tables']['concept_reviews']['Insert'];
 
 // Extended types that include joined data
 export interface ClassWithRelations extends Omit<Class, 'istaskclass'> {
@@ -77,6 +104,9 @@ export interface TaskWithMeta extends Task {
   dueTime?: string;
   dueDate?: string;
   date?: string;
+  // Set on occurrences expanded from a recurring task
+  seriesId?: string;
+  occurrenceDate?: string;
 }
 
 // Extended Assignment interface with relations
@@ -156,16 +186,26 @@ export interface GradeTrend {
 
 // Study session analytics interfaces
 export interface StudyAnalytics {
-  totalStudyTime: number;
+  totalStudyTime: number; // Minutes; focus timer sessions count only their focus blocks
   averageSessionDuration: number;
   sessionsThisWeek: number;
   retentionRate: number;
   effectivenessScore: number;
+  totalFocusTime: number; // Minutes spent in focus blocks
+  focusBlocksCompleted: number;
   subjectBreakdown: SubjectStudyData[];
+  taskBreakdown: TaskStudyData[];
   weeklyTrends: StudyTrend[];
   recommendations: StudyRecommendation[];
 }
 
+export interface TaskStudyData {
+  taskId: string;
+  totalTime: number;
+  focusBlocks: number;
+  lastStudied: string;
+}
+
 export interface SubjectStudyData {
   subject: string;
   totalTime: number;
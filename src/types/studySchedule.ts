@@ -59,6 +59,7 @@ export interface ClassWorkload {
   // Assignment analysis
   pending_assignments: number;
   total_estimated_hours: number;
+  estimate_adjustment?: number; // Factor learned from tracked time, 1 without history
   average_assignment_difficulty: number; // 1-5 scale
   
   // Time allocation
@@ -85,6 +86,7 @@ export interface StudySchedule {
   
   // Schedule data
   study_sessions: StudySession[];
+  unmet_constraints?: UnmetConstraint[]; // Study time that couldn't be scheduled
   
   // Performance tracking
   adherence_score: number; // 0-1, how well user followed schedule
@@ -107,7 +109,9 @@ export interface StudySession {
   // Content details
   class_id: string;
   task_ids: string[]; // Related tasks for this session
+  concept_ids?: string[]; // Concepts reviewed in a spaced-repetition session
   session_type: StudySessionType;
+  prep_phase?: ExamPrepPhase; // Part of an exam prep plan
   focus_area: string; // What to focus on during this session
   
   // AI recommendations
@@ -131,6 +135,28 @@ export interface StudySession {
   updated_at: string;
 }
 
+export type UnmetConstraintKind = 'deadline' | 'daily_limit' | 'no_study_time';
+
+// Study time the scheduler could not place, and which constraint stood in the way
+export interface UnmetConstraint {
+  kind: UnmetConstraintKind;
+  demandId: string;
+  classId: string;
+  taskIds: string[];
+  unscheduledMinutes: number;
+  reason: string;
+}
+
+export type ScheduleChangeKind = 'moved' | 'added' | 'removed';
+
+// One difference between a schedule and its repaired version
+export interface ScheduleChange {
+  kind: ScheduleChangeKind;
+  session: StudySession; // The new session, or the removed one
+  previous?: StudySession; // Where a moved session was
+  reason?: string; // Why a session was moved or removed
+}
+
 export type StudySessionType = 
   | 'new_material'     // Learning new concepts
   | 'review'           // Reviewing previously learned material
@@ -139,6 +165,11 @@ export type StudySessionType =
   | 'project_work'     // Working on projects
   | 'break_recovery';  // Light review after breaks
 
+export type ExamPrepPhase =
+  | 'review'           // Going back over a topic
+  | 'practice'         // Practice problems on a topic
+  | 'mock_exam';       // A full practice exam under exam conditions
+
 export interface ScheduleOptimizationRequest {
   user_id: string;
   
@@ -231,6 +262,11 @@ export interface WorkloadAnalysisResponse {
   };
 }
 
+export interface ScheduleRepairResponse {
+  schedule: StudySchedule;
+  changes: ScheduleChange[];
+}
+
 // UI State Types
 export interface StudyScheduleUIState {
   selectedWeek: Date;
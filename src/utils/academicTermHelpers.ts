@@ -124,6 +124,20 @@ export const getTermDateRange = (
   return { startDate, endDate };
 };
 
+/**
+ * Get the first day of classes for a term: the first Monday of its start
+ * month. Syllabi that only say "Week 5" are read against this date.
+ */
+export const getTermStartDate = (
+  term: AcademicTerm,
+  year: number,
+  academicSystem?: AcademicSystem
+): Date => {
+  const { startDate } = getTermDateRange(term, year, academicSystem);
+  const daysToMonday = (8 - startDate.getDay()) % 7;
+  return new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + daysToMonday);
+};
+
 /**
  * Convert between semester and quarter terms (approximate mapping)
  */
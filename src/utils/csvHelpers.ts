@@ -0,0 +1,197 @@
+// RFC 4180 CSV parsing with delimiter and text encoding detection
+//
+// Quoted fields may contain delimiters, doubled quotes and line breaks; rows
+// may end in CRLF, LF or CR. Spreadsheet exports from Excel often use ';' or
+// tabs and legacy encodings, so both are detected rather than assumed.
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CSVParseOptions {
+  delimiter?: CSVDelimiter; // Detected from the content when omitted
+}
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: CSVDelimiter;
+}
+
+const stripBOM = (text: string): string => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+const CANDIDATE_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+// Rows sampled when detecting the delimiter
+const DETECTION_SAMPLE_ROWS = 10;
+
+/**
+ * Splits CSV content into records. Fields are returned as written, without
+ * trimming, except that surrounding quotes are removed and doubled quotes
+ * inside them unescaped. Blank lines are skipped.
+ */
+export const parseCSV = (content: string, options: CSVParseOptions = {}): string[][] => {
+  const text = stripBOM(content);
+  const delimiter = options.delimiter || detectDelimiter(text);
+  const records: string[][] = [];
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRecord = () => {
+    const quoted = fieldWasQuoted;
+    endField();
+    // A line holding nothing but an unquoted empty field is a blank line
+    if (record.length > 1 || record[0] !== '' || quoted) {
+      records.push(record);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      fieldWasQuoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0 || fieldWasQuoted) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Picks the delimiter that splits the first rows into the most consistent
+ * number of columns, ignoring delimiters inside quoted fields
+ */
+export const detectDelimiter = (content: string): CSVDelimiter => {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = countDelimitersPerLine(content, delimiter, DETECTION_SAMPLE_ROWS);
+    if (counts.length === 0 || counts[0] === 0) return;
+
+    // Every sampled row should agree with the header's column count
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = counts[0] * (consistent / counts.length);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+const countDelimitersPerLine = (content: string, delimiter: string, maxLines: number): number[] => {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length && counts.length < maxLines; i++) {
+    const char = content[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      counts.push(count);
+      count = 0;
+    }
+  }
+  if (count > 0 && counts.length < maxLines) counts.push(count);
+
+  return counts;
+};
+
+/**
+ * Detects the text encoding of raw file bytes from their byte order mark,
+ * falling back to Windows-1252 when the bytes aren't valid UTF-8
+ */
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return isValidUTF8(bytes) ? 'utf-8' : 'windows-1252';
+};
+
+const isValidUTF8 = (bytes: Uint8Array): boolean => {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let continuation = 0;
+    if (byte <= 0x7f) continuation = 0;
+    else if (byte >= 0xc2 && byte <= 0xdf) continuation = 1;
+    else if (byte >= 0xe0 && byte <= 0xef) continuation = 2;
+    else if (byte >= 0xf0 && byte <= 0xf4) continuation = 3;
+    else return false;
+
+    for (let j = 1; j <= continuation; j++) {
+      if (i + j >= bytes.length || (bytes[i + j] & 0xc0) !== 0x80) return false;
+    }
+    i += continuation + 1;
+  }
+  return true;
+};
+
+/**
+ * Decodes raw CSV file bytes using the detected encoding
+ */
+export const decodeCSVBytes = (buffer: ArrayBuffer): { text: string; encoding: CSVEncoding } => {
+  const bytes = new Uint8Array(buffer);
+  const encoding = detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+  return { text: stripBOM(text), encoding };
+};
+
+/**
+ * Parses CSV content into a header row and data rows. Short rows are padded
+ * so every row has one cell per header.
+ */
+export const parseCSVTable = (content: string, options: CSVParseOptions = {}): CSVTable => {
+  const delimiter = options.delimiter || detectDelimiter(stripBOM(content));
+  const [headerRow = [], ...rows] = parseCSV(content, { delimiter });
+  const headers = headerRow.map(header => header.trim());
+
+  return {
+    headers,
+    rows: rows.map(row => row.length >= headers.length
+      ? row
+      : [...row, ...new Array(headers.length - row.length).fill('')]),
+    delimiter,
+  };
+};
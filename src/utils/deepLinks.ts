@@ -0,0 +1,56 @@
+// Links that open a task, class or exam prep plan inside the app, used by the
+// notification inbox, push notifications and quick filters
+// (`/?app=true&task=<id>`)
+
+export type DeepLinkTarget =
+  | { type: 'task'; id: string }
+  | { type: 'class'; id: string }
+  | { type: 'exam'; id: string }; // The prep plan of an exam task
+
+const DEEP_LINK_TYPES: DeepLinkTarget['type'][] = ['task', 'class', 'exam'];
+
+type DeepLinkListener = (target: DeepLinkTarget) => void;
+
+const deepLinkListeners = new Set<DeepLinkListener>();
+
+export const buildDeepLink = (target: DeepLinkTarget): string =>
+  `/?app=true&${target.type}=${encodeURIComponent(target.id)}`;
+
+/**
+ * Reads the target from a query string, by default the current URL's
+ */
+export const readDeepLink = (search: string = window.location.search): DeepLinkTarget | null => {
+  const params = new URLSearchParams(search);
+  const type = DEEP_LINK_TYPES.find(candidate => params.get(candidate));
+  return type ? { type, id: params.get(type)! } : null;
+};
+
+/**
+ * Subscribes to targets opened while the app is running
+ *
+ * @returns Function that removes the listener
+ */
+export const subscribeToDeepLinks = (listener: DeepLinkListener): (() => void) => {
+  deepLinkListeners.add(listener);
+  return () => deepLinkListeners.delete(listener);
+};
+
+/**
+ * Puts the target in the URL and tells the views that can show it
+ */
+export const openDeepLink = (target: DeepLinkTarget): void => {
+  window.history.pushState({}, '', buildDeepLink(target));
+  deepLinkListeners.forEach(listener => listener(target));
+};
+
+/**
+ * Removes the target from the URL once it has been shown, so a reload
+ * doesn't open it again
+ */
+export const clearDeepLink = (): void => {
+  const params = new URLSearchParams(window.location.search);
+  if (!DEEP_LINK_TYPES.some(type => params.has(type))) return;
+  DEEP_LINK_TYPES.forEach(type => params.delete(type));
+  const query = params.toString();
+  window.history.replaceState({}, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+};
@@ -0,0 +1,233 @@
+// Renders tasks as an RFC 5545 calendar. Shared by the ICS download and the
+// subscribable calendar feed, so it only depends on other pure helpers.
+import type { Task, Class, TaskType } from '../types/database';
+import { parseRRule, formatRRule } from './recurrenceHelpers';
+import {
+  getUserTimeZone,
+  getWallClockTime,
+  wallClockToDate,
+  type WallClockTime,
+} from './timezoneHelpers';
+import {
+  buildVTimezone,
+  escapeICSText,
+  formatICSDate,
+  formatICSDuration,
+  formatICSLocalDateTime,
+  formatICSUtcDateTime,
+  joinICSLines,
+} from './icsHelpers';
+import { shiftDateString } from './recurringTaskHelpers';
+
+export interface ICSCalendarOptions {
+  calendarName?: string;
+  timezone?: string; // IANA zone for event times; defaults to the device zone
+  sourceTimezone?: string; // Zone the stored task times were entered in; defaults to the device zone
+  floatingTimes?: boolean; // Emit times without a zone so they show the same wall-clock time everywhere
+  alarmMinutes?: number[]; // Reminders before each incomplete task; defaults to one day before
+}
+
+// How task wall-clock times are written into an ICS file
+interface ICSTimingContext {
+  timeZone: string;
+  sourceTimeZone: string;
+  floating: boolean;
+}
+
+// DTSTART/DTEND of one event, plus what recurrence lines need to match it
+interface ICSEventTiming {
+  lines: string[];
+  allDay: boolean;
+  startDate: string;
+  startTime?: string;
+}
+
+const DEFAULT_ICS_ALARM_MINUTES = [1440];
+const MAX_VTIMEZONE_YEARS = 10;
+
+// Converts a stored task date/time (entered in the source zone) to the export zone
+const toExportWallClock = (date: string, time: string, context: ICSTimingContext): WallClockTime => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wall: WallClockTime = { year, month, day, hour: hour || 0, minute: minute || 0, second: 0 };
+
+  if (context.floating || context.timeZone === context.sourceTimeZone) return wall;
+  return getWallClockTime(wallClockToDate(wall, context.sourceTimeZone), context.timeZone);
+};
+
+const formatDateTimeValue = (wall: WallClockTime, context: ICSTimingContext): string => {
+  if (!context.floating && context.timeZone === 'UTC') {
+    return formatICSUtcDateTime(new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute)));
+  }
+  return formatICSLocalDateTime(wall);
+};
+
+const formatDateTimeProperty = (name: string, walls: WallClockTime[], context: ICSTimingContext): string => {
+  const zoneParam = context.floating || context.timeZone === 'UTC' ? '' : `;TZID=${context.timeZone}`;
+  return `${name}${zoneParam}:${walls.map(wall => formatDateTimeValue(wall, context)).join(',')}`;
+};
+
+// DTSTART/DTEND lines for a task, or null when the task has no date
+const formatTiming = (task: Task, context: ICSTimingContext): ICSEventTiming | null => {
+  const allDay = (startDate: string, endDate: string): ICSEventTiming => ({
+    lines: [
+      `DTSTART;VALUE=DATE:${formatICSDate(startDate)}`,
+      `DTEND;VALUE=DATE:${formatICSDate(shiftDateString(endDate.slice(0, 10), 1))}`,
+    ],
+    allDay: true,
+    startDate,
+  });
+
+  if (task.isDuration && task.startDate) {
+    const endDate = task.endDate && task.endDate >= task.startDate ? task.endDate : task.startDate;
+    if (!task.startTime) return allDay(task.startDate, endDate);
+
+    const lines = [formatDateTimeProperty('DTSTART', [toExportWallClock(task.startDate, task.startTime, context)], context)];
+    if (task.endTime && `${endDate}T${task.endTime}` > `${task.startDate}T${task.startTime}`) {
+      lines.push(formatDateTimeProperty('DTEND', [toExportWallClock(endDate, task.endTime, context)], context));
+    } else {
+      lines.push(`DURATION:${formatICSDuration(60)}`);
+    }
+    return { lines, allDay: false, startDate: task.startDate, startTime: task.startTime };
+  }
+
+  const dueDate = task.dueDate || task.startDate || task.date;
+  if (!dueDate) return null;
+  if (!task.dueTime) return allDay(dueDate, dueDate);
+
+  // Deadlines are instants: an event without DTEND ends when it starts
+  return {
+    lines: [formatDateTimeProperty('DTSTART', [toExportWallClock(dueDate, task.dueTime, context)], context)],
+    allDay: false,
+    startDate: dueDate,
+    startTime: task.dueTime,
+  };
+};
+
+// RRULE and EXDATE lines for a repeating task. UNTIL and EXDATE follow the
+// value type of DTSTART: dates for all-day events, otherwise date-times
+// (UNTIL in UTC when the event has a TZID, as RFC 5545 requires).
+const formatRecurrence = (task: Task, timing: ICSEventTiming, context: ICSTimingContext): string[] => {
+  const rule = task.recurrence_rule ? parseRRule(task.recurrence_rule) : null;
+  if (!rule) return [];
+
+  const exdates = task.recurrence_exdates || [];
+  const startTime = timing.startTime;
+
+  if (timing.allDay || !startTime) {
+    const lines = [`RRULE:${formatRRule(rule, { dateOnly: true })}`];
+    if (exdates.length > 0) {
+      lines.push(`EXDATE;VALUE=DATE:${exdates.map(formatICSDate).join(',')}`);
+    }
+    return lines;
+  }
+
+  let until = rule.until;
+  if (until) {
+    // Task rules end on a date; the series runs through the end of that day
+    const [year, month, day] = until.toISOString().slice(0, 10).split('-').map(Number);
+    until = context.floating
+      ? new Date(Date.UTC(year, month - 1, day, 23, 59, 59))
+      : wallClockToDate({ year, month, day, hour: 23, minute: 59, second: 59 }, context.sourceTimeZone);
+  }
+
+  const lines = [`RRULE:${formatRRule({ ...rule, until }, { untilAsUtc: !context.floating })}`];
+  if (exdates.length > 0) {
+    lines.push(formatDateTimeProperty('EXDATE', exdates.map(date => toExportWallClock(date, startTime, context)), context));
+  }
+  return lines;
+};
+
+const formatDescription = (task: Task & { description?: string }, className?: string, typeName?: string): string =>
+  [
+    task.description,
+    className ? `Class: ${className}` : '',
+    typeName ? `Type: ${typeName}` : '',
+    task.priority ? `Priority: ${task.priority}` : '',
+    task.completed ? 'Status: Completed' : '',
+  ].filter(Boolean).join('\n');
+
+const formatAlarms = (task: Task, alarmMinutes: number[]): string[] =>
+  alarmMinutes.flatMap(minutes => [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeICSText(`Reminder: ${task.title}`)}`,
+    `TRIGGER:${formatICSDuration(-minutes)}`,
+    'END:VALARM',
+  ]);
+
+/**
+ * Builds an ICS document for a set of tasks.
+ *
+ * Timed tasks are written in the export zone with a generated VTIMEZONE (or as
+ * floating times), duration tasks get DTEND, and tasks without a time become
+ * all-day events. Tasks without any date are left out.
+ */
+export const buildCalendarICS = (
+  tasks: Task[],
+  classes: Class[],
+  taskTypes: TaskType[],
+  options: ICSCalendarOptions = {}
+): string => {
+  const calendarName = options.calendarName || 'ScheduleBud Academic Calendar';
+  const sourceTimeZone = options.sourceTimezone || getUserTimeZone();
+  const context: ICSTimingContext = {
+    timeZone: options.timezone || sourceTimeZone,
+    sourceTimeZone,
+    floating: Boolean(options.floatingTimes),
+  };
+  const alarmMinutes = options.alarmMinutes || DEFAULT_ICS_ALARM_MINUTES;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ScheduleBud//Academic Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+  ];
+  if (!context.floating) {
+    lines.push(`X-WR-TIMEZONE:${context.timeZone}`);
+  }
+
+  const events: string[] = [];
+  const years = new Set<number>();
+  let hasTimedEvents = false;
+
+  for (const task of tasks) {
+    const timing = formatTiming(task, context);
+    if (!timing) continue;
+
+    hasTimedEvents = hasTimedEvents || !timing.allDay;
+    years.add(parseInt(timing.startDate.slice(0, 4), 10));
+
+    const taskClass = classes.find(c => c.id === task.class);
+    const taskType = taskTypes.find(t => t.id === task.type);
+
+    events.push(
+      'BEGIN:VEVENT',
+      `UID:task-${task.id}@schedulebud.app`,
+      `DTSTAMP:${formatICSUtcDateTime(new Date(task.updated_at || task.created_at))}`,
+      ...timing.lines,
+      ...formatRecurrence(task, timing, context),
+      `SUMMARY:${escapeICSText(task.title)}`,
+      `DESCRIPTION:${escapeICSText(formatDescription(task, taskClass?.name, taskType?.name))}`,
+      ...(taskClass ? [`LOCATION:${escapeICSText(taskClass.name)}`] : []),
+      ...(taskType ? [`CATEGORIES:${escapeICSText(taskType.name)}`] : []),
+      `STATUS:${task.completed ? 'COMPLETED' : 'CONFIRMED'}`,
+      ...(task.completed ? [] : formatAlarms(task, alarmMinutes)),
+      'END:VEVENT'
+    );
+  }
+
+  // VTIMEZONE is only needed when some event references the zone by TZID
+  if (hasTimedEvents && !context.floating && context.timeZone !== 'UTC') {
+    const sortedYears = Array.from(years).sort((a, b) => a - b);
+    const fromYear = sortedYears[0];
+    const toYear = Math.min(sortedYears[sortedYears.length - 1], fromYear + MAX_VTIMEZONE_YEARS);
+    lines.push(...buildVTimezone(context.timeZone, fromYear, toYear));
+  }
+
+  lines.push(...events, 'END:VCALENDAR');
+  return joinICSLines(lines);
+};
@@ -0,0 +1,269 @@
+// RFC 5545 output helpers: text escaping, line folding, value formatting and
+// VTIMEZONE generation from the runtime's Intl time zone data
+import {
+  getTimeZoneOffsetMinutes,
+  getTimeZoneAbbreviation,
+  type WallClockTime,
+} from './timezoneHelpers';
+
+// A change of UTC offset in a time zone
+export interface TimeZoneTransition {
+  instant: Date;
+  offsetFrom: number; // Minutes east of UTC before the transition
+  offsetTo: number; // Minutes east of UTC after the transition
+  name: string;
+}
+
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 86400000;
+const MINUTE_MS = 60000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Escapes a TEXT property value (backslash, semicolon, comma and newlines)
+ */
+export const escapeICSText = (value: string | undefined | null): string => {
+  if (!value) return '';
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+/**
+ * Folds a content line into chunks of at most 75 octets, continuing with
+ * CRLF + space. Multi-byte UTF-8 characters are never split.
+ */
+export const foldICSLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts toward the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = utf8Length(char);
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Joins content lines into an ICS document body, folding each line
+ */
+export const joinICSLines = (lines: string[]): string =>
+  lines.map(foldICSLine).join('\r\n') + '\r\n';
+
+/**
+ * Formats a number of minutes as an ICS DURATION (e.g. 90 -> "PT1H30M", -1440 -> "-P1D")
+ */
+export const formatICSDuration = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '';
+  let remaining = Math.abs(Math.round(minutes));
+  if (remaining === 0) return 'PT0M';
+
+  const days = Math.floor(remaining / 1440);
+  remaining -= days * 1440;
+  const hours = Math.floor(remaining / 60);
+  const mins = remaining % 60;
+
+  let value = `${sign}P`;
+  if (days) value += `${days}D`;
+  if (hours || mins) {
+    value += 'T';
+    if (hours) value += `${hours}H`;
+    if (mins) value += `${mins}M`;
+  }
+  return value;
+};
+
+/**
+ * Formats a YYYY-MM-DD date as an ICS DATE value
+ */
+export const formatICSDate = (dateStr: string): string => dateStr.slice(0, 10).replace(/-/g, '');
+
+/**
+ * Formats wall-clock components as a local (floating or TZID) DATE-TIME value
+ */
+export const formatICSLocalDateTime = (wall: WallClockTime): string =>
+  `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+
+/**
+ * Formats an instant as a UTC DATE-TIME value
+ */
+export const formatICSUtcDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Formats a UTC offset in minutes as "+HHMM" / "-HHMM"
+ */
+export const formatUtcOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+// Narrows a transition down to the first minute at which the new offset applies
+const findTransitionInstant = (timeZone: string, fromMs: number, toMs: number, offsetFrom: number): number => {
+  let low = fromMs;
+  let high = toMs;
+  while (high - low > MINUTE_MS) {
+    const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (getTimeZoneOffsetMinutes(new Date(mid), timeZone) === offsetFrom) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+};
+
+/**
+ * Lists the UTC offset changes of a time zone during a calendar year
+ */
+export const findTimeZoneTransitions = (timeZone: string, year: number): TimeZoneTransition[] => {
+  const transitions: TimeZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previousMs = Date.UTC(year, 0, 1);
+  let previousOffset = getTimeZoneOffsetMinutes(new Date(previousMs), timeZone);
+
+  for (let ms = previousMs + DAY_MS; ms <= end; ms += DAY_MS) {
+    const offset = getTimeZoneOffsetMinutes(new Date(ms), timeZone);
+    if (offset !== previousOffset) {
+      const instant = new Date(findTransitionInstant(timeZone, previousMs, ms, previousOffset));
+      transitions.push({
+        instant,
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+        name: getTimeZoneAbbreviation(instant, timeZone),
+      });
+    }
+    previousMs = ms;
+    previousOffset = offset;
+  }
+
+  return transitions;
+};
+
+// Local wall-clock time at which a transition happens, in the offset before it
+const transitionWallClock = (transition: TimeZoneTransition): Date =>
+  new Date(transition.instant.getTime() + transition.offsetFrom * MINUTE_MS);
+
+const wallToComponents = (date: Date): WallClockTime => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth() + 1,
+  day: date.getUTCDate(),
+  hour: date.getUTCHours(),
+  minute: date.getUTCMinutes(),
+  second: 0,
+});
+
+// Describes a transition as "nth weekday of month at time", or null when the
+// transitions don't share one yearly pattern
+const findYearlyRule = (transitions: TimeZoneTransition[]): string | null => {
+  const patterns = transitions.map(transition => {
+    const wall = transitionWallClock(transition);
+    const day = wall.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+    return {
+      month: wall.getUTCMonth() + 1,
+      weekday: wall.getUTCDay(),
+      ordinal: Math.ceil(day / 7),
+      isLast: day + 7 > daysInMonth,
+      time: wall.getUTCHours() * 60 + wall.getUTCMinutes(),
+      offsets: `${transition.offsetFrom}/${transition.offsetTo}`,
+    };
+  });
+
+  const [first] = patterns;
+  const shared = patterns.every(pattern =>
+    pattern.month === first.month && pattern.weekday === first.weekday &&
+    pattern.time === first.time && pattern.offsets === first.offsets
+  );
+  if (!shared) return null;
+
+  // "Last Sunday" rules land on the 4th or 5th Sunday depending on the year
+  const ordinal = patterns.every(pattern => pattern.isLast)
+    ? -1
+    : patterns.every(pattern => pattern.ordinal === first.ordinal) ? first.ordinal : null;
+  if (ordinal === null) return null;
+
+  return `FREQ=YEARLY;BYMONTH=${first.month};BYDAY=${ordinal}${WEEKDAY_CODES[first.weekday]}`;
+};
+
+/**
+ * Builds a VTIMEZONE component for an IANA zone covering the given years.
+ *
+ * Transitions are read from the runtime's Intl data. When every year follows the
+ * same "nth weekday of month" pattern, one observance with a yearly RRULE is
+ * emitted per kind (so subscribed calendars stay correct in later years);
+ * otherwise each transition gets its own observance.
+ */
+export const buildVTimezone = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  const transitions: TimeZoneTransition[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    transitions.push(...findTimeZoneTransitions(timeZone, year));
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const probe = new Date(Date.UTC(fromYear, 0, 1));
+    const offset = formatUtcOffset(getTimeZoneOffsetMinutes(probe, timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZNAME:${getTimeZoneAbbreviation(probe, timeZone)}`,
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD'
+    );
+  } else {
+    const groups: Record<'DAYLIGHT' | 'STANDARD', TimeZoneTransition[]> = { DAYLIGHT: [], STANDARD: [] };
+    transitions.forEach(transition => {
+      groups[transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD'].push(transition);
+    });
+
+    (['STANDARD', 'DAYLIGHT'] as const).forEach(kind => {
+      const group = groups[kind];
+      if (group.length === 0) return;
+
+      const rule = findYearlyRule(group);
+      const observances = rule ? [group[0]] : group;
+      observances.forEach(transition => {
+        lines.push(
+          `BEGIN:${kind}`,
+          `DTSTART:${formatICSLocalDateTime(wallToComponents(transitionWallClock(transition)))}`,
+          ...(rule ? [`RRULE:${rule}`] : []),
+          `TZNAME:${transition.name}`,
+          `TZOFFSETFROM:${formatUtcOffset(transition.offsetFrom)}`,
+          `TZOFFSETTO:${formatUtcOffset(transition.offsetTo)}`,
+          `END:${kind}`
+        );
+      });
+    });
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
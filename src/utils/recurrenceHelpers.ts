@@ -0,0 +1,316 @@
+// RFC 5545 recurrence rule (RRULE) parsing, formatting and expansion
+//
+// Expansion works on "floating" wall-clock dates: Date objects whose UTC fields
+// hold the local wall-clock time. Callers convert occurrences to real instants
+// afterwards, which keeps daylight-saving transitions from shifting local times.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal?: number; // e.g. 2 for "2TU", -1 for "-1FR"
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date; // Floating wall-clock date, inclusive
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+export interface RecurrenceExpansionOptions {
+  windowStart?: Date;
+  windowEnd?: Date;
+  maxOccurrences?: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 86400000;
+const MAX_ITERATIONS = 10000;
+const DEFAULT_MAX_OCCURRENCES = 1000;
+
+const parseNumberList = (value: string): number[] =>
+  value.split(',').map(part => parseInt(part, 10)).filter(num => !isNaN(num) && num !== 0);
+
+/**
+ * Parses an ICS date or date-time value ("20240315" or "20240315T100000[Z]")
+ * into a floating wall-clock date
+ */
+export const parseFloatingDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?Z?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+};
+
+/**
+ * Formats a floating wall-clock date as an ICS value
+ */
+export const formatFloatingDate = (date: Date, dateOnly = false): string => {
+  const pad = (num: number) => String(num).padStart(2, '0');
+  const datePart = `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+  if (dateOnly) return datePart;
+  return `${datePart}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+};
+
+/**
+ * Parses an RRULE value such as "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20241213T235959Z"
+ *
+ * @returns Parsed rule, or null when the rule is missing a supported FREQ
+ */
+export const parseRRule = (value: string): RecurrenceRule | null => {
+  const rule: Partial<RecurrenceRule> = { interval: 1, weekStart: 1 };
+  const body = value.trim().replace(/^RRULE:/i, '');
+
+  for (const part of body.split(';')) {
+    const [rawKey, rawValue] = part.split('=');
+    if (!rawKey || rawValue === undefined) continue;
+    const key = rawKey.trim().toUpperCase();
+    const val = rawValue.trim().toUpperCase();
+
+    switch (key) {
+    case 'FREQ':
+      if (['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(val)) {
+        rule.freq = val as RecurrenceFrequency;
+      }
+      break;
+    case 'INTERVAL':
+      rule.interval = Math.max(1, parseInt(val, 10) || 1);
+      break;
+    case 'COUNT':
+      rule.count = Math.max(0, parseInt(val, 10) || 0);
+      break;
+    case 'UNTIL':
+      rule.until = parseFloatingDate(val) || undefined;
+      break;
+    case 'BYDAY':
+      rule.byDay = val.split(',').map((token): RecurrenceWeekday | null => {
+        const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        if (!match) return null;
+        return {
+          weekday: WEEKDAY_CODES.indexOf(match[2]),
+          ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+        };
+      }).filter((day): day is RecurrenceWeekday => day !== null);
+      break;
+    case 'BYMONTHDAY':
+      rule.byMonthDay = parseNumberList(val);
+      break;
+    case 'BYMONTH':
+      rule.byMonth = parseNumberList(val).filter(month => month >= 1 && month <= 12);
+      break;
+    case 'BYSETPOS':
+      rule.bySetPos = parseNumberList(val);
+      break;
+    case 'WKST': {
+      const weekStart = WEEKDAY_CODES.indexOf(val);
+      if (weekStart >= 0) rule.weekStart = weekStart;
+      break;
+    }
+    default:
+      // BYHOUR, BYMINUTE, BYWEEKNO, BYYEARDAY etc. are not used by academic feeds
+      break;
+    }
+  }
+
+  return rule.freq ? (rule as RecurrenceRule) : null;
+};
+
+/**
+ * Serializes a rule back to an RRULE value (without the "RRULE:" prefix)
+ *
+ * @param untilAsUtc - Emit UNTIL as a UTC date-time instead of a floating value
+ */
+export const formatRRule = (rule: RecurrenceRule, options: { dateOnly?: boolean; untilAsUtc?: boolean } = {}): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${formatFloatingDate(rule.until, options.dateOnly)}${options.untilAsUtc && !options.dateOnly ? 'Z' : ''}`);
+  }
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+};
+
+const withTime = (year: number, month: number, day: number, start: Date): Date =>
+  new Date(Date.UTC(year, month, day, start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds()));
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const applySetPos = (candidates: Date[], bySetPos?: number[]): Date[] => {
+  if (!bySetPos?.length) return candidates;
+  const selected: Date[] = [];
+  for (const pos of bySetPos) {
+    const index = pos > 0 ? pos - 1 : candidates.length + pos;
+    if (index >= 0 && index < candidates.length) selected.push(candidates[index]);
+  }
+  return selected.sort((a, b) => a.getTime() - b.getTime());
+};
+
+// Days within one month matching BYMONTHDAY / BYDAY for MONTHLY and YEARLY rules
+const expandMonth = (year: number, month: number, rule: RecurrenceRule, start: Date): Date[] => {
+  const total = daysInMonth(year, month);
+  let days: number[] = [];
+
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map(day => (day > 0 ? day : total + day + 1))
+      .filter(day => day >= 1 && day <= total);
+  }
+
+  if (rule.byDay?.length) {
+    const weekdayDays: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= total; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === undefined) {
+        weekdayDays.push(...matching);
+      } else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked !== undefined) weekdayDays.push(picked);
+      }
+    }
+    // BYMONTHDAY and BYDAY together intersect
+    days = rule.byMonthDay?.length ? days.filter(day => weekdayDays.includes(day)) : weekdayDays;
+  }
+
+  if (!rule.byMonthDay?.length && !rule.byDay?.length) {
+    const startDay = start.getUTCDate();
+    days = startDay <= total ? [startDay] : [];
+  }
+
+  const unique = Array.from(new Set(days)).sort((a, b) => a - b);
+  return applySetPos(unique.map(day => withTime(year, month, day, start)), rule.bySetPos);
+};
+
+// Candidate occurrences for one period of the rule (a day, week, month or year)
+const expandPeriod = (rule: RecurrenceRule, start: Date, periodIndex: number): Date[] => {
+  const step = periodIndex * rule.interval;
+
+  switch (rule.freq) {
+  case 'DAILY': {
+    const day = new Date(start.getTime() + step * DAY_MS);
+    if (rule.byMonth?.length && !rule.byMonth.includes(day.getUTCMonth() + 1)) return [];
+    if (rule.byMonthDay?.length) {
+      const total = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+      const matches = rule.byMonthDay.some(md => (md > 0 ? md : total + md + 1) === day.getUTCDate());
+      if (!matches) return [];
+    }
+    if (rule.byDay?.length && !rule.byDay.some(d => d.weekday === day.getUTCDay())) return [];
+    return [day];
+  }
+  case 'WEEKLY': {
+    const offsetFromWeekStart = (start.getUTCDay() - rule.weekStart + 7) % 7;
+    const weekStartDate = new Date(start.getTime() - offsetFromWeekStart * DAY_MS + step * 7 * DAY_MS);
+    const weekdays = rule.byDay?.length ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+    const candidates = Array.from(new Set(weekdays))
+      .map(weekday => new Date(weekStartDate.getTime() + ((weekday - rule.weekStart + 7) % 7) * DAY_MS))
+      .filter(day => !rule.byMonth?.length || rule.byMonth.includes(day.getUTCMonth() + 1))
+      .sort((a, b) => a.getTime() - b.getTime());
+    return applySetPos(candidates, rule.bySetPos);
+  }
+  case 'MONTHLY': {
+    const monthIndex = start.getUTCMonth() + step;
+    const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+    const month = ((monthIndex % 12) + 12) % 12;
+    if (rule.byMonth?.length && !rule.byMonth.includes(month + 1)) return [];
+    return expandMonth(year, month, rule, start);
+  }
+  case 'YEARLY': {
+    const year = start.getUTCFullYear() + step;
+    const months = rule.byMonth?.length ? rule.byMonth.map(m => m - 1) : [start.getUTCMonth()];
+    const candidates: Date[] = [];
+    for (const month of [...months].sort((a, b) => a - b)) {
+      candidates.push(...expandMonth(year, month, { ...rule, bySetPos: undefined }, start));
+    }
+    return applySetPos(candidates, rule.bySetPos);
+  }
+  default:
+    return [];
+  }
+};
+
+/**
+ * Expands a recurrence rule into floating wall-clock occurrence dates.
+ *
+ * COUNT is counted from the series start even when the window begins later,
+ * and UNTIL is inclusive. The series start is always the first occurrence,
+ * matching how calendar clients treat a DTSTART that doesn't fit the rule.
+ *
+ * @param start - Floating DTSTART of the series
+ * @param rule - Parsed recurrence rule
+ * @param options - Window bounds (floating) and a safety cap on results
+ * @returns Occurrences inside the window, in chronological order
+ */
+export const expandRecurrence = (
+  start: Date,
+  rule: RecurrenceRule,
+  options: RecurrenceExpansionOptions = {}
+): Date[] => {
+  const { windowStart, windowEnd, maxOccurrences = DEFAULT_MAX_OCCURRENCES } = options;
+  const results: Date[] = [];
+  let generated = 0;
+
+  const accept = (occurrence: Date): boolean => {
+    if (rule.until && occurrence.getTime() > rule.until.getTime()) return false;
+    if (rule.count !== undefined && generated >= rule.count) return false;
+    generated++;
+    if ((!windowStart || occurrence >= windowStart) && (!windowEnd || occurrence <= windowEnd)) {
+      results.push(occurrence);
+    }
+    return true;
+  };
+
+  if (!accept(start)) return results;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const candidates = expandPeriod(rule, start, period);
+    for (const candidate of candidates) {
+      if (candidate.getTime() <= start.getTime()) continue;
+      if (!accept(candidate)) return results;
+      if (results.length >= maxOccurrences) return results;
+    }
+
+    // Stop once the period itself has moved past the window or UNTIL
+    const periodAnchor = candidates[0] || expandPeriodAnchor(rule, start, period);
+    if (windowEnd && periodAnchor > windowEnd) break;
+    if (rule.until && periodAnchor > rule.until) break;
+  }
+
+  return results;
+};
+
+// Approximate start of a period, used only to decide when to stop iterating
+const expandPeriodAnchor = (rule: RecurrenceRule, start: Date, periodIndex: number): Date => {
+  const step = periodIndex * rule.interval;
+  switch (rule.freq) {
+  case 'DAILY':
+    return new Date(start.getTime() + step * DAY_MS);
+  case 'WEEKLY':
+    return new Date(start.getTime() + step * 7 * DAY_MS);
+  case 'MONTHLY':
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, 1));
+  case 'YEARLY':
+  default:
+    return new Date(Date.UTC(start.getUTCFullYear() + step, 0, 1));
+  }
+};
+
+/**
+ * Returns the RRULE weekday code for a weekday index (0 = Sunday)
+ */
+export const getWeekdayCode = (weekday: number): string => WEEKDAY_CODES[weekday];
@@ -0,0 +1,228 @@
+// Repeat rules for tasks: conversion between the task form and stored RRULEs,
+// and expansion of recurring tasks into calendar occurrences
+import type { Task, TaskWithMeta } from '../types/database';
+import {
+  parseRRule,
+  formatRRule,
+  expandRecurrence,
+  type RecurrenceRule,
+} from './recurrenceHelpers';
+
+export type RecurrenceScope = 'this' | 'following';
+
+export type RepeatFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type RepeatEndType = 'never' | 'until' | 'count';
+
+// Repeat options as edited in the task form
+export interface TaskRepeatSettings {
+  frequency: RepeatFrequency;
+  interval: number;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday, weekly only
+  endType: RepeatEndType;
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+  skipDates: string[]; // YYYY-MM-DD
+}
+
+// Stored rule split at an occurrence, for "this and following" edits
+export interface RecurrenceSplit {
+  before: string | null; // Rule for the original series, null when nothing is left before the split
+  after: string; // Rule for the new series starting at the split date
+}
+
+const DAY_MS = 86400000;
+const MAX_OCCURRENCES_PER_TASK = 500;
+
+const FREQUENCY_TO_RRULE: Record<RepeatFrequency, RecurrenceRule['freq']> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+};
+
+// YYYY-MM-DD <-> floating midnight, so day arithmetic ignores the user's time zone
+const toFloatingDay = (dateStr: string): Date => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const fromFloatingDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Moves a YYYY-MM-DD date by a number of days
+ */
+export const shiftDateString = (dateStr: string, days: number): string =>
+  fromFloatingDay(new Date(toFloatingDay(dateStr).getTime() + days * DAY_MS));
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((toFloatingDay(to).getTime() - toFloatingDay(from).getTime()) / DAY_MS);
+
+export const isRecurringTask = (task: Pick<Task, 'recurrence_rule'>): boolean =>
+  Boolean(task.recurrence_rule);
+
+/**
+ * Date the series starts on: the start date for duration tasks, otherwise the due date
+ */
+export const getTaskAnchorDate = (task: Pick<Task, 'isDuration' | 'dueDate' | 'startDate' | 'date'>): string | undefined => {
+  const value = task.isDuration
+    ? task.startDate || task.dueDate || task.date
+    : task.dueDate || task.startDate || task.date;
+  return value ? value.slice(0, 10) : undefined;
+};
+
+/**
+ * Default repeat settings for a task starting on the given date (weekly on that weekday)
+ */
+export const createDefaultRepeatSettings = (anchorDate?: string): TaskRepeatSettings => ({
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: anchorDate ? [toFloatingDay(anchorDate).getUTCDay()] : [],
+  endType: 'never',
+  skipDates: [],
+});
+
+/**
+ * Converts form settings into the RRULE value stored on the task
+ *
+ * @param settings - Repeat options from the task form
+ * @param anchorDate - First date of the series (YYYY-MM-DD)
+ */
+export const buildRecurrenceRule = (settings: TaskRepeatSettings, anchorDate: string): string => {
+  const rule: RecurrenceRule = {
+    freq: FREQUENCY_TO_RRULE[settings.frequency],
+    interval: Math.max(1, Math.floor(settings.interval) || 1),
+    weekStart: 1,
+  };
+
+  if (settings.frequency === 'weekly') {
+    const weekdays = settings.weekdays.length > 0 ? settings.weekdays : [toFloatingDay(anchorDate).getUTCDay()];
+    rule.byDay = [...new Set(weekdays)].sort((a, b) => a - b).map(weekday => ({ weekday }));
+  }
+
+  if (settings.endType === 'until' && settings.until) {
+    rule.until = toFloatingDay(settings.until);
+  } else if (settings.endType === 'count' && settings.count) {
+    rule.count = Math.max(1, Math.floor(settings.count));
+  }
+
+  return formatRRule(rule, { dateOnly: true });
+};
+
+/**
+ * Reads a task's stored rule back into form settings
+ *
+ * @returns Settings, or null when the task doesn't repeat or its rule can't be edited in the form
+ */
+export const parseRepeatSettings = (task: Pick<Task, 'recurrence_rule' | 'recurrence_exdates'>): TaskRepeatSettings | null => {
+  if (!task.recurrence_rule) return null;
+  const rule = parseRRule(task.recurrence_rule);
+  if (!rule || rule.freq === 'YEARLY') return null;
+
+  const frequency = (Object.keys(FREQUENCY_TO_RRULE) as RepeatFrequency[])
+    .find(key => FREQUENCY_TO_RRULE[key] === rule.freq) || 'weekly';
+
+  return {
+    frequency,
+    interval: rule.interval,
+    weekdays: rule.byDay?.map(day => day.weekday) || [],
+    endType: rule.until ? 'until' : rule.count ? 'count' : 'never',
+    until: rule.until ? fromFloatingDay(rule.until) : undefined,
+    count: rule.count,
+    skipDates: [...(task.recurrence_exdates || [])].sort(),
+  };
+};
+
+/**
+ * Lists the occurrence dates of a recurring task (YYYY-MM-DD), skipped dates excluded
+ *
+ * @param rangeStart - First date to include (YYYY-MM-DD)
+ * @param rangeEnd - Last date to include (YYYY-MM-DD)
+ */
+export const getOccurrenceDates = (task: Task, rangeStart?: string, rangeEnd?: string): string[] => {
+  const anchor = getTaskAnchorDate(task);
+  const rule = task.recurrence_rule ? parseRRule(task.recurrence_rule) : null;
+  if (!anchor || !rule) return anchor ? [anchor] : [];
+
+  const skipped = new Set(task.recurrence_exdates || []);
+  return expandRecurrence(toFloatingDay(anchor), rule, {
+    windowStart: rangeStart ? toFloatingDay(rangeStart) : undefined,
+    windowEnd: rangeEnd ? toFloatingDay(rangeEnd) : undefined,
+    maxOccurrences: MAX_OCCURRENCES_PER_TASK,
+  })
+    .map(fromFloatingDay)
+    .filter(date => !skipped.has(date));
+};
+
+/**
+ * Builds the calendar entry for one occurrence of a recurring task. Dates are
+ * shifted by the distance from the series start, so multi-day duration tasks
+ * keep their length.
+ */
+export const createOccurrence = (task: Task, occurrenceDate: string): TaskWithMeta => {
+  const anchor = getTaskAnchorDate(task) || occurrenceDate;
+  const offset = daysBetween(anchor, occurrenceDate);
+  const shift = (value?: string): string | undefined => (value ? shiftDateString(value.slice(0, 10), offset) : value);
+
+  return {
+    ...task,
+    id: `${task.id}::${occurrenceDate}`,
+    dueDate: shift(task.dueDate),
+    startDate: shift(task.startDate),
+    endDate: shift(task.endDate),
+    date: shift(task.date),
+    completed: task.completed || (task.completed_occurrences || []).includes(occurrenceDate),
+    seriesId: task.id,
+    occurrenceDate,
+  };
+};
+
+/**
+ * Replaces recurring tasks with their occurrences inside a date range.
+ * Non-recurring tasks are passed through unchanged.
+ */
+export const expandRecurringTasks = (tasks: Task[], rangeStart: string, rangeEnd: string): TaskWithMeta[] => {
+  const expanded: TaskWithMeta[] = [];
+  for (const task of tasks) {
+    if (!isRecurringTask(task)) {
+      expanded.push(task);
+      continue;
+    }
+    getOccurrenceDates(task, rangeStart, rangeEnd).forEach(date => expanded.push(createOccurrence(task, date)));
+  }
+  return expanded;
+};
+
+/**
+ * Splits a series rule at an occurrence. The original series ends the day
+ * before, and the rest continues as a new series starting on the occurrence.
+ * COUNT is divided between the two so the total number of occurrences is kept.
+ */
+export const splitRecurrenceRule = (ruleValue: string, anchorDate: string, splitDate: string): RecurrenceSplit => {
+  const rule = parseRRule(ruleValue);
+  if (!rule) return { before: null, after: ruleValue };
+
+  const dayBefore = shiftDateString(splitDate, -1);
+  const occurrencesBefore = splitDate > anchorDate
+    ? expandRecurrence(toFloatingDay(anchorDate), rule, { windowEnd: toFloatingDay(dayBefore) }).length
+    : 0;
+
+  if (occurrencesBefore === 0) return { before: null, after: ruleValue };
+
+  if (rule.count !== undefined) {
+    return {
+      before: formatRRule({ ...rule, count: occurrencesBefore }, { dateOnly: true }),
+      after: formatRRule({ ...rule, count: Math.max(1, rule.count - occurrencesBefore) }, { dateOnly: true }),
+    };
+  }
+
+  return {
+    before: formatRRule({ ...rule, until: toFloatingDay(dayBefore) }, { dateOnly: true }),
+    after: formatRRule(rule, { dateOnly: true }),
+  };
+};
+
+/**
+ * Tasks that replace a single occurrence of the given series ("this one" edits)
+ */
+export const getOccurrenceOverrides = (tasks: Task[], seriesId: string): Task[] =>
+  tasks.filter(task => task.recurrence_parent_id === seriesId);
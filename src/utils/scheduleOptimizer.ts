@@ -4,6 +4,7 @@ import type {
   WorkloadAnalysis,
   ClassWorkload,
   OptimizationGoal,
+  ScheduleOptimizationRequest,
   StudySessionType,
   StudyTimePreference
 } from '../types/studySchedule';
@@ -11,6 +12,27 @@ import type { Task } from '../types/database';
 import { logger } from './logger';
 import { OptimizationCore } from './optimizationCore';
 import { OptimizationUtils } from './optimizationUtils';
+import { expandRecurringTasks } from './recurringTaskHelpers';
+import {
+  getBusyBlocks,
+  getTaskDeadline,
+  repairStudySchedule,
+  solveStudySchedule,
+  type BusyBlock,
+  type ScheduleRepair,
+  type ScheduleSolution,
+  type StudyDemand
+} from './scheduleSolver';
+
+type ConstrainedScheduleRequest = Pick<ScheduleOptimizationRequest, 'start_date' | 'end_date' | 'include_classes' | 'exclude_dates'>;
+
+export interface ConstrainedScheduleOptions {
+  estimateMinutes: (task: Task) => number; // Study time a task needs
+  isExam?: (task: Task) => boolean;
+  getDifficulty?: (task: Task) => number; // 1-5
+  getReviewDemands?: (startDate: string, endDate: string) => StudyDemand[]; // Spaced-repetition reviews
+  createdAt?: string;
+}
 
 /**
  * Advanced Study Schedule Optimization Algorithm
@@ -69,6 +91,115 @@ export class ScheduleOptimizer {
     return sessions;
   }
   
+  /**
+   * Generate a schedule that fits around the calendar: classes, events and
+   * exams already in it are busy time, and every open task due in the range
+   * gets its estimated study time before its deadline. Runs locally and
+   * deterministically; what can't be scheduled is reported with the reason.
+   */
+  static generateConstrainedSchedule(
+    request: ConstrainedScheduleRequest,
+    studyProfile: StudyProfile,
+    tasks: Task[],
+    options: ConstrainedScheduleOptions
+  ): ScheduleSolution {
+    const { demands, busy } = this.buildScheduleConstraints(request, tasks, options);
+    
+    const solution = solveStudySchedule({
+      startDate: request.start_date,
+      endDate: request.end_date,
+      profile: studyProfile,
+      demands,
+      busy,
+      excludeDates: request.exclude_dates,
+      createdAt: options.createdAt
+    });
+    
+    logger.debug('[ScheduleOptimizer] Constrained schedule generated', {
+      demands: demands.length,
+      sessions: solution.sessions.length,
+      unmet: solution.unmet.length
+    });
+    
+    return solution;
+  }
+  
+  /**
+   * Repair an existing schedule against the current calendar: keep what was
+   * done and what still fits, and move missed or invalidated work into free
+   * time from now on. `now` is a local YYYY-MM-DDTHH:MM timestamp.
+   */
+  static repairConstrainedSchedule(
+    sessions: StudySession[],
+    request: ConstrainedScheduleRequest,
+    studyProfile: StudyProfile,
+    tasks: Task[],
+    options: ConstrainedScheduleOptions,
+    now: string
+  ): ScheduleRepair {
+    const today = now.slice(0, 10);
+    // Work due before today can no longer be scheduled
+    const { demands, busy } = this.buildScheduleConstraints(
+      { ...request, start_date: request.start_date > today ? request.start_date : today },
+      tasks,
+      options
+    );
+    
+    const repair = repairStudySchedule({
+      sessions,
+      endDate: request.end_date,
+      profile: studyProfile,
+      demands,
+      busy,
+      excludeDates: request.exclude_dates,
+      createdAt: options.createdAt,
+      now
+    });
+    
+    logger.debug('[ScheduleOptimizer] Schedule repaired', {
+      changes: repair.changes.length,
+      sessions: repair.sessions.length,
+      unmet: repair.unmet.length
+    });
+    
+    return repair;
+  }
+  
+  /**
+   * Study time needed per open task due in the range and per concept review,
+   * and the time the calendar already takes
+   */
+  private static buildScheduleConstraints(
+    request: ConstrainedScheduleRequest,
+    tasks: Task[],
+    options: ConstrainedScheduleOptions
+  ): { demands: StudyDemand[]; busy: BusyBlock[] } {
+    const { start_date: startDate, end_date: endDate } = request;
+    const isExam = options.isExam || (() => false);
+    const includeClass = (task: Task) =>
+      request.include_classes.length === 0 || (!!task.class && request.include_classes.includes(task.class));
+    
+    const demands: StudyDemand[] = expandRecurringTasks(tasks, startDate, endDate)
+      // Lectures and other events take up time rather than needing study time
+      .filter(task => !task.completed && !task.isDuration && task.dueDate && includeClass(task))
+      .filter(task => task.dueDate!.slice(0, 10) >= startDate && task.dueDate!.slice(0, 10) <= endDate)
+      .map(task => ({
+        id: task.id,
+        classId: task.class || 'unassigned',
+        label: task.title,
+        taskIds: [task.id],
+        minutes: Math.round(options.estimateMinutes(task)),
+        deadline: getTaskDeadline(task),
+        difficulty: options.getDifficulty?.(task) ?? 3,
+        sessionType: isExam(task) ? 'exam_prep' : 'practice'
+      }));
+    
+    const reviews = (options.getReviewDemands?.(startDate, endDate) || [])
+      .filter(demand => request.include_classes.length === 0 || request.include_classes.includes(demand.classId));
+    
+    return { demands: [...demands, ...reviews], busy: getBusyBlocks(tasks, startDate, endDate, isExam) };
+  }
+  
   /**
    * Initialize optimization context with all necessary data
    */
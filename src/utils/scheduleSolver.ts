@@ -0,0 +1,478 @@
+import type {
+  StudySession,
+  StudySessionType,
+  StudyProfile,
+  StudyTimePreference,
+  ScheduleChange,
+  UnmetConstraint
+} from '../types/studySchedule';
+import type { Task } from '../types/database';
+import { expandRecurringTasks, shiftDateString } from './recurringTaskHelpers';
+
+/**
+ * Constraint-based study scheduler
+ *
+ * Places study sessions inside the preferred study windows, around everything
+ * already in the calendar. Runs locally and deterministically: the same input
+ * always gives the same schedule.
+ *
+ * Hard constraints: sessions never overlap busy blocks, end before the
+ * deadline of the work they are for (and for reviews, don't start before
+ * the day they're due), and stay under the daily study limit.
+ * Soft constraints (scored): productive windows, alternating subjects and
+ * spreading the same work over several days.
+ */
+
+// Time already taken on a day, in minutes from midnight
+export interface BusyBlock {
+  date: string; // YYYY-MM-DD
+  start: number;
+  end: number;
+  label: string;
+  taskId?: string;
+}
+
+// Study time to place for one piece of work
+export interface StudyDemand {
+  id: string;
+  classId: string;
+  label: string;
+  taskIds: string[];
+  conceptIds?: string[]; // Concepts to review, for spaced-repetition sessions
+  minutes: number;
+  earliest?: string; // YYYY-MM-DD, no session before this day
+  deadline?: string; // YYYY-MM-DDTHH:MM, sessions must end by then
+  difficulty: number; // 1-5
+  sessionType: StudySessionType;
+}
+
+export interface ScheduleSolverInput {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  profile: Pick<StudyProfile, 'preferred_study_times' | 'focus_duration_minutes' | 'break_duration_minutes' | 'daily_study_limit_hours'>;
+  demands: StudyDemand[];
+  busy: BusyBlock[];
+  excludeDates?: string[];
+  fixed?: StudySession[]; // Sessions staying where they are; their time is taken
+  notBefore?: string; // YYYY-MM-DDTHH:MM, no session starts earlier
+  createdAt?: string; // Timestamp for the created sessions
+}
+
+export interface ScheduleSolution {
+  sessions: StudySession[];
+  unmet: UnmetConstraint[];
+}
+
+// A window-sized piece of free time a session can go into
+interface Slot {
+  index: number;
+  date: string;
+  start: number;
+  end: number;
+  productivity: number;
+  used: boolean;
+}
+
+// Exams with only a start time are assumed to take this long
+export const DEFAULT_EXAM_MINUTES = 120;
+
+// Shortest session worth placing; the session before the last is shortened
+// rather than leave a scrap shorter than this
+const MIN_SESSION_MINUTES = 15;
+
+// Score weights for the soft constraints
+const PRODUCTIVITY_WEIGHT = 1;
+const SAME_DAY_PENALTY = 5; // Same work twice on a day
+const ADJACENT_SUBJECT_PENALTY = 3; // Same class back to back
+const LATENESS_PENALTY = 0.2; // Per day later, so work doesn't pile up near deadlines
+
+const DAY_END = 24 * 60;
+
+// Sorts after every real deadline
+const NO_DEADLINE = '9999-12-31T23:59';
+
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const formatTime = (minutes: number): string =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+// Weekday of a YYYY-MM-DD date, independent of the device's time zone
+const getWeekday = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const listDates = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = shiftDateString(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+const atTime = (date: string, minutes: number): string => `${date}T${formatTime(Math.min(minutes, DAY_END - 1))}`;
+
+const toBusyBlock = (session: StudySession): BusyBlock => ({
+  date: session.date,
+  start: parseTime(session.start_time),
+  end: parseTime(session.start_time) + session.duration_minutes,
+  label: session.focus_area,
+});
+
+/**
+ * Whether a task takes up time in the calendar (a lecture, lab or event)
+ * rather than being due at a time. Deadline tasks keep the form's default
+ * start and end times too, so only isDuration counts.
+ */
+export const isTimedTask = (task: Task): boolean =>
+  Boolean(task.isDuration && task.startTime && task.endTime);
+
+/**
+ * Busy blocks from timed tasks in the calendar (lectures, labs, events),
+ * recurring ones expanded. Timed tasks spanning several days block every day
+ * in between. Exams with only a due time block DEFAULT_EXAM_MINUTES from it.
+ */
+export const getBusyBlocks = (
+  tasks: Task[],
+  startDate: string,
+  endDate: string,
+  isExam: (task: Task) => boolean = () => false
+): BusyBlock[] => {
+  const blocks: BusyBlock[] = [];
+
+  expandRecurringTasks(tasks, startDate, endDate).forEach(task => {
+    const taskId = task.seriesId || task.id;
+    if (isTimedTask(task)) {
+      const first = (task.startDate || task.date || task.dueDate || '').slice(0, 10);
+      const last = (task.endDate || first).slice(0, 10);
+      if (!first) return;
+      listDates(first < startDate ? startDate : first, last > endDate ? endDate : last).forEach(date => {
+        blocks.push({
+          date,
+          start: date === first ? parseTime(task.startTime!) : 0,
+          end: date === last ? parseTime(task.endTime!) : DAY_END,
+          label: task.title,
+          taskId,
+        });
+      });
+    } else if (task.dueDate && task.dueTime && isExam(task)) {
+      const date = task.dueDate.slice(0, 10);
+      if (date < startDate || date > endDate) return;
+      const start = parseTime(task.dueTime);
+      blocks.push({ date, start, end: Math.min(DAY_END, start + DEFAULT_EXAM_MINUTES), label: task.title, taskId });
+    }
+  });
+
+  return blocks.filter(block => block.end > block.start);
+};
+
+/**
+ * When work on a task has to be done by: the start of a timed task, else its
+ * due time, else the end of its due date
+ */
+export const getTaskDeadline = (task: Task): string | undefined => {
+  if (isTimedTask(task) && (task.startDate || task.date)) {
+    return `${(task.startDate || task.date)!.slice(0, 10)}T${task.startTime}`;
+  }
+  if (!task.dueDate) return undefined;
+  return `${task.dueDate.slice(0, 10)}T${task.dueTime || '23:59'}`;
+};
+
+// Free time in the preferred windows of a day, cut into session-sized slots
+const buildSlots = (
+  dates: string[],
+  preferences: StudyTimePreference[],
+  busy: BusyBlock[],
+  sessionMinutes: number,
+  breakMinutes: number
+): Slot[] => {
+  const slots: Slot[] = [];
+
+  dates.forEach(date => {
+    const weekday = getWeekday(date);
+    const dayBusy = busy.filter(block => block.date === date);
+    const windows = preferences
+      .filter(pref => pref.day_of_week === weekday)
+      .sort((a, b) => parseTime(a.start_time) - parseTime(b.start_time));
+
+    windows.forEach(pref => {
+      let start = parseTime(pref.start_time);
+      const windowEnd = parseTime(pref.end_time);
+      while (start + MIN_SESSION_MINUTES <= windowEnd) {
+        const end = Math.min(start + sessionMinutes, windowEnd);
+        const conflict = dayBusy
+          .filter(block => block.start < end && block.end > start)
+          .sort((a, b) => b.end - a.end)[0];
+        if (conflict) {
+          // Try again right after the busy block
+          start = conflict.end;
+          continue;
+        }
+        if (!slots.some(slot => slot.date === date && slot.start < end && slot.end > start)) {
+          slots.push({ index: slots.length, date, start, end, productivity: pref.productivity_score, used: false });
+        }
+        start = end + breakMinutes;
+      }
+    });
+  });
+
+  return slots.sort((a, b) => a.date.localeCompare(b.date) || a.start - b.start)
+    .map((slot, index) => ({ ...slot, index }));
+};
+
+/**
+ * Schedules study sessions for the demands. Work due soonest is placed first
+ * (earliest deadline first), each session going into the best-scoring free
+ * slot that satisfies every hard constraint. Whatever doesn't fit is reported
+ * with the constraint that stopped it.
+ */
+export const solveStudySchedule = (input: ScheduleSolverInput): ScheduleSolution => {
+  const { profile } = input;
+  const fixed = input.fixed || [];
+  const createdAt = input.createdAt || new Date().toISOString();
+  const excluded = new Set(input.excludeDates || []);
+  const dates = listDates(input.startDate, input.endDate).filter(date => !excluded.has(date));
+  const slots = buildSlots(
+    dates,
+    profile.preferred_study_times,
+    [...input.busy, ...fixed.map(toBusyBlock)],
+    profile.focus_duration_minutes,
+    profile.break_duration_minutes
+  ).filter(slot => !input.notBefore || atTime(slot.date, slot.start) >= input.notBefore);
+  const dayIndex = new Map(dates.map((date, index) => [date, index]));
+  const dailyLimit = profile.daily_study_limit_hours * 60;
+  const minutesByDate = new Map<string, number>();
+  fixed.forEach(session => {
+    minutesByDate.set(session.date, (minutesByDate.get(session.date) || 0) + session.duration_minutes);
+  });
+  const classBySlot = new Map<number, string>();
+  const sessions: StudySession[] = [];
+  const unmet: UnmetConstraint[] = [];
+
+  const demands = [...input.demands]
+    .filter(demand => demand.minutes > 0)
+    .sort((a, b) =>
+      (a.deadline || NO_DEADLINE).localeCompare(b.deadline || NO_DEADLINE) ||
+      b.minutes - a.minutes ||
+      a.id.localeCompare(b.id)
+    );
+
+  demands.forEach(demand => {
+    let remaining = demand.minutes;
+    const datesUsed = new Set<string>();
+    const fitsWindow = (slot: Slot) =>
+      (!demand.earliest || slot.date >= demand.earliest) &&
+      (!demand.deadline || atTime(slot.date, slot.end) <= demand.deadline);
+
+    while (remaining > 0) {
+      // Leave at least MIN_SESSION_MINUTES for the next session, never a scrap
+      const lengthIn = (slot: Slot) => {
+        const length = Math.min(remaining, profile.focus_duration_minutes, slot.end - slot.start);
+        const rest = remaining - length;
+        return rest > 0 && rest < MIN_SESSION_MINUTES ? remaining - MIN_SESSION_MINUTES : length;
+      };
+      const candidates = slots.filter(slot =>
+        !slot.used &&
+        lengthIn(slot) >= Math.min(MIN_SESSION_MINUTES, remaining) &&
+        fitsWindow(slot) &&
+        (minutesByDate.get(slot.date) || 0) + lengthIn(slot) <= dailyLimit
+      );
+      if (candidates.length === 0) break;
+
+      const score = (slot: Slot): number => {
+        const neighbours = [slots[slot.index - 1], slots[slot.index + 1]]
+          .filter(neighbour => neighbour?.date === slot.date)
+          .map(neighbour => classBySlot.get(neighbour.index));
+        return slot.productivity * PRODUCTIVITY_WEIGHT
+          - (datesUsed.has(slot.date) ? SAME_DAY_PENALTY : 0)
+          - (neighbours.includes(demand.classId) ? ADJACENT_SUBJECT_PENALTY : 0)
+          - dayIndex.get(slot.date)! * LATENESS_PENALTY;
+      };
+      // Highest score wins; ties go to the earlier slot
+      const best = candidates.reduce((top, slot) => (score(slot) > score(top) ? slot : top));
+
+      const length = lengthIn(best);
+      best.used = true;
+      classBySlot.set(best.index, demand.classId);
+      datesUsed.add(best.date);
+      minutesByDate.set(best.date, (minutesByDate.get(best.date) || 0) + length);
+      remaining -= length;
+
+      sessions.push({
+        id: `session_${best.date}_${formatTime(best.start).replace(':', '')}`,
+        schedule_id: '',
+        date: best.date,
+        start_time: formatTime(best.start),
+        end_time: formatTime(best.start + length),
+        duration_minutes: length,
+        class_id: demand.classId,
+        task_ids: demand.taskIds,
+        ...(demand.conceptIds ? { concept_ids: demand.conceptIds } : {}),
+        session_type: demand.sessionType,
+        focus_area: demand.label,
+        difficulty_level: demand.difficulty,
+        prerequisite_concepts: [],
+        learning_objectives: demand.conceptIds
+          ? ['Recall each concept before checking your notes, then rate how well you remembered it']
+          : [`Make progress on ${demand.label}`],
+        status: 'scheduled',
+        created_at: createdAt,
+        updated_at: createdAt
+      });
+    }
+
+    if (remaining > 0) {
+      unmet.push(describeUnmet(demand, remaining, slots, fitsWindow));
+    }
+  });
+
+  sessions.sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+  return { sessions, unmet };
+};
+
+// Works out which hard constraint kept the rest of a demand off the schedule
+const describeUnmet = (
+  demand: StudyDemand,
+  minutes: number,
+  slots: Slot[],
+  fitsWindow: (slot: Slot) => boolean
+): UnmetConstraint => {
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  const base = { demandId: demand.id, classId: demand.classId, taskIds: demand.taskIds, unscheduledMinutes: minutes };
+
+  if (slots.length === 0) {
+    return {
+      ...base,
+      kind: 'no_study_time',
+      reason: `No free study time in this period for ${demand.label} (${hours}h unscheduled)`,
+    };
+  }
+  if (slots.some(slot => !slot.used && fitsWindow(slot))) {
+    return {
+      ...base,
+      kind: 'daily_limit',
+      reason: `${hours}h of ${demand.label} would go over your daily study limit`,
+    };
+  }
+  if (demand.deadline) {
+    return {
+      ...base,
+      kind: 'deadline',
+      reason: `${hours}h of ${demand.label} doesn't fit before it's due on ${demand.deadline.slice(0, 10)}`,
+    };
+  }
+  return {
+    ...base,
+    kind: 'no_study_time',
+    reason: `Not enough free study time for ${demand.label} (${hours}h unscheduled)`,
+  };
+};
+
+export interface ScheduleRepairInput extends Omit<ScheduleSolverInput, 'startDate' | 'fixed' | 'notBefore'> {
+  sessions: StudySession[]; // The schedule as it is
+  now: string; // YYYY-MM-DDTHH:MM
+}
+
+export interface ScheduleRepair extends ScheduleSolution {
+  changes: ScheduleChange[];
+}
+
+const DONE_STATUSES: StudySession['status'][] = ['completed', 'in_progress'];
+
+// Sessions are matched to their demand on their first task, or for reviews
+// their first concept
+const getWorkKey = (taskIds: string[], conceptIds: string[] = []): string | undefined =>
+  taskIds[0] ?? (conceptIds[0] ? `concept:${conceptIds[0]}` : undefined);
+
+// Why a session can't stay where it is, or null when it's still fine
+const getInvalidReason = (
+  session: StudySession,
+  input: ScheduleRepairInput,
+  demandsByWork: Map<string, StudyDemand>
+): string | null => {
+  const start = parseTime(session.start_time);
+  const end = start + session.duration_minutes;
+  if (session.status === 'skipped') return 'Skipped';
+  if (atTime(session.date, end) <= input.now) return 'Missed';
+  if ((input.excludeDates || []).includes(session.date)) return 'Date excluded';
+
+  const key = getWorkKey(session.task_ids, session.concept_ids);
+  const demand = key ? demandsByWork.get(key) : undefined;
+  if (key && !demand) return session.task_ids.length > 0 ? 'Task completed or removed' : 'Review no longer due';
+  if (demand?.earliest && session.date < demand.earliest) return 'Review moved later';
+  if (demand?.deadline && atTime(session.date, end) > demand.deadline) return 'Due date moved earlier';
+
+  const clash = input.busy.find(block => block.date === session.date && block.start < end && block.end > start);
+  return clash ? `Clashes with ${clash.label}` : null;
+};
+
+/**
+ * Repairs a schedule instead of regenerating it. Completed sessions and
+ * upcoming ones that still fit stay as they are; skipped, missed and no
+ * longer valid sessions are dropped, and the work they were for goes into
+ * free slots from now until its deadline. Returns the new sessions and how
+ * they differ from the old ones.
+ */
+export const repairStudySchedule = (input: ScheduleRepairInput): ScheduleRepair => {
+  const demandsByWork = new Map<string, StudyDemand>();
+  input.demands.forEach(demand => {
+    demand.taskIds.forEach(taskId => demandsByWork.set(taskId, demand));
+    (demand.conceptIds || []).forEach(conceptId => demandsByWork.set(`concept:${conceptId}`, demand));
+  });
+
+  const kept: StudySession[] = [];
+  const removed: { session: StudySession; reason: string }[] = [];
+  input.sessions.forEach(session => {
+    const reason = DONE_STATUSES.includes(session.status) ? null : getInvalidReason(session, input, demandsByWork);
+    if (reason) {
+      removed.push({ session, reason });
+    } else {
+      kept.push(session);
+    }
+  });
+
+  // Work still needed: the estimate, less what's done or still planned. A
+  // session before a demand's first day was for an earlier review of the
+  // same concepts, so it doesn't count towards the next one.
+  const plannedByDemand = new Map<string, number>();
+  kept.forEach(session => {
+    const key = getWorkKey(session.task_ids, session.concept_ids);
+    const demand = key ? demandsByWork.get(key) : undefined;
+    if (demand && (!demand.earliest || session.date >= demand.earliest)) plannedByDemand.set(demand.id, (plannedByDemand.get(demand.id) || 0) + session.duration_minutes);
+  });
+  const remaining = input.demands.map(demand => ({
+    ...demand,
+    minutes: Math.max(0, demand.minutes - (plannedByDemand.get(demand.id) || 0)),
+  }));
+
+  const solution = solveStudySchedule({
+    ...input,
+    startDate: input.now.slice(0, 10),
+    demands: remaining,
+    fixed: kept,
+    notBefore: input.now,
+  });
+
+  // Pair each demand's dropped sessions with its new ones as moves
+  const changes: ScheduleChange[] = [];
+  const added = solution.sessions.map(session => ({ ...session, status: 'rescheduled' as const }));
+  const unpaired = [...added];
+  removed.forEach(({ session, reason }) => {
+    const key = getWorkKey(session.task_ids, session.concept_ids);
+    const index = unpaired.findIndex(candidate => getWorkKey(candidate.task_ids, candidate.concept_ids) === key);
+    if (index >= 0 && key) {
+      changes.push({ kind: 'moved', session: unpaired[index], previous: session, reason });
+      unpaired.splice(index, 1);
+    } else {
+      changes.push({ kind: 'removed', session, reason });
+    }
+  });
+  unpaired.forEach(session => changes.push({ kind: 'added', session }));
+
+  const sessions = [...kept, ...added]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+  return { sessions, unmet: solution.unmet, changes };
+};
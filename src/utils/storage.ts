@@ -41,6 +41,8 @@ class Storage {
     SETTINGS: 'calendar_settings',
     CANVAS_URL: 'canvas_calendar_url',
     CANVAS_AUTO_SYNC: 'canvas_auto_sync',
+    CANVAS_SYNC_SNAPSHOTS: 'canvas_sync_snapshots',
+    CALENDAR_FEEDS: 'calendar_feeds',
     LAST_SYNC: 'last_sync_timestamp'
   } as const;
 
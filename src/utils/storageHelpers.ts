@@ -109,10 +109,27 @@ export const clearLocalUserData = async (): Promise<boolean> => {
       // Canvas integration data
       'canvas_calendar_url',
       'canvas_auto_sync',
+      'calendar_feeds',
+      'canvas_sync_snapshots',
       
       // User preferences and session data
       'userDisplayName',
       'last_sync_timestamp',
+
+      // Offline sync state and the tables only cached for sync
+      'sync_operation_log',
+      'sync_shadow',
+      'sync_conflicts',
+      'grade_categories',
+      'grade_assignments',
+      'grade_grades',
+      'study_sessions',
+      'study_session_segments',
+      'study_concepts',
+      'concept_reviews',
+      'focus_timer',
+      'exam_prep_plans',
+      'syllabus_task_rejections',
       
       // Note: We preserve theme preferences as they're not user-data specific
     ];
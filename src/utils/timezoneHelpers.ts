@@ -0,0 +1,190 @@
+// Time zone utilities built on the Intl API (no tz database bundled)
+
+/**
+ * Wall-clock date/time components, independent of any time zone
+ */
+export interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Windows zone names emitted by Outlook/Exchange feeds mapped to IANA zones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Atlantic Standard Time': 'America/Halifax',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+  'UTC': 'UTC',
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Returns the IANA time zone configured on this device
+ */
+export const getUserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Checks whether the runtime recognises an IANA time zone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Normalizes a TZID parameter value to an IANA zone name.
+ * Handles quoted values, "/mozilla.org/..." style prefixes and Windows zone names.
+ *
+ * @returns IANA zone name, or null when the zone cannot be resolved
+ */
+export const normalizeTimeZoneId = (tzid: string | undefined | null): string | null => {
+  if (!tzid) return null;
+
+  let candidate = tzid.trim().replace(/^"|"$/g, '');
+  if (WINDOWS_TIME_ZONES[candidate]) {
+    candidate = WINDOWS_TIME_ZONES[candidate];
+  }
+
+  if (isValidTimeZone(candidate)) return candidate;
+
+  // Strip vendor prefixes such as "/mozilla.org/20050126_1/America/New_York"
+  const ianaMatch = candidate.match(/([A-Za-z_]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/);
+  if (ianaMatch && isValidTimeZone(ianaMatch[1])) {
+    return ianaMatch[1];
+  }
+
+  return null;
+};
+
+/**
+ * Returns the wall-clock components of an instant as seen in a time zone
+ */
+export const getWallClockTime = (date: Date, timeZone: string): WallClockTime => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second'),
+  };
+};
+
+/**
+ * Returns the UTC offset of a time zone at a given instant, in minutes east of UTC
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const wall = getWallClockTime(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+};
+
+/**
+ * Converts a wall-clock time in a time zone to the matching instant.
+ * Non-existent times (spring-forward gaps) resolve forward, ambiguous times
+ * (fall-back overlaps) resolve to the earlier instant, as RFC 5545 requires.
+ */
+export const wallClockToDate = (wall: WallClockTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(asUtc - 86400000), timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(new Date(asUtc + 86400000), timeZone);
+
+  // Try the earlier offset first so ambiguous times pick the first occurrence
+  const offsets = offsetBefore >= offsetAfter ? [offsetBefore, offsetAfter] : [offsetAfter, offsetBefore];
+  for (const offset of offsets) {
+    const candidate = new Date(asUtc - offset * 60000);
+    const check = getWallClockTime(candidate, timeZone);
+    if (
+      check.year === wall.year && check.month === wall.month && check.day === wall.day &&
+      check.hour === wall.hour && check.minute === wall.minute
+    ) {
+      return candidate;
+    }
+  }
+
+  // Wall time falls in a DST gap - shift forward by the size of the gap
+  return new Date(asUtc - Math.min(offsetBefore, offsetAfter) * 60000);
+};
+
+/**
+ * Formats an instant as YYYY-MM-DD in a time zone
+ */
+export const formatDateInTimeZone = (date: Date, timeZone: string): string => {
+  const wall = getWallClockTime(date, timeZone);
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+};
+
+/**
+ * Formats an instant as HH:MM (24-hour) in a time zone
+ */
+export const formatTimeInTimeZone = (date: Date, timeZone: string): string => {
+  const wall = getWallClockTime(date, timeZone);
+  return `${String(wall.hour).padStart(2, '0')}:${String(wall.minute).padStart(2, '0')}`;
+};
+
+/**
+ * Returns the short name of a time zone at an instant (e.g. "PDT"), falling back
+ * to a GMT offset label where the runtime has no abbreviation
+ */
+export const getTimeZoneAbbreviation = (date: Date, timeZone: string): string => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+    return parts.find(part => part.type === 'timeZoneName')?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
@@ -0,0 +1,62 @@
+// Public, read-only ICS feed: GET /functions/v1/calendar-feed?token=...
+//
+// Calendar apps can't send a Supabase JWT, so JWT verification is disabled for
+// this function (see config.toml) and the feed token is the only credential.
+// Rows are read with the service role key; the token lookup scopes every query
+// to the feed owner's user id.
+import { createClient } from '@supabase/supabase-js';
+import { renderCalendarFeed, type CalendarFeedSource } from '../../../src/services/feedToken/feedRenderer.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false } }
+);
+
+const feedSource: CalendarFeedSource = {
+  async findFeed(token) {
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async loadFeedData(userId) {
+    const [tasks, classes, taskTypes] = await Promise.all([
+      supabase.from('tasks').select('*').eq('user_id', userId),
+      supabase.from('classes').select('*').eq('user_id', userId),
+      supabase.from('task_types').select('*').eq('user_id', userId),
+    ]);
+
+    const error = tasks.error || classes.error || taskTypes.error;
+    if (error) throw error;
+
+    return {
+      tasks: tasks.data ?? [],
+      classes: classes.data ?? [],
+      taskTypes: taskTypes.data ?? [],
+    };
+  },
+
+  async markAccessed(feedId, accessedAt) {
+    await supabase.from('calendar_feed_tokens').update({ last_accessed_at: accessedAt }).eq('id', feedId);
+  },
+};
+
+Deno.serve(async (req: Request) => {
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    const { status, headers, body } = await renderCalendarFeed(req.method, token, feedSource);
+    return new Response(req.method === 'HEAD' ? null : body, { status, headers });
+  } catch (error) {
+    console.error('calendar-feed failed:', error);
+    return new Response('Calendar feed temporarily unavailable', {
+      status: 503,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  }
+});
@@ -0,0 +1,91 @@
+// Web Push sender: POST /functions/v1/send-push-notification
+// Body: { user_id, title, body, url?, tag? }
+//
+// Signs messages with the VAPID key pair and sends them to every device the
+// user subscribed. Callers may only notify themselves, unless they use the
+// service role key (scheduled reminder runs). Subscriptions the push service
+// reports as expired are removed.
+import { createClient } from '@supabase/supabase-js';
+import webpush from 'web-push';
+import {
+  deliverPushMessage,
+  readPushMessage,
+  type PushDeliveryTarget,
+} from '../../../src/services/notifications/pushDelivery.ts';
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT') ?? 'mailto:tony@schedulebud.com',
+  Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+  Deno.env.get('VAPID_PRIVATE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const target: PushDeliveryTarget = {
+  async listSubscriptions(userId) {
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async removeSubscriptions(ids) {
+    const { error } = await supabase.from('push_subscriptions').delete().in('id', ids);
+    if (error) console.error('Could not remove expired push subscriptions:', error);
+  },
+
+  async send(subscription, payload) {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      payload
+    );
+  },
+};
+
+// Whether the caller may send to this user: themselves, or the service role
+const isAllowed = async (req: Request, userId: string): Promise<boolean> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return false;
+  if (serviceRoleKey && token === serviceRoleKey) return true;
+
+  const { data } = await supabase.auth.getUser(token);
+  return data.user?.id === userId;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed' });
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const userId = typeof body.user_id === 'string' ? body.user_id : '';
+    const message = readPushMessage(body);
+    if (!userId || !message) return json(400, { error: 'user_id and title are required' });
+    if (!(await isAllowed(req, userId))) return json(403, { error: 'Not allowed to notify this user' });
+
+    const report = await deliverPushMessage(userId, message, target);
+    // Nothing reached a device, so the caller shouldn't count the reminder as sent
+    if (report.sent === 0) return json(report.failed > 0 ? 502 : 404, report);
+    return json(200, report);
+  } catch (error) {
+    console.error('send-push-notification failed:', error);
+    return json(500, { error: 'Push delivery failed' });
+  }
+});